@@ -0,0 +1,134 @@
+// Service worker for Hanna's Garden: reminder notifications, and the caches
+// that let the app open and show the user's plants and reminders offline
+
+const SHELL_CACHE = 'garden-shell-v1';
+const ASSET_CACHE = 'garden-assets-v1';
+const API_CACHE = 'garden-api-v1';
+const CACHES = [SHELL_CACHE, ASSET_CACHE, API_CACHE];
+
+const STATIC_FILES = ['/manifest.webmanifest', '/icons/icon-192.png', '/icons/icon-512.png'];
+
+// API reads answered from the cache when offline: the signed-in user, their
+// plants with photos, care logs and reminders, and their reminder lists
+const OFFLINE_API = /^\/api\/(auth\/user|plants(\/\d+(\/(care-logs|reminders|photos))?)?|reminders(\/overdue|\/upcoming\/\d+)?)$/;
+
+// Caches index.html and the bundles it loads, so the app opens without a connection
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    try {
+      const response = await fetch('/', { cache: 'no-cache' });
+      if (response.ok) {
+        const html = await response.clone().text();
+        await (await caches.open(SHELL_CACHE)).put('/', response);
+        const assets = Array.from(html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g), (match) => match[1]);
+        await (await caches.open(ASSET_CACHE)).addAll([...new Set(assets), ...STATIC_FILES]);
+      }
+    } catch {
+      // Cached on the next visit instead
+    }
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    for (const name of await caches.keys()) {
+      if (!CACHES.includes(name)) {
+        await caches.delete(name);
+      }
+    }
+    await self.clients.claim();
+  })());
+});
+
+// Fresh from the network when possible, from the cache when not
+async function networkFirst(request, cacheName, cacheKey = request) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    const isHtml = (response.headers.get('Content-Type') || '').includes('text/html');
+    if (response.ok && (cacheName !== SHELL_CACHE || isHtml)) {
+      await cache.put(cacheKey, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(cacheKey);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// For files that never change under the same URL: hashed bundles, icons and uploaded photos
+async function cacheFirst(request) {
+  const cache = await caches.open(ASSET_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  // Writes go to the network; the app queues them itself when offline
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate' && !url.pathname.startsWith('/api/')) {
+    // Every page is the same single-page app, so they all share one cached copy
+    event.respondWith(networkFirst(request, SHELL_CACHE, '/'));
+  } else if (OFFLINE_API.test(url.pathname)) {
+    event.respondWith(networkFirst(request, API_CACHE));
+  } else if (url.pathname.startsWith('/assets/') || url.pathname.startsWith('/uploads/') || STATIC_FILES.includes(url.pathname)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
+
+// Sent by the app on logout, so the next user of the device doesn't see this one's garden
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'clear-api-cache') {
+    event.waitUntil(caches.delete(API_CACHE));
+  }
+});
+
+self.addEventListener('push', (event) => {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
+  } catch {
+    data = { body: event.data ? event.data.text() : '' };
+  }
+
+  const title = data.title || "Hanna's Garden";
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body: data.body || '',
+      tag: data.tag,
+      icon: '/icons/icon-192.png',
+      data: { url: data.url || '/' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || '/';
+
+  // Focus an open tab if there is one, otherwise open a new one
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      for (const client of clients) {
+        if ('focus' in client) {
+          client.navigate(url);
+          return client.focus();
+        }
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
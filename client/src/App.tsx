@@ -18,7 +18,10 @@ import Guides from "@/pages/guides";
 import Profile from "@/pages/profile";
 import ProfileView from "@/pages/profile-view";
 import ProfileSettings from "@/pages/profile-settings";
+import GardenInvite from "@/pages/garden-invite";
 import ActivityFeed from "@/pages/activity-feed";
+import AdminAiUsage from "@/pages/admin-ai-usage";
+import AdminModeration from "@/pages/admin-moderation";
 import Discover from "@/pages/discover";
 import Tools from "@/pages/tools";
 import LightMeterPage from "@/pages/light-meter";
@@ -36,6 +39,7 @@ import HealthDiagnosisDemo from "@/pages/health-diagnosis-demo";
 import AuthPage from "@/pages/auth-page";
 import SharedPlantView from "@/pages/shared-plant-view";
 import SharedCareLogView from "@/pages/shared-care-log-view";
+import SitterView from "@/pages/sitter-view";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -49,6 +53,11 @@ function Router() {
         </SharedPageLayout>
       </Route>
       <Route path="/sc/:shareId" component={SharedCareLogView} />
+      <Route path="/sitter/:shareId">
+        <SharedPageLayout>
+          <SitterView />
+        </SharedPageLayout>
+      </Route>
       
       {/* Protected routes - require authentication */}
       <Route path="/">
@@ -195,6 +204,14 @@ function Router() {
         </ProtectedRoute>
       </Route>
       
+      <Route path="/gardens/join/:token">
+        <ProtectedRoute>
+          <MainLayout>
+            <GardenInvite />
+          </MainLayout>
+        </ProtectedRoute>
+      </Route>
+      
       <Route path="/feed">
         <ProtectedRoute>
           <MainLayout>
@@ -203,6 +220,22 @@ function Router() {
         </ProtectedRoute>
       </Route>
       
+      <Route path="/admin/ai-usage">
+        <ProtectedRoute>
+          <MainLayout>
+            <AdminAiUsage />
+          </MainLayout>
+        </ProtectedRoute>
+      </Route>
+      
+      <Route path="/admin/moderation">
+        <ProtectedRoute>
+          <MainLayout>
+            <AdminModeration />
+          </MainLayout>
+        </ProtectedRoute>
+      </Route>
+      
       <Route path="/discover">
         <ProtectedRoute>
           <MainLayout>
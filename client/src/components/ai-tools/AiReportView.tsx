@@ -0,0 +1,261 @@
+import { useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { formatDate } from '@/lib/utils';
+import { BellPlus, Check } from 'lucide-react';
+import { type AiReportFeature, type AiReportWithActions } from '@shared/schema';
+
+export const AI_REPORT_LABELS: Record<AiReportFeature, string> = {
+  personalized_advice: 'Personalized advice',
+  seasonal_care: 'Seasonal care guide',
+  arrangement: 'Arrangement suggestions',
+  growth_analysis: 'Growth analysis',
+  care_schedule: 'Care schedule',
+};
+
+export interface ReportSection {
+  title: string;
+  items: string[];
+  // Items in this section are the report's actions `${actionKey}.${index}`
+  actionKey?: string;
+}
+
+/**
+ * Marks every saved report list as stale, e.g. after an AI tool saved a new one.
+ */
+export function invalidateAiReports(queryClient: QueryClient) {
+  queryClient.invalidateQueries({
+    predicate: (query) => typeof query.queryKey[0] === 'string' && query.queryKey[0].startsWith('/api/ai-reports'),
+  });
+}
+
+// Stored results are JSON saved by whichever version of a feature ran, so they
+// are read field by field instead of being trusted to match today's result types
+type Fields = Record<string, unknown>;
+
+function fields(value: unknown): Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Fields : {};
+}
+
+function fieldList(value: unknown): Fields[] {
+  return Array.isArray(value) ? value.map(fields) : [];
+}
+
+function strings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+}
+
+function text(value: unknown): string[] {
+  return typeof value === 'string' && value.trim() !== '' ? [value] : [];
+}
+
+/**
+ * Flattens a stored AI result into titled lists of sentences, which is how
+ * reports are shown and compared.
+ */
+export function reportSections(feature: AiReportFeature, stored: unknown): ReportSection[] {
+  const result = fields(stored);
+  const sections: ReportSection[] = [];
+  const add = (title: string, items: string[], actionKey?: string) => {
+    if (items.length > 0) sections.push({ title, items, actionKey });
+  };
+
+  switch (feature) {
+    case 'personalized_advice':
+    case 'personalized_advice': {
+      const careActions = fields(result.careActions);
+      add('Do now', strings(careActions.immediate), 'immediate');
+      add('This week', strings(careActions.thisWeek), 'thisWeek');
+      add('This month', strings(careActions.thisMonth), 'thisMonth');
+      add('What to watch for', strings(result.observationTips));
+      add('Common problems', fieldList(result.commonProblems).flatMap((problem) =>
+        text(problem.issue).flatMap((issue) => text(problem.solution).map((solution) => `${issue}: ${solution}`))));
+      add('Growth expectations', text(result.growthExpectations));
+      add('Seasonal adjustments', text(result.seasonalAdjustments));
+      add('Signs of success', strings(result.successMetrics));
+      break;
+    }
+    case 'seasonal_care':
+      add(typeof result.season === 'string' ? `${result.season} overview` : 'Overview', text(result.generalRecommendations));
+      for (const plant of fieldList(result.plants)) {
+        add(text(plant.name)[0] ?? 'Plant', [
+          ...text(plant.watering).map((item) => `Watering: ${item}`),
+          ...text(plant.light).map((item) => `Light: ${item}`),
+          ...text(plant.fertilizing).map((item) => `Fertilizing: ${item}`),
+          ...text(plant.pruning).map((item) => `Pruning: ${item}`),
+          ...text(plant.specialCare).map((item) => `Special care: ${item}`),
+        ]);
+      }
+      break;
+    case 'arrangement': {
+      const recommendations = fields(result.recommendations);
+      add('Recommendations', [
+        ...text(recommendations.grouping),
+        ...text(recommendations.placement),
+        ...text(recommendations.aesthetics),
+        ...text(recommendations.careConsiderations),
+      ]);
+      for (const group of fieldList(result.plantGroups)) {
+        add(text(group.name)[0] ?? 'Group', [
+          ...(strings(group.plants).length > 0 ? [`Plants: ${strings(group.plants).join(', ')}`] : []),
+          ...text(group.location).map((item) => `Location: ${item}`),
+          ...text(group.notes),
+        ]);
+      }
+      add('How it looks', text(result.visualDescription));
+      break;
+    }
+    case 'growth_analysis':
+      add('Assessment', [
+        ...text(result.growthAssessment),
+        ...text(result.growthRate).map((rate) => `Growth rate: ${rate}`),
+      ]);
+      add('Health changes', text(result.healthChanges));
+      add('Potential issues', strings(result.potentialIssues));
+      add('Recommendations', strings(result.recommendations), 'recommendations');
+      add('Comparison notes', text(result.comparisonNotes));
+      break;
+    case 'care_schedule':
+      for (const day of fieldList(result.weeklySchedule)) {
+        add(text(day.day)[0] ?? 'Day', fieldList(day.tasks).flatMap((task) => {
+          const [plantName] = text(task.plantName);
+          const [careType] = text(task.careType);
+          if (!plantName || !careType) return [];
+          const time = text(task.estimatedTime).map((estimate) => ` (${estimate})`).join('');
+          return [`${plantName}: ${careType}${time}. ${text(task.instructions).join('')}`.trimEnd()];
+        }));
+      }
+      add('Special notes', strings(result.specialNotes));
+      add('Efficiency tips', strings(result.efficiencyTips));
+      break;
+  }
+  return sections;
+}
+
+interface AiReportViewProps {
+  report: AiReportWithActions;
+}
+
+/**
+ * A saved AI report. Its action items can each be turned into a reminder.
+ */
+export function AiReportView({ report }: AiReportViewProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const actions = new Map(report.actions.map((action) => [action.id, action]));
+
+  const reminderMutation = useMutation({
+    mutationFn: async (actionId: string) => {
+      const res = await apiRequest('POST', `/api/ai-reports/${report.id}/actions/${encodeURIComponent(actionId)}/reminder`);
+      return await res.json() as { reminder: { plantId: number } };
+    },
+    onSuccess: ({ reminder }) => {
+      invalidateAiReports(queryClient);
+      queryClient.invalidateQueries({ queryKey: [`/api/plants/${reminder.plantId}/reminders`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/reminders'] });
+      toast({ title: 'Reminder added' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        {AI_REPORT_LABELS[report.feature]} · {formatDate(new Date(report.createdAt))}
+      </p>
+      {reportSections(report.feature, report.result).map((section) => (
+        <div key={section.title} className="p-3 bg-background border border-border rounded-md text-sm">
+          <p className="font-medium">{section.title}</p>
+          <ul className="mt-2 space-y-2 text-xs text-muted-foreground">
+            {section.items.map((item, index) => {
+              const action = section.actionKey ? actions.get(`${section.actionKey}.${index}`) : undefined;
+              return (
+                <li key={index} className="flex items-start justify-between gap-2">
+                  <span>{item}</span>
+                  {action && (action.reminderId !== null ? (
+                    <Badge variant="secondary" className="flex-shrink-0 text-[10px]">
+                      <Check className="h-3 w-3 mr-1" />
+                      Reminder set
+                    </Badge>
+                  ) : (
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      className="h-6 flex-shrink-0 px-2 text-[10px]"
+                      onClick={() => reminderMutation.mutate(action.id)}
+                      disabled={reminderMutation.isPending}
+                    >
+                      <BellPlus className="h-3 w-3 mr-1" />
+                      Add reminder
+                    </Button>
+                  ))}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function normalize(item: string): string {
+  return item.trim().toLowerCase();
+}
+
+interface AiReportComparisonProps {
+  older: AiReportWithActions;
+  newer: AiReportWithActions;
+}
+
+/**
+ * Two reports from the same AI tool side by side as one list: items only in the
+ * newer report are marked new, and items it dropped are shown struck through.
+ */
+export function AiReportComparison({ older, newer }: AiReportComparisonProps) {
+  const olderSections = reportSections(older.feature, older.result);
+  const newerSections = reportSections(newer.feature, newer.result);
+  const titles = Array.from(new Set([...newerSections, ...olderSections].map((section) => section.title)));
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        {formatDate(new Date(older.createdAt))} compared with {formatDate(new Date(newer.createdAt))}
+      </p>
+      {titles.map((title) => {
+        const before = olderSections.find((section) => section.title === title)?.items ?? [];
+        const after = newerSections.find((section) => section.title === title)?.items ?? [];
+        const beforeSet = new Set(before.map(normalize));
+        const afterSet = new Set(after.map(normalize));
+        const removed = before.filter((item) => !afterSet.has(normalize(item)));
+
+        return (
+          <div key={title} className="p-3 bg-background border border-border rounded-md text-sm">
+            <p className="font-medium">{title}</p>
+            <ul className="mt-2 space-y-2 text-xs">
+              {after.map((item, index) => (
+                <li key={`after-${index}`} className="flex items-start gap-2 text-muted-foreground">
+                  {!beforeSet.has(normalize(item)) && (
+                    <Badge className="flex-shrink-0 text-[10px] bg-green-600 hover:bg-green-600">New</Badge>
+                  )}
+                  <span>{item}</span>
+                </li>
+              ))}
+              {removed.map((item, index) => (
+                <li key={`removed-${index}`} className="flex items-start gap-2 text-muted-foreground/70">
+                  <Badge variant="outline" className="flex-shrink-0 text-[10px]">Dropped</Badge>
+                  <span className="line-through">{item}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { formatRelativeDate } from '@/lib/utils';
+import { Loader2, Undo2 } from 'lucide-react';
+import { type ScheduleApplication, type ScheduleChange, type SchedulePreview } from '@shared/schema';
+
+const CHANGE_LABELS: Record<ScheduleChange['type'], { label: string; className: string }> = {
+  create: { label: 'New', className: 'bg-green-600 hover:bg-green-600' },
+  move: { label: 'Move', className: 'bg-blue-600 hover:bg-blue-600' },
+  delete: { label: 'Delete', className: 'bg-red-600 hover:bg-red-600' },
+};
+
+const LATEST_APPLICATION_KEY = ['/api/schedule-applications/latest'];
+
+function refreshReminders(queryClient: QueryClient) {
+  queryClient.invalidateQueries({
+    predicate: (query) => {
+      const queryKey = query.queryKey[0];
+      return typeof queryKey === 'string' && (queryKey.startsWith('/api/reminders') || queryKey.startsWith('/api/plants'));
+    },
+  });
+  queryClient.invalidateQueries({ queryKey: LATEST_APPLICATION_KEY });
+}
+
+function formatDue(date: string, timeZone: string): string {
+  return new Date(date).toLocaleString([], { timeZone, weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+function describeChange(change: ScheduleChange, timeZone: string): string {
+  const every = change.recurringInterval ? `, every ${change.recurringInterval} days` : '';
+  switch (change.type) {
+    case 'create':
+      return `${formatDue(change.dueDate!, timeZone)}${every}`;
+    case 'move':
+      return `${formatDue(change.fromDueDate!, timeZone)} → ${formatDue(change.dueDate!, timeZone)}${every}`;
+    case 'delete':
+      return `Was due ${formatDue(change.fromDueDate!, timeZone)}`;
+  }
+}
+
+interface ApplyScheduleDialogProps {
+  reportId: number;
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Previews how a care schedule would change the user's reminders and applies
+ * the changes they keep ticked.
+ */
+export function ApplyScheduleDialog({ reportId, open, onClose }: ApplyScheduleDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const { data: preview, isLoading, error } = useQuery<SchedulePreview>({
+    queryKey: [`/api/ai-reports/${reportId}/schedule`],
+    enabled: open,
+    staleTime: 0,
+  });
+
+  // Every change starts ticked
+  useEffect(() => {
+    if (preview) setSelected(new Set(preview.changes.map((change) => change.id)));
+  }, [preview]);
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (checked) next.add(id); else next.delete(id);
+      return next;
+    });
+  };
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/ai-reports/${reportId}/schedule`, { changeIds: Array.from(selected) });
+      return await res.json() as ScheduleApplication;
+    },
+    onSuccess: (application) => {
+      refreshReminders(queryClient);
+      toast({
+        title: 'Schedule applied',
+        description: `${application.changes.length} reminder ${application.changes.length === 1 ? 'change' : 'changes'} made. You can roll this back from the optimizer.`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      // The preview is out of date, so fetch it again
+      queryClient.invalidateQueries({ queryKey: [`/api/ai-reports/${reportId}/schedule`] });
+      toast({ title: 'Could not apply schedule', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Apply schedule to reminders</DialogTitle>
+          <DialogDescription>
+            Untick anything you'd rather keep as it is. Reminders for care the schedule doesn't mention aren't changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{(error as Error).message}</p>
+        ) : preview && (
+          <div className="max-h-[50vh] space-y-2 overflow-y-auto">
+            {preview.changes.length === 0 && (
+              <p className="text-sm text-muted-foreground">Your reminders already follow this schedule.</p>
+            )}
+            {preview.changes.map((change) => (
+              <label key={change.id} className="flex items-start gap-2 rounded-md border p-2 text-sm">
+                <Checkbox
+                  className="mt-0.5"
+                  checked={selected.has(change.id)}
+                  onCheckedChange={(checked) => toggle(change.id, checked === true)}
+                />
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <Badge className={`text-[10px] ${CHANGE_LABELS[change.type].className}`}>{CHANGE_LABELS[change.type].label}</Badge>
+                    <span className="truncate font-medium">{change.title}</span>
+                  </div>
+                  <p className="mt-1 text-xs text-muted-foreground">{describeChange(change, preview.timezone)}</p>
+                </div>
+              </label>
+            ))}
+            {preview.unchanged > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {preview.unchanged} {preview.unchanged === 1 ? 'reminder already matches' : 'reminders already match'} the schedule.
+              </p>
+            )}
+            {preview.unmatchedTasks.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Skipped tasks that couldn't be matched to a plant or read: {preview.unmatchedTasks.join('; ')}
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            type="button"
+            onClick={() => applyMutation.mutate()}
+            disabled={selected.size === 0 || applyMutation.isPending}
+          >
+            {applyMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Apply {selected.size} {selected.size === 1 ? 'change' : 'changes'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * The most recently applied care schedule, with a button that puts the
+ * reminders back the way they were.
+ */
+export function ScheduleRollbackNotice() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: application } = useQuery<ScheduleApplication | null>({ queryKey: LATEST_APPLICATION_KEY });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest('POST', `/api/schedule-applications/${id}/rollback`);
+      return await res.json() as { kept: number };
+    },
+    onSuccess: ({ kept }) => {
+      refreshReminders(queryClient);
+      toast({
+        title: 'Schedule rolled back',
+        description: kept > 0
+          ? `Your previous reminders are back. ${kept} ${kept === 1 ? 'reminder was' : 'reminders were'} already completed and kept.`
+          : 'Your previous reminders are back.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not roll back', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (!application) return null;
+
+  return (
+    <div className="flex items-center justify-between gap-2 rounded-md border border-orange-100 dark:border-orange-800 p-3 text-sm">
+      <span className="text-muted-foreground">
+        Schedule applied {formatRelativeDate(new Date(application.createdAt))} ({application.changes.length} {application.changes.length === 1 ? 'change' : 'changes'})
+      </span>
+      <Button
+        type="button"
+        size="sm"
+        variant="outline"
+        onClick={() => rollbackMutation.mutate(application.id)}
+        disabled={rollbackMutation.isPending}
+      >
+        <Undo2 className="mr-1 h-3 w-3" />
+        Roll back
+      </Button>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { useQuery, useMutation } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -10,6 +10,8 @@ import { Input } from "@/components/ui/input";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Loader2, Brain, Calendar, Clock, CheckCircle, X, CalendarClock } from "lucide-react";
 import { apiRequest } from '@/lib/queryClient';
+import { invalidateAiReports } from './AiReportView';
+import { ApplyScheduleDialog, ScheduleRollbackNotice } from './ApplyScheduleDialog';
 import { PlantWithCare } from '@shared/schema';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { z } from 'zod';
@@ -32,6 +34,7 @@ interface OptimizedCareSchedule {
   }[];
   specialNotes: string[];
   efficiencyTips: string[];
+  reportId: number; // The saved report, which the schedule is applied from
 }
 
 // Interface for the schedule form
@@ -60,7 +63,9 @@ type FormValues = z.infer<typeof scheduleSchema>;
 
 export function CareScheduleOptimizer() {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [schedule, setSchedule] = useState<OptimizedCareSchedule | null>(null);
+  const [isApplyOpen, setIsApplyOpen] = useState(false);
   
   // Query to get user's plants
   const { data: plants, isLoading: isPlantsLoading } = useQuery<PlantWithCare[]>({
@@ -138,15 +143,13 @@ export function CareScheduleOptimizer() {
       const res = await apiRequest(
         "POST", 
         "/api/ai/optimized-schedule", 
-        {
-          userSchedule: schedulePayload,
-          plantIds: plants.map(p => p.id)
-        }
+        schedulePayload
       );
       return res.json();
     },
     onSuccess: (data: OptimizedCareSchedule) => {
       setSchedule(data);
+      invalidateAiReports(queryClient);
       toast({
         title: "Care schedule generated",
         description: "Your optimized plant care schedule is ready!",
@@ -353,6 +356,8 @@ export function CareScheduleOptimizer() {
         </CardContent>
       </Card>
       
+      <ScheduleRollbackNotice />
+      
       {schedule && (
         <Card className="border-orange-200 dark:border-orange-900">
           <CardHeader className="bg-orange-50 dark:bg-orange-950">
@@ -463,12 +468,17 @@ export function CareScheduleOptimizer() {
               </TabsContent>
             </Tabs>
           </CardContent>
-          <CardFooter className="bg-orange-50 dark:bg-orange-950 flex justify-center border-t border-orange-100 dark:border-orange-800">
+          <CardFooter className="bg-orange-50 dark:bg-orange-950 flex flex-col gap-3 border-t border-orange-100 dark:border-orange-800 pt-4">
+            <Button type="button" className="w-full" onClick={() => setIsApplyOpen(true)}>
+              <CalendarClock className="mr-2 h-4 w-4" />
+              Apply to My Reminders
+            </Button>
             <p className="text-sm text-orange-700 dark:text-orange-400 flex items-center">
               <Brain className="mr-2 h-4 w-4" />
               AI-powered schedule optimization powered by OpenAI
             </p>
           </CardFooter>
+          <ApplyScheduleDialog reportId={schedule.reportId} open={isApplyOpen} onClose={() => setIsApplyOpen(false)} />
         </Card>
       )}
     </div>
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useQuery, useMutation } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -8,7 +8,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Loader2, Brain, BarChart, Clock, Calendar, ArrowRightLeft, Zap, AlertTriangle, ChevronRight, ImagePlus } from "lucide-react";
 import { apiRequest } from '@/lib/queryClient';
-import { PlantWithCare, CareLog } from '@shared/schema';
+import { invalidateAiReports } from './AiReportView';
+import { PlantWithCare, GrowthTimeline } from '@shared/schema';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
@@ -26,6 +27,7 @@ interface GrowthAnalysis {
 
 export function GrowthAnalyzer() {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [selectedPlantId, setSelectedPlantId] = useState<string>("");
   const [analysis, setAnalysis] = useState<GrowthAnalysis | null>(null);
   const [analyzing, setAnalyzing] = useState<boolean>(false);
@@ -35,66 +37,13 @@ export function GrowthAnalyzer() {
     queryKey: ['/api/plants'],
   });
   
-  // Query to get care logs with photos for the selected plant
-  const { data: careLogs, isLoading: isLogsLoading } = useQuery<CareLog[]>({
-    queryKey: ['/api/plants', selectedPlantId, 'care-logs'],
-    queryFn: async () => {
-      const response = await fetch(`/api/plants/${selectedPlantId}/care-logs`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch care logs');
-      }
-      return response.json();
-    },
+  // The selected plant's care log photos, oldest first
+  const { data: timeline, isLoading: isLogsLoading } = useQuery<GrowthTimeline>({
+    queryKey: [`/api/plants/${selectedPlantId}/growth`],
     enabled: !!selectedPlantId,
   });
   
-  // Filter and sort care logs with photos by timestamp
-  const careLogsWithPhotos = careLogs?.filter(log => log.photo)
-    .sort((a, b) => {
-      const dateA = a.timestamp ? new Date(a.timestamp).getTime() : 0;
-      const dateB = b.timestamp ? new Date(b.timestamp).getTime() : 0;
-      return dateA - dateB;
-    }) || [];
-  
-  // Compress base64 image data
-  const compressImage = (base64: string, maxWidth = 800, quality = 0.7): Promise<string> => {
-    return new Promise((resolve) => {
-      const img = new Image();
-      img.src = base64;
-      img.onload = () => {
-        const canvas = document.createElement('canvas');
-        
-        // Calculate new dimensions while maintaining aspect ratio
-        let width = img.width;
-        let height = img.height;
-        
-        if (width > maxWidth) {
-          height = (height * maxWidth) / width;
-          width = maxWidth;
-        }
-        
-        canvas.width = width;
-        canvas.height = height;
-        
-        const ctx = canvas.getContext('2d');
-        ctx?.drawImage(img, 0, 0, width, height);
-        
-        // Convert to compressed JPEG
-        const compressedBase64 = canvas.toDataURL('image/jpeg', quality);
-        resolve(compressedBase64);
-      };
-      
-      // If image fails to load, return original
-      img.onerror = () => resolve(base64);
-    });
-  };
-  
-  // Extract base64 image data from care log photo
-  const getBase64FromPhoto = (photoUrl: string): string => {
-    // For now, just return the original image
-    // We'll modify the runAnalysis function to handle the compression
-    return photoUrl;
-  };
+  const careLogsWithPhotos = timeline?.entries.filter(entry => entry.photo) || [];
   
   // When plant selection changes, reset analysis
   const handlePlantChange = (plantId: string) => {
@@ -105,17 +54,17 @@ export function GrowthAnalyzer() {
   // Automatically run analysis when plant is selected and photos are available
   useEffect(() => {
     // Wait for logs to load and then check if we have photos
-    if (!isLogsLoading && selectedPlantId && careLogsWithPhotos.length > 0 && !analysis && !analyzing) {
+    if (!isLogsLoading && selectedPlantId && careLogsWithPhotos.length >= 2 && !analysis && !analyzing) {
       runAnalysis();
     }
   }, [isLogsLoading, selectedPlantId, careLogsWithPhotos.length]);
   
   // Function to run the analysis
   const runAnalysis = async () => {
-    if (!selectedPlantId || careLogsWithPhotos.length === 0) {
+    if (!selectedPlantId || careLogsWithPhotos.length < 2) {
       toast({
         title: "Cannot analyze",
-        description: "Please select a plant with care photos",
+        description: "Please select a plant with at least two care photos",
         variant: "destructive",
       });
       return;
@@ -124,50 +73,6 @@ export function GrowthAnalyzer() {
     setAnalyzing(true);
     
     try {
-      // Use all photos for analysis
-      const photosToAnalyze = careLogsWithPhotos;
-      
-      // Step 1: Get all photos
-      const originalPhotos = photosToAnalyze
-        .filter(log => log.photo)
-        .map(log => log.photo!);
-      
-      // For debugging
-      console.log(`Found ${originalPhotos.length} photos for analysis`);
-      
-      // Step 2: Compress all photos (with progress indication)
-      const totalPhotos = originalPhotos.length;
-      toast({
-        title: "Preparing images",
-        description: `Compressing ${totalPhotos} photos for analysis...`,
-      });
-      
-      // Step 3: Process images in batches for better performance
-      const compressedPhotos = [];
-      for (let i = 0; i < originalPhotos.length; i++) {
-        try {
-          // Add small delay to prevent UI blocking
-          if (i > 0 && i % 3 === 0) {
-            await new Promise(resolve => setTimeout(resolve, 100));
-          }
-          
-          const compressed = await compressImage(originalPhotos[i], 800, 0.6);
-          compressedPhotos.push(compressed);
-          
-          // Update progress for user
-          if (i > 0 && i % 3 === 0 || i === originalPhotos.length - 1) {
-            toast({
-              title: "Preparing images",
-              description: `Processed ${i+1} of ${totalPhotos} photos...`,
-            });
-          }
-        } catch (err) {
-          console.error("Error compressing image:", err);
-          // If compression fails, use original
-          compressedPhotos.push(originalPhotos[i]);
-        }
-      }
-      
       // Fallback analysis if the API fails (for error reporting only, not synthetic data)
       const fallbackErrorMessage = {
         growthAssessment: "Unable to analyze growth patterns from the provided images.",
@@ -188,17 +93,14 @@ export function GrowthAnalyzer() {
       try {
         toast({
           title: "Analyzing growth",
-          description: "Sending compressed images to our AI service...",
+          description: "Comparing photos from across your care history...",
         });
         
-        // Try to get analysis from server
-        const res = await apiRequest(
-          "POST", 
-          `/api/ai/growth-analysis/${selectedPlantId}`, 
-          { imageHistory: compressedPhotos }
-        );
+        // The server picks photos spread over the timeline and adds any logged measurements
+        const res = await apiRequest("POST", `/api/ai/growth-analysis/${selectedPlantId}`, {});
         
         data = await res.json();
+        invalidateAiReports(queryClient);
         
         // Show success toast only on successful API response
         toast({
@@ -295,11 +197,11 @@ export function GrowthAnalyzer() {
                   <div className="flex justify-center p-4">
                     <Loader2 className="h-6 w-6 animate-spin" />
                   </div>
-                ) : careLogsWithPhotos.length === 0 ? (
+                ) : careLogsWithPhotos.length < 2 ? (
                   <Alert>
-                    <AlertTitle>No photos available</AlertTitle>
+                    <AlertTitle>Not enough photos</AlertTitle>
                     <AlertDescription>
-                      This plant doesn't have any care logs with photos. Add some care logs with photos first.
+                      Growth analysis compares photos over time. Add at least two care logs with photos first.
                     </AlertDescription>
                   </Alert>
                 ) : (
@@ -310,7 +212,7 @@ export function GrowthAnalyzer() {
                         <h4 className="text-sm font-medium text-blue-800">Photos Found</h4>
                         <p className="text-sm text-blue-700 mt-1">
                           {careLogsWithPhotos.length} photo{careLogsWithPhotos.length !== 1 ? 's' : ''} found in your care logs.
-                          All photos will be analyzed for growth patterns.
+                          Up to 6 photos spread from the earliest to the latest are analyzed, along with any measurements you've logged.
                           {careLogsWithPhotos.length > 3 ? 
                             ' The most recent 3 photos are displayed below for reference.' : 
                             ''}
@@ -320,7 +222,7 @@ export function GrowthAnalyzer() {
                     
                     <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
                       {photosForDisplay.map((log, index) => (
-                        <div key={log.id} className="space-y-1">
+                        <div key={log.careLogId} className="space-y-1">
                           <div className="border rounded-md overflow-hidden">
                             <div className="aspect-square overflow-hidden">
                               <img
@@ -476,7 +378,7 @@ export function GrowthAnalyzer() {
                 
                 <div className="grid grid-cols-3 gap-4 mt-4">
                   {photosForDisplay.map((log, index) => (
-                    <div key={log.id} className="space-y-2">
+                    <div key={log.careLogId} className="space-y-2">
                       <div className="rounded-md overflow-hidden border">
                         <img
                           src={log.photo!}
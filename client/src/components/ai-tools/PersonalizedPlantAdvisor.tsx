@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { useQuery, useMutation } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -11,6 +11,7 @@ import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Loader2, Brain, ChevronRight, Info, AlertTriangle } from "lucide-react";
 import { apiRequest } from '@/lib/queryClient';
+import { invalidateAiReports } from './AiReportView';
 import { PlantWithCare } from '@shared/schema';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -59,6 +60,7 @@ interface PersonalizedAdviceRequest {
 
 export function PersonalizedPlantAdvisor() {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [advice, setAdvice] = useState<PersonalizedAdvice | null>(null);
   const [selectedPlantName, setSelectedPlantName] = useState<string>("");
   
@@ -98,6 +100,7 @@ export function PersonalizedPlantAdvisor() {
     },
     onSuccess: (data: PersonalizedAdvice) => {
       setAdvice(data);
+      invalidateAiReports(queryClient);
       const plant = plants?.find(p => p.id === Number(form.getValues().plantId));
       if (plant) {
         setSelectedPlantName(plant.name);
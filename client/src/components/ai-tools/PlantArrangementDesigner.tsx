@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { useQuery, useMutation } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -10,6 +10,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Loader2, Brain, PanelTop, Leaf, Grid2X2, Users } from "lucide-react";
 import { apiRequest } from '@/lib/queryClient';
+import { invalidateAiReports } from './AiReportView';
 import { PlantWithCare } from '@shared/schema';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -54,6 +55,7 @@ type ArrangementFormValues = z.infer<typeof arrangementSchema>;
 
 export function PlantArrangementDesigner() {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [arrangement, setArrangement] = useState<ArrangementSuggestion | null>(null);
   
   // Query to get user's plants
@@ -91,6 +93,7 @@ export function PlantArrangementDesigner() {
     },
     onSuccess: (data: ArrangementSuggestion) => {
       setArrangement(data);
+      invalidateAiReports(queryClient);
       toast({
         title: "Plant arrangement suggestions generated",
         description: "Your arrangement suggestions are ready!",
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { useQuery, useMutation } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -10,6 +10,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Loader2, Brain, CloudSun, Leaf, Info } from "lucide-react";
 import { apiRequest } from '@/lib/queryClient';
+import { invalidateAiReports } from './AiReportView';
 import { PlantWithCare } from '@shared/schema';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -42,6 +43,7 @@ type SeasonalGuideFormValues = z.infer<typeof seasonalGuideSchema>;
 
 export function SeasonalCareGuide() {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [careGuide, setCareGuide] = useState<SeasonalCareGuide | null>(null);
   
   // Query to get user's plants
@@ -74,6 +76,7 @@ export function SeasonalCareGuide() {
     },
     onSuccess: (data: SeasonalCareGuide) => {
       setCareGuide(data);
+      invalidateAiReports(queryClient);
       toast({
         title: "Seasonal care guide generated",
         description: `Your ${data.season} care guide is ready!`,
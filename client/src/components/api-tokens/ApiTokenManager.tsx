@@ -0,0 +1,198 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { formatDate, formatRelativeDate } from '@/lib/utils';
+import { Copy, KeyRound, Trash2 } from 'lucide-react';
+import { API_TOKEN_SCOPES, type ApiTokenScope, type ApiTokenSummary } from '@shared/schema';
+
+const SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  'plants:read': 'Read plants',
+  'plants:write': 'Edit plants',
+  'care_logs:read': 'Read care logs',
+  'care_logs:write': 'Log care',
+  'reminders:read': 'Read reminders',
+  'reminders:write': 'Edit reminders',
+  'profile:read': 'Read profile',
+};
+
+const NEVER = 'never';
+const EXPIRY_OPTIONS = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: NEVER, label: 'Never' },
+];
+
+/**
+ * Settings card for personal access tokens, which let scripts and integrations
+ * call the /api/v1 API on the user's behalf.
+ */
+export function ApiTokenManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>([]);
+  const [expiry, setExpiry] = useState('90');
+  // Shown once, right after the token is created
+  const [revealedToken, setRevealedToken] = useState<string | null>(null);
+
+  const { data: tokens = [] } = useQuery<ApiTokenSummary[]>({ queryKey: ['/api/tokens'] });
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes((current) => checked ? [...current, scope] : current.filter((s) => s !== scope));
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: 'Error', description: error.message, variant: 'destructive' });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/tokens', {
+        name: name.trim(),
+        scopes,
+        expiresInDays: expiry === NEVER ? null : parseInt(expiry, 10),
+      });
+      return await res.json() as ApiTokenSummary & { token: string };
+    },
+    onSuccess: (apiToken) => {
+      setName('');
+      setScopes([]);
+      setRevealedToken(apiToken.token);
+      queryClient.invalidateQueries({ queryKey: ['/api/tokens'] });
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/tokens/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tokens'] });
+      toast({ title: 'Access token revoked' });
+    },
+    onError,
+  });
+
+  const copyToken = async () => {
+    if (!revealedToken) return;
+    await navigator.clipboard.writeText(revealedToken);
+    toast({ title: 'Copied', description: 'Access token copied to clipboard.' });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Access Tokens</CardTitle>
+        <CardDescription>
+          Let scripts and integrations use the garden API at <span className="font-mono">/api/v1</span>. Each token can only do what its scopes allow.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {revealedToken && (
+          <div className="space-y-2 rounded-md bg-muted p-2">
+            <p className="text-xs">Copy the access token now. It won't be shown again.</p>
+            <div className="flex gap-1">
+              <Input readOnly value={revealedToken} className="h-8 font-mono text-xs" />
+              <Button type="button" size="icon" variant="outline" className="h-8 w-8" onClick={copyToken}>
+                <Copy className="h-3 w-3" />
+              </Button>
+            </div>
+            <Button type="button" size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setRevealedToken(null)}>
+              Done
+            </Button>
+          </div>
+        )}
+
+        {tokens.map((apiToken) => (
+          <div key={apiToken.id} className="flex items-start justify-between gap-2 p-3 border rounded-lg">
+            <div className="min-w-0 space-y-1">
+              <p className="font-medium truncate">
+                {apiToken.name} <span className="font-mono text-xs text-muted-foreground">{apiToken.tokenPrefix}…</span>
+              </p>
+              <div className="flex flex-wrap gap-1">
+                {apiToken.scopes.map((scope) => (
+                  <Badge key={scope} variant="secondary" className="text-[10px]">{scope}</Badge>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {apiToken.lastUsedAt ? `Last used ${formatRelativeDate(new Date(apiToken.lastUsedAt))}` : 'Never used'}
+                {' · '}
+                {apiToken.expiresAt ? `expires ${formatDate(new Date(apiToken.expiresAt))}` : 'never expires'}
+              </p>
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="text-destructive"
+              title="Revoke token"
+              onClick={() => revokeMutation.mutate(apiToken.id)}
+              disabled={revokeMutation.isPending}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="apiTokenName">Token name</Label>
+            <Input
+              id="apiTokenName"
+              placeholder="Home Assistant"
+              maxLength={100}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Scopes</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {API_TOKEN_SCOPES.map((scope) => (
+                <label key={scope} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={scopes.includes(scope)}
+                    onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                  />
+                  {SCOPE_LABELS[scope]}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="apiTokenExpiry" className="text-sm">Expires</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger id="apiTokenExpiry" className="h-8 w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => createMutation.mutate()}
+            disabled={!name.trim() || scopes.length === 0 || createMutation.isPending}
+          >
+            <KeyRound className="mr-2 h-4 w-4" />
+            Create Token
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
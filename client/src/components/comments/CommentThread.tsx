@@ -0,0 +1,285 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useAuth } from '@/context/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { formatRelativeDate } from '@/lib/utils';
+import { Loader2, MessageCircle } from 'lucide-react';
+import { type CommentTarget, type CommentThread as Thread, type CommentWithAuthor } from '@shared/schema';
+
+interface CommentThreadProps {
+  targetType: CommentTarget;
+  targetId: number;
+  title?: string;
+  // The share link the target is being viewed through, which grants access to it
+  shareId?: string;
+}
+
+const MENTION_PATTERN = /(^|[^\w@])@([A-Za-z0-9_][A-Za-z0-9_.-]{1,29})/g;
+
+// Turns @username mentions into profile links
+function renderContent(content: string) {
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  let match: RegExpExecArray | null;
+  MENTION_PATTERN.lastIndex = 0;
+  while ((match = MENTION_PATTERN.exec(content)) !== null) {
+    const username = match[2].replace(/[.-]+$/, '');
+    const start = match.index + match[1].length;
+    parts.push(content.slice(last, start));
+    parts.push(
+      <Link key={start} href={`/profile/${username}`} className="text-primary font-medium hover:underline">
+        @{username}
+      </Link>
+    );
+    last = start + username.length + 1;
+  }
+  parts.push(content.slice(last));
+  return parts;
+}
+
+function CommentForm({ initial = '', placeholder, submitLabel, pending, onSubmit, onCancel }: {
+  initial?: string;
+  placeholder: string;
+  submitLabel: string;
+  pending: boolean;
+  onSubmit: (content: string) => void;
+  onCancel?: () => void;
+}) {
+  const [content, setContent] = useState(initial);
+
+  return (
+    <form
+      className="space-y-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (content.trim()) onSubmit(content.trim());
+      }}
+    >
+      <Textarea
+        value={content}
+        placeholder={placeholder}
+        maxLength={2000}
+        rows={2}
+        onChange={(e) => setContent(e.target.value)}
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel}>Cancel</Button>
+        )}
+        <Button type="submit" size="sm" disabled={pending || !content.trim()}>{submitLabel}</Button>
+      </div>
+    </form>
+  );
+}
+
+export function CommentThread({ targetType, targetId, title = 'Comments', shareId }: CommentThreadProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [replyingTo, setReplyingTo] = useState<{ threadId: number; mention?: string } | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  // Bumped after posting to clear the new comment form
+  const [formKey, setFormKey] = useState(0);
+
+  const shareQuery = shareId ? `shareId=${encodeURIComponent(shareId)}` : '';
+  const queryKey = [`/api/comments?targetType=${targetType}&targetId=${targetId}${shareQuery && `&${shareQuery}`}`];
+  const { data: threads, isLoading, error } = useQuery<Thread[]>({ queryKey });
+
+  const isStaff = user?.role === 'admin' || user?.role === 'moderator';
+  const refresh = () => queryClient.invalidateQueries({ queryKey });
+  const onError = (error: Error) => {
+    toast({ title: 'Error', description: error.message, variant: 'destructive' });
+  };
+
+  const postMutation = useMutation({
+    mutationFn: async ({ content, parentId }: { content: string; parentId?: number }) => {
+      const res = await apiRequest('POST', '/api/comments', { targetType, targetId, parentId, content, shareId });
+      return await res.json();
+    },
+    onSuccess: () => {
+      setReplyingTo(null);
+      setFormKey((key) => key + 1);
+      refresh();
+    },
+    onError,
+  });
+
+  const editMutation = useMutation({
+    mutationFn: async ({ id, content }: { id: number; content: string }) => {
+      const res = await apiRequest('PATCH', `/api/comments/${id}`, { content, shareId });
+      return await res.json();
+    },
+    onSuccess: () => {
+      setEditingId(null);
+      refresh();
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/comments/${id}${shareQuery && `?${shareQuery}`}`);
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const moderateMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: number; action: 'hide' | 'restore' }) => {
+      await apiRequest('POST', `/api/moderation/comments/${id}/actions`, { action });
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const renderComment = (comment: CommentWithAuthor, threadId: number) => {
+    const name = comment.author.displayName || comment.author.username;
+
+    return (
+      <div className="flex gap-3">
+        <Avatar className="h-8 w-8">
+          <AvatarImage src={comment.author.avatarUrl || undefined} alt={name} />
+          <AvatarFallback>{name.charAt(0).toUpperCase()}</AvatarFallback>
+        </Avatar>
+        <div className="flex-1 min-w-0">
+          <div className="flex flex-wrap items-center gap-x-2 text-sm">
+            <Link href={`/profile/${comment.author.username}`} className="font-medium hover:underline">{name}</Link>
+            <span className="text-xs text-muted-foreground">{formatRelativeDate(new Date(comment.createdAt))}</span>
+            {comment.editedAt && <span className="text-xs text-muted-foreground">(edited)</span>}
+            {comment.status !== 'active' && (
+              <Badge variant="outline" className="text-xs">{comment.status === 'reported' ? 'Hidden' : 'Removed'}</Badge>
+            )}
+          </div>
+
+          {editingId === comment.id ? (
+            <CommentForm
+              initial={comment.content ?? ''}
+              placeholder="Edit your comment"
+              submitLabel="Save"
+              pending={editMutation.isPending}
+              onSubmit={(content) => editMutation.mutate({ id: comment.id, content })}
+              onCancel={() => setEditingId(null)}
+            />
+          ) : comment.content !== null ? (
+            <p className="text-sm whitespace-pre-wrap break-words">{renderContent(comment.content)}</p>
+          ) : (
+            <p className="text-sm italic text-muted-foreground">This comment was removed.</p>
+          )}
+
+          {user && editingId !== comment.id && (
+            <div className="flex gap-1 -ml-2">
+              {comment.status === 'active' && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => setReplyingTo({
+                    threadId,
+                    mention: comment.id !== threadId && comment.author.id !== user.id ? comment.author.username : undefined,
+                  })}
+                >
+                  Reply
+                </Button>
+              )}
+              {comment.canEdit && (
+                <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setEditingId(comment.id)}>Edit</Button>
+              )}
+              {comment.canDelete && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  disabled={deleteMutation.isPending}
+                  onClick={() => deleteMutation.mutate(comment.id)}
+                >
+                  Delete
+                </Button>
+              )}
+              {isStaff && comment.status !== 'removed' && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  disabled={moderateMutation.isPending}
+                  onClick={() => moderateMutation.mutate({ id: comment.id, action: comment.status === 'reported' ? 'restore' : 'hide' })}
+                >
+                  {comment.status === 'reported' ? 'Unhide' : 'Hide'}
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold flex items-center gap-2">
+        <MessageCircle className="h-5 w-5" />
+        {title}
+        {threads && threads.length > 0 && <span className="text-sm font-normal text-muted-foreground">({threads.length})</span>}
+      </h2>
+
+      {isLoading && (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-muted-foreground">Comments aren't available here.</p>
+      )}
+
+      {threads && threads.length === 0 && (
+        <p className="text-sm text-muted-foreground">No comments yet.</p>
+      )}
+
+      {threads?.map((thread) => (
+        <div key={thread.id} className="space-y-3">
+          {renderComment(thread, thread.id)}
+          {(thread.replies.length > 0 || replyingTo?.threadId === thread.id) && (
+            <div className="ml-11 space-y-3 border-l pl-4">
+              {thread.replies.map((reply) => (
+                <React.Fragment key={reply.id}>{renderComment(reply, thread.id)}</React.Fragment>
+              ))}
+              {replyingTo?.threadId === thread.id && (
+                <CommentForm
+                  key={replyingTo.mention ?? ''}
+                  initial={replyingTo.mention ? `@${replyingTo.mention} ` : ''}
+                  placeholder="Write a reply"
+                  submitLabel="Reply"
+                  pending={postMutation.isPending}
+                  onSubmit={(content) => postMutation.mutate({ content, parentId: thread.id })}
+                  onCancel={() => setReplyingTo(null)}
+                />
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+
+      {!error && (user ? (
+        <CommentForm
+          key={formKey}
+          placeholder="Add a comment. Use @username to mention someone."
+          submitLabel="Comment"
+          pending={postMutation.isPending}
+          onSubmit={(content) => postMutation.mutate({ content })}
+        />
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          <Link href="/auth" className="text-primary hover:underline">Sign in</Link> to join the conversation.
+        </p>
+      ))}
+    </div>
+  );
+}
+
+export default CommentThread;
@@ -1,14 +1,45 @@
-import { useState, useEffect } from 'react';
-import { WifiOff, RefreshCw } from 'lucide-react';
+import { useState, useEffect, useCallback } from 'react';
+import { WifiOff, RefreshCw, CloudUpload } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
+import { useOutbox } from '@/hooks/use-outbox';
+
+// How often queued changes are retried while online, e.g. after a server error
+const RETRY_INTERVAL_MS = 60 * 1000;
+
+function changes(count: number): string {
+  return count === 1 ? '1 change' : `${count} changes`;
+}
 
 /**
- * Component that detects network status changes and displays an error message when offline
+ * Component that detects network status changes, displays a message when
+ * offline and shows the care logs and reminder actions waiting to be synced
  */
 export function NetworkStatusIndicator() {
   const [isOnline, setIsOnline] = useState<boolean>(navigator.onLine);
   const { toast } = useToast();
+  const { pendingCount, isSyncing, sync } = useOutbox();
+
+  const syncNow = useCallback(async () => {
+    try {
+      const { synced, conflicts } = await sync();
+      if (synced > 0) {
+        toast({
+          title: 'Offline changes synced',
+          description: `${changes(synced)} made offline ${synced === 1 ? 'has' : 'have'} been saved.`,
+        });
+      }
+      if (conflicts.length > 0) {
+        toast({
+          title: `${changes(conflicts.length)} couldn't be synced`,
+          description: conflicts.map((conflict) => conflict.message).join('\n'),
+          variant: 'destructive',
+        });
+      }
+    } catch (error) {
+      console.error('Error syncing offline changes:', error);
+    }
+  }, [sync, toast]);
 
   useEffect(() => {
     // Function to update online status
@@ -19,13 +50,14 @@ export function NetworkStatusIndicator() {
         description: 'Your internet connection has been restored.',
         variant: 'default',
       });
+      syncNow();
     };
 
     const goOffline = () => {
       setIsOnline(false);
       toast({
         title: 'Offline',
-        description: 'You are currently offline. Some features may not work properly.',
+        description: 'Care you log and reminders you complete will be saved on this device and synced when you are back online.',
         variant: 'destructive',
       });
     };
@@ -42,13 +74,46 @@ export function NetworkStatusIndicator() {
       window.removeEventListener('online', goOnline);
       window.removeEventListener('offline', goOffline);
     };
-  }, [toast]);
+  }, [toast, syncNow]);
 
-  // Only render the offline notification
-  if (isOnline) {
+  // Send anything left from an earlier visit, and keep retrying while changes are waiting
+  const hasPending = pendingCount > 0;
+  useEffect(() => {
+    if (!isOnline || !hasPending) return;
+    syncNow();
+    const timer = setInterval(syncNow, RETRY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isOnline, hasPending, syncNow]);
+
+  if (isOnline && pendingCount === 0) {
     return null;
   }
 
+  if (isOnline) {
+    return (
+      <div className="fixed bottom-16 inset-x-0 mx-auto w-full max-w-sm px-4 z-50">
+        <div className="bg-amber-50 dark:bg-amber-950 rounded-lg shadow-lg border border-amber-100 dark:border-amber-900 p-4 mb-4 flex items-center justify-between">
+          <div className="flex items-center">
+            <CloudUpload className="h-5 w-5 text-amber-500 mr-2" />
+            <span className="text-sm text-amber-700 dark:text-amber-300">
+              {isSyncing ? `Syncing ${changes(pendingCount)}...` : `${changes(pendingCount)} waiting to sync`}
+            </span>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            className="ml-2 text-amber-700 dark:text-amber-300 border-amber-300 dark:border-amber-800"
+            onClick={syncNow}
+            disabled={isSyncing}
+          >
+            <RefreshCw className={`h-3 w-3 mr-1 ${isSyncing ? 'animate-spin' : ''}`} />
+            Sync now
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="fixed bottom-16 inset-x-0 mx-auto w-full max-w-sm px-4 z-50">
       <div className="bg-red-50 dark:bg-red-950 rounded-lg shadow-lg border border-red-100 dark:border-red-900 p-4 mb-4 flex items-center justify-between">
@@ -56,6 +121,7 @@ export function NetworkStatusIndicator() {
           <WifiOff className="h-5 w-5 text-red-500 mr-2" />
           <span className="text-sm text-red-700 dark:text-red-300">
             You are offline
+            {pendingCount > 0 && ` · ${changes(pendingCount)} saved on this device`}
           </span>
         </div>
         <Button
@@ -72,4 +138,4 @@ export function NetworkStatusIndicator() {
   );
 }
 
-export default NetworkStatusIndicator;
\ No newline at end of file
+export default NetworkStatusIndicator;
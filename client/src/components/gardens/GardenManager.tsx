@@ -0,0 +1,306 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/context/AuthContext';
+import { apiRequest } from '@/lib/queryClient';
+import { Copy, Trash2, UserPlus, LogOut } from 'lucide-react';
+import { GARDEN_ROLES, type GardenRole, type GardenWithRole, type GardenMemberWithUser, type GardenInvitation } from '@shared/schema';
+
+// Garden details returned by GET /api/gardens/:id
+type GardenDetails = GardenWithRole & {
+  members: GardenMemberWithUser[];
+  invitations: (GardenInvitation & { url: string })[];
+};
+
+const ROLE_LABELS: Record<GardenRole, string> = {
+  owner: 'Owner',
+  caretaker: 'Caretaker',
+  viewer: 'Viewer',
+};
+
+function GardenDetailsPanel({ gardenId }: { gardenId: number }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<GardenRole>('caretaker');
+
+  const { data: garden } = useQuery<GardenDetails>({ queryKey: [`/api/gardens/${gardenId}`] });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/gardens/${gardenId}`] });
+    queryClient.invalidateQueries({ queryKey: ['/api/gardens'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/plants'] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: 'Error', description: error.message, variant: 'destructive' });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/gardens/${gardenId}/invitations`, {
+        email: inviteEmail.trim() || null,
+        role: inviteRole,
+      });
+      return await res.json();
+    },
+    onSuccess: (invitation: { url: string; emailed: boolean }) => {
+      setInviteEmail('');
+      refresh();
+      toast({
+        title: 'Invitation created',
+        description: invitation.emailed ? 'We emailed the invitation link.' : 'Copy the link below and send it to them.',
+      });
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (invitationId: number) => {
+      await apiRequest('DELETE', `/api/gardens/${gardenId}/invitations/${invitationId}`);
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: number; role: GardenRole }) => {
+      await apiRequest('PATCH', `/api/gardens/${gardenId}/members/${userId}`, { role });
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      await apiRequest('DELETE', `/api/gardens/${gardenId}/members/${userId}`);
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const copyLink = async (url: string) => {
+    await navigator.clipboard.writeText(url);
+    toast({ title: 'Copied', description: 'Invitation link copied to clipboard.' });
+  };
+
+  if (!garden) return null;
+  const isOwner = garden.role === 'owner';
+
+  return (
+    <div className="space-y-4 pt-3">
+      <div className="space-y-2">
+        {garden.members.map((member) => (
+          <div key={member.id} className="flex items-center justify-between gap-2">
+            <span className="text-sm truncate">
+              {member.displayName || member.username}
+              {member.userId === user?.id && <span className="text-muted-foreground"> (you)</span>}
+            </span>
+            {isOwner && member.userId !== user?.id ? (
+              <div className="flex items-center gap-2">
+                <Select
+                  value={member.role}
+                  onValueChange={(role) => roleMutation.mutate({ userId: member.userId, role: role as GardenRole })}
+                >
+                  <SelectTrigger className="h-8 w-[120px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {GARDEN_ROLES.map((role) => (
+                      <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="text-destructive"
+                  onClick={() => removeMutation.mutate(member.userId)}
+                  disabled={removeMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <Badge variant="outline">{ROLE_LABELS[member.role]}</Badge>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {isOwner && (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <Input
+              type="email"
+              placeholder="Email (optional)"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+            />
+            <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as GardenRole)}>
+              <SelectTrigger className="w-[130px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {GARDEN_ROLES.map((role) => (
+                  <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => inviteMutation.mutate()}
+              disabled={inviteMutation.isPending}
+            >
+              <UserPlus className="mr-2 h-4 w-4" />
+              Invite
+            </Button>
+          </div>
+          {garden.invitations.map((invitation) => (
+            <div key={invitation.id} className="flex items-center gap-2">
+              <span className="text-xs text-muted-foreground flex-1 truncate">
+                {invitation.email || 'Anyone with the link'} · {ROLE_LABELS[invitation.role]}
+              </span>
+              <Button type="button" variant="ghost" size="icon" onClick={() => copyLink(invitation.url)}>
+                <Copy className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="text-destructive"
+                onClick={() => revokeMutation.mutate(invitation.id)}
+                disabled={revokeMutation.isPending}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {user && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="text-destructive"
+          onClick={() => removeMutation.mutate(user.id)}
+          disabled={removeMutation.isPending}
+        >
+          <LogOut className="mr-2 h-4 w-4" />
+          Leave Garden
+        </Button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Settings card for shared gardens: create a household garden, invite
+ * members and manage their roles.
+ */
+export function GardenManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newGardenName, setNewGardenName] = useState('');
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const { data: gardens = [] } = useQuery<GardenWithRole[]>({ queryKey: ['/api/gardens'] });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/gardens', { name: newGardenName });
+      return await res.json();
+    },
+    onSuccess: (garden: GardenWithRole) => {
+      setNewGardenName('');
+      setExpandedId(garden.id);
+      queryClient.invalidateQueries({ queryKey: ['/api/gardens'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: `Failed to create garden: ${error.message}`, variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (gardenId: number) => {
+      await apiRequest('DELETE', `/api/gardens/${gardenId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/gardens'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/plants'] });
+      toast({ title: 'Garden deleted', description: 'Its plants went back to the members who added them.' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Shared Gardens</CardTitle>
+        <CardDescription>
+          Care for plants together with your household. Caretakers can log care and handle reminders; viewers can only look.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {gardens.map((garden) => (
+          <div key={garden.id} className="p-3 border rounded-lg">
+            <div className="flex items-center justify-between gap-2">
+              <button
+                type="button"
+                className="text-left flex-1"
+                onClick={() => setExpandedId(expandedId === garden.id ? null : garden.id)}
+              >
+                <p className="font-medium">{garden.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {garden.memberCount} {garden.memberCount === 1 ? 'member' : 'members'} · {garden.plantCount} {garden.plantCount === 1 ? 'plant' : 'plants'}
+                </p>
+              </button>
+              <Badge variant="outline">{ROLE_LABELS[garden.role]}</Badge>
+              {garden.role === 'owner' && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="text-destructive"
+                  onClick={() => deleteMutation.mutate(garden.id)}
+                  disabled={deleteMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+            {expandedId === garden.id && <GardenDetailsPanel gardenId={garden.id} />}
+          </div>
+        ))}
+
+        <div className="flex gap-2">
+          <Input
+            placeholder="New garden name"
+            value={newGardenName}
+            onChange={(e) => setNewGardenName(e.target.value)}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => createMutation.mutate()}
+            disabled={!newGardenName.trim() || createMutation.isPending}
+          >
+            Create
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
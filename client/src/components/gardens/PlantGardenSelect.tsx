@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { type GardenWithRole, type Plant } from '@shared/schema';
+
+const PERSONAL = 'personal';
+
+interface PlantGardenSelectProps {
+  plant: Pick<Plant, 'id' | 'gardenId'>;
+}
+
+/**
+ * Moves a plant between the user's personal collection and their shared
+ * gardens. Hidden when the user isn't in any garden.
+ */
+export function PlantGardenSelect({ plant }: PlantGardenSelectProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: gardens = [] } = useQuery<GardenWithRole[]>({ queryKey: ['/api/gardens'] });
+
+  // Viewers can't add plants, but the plant's current garden is always listed
+  const options = gardens.filter(garden => garden.role !== 'viewer' || garden.id === plant.gardenId);
+  if (options.length === 0) return null;
+
+  const handleChange = async (value: string) => {
+    try {
+      setIsSaving(true);
+      if (value === PERSONAL) {
+        await apiRequest('DELETE', `/api/gardens/${plant.gardenId}/plants/${plant.id}`);
+      } else {
+        await apiRequest('POST', `/api/gardens/${value}/plants`, { plantId: plant.id });
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/plants'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/gardens'] });
+    } catch (error) {
+      toast({
+        title: 'Could not move plant',
+        description: error instanceof Error ? error.message : 'Please try again in a moment.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 mb-3">
+      <Label htmlFor={`plant-garden-${plant.id}`} className="text-xs text-muted-foreground">
+        Garden
+      </Label>
+      <Select
+        value={plant.gardenId ? String(plant.gardenId) : PERSONAL}
+        onValueChange={handleChange}
+        disabled={isSaving}
+      >
+        <SelectTrigger id={`plant-garden-${plant.id}`} className="h-8 w-[180px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={PERSONAL}>Just me</SelectItem>
+          {options.map(garden => (
+            <SelectItem key={garden.id} value={String(garden.id)}>{garden.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
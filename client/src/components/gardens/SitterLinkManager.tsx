@@ -0,0 +1,236 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { formatDate } from '@/lib/utils';
+import { Copy, Trash2, Plane } from 'lucide-react';
+import { type PlantWithCare, type SitterLink } from '@shared/schema';
+
+type SitterLinkStatus = 'scheduled' | 'active' | 'ended';
+
+// Sitter links returned by GET /api/sitter-links
+type SitterLinkWithPlants = SitterLink & {
+  plantIds: number[];
+  status: SitterLinkStatus;
+  url: string;
+};
+
+// Report returned by GET /api/sitter-links/:shareId/report
+interface SitterReport {
+  totalCareLogs: number;
+  plants: { plantId: number; name: string; careCounts: Record<string, number>; lastCaredFor: string | null }[];
+  missedTasks: { reminderId: number; plantName: string; title: string; dueAt: string }[];
+}
+
+const STATUS_LABELS: Record<SitterLinkStatus, string> = {
+  scheduled: 'Scheduled',
+  active: 'Active',
+  ended: 'Ended',
+};
+
+// yyyy-MM-dd for <input type="date">
+function toDateInput(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function SitterReportPanel({ shareId }: { shareId: string }) {
+  const { data } = useQuery<{ report: SitterReport }>({ queryKey: [`/api/sitter-links/${shareId}/report`] });
+  if (!data) return null;
+  const { report } = data;
+
+  return (
+    <div className="space-y-2 pt-3 text-sm">
+      <p className="text-muted-foreground">
+        {report.totalCareLogs} care {report.totalCareLogs === 1 ? 'entry' : 'entries'} logged
+      </p>
+      {report.plants.map((plant) => {
+        const counts = Object.entries(plant.careCounts);
+        return (
+          <div key={plant.plantId} className="flex justify-between gap-2">
+            <span className="truncate">{plant.name}</span>
+            <span className="text-muted-foreground text-xs">
+              {counts.length > 0 ? counts.map(([careType, count]) => `${careType} ×${count}`).join(', ') : 'No care logged'}
+            </span>
+          </div>
+        );
+      })}
+      {report.missedTasks.length > 0 && (
+        <div className="pt-1">
+          <p className="font-medium text-destructive">Still to do</p>
+          {report.missedTasks.map((task) => (
+            <p key={task.reminderId} className="text-xs text-muted-foreground">
+              {task.title} ({task.plantName})
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Settings card for vacation mode: hand plants to a sitter with a
+ * time-limited link that works without an account.
+ */
+export function SitterLinkManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const today = new Date();
+  const [selectedPlantIds, setSelectedPlantIds] = useState<number[]>([]);
+  const [sitterName, setSitterName] = useState('');
+  const [instructions, setInstructions] = useState('');
+  const [startDate, setStartDate] = useState(toDateInput(today));
+  const [endDate, setEndDate] = useState(toDateInput(new Date(today.getTime() + 7 * 24 * 60 * 60 * 1000)));
+  const [expandedShareId, setExpandedShareId] = useState<string | null>(null);
+
+  const { data: plants = [] } = useQuery<PlantWithCare[]>({ queryKey: ['/api/plants'] });
+  const { data: links = [] } = useQuery<SitterLinkWithPlants[]>({ queryKey: ['/api/sitter-links'] });
+
+  const togglePlant = (plantId: number, checked: boolean) => {
+    setSelectedPlantIds((ids) => checked ? [...ids, plantId] : ids.filter((id) => id !== plantId));
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/sitter-links', {
+        plantIds: selectedPlantIds,
+        sitterName: sitterName.trim() || null,
+        instructions: instructions.trim() || null,
+        // Local midnight on the first day to the end of the last day
+        startsAt: new Date(`${startDate}T00:00`).toISOString(),
+        expiresAt: new Date(`${endDate}T23:59`).toISOString(),
+      });
+      return await res.json();
+    },
+    onSuccess: async (link: SitterLinkWithPlants) => {
+      setSelectedPlantIds([]);
+      setSitterName('');
+      setInstructions('');
+      queryClient.invalidateQueries({ queryKey: ['/api/sitter-links'] });
+      await navigator.clipboard.writeText(link.url).catch(() => undefined);
+      toast({ title: 'Sitter link created', description: 'The link was copied to your clipboard. Send it to your sitter.' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: `Failed to create sitter link: ${error.message}`, variant: 'destructive' });
+    },
+  });
+
+  const endMutation = useMutation({
+    mutationFn: async (shareId: string) => {
+      await apiRequest('DELETE', `/api/sitter-links/${shareId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sitter-links'] });
+      toast({ title: 'Sitter link ended', description: 'Your sitter can no longer use the link.' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const copyLink = async (url: string) => {
+    await navigator.clipboard.writeText(url);
+    toast({ title: 'Copied', description: 'Sitter link copied to clipboard.' });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Vacation Mode</CardTitle>
+        <CardDescription>
+          Going away? Give a plant sitter a link with a daily task list. They can log care without an account, and you get a report when you're back.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {links.map((link) => (
+          <div key={link.id} className="p-3 border rounded-lg">
+            <div className="flex items-center justify-between gap-2">
+              <button
+                type="button"
+                className="text-left flex-1"
+                onClick={() => setExpandedShareId(expandedShareId === link.shareId ? null : link.shareId)}
+              >
+                <p className="font-medium">{link.sitterName || 'Plant sitter'}</p>
+                <p className="text-xs text-muted-foreground">
+                  {formatDate(link.startsAt)} – {formatDate(link.expiresAt)} · {link.plantIds.length} {link.plantIds.length === 1 ? 'plant' : 'plants'}
+                </p>
+              </button>
+              <Badge variant="outline">{STATUS_LABELS[link.status]}</Badge>
+              {link.status !== 'ended' && (
+                <>
+                  <Button type="button" variant="ghost" size="icon" onClick={() => copyLink(link.url)}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="text-destructive"
+                    onClick={() => endMutation.mutate(link.shareId)}
+                    disabled={endMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+            {expandedShareId === link.shareId && <SitterReportPanel shareId={link.shareId} />}
+          </div>
+        ))}
+
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <Label>Plants to hand over</Label>
+            <div className="max-h-40 overflow-y-auto space-y-2 border rounded-md p-2">
+              {plants.map((plant) => (
+                <label key={plant.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={selectedPlantIds.includes(plant.id)}
+                    onCheckedChange={(checked) => togglePlant(plant.id, checked === true)}
+                  />
+                  {plant.name}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="sitterStart">From</Label>
+              <Input id="sitterStart" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sitterEnd">Until</Label>
+              <Input id="sitterEnd" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+          </div>
+          <Input
+            placeholder="Sitter's name (optional)"
+            value={sitterName}
+            onChange={(e) => setSitterName(e.target.value)}
+          />
+          <Textarea
+            placeholder="Instructions for your sitter (optional)"
+            value={instructions}
+            onChange={(e) => setInstructions(e.target.value)}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => createMutation.mutate()}
+            disabled={selectedPlantIds.length === 0 || !startDate || !endDate || createMutation.isPending}
+          >
+            <Plane className="mr-2 h-4 w-4" />
+            Create Sitter Link
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
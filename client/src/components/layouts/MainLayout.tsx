@@ -43,6 +43,8 @@ export function MainLayout({ children }: MainLayoutProps) {
         return "Garden Tools";
       case "/tools/light-meter":
         return "Light Meter";
+      case "/admin/moderation":
+        return "Moderation";
       default:
         // Check if it's a profile view page
         if (location.startsWith('/profile/')) {
@@ -2,56 +2,83 @@ import React from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { BellIcon, CalendarIcon, WaterDropIcon, SeedlingIcon } from '@/lib/icons';
-import { X } from 'lucide-react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { BellIcon } from '@/lib/icons';
+import { AtSign, Gift, MessageCircle, X } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
 import { formatRelativeDate } from '@/lib/utils';
+import { type Notification } from '@shared/schema';
 
 interface NotificationsModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+// Response of GET /api/notifications
+interface NotificationsResponse {
+  notifications: Notification[];
+  unread: number;
+}
+
 export function NotificationsModal({ isOpen, onClose }: NotificationsModalProps) {
-  // This would normally be populated from a server, but for now we'll use some mock notifications
-  const notifications = [
-    {
-      id: 1,
-      type: 'water',
-      plantName: 'Monstera',
-      date: new Date(Date.now() - 1000 * 60 * 60), // 1 hour ago
-      read: false,
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+  const { data } = useQuery<NotificationsResponse>({
+    queryKey: ['/api/notifications'],
+    enabled: isOpen,
+  });
+
+  const notifications = data?.notifications ?? [];
+  const unreadCount = data?.unread ?? 0;
+
+  const markReadMutation = useMutation({
+    mutationFn: async (ids?: number[]) => {
+      await apiRequest('POST', '/api/notifications/read', ids ? { ids } : {});
     },
-    {
-      id: 2,
-      type: 'fertilize',
-      plantName: 'Fiddle Leaf Fig',
-      date: new Date(Date.now() - 1000 * 60 * 60 * 24), // 1 day ago
-      read: true,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
     },
-    {
-      id: 3,
-      type: 'reminder',
-      plantName: 'Snake Plant',
-      date: new Date(Date.now() - 1000 * 60 * 60 * 48), // 2 days ago
-      read: false,
-      message: 'Time to rotate your plant toward the sun'
-    }
-  ];
+  });
 
-  const unreadCount = notifications.filter(n => !n.read).length;
+  const openNotification = (notification: Notification) => {
+    if (!notification.readAt) markReadMutation.mutate([notification.id]);
+    if (notification.url) {
+      setLocation(notification.url);
+      onClose();
+    }
+  };
 
-  const NotificationIcon = ({ type }: { type: string }) => {
+  const NotificationIcon = ({ type }: { type: Notification['type'] }) => {
     switch(type) {
-      case 'water':
-        return <WaterDropIcon className="h-5 w-5 text-blue-500" />;
-      case 'fertilize':
-        return <SeedlingIcon className="h-5 w-5 text-green-500" />;
-      case 'reminder':
+      case 'mention':
+        return <AtSign className="h-5 w-5 text-primary" />;
+      case 'plant_transfer':
+        return <Gift className="h-5 w-5 text-green-600" />;
+      case 'reply':
       default:
-        return <CalendarIcon className="h-5 w-5 text-yellow-500" />;
+        return <MessageCircle className="h-5 w-5 text-blue-500" />;
     }
   };
 
+  const renderNotification = (notification: Notification) => (
+    <button
+      key={notification.id}
+      className={`w-full text-left p-4 flex gap-3 ${notification.readAt ? 'opacity-70' : 'bg-primary/5'}`}
+      onClick={() => openNotification(notification)}
+    >
+      <div className="mt-0.5">
+        <NotificationIcon type={notification.type} />
+      </div>
+      <div className="flex-1">
+        <p className="font-medium mb-1 dark:text-white">{notification.message}</p>
+        <p className="text-xs text-neutral-dark dark:text-gray-400">
+          {formatRelativeDate(new Date(notification.createdAt))}
+        </p>
+      </div>
+    </button>
+  );
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-md w-[95vw] p-0">
@@ -86,26 +113,7 @@ export function NotificationsModal({ isOpen, onClose }: NotificationsModalProps)
             <div className="max-h-[60vh] overflow-y-auto">
               {notifications.length > 0 ? (
                 <div className="divide-y">
-                  {notifications.map(notification => (
-                    <div 
-                      key={notification.id} 
-                      className={`p-4 flex gap-3 ${notification.read ? 'opacity-70' : 'bg-primary/5'}`}
-                    >
-                      <div className="mt-0.5">
-                        <NotificationIcon type={notification.type} />
-                      </div>
-                      <div className="flex-1">
-                        <p className="font-medium mb-1 dark:text-white">
-                          {notification.type === 'water' && `Time to water your ${notification.plantName}`}
-                          {notification.type === 'fertilize' && `${notification.plantName} needs fertilizer`}
-                          {notification.type === 'reminder' && notification.message}
-                        </p>
-                        <p className="text-xs text-neutral-dark dark:text-gray-400">
-                          {formatRelativeDate(notification.date)}
-                        </p>
-                      </div>
-                    </div>
-                  ))}
+                  {notifications.map(renderNotification)}
                 </div>
               ) : (
                 <div className="text-center py-8">
@@ -117,28 +125,9 @@ export function NotificationsModal({ isOpen, onClose }: NotificationsModalProps)
           
           <TabsContent value="unread" className="mt-0">
             <div className="max-h-[60vh] overflow-y-auto">
-              {notifications.filter(n => !n.read).length > 0 ? (
+              {notifications.some(n => !n.readAt) ? (
                 <div className="divide-y">
-                  {notifications.filter(n => !n.read).map(notification => (
-                    <div 
-                      key={notification.id} 
-                      className="p-4 flex gap-3 bg-primary/5"
-                    >
-                      <div className="mt-0.5">
-                        <NotificationIcon type={notification.type} />
-                      </div>
-                      <div className="flex-1">
-                        <p className="font-medium mb-1 dark:text-white">
-                          {notification.type === 'water' && `Time to water your ${notification.plantName}`}
-                          {notification.type === 'fertilize' && `${notification.plantName} needs fertilizer`}
-                          {notification.type === 'reminder' && notification.message}
-                        </p>
-                        <p className="text-xs text-neutral-dark dark:text-gray-400">
-                          {formatRelativeDate(notification.date)}
-                        </p>
-                      </div>
-                    </div>
-                  ))}
+                  {notifications.filter(n => !n.readAt).map(renderNotification)}
                 </div>
               ) : (
                 <div className="text-center py-8">
@@ -153,7 +142,8 @@ export function NotificationsModal({ isOpen, onClose }: NotificationsModalProps)
           <Button
             variant="outline"
             className="w-full"
-            onClick={onClose}
+            disabled={unreadCount === 0 || markReadMutation.isPending}
+            onClick={() => markReadMutation.mutate(undefined)}
           >
             Mark all as read
           </Button>
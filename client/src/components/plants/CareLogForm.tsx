@@ -1,13 +1,27 @@
 import React, { useState, useRef } from 'react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
-import { type InsertCareLog, CARE_TYPES } from '@shared/schema';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  type GrowthMeasurements,
+  type GrowthMetric,
+  type InsertCareLog,
+  type WateringMethod,
+  CARE_TYPES,
+  GROWTH_METRICS,
+  WATERING_METHODS,
+  careLogMetadataSchema,
+} from '@shared/schema';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { CameraIcon, LeafIcon, BrainIcon, WaterDropIcon, SeedlingIcon } from '@/lib/icons';
 import { apiRequest } from '@/lib/queryClient';
 import { toast } from '@/hooks/use-toast';
 import { queryClient } from '@/lib/queryClient';
+import { sendOrQueue } from '@/lib/offlineQueue';
+import { useAuth } from '@/context/AuthContext';
+import { usePlants } from '@/context/PlantContext';
 import { Spinner } from '@/components/ui/spinner';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { 
@@ -39,15 +53,64 @@ interface AiCareSuggestion {
   isUrgent: boolean;
 }
 
+const MEASUREMENT_FIELDS: Record<GrowthMetric, { label: string; step: string }> = {
+  heightCm: { label: 'Height (cm)', step: '0.1' },
+  leafCount: { label: 'Leaves', step: '1' },
+  newLeaves: { label: 'New leaves', step: '1' },
+  potSizeCm: { label: 'Pot size (cm)', step: '0.5' },
+};
+
+const EMPTY_MEASUREMENTS: Record<GrowthMetric, string> = { heightCm: '', leafCount: '', newLeaves: '', potSizeCm: '' };
+
+// The measurement fields that were filled in, or undefined if none were
+function parseMeasurements(values: Record<GrowthMetric, string>): GrowthMeasurements | undefined {
+  const measurements: GrowthMeasurements = {};
+  for (const metric of GROWTH_METRICS) {
+    const value = parseFloat(values[metric]);
+    if (!isNaN(value)) measurements[metric] = value;
+  }
+  return Object.keys(measurements).length > 0 ? measurements : undefined;
+}
+
+const WATERING_METHOD_LABELS: Record<WateringMethod, string> = {
+  top: 'From the top',
+  bottom: 'Bottom watering',
+  soak: 'Soaked',
+  mist: 'Misted',
+};
+
+// Inputs for the care-type specific fields of careLogMetadataSchema. Fields
+// without an entry (e.g. the health diagnosis) aren't typed in by hand.
+const DETAIL_FIELDS: Record<string, { label: string; type: 'number' | 'text' | 'select'; placeholder?: string }> = {
+  amountMl: { label: 'Amount (ml)', type: 'number', placeholder: '250' },
+  method: { label: 'Method', type: 'select' },
+  product: { label: 'Product', type: 'text', placeholder: 'e.g. Liquid houseplant feed' },
+  npk: { label: 'NPK', type: 'text', placeholder: '10-10-10' },
+  dilution: { label: 'Dilution', type: 'text', placeholder: 'e.g. Half strength' },
+  potSizeCm: { label: 'New pot size (cm)', type: 'number', placeholder: '14' },
+  soilMix: { label: 'Soil mix', type: 'text', placeholder: 'e.g. Aroid mix with extra perlite' },
+  pruneNotes: { label: 'What was pruned', type: 'text', placeholder: 'e.g. Two yellow leaves and a leggy stem' },
+};
+
+// The detail fields the schema has for a care type, in schema order
+function detailFields(careType: string): string[] {
+  const variant = careLogMetadataSchema.options.find(option => option.shape.careType.value === careType);
+  return variant ? Object.keys(variant.shape).filter(key => key in DETAIL_FIELDS) : [];
+}
+
 interface CareLogFormProps {
   plantId: number;
   onSuccess?: () => void;
 }
 
 export function CareLogForm({ plantId, onSuccess }: CareLogFormProps) {
+  const { user } = useAuth();
+  const { plants } = usePlants();
   const [selectedCareType, setSelectedCareType] = useState<string>(CARE_TYPES[0]);
   const [notes, setNotes] = useState('');
   const [photoBase64, setPhotoBase64] = useState<string | null>(null);
+  const [measurementValues, setMeasurementValues] = useState(EMPTY_MEASUREMENTS);
+  const [details, setDetails] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isGeneratingAiSuggestions, setIsGeneratingAiSuggestions] = useState(false);
@@ -174,12 +237,39 @@ export function CareLogForm({ plantId, onSuccess }: CareLogFormProps) {
       return;
     }
 
+    // Only the fields for the chosen care type are sent
+    const metadata: Record<string, unknown> = { careType: selectedCareType };
+    for (const field of detailFields(selectedCareType)) {
+      const value = details[field]?.trim();
+      if (value) {
+        metadata[field] = DETAIL_FIELDS[field].type === 'number' ? parseFloat(value) : value;
+      }
+    }
+    const measurements = parseMeasurements(measurementValues);
+    if (measurements) {
+      metadata.measurements = measurements;
+    }
+    // Add health diagnosis data if available
+    if (healthDiagnosis && selectedCareType === 'health_check') {
+      metadata.healthDiagnosis = healthDiagnosis;
+    }
+
+    const parsedMetadata = careLogMetadataSchema.safeParse(metadata);
+    if (!parsedMetadata.success) {
+      toast({
+        title: 'Check the care details',
+        description: parsedMetadata.error.issues[0].message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
     try {
       setIsSubmitting(true);
       
-      const careLogData: InsertCareLog & { photoBase64?: string, healthDiagnosis?: PlantHealthDiagnosis } = {
+      const careLogData: InsertCareLog & { photoBase64?: string } = {
         plantId,
-        careType: selectedCareType,
+        careType: selectedCareType as InsertCareLog['careType'],
         notes: notes.trim() || `Logged ${selectedCareType} care`,
       };
       
@@ -188,27 +278,46 @@ export function CareLogForm({ plantId, onSuccess }: CareLogFormProps) {
         careLogData.photoBase64 = photoBase64;
       }
       
-      // Add health diagnosis data if available
-      if (healthDiagnosis && selectedCareType === 'health_check') {
-        careLogData.healthDiagnosis = healthDiagnosis;
+      if (Object.keys(metadata).length > 1) {
+        careLogData.metadata = parsedMetadata.data;
       }
 
-      await apiRequest('POST', '/api/care-logs', careLogData);
-      
-      // Invalidate queries to refresh data
-      queryClient.invalidateQueries({ queryKey: ['/api/plants'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/plants', plantId.toString()] });
-      queryClient.invalidateQueries({ queryKey: ['/api/plants', plantId.toString(), 'care-logs'] });
-      
-      toast({
-        title: 'Care logged successfully',
-        description: `${selectedCareType.charAt(0).toUpperCase() + selectedCareType.slice(1)} care logged`,
+      const careTypeLabel = selectedCareType.charAt(0).toUpperCase() + selectedCareType.slice(1);
+      const plantName = plants.find(plant => plant.id === plantId)?.name;
+
+      // Saved on this device if there's no connection, and sent when it's back
+      const response = await sendOrQueue({
+        userId: user!.id,
+        kind: 'care_log',
+        url: '/api/care-logs',
+        body: careLogData,
+        label: plantName ? `${careTypeLabel} ${plantName}` : `${careTypeLabel} care`,
       });
       
+      if (response) {
+        // Invalidate queries to refresh data
+        queryClient.invalidateQueries({ queryKey: ['/api/plants'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/plants', plantId.toString()] });
+        queryClient.invalidateQueries({ queryKey: ['/api/plants', plantId.toString(), 'care-logs'] });
+        queryClient.invalidateQueries({ queryKey: [`/api/plants/${plantId}/growth`] });
+        
+        toast({
+          title: 'Care logged successfully',
+          description: `${careTypeLabel} care logged`,
+        });
+      } else {
+        toast({
+          title: 'Saved offline',
+          description: `${careTypeLabel} care will be logged when you are back online`,
+        });
+      }
+      
       // Reset form
       setSelectedCareType(CARE_TYPES[0]);
       setNotes('');
       setPhotoBase64(null);
+      setMeasurementValues(EMPTY_MEASUREMENTS);
+      setDetails({});
       
       // Call success callback if provided
       if (onSuccess) {
@@ -266,6 +375,62 @@ export function CareLogForm({ plantId, onSuccess }: CareLogFormProps) {
         />
       </div>
 
+      {detailFields(selectedCareType).length > 0 && (
+        <div className="grid grid-cols-2 gap-2">
+          {detailFields(selectedCareType).map(field => (
+            <div key={field} className={`space-y-1 ${DETAIL_FIELDS[field].type === 'text' && field !== 'npk' ? 'col-span-2' : ''}`}>
+              <Label htmlFor={`detail-${field}`} className="text-xs text-muted-foreground">
+                {DETAIL_FIELDS[field].label}
+              </Label>
+              {DETAIL_FIELDS[field].type === 'select' ? (
+                <Select value={details[field] ?? ''} onValueChange={(value) => setDetails({ ...details, [field]: value })}>
+                  <SelectTrigger id={`detail-${field}`}>
+                    <SelectValue placeholder="Choose..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WATERING_METHODS.map(method => (
+                      <SelectItem key={method} value={method}>{WATERING_METHOD_LABELS[method]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  id={`detail-${field}`}
+                  type={DETAIL_FIELDS[field].type}
+                  inputMode={DETAIL_FIELDS[field].type === 'number' ? 'decimal' : undefined}
+                  min={DETAIL_FIELDS[field].type === 'number' ? '0' : undefined}
+                  placeholder={DETAIL_FIELDS[field].placeholder}
+                  value={details[field] ?? ''}
+                  onChange={(e) => setDetails({ ...details, [field]: e.target.value })}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label>Growth measurements (optional)</Label>
+        <div className="grid grid-cols-2 gap-2">
+          {GROWTH_METRICS.map(metric => (
+            <div key={metric} className="space-y-1">
+              <Label htmlFor={`measurement-${metric}`} className="text-xs text-muted-foreground">
+                {MEASUREMENT_FIELDS[metric].label}
+              </Label>
+              <Input
+                id={`measurement-${metric}`}
+                type="number"
+                inputMode="decimal"
+                min="0"
+                step={MEASUREMENT_FIELDS[metric].step}
+                value={measurementValues[metric]}
+                onChange={(e) => setMeasurementValues({ ...measurementValues, [metric]: e.target.value })}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
       <div className="space-y-2">
         <Label htmlFor="photo-upload">Add Photo (optional)</Label>
         <div className="flex items-center gap-3">
@@ -11,7 +11,7 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { format } from "date-fns";
-import { type CareLog, type PlantWithCare } from "@shared/schema";
+import { type CareLog, type CareLogMetadata, type PlantWithCare } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { Skeleton } from "@/components/ui/skeleton";
 import { PlantHealthDiagnosis } from "@/types/plant-health";
@@ -21,9 +21,46 @@ import { JournalEntry } from "./JournalEntry";
 type SeverityLevel = 'high' | 'medium' | 'low';
 type ConfidenceLevel = 'high' | 'medium' | 'low';
 
-interface CareLogMetadata {
-  healthDiagnosis?: PlantHealthDiagnosis;
-  // Add other metadata properties as needed in the future
+// The care-type specific details of a log as one line, e.g. "250 ml · Bottom watering"
+function describeDetails(metadata: CareLogMetadata | null): string | null {
+  if (!metadata) return null;
+  const parts: string[] = [];
+  switch (metadata.careType) {
+    case 'water':
+      if (metadata.amountMl) parts.push(`${metadata.amountMl} ml`);
+      if (metadata.method) parts.push({ top: 'From the top', bottom: 'Bottom watering', soak: 'Soaked', mist: 'Misted' }[metadata.method]);
+      break;
+    case 'fertilize':
+      if (metadata.product) parts.push(metadata.product);
+      if (metadata.npk) parts.push(`NPK ${metadata.npk}`);
+      if (metadata.dilution) parts.push(metadata.dilution);
+      break;
+    case 'repot':
+      if (metadata.potSizeCm) parts.push(`${metadata.potSizeCm} cm pot`);
+      if (metadata.soilMix) parts.push(metadata.soilMix);
+      break;
+    case 'prune':
+      if (metadata.pruneNotes) parts.push(metadata.pruneNotes);
+      break;
+  }
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
+
+// The details logged with the care, and a warning if its photo may be of another plant
+function CareLogDetails({ metadata, plantName }: { metadata: CareLogMetadata | null; plantName: string }) {
+  const details = describeDetails(metadata);
+  return (
+    <>
+      {details && (
+        <p className="text-xs mt-1 text-neutral-dark opacity-80">{details}</p>
+      )}
+      {metadata?.identityCheck?.matches === false && (
+        <p className="text-xs mt-1 text-amber-700">
+          This photo may show {metadata.identityCheck.detectedPlant || 'a different plant'} rather than {plantName}.
+        </p>
+      )}
+    </>
+  );
 }
 
 interface CareTimelineProps {
@@ -189,11 +226,9 @@ export function CareTimeline({ plant }: CareTimelineProps) {
                 let healthSeverity: SeverityLevel | undefined = undefined;
                 if (log.careType === 'health_check' && log.metadata) {
                   try {
-                    const metadata: CareLogMetadata = typeof log.metadata === 'string' 
-                      ? JSON.parse(log.metadata) 
-                      : log.metadata;
+                    const metadata = log.metadata as CareLogMetadata;
                     
-                    if (metadata.healthDiagnosis) {
+                    if (metadata.careType === 'health_check' && metadata.healthDiagnosis) {
                       healthSeverity = metadata.healthDiagnosis.severity;
                     }
                   } catch (e) {
@@ -221,15 +256,15 @@ export function CareTimeline({ plant }: CareTimelineProps) {
                 {log.notes && (
                   <p className="text-sm mt-1 text-neutral-dark">{log.notes}</p>
                 )}
+
+                <CareLogDetails metadata={log.metadata as CareLogMetadata | null} plantName={plant.name} />
                 
                 {/* Display health diagnosis information if available */}
                 {log.careType === 'health_check' && log.metadata && (() => {
                   try {
-                    const metadata: CareLogMetadata = typeof log.metadata === 'string' 
-                      ? JSON.parse(log.metadata) 
-                      : log.metadata;
+                    const metadata = log.metadata as CareLogMetadata;
                     
-                    if (metadata.healthDiagnosis) {
+                    if (metadata.careType === 'health_check' && metadata.healthDiagnosis) {
                       const diagnosis: PlantHealthDiagnosis = metadata.healthDiagnosis;
                       
                       // Determine colors based on severity
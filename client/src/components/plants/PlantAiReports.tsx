@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { formatRelativeDate } from '@/lib/utils';
+import { ChevronDown, ChevronUp, GitCompare, History, Trash2 } from 'lucide-react';
+import { AI_REPORT_LABELS, AiReportComparison, AiReportView, invalidateAiReports } from '../ai-tools/AiReportView';
+import { type AiReportWithActions } from '@shared/schema';
+
+interface PlantAiReportsProps {
+  plant: { id: number; name: string };
+}
+
+/**
+ * The saved results of the AI tools for a plant. Reports can be re-opened,
+ * and two from the same tool compared to see what changed.
+ */
+export function PlantAiReports({ plant }: PlantAiReportsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [openId, setOpenId] = useState<number | null>(null);
+  const [compareIds, setCompareIds] = useState<number[]>([]);
+
+  const { data: reports = [], isLoading } = useQuery<AiReportWithActions[]>({
+    queryKey: [`/api/ai-reports?plantId=${plant.id}`],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/ai-reports/${id}`);
+      return id;
+    },
+    onSuccess: (id) => {
+      setCompareIds((current) => current.filter((compareId) => compareId !== id));
+      invalidateAiReports(queryClient);
+      toast({ title: 'Report deleted' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  // Keep the two most recently ticked reports
+  const toggleCompare = (id: number, checked: boolean) => {
+    setCompareIds((current) => checked ? [...current.filter((compareId) => compareId !== id), id].slice(-2) : current.filter((compareId) => compareId !== id));
+  };
+
+  const compared = reports
+    .filter((report) => compareIds.includes(report.id))
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  const canCompare = compared.length === 2 && compared[0].feature === compared[1].feature;
+
+  if (isLoading || reports.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="p-4 bg-muted/50 dark:bg-muted/20 rounded-lg">
+      <h3 className="text-sm font-medium flex items-center">
+        <History className="h-4 w-4 mr-2 text-primary" />
+        AI Report History
+      </h3>
+      <p className="text-xs text-muted-foreground mt-1 mb-3">
+        Past AI results for {plant.name}. Tick two reports from the same tool to compare them.
+      </p>
+
+      <div className="space-y-2">
+        {reports.map((report) => (
+          <div key={report.id} className="bg-background border border-border rounded-md">
+            <div className="flex items-center gap-2 p-2">
+              <Checkbox
+                checked={compareIds.includes(report.id)}
+                onCheckedChange={(checked) => toggleCompare(report.id, checked === true)}
+                aria-label="Compare this report"
+              />
+              <button
+                type="button"
+                className="flex flex-1 min-w-0 items-center justify-between text-left text-sm"
+                onClick={() => setOpenId(openId === report.id ? null : report.id)}
+              >
+                <span className="truncate">
+                  {AI_REPORT_LABELS[report.feature]}
+                  <span className="text-xs text-muted-foreground"> · {formatRelativeDate(new Date(report.createdAt))}</span>
+                </span>
+                {openId === report.id ? <ChevronUp className="h-4 w-4 flex-shrink-0" /> : <ChevronDown className="h-4 w-4 flex-shrink-0" />}
+              </button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-destructive"
+                title="Delete report"
+                onClick={() => deleteMutation.mutate(report.id)}
+                disabled={deleteMutation.isPending}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+            {openId === report.id && (
+              <div className="border-t border-border p-2">
+                <AiReportView report={report} />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {compared.length === 2 && (
+        <div className="mt-4 space-y-2">
+          <h4 className="text-sm font-medium flex items-center">
+            <GitCompare className="h-4 w-4 mr-2 text-primary" />
+            What changed
+          </h4>
+          {canCompare ? (
+            <AiReportComparison older={compared[0]} newer={compared[1]} />
+          ) : (
+            <p className="text-xs text-muted-foreground">Only reports from the same AI tool can be compared.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -23,9 +23,19 @@ import { differenceInDays } from "date-fns";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
+import { sendOrQueue } from "@/lib/offlineQueue";
+import { useAuth } from "@/context/AuthContext";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { CareTimeline } from "./CareTimeline";
 import { CareLogForm } from "./CareLogForm";
+import { WateringSuggestionPanel } from "./WateringSuggestion";
+import { PlantSensorPanel } from "./PlantSensorPanel";
+import { PlantGardenSelect } from "../gardens/PlantGardenSelect";
+import { PropagatePlantDialog } from "./PropagatePlantDialog";
+import { TransferPlantDialog } from "./TransferPlantDialog";
+import { PlantFamilyTree } from "./PlantFamilyTree";
+import { PlantAiReports } from "./PlantAiReports";
+import { PlantGrowthTimeline } from "./PlantGrowthTimeline";
 import { ReminderList } from "../reminders/ReminderList";
 import { ReminderForm } from "../reminders/ReminderForm";
 import { 
@@ -47,6 +57,7 @@ interface PlantDetailModalProps {
 }
 
 export function PlantDetailModal({ plant, isOpen, onClose, onEdit }: PlantDetailModalProps) {
+  const { user } = useAuth();
   const [activeTab, setActiveTab] = useState("care-schedule");
   const [showLogCareForm, setShowLogCareForm] = useState(false);
   const [showReminderForm, setShowReminderForm] = useState(false);
@@ -55,6 +66,9 @@ export function PlantDetailModal({ plant, isOpen, onClose, onEdit }: PlantDetail
   const [careLogs, setCareLogs] = useState<CareLog[]>([]);
   const [isLoadingLogs, setIsLoadingLogs] = useState(false);
   const [isLoadingAiAdvice, setIsLoadingAiAdvice] = useState(false);
+  const [showPropagate, setShowPropagate] = useState(false);
+  const [showTransfer, setShowTransfer] = useState(false);
+  const [showFamilyTree, setShowFamilyTree] = useState(false);
 
   // Fetch care logs when the plant detail modal is opened
   useEffect(() => {
@@ -144,7 +158,7 @@ export function PlantDetailModal({ plant, isOpen, onClose, onEdit }: PlantDetail
     }
   };
 
-  const handleLogCare = async (careType: string) => {
+  const handleLogCare = async (careType: InsertCareLog['careType']) => {
     try {
       const careLog: InsertCareLog = {
         plantId: plant.id,
@@ -152,7 +166,21 @@ export function PlantDetailModal({ plant, isOpen, onClose, onEdit }: PlantDetail
         notes: `Logged ${careType} care for ${plant.name}`
       };
 
-      await apiRequest('POST', '/api/care-logs', careLog);
+      const careTypeLabel = careType.charAt(0).toUpperCase() + careType.slice(1);
+      const response = await sendOrQueue({
+        userId: user!.id,
+        kind: 'care_log',
+        url: '/api/care-logs',
+        body: careLog,
+        label: `${careTypeLabel} ${plant.name}`,
+      });
+      if (!response) {
+        toast({
+          title: "Saved offline",
+          description: `${careTypeLabel} care for ${plant.name} will be logged when you are back online`,
+        });
+        return;
+      }
 
       // Invalidate queries to refresh data
       queryClient.invalidateQueries({ queryKey: ['/api/plants'] });
@@ -161,7 +189,7 @@ export function PlantDetailModal({ plant, isOpen, onClose, onEdit }: PlantDetail
 
       toast({
         title: "Care logged successfully",
-        description: `${careType.charAt(0).toUpperCase() + careType.slice(1)} care logged for ${plant.name}`,
+        description: `${careTypeLabel} care logged for ${plant.name}`,
       });
     } catch (error) {
       toast({
@@ -308,6 +336,8 @@ export function PlantDetailModal({ plant, isOpen, onClose, onEdit }: PlantDetail
               )}
             </div>
 
+            <PlantGardenSelect plant={plant} />
+
             {/* Extract and display care tips if they exist in notes */}
             {plant.notes && plant.notes.includes("Care Tips:") ? (
               <div className="mb-6">
@@ -346,6 +376,13 @@ export function PlantDetailModal({ plant, isOpen, onClose, onEdit }: PlantDetail
                     </span>
                   )}
                 </TabsTrigger>
+                <TabsTrigger 
+                  value="growth" 
+                  className="flex-1 text-xs sm:text-sm data-[state=active]:bg-background dark:data-[state=active]:bg-background data-[state=active]:shadow-none px-1 sm:px-2"
+                >
+                  <SeedlingIcon className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+                  <span className="whitespace-nowrap overflow-hidden text-ellipsis">Growth</span>
+                </TabsTrigger>
                 <TabsTrigger 
                   value="reminders" 
                   className="flex-1 text-xs sm:text-sm data-[state=active]:bg-background dark:data-[state=active]:bg-background data-[state=active]:shadow-none px-1 sm:px-2"
@@ -392,6 +429,12 @@ export function PlantDetailModal({ plant, isOpen, onClose, onEdit }: PlantDetail
                     </div>
                   </div>
 
+                  {/* Watering interval learned from care history */}
+                  <WateringSuggestionPanel plant={plant} />
+
+                  {/* Readings from sensors attached to the plant */}
+                  <PlantSensorPanel plant={plant} />
+
                   {/* Sunlight Schedule */}
                   <div className="flex items-center p-3 bg-muted/50 dark:bg-muted/20 rounded-lg">
                     <div className="p-2 bg-yellow-100 dark:bg-yellow-950 rounded-full mr-3 flex-shrink-0">
@@ -547,6 +590,11 @@ export function PlantDetailModal({ plant, isOpen, onClose, onEdit }: PlantDetail
                 <CareTimeline plant={plant} />
               </TabsContent>
 
+              {/* Growth Tab Content */}
+              <TabsContent value="growth" className="mt-4">
+                <PlantGrowthTimeline plant={plant} />
+              </TabsContent>
+
               {/* Reminders Tab Content */}
               <TabsContent value="reminders" className="mt-4">
                 {showReminderForm ? (
@@ -655,6 +703,8 @@ export function PlantDetailModal({ plant, isOpen, onClose, onEdit }: PlantDetail
                       </div>
                     </div>
 
+                    <PlantAiReports plant={plant} />
+
                     <Button 
                       variant="outline" 
                       className="w-full flex items-center justify-center mt-3"
@@ -704,9 +754,36 @@ export function PlantDetailModal({ plant, isOpen, onClose, onEdit }: PlantDetail
                 Check Plant Health
               </Button>
             </div>
+
+            {/* Propagation and family tree */}
+            <div className="mt-3 flex space-x-3">
+              <Button variant="outline" className="flex-1" onClick={() => setShowPropagate(true)}>
+                <SeedlingIcon className="h-4 w-4 mr-2" />
+                Propagate
+              </Button>
+              <Button variant="outline" className="flex-1" onClick={() => setShowTransfer(true)}>
+                Give Away
+              </Button>
+            </div>
+            <div className="mt-3">
+              <button
+                className="text-sm text-primary"
+                onClick={() => setShowFamilyTree(!showFamilyTree)}
+              >
+                {showFamilyTree ? "Hide family tree" : "Show family tree"}
+              </button>
+              {showFamilyTree && (
+                <div className="mt-2">
+                  <PlantFamilyTree plantId={plant.id} />
+                </div>
+              )}
+            </div>
           </div>
         </DialogContent>
       </Dialog>
+
+      <PropagatePlantDialog plant={plant} open={showPropagate} onClose={() => setShowPropagate(false)} />
+      <TransferPlantDialog plant={plant} open={showTransfer} onClose={() => setShowTransfer(false)} />
     </>
   );
 }
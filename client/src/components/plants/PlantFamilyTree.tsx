@@ -0,0 +1,98 @@
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { Badge } from '@/components/ui/badge';
+import { Loader2 } from 'lucide-react';
+import { formatRelativeDate } from '@/lib/utils';
+import { useAuth } from '@/context/AuthContext';
+import { type PlantLineage, type PlantLineageNode } from '@shared/schema';
+import { PROPAGATION_METHOD_LABELS } from './PropagatePlantDialog';
+
+interface PlantFamilyTreeProps {
+  plantId: number;
+}
+
+/**
+ * The family tree a plant belongs to: the plant it was propagated from, its
+ * siblings and everything grown from it, including plants given to other users.
+ */
+export function PlantFamilyTree({ plantId }: PlantFamilyTreeProps) {
+  const { user } = useAuth();
+  const { data: lineage, isLoading, error } = useQuery<PlantLineage>({
+    queryKey: [`/api/plants/${plantId}/lineage`],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+  if (error || !lineage) {
+    return <p className="text-sm text-muted-foreground">The family tree couldn't be loaded.</p>;
+  }
+  if (lineage.nodes.length <= 1) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No relatives yet. Propagate this plant to start its family tree.
+      </p>
+    );
+  }
+
+  const children = new Map<number, PlantLineageNode[]>();
+  for (const node of lineage.nodes) {
+    if (node.parentPlantId === null) continue;
+    children.set(node.parentPlantId, [...(children.get(node.parentPlantId) ?? []), node]);
+  }
+
+  const renderNode = (node: PlantLineageNode) => {
+    const isCurrent = node.id === lineage.plantId;
+    const isOwn = node.ownerUsername === user?.username;
+    const nodeChildren = children.get(node.id) ?? [];
+
+    return (
+      <li key={node.id}>
+        <div className={`flex flex-wrap items-center gap-x-2 gap-y-1 rounded-md px-2 py-1 text-sm ${isCurrent ? 'bg-primary/10' : ''}`}>
+          <span className={isCurrent ? 'font-medium' : ''}>
+            {node.name ?? (node.scientificName ? <span className="italic">{node.scientificName}</span> : 'A plant')}
+          </span>
+          {!isOwn && (
+            <Link href={`/profile/${node.ownerUsername}`} className="text-xs text-primary hover:underline">
+              @{node.ownerUsername}
+            </Link>
+          )}
+          {node.propagationMethod && node.parentPlantId !== null && (
+            <Badge variant="outline" className="text-xs">
+              {PROPAGATION_METHOD_LABELS[node.propagationMethod]}
+              {node.propagatedAt && ` · ${formatRelativeDate(new Date(node.propagatedAt))}`}
+            </Badge>
+          )}
+          {isCurrent && <span className="text-xs text-muted-foreground">(this plant)</span>}
+        </div>
+        {nodeChildren.length > 0 && (
+          <ul className="ml-4 border-l pl-3 space-y-1">
+            {nodeChildren.map(renderNode)}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  // Normally just the root; when the tree is cut short, plants whose parent
+  // wasn't returned are listed at the top level too
+  const ids = new Set(lineage.nodes.map((node) => node.id));
+  const topLevel = lineage.nodes.filter((node) =>
+    node.id === lineage.rootId || node.parentPlantId === null || !ids.has(node.parentPlantId)
+  );
+
+  return (
+    <div className="space-y-2">
+      <ul className="space-y-1">{topLevel.map(renderNode)}</ul>
+      {lineage.truncated && (
+        <p className="text-xs text-muted-foreground">This family is large, so only part of it is shown.</p>
+      )}
+    </div>
+  );
+}
+
+export default PlantFamilyTree;
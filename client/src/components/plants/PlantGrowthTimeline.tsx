@@ -0,0 +1,183 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { formatDate } from '@/lib/utils';
+import { Loader2, Pause, Play, Ruler } from 'lucide-react';
+import { GROWTH_METRICS, type GrowthEntry, type GrowthMetric, type GrowthTimeline } from '@shared/schema';
+
+const METRICS: Record<GrowthMetric, { label: string; unit: string; color: string }> = {
+  heightCm: { label: 'Height', unit: ' cm', color: 'hsl(var(--chart-2))' },
+  leafCount: { label: 'Leaves', unit: '', color: 'hsl(var(--chart-1))' },
+  newLeaves: { label: 'New leaves', unit: '', color: 'hsl(var(--chart-3))' },
+  potSizeCm: { label: 'Pot size', unit: ' cm', color: 'hsl(var(--chart-5))' },
+};
+
+// How long each photo is shown while the time-lapse plays
+const FRAME_INTERVAL_MS = 1200;
+
+interface PlantGrowthTimelineProps {
+  plant: { id: number; name: string };
+}
+
+function MetricChart({ metric, entries }: { metric: GrowthMetric; entries: GrowthEntry[] }) {
+  const { label, unit, color } = METRICS[metric];
+  const config: ChartConfig = { value: { label, color } };
+  const points = entries
+    .filter((entry) => entry.measurements?.[metric] !== undefined)
+    .map((entry) => ({ time: entry.timestamp, value: entry.measurements![metric]! }));
+
+  if (points.length === 0) return null;
+
+  return (
+    <div>
+      <p className="text-xs font-medium mb-1">{label}</p>
+      <ChartContainer config={config} className="aspect-auto h-32 w-full">
+        <LineChart data={points} margin={{ left: 0, right: 8, top: 4, bottom: 0 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="time"
+            tickLine={false}
+            axisLine={false}
+            minTickGap={32}
+            tickFormatter={(time: string) => new Date(time).toLocaleDateString([], { month: 'short', day: 'numeric' })}
+          />
+          <YAxis width={40} tickLine={false} axisLine={false} domain={['auto', 'auto']} />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => payload[0] ? formatDate(payload[0].payload.time) : ''}
+                formatter={(value) => `${value}${unit}`}
+              />
+            }
+          />
+          <Line dataKey="value" type="monotone" stroke="var(--color-value)" strokeWidth={2} dot={{ r: 3 }} />
+        </LineChart>
+      </ChartContainer>
+    </div>
+  );
+}
+
+/**
+ * A plant's care log photos as a time-lapse, and charts of the growth
+ * measurements logged with its care.
+ */
+export function PlantGrowthTimeline({ plant }: PlantGrowthTimelineProps) {
+  const [frame, setFrame] = useState(0);
+  const [playing, setPlaying] = useState(false);
+
+  const { data: timeline, isLoading } = useQuery<GrowthTimeline>({
+    queryKey: [`/api/plants/${plant.id}/growth`],
+  });
+
+  const photos = (timeline?.entries ?? []).filter((entry) => entry.photo);
+  const current = photos[Math.min(frame, photos.length - 1)];
+
+  // Start on the newest photo
+  useEffect(() => {
+    setFrame(Math.max(photos.length - 1, 0));
+  }, [photos.length]);
+
+  // Advance one photo at a time, stopping on the newest
+  useEffect(() => {
+    if (!playing) return;
+    const timer = setInterval(() => {
+      setFrame((index) => {
+        if (index >= photos.length - 1) {
+          setPlaying(false);
+          return index;
+        }
+        return index + 1;
+      });
+    }, FRAME_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [playing, photos.length]);
+
+  const play = () => {
+    if (frame >= photos.length - 1) setFrame(0);
+    setPlaying(true);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  const entries = timeline?.entries ?? [];
+  const charted = GROWTH_METRICS.filter((metric) => entries.some((entry) => entry.measurements?.[metric] !== undefined));
+
+  if (entries.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-6">
+        Add a photo or measurements when you log care for {plant.name} to follow its growth here.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {current && (
+        <div className="space-y-2">
+          <div className="relative aspect-square w-full overflow-hidden rounded-lg bg-muted">
+            <img
+              src={current.photo!}
+              alt={`${plant.name} on ${formatDate(current.timestamp)}`}
+              className="h-full w-full object-cover"
+            />
+            <span className="absolute bottom-2 left-2 rounded bg-black/60 px-2 py-0.5 text-xs text-white">
+              {formatDate(current.timestamp)}
+            </span>
+          </div>
+          {photos.length > 1 && (
+            <div className="flex items-center gap-3">
+              <Button
+                type="button"
+                size="icon"
+                variant="outline"
+                className="h-8 w-8 flex-shrink-0"
+                title={playing ? 'Pause' : 'Play time-lapse'}
+                onClick={() => playing ? setPlaying(false) : play()}
+              >
+                {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+              </Button>
+              <Slider
+                value={[Math.min(frame, photos.length - 1)]}
+                min={0}
+                max={photos.length - 1}
+                step={1}
+                onValueChange={([index]) => {
+                  setPlaying(false);
+                  setFrame(index);
+                }}
+              />
+              <span className="text-xs text-muted-foreground whitespace-nowrap">
+                {Math.min(frame, photos.length - 1) + 1} / {photos.length}
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {charted.length > 0 ? (
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium flex items-center">
+            <Ruler className="h-4 w-4 mr-2 text-primary" />
+            Measurements
+          </h4>
+          {charted.map((metric) => (
+            <MetricChart key={metric} metric={metric} entries={entries} />
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Log height, leaf count or pot size with your care to chart them here.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { formatRelativeDate } from '@/lib/utils';
+import { useAuth } from '@/context/AuthContext';
+import { Activity, Copy, Trash2 } from 'lucide-react';
+import { type PlantSensorData, type SensorDeviceSummary, type SensorMetric, type SensorSeries } from '@shared/schema';
+
+type SensorRange = PlantSensorData['range'];
+
+const RANGES: { value: SensorRange; label: string }[] = [
+  { value: '24h', label: '24 hours' },
+  { value: '7d', label: '7 days' },
+  { value: '30d', label: '30 days' },
+];
+
+const METRICS: Record<SensorMetric, { label: string; unit: string; color: string }> = {
+  soil_moisture: { label: 'Soil moisture', unit: '%', color: 'hsl(var(--chart-4))' },
+  temperature: { label: 'Temperature', unit: '°C', color: 'hsl(var(--chart-5))' },
+  humidity: { label: 'Humidity', unit: '%', color: 'hsl(var(--chart-1))' },
+  lux: { label: 'Light', unit: ' lux', color: 'hsl(var(--chart-3))' },
+};
+
+interface PlantSensorPanelProps {
+  plant: { id: number; name: string };
+}
+
+function formatValue(metric: SensorMetric, value: number): string {
+  return `${metric === 'lux' ? Math.round(value).toLocaleString() : value.toFixed(1)}${METRICS[metric].unit}`;
+}
+
+function formatTime(time: string, range: SensorRange): string {
+  const date = new Date(time);
+  return range === '24h'
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+function SensorChart({ series, range, dryThreshold }: { series: SensorSeries; range: SensorRange; dryThreshold: number | null }) {
+  const { label, color } = METRICS[series.metric];
+  const config: ChartConfig = { average: { label, color } };
+
+  return (
+    <div>
+      <p className="text-xs font-medium mb-1">{label}</p>
+      <ChartContainer config={config} className="aspect-auto h-32 w-full">
+        <LineChart data={series.points} margin={{ left: 0, right: 8, top: 4, bottom: 0 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="time"
+            tickLine={false}
+            axisLine={false}
+            minTickGap={32}
+            tickFormatter={(time: string) => formatTime(time, range)}
+          />
+          <YAxis width={40} tickLine={false} axisLine={false} domain={['auto', 'auto']} />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => payload[0] ? new Date(payload[0].payload.time).toLocaleString() : ''}
+                formatter={(value) => formatValue(series.metric, Number(value))}
+              />
+            }
+          />
+          {series.metric === 'soil_moisture' && dryThreshold !== null && (
+            <ReferenceLine y={dryThreshold} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />
+          )}
+          <Line dataKey="average" type="monotone" stroke="var(--color-average)" strokeWidth={2} dot={false} />
+        </LineChart>
+      </ChartContainer>
+    </div>
+  );
+}
+
+/**
+ * Soil moisture, temperature, humidity and light readings from the sensors
+ * attached to a plant, and a way to connect a new one. While a soil sensor
+ * reports, watering reminders follow the soil rather than the schedule.
+ */
+export function PlantSensorPanel({ plant }: PlantSensorPanelProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [range, setRange] = useState<SensorRange>('24h');
+  const [connecting, setConnecting] = useState(false);
+  const [deviceName, setDeviceName] = useState('');
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  const { data } = useQuery<PlantSensorData>({
+    queryKey: [`/api/plants/${plant.id}/sensors?range=${range}`],
+    refetchInterval: 5 * 60 * 1000,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith(`/api/plants/${plant.id}/sensors`) });
+    queryClient.invalidateQueries({ queryKey: ['/api/sensor-devices'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/sensor-devices', { name: deviceName.trim(), plantId: plant.id });
+      return await res.json() as SensorDeviceSummary & { token: string };
+    },
+    onSuccess: (device) => {
+      setNewToken(device.token);
+      setDeviceName('');
+      setConnecting(false);
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (device: SensorDeviceSummary) => {
+      await apiRequest('DELETE', `/api/sensor-devices/${device.id}`);
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: 'Sensor removed', description: 'Its readings were deleted too.' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const copyToken = async () => {
+    if (!newToken) return;
+    await navigator.clipboard.writeText(newToken);
+    toast({ title: 'Token copied' });
+  };
+
+  const devices = data?.devices ?? [];
+  const series = data?.series ?? [];
+
+  return (
+    <div className="p-3 bg-muted/50 dark:bg-muted/20 rounded-lg space-y-3">
+      <div className="flex items-center gap-2">
+        <Activity className="h-4 w-4 text-primary" />
+        <p className="font-medium flex-1">Sensors</p>
+        {series.length > 0 && (
+          <div className="flex gap-1">
+            {RANGES.map((option) => (
+              <Button
+                key={option.value}
+                size="sm"
+                variant={range === option.value ? 'secondary' : 'ghost'}
+                className="h-7 px-2 text-xs"
+                onClick={() => setRange(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {series.length > 0 ? (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {series.filter((entry) => entry.latest).map((entry) => (
+              <Badge key={entry.metric} variant="outline" className="text-xs">
+                {METRICS[entry.metric].label}: {formatValue(entry.metric, entry.latest!.value)}
+              </Badge>
+            ))}
+          </div>
+          {series.filter((entry) => entry.points.length > 0).map((entry) => (
+            <SensorChart key={entry.metric} series={entry} range={range} dryThreshold={data?.dryThreshold ?? null} />
+          ))}
+          {data?.dryThreshold != null && (
+            <p className="text-xs text-muted-foreground">
+              Watering reminders follow the soil: they come due when moisture drops below {data.dryThreshold}%.
+            </p>
+          )}
+        </>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          {devices.length > 0
+            ? 'No readings yet. They show up here once the sensor reports.'
+            : `Connect a soil moisture or climate sensor to see how ${plant.name} is doing and get reminded when the soil is dry.`}
+        </p>
+      )}
+
+      {devices.length > 0 && (
+        <ul className="space-y-1">
+          {devices.map((device) => (
+            <li key={device.id} className="flex items-center gap-2 text-xs">
+              <span className="font-medium">{device.name}</span>
+              <span className="text-muted-foreground flex-1">
+                {device.lastSeenAt ? `Last reported ${formatRelativeDate(new Date(device.lastSeenAt))}` : 'Never reported'}
+              </span>
+              {device.userId === user?.id && (
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-6 w-6"
+                  aria-label={`Remove ${device.name}`}
+                  disabled={removeMutation.isPending}
+                  onClick={() => removeMutation.mutate(device)}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {newToken && (
+        <div className="space-y-2 rounded-md border bg-background p-2">
+          <p className="text-xs">
+            Copy this token into your device now. It won't be shown again.
+          </p>
+          <div className="flex gap-1">
+            <Input readOnly value={newToken} className="h-8 font-mono text-xs" />
+            <Button size="icon" variant="outline" className="h-8 w-8" aria-label="Copy token" onClick={copyToken}>
+              <Copy className="h-3 w-3" />
+            </Button>
+          </div>
+          <pre className="overflow-x-auto rounded bg-muted p-2 text-[11px]">
+{`curl -X POST ${window.location.origin}/api/sensors/readings \\
+  -H "Authorization: Bearer ${newToken}" \\
+  -H "Content-Type: application/json" \\
+  -d '{"metric": "soil_moisture", "value": 42}'`}
+          </pre>
+          <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setNewToken(null)}>Done</Button>
+        </div>
+      )}
+
+      {connecting ? (
+        <div className="flex gap-1">
+          <Input
+            value={deviceName}
+            maxLength={100}
+            placeholder="Sensor name, e.g. Window soil probe"
+            className="h-8 text-xs"
+            onChange={(e) => setDeviceName(e.target.value)}
+          />
+          <Button
+            size="sm"
+            className="h-8"
+            disabled={!deviceName.trim() || createMutation.isPending}
+            onClick={() => createMutation.mutate()}
+          >
+            Connect
+          </Button>
+          <Button size="sm" variant="ghost" className="h-8" onClick={() => setConnecting(false)}>Cancel</Button>
+        </div>
+      ) : (
+        !newToken && (
+          <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => setConnecting(true)}>
+            Connect a sensor
+          </Button>
+        )
+      )}
+    </div>
+  );
+}
+
+export default PlantSensorPanel;
@@ -0,0 +1,95 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { getDefaultPlantImage } from '@/lib/utils';
+import { type PlantTransferWithDetails } from '@shared/schema';
+
+// Shape of GET /api/plant-transfers
+interface PlantTransfers {
+  incoming: PlantTransferWithDetails[];
+  outgoing: PlantTransferWithDetails[];
+}
+
+/**
+ * Plants other users have offered to you, and offers you've made that are
+ * still waiting for an answer. Hidden when there are none.
+ */
+export function PlantTransferInbox() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data } = useQuery<PlantTransfers>({ queryKey: ['/api/plant-transfers'] });
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ transfer, action }: { transfer: PlantTransferWithDetails; action: 'accept' | 'decline' | 'cancel' }) => {
+      if (action === 'cancel') {
+        await apiRequest('DELETE', `/api/plant-transfers/${transfer.id}`);
+      } else {
+        await apiRequest('POST', `/api/plant-transfers/${transfer.id}/${action}`);
+      }
+    },
+    onSuccess: (_, { transfer, action }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/plant-transfers'] });
+      if (action === 'accept') {
+        queryClient.invalidateQueries({ queryKey: ['/api/plants'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/reminders'] });
+        toast({ title: 'Plant accepted', description: `${transfer.plantName} is now in your plants.` });
+      }
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/plant-transfers'] });
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (!data || (data.incoming.length === 0 && data.outgoing.length === 0)) return null;
+
+  const renderTransfer = (transfer: PlantTransferWithDetails, incoming: boolean) => (
+    <li key={transfer.id} className="flex items-center gap-3">
+      <img
+        src={transfer.image || getDefaultPlantImage(transfer.scientificName || '')}
+        alt={transfer.plantName}
+        className="h-10 w-10 rounded-md object-cover"
+      />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate">{transfer.plantName}</p>
+        <p className="text-xs text-muted-foreground truncate">
+          {incoming ? `From @${transfer.fromUsername}` : `Offered to @${transfer.toUsername}`}
+          {transfer.message && ` · "${transfer.message}"`}
+        </p>
+      </div>
+      {incoming ? (
+        <div className="flex gap-1">
+          <Button size="sm" disabled={respondMutation.isPending} onClick={() => respondMutation.mutate({ transfer, action: 'accept' })}>
+            Accept
+          </Button>
+          <Button size="sm" variant="outline" disabled={respondMutation.isPending} onClick={() => respondMutation.mutate({ transfer, action: 'decline' })}>
+            Decline
+          </Button>
+        </div>
+      ) : (
+        <Button size="sm" variant="outline" disabled={respondMutation.isPending} onClick={() => respondMutation.mutate({ transfer, action: 'cancel' })}>
+          Cancel
+        </Button>
+      )}
+    </li>
+  );
+
+  return (
+    <Card className="mb-4">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">Plant gifts</CardTitle>
+        <CardDescription>Accepted plants arrive with their care history, photos and reminders.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-3">
+          {data.incoming.map((transfer) => renderTransfer(transfer, true))}
+          {data.outgoing.map((transfer) => renderTransfer(transfer, false))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default PlantTransferInbox;
@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { PROPAGATION_METHODS, type Plant, type PropagationMethod } from '@shared/schema';
+
+export const PROPAGATION_METHOD_LABELS: Record<PropagationMethod, string> = {
+  cutting: 'Cutting',
+  division: 'Division',
+  offset: 'Offset or pup',
+  seed: 'Seed',
+  layering: 'Layering',
+  other: 'Other',
+};
+
+interface PropagatePlantDialogProps {
+  plant: Pick<Plant, 'id' | 'name' | 'location'>;
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Adds a new plant grown from this one. It keeps the parent's species, guide
+ * and care settings, so only the name and spot need filling in.
+ */
+export function PropagatePlantDialog({ plant, open, onClose }: PropagatePlantDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [method, setMethod] = useState<PropagationMethod>('cutting');
+  const [name, setName] = useState('');
+  const [location, setLocation] = useState('');
+
+  const close = () => {
+    setMethod('cutting');
+    setName('');
+    setLocation('');
+    onClose();
+  };
+
+  const propagateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/plants/${plant.id}/propagate`, {
+        method,
+        name: name.trim() || undefined,
+        location: location.trim() || undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: (child: Plant) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/plants'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/plants/${plant.id}/lineage`] });
+      toast({ title: 'Plant added', description: `${child.name} was added to your plants.` });
+      close();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && close()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Propagate {plant.name}</DialogTitle>
+          <DialogDescription>
+            The new plant gets the same species, guide and care schedule, and shows up in {plant.name}'s family tree.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="propagation-method">Method</Label>
+            <Select value={method} onValueChange={(value) => setMethod(value as PropagationMethod)}>
+              <SelectTrigger id="propagation-method">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PROPAGATION_METHODS.map((value) => (
+                  <SelectItem key={value} value={value}>{PROPAGATION_METHOD_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="propagation-name">Name (optional)</Label>
+            <Input
+              id="propagation-name"
+              value={name}
+              maxLength={100}
+              placeholder={`Named after ${plant.name} if left blank`}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="propagation-location">Location (optional)</Label>
+            <Input
+              id="propagation-location"
+              value={location}
+              maxLength={100}
+              placeholder={plant.location}
+              onChange={(e) => setLocation(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>Cancel</Button>
+          <Button disabled={propagateMutation.isPending} onClick={() => propagateMutation.mutate()}>
+            Add plant
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default PropagatePlantDialog;
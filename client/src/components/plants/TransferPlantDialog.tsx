@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { type Plant } from '@shared/schema';
+
+interface TransferPlantDialogProps {
+  plant: Pick<Plant, 'id' | 'name'>;
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Offers a plant to another user. It stays yours until they accept it.
+ */
+export function TransferPlantDialog({ plant, open, onClose }: TransferPlantDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [username, setUsername] = useState('');
+  const [message, setMessage] = useState('');
+
+  const close = () => {
+    setUsername('');
+    setMessage('');
+    onClose();
+  };
+
+  const transferMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/plants/${plant.id}/transfers`, {
+        username: username.trim(),
+        message: message.trim() || undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/plant-transfers'] });
+      toast({ title: 'Offer sent', description: `${plant.name} moves to @${username.trim().replace(/^@/, '')} once they accept.` });
+      close();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && close()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Give away {plant.name}</DialogTitle>
+          <DialogDescription>
+            Its care history, photos and reminders go with it. Share links you made for it stop working.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          id="transfer-plant-form"
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (username.trim()) transferMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="transfer-username">Username</Label>
+            <Input
+              id="transfer-username"
+              value={username}
+              maxLength={50}
+              placeholder="@username"
+              onChange={(e) => setUsername(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="transfer-message">Message (optional)</Label>
+            <Textarea
+              id="transfer-message"
+              value={message}
+              maxLength={500}
+              onChange={(e) => setMessage(e.target.value)}
+            />
+          </div>
+        </form>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>Cancel</Button>
+          <Button type="submit" form="transfer-plant-form" disabled={transferMutation.isPending || !username.trim()}>
+            Send offer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default TransferPlantDialog;
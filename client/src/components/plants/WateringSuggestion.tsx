@@ -0,0 +1,127 @@
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+import { formatRelativeDate } from "@/lib/utils";
+import { type PlantWithCare } from "@shared/schema";
+
+// Learned watering interval returned by the server
+export interface WateringSuggestion {
+  plantId: number;
+  currentFrequency: number;
+  suggestedFrequency: number;
+  observedInterval: number | null;
+  sampleSize: number;
+  season: string;
+  confidence: "low" | "medium" | "high";
+  shouldAdjust: boolean;
+  reasons: string[];
+  explanation: string;
+  adaptiveWatering: boolean;
+  lastAdjustedAt?: string | null;
+  lastAdjustmentNote?: string | null;
+}
+
+interface WateringSuggestionPanelProps {
+  plant: PlantWithCare;
+}
+
+export function WateringSuggestionPanel({ plant }: WateringSuggestionPanelProps) {
+  const [isSaving, setIsSaving] = useState(false);
+  const queryKey = [`/api/plants/${plant.id}/watering-suggestion`];
+
+  const { data: suggestion, isLoading } = useQuery<WateringSuggestion>({ queryKey });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/plants"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/watering-suggestions"] });
+  };
+
+  const handleApply = async () => {
+    try {
+      setIsSaving(true);
+      await apiRequest("POST", `/api/plants/${plant.id}/watering-suggestion/apply`);
+      refresh();
+      toast({
+        title: "Watering schedule updated",
+        description: `${plant.name} will now be watered every ${suggestion?.suggestedFrequency} days.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could not update schedule",
+        description: "Please try again in a moment.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleAdaptive = async (enabled: boolean) => {
+    try {
+      setIsSaving(true);
+      await apiRequest("PATCH", `/api/plants/${plant.id}`, { adaptiveWatering: enabled });
+      refresh();
+    } catch (error) {
+      toast({
+        title: "Could not save setting",
+        description: "Please try again in a moment.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading || !suggestion) return null;
+
+  return (
+    <div className="p-3 border rounded-lg space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Learned watering</p>
+        <Badge variant="outline" className="text-xs capitalize">{suggestion.confidence} confidence</Badge>
+      </div>
+
+      <ul className="text-xs text-muted-foreground space-y-1">
+        {suggestion.reasons.map((reason, i) => (
+          <li key={i}>{reason}</li>
+        ))}
+      </ul>
+
+      {suggestion.shouldAdjust && (
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm">
+            Water every <span className="font-medium">{suggestion.suggestedFrequency} days</span>
+            <span className="text-muted-foreground"> (now {suggestion.currentFrequency})</span>
+          </p>
+          <Button size="sm" onClick={handleApply} disabled={isSaving}>
+            Apply
+          </Button>
+        </div>
+      )}
+
+      {suggestion.lastAdjustedAt && suggestion.lastAdjustmentNote && (
+        <p className="text-xs text-muted-foreground">
+          Last adjusted {formatRelativeDate(new Date(suggestion.lastAdjustedAt))}: {suggestion.lastAdjustmentNote}
+        </p>
+      )}
+
+      <div className="flex items-center justify-between pt-1">
+        <Label htmlFor={`adaptive-watering-${plant.id}`} className="text-xs">
+          Adjust automatically when I log watering
+        </Label>
+        <Switch
+          id={`adaptive-watering-${plant.id}`}
+          checked={suggestion.adaptiveWatering}
+          onCheckedChange={handleToggleAdaptive}
+          disabled={isSaving}
+        />
+      </div>
+    </div>
+  );
+}
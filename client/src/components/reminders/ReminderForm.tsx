@@ -12,7 +12,8 @@ import { CalendarIcon } from "lucide-react";
 import { format } from "date-fns";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { InsertReminder, Reminder } from "@shared/schema";
+import { useQuery } from "@tanstack/react-query";
+import { InsertReminder, Reminder, Plant, GardenMemberWithUser, CARE_TYPES, REMINDER_STATUSES } from "@shared/schema";
 import { queryClient } from "@/lib/queryClient";
 import { apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/context/AuthContext";
@@ -32,6 +33,19 @@ export function ReminderForm({
 }: ReminderFormProps) {
   // Get current authenticated user
   const { user } = useAuth();
+  
+  // Reminders for plants in a shared garden can be assigned to a member
+  const reminderPlantId = plantId || existingReminder?.plantId;
+  const { data: plant } = useQuery<Plant>({
+    queryKey: [`/api/plants/${reminderPlantId}`],
+    enabled: !!reminderPlantId && isOpen,
+  });
+  const { data: garden } = useQuery<{ members: GardenMemberWithUser[] }>({
+    queryKey: [`/api/gardens/${plant?.gardenId}`],
+    enabled: !!plant?.gardenId && isOpen,
+  });
+  const assignees = (garden?.members || []).filter(member => member.role !== "viewer");
+  
   // Create a Zod schema for the form
   const formSchema = z.object({
     title: z.string().min(1, "Title is required"),
@@ -39,13 +53,14 @@ export function ReminderForm({
     dueDate: z.date({
       required_error: "Due date is required",
     }),
-    careType: z.string().min(1, "Care type is required"),
+    careType: z.enum(CARE_TYPES, { required_error: "Care type is required" }),
     plantId: z.number().optional(),
     userId: z.number().int(), // Will be set from authenticated user
-    status: z.string().default("pending"),
+    status: z.enum(REMINDER_STATUSES).default("pending"),
     recurring: z.boolean().default(false),
     recurringInterval: z.number().nullable().default(null),
-    notified: z.boolean().default(false)
+    notified: z.boolean().default(false),
+    assignedTo: z.number().int().nullable().default(null)
   });
   
   type FormValues = z.infer<typeof formSchema>;
@@ -61,7 +76,8 @@ export function ReminderForm({
     status: existingReminder?.status || "pending",
     recurring: existingReminder?.recurring || false,
     recurringInterval: existingReminder?.recurringInterval || null,
-    notified: existingReminder?.notified || false
+    notified: existingReminder?.notified || false,
+    assignedTo: existingReminder?.assignedTo ?? null
   };
   
   // Initialize the form
@@ -79,6 +95,7 @@ export function ReminderForm({
       
       const reminderData: InsertReminder = {
         ...data,
+        message: data.message || `Reminder for ${data.title}`,
         dueDate,
         plantId,
       };
@@ -208,6 +225,37 @@ export function ReminderForm({
               )}
             />
             
+            {assignees.length > 0 && (
+              <FormField
+                control={form.control}
+                name="assignedTo"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Assign To</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === "anyone" ? null : parseInt(value))}
+                      defaultValue={field.value ? String(field.value) : "anyone"}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Anyone" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="anyone">Anyone</SelectItem>
+                        {assignees.map((member) => (
+                          <SelectItem key={member.userId} value={String(member.userId)}>
+                            {member.displayName || member.username}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            
             <div className="flex justify-end space-x-2 pt-4">
               <Button type="button" variant="outline" onClick={onClose}>
                 Cancel
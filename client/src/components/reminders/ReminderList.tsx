@@ -6,7 +6,9 @@ import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/componen
 import { Badge } from "@/components/ui/badge";
 import { Reminder } from "@shared/schema";
 import { queryClient } from "@/lib/queryClient";
-import { BellIcon, CheckCircleIcon, XCircleIcon } from "lucide-react";
+import { sendOrQueue } from "@/lib/offlineQueue";
+import { useAuth } from "@/context/AuthContext";
+import { BellIcon, CheckCircleIcon, ClockIcon, XCircleIcon } from "lucide-react";
 
 interface ReminderListProps {
   type: "upcoming" | "overdue" | "all" | "plant";
@@ -16,6 +18,7 @@ interface ReminderListProps {
 }
 
 export function ReminderList({ type, plantId, days = 7, onAddReminder }: ReminderListProps) {
+  const { user } = useAuth();
   const getQueryKey = () => {
     switch (type) {
       case "upcoming":
@@ -34,37 +37,57 @@ export function ReminderList({ type, plantId, days = 7, onAddReminder }: Reminde
     queryKey: getQueryKey(),
   });
 
-  const handleComplete = async (id: number) => {
+  const invalidateReminders = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/reminders/upcoming"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/reminders/overdue"] });
+    if (plantId) {
+      queryClient.invalidateQueries({ queryKey: [`/api/plants/${plantId}/reminders`] });
+    }
+  };
+
+  // Completes or dismisses a reminder; offline, the action is queued and the
+  // reminder is shown as closed until it syncs
+  const closeReminder = async (reminder: Reminder, action: "complete" | "dismiss") => {
     try {
-      await fetch(`/api/reminders/${id}/complete`, {
-        method: "POST",
+      const response = await sendOrQueue({
+        userId: user!.id,
+        kind: action === "complete" ? "reminder_complete" : "reminder_dismiss",
+        url: `/api/reminders/${reminder.id}/${action}`,
+        label: `${action === "complete" ? "Complete" : "Dismiss"} "${reminder.title}"`,
       });
-      // Invalidate reminders queries
-      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/reminders/upcoming"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/reminders/overdue"] });
-      if (plantId) {
-        queryClient.invalidateQueries({ queryKey: [`/api/plants/${plantId}/reminders`] });
+      if (response) {
+        invalidateReminders();
+        return;
       }
+
+      const status = action === "complete" ? "completed" : "dismissed";
+      queryClient.setQueriesData<Reminder[]>(
+        {
+          predicate: (query) => {
+            const queryKey = query.queryKey[0];
+            return typeof queryKey === "string" && (queryKey.startsWith("/api/reminders") || /^\/api\/plants\/\d+\/reminders$/.test(queryKey));
+          },
+        },
+        (reminders) => Array.isArray(reminders)
+          ? reminders.map(r => r.id === reminder.id ? { ...r, status } : r)
+          : reminders,
+      );
     } catch (error) {
-      console.error("Error completing reminder:", error);
+      console.error(`Error closing reminder (${action}):`, error);
     }
   };
 
-  const handleDismiss = async (id: number) => {
+  const handleSnooze = async (id: number, days: number) => {
     try {
-      await fetch(`/api/reminders/${id}/dismiss`, {
+      await fetch(`/api/reminders/${id}/snooze`, {
         method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ days }),
       });
-      // Invalidate reminders queries
-      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/reminders/upcoming"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/reminders/overdue"] });
-      if (plantId) {
-        queryClient.invalidateQueries({ queryKey: [`/api/plants/${plantId}/reminders`] });
-      }
+      invalidateReminders();
     } catch (error) {
-      console.error("Error dismissing reminder:", error);
+      console.error("Error snoozing reminder:", error);
     }
   };
 
@@ -151,6 +174,9 @@ export function ReminderList({ type, plantId, days = 7, onAddReminder }: Reminde
                   <div className="flex items-center mt-2 text-xs text-gray-500">
                     <span className="mr-3">Due: {formatDate(reminder.dueDate)}</span>
                     {getStatusBadge(reminder.status)}
+                    {reminder.status === "pending" && reminder.snoozedUntil && (
+                      <span className="ml-2 italic">Snoozed</span>
+                    )}
                   </div>
                 </div>
                 
@@ -160,7 +186,7 @@ export function ReminderList({ type, plantId, days = 7, onAddReminder }: Reminde
                       size="sm" 
                       variant="ghost" 
                       className="h-8 px-2 text-green-600 hover:text-green-700 hover:bg-green-50"
-                      onClick={() => handleComplete(reminder.id)}
+                      onClick={() => closeReminder(reminder, "complete")}
                     >
                       <CheckCircleIcon className="h-4 w-4 mr-1" />
                       Complete
@@ -169,11 +195,20 @@ export function ReminderList({ type, plantId, days = 7, onAddReminder }: Reminde
                       size="sm" 
                       variant="ghost" 
                       className="h-8 px-2 text-gray-500 hover:text-gray-700 hover:bg-gray-50"
-                      onClick={() => handleDismiss(reminder.id)}
+                      onClick={() => closeReminder(reminder, "dismiss")}
                     >
                       <XCircleIcon className="h-4 w-4 mr-1" />
                       Dismiss
                     </Button>
+                    <Button 
+                      size="sm" 
+                      variant="ghost" 
+                      className="h-8 px-2 text-blue-600 hover:text-blue-700 hover:bg-blue-50"
+                      onClick={() => handleSnooze(reminder.id, 2)}
+                    >
+                      <ClockIcon className="h-4 w-4 mr-1" />
+                      Snooze 2 days
+                    </Button>
                   </div>
                 )}
               </div>
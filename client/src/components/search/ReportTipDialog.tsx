@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { TIP_REPORT_REASONS, type TipReportReason } from '@shared/schema';
+
+export const REPORT_REASON_LABELS: Record<TipReportReason, string> = {
+  spam: 'Spam or advertising',
+  offensive: 'Offensive or abusive',
+  harmful: 'Could harm plants, pets or people',
+  incorrect: 'Wrong or misleading',
+  other: 'Something else',
+};
+
+interface ReportTipDialogProps {
+  tipId: number | null;
+  tipTitle?: string;
+  onClose: () => void;
+}
+
+export function ReportTipDialog({ tipId, tipTitle, onClose }: ReportTipDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [reason, setReason] = useState<TipReportReason>('spam');
+  const [details, setDetails] = useState('');
+
+  const close = () => {
+    setReason('spam');
+    setDetails('');
+    onClose();
+  };
+
+  const reportMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/community-tips/${tipId}/report`, {
+        reason,
+        details: details.trim() || undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: (result: { hidden: boolean }) => {
+      if (result.hidden) {
+        // The tip no longer shows up in listings or search
+        queryClient.invalidateQueries({ queryKey: ['/api/community-tips'] });
+        queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/search') });
+      }
+      toast({ title: 'Report sent', description: 'Thanks, a moderator will take a look.' });
+      close();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Dialog open={tipId !== null} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Report tip</DialogTitle>
+          <DialogDescription>
+            {tipTitle ? `Tell the moderators what's wrong with "${tipTitle}".` : "Tell the moderators what's wrong with this tip."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="report-reason">Reason</Label>
+            <Select value={reason} onValueChange={(value) => setReason(value as TipReportReason)}>
+              <SelectTrigger id="report-reason">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TIP_REPORT_REASONS.map((value) => (
+                  <SelectItem key={value} value={value}>{REPORT_REASON_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="report-details">Details (optional)</Label>
+            <Textarea
+              id="report-details"
+              value={details}
+              maxLength={500}
+              onChange={(e) => setDetails(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>Cancel</Button>
+          <Button variant="destructive" disabled={reportMutation.isPending} onClick={() => reportMutation.mutate()}>
+            Send report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ReportTipDialog;
@@ -1,52 +1,132 @@
 import React, { useState, useEffect } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { Dialog, DialogContent } from "@/components/ui/dialog";
+import { useLocation } from 'wouter';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
 import { usePlants } from '@/context/PlantContext';
 import { SearchIcon } from '@/lib/icons';
-import { type PlantWithCare } from '@shared/schema';
-import { PlantCard } from '@/components/plants/PlantCard';
+import { type PlantWithCare, type SearchResponse, type SearchResult, type SearchResultType } from '@shared/schema';
 import { Button } from '@/components/ui/button';
-import { X } from 'lucide-react';
+import { Flag, Loader2, MessageCircle, X } from 'lucide-react';
+import { ReportTipDialog } from './ReportTipDialog';
+import { CommentThread } from '@/components/comments/CommentThread';
 
 interface SearchModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+const PAGE_SIZE = 20;
+
+const TYPE_LABELS: Record<SearchResultType, string> = {
+  plant: 'Plant',
+  care_log: 'Care log',
+  tip: 'Tip',
+  guide: 'Guide',
+  profile: 'Profile',
+};
+
 export function SearchModal({ isOpen, onClose }: SearchModalProps) {
   const [searchTerm, setSearchTerm] = useState('');
-  const { data: plants, isLoading } = useQuery<PlantWithCare[]>({
+  const [query, setQuery] = useState('');
+  const [page, setPage] = useState(1);
+  const [reportingTip, setReportingTip] = useState<SearchResult | null>(null);
+  const [discussingTip, setDiscussingTip] = useState<SearchResult | null>(null);
+  const [, setLocation] = useLocation();
+  const { data: plants } = useQuery<PlantWithCare[]>({
     queryKey: ['/api/plants'],
   });
   const { openPlantDetail } = usePlants();
-  const [results, setResults] = useState<PlantWithCare[]>([]);
 
   // Reset search when modal opens
   useEffect(() => {
     if (isOpen) {
       setSearchTerm('');
+      setQuery('');
     }
   }, [isOpen]);
 
-  // Filter plants based on search term
+  // Wait for typing to pause before searching
   useEffect(() => {
-    if (!plants) return;
-    
-    const filtered = plants.filter(plant => 
-      plant.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      plant.location.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      plant.type.toLowerCase().includes(searchTerm.toLowerCase())
-    );
-    
-    setResults(filtered);
-  }, [searchTerm, plants]);
+    const timeout = setTimeout(() => {
+      setQuery(searchTerm.trim());
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  const params = new URLSearchParams({ q: query, page: String(page), limit: String(PAGE_SIZE) });
+  const { data, isLoading } = useQuery<SearchResponse>({
+    queryKey: [`/api/search?${params.toString()}`],
+    enabled: isOpen && query.length > 0,
+  });
 
-  const handlePlantClick = (plant: PlantWithCare) => {
-    openPlantDetail(plant);
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.limit)) : 1;
+
+  const handleResultClick = (result: SearchResult) => {
+    switch (result.type) {
+      case 'plant':
+      case 'care_log': {
+        const plant = plants?.find(p => p.id === result.plantId);
+        if (!plant) return;
+        openPlantDetail(plant);
+        break;
+      }
+      case 'guide':
+        setLocation(`/guides?search=${encodeURIComponent(result.subtitle ?? result.title)}`);
+        break;
+      case 'profile':
+        setLocation(`/profile/${result.username}`);
+        break;
+      case 'tip':
+        // Tips are shown in full in the result itself
+        return;
+    }
     onClose();
   };
 
+  const renderResult = (result: SearchResult) => (
+    <div key={`${result.type}-${result.id}`}>
+      <button
+        className="w-full text-left p-3 rounded-lg border border-neutral-medium border-opacity-30 hover:bg-neutral-lightest dark:hover:bg-gray-800"
+        onClick={() => handleResultClick(result)}
+      >
+        <div className="flex items-center justify-between gap-2 mb-1">
+          <div className="min-w-0">
+            <p className="font-medium truncate">{result.title}</p>
+            {result.subtitle && (
+              <p className="text-xs text-neutral-dark dark:text-gray-400 truncate">
+                {result.type === 'profile' ? `@${result.subtitle}` : result.subtitle}
+              </p>
+            )}
+          </div>
+          <Badge variant="secondary" className="shrink-0">{TYPE_LABELS[result.type]}</Badge>
+        </div>
+        {result.highlight.length > 0 && (
+          <p className="text-sm text-neutral-dark dark:text-gray-300 line-clamp-3">
+            {result.highlight.map((segment, index) => segment.match
+              ? <mark key={index} className="bg-yellow-200 dark:bg-yellow-700 rounded-sm px-0.5">{segment.text}</mark>
+              : <React.Fragment key={index}>{segment.text}</React.Fragment>
+            )}
+          </p>
+        )}
+      </button>
+      {result.type === 'tip' && (
+        <div className="flex justify-end">
+          <Button variant="ghost" size="sm" className="h-7 text-xs text-neutral-dark dark:text-gray-400" onClick={() => setDiscussingTip(result)}>
+            <MessageCircle className="h-3 w-3 mr-1" />
+            Comments
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 text-xs text-neutral-dark dark:text-gray-400" onClick={() => setReportingTip(result)}>
+            <Flag className="h-3 w-3 mr-1" />
+            Report
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-md w-[95vw] p-0">
@@ -56,49 +136,72 @@ export function SearchModal({ isOpen, onClose }: SearchModalProps) {
               <SearchIcon className="absolute left-3 top-1/2 -mt-2 h-4 w-4 text-neutral-dark dark:text-gray-400" />
               <Input
                 className="pl-10 py-6 h-10"
-                placeholder="Search plants by name, type..."
+                placeholder="Search plants, care notes, tips, guides..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 autoFocus
               />
             </div>
-            <Button 
-              variant="ghost" 
-              className="ml-2 rounded-full" 
+            <Button
+              variant="ghost"
+              className="ml-2 rounded-full"
               size="icon"
               onClick={onClose}
             >
               <X className="h-4 w-4" />
             </Button>
           </div>
-          
+
           <div className="max-h-[60vh] overflow-y-auto">
-            {searchTerm.length > 0 ? (
-              results.length > 0 ? (
-                <div className="space-y-4 p-1">
-                  {results.map(plant => (
-                    <PlantCard
-                      key={plant.id}
-                      plant={plant}
-                      onClick={() => handlePlantClick(plant)}
-                    />
-                  ))}
+            {query.length > 0 ? (
+              isLoading ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                </div>
+              ) : data && data.results.length > 0 ? (
+                <div className="space-y-2 p-1">
+                  {data.results.map(renderResult)}
+
+                  {totalPages > 1 && (
+                    <div className="flex items-center justify-between pt-2">
+                      <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                        Previous
+                      </Button>
+                      <span className="text-sm text-neutral-dark dark:text-gray-400">Page {page} of {totalPages}</span>
+                      <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                        Next
+                      </Button>
+                    </div>
+                  )}
                 </div>
               ) : (
                 <div className="text-center py-8">
-                  <p className="text-neutral-dark dark:text-gray-400">No plants match your search.</p>
+                  <p className="text-neutral-dark dark:text-gray-400">Nothing matches your search.</p>
                 </div>
               )
             ) : (
               <div className="text-center py-8">
-                <p className="text-neutral-dark dark:text-gray-400">Enter a search term to find plants.</p>
+                <p className="text-neutral-dark dark:text-gray-400">Enter a search term to find plants, notes, tips and more.</p>
               </div>
             )}
           </div>
         </div>
       </DialogContent>
+      <ReportTipDialog
+        tipId={reportingTip?.id ?? null}
+        tipTitle={reportingTip?.title}
+        onClose={() => setReportingTip(null)}
+      />
+      <Dialog open={discussingTip !== null} onOpenChange={(open) => !open && setDiscussingTip(null)}>
+        <DialogContent className="sm:max-w-lg w-[95vw] max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{discussingTip?.title}</DialogTitle>
+          </DialogHeader>
+          {discussingTip && <CommentThread targetType="tip" targetId={discussingTip.id} />}
+        </DialogContent>
+      </Dialog>
     </Dialog>
   );
 }
 
-export default SearchModal;
\ No newline at end of file
+export default SearchModal;
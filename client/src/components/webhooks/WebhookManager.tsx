@@ -0,0 +1,290 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { formatRelativeDate } from '@/lib/utils';
+import { Copy, KeyRound, Send, Trash2, Webhook } from 'lucide-react';
+import {
+  WEBHOOK_EVENT_TYPES,
+  type WebhookDelivery,
+  type WebhookDeliveryStatus,
+  type WebhookEndpointSummary,
+  type WebhookEventType,
+} from '@shared/schema';
+
+const EVENT_LABELS: Record<WebhookEventType, string> = {
+  plant_added: 'Plant added',
+  care_log_added: 'Care logged',
+  reminder_due: 'Reminder due',
+  diagnosis_completed: 'Diagnosis completed',
+  follow_user: 'Follows',
+};
+
+const STATUS_VARIANTS: Record<WebhookDeliveryStatus, 'default' | 'secondary' | 'destructive'> = {
+  succeeded: 'default',
+  pending: 'secondary',
+  failed: 'destructive',
+};
+
+function DeliveryLog({ endpointId }: { endpointId: number }) {
+  const { data: deliveries = [] } = useQuery<WebhookDelivery[]>({ queryKey: [`/api/webhooks/${endpointId}/deliveries`] });
+
+  if (deliveries.length === 0) {
+    return <p className="pt-3 text-xs text-muted-foreground">Nothing has been sent to this endpoint yet.</p>;
+  }
+  return (
+    <ul className="space-y-1 pt-3">
+      {deliveries.map((delivery) => (
+        <li key={delivery.id} className="flex items-center gap-2 text-xs">
+          <Badge variant={STATUS_VARIANTS[delivery.status]} className="text-[10px]">{delivery.status}</Badge>
+          <span className="font-mono">{delivery.eventType}</span>
+          <span className="flex-1 truncate text-muted-foreground">
+            {delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : delivery.lastError ?? ''}
+            {delivery.status === 'pending' && delivery.attempts > 0 && ` · retry ${delivery.attempts}`}
+          </span>
+          <span className="text-muted-foreground">{formatRelativeDate(new Date(delivery.createdAt))}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Settings card for outgoing webhooks: endpoints that receive signed JSON for
+ * the garden events they subscribe to, with a delivery log and a test button.
+ */
+export function WebhookManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [eventTypes, setEventTypes] = useState<WebhookEventType[]>([]);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  // Shown once, right after an endpoint is created or its secret rotated
+  const [revealedSecret, setRevealedSecret] = useState<{ endpointId: number; secret: string } | null>(null);
+
+  const { data: endpoints = [] } = useQuery<WebhookEndpointSummary[]>({ queryKey: ['/api/webhooks'] });
+
+  const refresh = (endpointId?: number) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/webhooks'] });
+    if (endpointId) {
+      queryClient.invalidateQueries({ queryKey: [`/api/webhooks/${endpointId}/deliveries`] });
+    }
+  };
+
+  const toggleEvent = (eventType: WebhookEventType, checked: boolean) => {
+    setEventTypes((types) => checked ? [...types, eventType] : types.filter((type) => type !== eventType));
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: 'Error', description: error.message, variant: 'destructive' });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/webhooks', {
+        url: url.trim(),
+        description: description.trim() || undefined,
+        eventTypes,
+      });
+      return await res.json() as WebhookEndpointSummary & { secret: string };
+    },
+    onSuccess: (endpoint) => {
+      setUrl('');
+      setDescription('');
+      setEventTypes([]);
+      setRevealedSecret({ endpointId: endpoint.id, secret: endpoint.secret });
+      refresh();
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, active }: { id: number; active: boolean }) => {
+      await apiRequest('PATCH', `/api/webhooks/${id}`, { active });
+    },
+    onSuccess: () => refresh(),
+    onError,
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest('POST', `/api/webhooks/${id}/secret`);
+      return await res.json() as WebhookEndpointSummary & { secret: string };
+    },
+    onSuccess: (endpoint) => {
+      setRevealedSecret({ endpointId: endpoint.id, secret: endpoint.secret });
+      refresh();
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/webhooks/${id}`);
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: 'Webhook removed' });
+    },
+    onError,
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest('POST', `/api/webhooks/${id}/test`);
+      return await res.json() as WebhookDelivery;
+    },
+    onSuccess: (delivery) => {
+      refresh(delivery.endpointId);
+      setExpandedId(delivery.endpointId);
+      if (delivery.status === 'succeeded') {
+        toast({ title: 'Test event delivered', description: `The endpoint answered with HTTP ${delivery.responseStatus}.` });
+      } else {
+        toast({ title: 'Test event failed', description: delivery.lastError ?? 'The endpoint did not accept it.', variant: 'destructive' });
+      }
+    },
+    onError,
+  });
+
+  const copySecret = async () => {
+    if (!revealedSecret) return;
+    await navigator.clipboard.writeText(revealedSecret.secret);
+    toast({ title: 'Copied', description: 'Signing secret copied to clipboard.' });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Webhooks</CardTitle>
+        <CardDescription>
+          Send garden events to Zapier, n8n or your own bots. Each request is signed with the endpoint's secret and retried if it fails.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {endpoints.map((endpoint) => (
+          <div key={endpoint.id} className="p-3 border rounded-lg">
+            <div className="flex items-center justify-between gap-2">
+              <button
+                type="button"
+                className="text-left flex-1 min-w-0"
+                onClick={() => setExpandedId(expandedId === endpoint.id ? null : endpoint.id)}
+              >
+                <p className="font-medium truncate">{endpoint.description || endpoint.url}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {endpoint.eventTypes.map((type) => EVENT_LABELS[type]).join(', ')}
+                  {endpoint.lastDelivery && ` · last ${endpoint.lastDelivery.status} ${formatRelativeDate(new Date(endpoint.lastDelivery.createdAt))}`}
+                </p>
+              </button>
+              <Switch
+                checked={endpoint.active}
+                aria-label={endpoint.active ? 'Pause webhook' : 'Resume webhook'}
+                onCheckedChange={(active) => updateMutation.mutate({ id: endpoint.id, active })}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                title="Send test event"
+                onClick={() => testMutation.mutate(endpoint.id)}
+                disabled={testMutation.isPending}
+              >
+                <Send className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                title="New signing secret"
+                onClick={() => rotateMutation.mutate(endpoint.id)}
+                disabled={rotateMutation.isPending}
+              >
+                <KeyRound className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="text-destructive"
+                onClick={() => deleteMutation.mutate(endpoint.id)}
+                disabled={deleteMutation.isPending}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            {revealedSecret?.endpointId === endpoint.id ? (
+              <div className="mt-3 space-y-2 rounded-md bg-muted p-2">
+                <p className="text-xs">Copy the signing secret now. It won't be shown again.</p>
+                <div className="flex gap-1">
+                  <Input readOnly value={revealedSecret.secret} className="h-8 font-mono text-xs" />
+                  <Button type="button" size="icon" variant="outline" className="h-8 w-8" onClick={copySecret}>
+                    <Copy className="h-3 w-3" />
+                  </Button>
+                </div>
+                <Button type="button" size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setRevealedSecret(null)}>
+                  Done
+                </Button>
+              </div>
+            ) : (
+              expandedId === endpoint.id && (
+                <p className="pt-2 text-xs text-muted-foreground break-all">
+                  {endpoint.url} · secret ending in <span className="font-mono">{endpoint.secretHint}</span>
+                </p>
+              )
+            )}
+            {expandedId === endpoint.id && <DeliveryLog endpointId={endpoint.id} />}
+          </div>
+        ))}
+
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="webhookUrl">Endpoint URL</Label>
+            <Input
+              id="webhookUrl"
+              type="url"
+              placeholder="https://hooks.zapier.com/..."
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+            />
+          </div>
+          <Input
+            placeholder="Description (optional)"
+            maxLength={200}
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+          <div className="space-y-2">
+            <Label>Events</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {WEBHOOK_EVENT_TYPES.map((eventType) => (
+                <label key={eventType} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={eventTypes.includes(eventType)}
+                    onCheckedChange={(checked) => toggleEvent(eventType, checked === true)}
+                  />
+                  {EVENT_LABELS[eventType]}
+                </label>
+              ))}
+            </div>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => createMutation.mutate()}
+            disabled={!url.trim() || eventTypes.length === 0 || createMutation.isPending}
+          >
+            <Webhook className="mr-2 h-4 w-4" />
+            Add Webhook
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
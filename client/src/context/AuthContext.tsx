@@ -3,6 +3,7 @@ import { useMutation, useQuery } from "@tanstack/react-query";
 import { User } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { clearCsrfToken } from "@/lib/csrf";
+import { clearOfflineCache } from "@/lib/serviceWorker";
 import { useToast } from "@/hooks/use-toast";
 
 type LoginData = {
@@ -244,6 +245,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     onSuccess: () => {
       // Clear the CSRF token to prevent using old tokens
       clearCsrfToken();
+
+      // Forget the plants and reminders cached for offline use
+      clearOfflineCache();
       
       // Clear user data from cache immediately
       queryClient.setQueryData(['/api/auth/user'], null);
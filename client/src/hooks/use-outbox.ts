@@ -0,0 +1,42 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { flushOutbox, getOutboxEntries, subscribeToOutbox, type OutboxEntry, type SyncResult } from '@/lib/offlineQueue';
+
+const EMPTY_RESULT: SyncResult = { synced: 0, conflicts: [] };
+
+/**
+ * The signed-in user's queued offline mutations, and a function that sends them.
+ */
+export function useOutbox() {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  useEffect(() => {
+    if (!userId) {
+      setEntries([]);
+      return;
+    }
+
+    const load = () => {
+      getOutboxEntries(userId)
+        .then(setEntries)
+        .catch((error) => console.error('Error reading the offline outbox:', error));
+    };
+    load();
+    return subscribeToOutbox(load);
+  }, [userId]);
+
+  const sync = useCallback(async (): Promise<SyncResult> => {
+    if (!userId) return EMPTY_RESULT;
+    setIsSyncing(true);
+    try {
+      return await flushOutbox(userId);
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [userId]);
+
+  return { entries, pendingCount: entries.length, isSyncing, sync };
+}
@@ -0,0 +1,187 @@
+import { ApiError, apiRequest, queryClient } from "./queryClient";
+
+const DB_NAME = "hannas-garden-offline";
+const STORE = "outbox";
+
+export type OutboxKind = "care_log" | "reminder_complete" | "reminder_dismiss";
+
+// A mutation made offline, waiting in IndexedDB to be sent
+export interface OutboxEntry {
+  id: string; // Also sent as the care log's offlineId, so a replay is only logged once
+  userId: number;
+  kind: OutboxKind;
+  url: string;
+  body?: Record<string, unknown>;
+  label: string; // Shown in the sync status, e.g. "Water Monstera"
+  createdAt: string;
+  attempts: number;
+  lastError?: string;
+}
+
+export type OutboxRequest = Pick<OutboxEntry, "userId" | "kind" | "url" | "body" | "label">;
+
+export interface OutboxConflict {
+  entry: OutboxEntry;
+  message: string;
+}
+
+export interface SyncResult {
+  synced: number;
+  conflicts: OutboxConflict[];
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  database ??= openDatabase().catch((error) => {
+    database = null;
+    throw error;
+  });
+  const db = await database;
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+const listeners = new Set<() => void>();
+
+/**
+ * Calls the listener whenever entries are queued, sent or dropped.
+ * @returns A function that unsubscribes it
+ */
+export function subscribeToOutbox(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * The user's queued mutations, oldest first.
+ */
+export async function getOutboxEntries(userId: number): Promise<OutboxEntry[]> {
+  const entries = await withStore<OutboxEntry[]>("readonly", (store) => store.getAll());
+  return entries
+    .filter((entry) => entry.userId === userId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+// Failures that come from the server rather than the connection
+function isNetworkError(error: unknown): boolean {
+  return !(error instanceof ApiError);
+}
+
+/**
+ * Sends a care log or reminder action, or queues it in the outbox when the
+ * device is offline or the server can't be reached.
+ * @returns The response, or null if the request was queued
+ * @throws An ApiError if the server rejected the request
+ */
+export async function sendOrQueue(request: OutboxRequest): Promise<Response | null> {
+  const entry: OutboxEntry = {
+    ...request,
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+  };
+  if (entry.kind === "care_log") {
+    entry.body = { ...entry.body, offlineId: entry.id };
+  }
+
+  if (navigator.onLine) {
+    try {
+      return await apiRequest("POST", entry.url, entry.body);
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+
+  // Queued care keeps the time it was done rather than the time it syncs
+  if (entry.kind === "care_log") {
+    entry.body = { ...entry.body, performedAt: entry.createdAt };
+  }
+  await withStore("readwrite", (store) => store.put(entry));
+  notify();
+  return null;
+}
+
+// Why the server turned down a queued request that can't succeed on a retry
+function conflictMessage(entry: OutboxEntry, error: ApiError): string {
+  switch (error.status) {
+    case 409:
+      return `${entry.label}: it was already completed or dismissed`;
+    case 404:
+      return `${entry.label}: the ${entry.kind === "care_log" ? "plant" : "reminder"} no longer exists`;
+    case 403:
+      return `${entry.label}: you no longer have access to this plant`;
+    default:
+      return `${entry.label}: ${error.message}`;
+  }
+}
+
+async function replay(userId: number): Promise<SyncResult> {
+  const result: SyncResult = { synced: 0, conflicts: [] };
+
+  for (const entry of await getOutboxEntries(userId)) {
+    try {
+      await apiRequest("POST", entry.url, entry.body);
+      result.synced++;
+    } catch (error) {
+      // Offline again, signed out or a server error: keep this and later entries,
+      // in order, for the next attempt
+      if (isNetworkError(error) || (error as ApiError).status === 401 || (error as ApiError).status >= 500) {
+        await withStore("readwrite", (store) => store.put({
+          ...entry,
+          attempts: entry.attempts + 1,
+          lastError: error instanceof Error ? error.message : String(error),
+        }));
+        break;
+      }
+      result.conflicts.push({ entry, message: conflictMessage(entry, error as ApiError) });
+    }
+    await withStore("readwrite", (store) => store.delete(entry.id));
+  }
+
+  if (result.synced > 0 || result.conflicts.length > 0) {
+    queryClient.invalidateQueries({
+      predicate: (query) => {
+        const queryKey = query.queryKey[0];
+        return typeof queryKey === "string" && (queryKey.startsWith("/api/plants") || queryKey.startsWith("/api/reminders"));
+      },
+    });
+  }
+  notify();
+  return result;
+}
+
+let syncing: Promise<SyncResult> | null = null;
+
+/**
+ * Sends the user's queued mutations in the order they were made, stopping at
+ * the first one that fails for lack of a connection. Requests the server
+ * rejects, such as completing a reminder someone else already completed, are
+ * dropped and returned as conflicts.
+ */
+export function flushOutbox(userId: number): Promise<SyncResult> {
+  syncing ??= replay(userId).finally(() => {
+    syncing = null;
+  });
+  return syncing;
+}
@@ -0,0 +1,57 @@
+import { apiRequest } from "./queryClient";
+
+// Converts the server's base64url VAPID key into the format PushManager expects
+function urlBase64ToUint8Array(base64String: string): Uint8Array {
+  const padding = "=".repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, "+").replace(/_/g, "/");
+  const raw = window.atob(base64);
+  return Uint8Array.from(Array.from(raw).map(char => char.charCodeAt(0)));
+}
+
+export function isPushSupported(): boolean {
+  return "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+}
+
+/**
+ * Registers the service worker, asks for notification permission and sends
+ * the resulting push subscription to the server.
+ * @throws An error if push isn't supported, permission is denied or the server has no VAPID key
+ */
+export async function subscribeToPush(): Promise<void> {
+  if (!isPushSupported()) {
+    throw new Error("Push notifications are not supported in this browser");
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") {
+    throw new Error("Notification permission was not granted");
+  }
+
+  const keyResponse = await apiRequest("GET", "/api/notifications/push-key");
+  const { publicKey } = await keyResponse.json();
+
+  const registration = await navigator.serviceWorker.register("/sw.js");
+  await navigator.serviceWorker.ready;
+
+  const subscription = await registration.pushManager.getSubscription()
+    ?? await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(publicKey) as BufferSource,
+    });
+
+  await apiRequest("POST", "/api/notifications/push-subscriptions", subscription.toJSON());
+}
+
+/**
+ * Removes this browser's push subscription locally and on the server.
+ */
+export async function unsubscribeFromPush(): Promise<void> {
+  if (!isPushSupported()) return;
+
+  const registration = await navigator.serviceWorker.getRegistration("/sw.js");
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) return;
+
+  await apiRequest("DELETE", "/api/notifications/push-subscriptions", { endpoint: subscription.endpoint });
+  await subscription.unsubscribe();
+}
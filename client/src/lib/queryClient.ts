@@ -2,7 +2,7 @@ import { QueryClient, QueryFunction } from "@tanstack/react-query";
 import { fetchCsrfToken, withCsrf, clearCsrfToken } from "./csrf";
 
 // Custom API error class to provide better error messages
-class ApiError extends Error {
+export class ApiError extends Error {
   status: number;
   
   constructor(status: number, message: string) {
@@ -146,7 +146,9 @@ export const getQueryFn: <T>(options: {
 
 export const queryClient = new QueryClient({
   defaultOptions: {
+    // Requests are always sent, so the service worker can answer them from its cache when offline
     queries: {
+      networkMode: "offlineFirst",
       queryFn: getQueryFn({ on401: "throw" }),
       refetchInterval: false,
       refetchOnWindowFocus: false,
@@ -154,6 +156,7 @@ export const queryClient = new QueryClient({
       retry: false,
     },
     mutations: {
+      networkMode: "offlineFirst",
       retry: false,
     },
   },
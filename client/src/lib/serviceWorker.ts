@@ -0,0 +1,21 @@
+/**
+ * Registers the service worker that caches the app and the user's plants and
+ * reminders for offline use. Only in production builds, where the bundles it
+ * caches have hashed names; push notifications register it on their own.
+ */
+export function registerServiceWorker(): void {
+  if (!("serviceWorker" in navigator) || !import.meta.env.PROD) return;
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch(error => {
+      console.error("Service worker registration failed:", error);
+    });
+  });
+}
+
+/**
+ * Drops the API responses the service worker cached for the signed-in user.
+ */
+export function clearOfflineCache(): void {
+  navigator.serviceWorker?.controller?.postMessage({ type: "clear-api-cache" });
+}
@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2 } from 'lucide-react';
+import { type AiUsageTotals } from '@shared/schema';
+
+// Usage report returned by GET /api/admin/ai-usage
+interface AiUsageReport {
+  days: number;
+  totals: AiUsageTotals;
+  byFeature: (AiUsageTotals & { feature: string })[];
+  byUser: (AiUsageTotals & { userId: number | null; username: string | null })[];
+}
+
+const PERIODS = [1, 7, 30, 90];
+
+function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+}
+
+function cacheRate(row: AiUsageTotals): string {
+  return row.requests > 0 ? `${Math.round((row.cachedRequests / row.requests) * 100)}%` : '–';
+}
+
+function UsageTable({ rows, label }: { rows: (AiUsageTotals & { name: string })[]; label: string }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{label}</TableHead>
+          <TableHead className="text-right">Requests</TableHead>
+          <TableHead className="text-right">Cached</TableHead>
+          <TableHead className="text-right">Failed</TableHead>
+          <TableHead className="text-right">Tokens</TableHead>
+          <TableHead className="text-right">Est. cost</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={row.name}>
+            <TableCell>{row.name}</TableCell>
+            <TableCell className="text-right">{row.requests}</TableCell>
+            <TableCell className="text-right">{cacheRate(row)}</TableCell>
+            <TableCell className="text-right">{row.failedRequests}</TableCell>
+            <TableCell className="text-right">{(row.promptTokens + row.completionTokens).toLocaleString()}</TableCell>
+            <TableCell className="text-right">{formatCost(row.estimatedCost)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default function AdminAiUsage() {
+  const [days, setDays] = useState(7);
+
+  const { data, isLoading, error } = useQuery<AiUsageReport>({
+    queryKey: [`/api/admin/ai-usage?days=${days}`],
+  });
+
+  return (
+    <div className="container max-w-4xl mx-auto py-6 px-4 space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">AI Usage</h1>
+        <Select value={String(days)} onValueChange={(value) => setDays(parseInt(value, 10))}>
+          <SelectTrigger className="w-[140px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIODS.map((period) => (
+              <SelectItem key={period} value={String(period)}>
+                {period === 1 ? 'Last 24 hours' : `Last ${period} days`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading && (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      )}
+
+      {error && (
+        <p className="text-muted-foreground">{(error as Error).message}</p>
+      )}
+
+      {data && (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Requests</CardDescription>
+                <CardTitle>{data.totals.requests}</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Served from cache</CardDescription>
+                <CardTitle>{cacheRate(data.totals)}</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Tokens</CardDescription>
+                <CardTitle>{(data.totals.promptTokens + data.totals.completionTokens).toLocaleString()}</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Estimated cost</CardDescription>
+                <CardTitle>{formatCost(data.totals.estimatedCost)}</CardTitle>
+              </CardHeader>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>By Feature</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <UsageTable label="Feature" rows={data.byFeature.map((row) => ({ ...row, name: row.feature }))} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Top Users</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <UsageTable
+                label="User"
+                rows={data.byUser.map((row) => ({ ...row, name: row.username || 'Anonymous' }))}
+              />
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,364 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { REPORT_REASON_LABELS } from '@/components/search/ReportTipDialog';
+import { useAuth } from '@/context/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { Loader2 } from 'lucide-react';
+import {
+  USER_ROLES,
+  type ModerateTip,
+  type ModerationActionType,
+  type ModerationActionWithModerator,
+  type ModerationQueueItem,
+  type StaffMember,
+  type TipReportWithReporter,
+  type UserRole,
+} from '@shared/schema';
+
+// Pages returned by GET /api/moderation/queue and /api/moderation/log
+interface QueuePage { items: ModerationQueueItem[]; page: number; limit: number }
+interface LogPage { entries: ModerationActionWithModerator[]; page: number; limit: number }
+
+const PAGE_SIZE = 20;
+
+const ACTION_LABELS: Record<ModerationActionType, string> = {
+  hide: 'Hid',
+  restore: 'Restored',
+  remove: 'Removed',
+  dismiss_reports: 'Dismissed reports',
+  feature: 'Featured tip',
+  unfeature: 'Unfeatured tip',
+  auto_hide: 'Hid tip automatically',
+  change_role: 'Changed role',
+};
+
+const TARGET_LABELS: Record<string, string> = {
+  tip: 'Tip',
+  comment: 'Comment',
+  user: 'User',
+};
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  moderator: 'Moderator',
+  member: 'Member',
+};
+
+function formatDate(value: Date | string | null): string {
+  return value ? new Date(value).toLocaleString() : '–';
+}
+
+function TipReports({ tipId }: { tipId: number }) {
+  const { data: reports, isLoading } = useQuery<TipReportWithReporter[]>({
+    queryKey: [`/api/moderation/tips/${tipId}/reports`],
+  });
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-primary" />;
+  }
+  if (!reports || reports.length === 0) {
+    return <p className="text-sm text-muted-foreground">No reports.</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {reports.map((report) => (
+        <li key={report.id} className="text-sm">
+          <span className="font-medium">@{report.reporterUsername}</span>
+          {' · '}{REPORT_REASON_LABELS[report.reason]}
+          {' · '}<span className="text-muted-foreground">{formatDate(report.createdAt)}</span>
+          {report.resolvedAt && <Badge variant="outline" className="ml-2">Resolved</Badge>}
+          {report.details && <p className="text-muted-foreground mt-1">{report.details}</p>}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function QueueCard({ item, onAction, busy }: {
+  item: ModerationQueueItem;
+  onAction: (tipId: number, action: ModerateTip['action'], note?: string) => void;
+  busy: boolean;
+}) {
+  const [showReports, setShowReports] = useState(false);
+  const [note, setNote] = useState('');
+  const { tip } = item;
+
+  const act = (action: ModerateTip['action']) => {
+    onAction(tip.id, action, note.trim() || undefined);
+    setNote('');
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <CardTitle className="text-base">{tip.title}</CardTitle>
+            <CardDescription>
+              by @{tip.username} · {tip.plantType} · {formatDate(tip.createdAt)}
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-1 justify-end">
+            {tip.status === 'reported' && <Badge variant="destructive">Hidden</Badge>}
+            {tip.featured && <Badge>Featured</Badge>}
+            <Badge variant="secondary">
+              {item.openReports} open {item.openReports === 1 ? 'report' : 'reports'}
+            </Badge>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm whitespace-pre-line line-clamp-6">{tip.content}</p>
+
+        {item.reasons.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {item.reasons.map((reason) => (
+              <Badge key={reason} variant="outline">{REPORT_REASON_LABELS[reason]}</Badge>
+            ))}
+          </div>
+        )}
+
+        <Button variant="link" className="h-auto p-0" onClick={() => setShowReports(!showReports)}>
+          {showReports ? 'Hide reports' : 'Show reports'}
+        </Button>
+        {showReports && <TipReports tipId={tip.id} />}
+
+        <Input placeholder="Note for the audit log (optional)" value={note} maxLength={500} onChange={(e) => setNote(e.target.value)} />
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" disabled={busy} onClick={() => act('restore')}>Restore</Button>
+          {tip.status !== 'reported' && (
+            <Button size="sm" variant="outline" disabled={busy} onClick={() => act('hide')}>Hide</Button>
+          )}
+          {item.openReports > 0 && (
+            <Button size="sm" variant="outline" disabled={busy} onClick={() => act('dismiss_reports')}>Dismiss reports</Button>
+          )}
+          <Button size="sm" variant="outline" disabled={busy} onClick={() => act(tip.featured ? 'unfeature' : 'feature')}>
+            {tip.featured ? 'Unfeature' : 'Feature'}
+          </Button>
+          <Button size="sm" variant="destructive" disabled={busy} onClick={() => act('remove')}>Remove</Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function RolesPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [username, setUsername] = useState('');
+  const [role, setRole] = useState<UserRole>('moderator');
+
+  const { data: staff } = useQuery<StaffMember[]>({ queryKey: ['/api/admin/roles'] });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ username, role }: { username: string; role: UserRole }) => {
+      const res = await apiRequest('PUT', `/api/admin/roles/${encodeURIComponent(username)}`, { role });
+      return await res.json();
+    },
+    onSuccess: (updated: StaffMember) => {
+      setUsername('');
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/roles'] });
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/moderation/log') });
+      toast({ title: 'Role updated', description: `@${updated.username} is now ${ROLE_LABELS[updated.role].toLowerCase()}.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Roles</CardTitle>
+        <CardDescription>Moderators handle reported tips. Admins can also manage roles and see AI usage.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="flex flex-wrap gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (username.trim()) roleMutation.mutate({ username: username.trim().replace(/^@/, ''), role });
+          }}
+        >
+          <Input className="flex-1 min-w-[160px]" placeholder="Username" value={username} onChange={(e) => setUsername(e.target.value)} />
+          <Select value={role} onValueChange={(value) => setRole(value as UserRole)}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {USER_ROLES.map((value) => (
+                <SelectItem key={value} value={value}>{ROLE_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" disabled={roleMutation.isPending || !username.trim()}>Set role</Button>
+        </form>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>User</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead className="text-right"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {staff?.map((member) => (
+              <TableRow key={member.id}>
+                <TableCell>{member.displayName || member.username} <span className="text-muted-foreground">@{member.username}</span></TableCell>
+                <TableCell>{ROLE_LABELS[member.role]}</TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={roleMutation.isPending}
+                    onClick={() => roleMutation.mutate({ username: member.username, role: 'member' })}
+                  >
+                    Make member
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AdminModeration() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [queuePage, setQueuePage] = useState(1);
+  const [logPage, setLogPage] = useState(1);
+
+  const { data: queue, isLoading, error } = useQuery<QueuePage>({
+    queryKey: [`/api/moderation/queue?page=${queuePage}&limit=${PAGE_SIZE}`],
+  });
+  const { data: log } = useQuery<LogPage>({
+    queryKey: [`/api/moderation/log?page=${logPage}&limit=${PAGE_SIZE}`],
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ tipId, action, note }: { tipId: number; action: ModerateTip['action']; note?: string }) => {
+      const res = await apiRequest('POST', `/api/moderation/tips/${tipId}/actions`, { action, note });
+      return await res.json();
+    },
+    onSuccess: (_, { tipId }) => {
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/moderation') });
+      queryClient.invalidateQueries({ queryKey: [`/api/moderation/tips/${tipId}/reports`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/community-tips'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <div className="container max-w-4xl mx-auto py-6 px-4 space-y-6">
+      <h1 className="text-2xl font-bold">Moderation</h1>
+
+      <Tabs defaultValue="queue">
+        <TabsList>
+          <TabsTrigger value="queue">Queue</TabsTrigger>
+          <TabsTrigger value="log">Audit log</TabsTrigger>
+          {user?.role === 'admin' && <TabsTrigger value="roles">Roles</TabsTrigger>}
+        </TabsList>
+
+        <TabsContent value="queue" className="space-y-4">
+          {isLoading && (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          )}
+
+          {error && (
+            <p className="text-muted-foreground">{(error as Error).message}</p>
+          )}
+
+          {queue && queue.items.length === 0 && (
+            <p className="text-muted-foreground py-8 text-center">Nothing to review right now.</p>
+          )}
+
+          {queue?.items.map((item) => (
+            <QueueCard
+              key={item.tip.id}
+              item={item}
+              busy={actionMutation.isPending}
+              onAction={(tipId, action, note) => actionMutation.mutate({ tipId, action, note })}
+            />
+          ))}
+
+          {queue && (queuePage > 1 || queue.items.length === PAGE_SIZE) && (
+            <div className="flex items-center justify-between">
+              <Button variant="outline" size="sm" disabled={queuePage <= 1} onClick={() => setQueuePage(queuePage - 1)}>
+                Previous
+              </Button>
+              <span className="text-sm text-muted-foreground">Page {queuePage}</span>
+              <Button variant="outline" size="sm" disabled={queue.items.length < PAGE_SIZE} onClick={() => setQueuePage(queuePage + 1)}>
+                Next
+              </Button>
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="log">
+          <Card>
+            <CardContent className="pt-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Who</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Target</TableHead>
+                    <TableHead>Note</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {log?.entries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap">{formatDate(entry.createdAt)}</TableCell>
+                      <TableCell>{entry.moderatorUsername ? `@${entry.moderatorUsername}` : 'Automatic'}</TableCell>
+                      <TableCell>{ACTION_LABELS[entry.action]}</TableCell>
+                      <TableCell>{TARGET_LABELS[entry.targetType] ?? entry.targetType} #{entry.targetId}</TableCell>
+                      <TableCell className="text-muted-foreground">{entry.note}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {log && (logPage > 1 || log.entries.length === PAGE_SIZE) && (
+                <div className="flex items-center justify-between pt-4">
+                  <Button variant="outline" size="sm" disabled={logPage <= 1} onClick={() => setLogPage(logPage - 1)}>
+                    Previous
+                  </Button>
+                  <span className="text-sm text-muted-foreground">Page {logPage}</span>
+                  <Button variant="outline" size="sm" disabled={log.entries.length < PAGE_SIZE} onClick={() => setLogPage(logPage + 1)}>
+                    Next
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {user?.role === 'admin' && (
+          <TabsContent value="roles">
+            <RolesPanel />
+          </TabsContent>
+        )}
+      </Tabs>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import React from "react";
+import { useQuery } from "@tanstack/react-query";
 import { usePlants } from "@/context/PlantContext";
 import { Card, CardContent } from "@/components/ui/card";
 import { WaterDropIcon, SeedlingIcon } from "@/lib/icons";
@@ -10,6 +11,7 @@ import { PlantDetailModal } from "@/components/plants/PlantDetailModal";
 import { AddPlantModal } from "@/components/plants/AddPlantModal";
 import { differenceInDays } from "date-fns";
 import { type PlantWithCare } from "@shared/schema";
+import { type WateringSuggestion } from "@/components/plants/WateringSuggestion";
 
 
 export default function CareSchedule() {
@@ -26,6 +28,14 @@ export default function CareSchedule() {
     plantToEdit,
   } = usePlants();
 
+  // Learned watering intervals, keyed by plant
+  const { data: wateringSuggestions } = useQuery<(WateringSuggestion & { plantName: string })[]>({
+    queryKey: ["/api/watering-suggestions"],
+  });
+  const suggestionsByPlant = new Map(
+    (wateringSuggestions || []).filter(s => s.shouldAdjust).map(s => [s.plantId, s])
+  );
+
   // Helper function to determine if care is needed today
   const isCareNeededToday = (date: Date | null): boolean => {
     if (!date) return false;
@@ -60,6 +70,7 @@ export default function CareSchedule() {
   const renderPlantItem = (plant: PlantWithCare, careType: 'water' | 'fertilize') => {
     let statusText = '';
     let isUrgent = false;
+    const suggestion = careType === 'water' ? suggestionsByPlant.get(plant.id) : undefined;
     
     if (careType === 'water') {
       statusText = plant.nextWatering ? formatRelativeDate(plant.nextWatering) : 'Not set';
@@ -84,6 +95,11 @@ export default function CareSchedule() {
         <div className="flex-grow">
           <h3 className="font-medium">{plant.name}</h3>
           <p className="text-xs text-muted-foreground">{plant.location}</p>
+          {suggestion && (
+            <p className="text-xs text-primary" title={suggestion.explanation}>
+              Suggested: every {suggestion.suggestedFrequency} days (now {suggestion.currentFrequency})
+            </p>
+          )}
         </div>
         <div className={`text-sm font-medium ${isUrgent ? 'text-status-danger dark:text-red-400' : ''}`}>
           {statusText}
@@ -4,19 +4,22 @@ import { useLocation } from 'wouter';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { apiRequest, getQueryFn } from '@/lib/queryClient';
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
 import { Loader2, Search, UserPlus, UserCheck } from 'lucide-react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { User } from '@shared/schema';
+import { type DiscoverPage, type DiscoverUser } from '@shared/schema';
 
-// Type for user profile items
-type UserProfileItem = {
-  user: Omit<User, 'password'>;
-  isFollowing: boolean;
-  followers: number;
-  following: number;
-  plantsCount: number;
+// Fetches one page of a ranked discover list, continuing from the previous page's cursor
+const fetchDiscoverPage = (endpoint: string) => async ({ pageParam }: { pageParam: string | null }): Promise<DiscoverPage> => {
+  const params = new URLSearchParams();
+  if (pageParam) params.set('cursor', pageParam);
+  const res = await fetch(`${endpoint}?${params.toString()}`, { credentials: 'include' });
+  if (!res.ok) {
+    if (res.status === 401) return { users: [], nextCursor: null };
+    throw new Error(`Failed to load users: ${res.statusText}`);
+  }
+  return await res.json();
 };
 
 export default function DiscoverUsers() {
@@ -25,19 +28,27 @@ export default function DiscoverUsers() {
   const queryClient = useQueryClient();
   const [searchQuery, setSearchQuery] = useState('');
   
-  // Fetch suggested users and trending users
-  const { data: suggestedUsers, isLoading: suggestedLoading } = useQuery<UserProfileItem[]>({
+  // Fetch suggested users and trending users, a page at a time
+  const suggested = useInfiniteQuery({
     queryKey: ['/api/discover/suggested'],
-    queryFn: getQueryFn({ on401: "returnNull" }),
+    queryFn: fetchDiscoverPage('/api/discover/suggested'),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
   });
+  const suggestedUsers = suggested.data?.pages.flatMap(page => page.users);
+  const suggestedLoading = suggested.isLoading;
   
-  const { data: trendingUsers, isLoading: trendingLoading } = useQuery<UserProfileItem[]>({
+  const trending = useInfiniteQuery({
     queryKey: ['/api/discover/trending'],
-    queryFn: getQueryFn({ on401: "returnNull" }),
+    queryFn: fetchDiscoverPage('/api/discover/trending'),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
   });
+  const trendingUsers = trending.data?.pages.flatMap(page => page.users);
+  const trendingLoading = trending.isLoading;
   
   // Search users query
-  const { data: searchResults, isLoading: searchLoading } = useQuery<UserProfileItem[]>({
+  const { data: searchResults, isLoading: searchLoading } = useQuery<DiscoverUser[]>({
     queryKey: ['/api/discover/search', searchQuery],
     queryFn: async () => {
       const res = await fetch(`/api/discover/search?q=${encodeURIComponent(searchQuery)}`);
@@ -107,7 +118,7 @@ export default function DiscoverUsers() {
   });
   
   // Handle follow/unfollow
-  const handleFollowAction = (user: UserProfileItem) => {
+  const handleFollowAction = (user: DiscoverUser) => {
     if (user.isFollowing) {
       unfollowMutation.mutate(user.user.id);
     } else {
@@ -121,7 +132,7 @@ export default function DiscoverUsers() {
   };
   
   // User card component
-  const UserCard = ({ user }: { user: UserProfileItem }) => (
+  const UserCard = ({ user }: { user: DiscoverUser }) => (
     <Card className="overflow-hidden">
       <CardContent className="p-4">
         <div className="flex items-center gap-3">
@@ -152,6 +163,9 @@ export default function DiscoverUsers() {
               <span>{user.plantsCount} plants</span>
               <span>{user.followers} followers</span>
             </div>
+            {user.reason && (
+              <p className="text-xs text-muted-foreground mt-1 truncate">{user.reason}</p>
+            )}
           </div>
           
           <Button
@@ -224,11 +238,24 @@ export default function DiscoverUsers() {
                 <Loader2 className="w-6 h-6 animate-spin text-primary" />
               </div>
             ) : suggestedUsers && suggestedUsers.length > 0 ? (
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {suggestedUsers.map(user => (
-                  <UserCard key={user.user.id} user={user} />
-                ))}
-              </div>
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {suggestedUsers.map(user => (
+                    <UserCard key={user.user.id} user={user} />
+                  ))}
+                </div>
+                {suggested.hasNextPage && (
+                  <div className="flex justify-center mt-4">
+                    <Button
+                      variant="outline"
+                      onClick={() => suggested.fetchNextPage()}
+                      disabled={suggested.isFetchingNextPage}
+                    >
+                      {suggested.isFetchingNextPage ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Show more'}
+                    </Button>
+                  </div>
+                )}
+              </>
             ) : (
               <Card>
                 <CardHeader>
@@ -249,11 +276,24 @@ export default function DiscoverUsers() {
                 <Loader2 className="w-6 h-6 animate-spin text-primary" />
               </div>
             ) : trendingUsers && trendingUsers.length > 0 ? (
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {trendingUsers.map(user => (
-                  <UserCard key={user.user.id} user={user} />
-                ))}
-              </div>
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {trendingUsers.map(user => (
+                    <UserCard key={user.user.id} user={user} />
+                  ))}
+                </div>
+                {trending.hasNextPage && (
+                  <div className="flex justify-center mt-4">
+                    <Button
+                      variant="outline"
+                      onClick={() => trending.fetchNextPage()}
+                      disabled={trending.isFetchingNextPage}
+                    >
+                      {trending.isFetchingNextPage ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Show more'}
+                    </Button>
+                  </div>
+                )}
+              </>
             ) : (
               <Card>
                 <CardHeader>
@@ -0,0 +1,128 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useParams, useLocation } from 'wouter';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, Users } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { format } from 'date-fns';
+import { type GardenRole } from '@shared/schema';
+
+// Invitation preview returned by GET /api/garden-invitations/:token
+type InvitationPreview = {
+  gardenId: number;
+  gardenName: string;
+  role: GardenRole;
+  invitedBy: string | null;
+  expiresAt: string;
+  expired: boolean;
+  accepted: boolean;
+  alreadyMember: boolean;
+};
+
+const ROLE_DESCRIPTIONS: Record<GardenRole, string> = {
+  owner: 'manage the garden, its plants and its members',
+  caretaker: 'log care and handle reminders for its plants',
+  viewer: 'see its plants and their care history',
+};
+
+export default function GardenInvite() {
+  const { token } = useParams<{ token: string }>();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: invitation, isLoading, error } = useQuery<InvitationPreview>({
+    queryKey: [`/api/garden-invitations/${token}`],
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/garden-invitations/${token}/accept`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/gardens'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/plants'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/reminders'] });
+      toast({ title: 'Welcome!', description: `You joined ${invitation?.gardenName}.` });
+      navigate('/plants');
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not join garden', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !invitation) {
+    return (
+      <div className="container max-w-md mx-auto py-8">
+        <Alert variant="destructive">
+          <AlertDescription>This invitation link is not valid.</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const unavailable = invitation.accepted
+    ? 'This invitation has already been used.'
+    : invitation.expired
+      ? 'This invitation has expired. Ask for a new link.'
+      : null;
+
+  return (
+    <div className="container max-w-md mx-auto py-8">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            {invitation.gardenName}
+          </CardTitle>
+          <CardDescription>
+            {invitation.invitedBy ? `${invitation.invitedBy} invited you` : "You've been invited"} to join this garden
+            as a {invitation.role}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <p className="text-sm">
+            As a {invitation.role} you can {ROLE_DESCRIPTIONS[invitation.role]}.
+          </p>
+          {!unavailable && (
+            <p className="text-xs text-muted-foreground">
+              Expires {format(new Date(invitation.expiresAt), 'PPP')}
+            </p>
+          )}
+          {invitation.alreadyMember && (
+            <Alert>
+              <AlertDescription>You're already a member of this garden.</AlertDescription>
+            </Alert>
+          )}
+          {unavailable && !invitation.alreadyMember && (
+            <Alert variant="destructive">
+              <AlertDescription>{unavailable}</AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+        <CardFooter className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => navigate('/plants')}>
+            {invitation.alreadyMember ? 'Go to Plants' : 'Not Now'}
+          </Button>
+          {!invitation.alreadyMember && !unavailable && (
+            <Button onClick={() => acceptMutation.mutate()} disabled={acceptMutation.isPending}>
+              {acceptMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Join Garden
+            </Button>
+          )}
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -1,15 +1,55 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { SunIcon, WaterDropIcon, SeedlingIcon, CircleDotIcon } from "@/lib/icons";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { SunIcon, WaterDropIcon, SeedlingIcon, CircleDotIcon, SearchIcon, AlertIcon } from "@/lib/icons";
 import { Skeleton } from "@/components/ui/skeleton";
-import { type PlantGuide } from "@shared/schema";
+import { type SpeciesGuide } from "@shared/schema";
+
+// Page of results returned by GET /api/species
+interface SpeciesPage {
+  species: SpeciesGuide[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+const PAGE_SIZE = 20;
+
+function formatRange(min: number | null, max: number | null, unit: string): string | null {
+  if (min === null && max === null) return null;
+  if (min === null) return `up to ${max}${unit}`;
+  if (max === null || min === max) return `${min}${unit}`;
+  return `${min}–${max}${unit}`;
+}
 
 export default function Guides() {
-  const { data: guides, isLoading } = useQuery<PlantGuide[]>({
-    queryKey: ['/api/plant-guides'],
+  // Search links (e.g. from global search results) open the page pre-filtered
+  const initialSearch = new URLSearchParams(window.location.search).get("search") ?? "";
+  const [search, setSearch] = useState(initialSearch);
+  const [debouncedSearch, setDebouncedSearch] = useState(initialSearch);
+  const [page, setPage] = useState(1);
+
+  // Wait for typing to pause before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setDebouncedSearch(search.trim());
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const params = new URLSearchParams({ rank: "species", page: String(page), limit: String(PAGE_SIZE) });
+  if (debouncedSearch) params.set("search", debouncedSearch);
+
+  const { data, isLoading } = useQuery<SpeciesPage>({
+    queryKey: [`/api/species?${params.toString()}`],
   });
 
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.limit)) : 1;
+
   const getSunlightIcon = (level: string) => {
     switch (level.toLowerCase()) {
       case "low":
@@ -29,41 +69,43 @@ export default function Guides() {
     }
   };
 
-  const renderGuideCard = (guide: PlantGuide) => {
-    const wateringFrequency = guide.idealWaterFrequency === 1 
-      ? "Daily" 
-      : guide.idealWaterFrequency < 7 
-        ? `Every ${guide.idealWaterFrequency} days` 
-        : guide.idealWaterFrequency === 7 
-          ? "Weekly"
-          : guide.idealWaterFrequency === 14
-            ? "Biweekly"
-            : guide.idealWaterFrequency === 30
-              ? "Monthly"
-              : `Every ${guide.idealWaterFrequency} days`;
-
-    const fertilizingFrequency = guide.idealFertilizerFrequency === 0
+  const renderGuideCard = (guide: SpeciesGuide) => {
+    const wateringFrequency = guide.waterIntervalMin === guide.waterIntervalMax
+      ? `Every ${guide.waterIntervalMin} days`
+      : `Every ${guide.waterIntervalMin}–${guide.waterIntervalMax} days`;
+
+    const fertilizingFrequency = guide.fertilizerFrequency === 0
       ? "Not needed"
-      : guide.idealFertilizerFrequency === 7
+      : guide.fertilizerFrequency === 7
         ? "Weekly"
-        : guide.idealFertilizerFrequency === 14
+        : guide.fertilizerFrequency === 14
           ? "Biweekly"
-          : guide.idealFertilizerFrequency === 30
+          : guide.fertilizerFrequency === 30
             ? "Monthly"
-            : guide.idealFertilizerFrequency === 90
+            : guide.fertilizerFrequency === 90
               ? "Quarterly"
-              : `Every ${guide.idealFertilizerFrequency} days`;
+              : `Every ${guide.fertilizerFrequency} days`;
 
-    const sunlightLabel = guide.idealSunlight.charAt(0).toUpperCase() + guide.idealSunlight.slice(1);
+    const sunlightLabel = `${guide.lightLuxMin.toLocaleString()}–${guide.lightLuxMax.toLocaleString()} lux`;
+    const humidity = formatRange(guide.humidityMin, guide.humidityMax, "%");
+    const temperature = formatRange(guide.temperatureMinC, guide.temperatureMaxC, "°C");
+    const otherNames = [...guide.commonNames.slice(1), ...guide.synonyms];
 
     return (
       <Card key={guide.id} className="mb-4">
         <CardHeader className="pb-2">
-          <CardTitle className="text-lg capitalize">{guide.plantType} Plants</CardTitle>
+          <CardTitle className="text-lg">{guide.commonName}</CardTitle>
+          <p className="text-sm italic text-muted-foreground">
+            {guide.scientificName}
+            {guide.family && <span className="not-italic"> · {guide.family}</span>}
+          </p>
+          {otherNames.length > 0 && (
+            <p className="text-xs text-muted-foreground">Also known as {otherNames.join(", ")}</p>
+          )}
         </CardHeader>
         <CardContent>
           <p className="text-sm text-neutral-dark mb-4">{guide.description}</p>
-          
+
           <div className="grid grid-cols-3 gap-2 mb-4">
             <div className="flex flex-col items-center p-2 bg-blue-50 rounded-lg">
               <WaterDropIcon className="text-blue-500 mb-1" />
@@ -78,7 +120,25 @@ export default function Guides() {
               <span className="text-xs text-center">{fertilizingFrequency}</span>
             </div>
           </div>
-          
+
+          <div className="flex flex-wrap gap-2 mb-4">
+            {humidity && <Badge variant="outline">Humidity {humidity}</Badge>}
+            {temperature && <Badge variant="outline">{temperature}</Badge>}
+            {guide.toxicToPets && (
+              <Badge variant="destructive" className="gap-1">
+                <AlertIcon className="h-3 w-3" /> Toxic to pets
+              </Badge>
+            )}
+            {guide.toxicToHumans && (
+              <Badge variant="destructive" className="gap-1">
+                <AlertIcon className="h-3 w-3" /> Toxic to people
+              </Badge>
+            )}
+            {guide.toxicToPets === false && guide.toxicToHumans === false && (
+              <Badge variant="secondary">Non-toxic</Badge>
+            )}
+          </div>
+
           <h4 className="font-medium mb-2 text-sm">Care Tips</h4>
           <ul className="text-sm space-y-2">
             {guide.careTips.split('.').filter(tip => tip.trim()).map((tip, index) => (
@@ -102,13 +162,13 @@ export default function Guides() {
         <Skeleton className="h-4 w-full mb-2" />
         <Skeleton className="h-4 w-full mb-2" />
         <Skeleton className="h-4 w-3/4 mb-4" />
-        
+
         <div className="grid grid-cols-3 gap-2 mb-4">
           <Skeleton className="h-16 rounded-lg" />
           <Skeleton className="h-16 rounded-lg" />
           <Skeleton className="h-16 rounded-lg" />
         </div>
-        
+
         <Skeleton className="h-5 w-24 mb-2" />
         <Skeleton className="h-4 w-full mb-1" />
         <Skeleton className="h-4 w-full mb-1" />
@@ -120,20 +180,46 @@ export default function Guides() {
   return (
     <div className="p-4">
       <h2 className="text-lg font-medium mb-4">Plant Care Guides</h2>
-      
+
+      <div className="relative mb-4">
+        <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search by common or scientific name..."
+          className="pl-10"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+      </div>
+
       {isLoading ? (
         <>
           {renderSkeletonGuide()}
           {renderSkeletonGuide()}
         </>
-      ) : !guides || guides.length === 0 ? (
+      ) : !data || data.species.length === 0 ? (
         <Card>
           <CardContent className="p-4 text-center">
-            <p className="text-neutral-dark opacity-70">No plant guides available</p>
+            <p className="text-neutral-dark opacity-70">
+              {debouncedSearch ? `No species matching "${debouncedSearch}"` : "No plant guides available"}
+            </p>
           </CardContent>
         </Card>
       ) : (
-        guides.map(guide => renderGuideCard(guide))
+        <>
+          {data.species.map(guide => renderGuideCard(guide))}
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between mt-4">
+              <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                Previous
+              </Button>
+              <span className="text-sm text-muted-foreground">Page {page} of {totalPages}</span>
+              <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                Next
+              </Button>
+            </div>
+          )}
+        </>
       )}
     </div>
   );
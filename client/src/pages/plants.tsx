@@ -3,6 +3,7 @@ import { useQuery } from "@tanstack/react-query";
 import { PlantCard } from "@/components/plants/PlantCard";
 import { PlantDetailModal } from "@/components/plants/PlantDetailModal";
 import { AddPlantModal } from "@/components/plants/AddPlantModal";
+import { PlantTransferInbox } from "@/components/plants/PlantTransferInbox";
 import { SortIcon, WaterDropIcon, LeafIcon, SunIcon, CameraIcon } from "@/lib/icons";
 import { usePlants } from "@/context/PlantContext";
 
@@ -90,6 +91,8 @@ export default function Plants() {
           </Link>
         </div>
         
+        <PlantTransferInbox />
+
         <div className="flex justify-between items-center mb-4">
           <h2 className="text-lg font-medium dark:text-white">All Plants</h2>
           <div className="flex items-center gap-2">
@@ -9,10 +9,30 @@ import { Switch } from '@/components/ui/switch';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest, getQueryFn } from '@/lib/queryClient';
-import { Loader2, ArrowLeft } from 'lucide-react';
+import { Loader2, ArrowLeft, Copy, RefreshCw, Trash2, Download, Upload } from 'lucide-react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { User } from '@shared/schema';
+import { isPushSupported, subscribeToPush, unsubscribeFromPush } from '@/lib/pushNotifications';
+import { fetchCsrfToken, withCsrf } from '@/lib/csrf';
+import { GardenManager } from '@/components/gardens/GardenManager';
+import { SitterLinkManager } from '@/components/gardens/SitterLinkManager';
+import { WebhookManager } from '@/components/webhooks/WebhookManager';
+import { ApiTokenManager } from '@/components/api-tokens/ApiTokenManager';
+
+// Summary returned by the import endpoint
+type ImportReport = {
+  created: { plants: number; careLogs: number; reminders: number; communityTips: number; photos: number };
+  conflicts: { type: string; reason: string }[];
+  errors: { type: string; message: string }[];
+};
+
+// Type for calendar feed response
+type CalendarFeedInfo = {
+  url: string | null;
+  createdAt?: string;
+  lastAccessed?: string | null;
+};
 
 // Type for profile settings response
 type ProfileSettings = {
@@ -22,6 +42,11 @@ type ProfileSettings = {
   isCollectionPublic: boolean;
   allowFollowers: boolean;
   showActivityInFeed: boolean;
+  emailNotifications: boolean;
+  pushNotifications: boolean;
+  digestHour: number;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
 };
 
 export default function ProfileSettings() {
@@ -46,6 +71,13 @@ export default function ProfileSettings() {
     enabled: !!user,
   });
   
+  // Get calendar feed URL
+  const { data: calendarFeed } = useQuery<CalendarFeedInfo>({
+    queryKey: ['/api/calendar-feed'],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    enabled: !!user,
+  });
+  
   // Form state
   const [formState, setFormState] = useState({
     displayName: '',
@@ -56,6 +88,11 @@ export default function ProfileSettings() {
     isCollectionPublic: false,
     allowFollowers: true,
     showActivityInFeed: true,
+    emailNotifications: true,
+    pushNotifications: false,
+    digestHour: 8,
+    quietHoursStart: '',
+    quietHoursEnd: '',
   });
   
   // Update form state when settings are loaded
@@ -77,6 +114,11 @@ export default function ProfileSettings() {
         isCollectionPublic: settings.isCollectionPublic,
         allowFollowers: settings.allowFollowers,
         showActivityInFeed: settings.showActivityInFeed,
+        emailNotifications: settings.emailNotifications ?? true,
+        pushNotifications: settings.pushNotifications ?? false,
+        digestHour: settings.digestHour ?? 8,
+        quietHoursStart: settings.quietHoursStart || '',
+        quietHoursEnd: settings.quietHoursEnd || '',
       }));
     }
   }, [user, settings]);
@@ -92,6 +134,24 @@ export default function ProfileSettings() {
     setFormState(prev => ({ ...prev, [name]: checked }));
   };
   
+  // Subscribe or unsubscribe this browser when push is toggled
+  const handlePushToggle = async (checked: boolean) => {
+    try {
+      if (checked) {
+        await subscribeToPush();
+      } else {
+        await unsubscribeFromPush();
+      }
+      handleSwitchChange('pushNotifications', checked);
+    } catch (error) {
+      toast({
+        title: 'Push notifications unavailable',
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive',
+      });
+    }
+  };
+  
   // Update profile mutation
   const profileMutation = useMutation({
     mutationFn: async (data: any) => {
@@ -136,6 +196,102 @@ export default function ProfileSettings() {
     },
   });
   
+  // Create or rotate the calendar feed token
+  const rotateFeedMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/calendar-feed/rotate');
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/calendar-feed'] });
+      toast({
+        title: 'Calendar Link Updated',
+        description: 'Any previous calendar link no longer works.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to update calendar link: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+  
+  // Revoke the calendar feed
+  const revokeFeedMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('DELETE', '/api/calendar-feed');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/calendar-feed'] });
+      toast({
+        title: 'Calendar Link Revoked',
+        description: 'Your care schedule is no longer shared with calendar apps.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to revoke calendar link: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+  
+  // Upload a JSON/ZIP export or a CSV of plants
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const contentType = file.name.endsWith('.zip')
+        ? 'application/zip'
+        : file.name.endsWith('.csv') ? 'text/csv' : 'application/json';
+      await fetchCsrfToken();
+      const res = await fetch('/api/import', withCsrf({
+        method: 'POST',
+        headers: { 'Content-Type': contentType },
+        body: file,
+        credentials: 'include',
+      }));
+      const report = await res.json();
+      if (!res.ok && !report.created) {
+        throw new Error(report.message || res.statusText);
+      }
+      return report as ImportReport;
+    },
+    onSuccess: (report) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/plants'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/reminders'] });
+      const { created } = report;
+      toast({
+        title: 'Import Finished',
+        description: `Added ${created.plants} plants, ${created.careLogs} care logs and ${created.reminders} reminders. ` +
+          `${report.conflicts.length} already existed, ${report.errors.length} could not be imported.`,
+        variant: report.errors.length > 0 ? 'destructive' : 'default',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: `Import failed: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+  
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      importMutation.mutate(file);
+    }
+    e.target.value = '';
+  };
+  
+  const copyFeedUrl = async () => {
+    if (!calendarFeed?.url) return;
+    await navigator.clipboard.writeText(calendarFeed.url);
+    toast({ title: 'Copied', description: 'Calendar link copied to clipboard.' });
+  };
+  
   // Handle form submission
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -153,6 +309,11 @@ export default function ProfileSettings() {
       isCollectionPublic: formState.isCollectionPublic,
       allowFollowers: formState.allowFollowers,
       showActivityInFeed: formState.showActivityInFeed,
+      emailNotifications: formState.emailNotifications,
+      pushNotifications: formState.pushNotifications,
+      digestHour: formState.digestHour,
+      quietHoursStart: formState.quietHoursStart || null,
+      quietHoursEnd: formState.quietHoursEnd || null,
     };
     
     // Run both mutations
@@ -336,6 +497,199 @@ export default function ProfileSettings() {
               </div>
             </CardContent>
           </Card>
+          
+          <Card>
+            <CardHeader>
+              <CardTitle>Notifications</CardTitle>
+              <CardDescription>
+                Choose how you get your daily plant care digest
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="emailNotifications">Email Digest</Label>
+                  <p className="text-sm text-muted-foreground">
+                    One email a day listing the care your plants need
+                  </p>
+                </div>
+                <Switch
+                  id="emailNotifications"
+                  checked={formState.emailNotifications}
+                  onCheckedChange={(checked) => 
+                    handleSwitchChange('emailNotifications', checked)
+                  }
+                />
+              </div>
+              
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="pushNotifications">Push Notifications</Label>
+                  <p className="text-sm text-muted-foreground">
+                    {isPushSupported()
+                      ? 'Get the digest as a notification on this device'
+                      : 'Not supported in this browser'}
+                  </p>
+                </div>
+                <Switch
+                  id="pushNotifications"
+                  checked={formState.pushNotifications}
+                  disabled={!isPushSupported()}
+                  onCheckedChange={handlePushToggle}
+                />
+              </div>
+              
+              <div className="grid gap-2">
+                <Label htmlFor="digestHour">Send Digest At</Label>
+                <select
+                  id="digestHour"
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  value={formState.digestHour}
+                  onChange={(e) => setFormState(prev => ({ ...prev, digestHour: parseInt(e.target.value, 10) }))}
+                >
+                  {Array.from({ length: 24 }, (_, hour) => (
+                    <option key={hour} value={hour}>
+                      {`${hour.toString().padStart(2, '0')}:00`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="quietHoursStart">Quiet Hours From</Label>
+                  <Input
+                    id="quietHoursStart"
+                    name="quietHoursStart"
+                    type="time"
+                    value={formState.quietHoursStart}
+                    onChange={handleChange}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="quietHoursEnd">Until</Label>
+                  <Input
+                    id="quietHoursEnd"
+                    name="quietHoursEnd"
+                    type="time"
+                    value={formState.quietHoursEnd}
+                    onChange={handleChange}
+                  />
+                </div>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Times are in your profile's timezone. No notifications are sent during quiet hours.
+              </p>
+            </CardContent>
+          </Card>
+          
+          <Card>
+            <CardHeader>
+              <CardTitle>Calendar Feed</CardTitle>
+              <CardDescription>
+                Subscribe to your watering and fertilizing schedule in Google Calendar, Outlook or Apple Calendar
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {calendarFeed?.url ? (
+                <>
+                  <div className="flex gap-2">
+                    <Input readOnly value={calendarFeed.url} onFocus={(e) => e.target.select()} />
+                    <Button type="button" variant="outline" size="icon" onClick={copyFeedUrl}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Anyone with this link can see your care schedule. Generate a new link if it has been shared by mistake.
+                  </p>
+                  <div className="flex gap-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => rotateFeedMutation.mutate()}
+                      disabled={rotateFeedMutation.isPending}
+                    >
+                      <RefreshCw className="mr-2 h-4 w-4" />
+                      New Link
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="text-destructive"
+                      onClick={() => revokeFeedMutation.mutate()}
+                      disabled={revokeFeedMutation.isPending}
+                    >
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Revoke
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => rotateFeedMutation.mutate()}
+                  disabled={rotateFeedMutation.isPending}
+                >
+                  Create Calendar Link
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+          
+          <GardenManager />
+          
+          <SitterLinkManager />
+          
+          <WebhookManager />
+          
+          <ApiTokenManager />
+          
+          <Card>
+            <CardHeader>
+              <CardTitle>Your Data</CardTitle>
+              <CardDescription>
+                Back up your garden or move it to another account
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                <Button type="button" variant="outline" asChild>
+                  <a href="/api/export">
+                    <Download className="mr-2 h-4 w-4" />
+                    Export JSON
+                  </a>
+                </Button>
+                <Button type="button" variant="outline" asChild>
+                  <a href="/api/export?format=zip">
+                    <Download className="mr-2 h-4 w-4" />
+                    Export ZIP (with photos)
+                  </a>
+                </Button>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="importFile">Import</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    id="importFile"
+                    type="file"
+                    accept=".json,.zip,.csv"
+                    onChange={handleImportFile}
+                    disabled={importMutation.isPending}
+                  />
+                  {importMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Upload className="h-4 w-4 text-muted-foreground" />
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Accepts an export file, or a spreadsheet (CSV) of plants with the same columns as plants.csv.
+                  Anything that already exists is skipped.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
         </div>
         
         <CardFooter className="flex justify-between px-0">
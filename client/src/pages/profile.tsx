@@ -6,6 +6,7 @@ import { Switch } from "@/components/ui/switch";
 import { UserIcon, Loader2 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { type PlantWithCare } from "@shared/schema";
 import { useAuth } from "@/context/AuthContext";
 import { useTheme } from "@/context/ThemeContext";
@@ -502,6 +503,25 @@ export default function Profile() {
         </CardContent>
       </Card>
       
+      {/* Administration (moderators and admins only) */}
+      {(user?.role === "admin" || user?.role === "moderator") && (
+        <Card className="overflow-visible">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">Administration</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 overflow-visible">
+            <Button variant="outline" className="w-full justify-start" asChild>
+              <Link href="/admin/moderation">Moderation queue</Link>
+            </Button>
+            {user.role === "admin" && (
+              <Button variant="outline" className="w-full justify-start" asChild>
+                <Link href="/admin/ai-usage">AI usage</Link>
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+      
       {/* About */}
       <Card className="overflow-visible">
         <CardHeader className="pb-2">
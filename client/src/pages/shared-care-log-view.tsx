@@ -10,6 +10,7 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { SharedPageLayout } from "@/components/layouts/SharedPageLayout";
+import { CommentThread } from "@/components/comments/CommentThread";
 import { format } from "date-fns";
 
 export default function SharedCareLogView() {
@@ -328,6 +329,10 @@ export default function SharedCareLogView() {
             </Card>
           </div>
         </div>
+
+        <div className="mt-8 max-w-3xl">
+          <CommentThread targetType="care_log" targetId={careLog.id} shareId={shareId} />
+        </div>
       </div>
     </SharedPageLayout>
   );
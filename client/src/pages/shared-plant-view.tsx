@@ -17,6 +17,7 @@ import {
   CircleDot,
   Scissors
 } from 'lucide-react';
+import { CommentThread } from '@/components/comments/CommentThread';
 import { type PlantWithCare, type CareLog } from '@shared/schema';
 
 // Interface for API response
@@ -323,6 +324,11 @@ export default function SharedPlantView() {
         )}
       </div>
 
+      {/* Comments */}
+      <div className="mb-8">
+        <CommentThread targetType="plant" targetId={plant.id} shareId={shareId} />
+      </div>
+
       {/* Footer CTA */}
       <div className="bg-primary/10 dark:bg-primary/5 rounded-lg p-6 text-center mb-8">
         <h3 className="text-lg font-medium mb-2">Like what you see?</h3>
@@ -0,0 +1,206 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useParams } from 'wouter';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, getQueryFn } from '@/lib/queryClient';
+import { getDefaultPlantImage } from '@/lib/utils';
+import { format, parseISO } from 'date-fns';
+import { CheckCircle, Droplets, Leaf, Scissors, CircleDot } from 'lucide-react';
+
+type SitterCareType = 'water' | 'fertilize' | 'repot' | 'prune' | 'other';
+
+// Sitter view returned by GET /api/sitter/:shareId
+interface SitterViewResponse {
+  sitterName: string | null;
+  instructions: string | null;
+  startsAt: string;
+  expiresAt: string;
+  status: 'scheduled' | 'active' | 'ended';
+  owner: { displayName: string } | null;
+  plants: {
+    id: number;
+    name: string;
+    scientificName: string | null;
+    image: string | null;
+    location: string;
+    waterFrequency: number;
+    notes: string | null;
+  }[];
+  days: {
+    date: string;
+    tasks: { reminderId: number; plantId: number; plantName: string; careType: string; title: string; dueAt: string; overdue: boolean }[];
+    logged: { careLogId: number; plantName: string; careType: string; notes: string | null; timestamp: string }[];
+  }[];
+}
+
+const LOGGABLE_CARE_TYPES: SitterCareType[] = ['water', 'fertilize', 'repot', 'prune', 'other'];
+
+function getCareIcon(careType: string) {
+  switch (careType) {
+    case 'water':
+      return <Droplets className="h-4 w-4 text-blue-500" />;
+    case 'fertilize':
+      return <Leaf className="h-4 w-4 text-green-500" />;
+    case 'prune':
+      return <Scissors className="h-4 w-4 text-purple-500" />;
+    default:
+      return <CircleDot className="h-4 w-4 text-gray-500" />;
+  }
+}
+
+export default function SitterView() {
+  const { shareId } = useParams<{ shareId: string }>();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/sitter/${shareId}`];
+
+  const { data, isLoading, error } = useQuery<SitterViewResponse>({
+    queryKey,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    retry: 1,
+    enabled: !!shareId,
+  });
+
+  const logMutation = useMutation({
+    mutationFn: async ({ plantId, careType }: { plantId: number; careType: SitterCareType }) => {
+      const res = await apiRequest('POST', `/api/sitter/${shareId}/care-logs`, { plantId, careType });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: 'Logged', description: 'Thanks! The owner will see this in their report.' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="max-w-3xl mx-auto p-4 sm:p-6">
+        <div className="w-3/4 h-8 bg-muted/50 animate-pulse rounded-md mb-4"></div>
+        <div className="w-full h-32 bg-muted/50 animate-pulse rounded-md"></div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="max-w-3xl mx-auto p-4 sm:p-6 text-center">
+        <h1 className="text-2xl font-bold mb-4">Link Not Available</h1>
+        <p className="text-muted-foreground">
+          This plant sitter link has expired or is invalid.
+        </p>
+      </div>
+    );
+  }
+
+  const canLog = data.status === 'active';
+  const todayKey = format(new Date(), 'yyyy-MM-dd');
+
+  return (
+    <div className="max-w-3xl mx-auto p-4 sm:p-6 space-y-6">
+      <div>
+        <Badge variant="outline" className="mb-2">Plant Sitter</Badge>
+        <h1 className="text-2xl font-bold mb-1">
+          {data.sitterName ? `Hi ${data.sitterName}!` : 'Thanks for plant sitting!'}
+        </h1>
+        <p className="text-muted-foreground">
+          You're looking after {data.owner ? `${data.owner.displayName}'s` : 'these'} plants from{' '}
+          {format(parseISO(data.startsAt), 'MMM d')} to {format(parseISO(data.expiresAt), 'MMM d')}.
+        </p>
+        {data.status === 'scheduled' && (
+          <p className="text-sm text-muted-foreground mt-1">You can start logging care once the handoff begins.</p>
+        )}
+      </div>
+
+      {data.instructions && (
+        <div className="bg-muted/20 p-4 rounded-lg">
+          <p className="text-sm whitespace-pre-line break-words">{data.instructions}</p>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Day by Day</CardTitle>
+          <CardDescription>Tick off each task when it's done.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {data.days.map((day) => (
+            <div key={day.date}>
+              <p className={`text-sm font-medium mb-2 ${day.date === todayKey ? 'text-primary' : ''}`}>
+                {format(parseISO(day.date), 'EEEE, MMM d')}{day.date === todayKey && ' (today)'}
+              </p>
+              {day.tasks.length === 0 && day.logged.length === 0 && (
+                <p className="text-xs text-muted-foreground">Nothing to do.</p>
+              )}
+              {day.tasks.map((task) => (
+                <div key={`${task.reminderId}-${task.dueAt}`} className="flex items-center justify-between gap-2 py-1">
+                  <span className="flex items-center gap-2 text-sm">
+                    {getCareIcon(task.careType)}
+                    {task.title}
+                    {task.overdue && <Badge variant="destructive" className="text-xs">Overdue</Badge>}
+                  </span>
+                  {canLog && LOGGABLE_CARE_TYPES.includes(task.careType as SitterCareType) && day.date <= todayKey && (
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      onClick={() => logMutation.mutate({ plantId: task.plantId, careType: task.careType as SitterCareType })}
+                      disabled={logMutation.isPending}
+                    >
+                      Done
+                    </Button>
+                  )}
+                </div>
+              ))}
+              {day.logged.map((log) => (
+                <div key={log.careLogId} className="flex items-center gap-2 py-1 text-sm text-muted-foreground">
+                  <CheckCircle className="h-4 w-4 text-green-500" />
+                  {log.plantName}: {log.careType} at {format(parseISO(log.timestamp), 'h:mm a')}
+                </div>
+              ))}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <div className="space-y-3">
+        <h2 className="text-lg font-semibold">The Plants</h2>
+        {data.plants.map((plant) => (
+          <Card key={plant.id}>
+            <CardContent className="flex gap-4 p-4">
+              <img
+                src={plant.image || getDefaultPlantImage(plant.scientificName || '')}
+                alt={plant.name}
+                className="h-16 w-16 rounded-md object-cover"
+              />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium">{plant.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {plant.location} · Water every {plant.waterFrequency} days
+                </p>
+                {plant.notes && <p className="text-xs mt-1 break-words">{plant.notes}</p>}
+                {canLog && (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    className="mt-1 px-0"
+                    onClick={() => logMutation.mutate({ plantId: plant.id, careType: 'water' })}
+                    disabled={logMutation.isPending}
+                  >
+                    <Droplets className="mr-1 h-4 w-4 text-blue-500" />
+                    Watered it
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
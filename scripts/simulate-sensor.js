@@ -0,0 +1,90 @@
+/**
+ * Simulates a plant sensor: posts soil moisture, temperature, humidity and
+ * light readings to the sensor API, with the soil slowly drying out so the
+ * "soil is dry" watering reminder can be tried without real hardware.
+ *
+ * Create a device token from a plant's Care tab ("Connect a sensor"), then:
+ *
+ * Usage: node scripts/simulate-sensor.js <device-token> [--url http://localhost:3000] [--interval 60] [--count 0] [--moisture 60]
+ *
+ *   --interval  Seconds between readings (default 60)
+ *   --count     Number of readings to send, 0 to run until stopped (default 0)
+ *   --moisture  Soil moisture to start from, in % (default 60)
+ */
+
+function parseArgs(argv) {
+  const options = { url: 'http://localhost:3000', interval: 60, count: 0, moisture: 60 };
+  const rest = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.startsWith('--')) {
+      const key = arg.slice(2);
+      const value = argv[++i];
+      options[key] = key === 'url' ? value : Number(value);
+    } else {
+      rest.push(arg);
+    }
+  }
+  options.token = rest[0];
+  return options;
+}
+
+// Temperature and light follow the time of day; moisture drops a little each reading
+function nextReadings(moisture, now) {
+  const hour = now.getHours() + now.getMinutes() / 60;
+  const daylight = Math.max(0, Math.sin(((hour - 6) / 12) * Math.PI));
+  const jitter = (spread) => (Math.random() - 0.5) * spread;
+
+  return [
+    { metric: 'soil_moisture', value: Math.round(moisture * 10) / 10 },
+    { metric: 'temperature', value: Math.round((19 + daylight * 5 + jitter(1)) * 10) / 10 },
+    { metric: 'humidity', value: Math.round((55 - daylight * 10 + jitter(4)) * 10) / 10 },
+    { metric: 'lux', value: Math.round(daylight * 8000 + jitter(200) + 200) },
+  ];
+}
+
+async function sendReadings(options, readings) {
+  const response = await fetch(`${options.url}/api/sensors/readings`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${options.token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ readings }),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${body.message || response.statusText}`);
+  }
+  return body;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options.token) {
+    console.error('Usage: node scripts/simulate-sensor.js <device-token> [--url URL] [--interval SECONDS] [--count N] [--moisture PERCENT]');
+    process.exit(1);
+  }
+
+  let moisture = options.moisture;
+  let sent = 0;
+
+  while (options.count === 0 || sent < options.count) {
+    const readings = nextReadings(moisture, new Date());
+    try {
+      const result = await sendReadings(options, readings);
+      sent++;
+      console.log(`[${new Date().toLocaleTimeString()}] ${readings.map(r => `${r.metric}=${r.value}`).join(' ')} (accepted ${result.accepted})`);
+    } catch (error) {
+      console.error(`Failed to send readings: ${error.message}`);
+      if (error.message.startsWith('401')) process.exit(1);
+    }
+
+    moisture = Math.max(5, moisture - 0.5 - Math.random());
+    if (options.count === 0 || sent < options.count) {
+      await new Promise(resolve => setTimeout(resolve, options.interval * 1000));
+    }
+  }
+}
+
+main();
@@ -5,7 +5,7 @@ import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { loginSchema, User as SelectUser } from "@shared/schema";
+import { loginSchema, User as SelectUser, type UserRole } from "@shared/schema";
 import connectPgSimple from "connect-pg-simple";
 import { pool } from "./db";
 import csrf from "csurf";
@@ -137,6 +137,26 @@ export function isAuthenticated(req: Request, res: Response, next: NextFunction)
   return res.status(401).json({ message: "Authentication required" });
 }
 
+// Whether a user has one of the given roles (admins count as moderators too)
+export function hasRole(user: Pick<SelectUser, "role"> | undefined, ...roles: UserRole[]): boolean {
+  if (!user) return false;
+  if (user.role === "admin") return true;
+  return roles.includes(user.role);
+}
+
+// Only let through signed-in users with one of the given roles
+export function requireRole(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    if (!hasRole(req.user, ...roles)) {
+      return res.status(403).json({ message: "You don't have permission to do that" });
+    }
+    return next();
+  };
+}
+
 // Setup authentication for the application
 export function setupAuth(app: Express) {
   if (!process.env.SESSION_SECRET) {
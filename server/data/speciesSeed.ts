@@ -0,0 +1,521 @@
+import { type InsertSpecies } from "@shared/schema";
+
+/**
+ * Starter species catalogue, inserted when the species table is empty.
+ * Uses the same shape as the admin import (POST /api/admin/species/import),
+ * so larger catalogues can be loaded the same way.
+ *
+ * Light is in lux: roughly 250-2,500 is a dim room or north window,
+ * 2,500-10,000 bright indirect light and 10,000+ direct sun.
+ */
+export const SPECIES_SEED: InsertSpecies[] = [
+  // ===== Families =====
+  {
+    scientificName: "Araceae", rank: "family", family: "Araceae", genus: null,
+    commonNames: ["Aroids"], synonyms: [], category: "tropical",
+    description: "The arum family: tropical foliage plants from forest floors and tree trunks, including monsteras, philodendrons, pothos and peace lilies.",
+    careTips: "Water when the top few centimetres of soil are dry. Give bright, indirect light and keep out of cold drafts. Most appreciate extra humidity and a chunky, well-draining mix.",
+    waterIntervalMin: 7, waterIntervalMax: 10, lightLuxMin: 1000, lightLuxMax: 10000,
+    humidityMin: 50, humidityMax: 70, temperatureMinC: 16, temperatureMaxC: 29,
+    fertilizerFrequency: 30, toxicToPets: true, toxicToHumans: true,
+  },
+  {
+    scientificName: "Cactaceae", rank: "family", family: "Cactaceae", genus: null,
+    commonNames: ["Cacti"], synonyms: [], category: "succulent",
+    description: "Cacti store water in swollen stems and are adapted to long dry spells and strong sun.",
+    careTips: "Water deeply, then let the soil dry out completely. Give as much direct sun as possible. Use a gritty cactus mix and a pot with drainage. Water very little in winter.",
+    waterIntervalMin: 14, waterIntervalMax: 28, lightLuxMin: 10000, lightLuxMax: 60000,
+    humidityMin: 10, humidityMax: 40, temperatureMinC: 7, temperatureMaxC: 32,
+    fertilizerFrequency: 90, toxicToPets: false, toxicToHumans: false,
+  },
+  {
+    scientificName: "Crassulaceae", rank: "family", family: "Crassulaceae", genus: null,
+    commonNames: ["Stonecrops"], synonyms: [], category: "succulent",
+    description: "The stonecrop family of leaf succulents, including jade plants, echeverias and sedums.",
+    careTips: "Let the soil dry completely between waterings. Provide several hours of direct sun. Plant in a fast-draining succulent mix.",
+    waterIntervalMin: 14, waterIntervalMax: 21, lightLuxMin: 10000, lightLuxMax: 50000,
+    humidityMin: 20, humidityMax: 50, temperatureMinC: 7, temperatureMaxC: 29,
+    fertilizerFrequency: 90, toxicToPets: null, toxicToHumans: false,
+  },
+  {
+    scientificName: "Lamiaceae", rank: "family", family: "Lamiaceae", genus: null,
+    commonNames: ["Mints", "Mint family"], synonyms: ["Labiatae"], category: "herb",
+    description: "Aromatic herbs with square stems, including basil, mint, rosemary, sage and thyme.",
+    careTips: "Give at least six hours of sun. Water when the top of the soil feels dry. Pinch off flowers and harvest regularly to keep plants bushy.",
+    waterIntervalMin: 3, waterIntervalMax: 7, lightLuxMin: 10000, lightLuxMax: 60000,
+    humidityMin: 40, humidityMax: 60, temperatureMinC: 10, temperatureMaxC: 29,
+    fertilizerFrequency: 30, toxicToPets: null, toxicToHumans: false,
+  },
+  {
+    scientificName: "Orchidaceae", rank: "family", family: "Orchidaceae", genus: null,
+    commonNames: ["Orchids"], synonyms: [], category: "flowering",
+    description: "Orchids are mostly epiphytes that grow on trees, with long-lasting, intricate flowers.",
+    careTips: "Grow in bark rather than soil. Water when the roots turn silvery and let the pot drain fully. Give bright, indirect light and feed weakly but often.",
+    waterIntervalMin: 7, waterIntervalMax: 10, lightLuxMin: 1500, lightLuxMax: 10000,
+    humidityMin: 50, humidityMax: 70, temperatureMinC: 16, temperatureMaxC: 29,
+    fertilizerFrequency: 14, toxicToPets: false, toxicToHumans: false,
+  },
+  {
+    scientificName: "Marantaceae", rank: "family", family: "Marantaceae", genus: null,
+    commonNames: ["Prayer plants", "Arrowroot family"], synonyms: [], category: "tropical",
+    description: "Understory plants with patterned leaves that fold up at night, including calatheas and marantas.",
+    careTips: "Keep the soil lightly moist and use filtered or rain water. Avoid direct sun, which scorches the leaves. Raise humidity to stop crispy edges.",
+    waterIntervalMin: 5, waterIntervalMax: 7, lightLuxMin: 800, lightLuxMax: 5000,
+    humidityMin: 60, humidityMax: 80, temperatureMinC: 18, temperatureMaxC: 27,
+    fertilizerFrequency: 30, toxicToPets: false, toxicToHumans: false,
+  },
+  {
+    scientificName: "Moraceae", rank: "family", family: "Moraceae", genus: null,
+    commonNames: ["Figs", "Mulberry family"], synonyms: [], category: "tropical",
+    description: "The fig and mulberry family. Indoor species are mostly figs grown as trees, which dislike being moved.",
+    careTips: "Give bright light and keep in one spot. Water when the top third of the soil is dry. Wipe the leaves to keep them dust-free.",
+    waterIntervalMin: 7, waterIntervalMax: 14, lightLuxMin: 2500, lightLuxMax: 20000,
+    humidityMin: 40, humidityMax: 60, temperatureMinC: 16, temperatureMaxC: 27,
+    fertilizerFrequency: 30, toxicToPets: true, toxicToHumans: true,
+  },
+  {
+    scientificName: "Asparagaceae", rank: "family", family: "Asparagaceae", genus: null,
+    commonNames: [], synonyms: [], category: "other",
+    description: "A varied family including snake plants, dracaenas and spider plants, most of them tough and forgiving indoors.",
+    careTips: "Let the soil dry out between waterings. Tolerates lower light but grows faster in bright, indirect light.",
+    waterIntervalMin: 7, waterIntervalMax: 14, lightLuxMin: 500, lightLuxMax: 10000,
+    humidityMin: 30, humidityMax: 60, temperatureMinC: 15, temperatureMaxC: 29,
+    fertilizerFrequency: 42, toxicToPets: null, toxicToHumans: false,
+  },
+  {
+    scientificName: "Arecaceae", rank: "family", family: "Arecaceae", genus: null,
+    commonNames: ["Palms"], synonyms: ["Palmae"], category: "tropical",
+    description: "Palms grow from a single growing point, so damaged tips don't regrow.",
+    careTips: "Keep the soil evenly moist but never waterlogged. Give bright, indirect light. Only trim fronds that are fully brown.",
+    waterIntervalMin: 5, waterIntervalMax: 10, lightLuxMin: 1000, lightLuxMax: 15000,
+    humidityMin: 40, humidityMax: 60, temperatureMinC: 16, temperatureMaxC: 29,
+    fertilizerFrequency: 30, toxicToPets: false, toxicToHumans: false,
+  },
+
+  // ===== Genera =====
+  {
+    scientificName: "Monstera", rank: "genus", genus: "Monstera", family: "Araceae",
+    commonNames: [], synonyms: [], category: "tropical",
+    description: "Climbing aroids whose leaves develop splits and holes as they mature.",
+    careTips: "Give a moss pole or stake to climb. Water when the top half of the soil is dry. Bright, indirect light produces larger, more split leaves.",
+    waterIntervalMin: 7, waterIntervalMax: 10, lightLuxMin: 2500, lightLuxMax: 10000,
+    humidityMin: 50, humidityMax: 70, temperatureMinC: 18, temperatureMaxC: 30,
+    fertilizerFrequency: 30, toxicToPets: true, toxicToHumans: true,
+  },
+  {
+    scientificName: "Philodendron", rank: "genus", genus: "Philodendron", family: "Araceae",
+    commonNames: [], synonyms: [], category: "tropical",
+    description: "A large genus of climbing and self-heading aroids, mostly easy-going houseplants.",
+    careTips: "Water when the top few centimetres are dry. Give medium to bright, indirect light. Climbers grow bigger leaves with support.",
+    waterIntervalMin: 7, waterIntervalMax: 10, lightLuxMin: 1000, lightLuxMax: 10000,
+    humidityMin: 40, humidityMax: 70, temperatureMinC: 16, temperatureMaxC: 29,
+    fertilizerFrequency: 30, toxicToPets: true, toxicToHumans: true,
+  },
+  {
+    scientificName: "Ficus", rank: "genus", genus: "Ficus", family: "Moraceae",
+    commonNames: ["Figs"], synonyms: [], category: "tropical",
+    description: "Figs range from trailing vines to trees. Their milky sap can irritate skin.",
+    careTips: "Find a bright spot and leave the plant there; figs drop leaves when moved. Water when the top third of the soil is dry.",
+    waterIntervalMin: 7, waterIntervalMax: 10, lightLuxMin: 2500, lightLuxMax: 20000,
+    humidityMin: 40, humidityMax: 60, temperatureMinC: 16, temperatureMaxC: 27,
+    fertilizerFrequency: 30, toxicToPets: true, toxicToHumans: true,
+  },
+  {
+    scientificName: "Dracaena", rank: "genus", genus: "Dracaena", family: "Asparagaceae",
+    commonNames: [], synonyms: ["Sansevieria"], category: "other",
+    description: "Tough plants ranging from cane-stemmed trees to the stiff-leaved snake plants, now included in the genus.",
+    careTips: "Let the soil dry out well between waterings. Tolerates low light. Sensitive to fluoride, so brown tips may mean a switch to filtered water.",
+    waterIntervalMin: 10, waterIntervalMax: 21, lightLuxMin: 500, lightLuxMax: 10000,
+    humidityMin: 30, humidityMax: 50, temperatureMinC: 15, temperatureMaxC: 29,
+    fertilizerFrequency: 42, toxicToPets: true, toxicToHumans: false,
+  },
+  {
+    scientificName: "Echeveria", rank: "genus", genus: "Echeveria", family: "Crassulaceae",
+    commonNames: [], synonyms: [], category: "succulent",
+    description: "Rosette-forming succulents with powdery leaves in many colours.",
+    careTips: "Water the soil, not the rosette, and only once it is completely dry. Needs direct sun to stay compact and coloured.",
+    waterIntervalMin: 14, waterIntervalMax: 21, lightLuxMin: 10000, lightLuxMax: 50000,
+    humidityMin: 20, humidityMax: 40, temperatureMinC: 7, temperatureMaxC: 29,
+    fertilizerFrequency: 90, toxicToPets: false, toxicToHumans: false,
+  },
+  {
+    scientificName: "Goeppertia", rank: "genus", genus: "Goeppertia", family: "Marantaceae",
+    commonNames: ["Calatheas"], synonyms: ["Calathea"], category: "tropical",
+    description: "Most plants sold as calatheas belong here. Known for striking leaf patterns and for being fussy about water.",
+    careTips: "Keep the soil lightly moist with filtered or rain water. Avoid direct sun and dry air. Curling leaves usually mean it is thirsty or the air is too dry.",
+    waterIntervalMin: 5, waterIntervalMax: 7, lightLuxMin: 800, lightLuxMax: 5000,
+    humidityMin: 60, humidityMax: 80, temperatureMinC: 18, temperatureMaxC: 27,
+    fertilizerFrequency: 30, toxicToPets: false, toxicToHumans: false,
+  },
+  {
+    scientificName: "Peperomia", rank: "genus", genus: "Peperomia", family: "Piperaceae",
+    commonNames: ["Radiator plants"], synonyms: [], category: "tropical",
+    description: "Compact plants with thick, often succulent-like leaves that store water.",
+    careTips: "Let the soil dry out between waterings; overwatering is the main risk. Medium to bright, indirect light.",
+    waterIntervalMin: 7, waterIntervalMax: 14, lightLuxMin: 1000, lightLuxMax: 10000,
+    humidityMin: 40, humidityMax: 60, temperatureMinC: 16, temperatureMaxC: 27,
+    fertilizerFrequency: 42, toxicToPets: false, toxicToHumans: false,
+  },
+  {
+    scientificName: "Hoya", rank: "genus", genus: "Hoya", family: "Apocynaceae",
+    commonNames: ["Wax plants"], synonyms: [], category: "other",
+    description: "Trailing and climbing vines with waxy leaves and clusters of star-shaped, often scented flowers.",
+    careTips: "Let the soil dry out between waterings. Bright light encourages flowering. Don't cut off old flower stalks, as they bloom again.",
+    waterIntervalMin: 10, waterIntervalMax: 14, lightLuxMin: 2500, lightLuxMax: 15000,
+    humidityMin: 40, humidityMax: 60, temperatureMinC: 15, temperatureMaxC: 29,
+    fertilizerFrequency: 30, toxicToPets: false, toxicToHumans: false,
+  },
+  {
+    scientificName: "Phalaenopsis", rank: "genus", genus: "Phalaenopsis", family: "Orchidaceae",
+    commonNames: ["Moth orchids"], synonyms: [], category: "flowering",
+    description: "The most common household orchids, flowering for months at a time.",
+    careTips: "Water when the roots turn silvery, then drain fully. Bright, indirect light. A slight night-time temperature drop helps trigger new flower spikes.",
+    waterIntervalMin: 7, waterIntervalMax: 10, lightLuxMin: 1500, lightLuxMax: 10000,
+    humidityMin: 50, humidityMax: 70, temperatureMinC: 18, temperatureMaxC: 29,
+    fertilizerFrequency: 14, toxicToPets: false, toxicToHumans: false,
+  },
+  {
+    scientificName: "Aloe", rank: "genus", genus: "Aloe", family: "Asphodelaceae",
+    commonNames: [], synonyms: [], category: "succulent",
+    description: "Rosette succulents with thick, gel-filled leaves.",
+    careTips: "Water deeply and let the soil dry out completely. Give bright light with some direct sun. Use a gritty mix in a terracotta pot.",
+    waterIntervalMin: 14, waterIntervalMax: 21, lightLuxMin: 10000, lightLuxMax: 50000,
+    humidityMin: 20, humidityMax: 50, temperatureMinC: 10, temperatureMaxC: 29,
+    fertilizerFrequency: 90, toxicToPets: true, toxicToHumans: false,
+  },
+  {
+    scientificName: "Begonia", rank: "genus", genus: "Begonia", family: "Begoniaceae",
+    commonNames: ["Begonias"], synonyms: [], category: "flowering",
+    description: "Grown for their patterned foliage or bright flowers. Stems and leaves are easily bruised.",
+    careTips: "Water when the top of the soil is dry, keeping water off the leaves. Bright, indirect light. Good air flow prevents powdery mildew.",
+    waterIntervalMin: 5, waterIntervalMax: 7, lightLuxMin: 2500, lightLuxMax: 10000,
+    humidityMin: 50, humidityMax: 70, temperatureMinC: 16, temperatureMaxC: 27,
+    fertilizerFrequency: 14, toxicToPets: true, toxicToHumans: false,
+  },
+
+  // ===== Species =====
+  {
+    scientificName: "Monstera deliciosa", rank: "species", genus: "Monstera", family: "Araceae",
+    commonNames: ["Swiss Cheese Plant", "Monstera", "Split-leaf Philodendron"], synonyms: ["Philodendron pertusum"], category: "tropical",
+    description: "A climbing aroid from Central American rainforests whose large leaves split and hole as the plant matures.",
+    careTips: "Water when the top half of the soil is dry. Give bright, indirect light for bigger, more split leaves. Provide a moss pole to climb. Wipe the leaves monthly.",
+    waterIntervalMin: 7, waterIntervalMax: 10, lightLuxMin: 2500, lightLuxMax: 10000,
+    humidityMin: 50, humidityMax: 70, temperatureMinC: 18, temperatureMaxC: 30,
+    fertilizerFrequency: 30, toxicToPets: true, toxicToHumans: true,
+  },
+  {
+    scientificName: "Monstera adansonii", rank: "species", genus: "Monstera", family: "Araceae",
+    commonNames: ["Swiss Cheese Vine", "Five Holes Plant"], synonyms: ["Monstera friedrichsthalii"], category: "tropical",
+    description: "A smaller, vining monstera with many oval holes in thin leaves.",
+    careTips: "Keep the soil lightly moist but not soggy. Bright, indirect light. Let it trail or give it something to climb. Likes higher humidity than its larger cousin.",
+    waterIntervalMin: 7, waterIntervalMax: 9, lightLuxMin: 2000, lightLuxMax: 10000,
+    humidityMin: 60, humidityMax: 80, temperatureMinC: 18, temperatureMaxC: 29,
+    fertilizerFrequency: 30, toxicToPets: true, toxicToHumans: true,
+  },
+  {
+    scientificName: "Epipremnum aureum", rank: "species", genus: "Epipremnum", family: "Araceae",
+    commonNames: ["Pothos", "Golden Pothos", "Devil's Ivy"], synonyms: ["Scindapsus aureus", "Pothos aureus"], category: "tropical",
+    description: "One of the easiest houseplants: a fast-growing trailing vine with heart-shaped, often variegated leaves.",
+    careTips: "Water when the top few centimetres are dry; drooping leaves mean it is thirsty. Tolerates low light but keeps more variegation in bright, indirect light. Trim leggy vines to make it bushier.",
+    waterIntervalMin: 7, waterIntervalMax: 10, lightLuxMin: 800, lightLuxMax: 10000,
+    humidityMin: 40, humidityMax: 60, temperatureMinC: 15, temperatureMaxC: 30,
+    fertilizerFrequency: 30, toxicToPets: true, toxicToHumans: true,
+  },
+  {
+    scientificName: "Philodendron hederaceum", rank: "species", genus: "Philodendron", family: "Araceae",
+    commonNames: ["Heartleaf Philodendron", "Sweetheart Plant"], synonyms: ["Philodendron scandens", "Philodendron oxycardium"], category: "tropical",
+    description: "A trailing philodendron with glossy, heart-shaped leaves, often confused with pothos.",
+    careTips: "Water when the top of the soil is dry. Medium to bright, indirect light. Pinch back stems to keep it full.",
+    waterIntervalMin: 7, waterIntervalMax: 10, lightLuxMin: 1000, lightLuxMax: 10000,
+    humidityMin: 40, humidityMax: 60, temperatureMinC: 16, temperatureMaxC: 29,
+    fertilizerFrequency: 30, toxicToPets: true, toxicToHumans: true,
+  },
+  {
+    scientificName: "Thaumatophyllum bipinnatifidum", rank: "species", genus: "Thaumatophyllum", family: "Araceae",
+    commonNames: ["Tree Philodendron", "Lacy Tree Philodendron", "Split-leaf Philodendron"], synonyms: ["Philodendron bipinnatifidum", "Philodendron selloum"], category: "tropical",
+    description: "A large, self-heading plant with deeply lobed leaves that can spread over a metre wide.",
+    careTips: "Give it room and bright, indirect light. Water when the top half of the soil is dry. Aerial roots can be tucked into the pot.",
+    waterIntervalMin: 7, waterIntervalMax: 10, lightLuxMin: 2500, lightLuxMax: 15000,
+    humidityMin: 50, humidityMax: 70, temperatureMinC: 15, temperatureMaxC: 30,
+    fertilizerFrequency: 30, toxicToPets: true, toxicToHumans: true,
+  },
+  {
+    scientificName: "Zamioculcas zamiifolia", rank: "species", genus: "Zamioculcas", family: "Araceae",
+    commonNames: ["ZZ Plant", "Zanzibar Gem"], synonyms: [], category: "tropical",
+    description: "A nearly indestructible plant with glossy leaflets growing from water-storing rhizomes.",
+    careTips: "Water only when the soil is completely dry; the rhizomes rot if kept wet. Copes with low light but grows faster in bright, indirect light.",
+    waterIntervalMin: 14, waterIntervalMax: 21, lightLuxMin: 250, lightLuxMax: 10000,
+    humidityMin: 30, humidityMax: 50, temperatureMinC: 15, temperatureMaxC: 29,
+    fertilizerFrequency: 60, toxicToPets: true, toxicToHumans: true,
+  },
+  {
+    scientificName: "Spathiphyllum wallisii", rank: "species", genus: "Spathiphyllum", family: "Araceae",
+    commonNames: ["Peace Lily"], synonyms: [], category: "flowering",
+    description: "A shade-tolerant plant with dark leaves and white, sail-like flowers.",
+    careTips: "Water when the top of the soil is dry; it droops dramatically when thirsty and recovers quickly. Medium, indirect light encourages flowers. Wipe dust off the leaves.",
+    waterIntervalMin: 5, waterIntervalMax: 7, lightLuxMin: 500, lightLuxMax: 5000,
+    humidityMin: 50, humidityMax: 70, temperatureMinC: 18, temperatureMaxC: 29,
+    fertilizerFrequency: 42, toxicToPets: true, toxicToHumans: true,
+  },
+  {
+    scientificName: "Aglaonema commutatum", rank: "species", genus: "Aglaonema", family: "Araceae",
+    commonNames: ["Chinese Evergreen"], synonyms: [], category: "tropical",
+    description: "A slow-growing foliage plant with silver or coloured patterned leaves that tolerates dim rooms.",
+    careTips: "Let the top half of the soil dry between waterings. Low to medium light; colourful varieties need more. Keep above 15°C.",
+    waterIntervalMin: 7, waterIntervalMax: 10, lightLuxMin: 250, lightLuxMax: 5000,
+    humidityMin: 40, humidityMax: 60, temperatureMinC: 18, temperatureMaxC: 29,
+    fertilizerFrequency: 42, toxicToPets: true, toxicToHumans: true,
+  },
+  {
+    scientificName: "Dracaena trifasciata", rank: "species", genus: "Dracaena", family: "Asparagaceae",
+    commonNames: ["Snake Plant", "Mother-in-law's Tongue"], synonyms: ["Sansevieria trifasciata"], category: "succulent",
+    description: "Stiff, upright, banded leaves that store water, making it one of the most drought-tolerant houseplants.",
+    careTips: "Water only when the soil is completely dry, and even less in winter. Tolerates low light but grows best in bright, indirect light. Use a free-draining mix.",
+    waterIntervalMin: 14, waterIntervalMax: 28, lightLuxMin: 250, lightLuxMax: 15000,
+    humidityMin: 30, humidityMax: 50, temperatureMinC: 15, temperatureMaxC: 29,
+    fertilizerFrequency: 60, toxicToPets: true, toxicToHumans: false,
+  },
+  {
+    scientificName: "Dracaena fragrans", rank: "species", genus: "Dracaena", family: "Asparagaceae",
+    commonNames: ["Corn Plant", "Mass Cane"], synonyms: ["Dracaena massangeana"], category: "other",
+    description: "A cane-stemmed plant with arching, corn-like leaves, often striped yellow or lime.",
+    careTips: "Let the top half of the soil dry out. Medium, indirect light. Brown tips usually point to fluoride or salt build-up, so flush the soil occasionally.",
+    waterIntervalMin: 7, waterIntervalMax: 14, lightLuxMin: 1000, lightLuxMax: 10000,
+    humidityMin: 40, humidityMax: 60, temperatureMinC: 16, temperatureMaxC: 27,
+    fertilizerFrequency: 42, toxicToPets: true, toxicToHumans: false,
+  },
+  {
+    scientificName: "Chlorophytum comosum", rank: "species", genus: "Chlorophytum", family: "Asparagaceae",
+    commonNames: ["Spider Plant", "Airplane Plant"], synonyms: [], category: "other",
+    description: "Arching, striped leaves and dangling plantlets that are easy to root.",
+    careTips: "Water when the top of the soil is dry. Bright, indirect light. Pot up the baby plantlets in water or soil to propagate.",
+    waterIntervalMin: 5, waterIntervalMax: 9, lightLuxMin: 1000, lightLuxMax: 10000,
+    humidityMin: 40, humidityMax: 60, temperatureMinC: 13, temperatureMaxC: 27,
+    fertilizerFrequency: 30, toxicToPets: false, toxicToHumans: false,
+  },
+  {
+    scientificName: "Ficus lyrata", rank: "species", genus: "Ficus", family: "Moraceae",
+    commonNames: ["Fiddle Leaf Fig"], synonyms: ["Ficus pandurata"], category: "tropical",
+    description: "A tree with large, violin-shaped leaves that is notorious for reacting to any change.",
+    careTips: "Give it the brightest spot you have, with some direct morning sun, and don't move it. Water when the top third of the soil is dry. Rotate a quarter turn monthly.",
+    waterIntervalMin: 7, waterIntervalMax: 10, lightLuxMin: 5000, lightLuxMax: 20000,
+    humidityMin: 40, humidityMax: 60, temperatureMinC: 16, temperatureMaxC: 27,
+    fertilizerFrequency: 30, toxicToPets: true, toxicToHumans: true,
+  },
+  {
+    scientificName: "Ficus elastica", rank: "species", genus: "Ficus", family: "Moraceae",
+    commonNames: ["Rubber Plant", "Rubber Tree"], synonyms: [], category: "tropical",
+    description: "Thick, glossy leaves on an upright stem; burgundy and variegated forms are common.",
+    careTips: "Water when the top half of the soil is dry. Bright, indirect light keeps growth compact. Dust the leaves so they can photosynthesise.",
+    waterIntervalMin: 7, waterIntervalMax: 14, lightLuxMin: 2500, lightLuxMax: 15000,
+    humidityMin: 40, humidityMax: 60, temperatureMinC: 15, temperatureMaxC: 29,
+    fertilizerFrequency: 30, toxicToPets: true, toxicToHumans: true,
+  },
+  {
+    scientificName: "Ficus benjamina", rank: "species", genus: "Ficus", family: "Moraceae",
+    commonNames: ["Weeping Fig"], synonyms: [], category: "tropical",
+    description: "A small-leaved fig tree with drooping branches that sheds leaves when its conditions change.",
+    careTips: "Bright light away from drafts, and keep it in one place. Water when the top few centimetres are dry. Expect some leaf drop after moving it.",
+    waterIntervalMin: 7, waterIntervalMax: 10, lightLuxMin: 2500, lightLuxMax: 15000,
+    humidityMin: 40, humidityMax: 60, temperatureMinC: 16, temperatureMaxC: 27,
+    fertilizerFrequency: 30, toxicToPets: true, toxicToHumans: true,
+  },
+  {
+    scientificName: "Goeppertia orbifolia", rank: "species", genus: "Goeppertia", family: "Marantaceae",
+    commonNames: ["Calathea Orbifolia"], synonyms: ["Calathea orbifolia"], category: "tropical",
+    description: "Large, round leaves with silver-green stripes.",
+    careTips: "Keep the soil evenly moist with filtered water. Medium, indirect light only. Needs high humidity to avoid brown edges.",
+    waterIntervalMin: 5, waterIntervalMax: 7, lightLuxMin: 800, lightLuxMax: 5000,
+    humidityMin: 60, humidityMax: 80, temperatureMinC: 18, temperatureMaxC: 27,
+    fertilizerFrequency: 30, toxicToPets: false, toxicToHumans: false,
+  },
+  {
+    scientificName: "Maranta leuconeura", rank: "species", genus: "Maranta", family: "Marantaceae",
+    commonNames: ["Prayer Plant"], synonyms: [], category: "tropical",
+    description: "Low, spreading plant with red-veined leaves that fold upwards every evening.",
+    careTips: "Keep the soil lightly moist. Medium, indirect light; direct sun fades the pattern. Raise humidity if leaf edges go crispy.",
+    waterIntervalMin: 5, waterIntervalMax: 7, lightLuxMin: 800, lightLuxMax: 5000,
+    humidityMin: 50, humidityMax: 70, temperatureMinC: 18, temperatureMaxC: 27,
+    fertilizerFrequency: 30, toxicToPets: false, toxicToHumans: false,
+  },
+  {
+    scientificName: "Aloe vera", rank: "species", genus: "Aloe", family: "Asphodelaceae",
+    commonNames: ["Aloe Vera", "Medicinal Aloe"], synonyms: ["Aloe barbadensis"], category: "succulent",
+    description: "A stemless succulent whose thick leaves are filled with soothing gel.",
+    careTips: "Water deeply only when the soil is completely dry. Give bright light with some direct sun. Plant in a gritty mix in a pot with drainage.",
+    waterIntervalMin: 14, waterIntervalMax: 21, lightLuxMin: 10000, lightLuxMax: 50000,
+    humidityMin: 20, humidityMax: 50, temperatureMinC: 13, temperatureMaxC: 29,
+    fertilizerFrequency: 90, toxicToPets: true, toxicToHumans: false,
+  },
+  {
+    scientificName: "Haworthiopsis attenuata", rank: "species", genus: "Haworthiopsis", family: "Asphodelaceae",
+    commonNames: ["Zebra Plant", "Zebra Haworthia"], synonyms: ["Haworthia attenuata"], category: "succulent",
+    description: "A small succulent with pointed leaves banded in white bumps. Happy on a bright windowsill.",
+    careTips: "Let the soil dry fully between waterings. Bright light but shade from harsh afternoon sun. Use a gritty succulent mix.",
+    waterIntervalMin: 14, waterIntervalMax: 21, lightLuxMin: 5000, lightLuxMax: 20000,
+    humidityMin: 20, humidityMax: 50, temperatureMinC: 10, temperatureMaxC: 29,
+    fertilizerFrequency: 90, toxicToPets: false, toxicToHumans: false,
+  },
+  {
+    scientificName: "Echeveria elegans", rank: "species", genus: "Echeveria", family: "Crassulaceae",
+    commonNames: ["Mexican Snowball", "Mexican Gem"], synonyms: [], category: "succulent",
+    description: "A tight, pale blue-green rosette that produces pink flowers on long stalks.",
+    careTips: "Allow the soil to dry completely between waterings. Give at least six hours of direct sun. Avoid getting water in the rosette.",
+    waterIntervalMin: 14, waterIntervalMax: 21, lightLuxMin: 10000, lightLuxMax: 50000,
+    humidityMin: 20, humidityMax: 40, temperatureMinC: 7, temperatureMaxC: 29,
+    fertilizerFrequency: 90, toxicToPets: false, toxicToHumans: false,
+  },
+  {
+    scientificName: "Crassula ovata", rank: "species", genus: "Crassula", family: "Crassulaceae",
+    commonNames: ["Jade Plant", "Money Tree", "Lucky Plant"], synonyms: ["Crassula argentea", "Crassula portulacea"], category: "succulent",
+    description: "A long-lived succulent shrub with thick stems and glossy, coin-shaped leaves.",
+    careTips: "Water when the soil is completely dry. Give plenty of direct sun; red leaf edges are a sign of good light. Use a heavy pot, as it becomes top-heavy.",
+    waterIntervalMin: 14, waterIntervalMax: 21, lightLuxMin: 10000, lightLuxMax: 50000,
+    humidityMin: 20, humidityMax: 50, temperatureMinC: 10, temperatureMaxC: 29,
+    fertilizerFrequency: 90, toxicToPets: true, toxicToHumans: false,
+  },
+  {
+    scientificName: "Schlumbergera truncata", rank: "species", genus: "Schlumbergera", family: "Cactaceae",
+    commonNames: ["Thanksgiving Cactus", "Christmas Cactus", "Holiday Cactus"], synonyms: ["Zygocactus truncatus"], category: "flowering",
+    description: "A forest cactus with flat, segmented stems that flowers in late autumn and winter.",
+    careTips: "Unlike desert cacti, keep the soil lightly moist. Bright, indirect light. Long nights and cooler temperatures in autumn trigger flower buds.",
+    waterIntervalMin: 7, waterIntervalMax: 10, lightLuxMin: 2500, lightLuxMax: 10000,
+    humidityMin: 50, humidityMax: 60, temperatureMinC: 13, temperatureMaxC: 27,
+    fertilizerFrequency: 30, toxicToPets: false, toxicToHumans: false,
+  },
+  {
+    scientificName: "Mammillaria elongata", rank: "species", genus: "Mammillaria", family: "Cactaceae",
+    commonNames: ["Ladyfinger Cactus", "Gold Lace Cactus"], synonyms: [], category: "succulent",
+    description: "Clusters of finger-shaped stems covered in golden spines.",
+    careTips: "Water deeply, then let the soil dry out completely. Give full sun. Keep almost dry and cool in winter to encourage spring flowers.",
+    waterIntervalMin: 21, waterIntervalMax: 28, lightLuxMin: 15000, lightLuxMax: 60000,
+    humidityMin: 10, humidityMax: 40, temperatureMinC: 5, temperatureMaxC: 32,
+    fertilizerFrequency: 120, toxicToPets: false, toxicToHumans: false,
+  },
+  {
+    scientificName: "Ocimum basilicum", rank: "species", genus: "Ocimum", family: "Lamiaceae",
+    commonNames: ["Sweet Basil", "Basil"], synonyms: [], category: "herb",
+    description: "A fast-growing, aromatic culinary herb that dislikes cold.",
+    careTips: "Give at least six hours of sun. Water when the top of the soil is dry, watering the soil rather than the leaves. Pinch off flower buds and harvest from the top.",
+    waterIntervalMin: 2, waterIntervalMax: 4, lightLuxMin: 15000, lightLuxMax: 60000,
+    humidityMin: 40, humidityMax: 60, temperatureMinC: 15, temperatureMaxC: 30,
+    fertilizerFrequency: 21, toxicToPets: false, toxicToHumans: false,
+  },
+  {
+    scientificName: "Mentha spicata", rank: "species", genus: "Mentha", family: "Lamiaceae",
+    commonNames: ["Spearmint", "Mint"], synonyms: ["Mentha viridis"], category: "herb",
+    description: "A vigorous, spreading herb best kept in its own pot.",
+    careTips: "Keep the soil consistently moist. Full sun to part shade. Cut back hard if it gets leggy; it regrows quickly.",
+    waterIntervalMin: 2, waterIntervalMax: 4, lightLuxMin: 10000, lightLuxMax: 40000,
+    humidityMin: 40, humidityMax: 70, temperatureMinC: 13, temperatureMaxC: 27,
+    fertilizerFrequency: 30, toxicToPets: true, toxicToHumans: false,
+  },
+  {
+    scientificName: "Salvia rosmarinus", rank: "species", genus: "Salvia", family: "Lamiaceae",
+    commonNames: ["Rosemary"], synonyms: ["Rosmarinus officinalis"], category: "herb",
+    description: "A woody Mediterranean herb with needle-like, resinous leaves.",
+    careTips: "Give as much sun as possible. Let the top of the soil dry between waterings; it hates wet roots. Good air flow prevents mildew indoors.",
+    waterIntervalMin: 7, waterIntervalMax: 14, lightLuxMin: 20000, lightLuxMax: 80000,
+    humidityMin: 30, humidityMax: 50, temperatureMinC: 7, temperatureMaxC: 29,
+    fertilizerFrequency: 42, toxicToPets: false, toxicToHumans: false,
+  },
+  {
+    scientificName: "Phalaenopsis amabilis", rank: "species", genus: "Phalaenopsis", family: "Orchidaceae",
+    commonNames: ["Moth Orchid"], synonyms: [], category: "flowering",
+    description: "An epiphytic orchid with arching sprays of long-lasting white flowers.",
+    careTips: "Water when the roots turn silvery and let the pot drain completely. Bright, indirect light. Cut spent spikes above a node to encourage reblooming.",
+    waterIntervalMin: 7, waterIntervalMax: 10, lightLuxMin: 1500, lightLuxMax: 10000,
+    humidityMin: 50, humidityMax: 70, temperatureMinC: 18, temperatureMaxC: 29,
+    fertilizerFrequency: 14, toxicToPets: false, toxicToHumans: false,
+  },
+  {
+    scientificName: "Nephrolepis exaltata", rank: "species", genus: "Nephrolepis", family: "Nephrolepidaceae",
+    commonNames: ["Boston Fern", "Sword Fern"], synonyms: [], category: "fern",
+    description: "A classic fern with long, arching fronds that loves humidity.",
+    careTips: "Keep the soil consistently moist. Bright, indirect light without direct sun. Mist or use a pebble tray, and remove brown fronds at the base.",
+    waterIntervalMin: 2, waterIntervalMax: 4, lightLuxMin: 800, lightLuxMax: 5000,
+    humidityMin: 60, humidityMax: 80, temperatureMinC: 15, temperatureMaxC: 27,
+    fertilizerFrequency: 30, toxicToPets: false, toxicToHumans: false,
+  },
+  {
+    scientificName: "Adiantum raddianum", rank: "species", genus: "Adiantum", family: "Pteridaceae",
+    commonNames: ["Maidenhair Fern", "Delta Maidenhair Fern"], synonyms: ["Adiantum cuneatum"], category: "fern",
+    description: "Delicate, fan-shaped leaflets on wiry black stems. Unforgiving if it dries out.",
+    careTips: "Never let the soil dry out completely. Bright, indirect light only. Needs high humidity; a bathroom or terrarium works well.",
+    waterIntervalMin: 2, waterIntervalMax: 3, lightLuxMin: 800, lightLuxMax: 5000,
+    humidityMin: 60, humidityMax: 90, temperatureMinC: 16, temperatureMaxC: 27,
+    fertilizerFrequency: 30, toxicToPets: false, toxicToHumans: false,
+  },
+  {
+    scientificName: "Hedera helix", rank: "species", genus: "Hedera", family: "Araliaceae",
+    commonNames: ["English Ivy", "Common Ivy"], synonyms: [], category: "other",
+    description: "A climbing or trailing evergreen vine that prefers cooler rooms.",
+    careTips: "Water when the top of the soil is dry. Bright, indirect light. Keep it cool and check the undersides of leaves for spider mites.",
+    waterIntervalMin: 5, waterIntervalMax: 7, lightLuxMin: 1000, lightLuxMax: 10000,
+    humidityMin: 40, humidityMax: 60, temperatureMinC: 10, temperatureMaxC: 24,
+    fertilizerFrequency: 30, toxicToPets: true, toxicToHumans: true,
+  },
+  {
+    scientificName: "Hoya carnosa", rank: "species", genus: "Hoya", family: "Apocynaceae",
+    commonNames: ["Wax Plant", "Porcelain Flower"], synonyms: [], category: "other",
+    description: "A trailing vine with thick, waxy leaves and fragrant clusters of star-shaped flowers.",
+    careTips: "Let the soil dry out between waterings. Bright, indirect light encourages blooms. Leave the old flower spurs on the plant.",
+    waterIntervalMin: 10, waterIntervalMax: 14, lightLuxMin: 2500, lightLuxMax: 15000,
+    humidityMin: 40, humidityMax: 60, temperatureMinC: 15, temperatureMaxC: 29,
+    fertilizerFrequency: 30, toxicToPets: false, toxicToHumans: false,
+  },
+  {
+    scientificName: "Peperomia obtusifolia", rank: "species", genus: "Peperomia", family: "Piperaceae",
+    commonNames: ["Baby Rubber Plant", "Pepper Face"], synonyms: [], category: "tropical",
+    description: "A compact plant with thick, glossy, spoon-shaped leaves.",
+    careTips: "Let the top half of the soil dry out; the leaves store water. Medium to bright, indirect light. Avoid overwatering.",
+    waterIntervalMin: 7, waterIntervalMax: 14, lightLuxMin: 1000, lightLuxMax: 10000,
+    humidityMin: 40, humidityMax: 60, temperatureMinC: 16, temperatureMaxC: 27,
+    fertilizerFrequency: 42, toxicToPets: false, toxicToHumans: false,
+  },
+  {
+    scientificName: "Pilea peperomioides", rank: "species", genus: "Pilea", family: "Urticaceae",
+    commonNames: ["Chinese Money Plant", "Pancake Plant", "UFO Plant"], synonyms: [], category: "tropical",
+    description: "Round, coin-like leaves on long stalks; it produces plenty of pups to share.",
+    careTips: "Water when the top half of the soil is dry. Bright, indirect light, rotating weekly so it grows evenly. Separate pups once they have a few leaves.",
+    waterIntervalMin: 7, waterIntervalMax: 10, lightLuxMin: 2500, lightLuxMax: 10000,
+    humidityMin: 40, humidityMax: 60, temperatureMinC: 13, temperatureMaxC: 27,
+    fertilizerFrequency: 30, toxicToPets: false, toxicToHumans: false,
+  },
+  {
+    scientificName: "Dypsis lutescens", rank: "species", genus: "Dypsis", family: "Arecaceae",
+    commonNames: ["Areca Palm", "Butterfly Palm", "Golden Cane Palm"], synonyms: ["Chrysalidocarpus lutescens"], category: "tropical",
+    description: "A clumping palm with feathery, arching fronds on yellowish stems.",
+    careTips: "Keep the soil lightly moist. Bright, indirect light. Use filtered water if the tips brown, and only trim fully brown fronds.",
+    waterIntervalMin: 5, waterIntervalMax: 7, lightLuxMin: 2500, lightLuxMax: 15000,
+    humidityMin: 40, humidityMax: 60, temperatureMinC: 16, temperatureMaxC: 29,
+    fertilizerFrequency: 30, toxicToPets: false, toxicToHumans: false,
+  },
+  {
+    scientificName: "Chamaedorea elegans", rank: "species", genus: "Chamaedorea", family: "Arecaceae",
+    commonNames: ["Parlour Palm", "Parlor Palm"], synonyms: ["Neanthe bella"], category: "tropical",
+    description: "A small, slow-growing palm that copes with lower light.",
+    careTips: "Water when the top few centimetres are dry. Low to medium, indirect light. Avoid direct sun, which yellows the fronds.",
+    waterIntervalMin: 7, waterIntervalMax: 10, lightLuxMin: 500, lightLuxMax: 5000,
+    humidityMin: 40, humidityMax: 60, temperatureMinC: 16, temperatureMaxC: 27,
+    fertilizerFrequency: 30, toxicToPets: false, toxicToHumans: false,
+  },
+  {
+    scientificName: "Begonia maculata", rank: "species", genus: "Begonia", family: "Begoniaceae",
+    commonNames: ["Polka Dot Begonia"], synonyms: [], category: "flowering",
+    description: "A cane begonia with silver-spotted leaves and red undersides.",
+    careTips: "Water when the top of the soil is dry, keeping the leaves dry. Bright, indirect light. Stake the canes as they grow and pinch tips to encourage branching.",
+    waterIntervalMin: 5, waterIntervalMax: 7, lightLuxMin: 2500, lightLuxMax: 10000,
+    humidityMin: 50, humidityMax: 70, temperatureMinC: 16, temperatureMaxC: 27,
+    fertilizerFrequency: 14, toxicToPets: true, toxicToHumans: false,
+  },
+  {
+    scientificName: "Tradescantia zebrina", rank: "species", genus: "Tradescantia", family: "Commelinaceae",
+    commonNames: ["Inch Plant", "Wandering Dude"], synonyms: ["Zebrina pendula"], category: "other",
+    description: "A fast-trailing plant with purple and silver striped leaves.",
+    careTips: "Keep the soil lightly moist. Bright, indirect light keeps the colours strong. Pinch back often and replant cuttings to keep it full.",
+    waterIntervalMin: 5, waterIntervalMax: 7, lightLuxMin: 2500, lightLuxMax: 10000,
+    humidityMin: 40, humidityMax: 60, temperatureMinC: 13, temperatureMaxC: 27,
+    fertilizerFrequency: 30, toxicToPets: true, toxicToHumans: false,
+  },
+];
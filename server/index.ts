@@ -10,6 +10,11 @@ import * as logger from "./services/logger";
 import cors from "cors";
 import { closeDbConnection } from "./db";
 import { globalErrorHandler } from './utils/errorHandler';
+import { startNotificationScheduler, stopNotificationScheduler } from './services/notificationDispatcher';
+import { startRankingScheduler, stopRankingScheduler } from './services/discoverRanking';
+import { startSensorRollupScheduler, stopSensorRollupScheduler } from './services/sensors';
+import { startMqttBridge, stopMqttBridge } from './services/mqttBridge';
+import { startWebhookScheduler, stopWebhookScheduler } from './services/webhooks';
 
 // Create Express application
 const app = express();
@@ -192,6 +197,17 @@ app.use(globalErrorHandler);
   }, () => {
     const protocol = process.env.NODE_ENV === 'production' ? 'https' : 'http';
     logger.info(`Server running at ${protocol}://localhost:${port} (${isProduction ? 'production' : 'development'} mode)`);
+    
+    // Start sending reminder digests once the server is up
+    startNotificationScheduler();
+    // Keep discover rankings fresh
+    startRankingScheduler();
+    // Roll old sensor readings up into hourly averages
+    startSensorRollupScheduler();
+    // Connect to the MQTT broker when MQTT_URL is set
+    startMqttBridge();
+    // Retry webhook deliveries and send reminder_due events
+    startWebhookScheduler();
   });
   
   // Setup graceful shutdown handlers for production
@@ -207,6 +223,13 @@ app.use(globalErrorHandler);
       }, 30000); // 30 seconds timeout
       
       try {
+        // Stop background jobs before closing connections
+        stopNotificationScheduler();
+        stopRankingScheduler();
+        stopSensorRollupScheduler();
+        await stopMqttBridge();
+        stopWebhookScheduler();
+        
         // Close the HTTP server first (stops accepting new connections)
         logger.info('Closing HTTP server...');
         await new Promise<void>((resolve, reject) => {
@@ -1,8 +1,13 @@
 import { Pool } from '@neondatabase/serverless';
 import { db } from './db';
-import { users } from '../shared/schema';
-import { sql } from 'drizzle-orm';
+import { users, plants, careLogs } from '../shared/schema';
+import { sql, eq, like, and, isNotNull, or } from 'drizzle-orm';
 import * as logger from './services/logger';
+import { savePhoto } from './services/photoStorage';
+import { seedSpeciesCatalogue } from './services/speciesCatalog';
+import { searchDocuments, searchNames } from './services/search';
+import { normalizeCareLogMetadata } from './services/careLogging';
+import { CARE_LOG_METADATA_VERSION } from '../shared/schema';
 
 /**
  * This script adds the missing columns to support our new features
@@ -339,9 +344,809 @@ export async function applyMigrations() {
     `);
     logger.info('Created profile_settings table (if needed)');
 
+    // Create photos table if it doesn't exist and add the blob store columns
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "photos" (
+        "id" SERIAL PRIMARY KEY,
+        "plant_id" INTEGER REFERENCES plants(id) ON DELETE CASCADE
+      );
+    `);
+    await db.execute(sql`
+      ALTER TABLE photos
+        ADD COLUMN IF NOT EXISTS "care_log_id" INTEGER REFERENCES care_logs(id) ON DELETE CASCADE,
+        ADD COLUMN IF NOT EXISTS "user_id" INTEGER REFERENCES users(id) ON DELETE CASCADE,
+        ADD COLUMN IF NOT EXISTS "kind" TEXT NOT NULL DEFAULT 'care_log',
+        ADD COLUMN IF NOT EXISTS "storage_key" TEXT UNIQUE,
+        ADD COLUMN IF NOT EXISTS "thumbnail_key" TEXT,
+        ADD COLUMN IF NOT EXISTS "url" TEXT,
+        ADD COLUMN IF NOT EXISTS "thumbnail_url" TEXT,
+        ADD COLUMN IF NOT EXISTS "content_type" TEXT NOT NULL DEFAULT 'image/jpeg',
+        ADD COLUMN IF NOT EXISTS "size_bytes" INTEGER,
+        ADD COLUMN IF NOT EXISTS "width" INTEGER,
+        ADD COLUMN IF NOT EXISTS "height" INTEGER,
+        ADD COLUMN IF NOT EXISTS "created_at" TIMESTAMP DEFAULT NOW();
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "idx_photos_plant_id" ON "photos" ("plant_id");
+      CREATE INDEX IF NOT EXISTS "idx_photos_url" ON "photos" ("url");
+    `);
+    logger.info('Created photos table (if needed)');
+
+    // Add reminder engine columns (snooze, completion time, occurrence chain)
+    await db.execute(sql`
+      ALTER TABLE reminders
+        ADD COLUMN IF NOT EXISTS "snoozed_until" TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS "completed_at" TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS "previous_reminder_id" INTEGER;
+    `);
+    logger.info('Added reminder snooze/recurrence columns (if needed)');
+
+    // Add notification preference columns to profile_settings
+    await db.execute(sql`
+      ALTER TABLE profile_settings
+        ADD COLUMN IF NOT EXISTS "email_notifications" BOOLEAN DEFAULT true,
+        ADD COLUMN IF NOT EXISTS "push_notifications" BOOLEAN DEFAULT false,
+        ADD COLUMN IF NOT EXISTS "digest_hour" INTEGER DEFAULT 8,
+        ADD COLUMN IF NOT EXISTS "quiet_hours_start" TEXT,
+        ADD COLUMN IF NOT EXISTS "quiet_hours_end" TEXT,
+        ADD COLUMN IF NOT EXISTS "last_digest_sent_at" TIMESTAMP;
+    `);
+    logger.info('Added notification preference columns (if needed)');
+
+    // Create push_subscriptions table if it doesn't exist
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "push_subscriptions" (
+        "id" SERIAL PRIMARY KEY,
+        "user_id" INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        "endpoint" TEXT NOT NULL UNIQUE,
+        "p256dh" TEXT NOT NULL,
+        "auth" TEXT NOT NULL,
+        "user_agent" TEXT,
+        "created_at" TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    logger.info('Created push_subscriptions table (if needed)');
+
+    // Create calendar_feeds table if it doesn't exist
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "calendar_feeds" (
+        "id" SERIAL PRIMARY KEY,
+        "user_id" INTEGER NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+        "token" TEXT NOT NULL UNIQUE,
+        "created_at" TIMESTAMP DEFAULT NOW(),
+        "last_accessed" TIMESTAMP
+      );
+    `);
+    logger.info('Created calendar_feeds table (if needed)');
+
+    // Add adaptive watering columns to plants
+    await db.execute(sql`
+      ALTER TABLE plants
+        ADD COLUMN IF NOT EXISTS "adaptive_watering" BOOLEAN NOT NULL DEFAULT FALSE,
+        ADD COLUMN IF NOT EXISTS "water_frequency_adjusted_at" TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS "water_frequency_note" TEXT;
+    `);
+    logger.info('Added adaptive watering columns to plants (if needed)');
+
+    // Create shared garden (household) tables
+    await db.execute(sql`
+      DO $$
+      BEGIN
+        CREATE TYPE garden_role AS ENUM ('owner', 'caretaker', 'viewer');
+      EXCEPTION
+        WHEN duplicate_object THEN NULL;
+      END $$;
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "gardens" (
+        "id" SERIAL PRIMARY KEY,
+        "name" TEXT NOT NULL,
+        "created_by" INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        "created_at" TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "garden_members" (
+        "id" SERIAL PRIMARY KEY,
+        "garden_id" INTEGER NOT NULL REFERENCES gardens(id) ON DELETE CASCADE,
+        "user_id" INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        "role" garden_role NOT NULL DEFAULT 'caretaker',
+        "joined_at" TIMESTAMP DEFAULT NOW(),
+        UNIQUE ("garden_id", "user_id")
+      );
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "garden_invitations" (
+        "id" SERIAL PRIMARY KEY,
+        "garden_id" INTEGER NOT NULL REFERENCES gardens(id) ON DELETE CASCADE,
+        "email" TEXT,
+        "role" garden_role NOT NULL DEFAULT 'caretaker',
+        "token" TEXT NOT NULL UNIQUE,
+        "invited_by" INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        "created_at" TIMESTAMP DEFAULT NOW(),
+        "expires_at" TIMESTAMP NOT NULL,
+        "accepted_at" TIMESTAMP,
+        "accepted_by" INTEGER REFERENCES users(id) ON DELETE SET NULL
+      );
+    `);
+    // Deleting a garden hands its plants back to the members who added them
+    await db.execute(sql`
+      ALTER TABLE plants
+        ADD COLUMN IF NOT EXISTS "garden_id" INTEGER REFERENCES gardens(id) ON DELETE SET NULL;
+    `);
+    await db.execute(sql`
+      ALTER TABLE care_logs
+        ADD COLUMN IF NOT EXISTS "performed_by" INTEGER REFERENCES users(id) ON DELETE SET NULL;
+    `);
+    await db.execute(sql`
+      ALTER TABLE reminders
+        ADD COLUMN IF NOT EXISTS "assigned_to" INTEGER REFERENCES users(id) ON DELETE SET NULL;
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "idx_plants_garden_id" ON "plants" ("garden_id");
+    `);
+    logger.info('Created shared garden tables and columns (if needed)');
+
+    // Vacation mode: sitter links covering several plants, and guest-attributed care logs
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "sitter_links" (
+        "id" SERIAL PRIMARY KEY,
+        "user_id" INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        "share_id" TEXT NOT NULL UNIQUE,
+        "sitter_name" TEXT,
+        "instructions" TEXT,
+        "starts_at" TIMESTAMP NOT NULL,
+        "expires_at" TIMESTAMP NOT NULL,
+        "active" BOOLEAN DEFAULT TRUE,
+        "created_at" TIMESTAMP DEFAULT NOW(),
+        "last_accessed" TIMESTAMP,
+        "report_sent_at" TIMESTAMP
+      );
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "sitter_link_plants" (
+        "id" SERIAL PRIMARY KEY,
+        "sitter_link_id" INTEGER NOT NULL REFERENCES sitter_links(id) ON DELETE CASCADE,
+        "plant_id" INTEGER NOT NULL REFERENCES plants(id) ON DELETE CASCADE,
+        UNIQUE ("sitter_link_id", "plant_id")
+      );
+    `);
+    await db.execute(sql`
+      ALTER TABLE care_logs
+        ADD COLUMN IF NOT EXISTS "sitter_link_id" INTEGER REFERENCES sitter_links(id) ON DELETE SET NULL,
+        ADD COLUMN IF NOT EXISTS "guest_name" TEXT;
+    `);
+    logger.info('Created sitter link tables and columns (if needed)');
+
+    // AI gateway: response cache and per-request usage accounting
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "ai_response_cache" (
+        "cache_key" TEXT PRIMARY KEY,
+        "feature" TEXT NOT NULL,
+        "response" JSONB NOT NULL,
+        "created_at" TIMESTAMP DEFAULT NOW(),
+        "expires_at" TIMESTAMP NOT NULL
+      );
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "ai_usage" (
+        "id" SERIAL PRIMARY KEY,
+        "user_id" INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        "feature" TEXT NOT NULL,
+        "model" TEXT NOT NULL,
+        "prompt_tokens" INTEGER NOT NULL DEFAULT 0,
+        "completion_tokens" INTEGER NOT NULL DEFAULT 0,
+        "estimated_cost" REAL NOT NULL DEFAULT 0,
+        "cached" BOOLEAN NOT NULL DEFAULT FALSE,
+        "success" BOOLEAN NOT NULL DEFAULT TRUE,
+        "created_at" TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "idx_ai_usage_user_created" ON "ai_usage" ("user_id", "created_at");
+    `);
+    logger.info('Created AI gateway tables (if needed)');
+
+    // Species catalogue
+    await db.execute(sql`
+      DO $$
+      BEGIN
+        CREATE TYPE taxon_rank AS ENUM ('species', 'genus', 'family');
+      EXCEPTION
+        WHEN duplicate_object THEN NULL;
+      END $$;
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "species" (
+        "id" SERIAL PRIMARY KEY,
+        "scientific_name" TEXT NOT NULL UNIQUE,
+        "rank" taxon_rank NOT NULL DEFAULT 'species',
+        "genus" TEXT,
+        "family" TEXT,
+        "common_names" TEXT[] NOT NULL DEFAULT '{}',
+        "synonyms" TEXT[] NOT NULL DEFAULT '{}',
+        "category" TEXT,
+        "description" TEXT NOT NULL,
+        "care_tips" TEXT NOT NULL,
+        "water_interval_min" INTEGER NOT NULL,
+        "water_interval_max" INTEGER NOT NULL,
+        "light_lux_min" INTEGER NOT NULL,
+        "light_lux_max" INTEGER NOT NULL,
+        "humidity_min" INTEGER,
+        "humidity_max" INTEGER,
+        "temperature_min_c" REAL,
+        "temperature_max_c" REAL,
+        "fertilizer_frequency" INTEGER NOT NULL,
+        "toxic_to_pets" BOOLEAN,
+        "toxic_to_humans" BOOLEAN,
+        "updated_at" TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "idx_species_genus" ON "species" (lower("genus"));
+    `);
+    // Fuzzy name matching uses pg_trgm; without it only exact matches work
+    try {
+      await db.execute(sql`CREATE EXTENSION IF NOT EXISTS pg_trgm`);
+    } catch (error) {
+      logger.warn('Could not enable pg_trgm, fuzzy species matching will be unavailable:', error);
+    }
+    await seedSpeciesCatalogue();
+    logger.info('Created and seeded species catalogue (if needed)');
+
+    // Full-text search: indexes on the same document expressions the search queries use
+    await db.execute(sql`
+      ALTER TABLE care_logs ADD COLUMN IF NOT EXISTS journal_text TEXT;
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "idx_plants_search" ON "plants" USING GIN ((${sql.raw(searchDocuments.plant())}));
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "idx_care_logs_search" ON "care_logs" USING GIN ((${sql.raw(searchDocuments.careLog())}));
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "idx_community_tips_search" ON "community_tips" USING GIN ((${sql.raw(searchDocuments.tip())}));
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "idx_users_search" ON "users" USING GIN ((${sql.raw(searchDocuments.profile())}));
+    `);
+    // Typo-tolerant name matching needs pg_trgm (enabled with the species catalogue above)
+    try {
+      await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "idx_plants_name_trgm" ON "plants" USING GIN ((${sql.raw(searchNames.plant())}) gin_trgm_ops);
+      `);
+      await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "idx_community_tips_title_trgm" ON "community_tips" USING GIN ((${sql.raw(searchNames.tip())}) gin_trgm_ops);
+      `);
+      await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "idx_species_name_trgm" ON "species" USING GIN ((${sql.raw(searchNames.guide())}) gin_trgm_ops);
+      `);
+      await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "idx_users_name_trgm" ON "users" USING GIN ((${sql.raw(searchNames.profile())}) gin_trgm_ops);
+      `);
+    } catch (error) {
+      logger.warn('Could not create trigram indexes, fuzzy search will be unavailable:', error);
+    }
+    logger.info('Created search indexes (if needed)');
+
+    // Discover rankings, rebuilt by the ranking scheduler
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "user_rankings" (
+        "user_id" INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+        "followers" INTEGER NOT NULL DEFAULT 0,
+        "follower_growth" INTEGER NOT NULL DEFAULT 0,
+        "recent_activity" INTEGER NOT NULL DEFAULT 0,
+        "plants_count" INTEGER NOT NULL DEFAULT 0,
+        "trending_score" DOUBLE PRECISION NOT NULL DEFAULT 0,
+        "refreshed_at" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "idx_user_rankings_trending" ON "user_rankings" ("trending_score" DESC, "user_id" DESC);
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "idx_user_follows_followed" ON "user_follows" ("followed_id", "created_at");
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "idx_activity_feed_user_created" ON "activity_feed" ("user_id", "created_at");
+    `);
+    logger.info('Created user_rankings table (if needed)');
+
+    // User roles and community tip moderation
+    await db.execute(sql`
+      DO $$
+      BEGIN
+        CREATE TYPE user_role AS ENUM ('admin', 'moderator', 'member');
+      EXCEPTION
+        WHEN duplicate_object THEN NULL;
+      END $$;
+    `);
+    await db.execute(sql`
+      DO $$
+      BEGIN
+        CREATE TYPE tip_report_reason AS ENUM ('spam', 'offensive', 'harmful', 'incorrect', 'other');
+      EXCEPTION
+        WHEN duplicate_object THEN NULL;
+      END $$;
+    `);
+    await db.execute(sql`
+      DO $$
+      BEGIN
+        CREATE TYPE moderation_action AS ENUM ('hide', 'restore', 'remove', 'dismiss_reports', 'feature', 'unfeature', 'auto_hide', 'change_role');
+      EXCEPTION
+        WHEN duplicate_object THEN NULL;
+      END $$;
+    `);
+    await db.execute(sql`
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS "role" user_role NOT NULL DEFAULT 'member';
+    `);
+    // User 1 used to be the implicit admin; keep it that way until someone else is promoted
+    await db.execute(sql`
+      UPDATE users SET role = 'admin'
+      WHERE id = 1 AND NOT EXISTS (SELECT 1 FROM users WHERE role = 'admin');
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "tip_reports" (
+        "id" SERIAL PRIMARY KEY,
+        "tip_id" INTEGER NOT NULL REFERENCES community_tips(id) ON DELETE CASCADE,
+        "reporter_id" INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        "reason" tip_report_reason NOT NULL,
+        "details" TEXT,
+        "created_at" TIMESTAMP DEFAULT NOW(),
+        "resolved_at" TIMESTAMP,
+        "resolved_by" INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        UNIQUE ("tip_id", "reporter_id")
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "idx_tip_reports_open" ON "tip_reports" ("tip_id") WHERE "resolved_at" IS NULL;
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "moderation_actions" (
+        "id" SERIAL PRIMARY KEY,
+        "moderator_id" INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        "action" moderation_action NOT NULL,
+        "target_type" TEXT NOT NULL,
+        "target_id" INTEGER NOT NULL,
+        "note" TEXT,
+        "created_at" TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "idx_moderation_actions_created" ON "moderation_actions" ("created_at" DESC);
+    `);
+    logger.info('Created user roles and moderation tables (if needed)');
+
+    // Comments and in-app notifications
+    await db.execute(sql`
+      DO $$
+      BEGIN
+        CREATE TYPE tip_status AS ENUM ('active', 'reported', 'removed');
+      EXCEPTION
+        WHEN duplicate_object THEN NULL;
+      END $$;
+    `);
+    await db.execute(sql`
+      DO $$
+      BEGIN
+        CREATE TYPE comment_target AS ENUM ('tip', 'plant', 'care_log');
+      EXCEPTION
+        WHEN duplicate_object THEN NULL;
+      END $$;
+    `);
+    await db.execute(sql`
+      DO $$
+      BEGIN
+        CREATE TYPE notification_type AS ENUM ('mention', 'reply');
+      EXCEPTION
+        WHEN duplicate_object THEN NULL;
+      END $$;
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "comments" (
+        "id" SERIAL PRIMARY KEY,
+        "target_type" comment_target NOT NULL,
+        "target_id" INTEGER NOT NULL,
+        "user_id" INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        "parent_id" INTEGER REFERENCES comments(id) ON DELETE CASCADE,
+        "content" TEXT NOT NULL,
+        "status" tip_status NOT NULL DEFAULT 'active',
+        "created_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+        "edited_at" TIMESTAMP
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "idx_comments_target" ON "comments" ("target_type", "target_id", "created_at");
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "notifications" (
+        "id" SERIAL PRIMARY KEY,
+        "user_id" INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        "type" notification_type NOT NULL,
+        "actor_id" INTEGER REFERENCES users(id) ON DELETE CASCADE,
+        "comment_id" INTEGER REFERENCES comments(id) ON DELETE CASCADE,
+        "message" TEXT NOT NULL,
+        "url" TEXT,
+        "created_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+        "read_at" TIMESTAMP
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "idx_notifications_user" ON "notifications" ("user_id", "created_at" DESC);
+    `);
+    logger.info('Created comments and notifications tables (if needed)');
+
+    // Plant lineage (propagation) and transfers between users
+    await db.execute(sql`
+      DO $$
+      BEGIN
+        CREATE TYPE propagation_method AS ENUM ('cutting', 'division', 'offset', 'seed', 'layering', 'other');
+      EXCEPTION
+        WHEN duplicate_object THEN NULL;
+      END $$;
+    `);
+    await db.execute(sql`
+      DO $$
+      BEGIN
+        CREATE TYPE plant_transfer_status AS ENUM ('pending', 'accepted', 'declined', 'cancelled');
+      EXCEPTION
+        WHEN duplicate_object THEN NULL;
+      END $$;
+    `);
+    await db.execute(sql`
+      ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'plant_transfer';
+    `);
+    // Deleting a parent plant keeps its children, they just lose the link
+    await db.execute(sql`
+      ALTER TABLE plants
+        ADD COLUMN IF NOT EXISTS "parent_plant_id" INTEGER REFERENCES plants(id) ON DELETE SET NULL,
+        ADD COLUMN IF NOT EXISTS "propagation_method" propagation_method,
+        ADD COLUMN IF NOT EXISTS "propagated_at" TIMESTAMP;
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "idx_plants_parent_plant_id" ON "plants" ("parent_plant_id");
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "plant_transfers" (
+        "id" SERIAL PRIMARY KEY,
+        "plant_id" INTEGER NOT NULL REFERENCES plants(id) ON DELETE CASCADE,
+        "from_user_id" INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        "to_user_id" INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        "status" plant_transfer_status NOT NULL DEFAULT 'pending',
+        "message" TEXT,
+        "created_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+        "responded_at" TIMESTAMP
+      );
+    `);
+    // A plant can only be offered to one person at a time
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS "idx_plant_transfers_pending"
+        ON "plant_transfers" ("plant_id") WHERE status = 'pending';
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "idx_plant_transfers_to_user" ON "plant_transfers" ("to_user_id", "status");
+    `);
+    logger.info('Created plant lineage columns and plant_transfers table (if needed)');
+
+    // Environmental sensors and their readings
+    await db.execute(sql`
+      DO $$
+      BEGIN
+        CREATE TYPE sensor_metric AS ENUM ('soil_moisture', 'temperature', 'humidity', 'lux');
+      EXCEPTION
+        WHEN duplicate_object THEN NULL;
+      END $$;
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "sensor_devices" (
+        "id" SERIAL PRIMARY KEY,
+        "user_id" INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        "plant_id" INTEGER REFERENCES plants(id) ON DELETE SET NULL,
+        "name" TEXT NOT NULL,
+        "token_hash" TEXT NOT NULL UNIQUE,
+        "token_prefix" TEXT NOT NULL,
+        "dry_threshold" REAL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+        "last_seen_at" TIMESTAMP
+      );
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "sensor_readings" (
+        "id" SERIAL PRIMARY KEY,
+        "device_id" INTEGER NOT NULL REFERENCES sensor_devices(id) ON DELETE CASCADE,
+        "plant_id" INTEGER NOT NULL REFERENCES plants(id) ON DELETE CASCADE,
+        "metric" sensor_metric NOT NULL,
+        "value" REAL NOT NULL,
+        "recorded_at" TIMESTAMP NOT NULL
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "idx_sensor_readings_plant" ON "sensor_readings" ("plant_id", "metric", "recorded_at" DESC);
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "idx_sensor_readings_recorded_at" ON "sensor_readings" ("recorded_at");
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "sensor_readings_hourly" (
+        "id" SERIAL PRIMARY KEY,
+        "device_id" INTEGER NOT NULL REFERENCES sensor_devices(id) ON DELETE CASCADE,
+        "plant_id" INTEGER NOT NULL REFERENCES plants(id) ON DELETE CASCADE,
+        "metric" sensor_metric NOT NULL,
+        "hour" TIMESTAMP NOT NULL,
+        "average" REAL NOT NULL,
+        "minimum" REAL NOT NULL,
+        "maximum" REAL NOT NULL,
+        "samples" INTEGER NOT NULL,
+        UNIQUE ("device_id", "plant_id", "metric", "hour")
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "idx_sensor_readings_hourly_plant" ON "sensor_readings_hourly" ("plant_id", "metric", "hour");
+    `);
+    logger.info('Created sensor tables (if needed)');
+
+    // Webhook endpoints and their persisted delivery queue / log
+    await db.execute(sql`
+      DO $$ BEGIN
+        CREATE TYPE webhook_delivery_status AS ENUM ('pending', 'succeeded', 'failed');
+      EXCEPTION
+        WHEN duplicate_object THEN NULL;
+      END $$;
+    `);
+    // activity_feed.activity_type is plain text here, but a schema pushed with
+    // drizzle-kit has it as an enum that needs the new event types
+    await db.execute(sql`
+      DO $$ BEGIN
+        IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'activity_type') THEN
+          ALTER TYPE activity_type ADD VALUE IF NOT EXISTS 'reminder_due';
+          ALTER TYPE activity_type ADD VALUE IF NOT EXISTS 'diagnosis_completed';
+        END IF;
+      END $$;
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "webhook_endpoints" (
+        "id" SERIAL PRIMARY KEY,
+        "user_id" INTEGER NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+        "url" TEXT NOT NULL,
+        "description" TEXT,
+        "secret" TEXT NOT NULL,
+        "event_types" TEXT[] NOT NULL,
+        "active" BOOLEAN NOT NULL DEFAULT TRUE,
+        "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "idx_webhook_endpoints_user" ON "webhook_endpoints" ("user_id");
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "webhook_deliveries" (
+        "id" SERIAL PRIMARY KEY,
+        "endpoint_id" INTEGER NOT NULL REFERENCES "webhook_endpoints"("id") ON DELETE CASCADE,
+        "event_id" TEXT NOT NULL,
+        "event_type" TEXT NOT NULL,
+        "payload" JSONB NOT NULL,
+        "status" webhook_delivery_status NOT NULL DEFAULT 'pending',
+        "attempts" INTEGER NOT NULL DEFAULT 0,
+        "next_attempt_at" TIMESTAMP,
+        "last_attempt_at" TIMESTAMP,
+        "response_status" INTEGER,
+        "last_error" TEXT,
+        "created_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+        "delivered_at" TIMESTAMP
+      );
+    `);
+    // The queue is read by due time, the log newest first per endpoint
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "idx_webhook_deliveries_due" ON "webhook_deliveries" ("next_attempt_at") WHERE status = 'pending';
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "idx_webhook_deliveries_endpoint" ON "webhook_deliveries" ("endpoint_id", "created_at" DESC);
+    `);
+    logger.info('Created webhook tables (if needed)');
+
+    // Personal access tokens for the /api/v1 API
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "api_tokens" (
+        "id" SERIAL PRIMARY KEY,
+        "user_id" INTEGER NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+        "name" TEXT NOT NULL,
+        "token_hash" TEXT NOT NULL UNIQUE,
+        "token_prefix" TEXT NOT NULL,
+        "scopes" TEXT[] NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+        "last_used_at" TIMESTAMP,
+        "expires_at" TIMESTAMP,
+        "revoked_at" TIMESTAMP
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "idx_api_tokens_user" ON "api_tokens" ("user_id");
+    `);
+    logger.info('Created api_tokens table (if needed)');
+
+    // Care logged offline carries an id from the app so replays are only logged once
+    await db.execute(sql`
+      ALTER TABLE care_logs ADD COLUMN IF NOT EXISTS offline_id TEXT;
+    `);
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS "idx_care_logs_offline_id" ON "care_logs" ("plant_id", "offline_id");
+    `);
+    logger.info('Added offline_id column to care_logs table (if needed)');
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "ai_reports" (
+        "id" SERIAL PRIMARY KEY,
+        "user_id" INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        "feature" TEXT NOT NULL,
+        "plant_ids" INTEGER[] NOT NULL,
+        "input_hash" TEXT NOT NULL,
+        "input" JSONB NOT NULL,
+        "result" JSONB NOT NULL,
+        "action_reminders" JSONB NOT NULL DEFAULT '{}'::jsonb,
+        "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "idx_ai_reports_user_feature" ON "ai_reports" ("user_id", "feature", "input_hash");
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "idx_ai_reports_plants" ON "ai_reports" USING GIN ("plant_ids");
+    `);
+    logger.info('Created ai_reports table (if needed)');
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "schedule_applications" (
+        "id" SERIAL PRIMARY KEY,
+        "user_id" INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        "report_id" INTEGER REFERENCES ai_reports(id) ON DELETE SET NULL,
+        "changes" JSONB NOT NULL,
+        "previous_reminders" JSONB NOT NULL,
+        "created_reminder_ids" INTEGER[] NOT NULL,
+        "rolled_back_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "idx_schedule_applications_user" ON "schedule_applications" ("user_id", "created_at");
+    `);
+    logger.info('Created schedule_applications table (if needed)');
+
+    // Databases created by the early migration above have a TEXT metadata column.
+    // Values are kept as JSON strings for now and parsed by migrateCareLogMetadata.
+    await db.execute(sql`
+      DO $$
+      BEGIN
+        IF EXISTS (
+          SELECT FROM information_schema.columns
+          WHERE table_name = 'care_logs' AND column_name = 'metadata' AND data_type = 'text'
+        ) THEN
+          ALTER TABLE care_logs ALTER COLUMN metadata TYPE JSONB USING to_jsonb(metadata);
+        END IF;
+      END $$;
+    `);
+    logger.info('Converted care_logs.metadata to JSONB (if needed)');
+
+    // Bring care log metadata up to the current schema
+    await migrateCareLogMetadata();
+
+    // Move any inline base64 images left in care_logs/plants into the blob store
+    await migrateInlinePhotos();
+
     logger.info('Database migrations completed successfully!');
   } catch (error) {
     logger.error('Error applying migrations:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Data migration: rewrites care log metadata from before the current schema
+ * version (JSON strings, untyped objects) with normalizeCareLogMetadata.
+ * Only out of date rows are selected, so it is safe to run on every start.
+ */
+export async function migrateCareLogMetadata() {
+  const outdated = await db
+    .select({ id: careLogs.id, careType: careLogs.careType, metadata: careLogs.metadata })
+    .from(careLogs)
+    .where(and(
+      isNotNull(careLogs.metadata),
+      or(
+        sql`jsonb_typeof(${careLogs.metadata}) <> 'object'`,
+        sql`CASE WHEN jsonb_typeof(${careLogs.metadata}->'version') = 'number'
+          THEN (${careLogs.metadata}->>'version')::numeric < ${CARE_LOG_METADATA_VERSION}
+          ELSE true END`,
+      ),
+    ));
+
+  if (outdated.length === 0) {
+    return;
+  }
+
+  logger.info(`Normalizing metadata of ${outdated.length} care logs...`);
+  let migrated = 0;
+
+  for (const { id, careType, metadata } of outdated) {
+    try {
+      await db
+        .update(careLogs)
+        .set({ metadata: normalizeCareLogMetadata(careType, metadata) })
+        .where(eq(careLogs.id, id));
+      migrated++;
+    } catch (error) {
+      logger.error(`Failed to normalize metadata for care log ${id}:`, error);
+    }
+  }
+
+  logger.info(`Normalized metadata of ${migrated} care logs`);
+}
+
+/**
+ * One-off data migration: extracts `data:image/...` strings stored directly in
+ * care_logs.photo and plants.image into the blob store and replaces them with URLs.
+ * Only rows that still hold inline data are selected, so it is safe to run on every start.
+ */
+export async function migrateInlinePhotos() {
+  // Select ids first so we never hold more than one image in memory at a time
+  const inlineCareLogs = await db
+    .select({ id: careLogs.id })
+    .from(careLogs)
+    .where(like(careLogs.photo, 'data:image/%'));
+
+  const inlinePlants = await db
+    .select({ id: plants.id })
+    .from(plants)
+    .where(like(plants.image, 'data:image/%'));
+
+  if (inlineCareLogs.length === 0 && inlinePlants.length === 0) {
+    return;
+  }
+
+  logger.info(`Migrating ${inlineCareLogs.length} care log photos and ${inlinePlants.length} plant images to the blob store...`);
+  let migrated = 0;
+
+  for (const { id } of inlineCareLogs) {
+    try {
+      const [row] = await db
+        .select({ photo: careLogs.photo, plantId: careLogs.plantId, userId: plants.userId })
+        .from(careLogs)
+        .innerJoin(plants, eq(careLogs.plantId, plants.id))
+        .where(eq(careLogs.id, id));
+      if (!row?.photo) continue;
+
+      const photo = await savePhoto({
+        data: row.photo,
+        kind: 'care_log',
+        plantId: row.plantId,
+        careLogId: id,
+        userId: row.userId,
+      });
+      await db.update(careLogs).set({ photo: photo.url }).where(eq(careLogs.id, id));
+      migrated++;
+    } catch (error) {
+      logger.error(`Failed to migrate photo for care log ${id}:`, error);
+    }
+  }
+
+  for (const { id } of inlinePlants) {
+    try {
+      const [row] = await db
+        .select({ image: plants.image, userId: plants.userId })
+        .from(plants)
+        .where(eq(plants.id, id));
+      if (!row?.image) continue;
+
+      const photo = await savePhoto({
+        data: row.image,
+        kind: 'plant',
+        plantId: id,
+        userId: row.userId,
+      });
+      await db.update(plants).set({ image: photo.url }).where(eq(plants.id, id));
+      migrated++;
+    } catch (error) {
+      logger.error(`Failed to migrate image for plant ${id}:`, error);
+    }
+  }
+
+  logger.info(`Migrated ${migrated} inline images to the blob store`);
+}
@@ -2,7 +2,8 @@ import type { Express } from "express";
 import { Router } from "express";
 import { createServer, type Server } from "http";
 import * as logger from "./services/logger";
-import { setupAuth } from "./auth";
+import { setupAuth, hasRole, requireRole } from "./auth";
+import { CARE_LOG_METADATA_VERSION, TIP_STATUSES, type Plant } from "@shared/schema";
 
 // Auth-related routes
 const isProduction = process.env.NODE_ENV === 'production';
@@ -12,15 +13,42 @@ import { setupPlantLightAnalyzerRoutes } from "./routes/plant-light-analyzer";
 import { setupSharedPlantsRoutes } from "./routes/shared-plants";
 import { setupSharedCareLogsRoutes } from "./routes/shared-care-logs";
 import { registerSocialRoutes } from "./routes/social";
-
-// Import the new modular API routers
-import { plantsRouter } from "./routes/api/plants";
-// ... import other new routers like profileRouter, aiRouter, etc.
+import { setupNotificationRoutes } from "./routes/notifications";
+import { setupCalendarRoutes } from "./routes/calendar";
+import { setupExportRoutes } from "./routes/export";
+import { setupWateringRoutes } from "./routes/watering";
+import { setupGardenRoutes } from "./routes/gardens";
+import { setupSitterLinkRoutes } from "./routes/sitter-links";
+import { setupAiUsageRoutes } from "./routes/ai-usage";
+import { setupSpeciesRoutes } from "./routes/species";
+import { setupSearchRoutes } from "./routes/search";
+import { setupModerationRoutes } from "./routes/moderation";
+import { setupCommentRoutes } from "./routes/comments";
+import { setupPlantLineageRoutes } from "./routes/plant-lineage";
+import { setupSensorRoutes } from "./routes/sensors";
+import { setupWebhookRoutes } from "./routes/webhooks";
+import { setupApiTokenRoutes } from "./routes/api-tokens";
+import { setupApiRoutes } from "./routes/api";
+import { setupAiReportRoutes } from "./routes/ai-reports";
+import { aiRequestContext, enforceAiQuota } from "./services/aiGateway";
+import { emitDiagnosisCompleted } from "./services/webhooks";
+import { journalEntryToText } from "./services/search";
+import { canAccessPlant } from "./services/gardenAccess";
+import { saveAiReport } from "./services/aiReports";
+import { analyzePlantGrowth } from "./services/growthTimeline";
+import { actionForStatus, moderateTip } from "./services/moderation";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up authentication
   setupAuth(app);
   
+  // Attribute AI requests to the signed-in user and stop AI endpoints at the daily quota
+  app.use(aiRequestContext);
+  app.use(
+    ["/api/ai", "/api/identify-plant", "/api/diagnose-plant-health", "/api/plants/analyze-light", "/api/light-meter"],
+    enforceAiQuota
+  );
+  
   // Set up direct login route for debugging only in development
   if (!isProduction) {
     logger.info("Setting up direct login route for development");
@@ -42,6 +70,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Set up social features routes
   registerSocialRoutes(app);
   
+  // Set up notification (push subscription / test) routes
+  setupNotificationRoutes(app);
+  
+  // Set up iCalendar feed routes
+  setupCalendarRoutes(app);
+  
+  // Set up data export/import routes
+  setupExportRoutes(app);
+  
+  // Set up adaptive watering suggestion routes
+  setupWateringRoutes(app);
+  
+  // Set up shared garden (household) routes
+  setupGardenRoutes(app);
+  
+  // Set up vacation mode (plant sitter link) routes
+  setupSitterLinkRoutes(app);
+  
+  // Set up AI usage and quota routes
+  setupAiUsageRoutes(app);
+  
+  // Set up species catalogue routes
+  setupSpeciesRoutes(app);
+  
+  // Set up full-text search routes
+  setupSearchRoutes(app);
+  
+  // Set up community tip reporting and moderation routes
+  setupModerationRoutes(app);
+  
+  // Set up comment routes
+  setupCommentRoutes(app);
+  
+  // Set up plant propagation, family tree and transfer routes
+  setupPlantLineageRoutes(app);
+  
+  // Set up sensor device and reading routes
+  setupSensorRoutes(app);
+  
+  // Set up outgoing webhook routes
+  setupWebhookRoutes(app);
+  
+  // Set up plant, care log and reminder routes, and the versioned /api/v1 API
+  setupApiRoutes(app);
+  
+  // Set up personal access token routes
+  setupApiTokenRoutes(app);
+  
+  // Set up saved AI report routes
+  setupAiReportRoutes(app);
+  
   // API routes
   const apiRouter = app;
 
@@ -169,525 +248,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Plant routes - secured for production
-  apiRouter.get("/api/plants", isAuthenticated, async (req, res) => {
-    const userId = req.user!.id;
-    logger.info("Getting plants for user ID:", userId);
-    const plants = await storage.getPlants(userId);
-    logger.info(`Found ${plants.length} plants for user ID ${userId}`);
-    res.json(plants);
-  });
-  
-  // Debug endpoints removed for production security
-
-  apiRouter.get("/api/plants/:id", isAuthenticated, async (req, res) => {
-    const plantId = parseInt(req.params.id);
-    if (isNaN(plantId)) {
-      return res.status(400).json({ message: "Invalid plant ID" });
-    }
-    
-    const plant = await storage.getPlant(plantId);
-    if (!plant) {
-      return res.status(404).json({ message: "Plant not found" });
-    }
-    
-    // Ensure users can only access their own plants
-    if (plant.userId !== req.user!.id) {
-      return res.status(403).json({ message: "You don't have permission to access this plant" });
-    }
-    
-    logger.info(`Serving plant ${plantId} for user ${plant.userId}`);
-    res.json(plant);
-  });
-
-  apiRouter.post("/api/plants", isAuthenticated, async (req, res) => {
-    const validation = validateRequest(insertPlantSchema, req, res);
-    if (!validation.success) return;
-    
-    const userId = req.user!.id;
-    
-    let plantData = { ...validation.data, userId };
-    
-    // Get species-specific care recommendations if scientific name is provided
-    if (validation.data.scientificName && !validation.data.notes) {
-      try {
-        // Get detailed care recommendations from OpenAI
-        const { getPlantCareRecommendations } = await import('./services/openai');
-        const careInfo = await getPlantCareRecommendations(validation.data.scientificName);
-        
-        // Only apply OpenAI recommendations if not explicitly provided in the request
-        if (!validation.data.waterFrequency) {
-          plantData.waterFrequency = careInfo.wateringGuidelines.frequency;
-        }
-        
-        if (!validation.data.fertilizerFrequency) {
-          plantData.fertilizerFrequency = careInfo.fertilizerGuidelines.frequency;
-        }
-        
-        if (!validation.data.sunlightLevel) {
-          plantData.sunlightLevel = careInfo.sunlightRequirements.level;
-        }
-        
-        // Create a detailed plant description
-        plantData.notes = `${careInfo.description}\n\n` +
-                          `Watering: ${careInfo.wateringGuidelines.notes}\n\n` +
-                          `Light: ${careInfo.sunlightRequirements.notes}\n\n` +
-                          `Fertilizing: ${careInfo.fertilizerGuidelines.notes}\n\n` +
-                          `Care Tips: ${careInfo.careTips}\n\n` +
-                          `Interesting Fact: ${careInfo.interestingFact}`;
-      } catch (error) {
-        logger.error("Error getting care recommendations:", handleError(error));
-        // Continue with user-provided data if OpenAI recommendation fails
-      }
-    }
-    
-    const plant = await storage.createPlant(plantData);
-    
-    // Create automatic reminders for watering and fertilizing
-    if (plant.waterFrequency > 0) {
-      const wateringDueDate = new Date();
-      wateringDueDate.setDate(wateringDueDate.getDate() + plant.waterFrequency);
-      
-      await storage.createReminder({
-        plantId: plant.id,
-        userId,
-        title: `Water your ${plant.name}`,
-        message: `It's time to water your ${plant.name}`,
-        dueDate: wateringDueDate.toISOString(),
-        careType: 'water',
-        status: 'pending',
-        recurring: true,
-        recurringInterval: plant.waterFrequency,
-        notified: false
-      });
-    }
-    
-    if (plant.fertilizerFrequency > 0) {
-      const fertilizingDueDate = new Date();
-      fertilizingDueDate.setDate(fertilizingDueDate.getDate() + plant.fertilizerFrequency);
-      
-      await storage.createReminder({
-        plantId: plant.id,
-        userId,
-        title: `Fertilize your ${plant.name}`,
-        message: `It's time to fertilize your ${plant.name}`,
-        dueDate: fertilizingDueDate.toISOString(),
-        careType: 'fertilize',
-        status: 'pending',
-        recurring: true,
-        recurringInterval: plant.fertilizerFrequency,
-        notified: false
-      });
-    }
-    
-    res.status(201).json(plant);
-  });
-
-  apiRouter.patch("/api/plants/:id", isAuthenticated, async (req, res) => {
-    const plantId = parseInt(req.params.id);
-    if (isNaN(plantId)) {
-      return res.status(400).json({ message: "Invalid plant ID" });
-    }
-    
-    // Allow partial updates
-    const validation = validateRequest(insertPlantSchema.partial(), req, res);
-    if (!validation.success) return;
-    
-    // Get the original plant to compare changes
-    const originalPlant = await storage.getPlant(plantId);
-    if (!originalPlant) {
-      return res.status(404).json({ message: "Plant not found" });
-    }
-    
-    const updatedPlant = await storage.updatePlant(plantId, validation.data);
-    if (!updatedPlant) {
-      return res.status(404).json({ message: "Plant not found" });
-    }
-    
-    // Get the authenticated user ID
-    const userId = req.user!.id;
-    
-    // If water frequency changed, update or create a watering reminder
-    if (validation.data.waterFrequency && validation.data.waterFrequency !== originalPlant.waterFrequency) {
-      // Get existing water reminders for this plant
-      const existingReminders = await storage.getRemindersByPlant(plantId);
-      const waterReminder = existingReminders.find(r => r.careType === 'water');
-      
-      if (updatedPlant.waterFrequency > 0) {
-        const wateringDueDate = new Date();
-        wateringDueDate.setDate(wateringDueDate.getDate() + updatedPlant.waterFrequency);
-        
-        if (waterReminder) {
-          // Update existing reminder
-          await storage.updateReminder(waterReminder.id, {
-            title: `Water your ${updatedPlant.name}`,
-            message: `It's time to water your ${updatedPlant.name}`,
-            dueDate: wateringDueDate.toISOString(),
-            recurring: true,
-            recurringInterval: updatedPlant.waterFrequency
-          });
-        } else {
-          // Create new reminder
-          await storage.createReminder({
-            plantId: updatedPlant.id,
-            userId,
-            title: `Water your ${updatedPlant.name}`,
-            message: `It's time to water your ${updatedPlant.name}`,
-            dueDate: wateringDueDate.toISOString(),
-            careType: 'water',
-            status: 'pending',
-            recurring: true,
-            recurringInterval: updatedPlant.waterFrequency,
-            notified: false
-          });
-        }
-      } else if (waterReminder) {
-        // If water frequency set to 0, delete the reminder
-        await storage.deleteReminder(waterReminder.id);
-      }
-    }
-    
-    // If fertilizer frequency changed, update or create a fertilizing reminder
-    if (validation.data.fertilizerFrequency && validation.data.fertilizerFrequency !== originalPlant.fertilizerFrequency) {
-      // Get existing fertilizer reminders for this plant
-      const existingReminders = await storage.getRemindersByPlant(plantId);
-      const fertilizerReminder = existingReminders.find(r => r.careType === 'fertilize');
-      
-      if (updatedPlant.fertilizerFrequency > 0) {
-        const fertilizingDueDate = new Date();
-        fertilizingDueDate.setDate(fertilizingDueDate.getDate() + updatedPlant.fertilizerFrequency);
-        
-        if (fertilizerReminder) {
-          // Update existing reminder
-          await storage.updateReminder(fertilizerReminder.id, {
-            title: `Fertilize your ${updatedPlant.name}`,
-            message: `It's time to fertilize your ${updatedPlant.name}`,
-            dueDate: fertilizingDueDate.toISOString(),
-            recurring: true,
-            recurringInterval: updatedPlant.fertilizerFrequency
-          });
-        } else {
-          // Create new reminder
-          await storage.createReminder({
-            plantId: updatedPlant.id,
-            userId,
-            title: `Fertilize your ${updatedPlant.name}`,
-            message: `It's time to fertilize your ${updatedPlant.name}`,
-            dueDate: fertilizingDueDate.toISOString(),
-            careType: 'fertilize',
-            status: 'pending',
-            recurring: true,
-            recurringInterval: updatedPlant.fertilizerFrequency,
-            notified: false
-          });
-        }
-      } else if (fertilizerReminder) {
-        // If fertilizer frequency set to 0, delete the reminder
-        await storage.deleteReminder(fertilizerReminder.id);
-      }
-    }
-    
-    res.json(updatedPlant);
-  });
-
-  apiRouter.delete("/api/plants/:id", isAuthenticated, async (req, res) => {
-    const plantId = parseInt(req.params.id);
-    if (isNaN(plantId)) {
-      return res.status(400).json({ message: "Invalid plant ID" });
-    }
-    
-    const success = await storage.deletePlant(plantId);
-    if (!success) {
-      return res.status(404).json({ message: "Plant not found" });
-    }
-    
-    res.status(204).send();
-  });
-
-  // Care log routes - authenticated for production
-  apiRouter.get("/api/plants/:id/care-logs", isAuthenticated, async (req, res) => {
-    const plantId = parseInt(req.params.id);
-    if (isNaN(plantId)) {
-      return res.status(400).json({ message: "Invalid plant ID" });
-    }
-    
-    // Get the plant to check ownership
-    const plant = await storage.getPlant(plantId);
-    if (!plant) {
-      return res.status(404).json({ message: "Plant not found" });
-    }
-    
-    // Ensure users can only access their own plants' care logs
-    if (plant.userId !== req.user!.id) {
-      return res.status(403).json({ message: "You don't have permission to access this plant" });
-    }
-    
-    const logs = await storage.getCareLogs(plantId);
-    logger.info(`Serving ${logs.length} care logs for plant ${plantId}`);
-    res.json(logs);
-  });
-
-  apiRouter.post("/api/care-logs", isAuthenticated, async (req, res) => {
-    const validation = validateRequest(insertCareLogSchema, req, res);
-    if (!validation.success) return;
-    
-    const careLogData = { ...validation.data };
-    
-    // Extract any additional data from the request that might not be in the schema
-    const { healthDiagnosis } = req.body;
-    
-    // Handle health diagnosis data if provided
-    if (healthDiagnosis && careLogData.careType === 'health_check') {
-      try {
-        // Store the health diagnosis in the metadata field as JSON
-        careLogData.metadata = JSON.stringify({ healthDiagnosis });
-      } catch (error) {
-        logger.error('Error processing health diagnosis data:', handleError(error));
-      }
-    }
-    
-    // Flag to track if we have a photo for light analysis
-    let photoForLightAnalysis = null;
-    
-    // Handle photoBase64 if provided - store directly in the database for persistence
-    if (careLogData.photoBase64) {
-      try {
-        // Store the base64 image data directly in the photo field
-        // Add data URL prefix if it doesn't already have one
-        let processedPhoto;
-        if (!careLogData.photoBase64.startsWith('data:image/')) {
-          processedPhoto = `data:image/jpeg;base64,${careLogData.photoBase64}`;
-        } else {
-          processedPhoto = careLogData.photoBase64;
-        }
-        
-        // Save the processed photo both for storage and light analysis
-        careLogData.photo = processedPhoto;
-        photoForLightAnalysis = processedPhoto;
-        
-        // Remove base64 data from the separate field before storing in DB
-        delete careLogData.photoBase64;
-        
-        // If a photo is provided, attempt to immediately analyze light level
-        // and include it in the notes
-        if (processedPhoto) {
-          try {
-            // Get plant info for context
-            const plant = await storage.getPlant(careLogData.plantId);
-            if (!plant) {
-              throw new Error("Plant not found");
-            }
-            
-            // Perform immediate light analysis to include in the notes
-            const { sunlightLevel, confidence } = await analyzePlantImageLightLevel(processedPhoto);
-            
-            // Convert sunlight level to estimated lux range
-            let luxRange = "0";
-            switch(sunlightLevel) {
-              case "low":
-                luxRange = "100-500";
-                break;
-              case "medium":
-                luxRange = "500-2500";
-                break;
-              case "high":
-                luxRange = "2500+";
-                break;
-            }
-            
-            // Add light level data to notes
-            const lightInfo = `\n\nlux: ${luxRange} (${sunlightLevel.charAt(0).toUpperCase() + sunlightLevel.slice(1)} Light)`;
-            
-            // Include analysis info only if confidence is medium or high
-            if (confidence !== "low") {
-              careLogData.notes = (careLogData.notes || "") + lightInfo;
-            }
-          } catch (analysisError) {
-            logger.error("Error performing light analysis on photo:", handleError(analysisError));
-            // Continue without adding analysis to notes, don't block the main flow
-          }
-        }
-      } catch (error) {
-        logger.error('Error processing photo data:', handleError(error));
-        return res.status(500).json({ message: 'Failed to process photo' });
-      }
-    }
-    
-    const careLog = await storage.createCareLog(careLogData);
-    
-    // Get the plant to update its reminders
-    const plant = await storage.getPlant(careLogData.plantId);
-    if (plant) {
-      // Get the authenticated user ID
-      const userId = req.user!.id;
-      
-      // Update existing reminders based on the care action performed
-      const existingReminders = await storage.getRemindersByPlant(careLogData.plantId);
-      
-      if (careLogData.careType === 'water') {
-        // Find existing water reminder
-        const waterReminder = existingReminders.find(r => r.careType === 'water');
-        
-        if (waterReminder && plant.waterFrequency > 0) {
-          // Calculate next watering date
-          const nextWateringDate = new Date();
-          nextWateringDate.setDate(nextWateringDate.getDate() + plant.waterFrequency);
-          
-          // Update existing reminder
-          await storage.updateReminder(waterReminder.id, {
-            dueDate: nextWateringDate.toISOString(),
-            status: 'pending' // Reset status if it was completed/dismissed
-          });
-        } else if (plant.waterFrequency > 0) {
-          // Create new reminder if none exists
-          const nextWateringDate = new Date();
-          nextWateringDate.setDate(nextWateringDate.getDate() + plant.waterFrequency);
-          
-          await storage.createReminder({
-            plantId: plant.id,
-            userId,
-            title: `Water your ${plant.name}`,
-            message: `It's time to water your ${plant.name}`,
-            dueDate: nextWateringDate.toISOString(),
-            careType: 'water',
-            status: 'pending',
-            recurring: true,
-            recurringInterval: plant.waterFrequency,
-            notified: false
-          });
-        }
-        
-        // Update the plant's last watered date
-        await storage.updatePlant(plant.id, {
-          lastWatered: new Date().toISOString()
-        });
-      } else if (careLogData.careType === 'fertilize') {
-        // Find existing fertilizer reminder
-        const fertilizerReminder = existingReminders.find(r => r.careType === 'fertilize');
-        
-        if (fertilizerReminder && plant.fertilizerFrequency > 0) {
-          // Calculate next fertilizing date
-          const nextFertilizingDate = new Date();
-          nextFertilizingDate.setDate(nextFertilizingDate.getDate() + plant.fertilizerFrequency);
-          
-          // Update existing reminder
-          await storage.updateReminder(fertilizerReminder.id, {
-            dueDate: nextFertilizingDate.toISOString(),
-            status: 'pending' // Reset status if it was completed/dismissed
-          });
-        } else if (plant.fertilizerFrequency > 0) {
-          // Create new reminder if none exists
-          const nextFertilizingDate = new Date();
-          nextFertilizingDate.setDate(nextFertilizingDate.getDate() + plant.fertilizerFrequency);
-          
-          await storage.createReminder({
-            plantId: plant.id,
-            userId,
-            title: `Fertilize your ${plant.name}`,
-            message: `It's time to fertilize your ${plant.name}`,
-            dueDate: nextFertilizingDate.toISOString(),
-            careType: 'fertilize',
-            status: 'pending',
-            recurring: true,
-            recurringInterval: plant.fertilizerFrequency,
-            notified: false
-          });
-        }
-        
-        // Update the plant's last fertilized date
-        await storage.updatePlant(plant.id, {
-          lastFertilized: new Date().toISOString()
-        });
-      }
-    }
-    
-    // Perform background analysis if there's a photo
-    // This runs after we've already responded to the client to avoid delay in the response
-    if (photoForLightAnalysis && plant) {
-      // Use a Promise to run the analysis asynchronously
-      (async () => {
-        try {
-          logger.info(`Analyzing light level for plant ID ${plant.id} from care log photo...`);
-          
-          // Analyze the image for light level
-          const { sunlightLevel, confidence } = await analyzePlantImageLightLevel(photoForLightAnalysis);
-          
-          logger.info(`Light analysis result: ${sunlightLevel} (confidence: ${confidence})`);
-          
-          // Only update the plant if we have medium or high confidence in the result
-          if (confidence !== "low") {
-            // Update the plant's sunlight level
-            await storage.updatePlant(plant.id, { sunlightLevel });
-            logger.info(`Updated plant ${plant.id} (${plant.name}) sunlight level to: ${sunlightLevel}`);
-          } else {
-            logger.info(`Low confidence in light analysis result, not updating plant record.`);
-          }
-          
-          // Generate journal entry with comprehensive analysis including plant verification
-          try {
-            logger.info(`Generating journal entry for care log ${careLog.id}...`);
-            const { generateJournalEntry } = await import("./services/openai");
-            
-            // We need to get the plant with care details for the journal entry
-            const plantWithCare = await storage.getPlantWithCare(plant.id);
-            if (!plantWithCare) {
-              throw new Error("Failed to get plant with care details");
-            }
-            
-            // Get all past care logs for this plant for comprehensive analysis
-            const careHistory = await storage.getPlantCareHistory(plant.id);
-            
-            // Filter out the current care log since we're analyzing it
-            const pastCareHistory = careHistory.filter(log => log.id !== careLog.id);
-            
-            logger.info(`Including ${pastCareHistory.length} previous care logs in the AI analysis for plant ${plant.id}`);
-            
-            // Generate journal entry with AI analysis and care history
-            const journalEntry = await generateJournalEntry(careLog, plantWithCare, pastCareHistory);
-            
-            // We no longer add the AI analysis to the notes since it's shown 
-            // in the UI under the dedicated AI Analysis section
-            
-            // Only handle metadata for plant identity mismatch if needed
-            
-            // Handle plant identity mismatch in metadata
-            if (journalEntry.plantIdentityMatch && 
-                journalEntry.plantIdentityMatch.confidence !== "low" && 
-                !journalEntry.plantIdentityMatch.matches) {
-              
-              logger.info(`⚠️ Plant identity mismatch detected in care log ${careLog.id}!`);
-              logger.info(`Expected: ${plant.name}, Detected: ${journalEntry.plantIdentityMatch.detectedPlant || 'Unknown'}`);
-              
-              // Add a mismatch warning to the metadata
-              const metadata = {
-                plantIdentityMismatch: true,
-                expectedPlant: plant.name,
-                detectedPlant: journalEntry.plantIdentityMatch.detectedPlant,
-                confidence: journalEntry.plantIdentityMatch.confidence
-              };
-              
-              // Store this information in the care log metadata
-              await storage.updateCareLog(careLog.id, {
-                metadata: JSON.stringify(metadata)
-              });
-            }
-          } catch (journalError) {
-            logger.error('Error generating journal entry:', handleError(journalError));
-            // Don't block the process, continue with other tasks
-          }
-        } catch (error) {
-          logger.error('Error performing background analysis:', handleError(error));
-          // No need to handle this error since this is a background task
-          // and doesn't affect the response to the client
-        }
-      })().catch(err => {
-        logger.error('Unhandled error in background analysis task:', err);
-      });
-    }
-    
-    res.status(201).json(careLog);
-  });
-
   // Plant guides routes
   apiRouter.get("/api/plant-guides", async (req, res) => {
     const guides = await storage.getPlantGuides();
@@ -695,18 +255,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(guides);
   });
 
-  apiRouter.get("/api/plant-guides/:type", async (req, res) => {
-    const plantType = req.params.type;
-    const guide = await storage.getPlantGuideByType(plantType);
-    
-    if (!guide) {
-      return res.status(404).json({ message: "Plant guide not found" });
-    }
-    
-    logger.info(`Serving plant guide for ${plantType}`);
-    res.json(guide);
-  });
-
   // Dashboard summary route
   apiRouter.get("/api/dashboard/care-needed", isAuthenticated, async (req, res) => {
     const userId = req.user!.id;
@@ -716,121 +264,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(careNeeded);
   });
   
-  // Reminder routes
-  apiRouter.get("/api/reminders", isAuthenticated, async (req, res) => {
-    const userId = req.user!.id;
-    const reminders = await storage.getReminders(userId);
-    res.json(reminders);
-  });
-  
-  apiRouter.get("/api/reminders/upcoming/:days", isAuthenticated, async (req, res) => {
-    const userId = req.user!.id;
-    const days = parseInt(req.params.days);
-    
-    if (isNaN(days)) {
-      return res.status(400).json({ message: "Invalid days parameter" });
-    }
-    
-    const reminders = await storage.getUpcomingReminders(userId, days);
-    res.json(reminders);
-  });
-  
-  apiRouter.get("/api/reminders/overdue", isAuthenticated, async (req, res) => {
-    const userId = req.user!.id;
-    const reminders = await storage.getOverdueReminders(userId);
-    res.json(reminders);
-  });
-  
-  apiRouter.get("/api/plants/:id/reminders", isAuthenticated, async (req, res) => {
-    const plantId = parseInt(req.params.id);
-    if (isNaN(plantId)) {
-      return res.status(400).json({ message: "Invalid plant ID" });
-    }
-    
-    const reminders = await storage.getRemindersByPlant(plantId);
-    res.json(reminders);
-  });
-  
-  apiRouter.post("/api/reminders", isAuthenticated, async (req, res) => {
-    // We need to bring in the insertReminderSchema
-    const { insertReminderSchema } = await import("@shared/schema");
-    
-    const validation = validateRequest(insertReminderSchema, req, res);
-    if (!validation.success) return;
-    
-    // Ensure message is provided with a default if not present
-    const reminderData = {
-      ...validation.data,
-      message: validation.data.message || `Reminder for ${validation.data.title}`
-    };
-    
-    const reminder = await storage.createReminder(reminderData);
-    res.status(201).json(reminder);
-  });
-  
-  apiRouter.patch("/api/reminders/:id", isAuthenticated, async (req, res) => {
-    const reminderId = parseInt(req.params.id);
-    if (isNaN(reminderId)) {
-      return res.status(400).json({ message: "Invalid reminder ID" });
-    }
-    
-    // We need to bring in the insertReminderSchema
-    const { insertReminderSchema } = await import("@shared/schema");
-    
-    // Allow partial updates
-    const validation = validateRequest(insertReminderSchema.partial(), req, res);
-    if (!validation.success) return;
-    
-    const updatedReminder = await storage.updateReminder(reminderId, validation.data);
-    if (!updatedReminder) {
-      return res.status(404).json({ message: "Reminder not found" });
-    }
-    
-    res.json(updatedReminder);
-  });
-  
-  apiRouter.delete("/api/reminders/:id", isAuthenticated, async (req, res) => {
-    const reminderId = parseInt(req.params.id);
-    if (isNaN(reminderId)) {
-      return res.status(400).json({ message: "Invalid reminder ID" });
-    }
-    
-    const success = await storage.deleteReminder(reminderId);
-    if (!success) {
-      return res.status(404).json({ message: "Reminder not found" });
-    }
-    
-    res.status(204).send();
-  });
-  
-  apiRouter.post("/api/reminders/:id/complete", isAuthenticated, async (req, res) => {
-    const reminderId = parseInt(req.params.id);
-    if (isNaN(reminderId)) {
-      return res.status(400).json({ message: "Invalid reminder ID" });
-    }
-    
-    const updatedReminder = await storage.markReminderComplete(reminderId);
-    if (!updatedReminder) {
-      return res.status(404).json({ message: "Reminder not found" });
-    }
-    
-    res.json(updatedReminder);
-  });
-  
-  apiRouter.post("/api/reminders/:id/dismiss", isAuthenticated, async (req, res) => {
-    const reminderId = parseInt(req.params.id);
-    if (isNaN(reminderId)) {
-      return res.status(400).json({ message: "Invalid reminder ID" });
-    }
-    
-    const updatedReminder = await storage.markReminderDismissed(reminderId);
-    if (!updatedReminder) {
-      return res.status(404).json({ message: "Reminder not found" });
-    }
-    
-    res.json(updatedReminder);
-  });
-
   // Plant identification route
   apiRouter.post("/api/identify-plant", isAuthenticated, async (req, res) => {
     try {
@@ -945,6 +378,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Process with OpenAI
       const result = await diagnosePlantHealth(imageBase64);
+      await emitDiagnosisCompleted(req.user!.id, { ...result });
       
       // Return diagnosis results
       res.json(result);
@@ -971,8 +405,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(404).json({ message: "Plant not found" });
     }
     
-    // Ensure the plant belongs to the authenticated user
-    if (plant.userId !== req.user!.id) {
+    // Ensure the authenticated user can log care for the plant
+    if (!(await canAccessPlant(plant, req.user!.id, "care"))) {
       return res.status(403).json({ message: "You don't have permission to access this plant" });
     }
     
@@ -1028,7 +462,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         plantId,
         careType: 'health_check',
         notes: 'Sample health check with diagnosis data for demonstration',
-        metadata: JSON.stringify({ healthDiagnosis })
+        performedBy: req.user!.id,
+        metadata: { careType: 'health_check', version: CARE_LOG_METADATA_VERSION, healthDiagnosis }
       });
       
       res.status(201).json({
@@ -1060,7 +495,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!plant) {
         return res.status(404).json({ message: "Plant not found" });
       }
-      if (plant.userId !== req.user!.id) {
+      if (!(await canAccessPlant(plant, req.user!.id, "view"))) {
         return res.status(403).json({ message: "You don't have permission to access this plant" });
       }
 
@@ -1083,8 +518,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Get personalized advice from OpenAI
       const advice = await getPersonalizedPlantAdvice(plant, careLogs, userEnvironment);
+      const report = await saveAiReport({
+        userId: req.user!.id,
+        feature: "personalized_advice",
+        plantIds: [plantId],
+        input: userEnvironment,
+        result: advice,
+      });
 
-      res.json(advice);
+      res.json({ ...advice, reportId: report.id });
     } catch (error: any) {
       logger.error("Error getting personalized plant advice:", error);
       res.status(500).json({
@@ -1120,8 +562,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         validation.data.location,
         validation.data.season
       );
+      const report = await saveAiReport({
+        userId,
+        feature: "seasonal_care",
+        plantIds: plants.map((plant: Plant) => plant.id),
+        input: validation.data,
+        result: recommendations,
+      });
 
-      res.json(recommendations);
+      res.json({ ...recommendations, reportId: report.id });
     } catch (error: any) {
       logger.error("Error getting seasonal care recommendations:", error);
       res.status(500).json({
@@ -1171,8 +620,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         validation.data.spaceType,
         validation.data.spaceSize
       );
+      const report = await saveAiReport({
+        userId,
+        feature: "arrangement",
+        plantIds: plantsToArrange.map((plant: Plant) => plant.id),
+        input: validation.data,
+        result: suggestions,
+      });
 
-      res.json(suggestions);
+      res.json({ ...suggestions, reportId: report.id });
     } catch (error: any) {
       logger.error("Error getting plant arrangement suggestions:", error);
       res.status(500).json({
@@ -1203,7 +659,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!plant) {
         return res.status(404).json({ message: "Plant not found" });
       }
-      if (plant.userId !== req.user!.id) {
+      if (!(await canAccessPlant(plant, req.user!.id, "care"))) {
         return res.status(403).json({ message: "You don't have permission to access this plant" });
       }
 
@@ -1224,6 +680,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Generate enhanced journal entry with care history
       const journalEntry = await generateJournalEntry(careLog, plant, pastCareHistory);
+      await storage.setCareLogJournalText(careLogId, journalEntryToText(journalEntry));
 
       res.json(journalEntry);
     } catch (error: any) {
@@ -1248,22 +705,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!plant) {
         return res.status(404).json({ message: "Plant not found" });
       }
-      if (plant.userId !== req.user!.id) {
+      if (!(await canAccessPlant(plant, req.user!.id, "view"))) {
         return res.status(403).json({ message: "You don't have permission to access this plant" });
       }
 
-      // Schema for request validation
+      // Schema for request validation. Without imageHistory the plant's own
+      // care log photos and measurements are used.
       const growthSchema = z.object({
-        imageHistory: z.array(z.string()).min(2)
+        imageHistory: z.array(z.string()).min(2).optional()
       });
 
       const validation = validateRequest(growthSchema, req, res);
       if (!validation.success) return;
 
       // Analyze growth progression
-      const analysis = await analyzeGrowthProgression(validation.data.imageHistory, plant);
+      const imageHistory: string[] | undefined = validation.data.imageHistory;
+      const outcome = await analyzePlantGrowth(plant, imageHistory);
+      if (outcome.status === "not_enough_photos") {
+        return res.status(400).json({ message: "At least 2 photos are required for growth analysis. Add photos when you log care." });
+      }
+      const { analysis, imageCount, careLogIds } = outcome;
+      // The photos are too large to keep with the report, but are part of its input hash
+      const report = await saveAiReport({
+        userId: req.user!.id,
+        feature: "growth_analysis",
+        plantIds: [plantId],
+        input: { imageCount, careLogIds },
+        hashInput: imageHistory ? validation.data : undefined,
+        result: analysis,
+      });
 
-      res.json(analysis);
+      res.json({ ...analysis, reportId: report.id });
     } catch (error: any) {
       logger.error("Error analyzing growth progression:", error);
       res.status(500).json({
@@ -1334,8 +806,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Get optimized care schedule
       const schedule = await generateOptimizedCareSchedule(plants, validation.data);
+      const report = await saveAiReport({
+        userId,
+        feature: "care_schedule",
+        plantIds: plants.map((plant: Plant) => plant.id),
+        input: validation.data,
+        result: schedule,
+      });
 
-      res.json(schedule);
+      res.json({ ...schedule, reportId: report.id });
     } catch (error: any) {
       logger.error("Error generating optimized care schedule:", error);
       res.status(500).json({
@@ -1446,7 +925,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const tip = await storage.getCommunityTip(tipId);
-      if (!tip) {
+      // Hidden and removed tips are only visible to moderators
+      if (!tip || (tip.status !== "active" && !hasRole(req.user, "moderator"))) {
         return res.status(404).json({ message: "Community tip not found" });
       }
       
@@ -1493,7 +973,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Update a community tip (only by the original author or admin)
+  // Update a community tip (only by the original author or a moderator)
   apiRouter.put("/api/community-tips/:id", isAuthenticated, async (req, res) => {
     try {
       const tipId = parseInt(req.params.id);
@@ -1507,9 +987,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Community tip not found" });
       }
       
-      // Only allow the original author or admins to update the tip
-      // For now, we'll assume user ID 1 is an admin
-      if (existingTip.userId !== req.user!.id && req.user!.id !== 1) {
+      // Only allow the original author or moderators to update the tip
+      if (existingTip.userId !== req.user!.id && !hasRole(req.user, "moderator")) {
         return res.status(403).json({ message: "You don't have permission to update this tip" });
       }
       
@@ -1531,7 +1010,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Delete a community tip (only by the original author or admin)
+  // Delete a community tip (only by the original author or a moderator)
   apiRouter.delete("/api/community-tips/:id", isAuthenticated, async (req, res) => {
     try {
       const tipId = parseInt(req.params.id);
@@ -1545,9 +1024,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Community tip not found" });
       }
       
-      // Only allow the original author or admins to delete the tip
-      // For now, we'll assume user ID 1 is an admin
-      if (existingTip.userId !== req.user!.id && req.user!.id !== 1) {
+      // Only allow the original author or moderators to delete the tip
+      if (existingTip.userId !== req.user!.id && !hasRole(req.user, "moderator")) {
         return res.status(403).json({ message: "You don't have permission to delete this tip" });
       }
       
@@ -1621,50 +1099,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(CARE_CATEGORIES);
   });
   
-  // Debug endpoint to create a community tip without authentication
-  apiRouter.post("/api/debug/community-tips", async (req, res) => {
-    try {
-      logger.info("Debug community tip creation request:", req.body);
-      
-      // Validate request data
-      const validation = validateRequest(insertCommunityTipSchema, req, res);
-      if (!validation.success) return;
-      
-      // Set user ID to 1 (Zach) for debugging
-      const tipData: InsertCommunityTip = {
-        ...validation.data,
-        userId: 1
-      };
-      
-      // Create the community tip
-      const tip = await storage.createCommunityTip(tipData);
-      res.status(201).json(tip);
-    } catch (error: any) {
-      logger.error("Error in debug community tip creation:", error);
-      res.status(500).json({
-        message: "Failed to create community tip",
-        error: error instanceof Error ? error.message : String(error)
-      });
-    }
-  });
-  
-  // Admin-only routes for community tip moderation
+  // Moderator routes for community tips; kept for existing clients, see /api/moderation for the full workflow
   
-  // Feature/unfeature a community tip (admin only)
-  apiRouter.post("/api/admin/community-tips/:id/feature", isAuthenticated, async (req, res) => {
+  // Feature/unfeature a community tip (moderators)
+  apiRouter.post("/api/admin/community-tips/:id/feature", requireRole("moderator"), async (req, res) => {
     try {
-      // For now, we'll assume user ID 1 is an admin
-      if (req.user!.id !== 1) {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-      
       const tipId = parseInt(req.params.id);
       if (isNaN(tipId)) {
         return res.status(400).json({ message: "Invalid tip ID" });
       }
       
       const featured = req.body.featured === true;
-      const success = await storage.featureCommunityTip(tipId, featured);
+      const success = await moderateTip(req.user!.id, tipId, { action: featured ? "feature" : "unfeature" });
       
       if (!success) {
         return res.status(404).json({ message: "Community tip not found" });
@@ -1680,14 +1126,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Update tip status (active, reported, removed) (admin only)
-  apiRouter.post("/api/admin/community-tips/:id/status", isAuthenticated, async (req, res) => {
+  // Update tip status (active, reported, removed) (moderators)
+  apiRouter.post("/api/admin/community-tips/:id/status", requireRole("moderator"), async (req, res) => {
     try {
-      // For now, we'll assume user ID 1 is an admin
-      if (req.user!.id !== 1) {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-      
       const tipId = parseInt(req.params.id);
       if (isNaN(tipId)) {
         return res.status(400).json({ message: "Invalid tip ID" });
@@ -1695,11 +1136,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Validate status value
       const { status } = req.body;
-      if (!status || !['active', 'reported', 'removed'].includes(status)) {
+      if (!TIP_STATUSES.includes(status)) {
         return res.status(400).json({ message: "Invalid status value" });
       }
       
-      const success = await storage.updateTipStatus(tipId, status);
+      const success = await moderateTip(req.user!.id, tipId, { action: actionForStatus(status) });
       
       if (!success) {
         return res.status(404).json({ message: "Community tip not found" });
@@ -0,0 +1,153 @@
+import { Express, Request, Response } from 'express';
+import { asyncHandler } from '../utils/errorHandler';
+import { isAuthenticated } from '../auth';
+import { storage } from '../storage';
+import { createReminderFromAction, withActions } from '../services/aiReports';
+import { applySchedule, previewSchedule, rollbackSchedule } from '../services/careSchedule';
+import { AI_REPORT_FEATURES, applyScheduleSchema, type AiReportFeature } from '@shared/schema';
+
+// The history lists at most this many reports
+const MAX_REPORTS = 50;
+
+function parseId(value: string): number | null {
+  const id = parseInt(value, 10);
+  return isNaN(id) ? null : id;
+}
+
+function isFeature(value: unknown): value is AiReportFeature {
+  return typeof value === 'string' && (AI_REPORT_FEATURES as readonly string[]).includes(value);
+}
+
+// Saved results of the AI tools, so they can be re-opened, compared and acted on later
+export function setupAiReportRoutes(app: Express) {
+  // The user's reports, newest first, optionally about one plant (?plantId=) or from one tool (?feature=)
+  app.get('/api/ai-reports', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const filters: { plantId?: number; feature?: AiReportFeature } = {};
+    if (req.query.plantId !== undefined) {
+      const plantId = parseId(String(req.query.plantId));
+      if (plantId === null) {
+        return res.status(400).json({ message: 'Invalid plant ID' });
+      }
+      filters.plantId = plantId;
+    }
+    if (req.query.feature !== undefined) {
+      if (!isFeature(req.query.feature)) {
+        return res.status(400).json({ message: `Feature must be one of ${AI_REPORT_FEATURES.join(', ')}` });
+      }
+      filters.feature = req.query.feature;
+    }
+
+    const reports = await storage.getAiReports(req.user!.id, filters, MAX_REPORTS);
+    return res.json(reports.map(withActions));
+  }));
+
+  app.get('/api/ai-reports/:id', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const reportId = parseId(req.params.id);
+    if (reportId === null) {
+      return res.status(400).json({ message: 'Invalid report ID' });
+    }
+
+    const report = await storage.getAiReport(reportId);
+    if (!report || report.userId !== req.user!.id) {
+      return res.status(404).json({ message: 'Report not found' });
+    }
+    return res.json(withActions(report));
+  }));
+
+  app.delete('/api/ai-reports/:id', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const reportId = parseId(req.params.id);
+    if (reportId === null) {
+      return res.status(400).json({ message: 'Invalid report ID' });
+    }
+
+    const deleted = await storage.deleteAiReport(reportId, req.user!.id);
+    if (!deleted) {
+      return res.status(404).json({ message: 'Report not found' });
+    }
+    return res.status(204).send();
+  }));
+
+  // Turn one of the report's action items into a reminder on its plant
+  app.post('/api/ai-reports/:id/actions/:actionId/reminder', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const reportId = parseId(req.params.id);
+    if (reportId === null) {
+      return res.status(400).json({ message: 'Invalid report ID' });
+    }
+
+    const outcome = await createReminderFromAction(reportId, req.params.actionId, req.user!.id);
+    switch (outcome.status) {
+      case 'not_found':
+        return res.status(404).json({ message: 'Report action not found' });
+      case 'forbidden':
+        return res.status(403).json({ message: "You don't have permission to care for this plant" });
+      case 'conflict':
+        return res.status(409).json({ message: 'A reminder was already created for this action', reminderId: outcome.reminderId });
+      case 'ok':
+        return res.status(201).json({ reminder: outcome.reminder, report: outcome.report });
+    }
+  }));
+
+  // What applying a care schedule report would change in the user's reminders
+  app.get('/api/ai-reports/:id/schedule', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const reportId = parseId(req.params.id);
+    if (reportId === null) {
+      return res.status(400).json({ message: 'Invalid report ID' });
+    }
+
+    const outcome = await previewSchedule(reportId, req.user!.id);
+    switch (outcome.status) {
+      case 'not_found':
+        return res.status(404).json({ message: 'Report not found' });
+      case 'invalid':
+        return res.status(400).json({ message: outcome.message });
+      case 'ok':
+        return res.json(outcome.preview);
+    }
+  }));
+
+  // Apply the chosen changes from the preview, all together
+  app.post('/api/ai-reports/:id/schedule', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const reportId = parseId(req.params.id);
+    if (reportId === null) {
+      return res.status(400).json({ message: 'Invalid report ID' });
+    }
+    const result = applyScheduleSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid schedule changes', errors: result.error });
+    }
+
+    const outcome = await applySchedule(reportId, req.user!.id, result.data.changeIds);
+    switch (outcome.status) {
+      case 'not_found':
+        return res.status(404).json({ message: 'Report not found' });
+      case 'invalid':
+        return res.status(400).json({ message: outcome.message });
+      case 'conflict':
+        return res.status(409).json({ message: outcome.message });
+      case 'ok':
+        return res.status(201).json(outcome.application);
+    }
+  }));
+
+  // The schedule application that would be undone by a rollback, or null
+  app.get('/api/schedule-applications/latest', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    return res.json((await storage.getLatestScheduleApplication(req.user!.id)) ?? null);
+  }));
+
+  app.post('/api/schedule-applications/:id/rollback', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const applicationId = parseId(req.params.id);
+    if (applicationId === null) {
+      return res.status(400).json({ message: 'Invalid schedule application ID' });
+    }
+
+    const outcome = await rollbackSchedule(applicationId, req.user!.id);
+    switch (outcome.status) {
+      case 'not_found':
+        return res.status(404).json({ message: 'Schedule application not found' });
+      case 'conflict':
+        return res.status(409).json({ message: outcome.message });
+      case 'ok':
+        return res.json({ application: outcome.application, kept: outcome.kept });
+    }
+  }));
+}
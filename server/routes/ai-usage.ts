@@ -0,0 +1,38 @@
+import { Express, Request, Response } from 'express';
+import { asyncHandler } from '../utils/errorHandler';
+import { isAuthenticated, requireRole } from '../auth';
+import { storage } from '../storage';
+import { getQuotaStatus } from '../services/aiGateway';
+
+const MAX_REPORT_DAYS = 90;
+const TOP_USERS = 20;
+
+export function setupAiUsageRoutes(app: Express) {
+  // The current user's AI requests today and their daily limit
+  app.get('/api/ai/usage', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const quota = await getQuotaStatus(req.user!.id);
+    return res.json(quota);
+  }));
+
+  // Admin-only: tokens and estimated cost per feature and per user
+  app.get('/api/admin/ai-usage', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
+    const days = Math.min(Math.max(parseInt(String(req.query.days ?? '7'), 10) || 7, 1), MAX_REPORT_DAYS);
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const [byFeature, byUser] = await Promise.all([
+      storage.getAiUsageByFeature(since),
+      storage.getAiUsageByUser(since, TOP_USERS),
+    ]);
+
+    const totals = byFeature.reduce((sum, row) => ({
+      requests: sum.requests + row.requests,
+      cachedRequests: sum.cachedRequests + row.cachedRequests,
+      failedRequests: sum.failedRequests + row.failedRequests,
+      promptTokens: sum.promptTokens + row.promptTokens,
+      completionTokens: sum.completionTokens + row.completionTokens,
+      estimatedCost: sum.estimatedCost + row.estimatedCost,
+    }), { requests: 0, cachedRequests: 0, failedRequests: 0, promptTokens: 0, completionTokens: 0, estimatedCost: 0 });
+
+    return res.json({ days, since, totals, byFeature, byUser });
+  }));
+}
@@ -0,0 +1,62 @@
+import { Express, Request, Response } from 'express';
+import rateLimit from 'express-rate-limit';
+import { asyncHandler } from '../utils/errorHandler';
+import { isAuthenticated } from '../auth';
+import { storage } from '../storage';
+import { createApiToken } from '../services/apiTokens';
+import { createApiTokenSchema } from '@shared/schema';
+
+// Users can't have more than this many unrevoked tokens
+const MAX_TOKENS_PER_USER = 25;
+
+const createTokenLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  max: 20,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { message: 'Too many access tokens created, please try again later' },
+});
+
+function parseId(value: string): number | null {
+  const id = parseInt(value, 10);
+  return isNaN(id) ? null : id;
+}
+
+// Personal access tokens are managed with the session only; a token can't create or revoke tokens
+export function setupApiTokenRoutes(app: Express) {
+  app.get('/api/tokens', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    return res.json(await storage.getApiTokens(req.user!.id));
+  }));
+
+  // Create a token; the token itself is in the response and can't be retrieved again
+  app.post('/api/tokens', isAuthenticated, createTokenLimiter, asyncHandler(async (req: Request, res: Response) => {
+    const result = createApiTokenSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid access token', errors: result.error });
+    }
+
+    const existing = await storage.getApiTokens(req.user!.id);
+    if (existing.length >= MAX_TOKENS_PER_USER) {
+      return res.status(400).json({ message: `You can have up to ${MAX_TOKENS_PER_USER} access tokens; revoke one first` });
+    }
+
+    const { apiToken, token } = await createApiToken(req.user!.id, {
+      ...result.data,
+      scopes: Array.from(new Set(result.data.scopes)),
+    });
+    return res.status(201).json({ ...apiToken, token });
+  }));
+
+  app.delete('/api/tokens/:id', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const tokenId = parseId(req.params.id);
+    if (tokenId === null) {
+      return res.status(400).json({ message: 'Invalid token ID' });
+    }
+
+    const revoked = await storage.revokeApiToken(tokenId, req.user!.id);
+    if (!revoked) {
+      return res.status(404).json({ message: 'Access token not found' });
+    }
+    return res.status(204).send();
+  }));
+}
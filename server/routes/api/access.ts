@@ -0,0 +1,87 @@
+import { Request, Response, NextFunction } from "express";
+import { type ApiToken, type ApiTokenScope, type Plant } from "@shared/schema";
+import { storage } from "../../storage";
+import { authenticateApiToken, hasScope } from "../../services/apiTokens";
+import { apiError } from "../../utils/errorHandler";
+import { canAccessPlant, type PlantAccess } from "../../services/gardenAccess";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set when the request was authenticated with a personal access token
+      apiToken?: ApiToken;
+    }
+  }
+}
+
+/**
+ * Lets /api/v1 requests authenticate with "Authorization: Bearer <token>"
+ * instead of the session cookie. Token requests carry no cookie, so they
+ * don't need a CSRF token either.
+ */
+export async function authenticateApiRequest(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers.authorization;
+  if (!header?.startsWith("Bearer ")) {
+    return next();
+  }
+
+  const result = await authenticateApiToken(header.slice("Bearer ".length).trim());
+  if (!result) {
+    return apiError(res, { status: 401, message: "Invalid, expired or revoked access token" });
+  }
+
+  req.user = result.user;
+  req.apiToken = result.apiToken;
+  next();
+}
+
+/**
+ * Only lets through signed-in users, and requests whose access token has the
+ * given scope. Session requests have every scope.
+ */
+export function requireScope(scope: ApiTokenScope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return apiError(res, { status: 401, message: "Authentication required" });
+    }
+    if (req.apiToken && !hasScope(req.apiToken, scope)) {
+      return apiError(res, {
+        status: 403,
+        message: `This access token is missing the ${scope} scope`,
+        details: { requiredScope: scope },
+      });
+    }
+    next();
+  };
+}
+
+/**
+ * Middleware factory checking that the authenticated user has the given access
+ * to the plant - as its owner, or through their role in the plant's garden.
+ * It also attaches the plant object to the request to avoid re-fetching.
+ */
+export const requirePlantAccess = (access: PlantAccess) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    const plantId = parseInt(req.params.id, 10);
+    if (isNaN(plantId)) {
+      return apiError(res, { status: 400, message: "Invalid plant ID" });
+    }
+
+    const plant = await storage.getPlant(plantId);
+    if (!plant) {
+      return apiError(res, { status: 404, message: "Plant not found" });
+    }
+
+    if (!(await canAccessPlant(plant, req.user!.id, access))) {
+      return apiError(res, { status: 403, message: "You don't have permission to access this plant" });
+    }
+
+    // Keep the plant for the handlers that follow, to avoid re-fetching it
+    res.locals.plant = plant;
+    next();
+  };
+
+// The plant loaded by requirePlantAccess
+export function getPlant(res: Response): Plant {
+  return res.locals.plant;
+}
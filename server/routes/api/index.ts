@@ -0,0 +1,51 @@
+import { Express, Router } from "express";
+import rateLimit from "express-rate-limit";
+import { apiError, globalErrorHandler } from "../../utils/errorHandler";
+import { buildOpenApiDocument } from "../../services/openapi";
+import { authenticateApiRequest } from "./access";
+import { plantsRouter } from "./plants";
+import { careLogRouter } from "./careLogs";
+import { remindersRouter } from "./reminders";
+import { profileRouter } from "./profile";
+
+// Per client IP, on top of what each token is allowed to do
+const apiV1Limiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 120,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: {
+    error: "Too Many Requests",
+    message: "Too many API requests, please slow down",
+    code: "QUOTA_EXCEEDED",
+  },
+});
+
+/**
+ * Mounts the plant, care log and reminder routes twice: under /api for the web
+ * app's session, and under the versioned /api/v1, which also takes personal
+ * access tokens and documents itself at /api/v1/openapi.json. Both answer
+ * errors with the envelope from utils/errorHandler.ts.
+ */
+export function setupApiRoutes(app: Express) {
+  const resources = Router();
+  resources.use("/plants", plantsRouter);
+  resources.use("/care-logs", careLogRouter);
+  resources.use("/reminders", remindersRouter);
+
+  app.use("/api", resources);
+
+  const v1 = Router();
+  v1.get("/openapi.json", (req, res) => {
+    res.json(buildOpenApiDocument());
+  });
+  v1.use(apiV1Limiter, authenticateApiRequest);
+  v1.use(resources);
+  v1.use("/profile", profileRouter);
+  v1.use((req, res) => {
+    apiError(res, { status: 404, message: `No such endpoint: ${req.method} ${req.baseUrl}${req.path}` });
+  });
+  v1.use(globalErrorHandler);
+
+  app.use("/api/v1", v1);
+}
@@ -0,0 +1,142 @@
+import { Router, Request, Response } from "express";
+import { storage } from "../../storage";
+import { insertReminderSchema, snoozeReminderSchema, type Reminder } from "@shared/schema";
+import { validateRequest } from "../../utils/requestValidator";
+import { apiError } from "../../utils/errorHandler";
+import { requireScope } from "./access";
+import { canAccessPlant, canAccessReminder, isEligibleAssignee } from "../../services/gardenAccess";
+import { closeReminder, snoozeReminder } from "../../services/reminderEngine";
+
+export const remindersRouter = Router();
+
+// Loads the reminder in :id if the user can care for its plant, answering the request if not
+async function loadReminder(req: Request, res: Response): Promise<Reminder | null> {
+  const reminderId = parseInt(req.params.id, 10);
+  if (isNaN(reminderId)) {
+    apiError(res, { status: 400, message: "Invalid reminder ID" });
+    return null;
+  }
+
+  const reminder = await storage.getReminder(reminderId);
+  if (!reminder || !(await canAccessReminder(reminder, req.user!.id, "care"))) {
+    apiError(res, { status: 404, message: "Reminder not found" });
+    return null;
+  }
+  return reminder;
+}
+
+// GET /reminders - All of the user's reminders
+remindersRouter.get("/", requireScope("reminders:read"), async (req, res) => {
+  const reminders = await storage.getReminders(req.user!.id);
+  res.json(reminders);
+});
+
+// GET /reminders/upcoming/:days - Reminders due in the next few days
+remindersRouter.get("/upcoming/:days", requireScope("reminders:read"), async (req, res) => {
+  const days = parseInt(req.params.days, 10);
+  if (isNaN(days)) {
+    return apiError(res, { status: 400, message: "Invalid days parameter" });
+  }
+
+  const reminders = await storage.getUpcomingReminders(req.user!.id, days);
+  res.json(reminders);
+});
+
+// GET /reminders/overdue - Pending reminders that are past due
+remindersRouter.get("/overdue", requireScope("reminders:read"), async (req, res) => {
+  const reminders = await storage.getOverdueReminders(req.user!.id);
+  res.json(reminders);
+});
+
+// POST /reminders - Create a reminder for a plant the user can care for
+remindersRouter.post("/", requireScope("reminders:write"), async (req, res) => {
+  const validation = validateRequest(insertReminderSchema, req, res);
+  if (!validation.success) return;
+
+  const reminderData = {
+    ...validation.data,
+    userId: req.user!.id,
+    message: validation.data.message || `Reminder for ${validation.data.title}`,
+  };
+
+  const plant = await storage.getPlant(reminderData.plantId);
+  if (!plant) {
+    return apiError(res, { status: 404, message: "Plant not found" });
+  }
+  if (!(await canAccessPlant(plant, req.user!.id, "care"))) {
+    return apiError(res, { status: 403, message: "You don't have permission to add reminders for this plant" });
+  }
+  if (reminderData.assignedTo && !(await isEligibleAssignee(plant, reminderData.assignedTo))) {
+    return apiError(res, { status: 400, message: "Reminders can only be assigned to caretakers of this plant" });
+  }
+
+  const reminder = await storage.createReminder(reminderData);
+  res.status(201).json(reminder);
+});
+
+// PATCH /reminders/:id - Update or reassign a reminder
+remindersRouter.patch("/:id", requireScope("reminders:write"), async (req, res) => {
+  const validation = validateRequest(insertReminderSchema.partial(), req, res);
+  if (!validation.success) return;
+
+  const reminder = await loadReminder(req, res);
+  if (!reminder) return;
+
+  // Reminders can't be moved to another plant or creator, only reassigned
+  const { plantId, userId, ...reminderUpdate } = validation.data as Record<string, any>;
+  if (reminderUpdate.assignedTo) {
+    const plant = await storage.getPlant(reminder.plantId);
+    if (!plant || !(await isEligibleAssignee(plant, reminderUpdate.assignedTo))) {
+      return apiError(res, { status: 400, message: "Reminders can only be assigned to caretakers of this plant" });
+    }
+  }
+
+  const updatedReminder = await storage.updateReminder(reminder.id, reminderUpdate);
+  if (!updatedReminder) {
+    return apiError(res, { status: 404, message: "Reminder not found" });
+  }
+  res.json(updatedReminder);
+});
+
+// DELETE /reminders/:id
+remindersRouter.delete("/:id", requireScope("reminders:write"), async (req, res) => {
+  const reminder = await loadReminder(req, res);
+  if (!reminder) return;
+
+  const success = await storage.deleteReminder(reminder.id);
+  if (!success) {
+    return apiError(res, { status: 404, message: "Reminder not found" });
+  }
+  res.status(204).send();
+});
+
+// POST /reminders/:id/complete and /dismiss - Close a reminder; recurring
+// reminders get their next occurrence generated
+for (const action of ["complete", "dismiss"] as const) {
+  remindersRouter.post(`/:id/${action}`, requireScope("reminders:write"), async (req, res) => {
+    const reminder = await loadReminder(req, res);
+    if (!reminder) return;
+
+    const result = await closeReminder(reminder, action === "complete" ? "completed" : "dismissed");
+    if (!result) {
+      return apiError(res, { status: 409, message: "Reminder is not pending" });
+    }
+    res.json({ ...result.reminder, nextReminder: result.next });
+  });
+}
+
+// POST /reminders/:id/snooze - Push a pending reminder back by days or hours, or until a date
+remindersRouter.post("/:id/snooze", requireScope("reminders:write"), async (req, res) => {
+  const validation = validateRequest(snoozeReminderSchema, req, res);
+  if (!validation.success) return;
+
+  const reminder = await loadReminder(req, res);
+  if (!reminder) return;
+
+  if (reminder.status !== "pending") {
+    return apiError(res, { status: 409, message: "Only pending reminders can be snoozed" });
+  }
+
+  const updatedReminder = await snoozeReminder(reminder, validation.data);
+  res.json(updatedReminder);
+});
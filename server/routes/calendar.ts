@@ -0,0 +1,67 @@
+import { Express, Request, Response } from 'express';
+import { asyncHandler } from '../utils/errorHandler';
+import { isAuthenticated } from '../auth';
+import { storage } from '../storage';
+import { buildCalendarFeed } from '../services/icalFeed';
+import { type CalendarFeed } from '@shared/schema';
+import * as logger from '../services/logger';
+
+// Absolute subscription URL for a feed token
+function feedUrl(req: Request, feed: CalendarFeed): string {
+  return `${req.protocol}://${req.get('host')}/api/calendar/${feed.token}.ics`;
+}
+
+export function setupCalendarRoutes(app: Express) {
+  // Public feed - the secret token in the URL is the only credential,
+  // since calendar apps can't send our session cookie
+  app.get('/api/calendar/:file', asyncHandler(async (req: Request, res: Response) => {
+    const token = req.params.file.replace(/\.ics$/, '');
+
+    const feed = await storage.getCalendarFeedByToken(token);
+    if (!feed) {
+      return res.status(404).json({ message: 'Calendar feed not found' });
+    }
+
+    const user = await storage.getUser(feed.userId);
+    if (!user) {
+      return res.status(404).json({ message: 'Calendar feed not found' });
+    }
+
+    const [reminders, plants] = await Promise.all([
+      storage.getReminders(user.id),
+      storage.getPlants(user.id),
+    ]);
+
+    // Don't fail the feed if we can't record the access
+    storage.updateCalendarFeedLastAccessed(feed.id).catch(error =>
+      logger.error('Error updating calendar feed access time:', error)
+    );
+
+    res.set('Content-Type', 'text/calendar; charset=utf-8');
+    res.set('Content-Disposition', 'inline; filename="plant-care.ics"');
+    res.set('Cache-Control', 'private, max-age=900');
+    return res.send(buildCalendarFeed(user, reminders, plants));
+  }));
+
+  // Get the current user's feed URL (null if they haven't created one)
+  app.get('/api/calendar-feed', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const feed = await storage.getCalendarFeed(req.user!.id);
+    if (!feed) {
+      return res.json({ url: null });
+    }
+    return res.json({ url: feedUrl(req, feed), createdAt: feed.createdAt, lastAccessed: feed.lastAccessed });
+  }));
+
+  // Create the feed, or replace its token so the old URL stops working
+  app.post('/api/calendar-feed/rotate', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const feed = await storage.rotateCalendarFeed(req.user!.id);
+    logger.info(`Rotated calendar feed token for user ${req.user!.id}`);
+    return res.status(201).json({ url: feedUrl(req, feed), createdAt: feed.createdAt, lastAccessed: feed.lastAccessed });
+  }));
+
+  // Revoke the feed entirely
+  app.delete('/api/calendar-feed', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    await storage.deleteCalendarFeed(req.user!.id);
+    return res.status(204).send();
+  }));
+}
@@ -0,0 +1,88 @@
+import { Express, Request, Response } from 'express';
+import { asyncHandler } from '../utils/errorHandler';
+import { isAuthenticated } from '../auth';
+import { createComment, deleteComment, editComment, listComments, type CommentOutcome } from '../services/comments';
+import { COMMENT_TARGETS, createCommentSchema, updateCommentSchema, type CommentTarget } from '@shared/schema';
+
+// The share link a plant or care log was opened from (?shareId=), if any
+function queryShareId(req: Request): string | undefined {
+  return typeof req.query.shareId === 'string' && req.query.shareId !== '' ? req.query.shareId : undefined;
+}
+
+function sendOutcome(res: Response, outcome: CommentOutcome, successStatus = 200) {
+  switch (outcome.status) {
+    case 'not_found':
+      return res.status(404).json({ message: 'Comment not found' });
+    case 'forbidden':
+      return res.status(403).json({ message: outcome.message });
+    case 'invalid':
+      return res.status(400).json({ message: outcome.message });
+    case 'ok':
+      return res.status(successStatus).json(outcome.comment);
+  }
+}
+
+export function setupCommentRoutes(app: Express) {
+  // Comment threads on a tip, plant or care log (?targetType=&targetId=); public targets can be read signed out.
+  // Plants and care logs seen through a share link also need its ?shareId=
+  app.get('/api/comments', asyncHandler(async (req: Request, res: Response) => {
+    const targetType = String(req.query.targetType ?? '') as CommentTarget;
+    const targetId = parseInt(String(req.query.targetId ?? ''), 10);
+    if (!COMMENT_TARGETS.includes(targetType) || isNaN(targetId)) {
+      return res.status(400).json({ message: 'A valid targetType and targetId are required' });
+    }
+
+    const viewer = req.isAuthenticated() ? req.user : undefined;
+    const threads = await listComments(targetType, targetId, viewer, queryShareId(req));
+    if (!threads) {
+      return res.status(404).json({ message: 'Nothing to comment on here' });
+    }
+    return res.json(threads);
+  }));
+
+  // Post a comment or a reply; @username mentions notify those users
+  app.post('/api/comments', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const result = createCommentSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid comment', errors: result.error });
+    }
+
+    const outcome = await createComment(req.user!, result.data);
+    if (outcome.status === 'not_found') {
+      return res.status(404).json({ message: 'Nothing to comment on here' });
+    }
+    return sendOutcome(res, outcome, 201);
+  }));
+
+  // Edit your own comment, within the edit window
+  app.patch('/api/comments/:id', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const commentId = parseInt(req.params.id, 10);
+    if (isNaN(commentId)) {
+      return res.status(400).json({ message: 'Invalid comment ID' });
+    }
+
+    const result = updateCommentSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid comment', errors: result.error });
+    }
+
+    return sendOutcome(res, await editComment(req.user!, commentId, result.data.content, result.data.shareId));
+  }));
+
+  // Delete a comment: its author within the delete window, or the owner of what was commented on, or a moderator
+  app.delete('/api/comments/:id', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const commentId = parseInt(req.params.id, 10);
+    if (isNaN(commentId)) {
+      return res.status(400).json({ message: 'Invalid comment ID' });
+    }
+
+    const outcome = await deleteComment(req.user!, commentId, queryShareId(req));
+    if (outcome.status === 'not_found') {
+      return res.status(404).json({ message: 'Comment not found' });
+    }
+    if (outcome.status === 'forbidden') {
+      return res.status(403).json({ message: outcome.message });
+    }
+    return res.status(204).send();
+  }));
+}
@@ -0,0 +1,65 @@
+import express, { Express, Request, Response } from 'express';
+import { asyncHandler } from '../utils/errorHandler';
+import { isAuthenticated } from '../auth';
+import {
+  buildGardenExport,
+  buildGardenExportZip,
+  readGardenExportZip,
+  plantsFromCsv,
+  importGarden,
+  EXPORT_VERSION,
+} from '../services/gardenExport';
+import * as logger from '../services/logger';
+
+// ZIP and CSV uploads arrive as raw bodies; JSON is already parsed by the global middleware
+const rawUpload = express.raw({
+  type: ['application/zip', 'application/x-zip-compressed', 'application/octet-stream', 'text/csv'],
+  limit: '100mb',
+});
+
+export function setupExportRoutes(app: Express) {
+  // Download everything for the current user as JSON (default) or a ZIP with CSVs and photos
+  app.get('/api/export', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const format = req.query.format === 'zip' ? 'zip' : 'json';
+    const data = await buildGardenExport(req.user!.id);
+    const date = new Date().toISOString().split('T')[0];
+
+    if (format === 'zip') {
+      const archive = await buildGardenExportZip(data);
+      res.set('Content-Type', 'application/zip');
+      res.set('Content-Disposition', `attachment; filename="garden-export-${date}.zip"`);
+      return res.send(archive);
+    }
+
+    res.set('Content-Disposition', `attachment; filename="garden-export-${date}.json"`);
+    return res.json(data);
+  }));
+
+  // Import a JSON export, a ZIP export, or a CSV of plants (?dryRun=true to only validate)
+  app.post('/api/import', isAuthenticated, rawUpload, asyncHandler(async (req: Request, res: Response) => {
+    const dryRun = req.query.dryRun === 'true';
+    const contentType = req.get('content-type') || '';
+
+    let document: unknown;
+    let files: Map<string, Buffer> | undefined;
+
+    try {
+      if (contentType.startsWith('text/csv')) {
+        // A spreadsheet of plants, one per row, using the plants.csv headers
+        const plants = plantsFromCsv((req.body as Buffer).toString('utf8'));
+        document = { version: EXPORT_VERSION, plants };
+      } else if (Buffer.isBuffer(req.body)) {
+        ({ data: document, files } = await readGardenExportZip(req.body));
+      } else {
+        document = req.body;
+      }
+    } catch (error) {
+      logger.error('Error reading import upload:', error);
+      return res.status(400).json({ message: 'Could not read import file', error: error instanceof Error ? error.message : String(error) });
+    }
+
+    const report = await importGarden(req.user!.id, document, { dryRun, files });
+    const status = report.errors.some(e => e.type === 'document') ? 400 : dryRun ? 200 : 201;
+    return res.status(status).json(report);
+  }));
+}
@@ -0,0 +1,365 @@
+import { Express, Request, Response } from 'express';
+import { z } from 'zod';
+import { asyncHandler } from '../utils/errorHandler';
+import { isAuthenticated } from '../auth';
+import { storage } from '../storage';
+import { canAccessPlant } from '../services/gardenAccess';
+import { getEmailTransport } from '../services/emailTransport';
+import { escapeHtml } from '../services/notificationDispatcher';
+import {
+  insertGardenSchema,
+  insertGardenInvitationSchema,
+  GARDEN_ROLES,
+  type GardenInvitation,
+  type GardenMember,
+} from '@shared/schema';
+import * as logger from '../services/logger';
+
+// Invitation links stay valid for a week
+const INVITATION_TTL_DAYS = 7;
+
+const memberRoleSchema = z.object({
+  role: z.enum(GARDEN_ROLES),
+});
+
+const gardenPlantSchema = z.object({
+  plantId: z.number().int().positive(),
+});
+
+function invitationUrl(req: Request, invitation: GardenInvitation): string {
+  return `${req.protocol}://${req.get('host')}/gardens/join/${invitation.token}`;
+}
+
+function parseId(value: string): number | null {
+  const id = parseInt(value, 10);
+  return isNaN(id) ? null : id;
+}
+
+// Whether removing or demoting this member would leave the garden without an owner
+async function isLastOwner(gardenId: number, member: GardenMember): Promise<boolean> {
+  if (member.role !== 'owner') return false;
+  const members = await storage.getGardenMembers(gardenId);
+  return members.filter(m => m.role === 'owner').length <= 1;
+}
+
+export function setupGardenRoutes(app: Express) {
+  // Gardens the current user belongs to, with their role in each
+  app.get('/api/gardens', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const gardens = await storage.getGardensForUser(req.user!.id);
+    return res.json(gardens);
+  }));
+
+  // Create a garden; the creator becomes its owner
+  app.post('/api/gardens', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const result = insertGardenSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid garden', errors: result.error });
+    }
+
+    const garden = await storage.createGarden(result.data.name, req.user!.id);
+    logger.info(`User ${req.user!.id} created garden ${garden.id}`);
+    return res.status(201).json(garden);
+  }));
+
+  // Garden details with members (and open invitations for owners)
+  app.get('/api/gardens/:id', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const gardenId = parseId(req.params.id);
+    if (gardenId === null) {
+      return res.status(400).json({ message: 'Invalid garden ID' });
+    }
+
+    const membership = await storage.getGardenMember(gardenId, req.user!.id);
+    const garden = membership && await storage.getGarden(gardenId);
+    if (!garden) {
+      return res.status(404).json({ message: 'Garden not found' });
+    }
+
+    const members = await storage.getGardenMembers(gardenId);
+    const invitations = membership.role === 'owner'
+      ? (await storage.getGardenInvitations(gardenId)).map(invitation => ({ ...invitation, url: invitationUrl(req, invitation) }))
+      : [];
+
+    return res.json({ ...garden, role: membership.role, members, invitations });
+  }));
+
+  // Rename a garden
+  app.patch('/api/gardens/:id', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const gardenId = parseId(req.params.id);
+    if (gardenId === null) {
+      return res.status(400).json({ message: 'Invalid garden ID' });
+    }
+
+    const result = insertGardenSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid garden', errors: result.error });
+    }
+
+    const membership = await storage.getGardenMember(gardenId, req.user!.id);
+    if (!membership) {
+      return res.status(404).json({ message: 'Garden not found' });
+    }
+    if (membership.role !== 'owner') {
+      return res.status(403).json({ message: 'Only garden owners can rename the garden' });
+    }
+
+    const garden = await storage.updateGarden(gardenId, result.data.name);
+    return res.json(garden);
+  }));
+
+  // Delete a garden; its plants go back to the members who added them
+  app.delete('/api/gardens/:id', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const gardenId = parseId(req.params.id);
+    if (gardenId === null) {
+      return res.status(400).json({ message: 'Invalid garden ID' });
+    }
+
+    const membership = await storage.getGardenMember(gardenId, req.user!.id);
+    if (!membership) {
+      return res.status(404).json({ message: 'Garden not found' });
+    }
+    if (membership.role !== 'owner') {
+      return res.status(403).json({ message: 'Only garden owners can delete the garden' });
+    }
+
+    await storage.deleteGarden(gardenId);
+    logger.info(`User ${req.user!.id} deleted garden ${gardenId}`);
+    return res.status(204).send();
+  }));
+
+  // Change a member's role
+  app.patch('/api/gardens/:id/members/:userId', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const gardenId = parseId(req.params.id);
+    const memberId = parseId(req.params.userId);
+    if (gardenId === null || memberId === null) {
+      return res.status(400).json({ message: 'Invalid garden or member ID' });
+    }
+
+    const result = memberRoleSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid role', errors: result.error });
+    }
+
+    const membership = await storage.getGardenMember(gardenId, req.user!.id);
+    if (!membership) {
+      return res.status(404).json({ message: 'Garden not found' });
+    }
+    if (membership.role !== 'owner') {
+      return res.status(403).json({ message: 'Only garden owners can change roles' });
+    }
+
+    const member = await storage.getGardenMember(gardenId, memberId);
+    if (!member) {
+      return res.status(404).json({ message: 'Member not found' });
+    }
+    if (result.data.role !== 'owner' && await isLastOwner(gardenId, member)) {
+      return res.status(409).json({ message: 'A garden needs at least one owner' });
+    }
+
+    const updated = await storage.updateGardenMemberRole(gardenId, memberId, result.data.role);
+    return res.json(updated);
+  }));
+
+  // Remove a member (owners), or leave the garden (anyone)
+  app.delete('/api/gardens/:id/members/:userId', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const gardenId = parseId(req.params.id);
+    const memberId = parseId(req.params.userId);
+    if (gardenId === null || memberId === null) {
+      return res.status(400).json({ message: 'Invalid garden or member ID' });
+    }
+
+    const membership = await storage.getGardenMember(gardenId, req.user!.id);
+    if (!membership) {
+      return res.status(404).json({ message: 'Garden not found' });
+    }
+    if (memberId !== req.user!.id && membership.role !== 'owner') {
+      return res.status(403).json({ message: 'Only garden owners can remove members' });
+    }
+
+    const member = memberId === req.user!.id ? membership : await storage.getGardenMember(gardenId, memberId);
+    if (!member) {
+      return res.status(404).json({ message: 'Member not found' });
+    }
+    if (await isLastOwner(gardenId, member)) {
+      return res.status(409).json({ message: 'A garden needs at least one owner. Make someone else an owner or delete the garden.' });
+    }
+
+    await storage.removeGardenMember(gardenId, memberId);
+    return res.status(204).send();
+  }));
+
+  // Invite someone by link (and by email if an address is given)
+  app.post('/api/gardens/:id/invitations', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const gardenId = parseId(req.params.id);
+    if (gardenId === null) {
+      return res.status(400).json({ message: 'Invalid garden ID' });
+    }
+
+    const result = insertGardenInvitationSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid invitation', errors: result.error });
+    }
+
+    const membership = await storage.getGardenMember(gardenId, req.user!.id);
+    const garden = membership && await storage.getGarden(gardenId);
+    if (!garden) {
+      return res.status(404).json({ message: 'Garden not found' });
+    }
+    if (membership.role !== 'owner') {
+      return res.status(403).json({ message: 'Only garden owners can invite members' });
+    }
+
+    const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+    const invitation = await storage.createGardenInvitation(
+      gardenId,
+      req.user!.id,
+      result.data.role,
+      result.data.email ?? null,
+      expiresAt
+    );
+    const url = invitationUrl(req, invitation);
+
+    let emailed = false;
+    if (invitation.email) {
+      const inviter = req.user!.displayName || req.user!.username;
+      try {
+        await getEmailTransport().send({
+          to: invitation.email,
+          subject: `${inviter} invited you to "${garden.name}" on Hanna's Garden`,
+          text: `${inviter} invited you to help look after the plants in "${garden.name}" as a ${invitation.role}.\n\nJoin here: ${url}\n\nThis link expires in ${INVITATION_TTL_DAYS} days.`,
+          html: `<p>${escapeHtml(inviter)} invited you to help look after the plants in <strong>${escapeHtml(garden.name)}</strong> as a ${invitation.role}.</p><p><a href="${escapeHtml(url)}">Join the garden</a></p><p>This link expires in ${INVITATION_TTL_DAYS} days.</p>`,
+        });
+        emailed = true;
+      } catch (error) {
+        // The link still works, so the owner can share it another way
+        logger.error('Error sending garden invitation email:', error);
+      }
+    }
+
+    return res.status(201).json({ ...invitation, url, emailed });
+  }));
+
+  // Revoke an invitation
+  app.delete('/api/gardens/:id/invitations/:invitationId', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const gardenId = parseId(req.params.id);
+    const invitationId = parseId(req.params.invitationId);
+    if (gardenId === null || invitationId === null) {
+      return res.status(400).json({ message: 'Invalid garden or invitation ID' });
+    }
+
+    const membership = await storage.getGardenMember(gardenId, req.user!.id);
+    if (!membership) {
+      return res.status(404).json({ message: 'Garden not found' });
+    }
+    if (membership.role !== 'owner') {
+      return res.status(403).json({ message: 'Only garden owners can revoke invitations' });
+    }
+
+    const invitations = await storage.getGardenInvitations(gardenId);
+    if (!invitations.some(invitation => invitation.id === invitationId)) {
+      return res.status(404).json({ message: 'Invitation not found' });
+    }
+
+    await storage.deleteGardenInvitation(invitationId);
+    return res.status(204).send();
+  }));
+
+  // Preview an invitation before accepting it
+  app.get('/api/garden-invitations/:token', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const invitation = await storage.getGardenInvitationByToken(req.params.token);
+    const garden = invitation && await storage.getGarden(invitation.gardenId);
+    if (!invitation || !garden) {
+      return res.status(404).json({ message: 'Invitation not found' });
+    }
+
+    const inviter = await storage.getUser(invitation.invitedBy);
+    const membership = await storage.getGardenMember(garden.id, req.user!.id);
+    return res.json({
+      gardenId: garden.id,
+      gardenName: garden.name,
+      role: invitation.role,
+      invitedBy: inviter ? inviter.displayName || inviter.username : null,
+      expiresAt: invitation.expiresAt,
+      expired: invitation.expiresAt.getTime() <= Date.now(),
+      accepted: !!invitation.acceptedAt,
+      alreadyMember: !!membership,
+    });
+  }));
+
+  // Join a garden with an invitation link
+  app.post('/api/garden-invitations/:token/accept', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const invitation = await storage.getGardenInvitationByToken(req.params.token);
+    if (!invitation) {
+      return res.status(404).json({ message: 'Invitation not found' });
+    }
+    if (invitation.acceptedAt) {
+      return res.status(410).json({ message: 'This invitation has already been used' });
+    }
+    if (invitation.expiresAt.getTime() <= Date.now()) {
+      return res.status(410).json({ message: 'This invitation has expired' });
+    }
+    // Invitations sent to an address can only be used by that account
+    if (invitation.email && invitation.email.toLowerCase() !== req.user!.email.toLowerCase()) {
+      return res.status(403).json({ message: 'This invitation was sent to a different email address' });
+    }
+
+    const member = await storage.acceptGardenInvitation(invitation, req.user!.id);
+    if (!member) {
+      return res.status(410).json({ message: 'This invitation has already been used' });
+    }
+
+    logger.info(`User ${req.user!.id} joined garden ${invitation.gardenId} as ${member.role}`);
+    return res.status(201).json(member);
+  }));
+
+  // Move a plant into a garden
+  app.post('/api/gardens/:id/plants', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const gardenId = parseId(req.params.id);
+    if (gardenId === null) {
+      return res.status(400).json({ message: 'Invalid garden ID' });
+    }
+
+    const result = gardenPlantSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid plant', errors: result.error });
+    }
+
+    const membership = await storage.getGardenMember(gardenId, req.user!.id);
+    if (!membership) {
+      return res.status(404).json({ message: 'Garden not found' });
+    }
+    if (membership.role === 'viewer') {
+      return res.status(403).json({ message: 'Viewers cannot add plants to the garden' });
+    }
+
+    const plant = await storage.getPlant(result.data.plantId);
+    if (!plant) {
+      return res.status(404).json({ message: 'Plant not found' });
+    }
+    if (!(await canAccessPlant(plant, req.user!.id, 'manage'))) {
+      return res.status(403).json({ message: "You don't have permission to move this plant" });
+    }
+
+    const updated = await storage.setPlantGarden(plant.id, gardenId);
+    return res.json(updated);
+  }));
+
+  // Take a plant out of a garden; it goes back to the member who added it
+  app.delete('/api/gardens/:id/plants/:plantId', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const gardenId = parseId(req.params.id);
+    const plantId = parseId(req.params.plantId);
+    if (gardenId === null || plantId === null) {
+      return res.status(400).json({ message: 'Invalid garden or plant ID' });
+    }
+
+    const plant = await storage.getPlant(plantId);
+    if (!plant || plant.gardenId !== gardenId) {
+      return res.status(404).json({ message: 'Plant not found in this garden' });
+    }
+    if (!(await canAccessPlant(plant, req.user!.id, 'manage'))) {
+      return res.status(403).json({ message: 'Only garden owners can remove plants from the garden' });
+    }
+
+    const updated = await storage.setPlantGarden(plant.id, null);
+    return res.json(updated);
+  }));
+}
@@ -1,7 +1,7 @@
 import { Express, Request, Response } from "express";
-import OpenAI from "openai";
 import { z } from "zod";
 import * as logger from "../services/logger";
+import { createChatCompletion, isAiConfigured } from "../services/aiGateway";
 import { apiError, ErrorCode, asyncHandler } from "../utils/errorHandler";
 
 // Enhanced schema for light analysis request with better validation
@@ -46,20 +46,6 @@ interface LightMeterAIResponse {
   confidence: "high" | "medium" | "low";
 }
 
-// Initialize OpenAI client with proper error handling
-let openai: OpenAI | null = null;
-try {
-  if (!process.env.OPENAI_API_KEY) {
-    logger.warn("OPENAI_API_KEY is not set - AI light meter features will be limited");
-  } else {
-    openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-    logger.info("OpenAI client initialized for light meter service");
-  }
-} catch (error) {
-  const errorMessage = error instanceof Error ? error.message : String(error);
-  logger.error("Failed to initialize OpenAI client for light meter:", new Error(errorMessage));
-}
-
 export function setupLightMeterRoutes(app: Express) {
   app.post("/api/light-meter/analyze", asyncHandler(async (req: Request, res: Response) => {
     // Validate request
@@ -149,7 +135,7 @@ async function analyzeWithOpenAI(
 ): Promise<LightMeterAIResponse> {
   try {
     // Check if OpenAI client is available
-    if (!openai) {
+    if (!isAiConfigured("light_meter")) {
       logger.warn("OpenAI client not available for light meter analysis - using fallback");
       return {
         lightLevel: {
@@ -167,8 +153,7 @@ async function analyzeWithOpenAI(
       };
     }
     
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+    const response = await createChatCompletion({
       messages: [
         {
           role: "system",
@@ -227,7 +212,7 @@ async function analyzeWithOpenAI(
       ],
       response_format: { type: "json_object" },
       max_tokens: 1000,
-    });
+    }, { feature: "light_meter" });
 
     const content = response.choices[0].message.content;
     if (!content) {
@@ -0,0 +1,132 @@
+import { Express, Request, Response } from 'express';
+import { asyncHandler } from '../utils/errorHandler';
+import { isAuthenticated, requireRole } from '../auth';
+import { storage } from '../storage';
+import { moderateTip, reportTip, setUserRole } from '../services/moderation';
+import { moderateComment } from '../services/comments';
+import { moderateCommentSchema, moderateTipSchema, reportTipSchema, updateUserRoleSchema } from '@shared/schema';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+function parsePaging(req: Request) {
+  const page = Math.max(parseInt(String(req.query.page ?? '1'), 10) || 1, 1);
+  const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? DEFAULT_PAGE_SIZE), 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  return { page, limit, offset: (page - 1) * limit };
+}
+
+export function setupModerationRoutes(app: Express) {
+  // Report a community tip to the moderators
+  app.post('/api/community-tips/:id/report', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const tipId = parseInt(req.params.id, 10);
+    if (isNaN(tipId)) {
+      return res.status(400).json({ message: 'Invalid tip ID' });
+    }
+
+    const result = reportTipSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid report', errors: result.error });
+    }
+
+    const outcome = await reportTip(req.user!.id, tipId, result.data.reason, result.data.details);
+    switch (outcome.status) {
+      case 'not_found':
+        return res.status(404).json({ message: 'Community tip not found' });
+      case 'own_tip':
+        return res.status(400).json({ message: "You can't report your own tip" });
+      case 'already_reported':
+        return res.status(409).json({ message: 'You have already reported this tip' });
+      case 'reported':
+        return res.status(201).json({ message: 'Thanks, a moderator will take a look', hidden: outcome.hidden });
+    }
+  }));
+
+  // Moderators: tips with open reports, plus hidden tips, most reported first
+  app.get('/api/moderation/queue', requireRole('moderator'), asyncHandler(async (req: Request, res: Response) => {
+    const { page, limit, offset } = parsePaging(req);
+    const items = await storage.getModerationQueue({ limit, offset });
+    return res.json({ items, page, limit });
+  }));
+
+  // Moderators: every report made on a tip, open and resolved
+  app.get('/api/moderation/tips/:id/reports', requireRole('moderator'), asyncHandler(async (req: Request, res: Response) => {
+    const tipId = parseInt(req.params.id, 10);
+    if (isNaN(tipId)) {
+      return res.status(400).json({ message: 'Invalid tip ID' });
+    }
+    return res.json(await storage.getTipReports(tipId));
+  }));
+
+  // Moderators: hide, restore, remove, dismiss reports on, feature or unfeature a tip
+  app.post('/api/moderation/tips/:id/actions', requireRole('moderator'), asyncHandler(async (req: Request, res: Response) => {
+    const tipId = parseInt(req.params.id, 10);
+    if (isNaN(tipId)) {
+      return res.status(400).json({ message: 'Invalid tip ID' });
+    }
+
+    const result = moderateTipSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid moderation action', errors: result.error });
+    }
+
+    const found = await moderateTip(req.user!.id, tipId, result.data);
+    if (!found) {
+      return res.status(404).json({ message: 'Community tip not found' });
+    }
+    return res.json(await storage.getCommunityTip(tipId));
+  }));
+
+  // Moderators: hide, restore or remove a comment
+  app.post('/api/moderation/comments/:id/actions', requireRole('moderator'), asyncHandler(async (req: Request, res: Response) => {
+    const commentId = parseInt(req.params.id, 10);
+    if (isNaN(commentId)) {
+      return res.status(400).json({ message: 'Invalid comment ID' });
+    }
+
+    const result = moderateCommentSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid moderation action', errors: result.error });
+    }
+
+    const found = await moderateComment(req.user!.id, commentId, result.data);
+    if (!found) {
+      return res.status(404).json({ message: 'Comment not found' });
+    }
+    return res.status(204).send();
+  }));
+
+  // Moderators: the audit trail of moderation and role changes, newest first
+  app.get('/api/moderation/log', requireRole('moderator'), asyncHandler(async (req: Request, res: Response) => {
+    const { page, limit, offset } = parsePaging(req);
+    const entries = await storage.getModerationLog({ limit, offset });
+    return res.json({ entries, page, limit });
+  }));
+
+  // Admin-only: current admins and moderators
+  app.get('/api/admin/roles', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
+    return res.json(await storage.getStaffUsers());
+  }));
+
+  // Admin-only: make a user an admin, moderator or plain member
+  app.put('/api/admin/roles/:username', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
+    const result = updateUserRoleSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid role', errors: result.error });
+    }
+
+    const target = await storage.getUserByUsername(req.params.username);
+    if (!target) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    // Keep at least one admin around to manage roles
+    if (target.id === req.user!.id && result.data.role !== 'admin') {
+      return res.status(400).json({ message: "You can't remove your own admin role" });
+    }
+
+    const updated = await setUserRole(req.user!.id, target, result.data.role);
+    if (!updated) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    return res.json({ id: updated.id, username: updated.username, displayName: updated.displayName, role: updated.role });
+  }));
+}
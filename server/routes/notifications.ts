@@ -0,0 +1,114 @@
+import { Express, Request, Response } from 'express';
+import { z } from 'zod';
+import { asyncHandler } from '../utils/errorHandler';
+import { isAuthenticated } from '../auth';
+import { storage } from '../storage';
+import { getVapidPublicKey, isWebPushConfigured, sendPushToUser } from '../services/webPush';
+import { getEmailTransport } from '../services/emailTransport';
+
+const MAX_NOTIFICATIONS = 50;
+
+const markReadSchema = z.object({
+  ids: z.array(z.number().int().positive()).optional(),
+});
+
+const pushSubscriptionSchema = z.object({
+  endpoint: z.string().url(),
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1),
+  }),
+});
+
+export function setupNotificationRoutes(app: Express) {
+  // The current user's latest in-app notifications (mentions and replies) and how many are unread
+  app.get('/api/notifications', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const [notifications, unread] = await Promise.all([
+      storage.getNotifications(req.user!.id, MAX_NOTIFICATIONS),
+      storage.countUnreadNotifications(req.user!.id),
+    ]);
+    return res.json({ notifications, unread });
+  }));
+
+  // Mark notifications as read ({ ids } for specific ones, or everything)
+  app.post('/api/notifications/read', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const result = markReadSchema.safeParse(req.body ?? {});
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid notification ids', errors: result.error });
+    }
+
+    const updated = await storage.markNotificationsRead(req.user!.id, result.data.ids);
+    return res.json({ updated });
+  }));
+
+  // Public VAPID key the service worker needs to subscribe
+  app.get('/api/notifications/push-key', isAuthenticated, (req: Request, res: Response) => {
+    if (!isWebPushConfigured()) {
+      return res.status(404).json({ message: 'Web push is not configured on this server' });
+    }
+    return res.json({ publicKey: getVapidPublicKey() });
+  });
+
+  // Register (or refresh) this browser's push subscription
+  app.post('/api/notifications/push-subscriptions', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const result = pushSubscriptionSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid push subscription', errors: result.error });
+    }
+
+    const subscription = await storage.savePushSubscription({
+      userId: req.user!.id,
+      endpoint: result.data.endpoint,
+      p256dh: result.data.keys.p256dh,
+      auth: result.data.keys.auth,
+      userAgent: req.get('user-agent') || null,
+    });
+
+    return res.status(201).json({ id: subscription.id });
+  }));
+
+  // Remove this browser's push subscription
+  app.delete('/api/notifications/push-subscriptions', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const endpoint = typeof req.body?.endpoint === 'string' ? req.body.endpoint : undefined;
+    if (!endpoint) {
+      return res.status(400).json({ message: 'Endpoint is required' });
+    }
+
+    const subscriptions = await storage.getPushSubscriptions(req.user!.id);
+    if (!subscriptions.some(subscription => subscription.endpoint === endpoint)) {
+      return res.status(404).json({ message: 'Subscription not found' });
+    }
+
+    await storage.deletePushSubscription(endpoint);
+    return res.status(204).send();
+  }));
+
+  // Send a test notification over every enabled channel
+  app.post('/api/notifications/test', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const user = req.user!;
+    const settings = await storage.getProfileSettings(user.id);
+    const channels: string[] = [];
+
+    if (settings?.emailNotifications !== false && user.email) {
+      await getEmailTransport().send({
+        to: user.email,
+        subject: "Test notification from Hanna's Garden",
+        text: 'Reminder emails are working. Your daily care digest will arrive here.',
+        html: '<p>Reminder emails are working. Your daily care digest will arrive here.</p>',
+      });
+      channels.push('email');
+    }
+
+    if (settings?.pushNotifications) {
+      const delivered = await sendPushToUser(user.id, {
+        title: "Hanna's Garden",
+        body: 'Push notifications are working.',
+        url: '/reminders',
+        tag: 'test',
+      });
+      if (delivered > 0) channels.push('push');
+    }
+
+    return res.json({ channels });
+  }));
+}
@@ -2,6 +2,7 @@ import { Express, Request, Response } from "express";
 import { z } from "zod";
 import { analyzePlantImageLightLevel } from "../services/lightAnalyzer";
 import { storage } from "../storage";
+import { canAccessPlant } from "../services/gardenAccess";
 import { isAuthenticated } from "../auth";
 import * as logger from "../services/logger";
 import { apiError, ErrorCode, asyncHandler } from "../utils/errorHandler";
@@ -45,8 +46,8 @@ export function setupPlantLightAnalyzerRoutes(app: Express) {
       });
     }
     
-    // Check user ownership
-    if (plant.userId !== req.user?.id) {
+    // Check the user can care for the plant (owner or garden caretaker)
+    if (!(await canAccessPlant(plant, req.user!.id, "care"))) {
       return apiError(res, {
         status: 403,
         error: "Access denied",
@@ -0,0 +1,150 @@
+import { Express, Request, Response } from 'express';
+import { asyncHandler } from '../utils/errorHandler';
+import { isAuthenticated } from '../auth';
+import { storage } from '../storage';
+import { canAccessPlant, type PlantAccess } from '../services/gardenAccess';
+import {
+  cancelPlantTransfer,
+  getPlantLineage,
+  offerPlantTransfer,
+  propagatePlant,
+  respondToPlantTransfer,
+  setParentPlant,
+  type TransferOutcome,
+} from '../services/plantLineage';
+import { createPlantTransferSchema, propagatePlantSchema, setPlantParentSchema, type PlantWithCare } from '@shared/schema';
+
+function parseId(value: string): number | null {
+  const id = parseInt(value, 10);
+  return isNaN(id) ? null : id;
+}
+
+// Loads the plant in :id and checks the user's access, answering the request if that fails
+async function loadPlant(req: Request, res: Response, access: PlantAccess): Promise<PlantWithCare | null> {
+  const plantId = parseId(req.params.id);
+  if (plantId === null) {
+    res.status(400).json({ message: 'Invalid plant ID' });
+    return null;
+  }
+
+  const plant = await storage.getPlant(plantId);
+  if (!plant) {
+    res.status(404).json({ message: 'Plant not found' });
+    return null;
+  }
+  if (!(await canAccessPlant(plant, req.user!.id, access))) {
+    res.status(403).json({ message: "You don't have permission to access this plant" });
+    return null;
+  }
+  return plant;
+}
+
+function sendTransferOutcome(res: Response, outcome: TransferOutcome, successStatus = 200) {
+  switch (outcome.status) {
+    case 'not_found':
+      return res.status(404).json({ message: 'Transfer not found' });
+    case 'invalid':
+      return res.status(400).json({ message: outcome.message });
+    case 'ok':
+      return res.status(successStatus).json(outcome.transfer);
+  }
+}
+
+export function setupPlantLineageRoutes(app: Express) {
+  // Grow a new plant from this one (a cutting, division, seed...); it inherits species and care settings
+  app.post('/api/plants/:id/propagate', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const parent = await loadPlant(req, res, 'care');
+    if (!parent) return;
+
+    const result = propagatePlantSchema.safeParse(req.body ?? {});
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid propagation', errors: result.error });
+    }
+
+    const child = await propagatePlant(req.user!, parent, result.data);
+    return res.status(201).json(child);
+  }));
+
+  // The plant's family tree, from its oldest known ancestor down
+  app.get('/api/plants/:id/lineage', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const plant = await loadPlant(req, res, 'view');
+    if (!plant) return;
+
+    return res.json(await getPlantLineage(plant.id, req.user!.id));
+  }));
+
+  // Link a plant to the plant it came from, or unlink it with { parentPlantId: null }
+  app.put('/api/plants/:id/parent', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const plant = await loadPlant(req, res, 'manage');
+    if (!plant) return;
+
+    const result = setPlantParentSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid parent plant', errors: result.error });
+    }
+
+    const outcome = await setParentPlant(req.user!, plant, result.data.parentPlantId, result.data.method);
+    switch (outcome.status) {
+      case 'not_found':
+        return res.status(404).json({ message: 'Parent plant not found' });
+      case 'invalid':
+        return res.status(400).json({ message: outcome.message });
+      case 'ok':
+        return res.json(outcome.plant);
+    }
+  }));
+
+  // Offer a plant to another user by username; it moves once they accept
+  app.post('/api/plants/:id/transfers', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const plant = await loadPlant(req, res, 'manage');
+    if (!plant) return;
+
+    const result = createPlantTransferSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid transfer', errors: result.error });
+    }
+
+    const outcome = await offerPlantTransfer(req.user!, plant, result.data.username, result.data.message);
+    return sendTransferOutcome(res, outcome, 201);
+  }));
+
+  // Pending transfers to and from the current user
+  app.get('/api/plant-transfers', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const transfers = await storage.getPendingPlantTransfers(req.user!.id);
+    return res.json({
+      incoming: transfers.filter(transfer => transfer.toUserId === req.user!.id),
+      outgoing: transfers.filter(transfer => transfer.fromUserId === req.user!.id),
+    });
+  }));
+
+  // Accept a plant offered to you, with its care history, photos and reminders
+  app.post('/api/plant-transfers/:id/accept', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const transferId = parseId(req.params.id);
+    if (transferId === null) {
+      return res.status(400).json({ message: 'Invalid transfer ID' });
+    }
+    return sendTransferOutcome(res, await respondToPlantTransfer(req.user!, transferId, true));
+  }));
+
+  app.post('/api/plant-transfers/:id/decline', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const transferId = parseId(req.params.id);
+    if (transferId === null) {
+      return res.status(400).json({ message: 'Invalid transfer ID' });
+    }
+    return sendTransferOutcome(res, await respondToPlantTransfer(req.user!, transferId, false));
+  }));
+
+  // Withdraw an offer that hasn't been answered yet
+  app.delete('/api/plant-transfers/:id', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const transferId = parseId(req.params.id);
+    if (transferId === null) {
+      return res.status(400).json({ message: 'Invalid transfer ID' });
+    }
+
+    const outcome = await cancelPlantTransfer(req.user!, transferId);
+    if (outcome.status !== 'ok') {
+      return sendTransferOutcome(res, outcome);
+    }
+    return res.status(204).send();
+  }));
+}
@@ -0,0 +1,36 @@
+import { Express, Request, Response } from 'express';
+import { asyncHandler } from '../utils/errorHandler';
+import { isAuthenticated } from '../auth';
+import { search, MAX_QUERY_LENGTH } from '../services/search';
+import { SEARCH_RESULT_TYPES, type SearchResultType } from '@shared/schema';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+export function setupSearchRoutes(app: Express) {
+  // Ranked search across plants, care logs, tips, guides and profiles (?q=&types=plant,tip&page=&limit=)
+  app.get('/api/search', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (!query) {
+      return res.status(400).json({ message: 'A search query is required' });
+    }
+    if (query.length > MAX_QUERY_LENGTH) {
+      return res.status(400).json({ message: `Search queries are limited to ${MAX_QUERY_LENGTH} characters` });
+    }
+
+    let types: SearchResultType[] | undefined;
+    if (typeof req.query.types === 'string' && req.query.types) {
+      const requested = req.query.types.split(',').map(type => type.trim());
+      const unknown = requested.filter(type => !SEARCH_RESULT_TYPES.includes(type as SearchResultType));
+      if (unknown.length > 0) {
+        return res.status(400).json({ message: `Unknown result types: ${unknown.join(', ')}` });
+      }
+      types = requested as SearchResultType[];
+    }
+
+    const page = Math.max(parseInt(String(req.query.page ?? '1'), 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? DEFAULT_PAGE_SIZE), 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+    return res.json(await search(req.user!.id, query, { types, page, limit }));
+  }));
+}
@@ -0,0 +1,180 @@
+import { Express, Request, Response } from 'express';
+import rateLimit from 'express-rate-limit';
+import { asyncHandler } from '../utils/errorHandler';
+import { isAuthenticated } from '../auth';
+import { storage } from '../storage';
+import { canAccessPlant } from '../services/gardenAccess';
+import {
+  SENSOR_RANGES,
+  authenticateDevice,
+  generateDeviceToken,
+  getPlantSensorData,
+  hashDeviceToken,
+  ingestReadings,
+  type SensorRange,
+} from '../services/sensors';
+import {
+  createSensorDeviceSchema,
+  sensorReadingsUploadSchema,
+  updateSensorDeviceSchema,
+  type SensorDevice,
+  type SensorDeviceSummary,
+} from '@shared/schema';
+
+// A device reporting every minute stays well under this. Counted per device
+// token, so several devices behind one network address don't share a budget.
+const sensorUploadLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 120,
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req: Request) => {
+    const token = getDeviceToken(req);
+    return token ? `device:${hashDeviceToken(token)}` : `ip:${req.ip}`;
+  },
+  message: { message: 'Too many readings from this device, please try again later' },
+});
+
+function parseId(value: string): number | null {
+  const id = parseInt(value, 10);
+  return isNaN(id) ? null : id;
+}
+
+function toSummary({ tokenHash, ...device }: SensorDevice): SensorDeviceSummary {
+  return device;
+}
+
+// Devices send their token as a bearer token, or in X-Device-Token for
+// firmware that can't set Authorization
+function getDeviceToken(req: Request): string {
+  const header = req.headers.authorization;
+  if (header?.startsWith('Bearer ')) return header.slice('Bearer '.length).trim();
+  const token = req.headers['x-device-token'];
+  return typeof token === 'string' ? token.trim() : '';
+}
+
+// Loads the device in :id if the current user owns it, answering the request if not
+async function loadDevice(req: Request, res: Response): Promise<SensorDevice | null> {
+  const deviceId = parseId(req.params.id);
+  if (deviceId === null) {
+    res.status(400).json({ message: 'Invalid device ID' });
+    return null;
+  }
+
+  const device = await storage.getSensorDevice(deviceId);
+  if (!device || device.userId !== req.user!.id) {
+    res.status(404).json({ message: 'Sensor device not found' });
+    return null;
+  }
+  return device;
+}
+
+// Whether the user may attach a sensor to the plant: anyone who can log care for it
+async function canAssignPlant(plantId: number, userId: number): Promise<boolean> {
+  const plant = await storage.getPlant(plantId);
+  return !!plant && await canAccessPlant(plant, userId, 'care');
+}
+
+export function setupSensorRoutes(app: Express) {
+  // Readings from a device, authenticated by its token rather than a session
+  app.post('/api/sensors/readings', sensorUploadLimiter, asyncHandler(async (req: Request, res: Response) => {
+    const device = await authenticateDevice(getDeviceToken(req));
+    if (!device) {
+      return res.status(401).json({ message: 'Invalid device token' });
+    }
+
+    const result = sensorReadingsUploadSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid sensor readings', errors: result.error });
+    }
+
+    const outcome = await ingestReadings(device, result.data.readings);
+    if (outcome.status === 'unassigned') {
+      return res.status(409).json({ message: 'This device is not assigned to a plant' });
+    }
+    return res.status(201).json({ accepted: outcome.accepted, rejected: outcome.rejected });
+  }));
+
+  app.get('/api/sensor-devices', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    return res.json(await storage.getSensorDevices(req.user!.id));
+  }));
+
+  // Register a device; its token is in the response and can't be retrieved again
+  app.post('/api/sensor-devices', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const result = createSensorDeviceSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid sensor device', errors: result.error });
+    }
+
+    const { name, plantId = null, dryThreshold = null } = result.data;
+    if (plantId !== null && !(await canAssignPlant(plantId, req.user!.id))) {
+      return res.status(404).json({ message: 'Plant not found' });
+    }
+
+    const { token, tokenHash, tokenPrefix } = generateDeviceToken();
+    const device = await storage.createSensorDevice({ userId: req.user!.id, plantId, name, tokenHash, tokenPrefix, dryThreshold });
+    return res.status(201).json({ ...toSummary(device), token });
+  }));
+
+  // Rename a device, move it to another plant or change its dry threshold
+  app.patch('/api/sensor-devices/:id', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const device = await loadDevice(req, res);
+    if (!device) return;
+
+    const result = updateSensorDeviceSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid sensor device', errors: result.error });
+    }
+
+    const { plantId } = result.data;
+    if (plantId != null && plantId !== device.plantId && !(await canAssignPlant(plantId, req.user!.id))) {
+      return res.status(404).json({ message: 'Plant not found' });
+    }
+
+    const updated = await storage.updateSensorDevice(device.id, result.data);
+    return res.json(updated ? toSummary(updated) : null);
+  }));
+
+  // Issue a new token, e.g. when a device is lost; the old one stops working
+  app.post('/api/sensor-devices/:id/token', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const device = await loadDevice(req, res);
+    if (!device) return;
+
+    const { token, tokenHash, tokenPrefix } = generateDeviceToken();
+    const updated = await storage.updateSensorDevice(device.id, { tokenHash, tokenPrefix });
+    return res.json({ ...toSummary(updated ?? device), token });
+  }));
+
+  // Remove a device along with all of its readings
+  app.delete('/api/sensor-devices/:id', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const device = await loadDevice(req, res);
+    if (!device) return;
+
+    await storage.deleteSensorDevice(device.id);
+    return res.status(204).send();
+  }));
+
+  // Charted readings for a plant over ?range=24h|7d|30d
+  app.get('/api/plants/:id/sensors', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const plantId = parseId(req.params.id);
+    if (plantId === null) {
+      return res.status(400).json({ message: 'Invalid plant ID' });
+    }
+
+    const plant = await storage.getPlant(plantId);
+    if (!plant) {
+      return res.status(404).json({ message: 'Plant not found' });
+    }
+    if (!(await canAccessPlant(plant, req.user!.id, 'view'))) {
+      return res.status(403).json({ message: "You don't have permission to access this plant" });
+    }
+
+    const range = typeof req.query.range === 'string' ? req.query.range : '24h';
+    // Own keys only: `in` would also accept inherited names like "toString"
+    if (!Object.hasOwn(SENSOR_RANGES, range)) {
+      return res.status(400).json({ message: `Range must be one of ${Object.keys(SENSOR_RANGES).join(', ')}` });
+    }
+
+    return res.json(await getPlantSensorData(plant.id, range as SensorRange));
+  }));
+}
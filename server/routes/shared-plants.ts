@@ -2,6 +2,7 @@ import { Express, Request, Response } from 'express';
 import { asyncHandler } from '../utils/errorHandler';
 import { isAuthenticated } from '../auth';
 import { storage } from '../storage';
+import { canAccessPlant } from '../services/gardenAccess';
 import { sharedPlantLinks } from '@shared/schema';
 import { eq } from 'drizzle-orm';
 import * as logger from '../services/logger';
@@ -22,7 +23,7 @@ export function setupSharedPlantsRoutes(app: Express) {
       return res.status(404).json({ message: 'Plant not found' });
     }
     
-    if (plant.userId !== req.user?.id) {
+    if (!(await canAccessPlant(plant, req.user!.id, 'manage'))) {
       return res.status(403).json({ message: 'You do not own this plant' });
     }
     
@@ -35,7 +36,7 @@ export function setupSharedPlantsRoutes(app: Express) {
     }
     
     // Create a new shared link
-    const sharedLink = await storage.createSharedPlantLink(plantId, req.user.id);
+    const sharedLink = await storage.createSharedPlantLink(plantId, req.user!.id);
     
     return res.status(201).json(sharedLink);
   }));
@@ -85,16 +86,10 @@ export function setupSharedPlantsRoutes(app: Express) {
     // Get care logs for the plant
     const careLogs = await storage.getCareLogs(plantWithCare.id);
     
-    // Get guide for the plant if one is available
-    let guide = null;
-    if (plantWithCare.type) {
-      guide = await storage.getPlantGuideByType(plantWithCare.type);
-    }
-    
     return res.status(200).json({
       plant: plantWithCare,
       careLogs,
-      guide
+      guide: plantWithCare.guide ?? null
     });
   }));
 }
\ No newline at end of file
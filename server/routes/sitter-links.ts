@@ -0,0 +1,173 @@
+import { Express, Request, Response } from 'express';
+import rateLimit from 'express-rate-limit';
+import { asyncHandler } from '../utils/errorHandler';
+import { isAuthenticated } from '../auth';
+import { storage } from '../storage';
+import { canAccessPlant } from '../services/gardenAccess';
+import { applyCareLog } from '../services/careLogging';
+import {
+  buildSitterDays,
+  buildSitterReport,
+  getSitterLinkStatus,
+  loadSitterLinkData,
+} from '../services/sitterHandoff';
+import { insertSitterLinkSchema, sitterCareLogSchema, type SitterLink } from '@shared/schema';
+import * as logger from '../services/logger';
+
+// Guests log care without an account, so keep them from flooding a plant's history
+const sitterCareLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 30,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { message: 'Too many care logs from this link, please try again later' },
+});
+
+function sitterUrl(req: Request, link: SitterLink): string {
+  return `${req.protocol}://${req.get('host')}/sitter/${link.shareId}`;
+}
+
+export function setupSitterLinkRoutes(app: Express) {
+  // Create a sitter link covering several of the user's plants
+  app.post('/api/sitter-links', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const result = insertSitterLinkSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid sitter link', errors: result.error });
+    }
+
+    for (const plantId of result.data.plantIds) {
+      const plant = await storage.getPlant(plantId);
+      if (!plant) {
+        return res.status(404).json({ message: `Plant ${plantId} not found` });
+      }
+      if (!(await canAccessPlant(plant, req.user!.id, 'manage'))) {
+        return res.status(403).json({ message: 'You can only hand over plants you manage' });
+      }
+    }
+
+    const link = await storage.createSitterLink(req.user!.id, result.data);
+    logger.info(`User ${req.user!.id} created sitter link ${link.id} for ${result.data.plantIds.length} plants`);
+
+    return res.status(201).json({ ...link, plantIds: result.data.plantIds, url: sitterUrl(req, link) });
+  }));
+
+  // The user's sitter links, newest first
+  app.get('/api/sitter-links', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const links = await storage.getSitterLinksByUser(req.user!.id);
+
+    const withPlants = await Promise.all(links.map(async link => ({
+      ...link,
+      plantIds: await storage.getSitterLinkPlantIds(link.id),
+      status: getSitterLinkStatus(link),
+      url: sitterUrl(req, link),
+    })));
+
+    return res.json(withPlants);
+  }));
+
+  // End a sitter link early; the owner's report goes out on the next scheduler run
+  app.delete('/api/sitter-links/:shareId', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const link = await storage.getSitterLink(req.params.shareId);
+    if (!link) {
+      return res.status(404).json({ message: 'Sitter link not found' });
+    }
+    if (link.userId !== req.user!.id) {
+      return res.status(403).json({ message: 'You do not own this sitter link' });
+    }
+
+    const deactivated = await storage.deactivateSitterLink(link.shareId);
+    return res.json({ success: deactivated });
+  }));
+
+  // Summary of what the sitter did, for the owner
+  app.get('/api/sitter-links/:shareId/report', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const link = await storage.getSitterLink(req.params.shareId);
+    if (!link) {
+      return res.status(404).json({ message: 'Sitter link not found' });
+    }
+    if (link.userId !== req.user!.id) {
+      return res.status(403).json({ message: 'You do not own this sitter link' });
+    }
+
+    const { plants, reminders, careLogs } = await loadSitterLinkData(link);
+    return res.json({
+      report: buildSitterReport(link, plants, reminders, careLogs),
+      careLogs,
+    });
+  }));
+
+  // Public route - the sitter's view: covered plants and a day-by-day task list
+  app.get('/api/sitter/:shareId', asyncHandler(async (req: Request, res: Response) => {
+    const link = await storage.getSitterLink(req.params.shareId);
+    if (!link || getSitterLinkStatus(link) === 'ended') {
+      return res.status(404).json({ message: 'Sitter link not found or has expired' });
+    }
+
+    const { plants, reminders, careLogs, timezone } = await loadSitterLinkData(link);
+
+    // Don't fail the page if we can't record the access
+    storage.updateSitterLinkStats(link.shareId).catch(error =>
+      logger.error('Error updating sitter link access time:', error)
+    );
+
+    const owner = await storage.getUser(link.userId);
+
+    return res.json({
+      sitterName: link.sitterName,
+      instructions: link.instructions,
+      startsAt: link.startsAt,
+      expiresAt: link.expiresAt,
+      status: getSitterLinkStatus(link),
+      timezone,
+      owner: owner ? { displayName: owner.displayName || owner.username } : null,
+      plants: plants.map(plant => ({
+        id: plant.id,
+        name: plant.name,
+        scientificName: plant.scientificName,
+        image: plant.image,
+        location: plant.location,
+        waterFrequency: plant.waterFrequency,
+        lastWatered: plant.lastWatered,
+        notes: plant.notes,
+      })),
+      days: buildSitterDays(link, plants, reminders, careLogs, timezone),
+    });
+  }));
+
+  // Public route - the sitter logs care; the log is attributed to them as a guest
+  app.post('/api/sitter/:shareId/care-logs', sitterCareLimiter, asyncHandler(async (req: Request, res: Response) => {
+    const link = await storage.getSitterLink(req.params.shareId);
+    if (!link || getSitterLinkStatus(link) === 'ended') {
+      return res.status(404).json({ message: 'Sitter link not found or has expired' });
+    }
+    if (getSitterLinkStatus(link) === 'scheduled') {
+      return res.status(403).json({ message: 'This sitter link has not started yet' });
+    }
+
+    const result = sitterCareLogSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid care log', errors: result.error });
+    }
+
+    const plantIds = await storage.getSitterLinkPlantIds(link.id);
+    if (!plantIds.includes(result.data.plantId)) {
+      return res.status(403).json({ message: 'This plant is not covered by the sitter link' });
+    }
+
+    const plant = await storage.getPlant(result.data.plantId);
+    if (!plant) {
+      return res.status(404).json({ message: 'Plant not found' });
+    }
+
+    const careLog = await storage.createSitterCareLog(link, {
+      plantId: plant.id,
+      careType: result.data.careType,
+      notes: result.data.notes ?? null,
+    });
+
+    // Keep the owner's schedule moving as if they had done the care themselves
+    await applyCareLog(plant, careLog, link.userId);
+
+    return res.status(201).json(careLog);
+  }));
+}
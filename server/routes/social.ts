@@ -2,8 +2,27 @@ import { Express, Request, Response } from 'express';
 import { storage } from '../storage';
 import { isAuthenticated } from '../auth';
 import { z } from 'zod';
-import { insertProfileSettingsSchema, User } from '@shared/schema';
+import { insertProfileSettingsSchema } from '@shared/schema';
 import * as logger from '../services/logger';
+import { search } from '../services/search';
+import { decodeCursor, getSuggestedUsers, getTrendingUsers } from '../services/discoverRanking';
+import { emitFollow } from '../services/webhooks';
+
+const DEFAULT_DISCOVER_PAGE_SIZE = 6;
+const MAX_DISCOVER_PAGE_SIZE = 50;
+
+// Page size and position for the discover lists; null if the cursor is invalid
+function parseDiscoverPaging(req: Request) {
+  const limit = Math.min(
+    Math.max(parseInt(String(req.query.limit ?? DEFAULT_DISCOVER_PAGE_SIZE), 10) || DEFAULT_DISCOVER_PAGE_SIZE, 1),
+    MAX_DISCOVER_PAGE_SIZE
+  );
+  if (typeof req.query.cursor !== 'string' || !req.query.cursor) {
+    return { limit };
+  }
+  const after = decodeCursor(req.query.cursor);
+  return after ? { limit, after } : null;
+}
 
 export function registerSocialRoutes(app: Express) {
   // Get user profile - public
@@ -123,7 +142,7 @@ export function registerSocialRoutes(app: Express) {
       }
       
       // Get plants
-      const plants = await storage.getPlants(profile.user.id);
+      const plants = await storage.getPlants(profile.user.id, { includeGardens: false });
       
       return res.status(200).json(plants);
     } catch (error) {
@@ -158,6 +177,7 @@ export function registerSocialRoutes(app: Express) {
       
       // Follow the user
       const follow = await storage.followUser(followerId, followedId);
+      await emitFollow(req.user!, userToFollow);
       
       return res.status(201).json(follow);
     } catch (error) {
@@ -282,132 +302,49 @@ export function registerSocialRoutes(app: Express) {
     }
   });
   
-  // Get suggested users - users not already followed
+  // Get suggested users - public profiles not already followed (?limit=&cursor=)
   app.get('/api/discover/suggested', isAuthenticated, async (req: Request, res: Response) => {
     try {
-      const userId = req.user!.id;
+      const page = parseDiscoverPaging(req);
+      if (!page) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
       
-      // Get all users
-      const users = await storage.getUsers();
-      
-      // Get current user's following list
-      const following = await storage.getFollowing(userId);
-      const followingIds = following.map(user => user.id);
-      
-      // Remove current user and already followed users
-      const suggestedUsers = users.filter((user: User) => 
-        user.id !== userId && !followingIds.includes(user.id)
-      );
-      
-      // Get additional info for each user
-      const suggestions = await Promise.all(
-        suggestedUsers.slice(0, 6).map(async (user: User) => {
-          const { password, ...safeUser } = user;
-          const followCounts = await storage.getFollowCount(user.id);
-          const plants = await storage.getPlants(user.id);
-          
-          return {
-            user: safeUser,
-            followers: followCounts.followers,
-            following: followCounts.following,
-            plantsCount: plants.length,
-            isFollowing: false
-          };
-        })
-      );
-      
-      return res.status(200).json(suggestions);
+      return res.status(200).json(await getSuggestedUsers(req.user!.id, page));
     } catch (error) {
       logger.error('Error fetching suggested users:', error);
       return res.status(500).json({ message: "Failed to fetch suggested users" });
     }
   });
   
-  // Get trending users - users with most followers or plants
+  // Get trending users - follower growth and activity over the trending window (?limit=&cursor=)
   app.get('/api/discover/trending', isAuthenticated, async (req: Request, res: Response) => {
     try {
-      const userId = req.user!.id;
+      const page = parseDiscoverPaging(req);
+      if (!page) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
       
-      // Get all users
-      const users = await storage.getUsers();
-      
-      // Get current user's following list to check if already following
-      const following = await storage.getFollowing(userId);
-      const followingIds = following.map(user => user.id);
-      
-      // Remove current user
-      const otherUsers = users.filter((user: User) => user.id !== userId);
-      
-      // Get additional info for each user
-      const usersWithFollowerCounts = await Promise.all(
-        otherUsers.map(async (user: User) => {
-          const { password, ...safeUser } = user;
-          const followCounts = await storage.getFollowCount(user.id);
-          const plants = await storage.getPlants(user.id);
-          
-          return {
-            user: safeUser,
-            followers: followCounts.followers,
-            following: followCounts.following,
-            plantsCount: plants.length,
-            isFollowing: followingIds.includes(user.id)
-          };
-        })
-      );
-      
-      // Sort by follower count (descending)
-      const trending = usersWithFollowerCounts
-        .sort((a: any, b: any) => b.followers - a.followers || b.plantsCount - a.plantsCount)
-        .slice(0, 6);
-      
-      return res.status(200).json(trending);
+      return res.status(200).json(await getTrendingUsers(req.user!.id, page));
     } catch (error) {
       logger.error('Error fetching trending users:', error);
       return res.status(500).json({ message: "Failed to fetch trending users" });
     }
   });
   
-  // Search users
+  // Search users (public profiles, or users already followed)
   app.get('/api/discover/search', isAuthenticated, async (req: Request, res: Response) => {
     try {
       const userId = req.user!.id;
-      const query = req.query.q ? String(req.query.q).toLowerCase() : '';
+      const query = req.query.q ? String(req.query.q).trim() : '';
       
       if (!query) {
         return res.status(200).json([]);
       }
       
-      // Get all users
-      const users = await storage.getUsers();
-      
-      // Get current user's following list
-      const following = await storage.getFollowing(userId);
-      const followingIds = following.map(user => user.id);
-      
-      // Filter users based on search query, exclude current user
-      const matchingUsers = users.filter((user: User) => 
-        user.id !== userId && 
-        (user.username.toLowerCase().includes(query) || 
-         (user.displayName && user.displayName.toLowerCase().includes(query)) ||
-         (user.email && user.email.toLowerCase().includes(query)))
-      );
-      
-      // Get additional info for each matching user
-      const results = await Promise.all(
-        matchingUsers.map(async (user: User) => {
-          const { password, ...safeUser } = user;
-          const followCounts = await storage.getFollowCount(user.id);
-          const plants = await storage.getPlants(user.id);
-          
-          return {
-            user: safeUser,
-            followers: followCounts.followers,
-            following: followCounts.following,
-            plantsCount: plants.length,
-            isFollowing: followingIds.includes(user.id)
-          };
-        })
-      );
+      // Matching and privacy rules are applied in SQL by the search service
+      const { results: profiles } = await search(userId, query, { types: ['profile'], page: 1, limit: 20 });
+      const results = await storage.getDiscoverUsers(userId, profiles.map(profile => profile.id));
       
       return res.status(200).json(results);
     } catch (error) {
@@ -0,0 +1,75 @@
+import { Express, Request, Response } from 'express';
+import { asyncHandler } from '../utils/errorHandler';
+import { requireRole } from '../auth';
+import { storage } from '../storage';
+import { importSpecies, matchSpecies, toSpeciesGuide } from '../services/speciesCatalog';
+import { speciesImportSchema, TAXON_RANKS, type Species } from '@shared/schema';
+import * as logger from '../services/logger';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+export function setupSpeciesRoutes(app: Express) {
+  // Browse and search the species catalogue (?search=&rank=&page=&limit=)
+  app.get('/api/species', asyncHandler(async (req: Request, res: Response) => {
+    const page = Math.max(parseInt(String(req.query.page ?? '1'), 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? DEFAULT_PAGE_SIZE), 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const search = typeof req.query.search === 'string' ? req.query.search.trim() : '';
+    const rank = TAXON_RANKS.find(value => value === req.query.rank) as Species['rank'] | undefined;
+
+    const result = await storage.searchSpecies({
+      search: search || undefined,
+      rank,
+      limit,
+      offset: (page - 1) * limit,
+    });
+    return res.json({
+      species: result.species.map(entry => toSpeciesGuide(entry, 'exact')),
+      total: result.total,
+      page,
+      limit,
+    });
+  }));
+
+  // Best catalogue match for a plant name, with how it was matched
+  app.get('/api/species/match', asyncHandler(async (req: Request, res: Response) => {
+    const name = typeof req.query.name === 'string' ? req.query.name : '';
+    if (!name.trim()) {
+      return res.status(400).json({ message: 'A name is required' });
+    }
+
+    const guide = await matchSpecies(name);
+    if (!guide) {
+      return res.status(404).json({ message: 'No matching species found' });
+    }
+    return res.json(guide);
+  }));
+
+  app.get('/api/species/:id', asyncHandler(async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid species ID' });
+    }
+
+    const entry = await storage.getSpecies(id);
+    if (!entry) {
+      return res.status(404).json({ message: 'Species not found' });
+    }
+    return res.json(toSpeciesGuide(entry, 'exact'));
+  }));
+
+  // Admin-only: add or update catalogue entries by scientific name (?dryRun=true to only validate)
+  app.post('/api/admin/species/import', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
+    const result = speciesImportSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid species import', errors: result.error });
+    }
+
+    const dryRun = req.query.dryRun === 'true';
+    const counts = await importSpecies(result.data.species, { dryRun });
+    if (!dryRun) {
+      logger.info(`User ${req.user!.id} imported ${result.data.species.length} species`);
+    }
+    return res.status(dryRun ? 200 : 201).json({ ...counts, dryRun });
+  }));
+}
@@ -0,0 +1,66 @@
+import { Express, Request, Response } from 'express';
+import { asyncHandler } from '../utils/errorHandler';
+import { isAuthenticated } from '../auth';
+import { storage } from '../storage';
+import { getWateringSuggestion, applyWateringSuggestion } from '../services/wateringAdvisor';
+import { canAccessPlant } from '../services/gardenAccess';
+
+export function setupWateringRoutes(app: Express) {
+  // Learned watering intervals for all of the user's plants
+  app.get('/api/watering-suggestions', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const plants = await storage.getPlants(req.user!.id);
+    const suggestions = await Promise.all(plants.map(async plant => ({
+      ...(await getWateringSuggestion(plant)),
+      plantName: plant.name,
+      adaptiveWatering: plant.adaptiveWatering,
+    })));
+    return res.json(suggestions);
+  }));
+
+  // Learned watering interval for one plant, with the explanation
+  app.get('/api/plants/:id/watering-suggestion', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const plantId = parseInt(req.params.id);
+    if (isNaN(plantId)) {
+      return res.status(400).json({ message: 'Invalid plant ID' });
+    }
+
+    const plant = await storage.getPlant(plantId);
+    if (!plant) {
+      return res.status(404).json({ message: 'Plant not found' });
+    }
+    if (!(await canAccessPlant(plant, req.user!.id, 'view'))) {
+      return res.status(403).json({ message: "You don't have permission to access this plant" });
+    }
+
+    return res.json({
+      ...(await getWateringSuggestion(plant)),
+      adaptiveWatering: plant.adaptiveWatering,
+      lastAdjustedAt: plant.waterFrequencyAdjustedAt,
+      lastAdjustmentNote: plant.waterFrequencyNote,
+    });
+  }));
+
+  // Accept the current suggestion
+  app.post('/api/plants/:id/watering-suggestion/apply', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const plantId = parseInt(req.params.id);
+    if (isNaN(plantId)) {
+      return res.status(400).json({ message: 'Invalid plant ID' });
+    }
+
+    const plant = await storage.getPlant(plantId);
+    if (!plant) {
+      return res.status(404).json({ message: 'Plant not found' });
+    }
+    if (!(await canAccessPlant(plant, req.user!.id, 'care'))) {
+      return res.status(403).json({ message: "You don't have permission to modify this plant" });
+    }
+
+    const suggestion = await getWateringSuggestion(plant);
+    if (!suggestion.shouldAdjust) {
+      return res.status(409).json({ message: 'No watering change is suggested for this plant', suggestion });
+    }
+
+    const updatedPlant = await applyWateringSuggestion(plant, suggestion);
+    return res.json({ plant: updatedPlant, suggestion });
+  }));
+}
@@ -0,0 +1,139 @@
+import { Express, Request, Response } from 'express';
+import rateLimit from 'express-rate-limit';
+import { asyncHandler } from '../utils/errorHandler';
+import { isAuthenticated } from '../auth';
+import { storage } from '../storage';
+import { checkWebhookUrl, generateWebhookSecret, sendTestWebhook } from '../services/webhooks';
+import {
+  createWebhookEndpointSchema,
+  updateWebhookEndpointSchema,
+  type WebhookEndpoint,
+} from '@shared/schema';
+
+const DEFAULT_DELIVERY_LOG_LIMIT = 20;
+const MAX_DELIVERY_LOG_LIMIT = 100;
+
+const webhookTestLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { message: 'Too many test events, please try again later' },
+});
+
+function parseId(value: string): number | null {
+  const id = parseInt(value, 10);
+  return isNaN(id) ? null : id;
+}
+
+// Loads the endpoint in :id if the current user owns it, answering the request if not
+async function loadEndpoint(req: Request, res: Response): Promise<WebhookEndpoint | null> {
+  const endpointId = parseId(req.params.id);
+  if (endpointId === null) {
+    res.status(400).json({ message: 'Invalid webhook ID' });
+    return null;
+  }
+
+  const endpoint = await storage.getWebhookEndpoint(endpointId);
+  if (!endpoint || endpoint.userId !== req.user!.id) {
+    res.status(404).json({ message: 'Webhook not found' });
+    return null;
+  }
+  return endpoint;
+}
+
+async function findSummary(userId: number, endpointId: number) {
+  return (await storage.getWebhookEndpoints(userId)).find(endpoint => endpoint.id === endpointId);
+}
+
+export function setupWebhookRoutes(app: Express) {
+  app.get('/api/webhooks', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    return res.json(await storage.getWebhookEndpoints(req.user!.id));
+  }));
+
+  // Register an endpoint; its signing secret is in the response and can't be retrieved again
+  app.post('/api/webhooks', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const result = createWebhookEndpointSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid webhook', errors: result.error });
+    }
+
+    const urlError = checkWebhookUrl(result.data.url);
+    if (urlError) {
+      return res.status(400).json({ message: urlError });
+    }
+
+    const secret = generateWebhookSecret();
+    const endpoint = await storage.createWebhookEndpoint({
+      userId: req.user!.id,
+      url: result.data.url,
+      description: result.data.description || null,
+      secret,
+      eventTypes: Array.from(new Set(result.data.eventTypes)),
+    });
+    return res.status(201).json({ ...(await findSummary(req.user!.id, endpoint.id)), secret });
+  }));
+
+  // Change the URL, description or events, or pause the endpoint with { active: false }
+  app.patch('/api/webhooks/:id', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const endpoint = await loadEndpoint(req, res);
+    if (!endpoint) return;
+
+    const result = updateWebhookEndpointSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid webhook', errors: result.error });
+    }
+
+    const { url, description, eventTypes, active } = result.data;
+    if (url !== undefined) {
+      const urlError = checkWebhookUrl(url);
+      if (urlError) {
+        return res.status(400).json({ message: urlError });
+      }
+    }
+
+    await storage.updateWebhookEndpoint(endpoint.id, {
+      url,
+      description: description === undefined ? undefined : description || null,
+      eventTypes: eventTypes ? Array.from(new Set(eventTypes)) : undefined,
+      active,
+    });
+    return res.json(await findSummary(req.user!.id, endpoint.id));
+  }));
+
+  // Issue a new signing secret; payloads are signed with it from now on
+  app.post('/api/webhooks/:id/secret', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const endpoint = await loadEndpoint(req, res);
+    if (!endpoint) return;
+
+    const secret = generateWebhookSecret();
+    await storage.updateWebhookEndpoint(endpoint.id, { secret });
+    return res.json({ ...(await findSummary(req.user!.id, endpoint.id)), secret });
+  }));
+
+  // Remove an endpoint along with its delivery log and anything still queued for it
+  app.delete('/api/webhooks/:id', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const endpoint = await loadEndpoint(req, res);
+    if (!endpoint) return;
+
+    await storage.deleteWebhookEndpoint(endpoint.id);
+    return res.status(204).send();
+  }));
+
+  // Recent deliveries to the endpoint, newest first
+  app.get('/api/webhooks/:id/deliveries', isAuthenticated, asyncHandler(async (req: Request, res: Response) => {
+    const endpoint = await loadEndpoint(req, res);
+    if (!endpoint) return;
+
+    const limit = Math.min(parseInt(String(req.query.limit), 10) || DEFAULT_DELIVERY_LOG_LIMIT, MAX_DELIVERY_LOG_LIMIT);
+    return res.json(await storage.getWebhookDeliveries(endpoint.id, limit));
+  }));
+
+  // Send a "test" event now and report how the endpoint answered
+  app.post('/api/webhooks/:id/test', isAuthenticated, webhookTestLimiter, asyncHandler(async (req: Request, res: Response) => {
+    const endpoint = await loadEndpoint(req, res);
+    if (!endpoint) return;
+
+    return res.json(await sendTestWebhook(endpoint, req.user!));
+  }));
+}
@@ -0,0 +1,320 @@
+import type OpenAI from "openai";
+import { createHash } from "crypto";
+import type { SpeciesGuide } from "@shared/schema";
+import type {
+  PlantCareRecommendations,
+  PlantHealthDiagnosis,
+  PersonalizedAdvice,
+  SeasonalCareGuide,
+  ArrangementSuggestion,
+  GrowthAnalysis,
+  PlantCareAnswer,
+  OptimizedCareSchedule,
+  CommunityInsight,
+  SimpleHealthAnalysis,
+} from "./openai";
+
+type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+type FixtureGuide = Pick<
+  SpeciesGuide,
+  "scientificName" | "commonName" | "description" | "careTips" | "category"
+  | "idealWaterFrequency" | "idealSunlight" | "idealFertilizerFrequency"
+>;
+
+const PLANT_TYPES = ["tropical", "succulent", "herb", "flowering", "fern"];
+const WEEKDAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"];
+
+// Used when the species catalogue is empty so fixtures still have something to say
+const FALLBACK_GUIDE: FixtureGuide = {
+  scientificName: "Epipremnum aureum",
+  commonName: "Pothos",
+  description: "A hardy trailing vine with heart-shaped leaves.",
+  careTips: "Let the top inch of soil dry out between waterings and trim leggy vines to encourage bushier growth.",
+  idealWaterFrequency: 7,
+  idealSunlight: "medium",
+  idealFertilizerFrequency: 30,
+  category: "tropical",
+};
+
+/**
+ * The text the user sent, ignoring system prompts (whose examples would
+ * otherwise match plant names) and images.
+ */
+function userText(messages: ChatMessage[]): string {
+  return messages
+    .filter(message => message.role === "user")
+    .map(message => typeof message.content === "string"
+      ? message.content
+      : (message.content ?? []).map(part => part.type === "text" ? part.text : "").join(" "))
+    .join("\n");
+}
+
+// Stable fingerprint of the whole request, images included
+function requestHash(messages: ChatMessage[]): number {
+  return parseInt(createHash("sha256").update(JSON.stringify(messages)).digest("hex").slice(0, 8), 16);
+}
+
+/**
+ * Guides named in the request, in the order they appear. When none are named
+ * (e.g. a photo), one is picked from a hash of the request so the same input
+ * always gets the same answer.
+ */
+function pickGuides(messages: ChatMessage[], guides: FixtureGuide[]): FixtureGuide[] {
+  const available = guides.length > 0 ? guides : [FALLBACK_GUIDE];
+  const text = userText(messages).toLowerCase();
+
+  const mentioned = available
+    .map(guide => ({
+      guide,
+      index: Math.min(
+        ...[guide.commonName, guide.scientificName]
+          .map(name => text.indexOf(name.toLowerCase()))
+          .map(index => index === -1 ? Infinity : index)
+      ),
+    }))
+    .filter(match => match.index !== Infinity)
+    .sort((a, b) => a.index - b.index)
+    .map(match => match.guide);
+
+  if (mentioned.length > 0) return mentioned;
+  return [available[requestHash(messages) % available.length]];
+}
+
+function plantType(guide: FixtureGuide): string {
+  const category = (guide.category || "").toLowerCase();
+  return PLANT_TYPES.includes(category) ? category : "other";
+}
+
+function sunlightNotes(guide: FixtureGuide): string {
+  switch (guide.idealSunlight) {
+    case "low": return "Tolerates low light; keep it away from harsh direct sun.";
+    case "high": return "Needs bright light with some direct sun each day.";
+    default: return "Prefers bright, indirect light.";
+  }
+}
+
+function careRecommendations(guide: FixtureGuide): PlantCareRecommendations {
+  return {
+    commonName: guide.commonName,
+    scientificName: guide.scientificName,
+    description: guide.description,
+    wateringGuidelines: {
+      frequency: guide.idealWaterFrequency,
+      notes: `Water about every ${guide.idealWaterFrequency} days, checking that the top of the soil has dried first.`,
+    },
+    sunlightRequirements: { level: guide.idealSunlight, notes: sunlightNotes(guide) },
+    fertilizerGuidelines: {
+      frequency: guide.idealFertilizerFrequency,
+      notes: `Feed with a balanced fertilizer about every ${guide.idealFertilizerFrequency} days during the growing season.`,
+    },
+    careTips: guide.careTips,
+    interestingFact: `${guide.commonName} is known botanically as ${guide.scientificName}.`,
+  };
+}
+
+function healthDiagnosis(guide: FixtureGuide): PlantHealthDiagnosis {
+  return {
+    issue: "Mild underwatering",
+    cause: `Leaves show slight curling, which in a ${guide.commonName} usually means the soil stayed dry for too long.`,
+    solution: `Water thoroughly and return to watering about every ${guide.idealWaterFrequency} days.`,
+    preventionTips: ["Check soil moisture before watering", "Keep a regular watering routine", "Avoid placing the plant near heaters"],
+    severity: "low",
+    confidenceLevel: "medium",
+  };
+}
+
+function personalizedAdvice(guide: FixtureGuide): PersonalizedAdvice {
+  return {
+    careActions: {
+      immediate: ["Check the soil moisture about an inch down"],
+      thisWeek: [`Water if the top of the soil is dry (roughly every ${guide.idealWaterFrequency} days)`],
+      thisMonth: [`Fertilize once (every ${guide.idealFertilizerFrequency} days during growth)`, "Wipe dust off the leaves"],
+    },
+    observationTips: ["Watch for yellowing lower leaves", "Look for new growth at the tips"],
+    growthExpectations: `A healthy ${guide.commonName} should put out new leaves steadily through spring and summer.`,
+    seasonalAdjustments: "Water less often in winter when growth slows.",
+    commonProblems: [
+      { issue: "Overwatering", symptoms: "Yellow, soft leaves and damp soil", solution: "Let the soil dry out and water less often" },
+    ],
+    successMetrics: ["New leaves each month", "Firm, evenly coloured foliage"],
+  };
+}
+
+function seasonalGuide(text: string, guides: FixtureGuide[]): SeasonalCareGuide {
+  const season = text.match(/\b(spring|summer|fall|autumn|winter)\b/i)?.[1] ?? "Spring";
+  const dormant = /fall|autumn|winter/i.test(season);
+  return {
+    season: season.charAt(0).toUpperCase() + season.slice(1).toLowerCase(),
+    generalRecommendations: dormant
+      ? "Growth slows down, so water less often and pause fertilizing."
+      : "Plants are actively growing, so water and feed on their regular schedule.",
+    plants: guides.map(guide => ({
+      name: guide.commonName,
+      scientificName: guide.scientificName,
+      watering: dormant
+        ? `Stretch watering to about every ${guide.idealWaterFrequency + 3} days.`
+        : `Water about every ${guide.idealWaterFrequency} days.`,
+      light: sunlightNotes(guide),
+      fertilizing: dormant ? "Pause fertilizing until spring." : `Fertilize about every ${guide.idealFertilizerFrequency} days.`,
+      pruning: "Remove yellow or damaged leaves.",
+      specialCare: guide.careTips,
+    })),
+  };
+}
+
+function arrangementSuggestion(guides: FixtureGuide[]): ArrangementSuggestion {
+  const groups = (["high", "medium", "low"] as const)
+    .map(level => ({ level, plants: guides.filter(guide => guide.idealSunlight === level) }))
+    .filter(group => group.plants.length > 0);
+
+  return {
+    recommendations: {
+      grouping: "Group plants with similar light and watering needs.",
+      placement: "Put sun lovers nearest the window and shade-tolerant plants further back.",
+      aesthetics: "Mix trailing and upright plants at different heights.",
+      careConsiderations: "Plants grouped together can share a watering routine.",
+    },
+    plantGroups: groups.map(group => ({
+      name: `${group.level.charAt(0).toUpperCase()}${group.level.slice(1)} light`,
+      plants: group.plants.map(guide => guide.commonName),
+      location: group.level === "high" ? "South-facing window" : group.level === "medium" ? "East or west window" : "Interior shelf",
+      notes: `These plants all prefer ${group.level} light.`,
+    })),
+    visualDescription: "A layered arrangement stepping down from bright window plants to shade-tolerant foliage.",
+  };
+}
+
+function growthAnalysis(guide: FixtureGuide): GrowthAnalysis {
+  return {
+    growthAssessment: `The ${guide.commonName} has grown steadily between the two photos.`,
+    healthChanges: "Foliage looks fuller and evenly coloured.",
+    growthRate: "moderate",
+    potentialIssues: ["Slight leaning towards the light source"],
+    recommendations: ["Rotate the pot a quarter turn each week", guide.careTips],
+    comparisonNotes: "The newer photo shows more leaves than the older one.",
+  };
+}
+
+function careAnswer(guide: FixtureGuide): PlantCareAnswer {
+  return {
+    answer: `${guide.careTips} Water about every ${guide.idealWaterFrequency} days and give it ${guide.idealSunlight} light.`,
+    recommendations: [
+      `Water roughly every ${guide.idealWaterFrequency} days`,
+      `Fertilize about every ${guide.idealFertilizerFrequency} days in the growing season`,
+    ],
+    relatedPlants: [guide.commonName],
+    confidenceLevel: "medium",
+  };
+}
+
+function optimizedSchedule(guides: FixtureGuide[]): OptimizedCareSchedule {
+  return {
+    weeklySchedule: WEEKDAYS.map((day, dayIndex) => ({
+      day,
+      tasks: guides
+        .filter(guide => dayIndex % Math.max(1, Math.min(guide.idealWaterFrequency, 7)) === 0)
+        .map(guide => ({
+          plantName: guide.commonName,
+          careType: "water",
+          estimatedTime: "5 minutes",
+          instructions: "Water until it drains from the bottom of the pot.",
+        })),
+    })),
+    specialNotes: ["Check soil moisture before each watering"],
+    efficiencyTips: ["Water plants in the same room together"],
+  };
+}
+
+function communityInsight(guide: FixtureGuide): CommunityInsight {
+  return {
+    plantType: guide.commonName,
+    bestPractices: {
+      watering: `Most growers water about every ${guide.idealWaterFrequency} days.`,
+      light: sunlightNotes(guide),
+      soil: "A well-draining potting mix.",
+      fertilizing: `About every ${guide.idealFertilizerFrequency} days in spring and summer.`,
+    },
+    commonIssues: [
+      { issue: "Overwatering", frequency: "common", solutions: ["Water less often", "Use a pot with drainage holes"] },
+    ],
+    successPatterns: ["Consistent watering schedules"],
+    overallRecommendations: guide.careTips,
+  };
+}
+
+function photoAnalysis(guide: FixtureGuide): SimpleHealthAnalysis {
+  return {
+    healthAssessment: `This ${guide.commonName} looks healthy.`,
+    growthRate: "moderate",
+    careRecommendations: [`Keep watering about every ${guide.idealWaterFrequency} days`, "Monitor for any changes in leaf colour"],
+    confidenceLevel: "medium",
+  };
+}
+
+function lightMeterResult(text: string, guides: FixtureGuide[]) {
+  // The request includes the brightness algorithm's own classification
+  const measured = text.match(/classified as: (.+?) \((\d+)-(\d+) lux\)/);
+  return {
+    lightLevel: {
+      name: measured?.[1] ?? "Medium light",
+      luxRange: measured ? [parseInt(measured[2], 10), parseInt(measured[3], 10)] : [1000, 10000],
+      description: "Estimated from the measured brightness.",
+    },
+    plantRecommendations: {
+      recommended: guides.map(guide => guide.commonName),
+      notRecommended: [],
+      explanation: "Chosen from the species catalogue.",
+    },
+    additionalAdvice: "Measure again at a different time of day to see how the light changes.",
+    confidence: "low",
+  };
+}
+
+/**
+ * Builds the JSON a model would return for a feature's prompt. Each shape
+ * matches what the feature in openai.ts (or the light meter) parses.
+ */
+export function buildFixtureResponse(feature: string, messages: ChatMessage[], guides: FixtureGuide[]): unknown {
+  const matched = pickGuides(messages, guides);
+  const guide = matched[0];
+  const text = userText(messages);
+
+  switch (feature) {
+    case "care_recommendations":
+      return careRecommendations(guide);
+    case "plant_identification":
+      return { plantType: plantType(guide), commonName: guide.commonName, scientificName: guide.scientificName, confidence: "medium" };
+    case "health_diagnosis":
+      return healthDiagnosis(guide);
+    case "personalized_advice":
+      return personalizedAdvice(guide);
+    case "seasonal_recommendations":
+      return seasonalGuide(text, matched);
+    case "arrangement_suggestions":
+      return arrangementSuggestion(matched);
+    case "identity_verification":
+      return { matches: true, confidence: "medium" };
+    case "journal_entry":
+      return {
+        title: `${guide.commonName} update`,
+        observations: ["Leaves look healthy", "Care has been regular"],
+        growthProgress: "Steady growth since the last entry.",
+      };
+    case "growth_analysis":
+      return growthAnalysis(guide);
+    case "plant_care_answer":
+      return careAnswer(guide);
+    case "optimized_schedule":
+      return optimizedSchedule(matched);
+    case "community_insights":
+      return communityInsight(guide);
+    case "care_log_photo_analysis":
+      return photoAnalysis(guide);
+    case "light_analysis":
+      return { sunlightLevel: guide.idealSunlight, confidence: "low" };
+    case "light_meter":
+      return lightMeterResult(text, matched);
+    default:
+      throw new Error(`No fixture response for AI feature "${feature}"`);
+  }
+}
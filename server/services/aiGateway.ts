@@ -0,0 +1,300 @@
+import OpenAI from "openai";
+import { AsyncLocalStorage } from "async_hooks";
+import { createHash } from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import * as logger from "./logger";
+import {
+  getAiProvider,
+  getAiProviderByName,
+  getConfiguredProviderNames,
+  type AiProvider,
+  type ChatCompletion,
+  type ChatCompletionParams,
+  type ModelTier,
+} from "./aiProviders";
+
+const isProduction = process.env.NODE_ENV === "production";
+
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_DAILY_QUOTA = 50;
+const DEFAULT_CACHE_TTL_HOURS = 24;
+const INITIAL_BACKOFF_MS = 1000;
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+// USD per million tokens, used to estimate what each request cost
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+};
+
+export class AiQuotaExceededError extends Error {
+  constructor(public readonly limit: number) {
+    super(`Daily AI request limit of ${limit} reached. Please try again tomorrow.`);
+    this.name = "AiQuotaExceededError";
+  }
+}
+
+// A chat completion request without a model; the feature's provider picks one for the tier
+export type AiChatRequest = Omit<ChatCompletionParams, "model"> & { modelTier?: ModelTier };
+
+export interface AiRequestOptions {
+  // Which feature made the request, for usage reporting (e.g. "plant_identification")
+  feature: string;
+  // Explicit cache key; defaults to a hash of the request
+  cacheKey?: string;
+  // How long to reuse the response; 0 disables caching
+  cacheTtlMs?: number;
+}
+
+interface AiRequestContext {
+  userId: number | null;
+}
+
+const requestContext = new AsyncLocalStorage<AiRequestContext>();
+
+// Identical requests in flight share one upstream call
+const inFlight = new Map<string, Promise<ChatCompletion>>();
+
+let lastCachePrune = 0;
+
+function getNumberEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return isNaN(value) ? fallback : value;
+}
+
+/**
+ * Fails fast at startup when a configured provider is unusable. In production
+ * an OpenAI key is required unless another provider was chosen explicitly.
+ */
+export function assertAiConfigured(): void {
+  if (isProduction && !process.env.AI_PROVIDER && !process.env.OPENAI_API_KEY) {
+    logger.error("CRITICAL: OPENAI_API_KEY is not set in production. The application cannot start.");
+    throw new Error("OpenAI API key is required for production. Please set the OPENAI_API_KEY environment variable or choose another AI_PROVIDER.");
+  }
+  if (!process.env.AI_PROVIDER && !process.env.OPENAI_API_KEY) {
+    logger.warn("OPENAI_API_KEY is not set. AI features will return offline fixture responses.");
+  }
+  for (const name of getConfiguredProviderNames()) {
+    try {
+      getAiProviderByName(name);
+    } catch (error) {
+      if (isProduction) throw error;
+      logger.warn(`AI provider "${name}" is not usable: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
+
+/**
+ * Whether a feature (or the default provider) can currently be used.
+ */
+export function isAiConfigured(feature?: string): boolean {
+  try {
+    getAiProvider(feature);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Express middleware that remembers the signed-in user for the rest of the
+ * request (including background work it starts), so AI calls made while
+ * handling it are attributed to them.
+ */
+export function aiRequestContext(req: Request, _res: Response, next: NextFunction): void {
+  requestContext.run({ userId: req.user?.id ?? null }, next);
+}
+
+function currentUserId(): number | null {
+  return requestContext.getStore()?.userId ?? null;
+}
+
+export function getDailyQuota(): number {
+  return getNumberEnv("AI_DAILY_QUOTA", DEFAULT_DAILY_QUOTA);
+}
+
+function startOfUtcDay(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+/**
+ * How many uncached AI requests the user has made today and their limit.
+ * A limit of 0 means unlimited.
+ */
+export async function getQuotaStatus(userId: number, now: Date = new Date()): Promise<{ used: number; limit: number; remaining: number | null }> {
+  const { storage } = await import("../storage");
+  const limit = getDailyQuota();
+  const used = await storage.countAiRequestsSince(userId, startOfUtcDay(now));
+  return { used, limit, remaining: limit > 0 ? Math.max(0, limit - used) : null };
+}
+
+/**
+ * Express middleware that rejects AI endpoints with a 429 once the user is out
+ * of requests for the day, before any work is done.
+ */
+export async function enforceAiQuota(req: Request, res: Response, next: NextFunction): Promise<void> {
+  if (req.method === "GET" || !req.user || getDailyQuota() <= 0) return next();
+  try {
+    const quota = await getQuotaStatus(req.user.id);
+    if (quota.remaining === 0) {
+      res.status(429).json({ message: new AiQuotaExceededError(quota.limit).message, quota });
+      return;
+    }
+  } catch (error) {
+    // Don't block AI features because accounting is unavailable
+    logger.error("Error checking AI quota:", error);
+  }
+  next();
+}
+
+export function estimateCost(model: string, promptTokens: number, completionTokens: number): number {
+  const pricing = MODEL_PRICING[model] ?? MODEL_PRICING[Object.keys(MODEL_PRICING).find(name => model.startsWith(name)) ?? ""];
+  if (!pricing) return 0;
+  return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Stable hash of anything JSON-serialisable. Used for request cache keys and
+ * to key image-based requests by the image's content.
+ */
+export function hashContent(value: unknown): string {
+  return createHash("sha256").update(typeof value === "string" ? value : JSON.stringify(value)).digest("hex");
+}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof OpenAI.APIConnectionError) return true; // Includes timeouts
+  if (error instanceof OpenAI.APIError) {
+    // Running out of credit is a 429 too, but waiting won't help
+    if (error.code === "insufficient_quota") return false;
+    return error.status === 429 || (error.status !== undefined && error.status >= 500);
+  }
+  return false;
+}
+
+function retryDelayMs(error: unknown, attempt: number): number {
+  if (error instanceof OpenAI.APIError) {
+    const retryAfterMs = parseInt(error.headers?.get("retry-after-ms") || "", 10);
+    if (!isNaN(retryAfterMs)) return retryAfterMs;
+  }
+  // Exponential backoff with a little jitter
+  return INITIAL_BACKOFF_MS * Math.pow(2, attempt) + Math.floor(Math.random() * 250);
+}
+
+async function callWithRetries(provider: AiProvider, params: ChatCompletionParams, feature: string): Promise<ChatCompletion> {
+  const maxRetries = getNumberEnv("AI_MAX_RETRIES", DEFAULT_MAX_RETRIES);
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await provider.complete(params, feature);
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryable(error)) throw error;
+      const delay = retryDelayMs(error, attempt);
+      logger.warn(`AI request for ${feature} failed (attempt ${attempt + 1}), retrying in ${delay}ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+// Expired cache rows are cleared out at most once an hour, piggybacking on writes
+async function pruneExpiredCache(): Promise<void> {
+  if (Date.now() - lastCachePrune < MS_PER_HOUR) return;
+  lastCachePrune = Date.now();
+  const { storage } = await import("../storage");
+  const deleted = await storage.deleteExpiredAiCacheEntries(new Date());
+  if (deleted > 0) logger.info(`Pruned ${deleted} expired AI cache entries`);
+}
+
+async function recordUsage(
+  userId: number | null,
+  feature: string,
+  model: string,
+  completion: ChatCompletion | null,
+  cached: boolean
+): Promise<void> {
+  try {
+    const { storage } = await import("../storage");
+    const promptTokens = cached ? 0 : completion?.usage?.prompt_tokens ?? 0;
+    const completionTokens = cached ? 0 : completion?.usage?.completion_tokens ?? 0;
+    await storage.recordAiUsage({
+      userId,
+      feature,
+      model,
+      promptTokens,
+      completionTokens,
+      estimatedCost: estimateCost(model, promptTokens, completionTokens),
+      cached,
+      success: !!completion,
+    });
+  } catch (error) {
+    // Accounting must never break the feature itself
+    logger.error("Error recording AI usage:", error);
+  }
+}
+
+/**
+ * The one way the app talks to an AI model. Sends the request to the
+ * feature's provider, serves repeated requests from the cache, shares
+ * identical in-flight requests, enforces the caller's daily quota, retries
+ * transient failures with backoff and records tokens and cost.
+ */
+export async function createChatCompletion(request: AiChatRequest, options: AiRequestOptions): Promise<ChatCompletion> {
+  const provider = getAiProvider(options.feature);
+  const { modelTier = "default", ...rest } = request;
+  const params: ChatCompletionParams = { ...rest, model: provider.modelFor(modelTier) };
+
+  // Offline providers are free and instant, so skip caching and accounting
+  if (!provider.metered) {
+    return provider.complete(params, options.feature);
+  }
+
+  const { storage } = await import("../storage");
+  const userId = currentUserId();
+  const ttlMs = options.cacheTtlMs ?? getNumberEnv("AI_CACHE_TTL_HOURS", DEFAULT_CACHE_TTL_HOURS) * MS_PER_HOUR;
+  // Answers from one model shouldn't be served for another
+  const cacheKey = `${options.feature}:${provider.name}:${params.model}:${options.cacheKey ?? hashContent(params)}`;
+
+  if (ttlMs > 0) {
+    try {
+      const cachedEntry = await storage.getAiCacheEntry(cacheKey, new Date());
+      if (cachedEntry) {
+        await recordUsage(userId, options.feature, params.model, cachedEntry.response as ChatCompletion, true);
+        return cachedEntry.response as ChatCompletion;
+      }
+    } catch (error) {
+      logger.error("Error reading AI response cache:", error);
+    }
+  }
+
+  const pending = inFlight.get(cacheKey);
+  if (pending) {
+    const completion = await pending;
+    await recordUsage(userId, options.feature, params.model, completion, true);
+    return completion;
+  }
+
+  if (userId !== null) {
+    const quota = await getQuotaStatus(userId);
+    if (quota.remaining === 0) {
+      throw new AiQuotaExceededError(quota.limit);
+    }
+  }
+
+  const pendingRequest = callWithRetries(provider, params, options.feature);
+  inFlight.set(cacheKey, pendingRequest);
+  try {
+    const completion = await pendingRequest;
+    await recordUsage(userId, options.feature, params.model, completion, false);
+
+    if (ttlMs > 0 && completion.choices?.[0]?.message?.content) {
+      await storage.saveAiCacheEntry(cacheKey, options.feature, completion, new Date(Date.now() + ttlMs))
+        .then(pruneExpiredCache)
+        .catch(error => logger.error("Error writing AI response cache:", error));
+    }
+    return completion;
+  } catch (error) {
+    await recordUsage(userId, options.feature, params.model, null, false);
+    throw error;
+  } finally {
+    inFlight.delete(cacheKey);
+  }
+}
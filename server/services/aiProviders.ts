@@ -0,0 +1,182 @@
+import OpenAI from "openai";
+import * as logger from "./logger";
+import { buildFixtureResponse } from "./aiFixtures";
+import { toSpeciesGuide } from "./speciesCatalog";
+
+export type ChatCompletionParams = OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming;
+export type ChatCompletion = OpenAI.Chat.Completions.ChatCompletion;
+
+// Callers ask for a tier rather than a model so each provider can map it to its own models
+export type ModelTier = "default" | "fast";
+
+const DEFAULT_TIMEOUT_MS = 60 * 1000;
+
+/**
+ * Minimal interface every AI backend implements. Requests and responses use
+ * the OpenAI chat completion format, which local servers also speak.
+ */
+export interface AiProvider {
+  readonly name: string;
+  // Whether responses cost anything, so should be cached, metered and counted against quotas
+  readonly metered: boolean;
+  modelFor(tier: ModelTier): string;
+  complete(params: ChatCompletionParams, feature: string): Promise<ChatCompletion>;
+}
+
+/**
+ * Talks to OpenAI, or to any server exposing the OpenAI API such as Ollama
+ * or llama.cpp's server when `baseURL` is given.
+ */
+export class OpenAiCompatibleProvider implements AiProvider {
+  readonly metered = true;
+  private client: OpenAI;
+
+  constructor(
+    readonly name: string,
+    private options: { apiKey: string; baseURL?: string; models: Record<ModelTier, string>; timeoutMs: number }
+  ) {
+    // Retries are handled by the gateway so they can be logged and counted
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+      timeout: options.timeoutMs,
+      maxRetries: 0,
+    });
+  }
+
+  modelFor(tier: ModelTier): string {
+    return this.options.models[tier];
+  }
+
+  complete(params: ChatCompletionParams): Promise<ChatCompletion> {
+    return this.client.chat.completions.create(params);
+  }
+}
+
+/**
+ * Offline provider for development and tests. Answers every feature with
+ * deterministic JSON built from the species catalogue, without any network.
+ */
+export class FixtureProvider implements AiProvider {
+  readonly name = "fixture";
+  readonly metered = false;
+
+  modelFor(): string {
+    return "fixture";
+  }
+
+  async complete(params: ChatCompletionParams, feature: string): Promise<ChatCompletion> {
+    const { storage } = await import("../storage");
+    const guides = (await storage.getAllSpecies())
+      .filter(entry => entry.rank === "species")
+      .map(entry => toSpeciesGuide(entry, "exact"));
+    const content = buildFixtureResponse(feature, params.messages, guides);
+    return {
+      id: `fixture-${feature}`,
+      object: "chat.completion",
+      created: 0,
+      model: "fixture",
+      choices: [{
+        index: 0,
+        finish_reason: "stop",
+        logprobs: null,
+        message: { role: "assistant", content: JSON.stringify(content), refusal: null },
+      }],
+      usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+    };
+  }
+}
+
+function getTimeoutMs(): number {
+  const value = parseInt(process.env.AI_TIMEOUT_MS || "", 10);
+  return isNaN(value) ? DEFAULT_TIMEOUT_MS : value;
+}
+
+/**
+ * Builds a provider by name from environment variables.
+ */
+function createAiProvider(name: string): AiProvider {
+  if (name === "openai") {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error("OpenAI API key is not configured. Please set OPENAI_API_KEY in your .env file to use this feature.");
+    }
+    return new OpenAiCompatibleProvider("openai", {
+      apiKey: process.env.OPENAI_API_KEY,
+      models: {
+        default: process.env.AI_MODEL || "gpt-4o",
+        fast: process.env.AI_FAST_MODEL || "gpt-3.5-turbo",
+      },
+      timeoutMs: getTimeoutMs(),
+    });
+  }
+
+  if (name === "local") {
+    if (!process.env.AI_LOCAL_BASE_URL || !process.env.AI_LOCAL_MODEL) {
+      throw new Error("AI_LOCAL_BASE_URL and AI_LOCAL_MODEL must be set when using the local AI provider");
+    }
+    return new OpenAiCompatibleProvider("local", {
+      // Most local servers ignore the key, but the SDK requires one
+      apiKey: process.env.AI_LOCAL_API_KEY || "local",
+      baseURL: process.env.AI_LOCAL_BASE_URL,
+      models: {
+        default: process.env.AI_LOCAL_MODEL,
+        fast: process.env.AI_LOCAL_FAST_MODEL || process.env.AI_LOCAL_MODEL,
+      },
+      timeoutMs: getTimeoutMs(),
+    });
+  }
+
+  if (name === "fixture") {
+    return new FixtureProvider();
+  }
+
+  throw new Error(`Unknown AI provider "${name}". Use openai, local or fixture.`);
+}
+
+const providers = new Map<string, AiProvider>();
+
+// AI_PROVIDER_<FEATURE>, e.g. AI_PROVIDER_PLANT_IDENTIFICATION for "plant_identification"
+function featureProviderVariable(feature: string): string {
+  return `AI_PROVIDER_${feature.toUpperCase()}`;
+}
+
+/**
+ * The provider name used for a feature: its own AI_PROVIDER_<FEATURE> setting,
+ * then AI_PROVIDER, then OpenAI when OPENAI_API_KEY is set and the offline
+ * fixtures otherwise.
+ */
+export function getProviderName(feature?: string): string {
+  const override = feature ? process.env[featureProviderVariable(feature)] : undefined;
+  return (override || process.env.AI_PROVIDER || (process.env.OPENAI_API_KEY ? "openai" : "fixture")).toLowerCase();
+}
+
+export function getAiProviderByName(name: string): AiProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = createAiProvider(name);
+    providers.set(name, provider);
+    logger.info(`Using ${provider.name} AI provider`);
+  }
+  return provider;
+}
+
+export function getAiProvider(feature?: string): AiProvider {
+  return getAiProviderByName(getProviderName(feature));
+}
+
+/**
+ * Every provider name referenced by the configuration, so all of them can be
+ * checked at startup rather than on first use.
+ */
+export function getConfiguredProviderNames(): string[] {
+  const names = new Set([getProviderName()]);
+  for (const [key, value] of Object.entries(process.env)) {
+    if (key.startsWith("AI_PROVIDER_") && value) names.add(value.toLowerCase());
+  }
+  return Array.from(names);
+}
+
+// Allows tests and scripts to swap in a different provider
+export function setAiProvider(name: string, provider: AiProvider): void {
+  providers.set(name, provider);
+}
@@ -0,0 +1,171 @@
+import { createHash } from "crypto";
+import {
+  type AiReport,
+  type AiReportAction,
+  type AiReportFeature,
+  type AiReportWithActions,
+  type CareType,
+  type Reminder,
+} from "@shared/schema";
+import { canAccessPlant } from "./gardenAccess";
+import { addLocalDays, getUserTimezone } from "./reminderEngine";
+import * as logger from "./logger";
+
+// Reminder titles are cut to this length; the full action text goes in the message
+const MAX_TITLE_LENGTH = 80;
+
+// How many days out each group of personalized advice actions is due
+const ADVICE_DUE_IN_DAYS = { immediate: 0, thisWeek: 3, thisMonth: 14 } as const;
+
+// Growth analysis recommendations are due a week out
+const GROWTH_RECOMMENDATION_DUE_IN_DAYS = 7;
+
+// First match wins, so "water after repotting" counts as watering
+const CARE_TYPE_KEYWORDS: [CareType, RegExp][] = [
+  ["water", /\bwater/i],
+  ["fertilize", /fertili[sz]|feed/i],
+  ["repot", /repot/i],
+  ["prune", /prun|trim/i],
+  ["health_check", /inspect|check for|pests?\b/i],
+];
+
+export interface SaveAiReportOptions {
+  userId: number;
+  feature: AiReportFeature;
+  plantIds: number[];
+  input: unknown;
+  // Hashed instead of `input` when the stored input leaves things out, e.g. growth photos
+  hashInput?: unknown;
+  result: unknown;
+}
+
+export type CreateActionReminderOutcome =
+  | { status: "ok"; reminder: Reminder; report: AiReportWithActions }
+  | { status: "not_found" }
+  | { status: "forbidden" }
+  | { status: "conflict"; reminderId: number };
+
+function hashReportInput(feature: AiReportFeature, plantIds: number[], input: unknown): string {
+  const sortedIds = [...plantIds].sort((a, b) => a - b);
+  return createHash("sha256").update(JSON.stringify({ feature, plantIds: sortedIds, input })).digest("hex");
+}
+
+/**
+ * Stores the result of an AI feature. When the same input was last answered
+ * with the same result (the AI gateway serves repeat requests from its cache),
+ * the existing report is returned instead of saving a copy.
+ */
+export async function saveAiReport(options: SaveAiReportOptions): Promise<AiReport> {
+  const { storage } = await import("../storage");
+  const { userId, feature, plantIds, input, result } = options;
+  const inputHash = hashReportInput(feature, plantIds, options.hashInput ?? input);
+
+  const latest = await storage.getLatestAiReport(userId, feature, inputHash);
+  if (latest && JSON.stringify(latest.result) === JSON.stringify(result)) {
+    return latest;
+  }
+
+  const report = await storage.createAiReport({ userId, feature, plantIds, inputHash, input, result });
+  logger.info(`Saved ${feature} AI report ${report.id} for user ${userId}`);
+  return report;
+}
+
+// Best guess at the kind of care a free-text action or AI task is about
+export function inferCareType(text: string): CareType {
+  return CARE_TYPE_KEYWORDS.find(([, pattern]) => pattern.test(text))?.[0] ?? "other";
+}
+
+function asStrings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+}
+
+// Stored results are whatever the feature returned when the report was saved
+function asFields(value: unknown): Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+/**
+ * The action items in a report that can be turned into reminders. Only
+ * single-plant reports have them: personalized advice care actions and growth
+ * analysis recommendations.
+ */
+export function getReportActions(report: AiReport): AiReportAction[] {
+  if (report.plantIds.length !== 1) return [];
+  const plantId = report.plantIds[0];
+  const result = asFields(report.result);
+
+  const groups: { key: string; items: string[]; dueInDays: number }[] = [];
+  if (report.feature === "personalized_advice") {
+    for (const [key, dueInDays] of Object.entries(ADVICE_DUE_IN_DAYS)) {
+      groups.push({ key, items: asStrings(asFields(result.careActions)[key]), dueInDays });
+    }
+  } else if (report.feature === "growth_analysis") {
+    groups.push({ key: "recommendations", items: asStrings(result.recommendations), dueInDays: GROWTH_RECOMMENDATION_DUE_IN_DAYS });
+  }
+
+  return groups.flatMap(({ key, items, dueInDays }) =>
+    items.map((text, index) => {
+      const id = `${key}.${index}`;
+      return {
+        id,
+        text,
+        plantId,
+        careType: inferCareType(text),
+        dueInDays,
+        reminderId: report.actionReminders[id] ?? null,
+      };
+    })
+  );
+}
+
+export function withActions(report: AiReport): AiReportWithActions {
+  return { ...report, actions: getReportActions(report) };
+}
+
+function truncate(text: string, length: number): string {
+  return text.length <= length ? text : `${text.slice(0, length - 1).trimEnd()}…`;
+}
+
+/**
+ * Turns one of a report's action items into a reminder on its plant, due the
+ * number of days the action suggests at the current local time of day.
+ */
+export async function createReminderFromAction(
+  reportId: number,
+  actionId: string,
+  userId: number,
+  now: Date = new Date()
+): Promise<CreateActionReminderOutcome> {
+  const { storage } = await import("../storage");
+  const report = await storage.getAiReport(reportId);
+  if (!report || report.userId !== userId) return { status: "not_found" };
+
+  const action = getReportActions(report).find((candidate) => candidate.id === actionId);
+  if (!action) return { status: "not_found" };
+  if (action.reminderId !== null) return { status: "conflict", reminderId: action.reminderId };
+
+  const plant = await storage.getPlant(action.plantId);
+  if (!plant) return { status: "not_found" };
+  if (!(await canAccessPlant(plant, userId, "care"))) return { status: "forbidden" };
+
+  const timezone = await getUserTimezone(userId);
+  const created = await storage.createAiReportActionReminder(report.id, action.id, {
+    plantId: plant.id,
+    userId,
+    title: truncate(action.text, MAX_TITLE_LENGTH),
+    message: `${plant.name}: ${action.text}`,
+    dueDate: addLocalDays(now, action.dueInDays, now, timezone).toISOString(),
+    careType: action.careType,
+    status: "pending",
+    recurring: false,
+    notified: false,
+  });
+
+  if (!created) {
+    // Another request turned the action into a reminder in the meantime
+    const current = await storage.getAiReport(report.id);
+    const reminderId = current?.actionReminders[action.id];
+    return typeof reminderId === "number" ? { status: "conflict", reminderId } : { status: "not_found" };
+  }
+  return { status: "ok", reminder: created.reminder, report: withActions(created.report) };
+}
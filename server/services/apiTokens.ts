@@ -0,0 +1,64 @@
+import { createHash, randomBytes } from "crypto";
+import {
+  type ApiToken,
+  type ApiTokenScope,
+  type ApiTokenSummary,
+  type CreateApiToken,
+  type User,
+} from "@shared/schema";
+import * as logger from "./logger";
+
+export const API_TOKEN_PREFIX = "hgp_";
+// last_used_at is written at most this often per token, not on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Creates a personal access token. Only its hash is stored, so the token
+ * itself is returned this once.
+ */
+export async function createApiToken(userId: number, input: CreateApiToken): Promise<{ apiToken: ApiTokenSummary; token: string }> {
+  const { storage } = await import("../storage");
+  const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+  const apiToken = await storage.createApiToken({
+    userId,
+    name: input.name,
+    tokenHash: hashApiToken(token),
+    tokenPrefix: token.slice(0, 8),
+    scopes: input.scopes,
+    expiresAt: input.expiresInDays ? new Date(Date.now() + input.expiresInDays * MS_PER_DAY) : null,
+  });
+  return { apiToken, token };
+}
+
+/**
+ * The token and its user for a bearer token that is neither revoked nor
+ * expired. Records when the token was last used.
+ */
+export async function authenticateApiToken(token: string, now = new Date()): Promise<{ apiToken: ApiToken; user: User } | undefined> {
+  if (!token.startsWith(API_TOKEN_PREFIX)) return undefined;
+
+  const { storage } = await import("../storage");
+  const apiToken = await storage.getApiTokenByHash(hashApiToken(token));
+  if (!apiToken || apiToken.revokedAt || (apiToken.expiresAt && apiToken.expiresAt <= now)) {
+    return undefined;
+  }
+
+  const user = await storage.getUser(apiToken.userId);
+  if (!user) return undefined;
+
+  if (!apiToken.lastUsedAt || now.getTime() - apiToken.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+    storage.touchApiToken(apiToken.id, now).catch(error => {
+      logger.error(`Failed to record use of API token ${apiToken.id}:`, error);
+    });
+  }
+  return { apiToken, user };
+}
+
+export function hasScope(apiToken: Pick<ApiToken, "scopes">, scope: ApiTokenScope): boolean {
+  return apiToken.scopes.includes(scope);
+}
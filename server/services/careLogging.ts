@@ -0,0 +1,259 @@
+import { type ZodType } from "zod/v4";
+import {
+  careLogMetadataSchema,
+  CARE_LOG_METADATA_VERSION,
+  type CareLog,
+  type CareLogMetadata,
+  type CareType,
+  type InsertCareLog,
+  type Plant,
+} from "@shared/schema";
+import { advanceRemindersForCare } from "./reminderEngine";
+import { adaptWateringAfterCare } from "./wateringAdvisor";
+import { analyzePlantImageLightLevel } from "./lightAnalyzer";
+import { savePhoto } from "./photoStorage";
+import { journalEntryToText } from "./search";
+import { publishCareLogged } from "./mqttBridge";
+import { emitCareLogAdded } from "./webhooks";
+import * as logger from "./logger";
+
+function handleError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+function isAfter(date: Date, previous: string | null): boolean {
+  return !previous || date.getTime() >= new Date(previous).getTime();
+}
+
+// Estimated lux range for each sunlight level, added to the notes of a care log photo
+const LUX_RANGES = { low: "100-500", medium: "500-2500", high: "2500+" } as const;
+
+// Flat fields the photo analysis wrote for a mismatch before there was identityCheck
+const LEGACY_IDENTITY_KEYS = ["plantIdentityMismatch", "expectedPlant", "detectedPlant", "confidence"];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * A care log's metadata in the current schema, or null if it has none. Rows
+ * from before the schema are brought up to date: JSON strings are parsed, the
+ * old identity mismatch fields become identityCheck, and anything the schema
+ * doesn't know or that doesn't validate is kept under `legacy`.
+ */
+export function normalizeCareLogMetadata(careType: CareType, metadata: unknown): CareLogMetadata | null {
+  let value = metadata;
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      value = { legacy: { text: value } };
+    }
+  }
+  if (value === null || value === undefined) return null;
+
+  const fields: Record<string, unknown> = isRecord(value) ? { ...value } : { legacy: { value } };
+  if (fields.plantIdentityMismatch === true && fields.identityCheck === undefined) {
+    fields.identityCheck = {
+      matches: false,
+      expectedPlant: fields.expectedPlant,
+      detectedPlant: fields.detectedPlant ?? null,
+      confidence: fields.confidence,
+    };
+    for (const key of LEGACY_IDENTITY_KEYS) delete fields[key];
+  }
+
+  const variant = careLogMetadataSchema.options.find(option => option.shape.careType.value === careType)!;
+  const shape = variant.shape as Record<string, ZodType>;
+  const legacy: Record<string, unknown> = isRecord(fields.legacy) ? { ...fields.legacy } : {};
+  const known: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(fields)) {
+    if (key === "legacy" || key === "careType" || key === "version") continue;
+    if (key in shape && shape[key].safeParse(field).success) {
+      known[key] = field;
+    } else {
+      legacy[key] = field;
+    }
+  }
+
+  if (Object.keys(known).length === 0 && Object.keys(legacy).length === 0) return null;
+  return careLogMetadataSchema.parse({
+    ...known,
+    ...(Object.keys(legacy).length > 0 && { legacy }),
+    careType,
+    version: CARE_LOG_METADATA_VERSION,
+  });
+}
+
+/**
+ * Brings a plant up to date after care was logged for it: re-learns the
+ * watering interval, moves its reminders on and records when it was last
+ * watered or fertilized, then tells MQTT and webhook subscribers. Shared by
+ * logCare and care logged over MQTT.
+ */
+export async function applyCareLog(plant: Plant, careLog: CareLog, userId: number): Promise<void> {
+  const { storage } = await import("../storage");
+
+  // Re-learn the watering interval first so the next reminder uses it
+  let carePlant = plant;
+  if (careLog.careType === "water") {
+    try {
+      const adapted = await adaptWateringAfterCare(plant);
+      if (adapted) carePlant = { ...plant, ...adapted };
+    } catch (error) {
+      logger.error("Error adapting watering interval after care log:", error);
+    }
+  }
+
+  // Advance any pending reminders for this kind of care (all care types),
+  // generating the next occurrence for recurring ones
+  try {
+    await advanceRemindersForCare(carePlant, careLog.careType, userId);
+  } catch (error) {
+    logger.error("Error advancing reminders after care log:", error);
+  }
+
+  // Care logged offline can be synced after later care, so the dates only move forward
+  const caredAt = careLog.timestamp ?? new Date();
+  if (careLog.careType === "water" && isAfter(caredAt, plant.lastWatered)) {
+    await storage.updatePlant(plant.id, { lastWatered: caredAt.toISOString() });
+  } else if (careLog.careType === "fertilize" && isAfter(caredAt, plant.lastFertilized)) {
+    await storage.updatePlant(plant.id, { lastFertilized: caredAt.toISOString() });
+  }
+
+  publishCareLogged(plant, careLog);
+  await emitCareLogAdded(plant, careLog);
+}
+
+/**
+ * Logs care for a plant the way POST /api/care-logs does. A photo sent as
+ * photoBase64 is moved to the blob store; its light level is added to the
+ * notes, and once the care log is saved it is analysed in the background to
+ * update the plant's sunlight level and write the AI journal entry. Care
+ * logged offline passes performedAt, the time it was actually done, and
+ * growth measurements are kept in the metadata.
+ */
+export async function logCare(plant: Plant, data: InsertCareLog, userId: number): Promise<CareLog> {
+  const { storage } = await import("../storage");
+  // Care is attributed to the member who logged it
+  const { performedAt, measurements, ...careLogData } = { ...data, plantId: plant.id, performedBy: userId };
+  // Care can't have been done in the future, whatever the device's clock says
+  const timestamp = performedAt && performedAt.getTime() < Date.now() ? performedAt : undefined;
+  // Measurements can be sent alongside the metadata as well as in it
+  const metadata = careLogData.metadata ?? (measurements ? { careType: careLogData.careType } : null);
+  if (metadata) {
+    careLogData.metadata = { ...metadata, ...(measurements && { measurements }), version: CARE_LOG_METADATA_VERSION } as CareLogMetadata;
+  }
+
+  let inlinePhoto: string | null = null;
+  if (careLogData.photoBase64) {
+    // The image itself goes to the blob store once the care log exists, so only
+    // its URL is persisted on the row
+    inlinePhoto = careLogData.photoBase64.startsWith("data:image/")
+      ? careLogData.photoBase64
+      : `data:image/jpeg;base64,${careLogData.photoBase64}`;
+    delete careLogData.photo;
+    delete careLogData.photoBase64;
+
+    try {
+      const { sunlightLevel, confidence } = await analyzePlantImageLightLevel(inlinePhoto);
+      // Include the analysis only if confidence is medium or high
+      if (confidence !== "low") {
+        const label = sunlightLevel.charAt(0).toUpperCase() + sunlightLevel.slice(1);
+        careLogData.notes = (careLogData.notes || "") + `\n\nlux: ${LUX_RANGES[sunlightLevel]} (${label} Light)`;
+      }
+    } catch (error) {
+      logger.error("Error performing light analysis on photo:", handleError(error));
+    }
+  }
+
+  let careLog = await storage.createCareLog(careLogData, timestamp);
+
+  if (inlinePhoto) {
+    try {
+      const photo = await savePhoto({
+        data: inlinePhoto,
+        kind: "care_log",
+        plantId: careLog.plantId,
+        careLogId: careLog.id,
+        userId,
+      });
+      careLog = (await storage.updateCareLog(careLog.id, { photo: photo.url })) || careLog;
+    } catch (error) {
+      // The care log itself is already saved, so keep it without the photo
+      logger.error("Error storing care log photo:", handleError(error));
+    }
+  }
+
+  await applyCareLog(plant, careLog, userId);
+
+  if (inlinePhoto) {
+    // Runs after the caller has responded, so it doesn't delay the request
+    analyzeCarePhoto(plant, careLog, inlinePhoto).catch(error => {
+      logger.error("Unhandled error in background analysis task:", error);
+    });
+  }
+
+  return careLog;
+}
+
+async function analyzeCarePhoto(plant: Plant, careLog: CareLog, inlinePhoto: string): Promise<void> {
+  const { storage } = await import("../storage");
+
+  try {
+    logger.info(`Analyzing light level for plant ID ${plant.id} from care log photo...`);
+    const { sunlightLevel, confidence } = await analyzePlantImageLightLevel(inlinePhoto);
+    logger.info(`Light analysis result: ${sunlightLevel} (confidence: ${confidence})`);
+
+    // Only update the plant if we have medium or high confidence in the result
+    if (confidence !== "low") {
+      await storage.updatePlant(plant.id, { sunlightLevel });
+      logger.info(`Updated plant ${plant.id} (${plant.name}) sunlight level to: ${sunlightLevel}`);
+    } else {
+      logger.info(`Low confidence in light analysis result, not updating plant record.`);
+    }
+  } catch (error) {
+    logger.error("Error performing background analysis:", handleError(error));
+  }
+
+  // Journal entry with a comprehensive analysis, including plant verification
+  try {
+    logger.info(`Generating journal entry for care log ${careLog.id}...`);
+    const { generateJournalEntry } = await import("./openai");
+
+    const plantWithCare = await storage.getPlantWithCare(plant.id);
+    if (!plantWithCare) {
+      throw new Error("Failed to get plant with care details");
+    }
+
+    // All past care logs, without the one being analysed
+    const careHistory = await storage.getPlantCareHistory(plant.id);
+    const pastCareHistory = careHistory.filter(log => log.id !== careLog.id);
+    logger.info(`Including ${pastCareHistory.length} previous care logs in the AI analysis for plant ${plant.id}`);
+
+    // The stored URL isn't reachable by the AI service, so pass the inline image
+    const journalEntry = await generateJournalEntry({ ...careLog, photo: inlinePhoto }, plantWithCare, pastCareHistory);
+
+    // The analysis is shown in its own section in the UI, but its text is kept for search
+    await storage.setCareLogJournalText(careLog.id, journalEntryToText(journalEntry));
+
+    if (journalEntry.plantIdentityMatch &&
+        journalEntry.plantIdentityMatch.confidence !== "low" &&
+        !journalEntry.plantIdentityMatch.matches) {
+      logger.info(`⚠️ Plant identity mismatch detected in care log ${careLog.id}!`);
+      logger.info(`Expected: ${plant.name}, Detected: ${journalEntry.plantIdentityMatch.detectedPlant || 'Unknown'}`);
+
+      // Merged, so a diagnosis or measurements logged with the care are kept
+      await storage.mergeCareLogMetadata(careLog.id, {
+        identityCheck: {
+          matches: false,
+          expectedPlant: plant.name,
+          detectedPlant: journalEntry.plantIdentityMatch.detectedPlant ?? null,
+          confidence: journalEntry.plantIdentityMatch.confidence,
+        },
+      });
+    }
+  } catch (error) {
+    logger.error("Error generating journal entry:", handleError(error));
+  }
+}
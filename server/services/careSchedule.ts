@@ -0,0 +1,368 @@
+import { z } from "zod";
+import {
+  type AiReport,
+  type CareType,
+  type InsertReminder,
+  type Plant,
+  type Reminder,
+  type ScheduleApplication,
+  type ScheduleChange,
+  type SchedulePreview,
+} from "@shared/schema";
+import type { ScheduleOperations } from "../storage";
+import { inferCareType } from "./aiReports";
+import { canAccessPlant } from "./gardenAccess";
+import { getRecurringInterval, getUserTimezone, getZonedParts, zonedTimeToUtc } from "./reminderEngine";
+import * as logger from "./logger";
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+// Local hour a reminder is due in each of the optimizer's time slots
+const SLOT_HOURS: Record<string, number> = { morning: 8, afternoon: 13, evening: 18 };
+const DEFAULT_HOUR = 9;
+
+const TITLE_VERBS: Record<CareType, string> = {
+  water: "Water",
+  fertilize: "Fertilize",
+  repot: "Repot",
+  prune: "Prune",
+  health_check: "Check on",
+  other: "Care for",
+};
+
+export type PreviewOutcome =
+  | { status: "ok"; preview: SchedulePreview }
+  | { status: "not_found" }
+  | { status: "invalid"; message: string };
+
+export type ApplyOutcome =
+  | { status: "ok"; application: ScheduleApplication }
+  | { status: "not_found" }
+  | { status: "invalid"; message: string }
+  | { status: "conflict"; message: string };
+
+export type RollbackOutcome =
+  | { status: "ok"; application: ScheduleApplication; kept: number }
+  | { status: "not_found" }
+  | { status: "conflict"; message: string };
+
+// The parts of a stored optimizer request and result that applying a schedule
+// reads. Reports are parsed against these rather than trusted, so a malformed
+// task is skipped and listed instead of becoming a reminder titled "undefined".
+const availabilitySchema = z.object({
+  weekdays: z.array(z.object({ day: z.string(), availableTimeSlots: z.array(z.string()) })).catch([]),
+  preferences: z.object({ preferredTime: z.string() }).catch({ preferredTime: "morning" }),
+});
+
+const scheduleDaySchema = z.object({
+  day: z.string(),
+  // Checked one by one so a bad task doesn't hide the rest of the day
+  tasks: z.array(z.unknown()),
+});
+
+const scheduleTaskSchema = z.object({
+  plantName: z.string().trim().min(1),
+  careType: z.string().trim().min(1),
+  instructions: z.string().catch(""),
+});
+
+const optimizedScheduleSchema = z.object({ weeklySchedule: z.array(z.unknown()) });
+
+type ScheduleTask = z.infer<typeof scheduleTaskSchema> & { day: string };
+
+// The days and time slots the user said they're free, from the optimizer request
+interface Availability {
+  slotsByWeekday: Map<number, string[]>;
+  preferredTime: string;
+}
+
+// A change with the reminder it would create, which the preview leaves out
+interface PlannedChange {
+  change: ScheduleChange;
+  reminder?: InsertReminder;
+}
+
+interface SchedulePlan {
+  preview: SchedulePreview;
+  planned: PlannedChange[];
+}
+
+function weekdayIndex(day: string): number {
+  return WEEKDAYS.indexOf(day.trim().toLowerCase());
+}
+
+// Without usable availability, every task keeps its day at the default time
+function readAvailability(input: unknown): Availability {
+  const slotsByWeekday = new Map<number, string[]>();
+  const parsed = availabilitySchema.safeParse(input);
+  if (!parsed.success) return { slotsByWeekday, preferredTime: "morning" };
+
+  for (const entry of parsed.data.weekdays) {
+    const index = weekdayIndex(entry.day);
+    if (index >= 0 && entry.availableTimeSlots.length > 0) slotsByWeekday.set(index, entry.availableTimeSlots);
+  }
+  return { slotsByWeekday, preferredTime: parsed.data.preferences.preferredTime };
+}
+
+// The schedule's tasks, and descriptions of the parts that couldn't be read
+function readTasks(result: unknown): { tasks: ScheduleTask[]; unreadable: string[] } {
+  const parsed = optimizedScheduleSchema.safeParse(result);
+  if (!parsed.success) return { tasks: [], unreadable: ["The schedule has no weekly plan"] };
+
+  const tasks: ScheduleTask[] = [];
+  const unreadable: string[] = [];
+  for (const entry of parsed.data.weeklySchedule) {
+    const day = scheduleDaySchema.safeParse(entry);
+    if (!day.success) {
+      unreadable.push("A day of the schedule couldn't be read");
+      continue;
+    }
+    for (const candidate of day.data.tasks) {
+      const task = scheduleTaskSchema.safeParse(candidate);
+      if (task.success) {
+        tasks.push({ ...task.data, day: day.data.day });
+      } else {
+        unreadable.push(`${day.data.day}: a task that couldn't be read`);
+      }
+    }
+  }
+  return { tasks, unreadable };
+}
+
+/**
+ * The next time a task planned for `weekday` can be done. Days the user isn't
+ * available move to their next free day, and the time is their preferred slot
+ * on that day if it's free, otherwise the first free slot.
+ */
+function nextDueDate(weekday: number, availability: Availability, timezone: string, now: Date): Date {
+  const { slotsByWeekday, preferredTime } = availability;
+  let target = weekday;
+  if (slotsByWeekday.size > 0) {
+    for (let offset = 0; offset < 7; offset++) {
+      if (slotsByWeekday.has((weekday + offset) % 7)) {
+        target = (weekday + offset) % 7;
+        break;
+      }
+    }
+  }
+  const slots = slotsByWeekday.get(target) ?? [preferredTime];
+  const slot = slots.includes(preferredTime) ? preferredTime : slots[0];
+  const hour = SLOT_HOURS[slot] ?? DEFAULT_HOUR;
+
+  const today = getZonedParts(now, timezone);
+  const todayWeekday = new Date(Date.UTC(today.year, today.month - 1, today.day)).getUTCDay();
+  const daysAhead = (target - todayWeekday + 7) % 7;
+  const due = zonedTimeToUtc(today.year, today.month, today.day + daysAhead, hour, 0, timezone);
+  return due > now ? due : zonedTimeToUtc(today.year, today.month, today.day + daysAhead + 7, hour, 0, timezone);
+}
+
+// Keeps a reminder on the weekday the schedule picked
+function roundToWeeks(days: number): number {
+  return Math.max(7, Math.round(days / 7) * 7);
+}
+
+/**
+ * Works out how the user's pending reminders would need to change to follow a
+ * care schedule. For each plant and kind of care in the schedule, existing
+ * reminders are paired with the scheduled days in date order: paired ones are
+ * moved, extra days get new reminders and extra reminders are deleted. Care
+ * the schedule doesn't mention is left alone.
+ */
+async function planSchedule(report: AiReport, userId: number, now: Date): Promise<SchedulePlan> {
+  const { storage } = await import("../storage");
+  const timezone = await getUserTimezone(userId);
+  const availability = readAvailability(report.input);
+
+  const plantsByName = new Map<string, Plant[]>();
+  for (const plant of await storage.getPlants(userId)) {
+    if (!(await canAccessPlant(plant, userId, "care"))) continue;
+    const key = plant.name.trim().toLowerCase();
+    plantsByName.set(key, [...(plantsByName.get(key) ?? []), plant]);
+  }
+
+  // Scheduled due dates for each plant and kind of care
+  const groups = new Map<string, { plant: Plant; careType: CareType; due: Map<number, ScheduleTask> }>();
+  const { tasks, unreadable } = readTasks(report.result);
+  const unmatchedTasks: string[] = [...unreadable];
+  for (const task of tasks) {
+    const matches = plantsByName.get(task.plantName.trim().toLowerCase()) ?? [];
+    const weekday = weekdayIndex(task.day);
+    if (matches.length !== 1 || weekday < 0) {
+      unmatchedTasks.push(`${task.day}: ${task.careType} ${task.plantName}`);
+      continue;
+    }
+    const plant = matches[0];
+    const careType = inferCareType(task.careType);
+    const key = `${plant.id}:${careType}`;
+    const group = groups.get(key) ?? { plant, careType, due: new Map<number, ScheduleTask>() };
+    group.due.set(nextDueDate(weekday, availability, timezone, now).getTime(), task);
+    groups.set(key, group);
+  }
+
+  const pending = (await storage.getReminders(userId)).filter(
+    (reminder: Reminder) => reminder.userId === userId && reminder.status === "pending"
+  );
+
+  const planned: PlannedChange[] = [];
+  let unchanged = 0;
+  for (const { plant, careType, due } of Array.from(groups.values())) {
+    const existing = pending
+      .filter((reminder) => reminder.plantId === plant.id && reminder.careType === careType)
+      .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+    const scheduled = Array.from(due.entries()).sort(([a], [b]) => a - b);
+    const interval = scheduled.length > 1
+      ? 7
+      : roundToWeeks(getRecurringInterval(existing[0] ?? { careType, recurringInterval: null }, plant));
+    const base = { plantId: plant.id, plantName: plant.name, careType };
+
+    scheduled.forEach(([time, task], index) => {
+      const dueDate = new Date(time).toISOString();
+      const reminder = existing[index];
+      if (!reminder) {
+        const title = `${TITLE_VERBS[careType]} your ${plant.name}`;
+        planned.push({
+          change: {
+            ...base,
+            id: `create:${plant.id}:${careType}:${dueDate}`,
+            type: "create",
+            reminderId: null,
+            title,
+            fromDueDate: null,
+            dueDate,
+            fromInterval: null,
+            recurringInterval: interval,
+          },
+          reminder: {
+            plantId: plant.id,
+            userId,
+            title,
+            message: task.instructions,
+            dueDate,
+            careType,
+            status: "pending",
+            recurring: true,
+            recurringInterval: interval,
+            notified: false,
+          },
+        });
+      } else if (reminder.dueDate.getTime() === time && reminder.recurring && reminder.recurringInterval === interval && !reminder.snoozedUntil) {
+        unchanged++;
+      } else {
+        planned.push({
+          change: {
+            ...base,
+            id: `move:${reminder.id}`,
+            type: "move",
+            reminderId: reminder.id,
+            title: reminder.title,
+            fromDueDate: reminder.dueDate.toISOString(),
+            dueDate,
+            fromInterval: reminder.recurring ? reminder.recurringInterval : null,
+            recurringInterval: interval,
+          },
+        });
+      }
+    });
+
+    for (const reminder of existing.slice(scheduled.length)) {
+      planned.push({
+        change: {
+          ...base,
+          id: `delete:${reminder.id}`,
+          type: "delete",
+          reminderId: reminder.id,
+          title: reminder.title,
+          fromDueDate: reminder.dueDate.toISOString(),
+          dueDate: null,
+          fromInterval: reminder.recurring ? reminder.recurringInterval : null,
+          recurringInterval: null,
+        },
+      });
+    }
+  }
+
+  return {
+    preview: { reportId: report.id, timezone, changes: planned.map(({ change }) => change), unchanged, unmatchedTasks },
+    planned,
+  };
+}
+
+async function getScheduleReport(reportId: number, userId: number): Promise<AiReport | "not_found" | "invalid"> {
+  const { storage } = await import("../storage");
+  const report = await storage.getAiReport(reportId);
+  if (!report || report.userId !== userId) return "not_found";
+  return report.feature === "care_schedule" ? report : "invalid";
+}
+
+/**
+ * What applying a saved care schedule report to the user's reminders would change.
+ */
+export async function previewSchedule(reportId: number, userId: number, now: Date = new Date()): Promise<PreviewOutcome> {
+  const report = await getScheduleReport(reportId, userId);
+  if (report === "not_found") return { status: "not_found" };
+  if (report === "invalid") return { status: "invalid", message: "Only care schedule reports can be applied" };
+
+  const { preview } = await planSchedule(report, userId, now);
+  return { status: "ok", preview };
+}
+
+/**
+ * Applies the chosen changes from a schedule preview in one transaction. The
+ * plan is worked out again, so changes that no longer match the user's
+ * reminders are refused rather than applied blindly.
+ */
+export async function applySchedule(
+  reportId: number,
+  userId: number,
+  changeIds: string[],
+  now: Date = new Date()
+): Promise<ApplyOutcome> {
+  const { storage } = await import("../storage");
+  const report = await getScheduleReport(reportId, userId);
+  if (report === "not_found") return { status: "not_found" };
+  if (report === "invalid") return { status: "invalid", message: "Only care schedule reports can be applied" };
+
+  const { planned } = await planSchedule(report, userId, now);
+  const chosen = new Set(changeIds);
+  const selected = planned.filter(({ change }) => chosen.has(change.id));
+  if (selected.length !== chosen.size) {
+    return { status: "conflict", message: "Your reminders changed since the preview; review the schedule again" };
+  }
+
+  const operations: ScheduleOperations = { creates: [], moves: [], deleteIds: [] };
+  for (const { change, reminder } of selected) {
+    if (change.type === "create" && reminder) {
+      operations.creates.push(reminder);
+    } else if (change.type === "move") {
+      operations.moves.push({ id: change.reminderId!, dueDate: new Date(change.dueDate!), recurringInterval: change.recurringInterval! });
+    } else if (change.type === "delete") {
+      operations.deleteIds.push(change.reminderId!);
+    }
+  }
+
+  const application = await storage.applyScheduleChanges(userId, report.id, selected.map(({ change }) => change), operations);
+  if (!application) {
+    return { status: "conflict", message: "Some reminders were completed or removed since the preview; review the schedule again" };
+  }
+  logger.info(`Applied care schedule ${report.id} for user ${userId}: ${operations.creates.length} created, ${operations.moves.length} moved, ${operations.deleteIds.length} deleted`);
+  return { status: "ok", application };
+}
+
+/**
+ * Restores the reminders a schedule application changed. Only the user's most
+ * recent application can be rolled back, so undoing never skips over a later
+ * one. Reminders completed since then are kept.
+ */
+export async function rollbackSchedule(applicationId: number, userId: number): Promise<RollbackOutcome> {
+  const { storage } = await import("../storage");
+  const latest = await storage.getLatestScheduleApplication(userId);
+  if (!latest) return { status: "not_found" };
+  if (latest.id !== applicationId) {
+    return { status: "conflict", message: "Only the most recently applied schedule can be rolled back" };
+  }
+
+  const result = await storage.rollbackScheduleApplication(applicationId, userId);
+  if (!result) return { status: "not_found" };
+  logger.info(`Rolled back care schedule application ${applicationId} for user ${userId}`);
+  return { status: "ok", ...result };
+}
@@ -0,0 +1,353 @@
+import {
+  type Comment,
+  type CommentAuthor,
+  type CommentTarget,
+  type CommentThread,
+  type CommentWithAuthor,
+  type User,
+} from "@shared/schema";
+import { hasRole } from "../auth";
+import { canAccessPlant } from "./gardenAccess";
+import { sendPushToUser } from "./webPush";
+import * as logger from "./logger";
+
+const DEFAULT_EDIT_WINDOW_MINUTES = 15;
+const DEFAULT_DELETE_WINDOW_MINUTES = 60;
+// More mentions than this in one comment are ignored, so a comment can't be used to spam everyone
+const MAX_MENTIONS = 10;
+
+const MENTION_PATTERN = /(^|[^\w@])@([A-Za-z0-9_][A-Za-z0-9_.-]{1,29})/g;
+
+type Viewer = Pick<User, "id" | "role"> | undefined;
+
+export interface CommentTargetInfo {
+  ownerId: number;
+  // Where a notification about this target should link to, if there's a page for it
+  url: string | null;
+}
+
+export type CommentOutcome =
+  | { status: "ok"; comment: CommentWithAuthor }
+  | { status: "not_found" }
+  | { status: "forbidden"; message: string }
+  | { status: "invalid"; message: string };
+
+export type DeleteCommentOutcome =
+  | { status: "ok" }
+  | { status: "not_found" }
+  | { status: "forbidden"; message: string };
+
+/**
+ * Minutes after posting that authors can still edit a comment (COMMENT_EDIT_WINDOW_MINUTES, default 15).
+ */
+export function getEditWindowMinutes(): number {
+  return parseInt(process.env.COMMENT_EDIT_WINDOW_MINUTES || "", 10) || DEFAULT_EDIT_WINDOW_MINUTES;
+}
+
+/**
+ * Minutes after posting that authors can delete their own comment
+ * (COMMENT_DELETE_WINDOW_MINUTES, default 60). After that only the owner of
+ * what was commented on, or a moderator, can take it down.
+ */
+export function getDeleteWindowMinutes(): number {
+  return parseInt(process.env.COMMENT_DELETE_WINDOW_MINUTES || "", 10) || DEFAULT_DELETE_WINDOW_MINUTES;
+}
+
+function isWithinMinutes(createdAt: Date, minutes: number, now: Date): boolean {
+  return now.getTime() - new Date(createdAt).getTime() <= minutes * 60 * 1000;
+}
+
+/**
+ * The distinct usernames @mentioned in a comment, lower-cased, in order of appearance.
+ */
+export function extractMentions(content: string): string[] {
+  const found = new Set<string>();
+  let match: RegExpExecArray | null;
+  MENTION_PATTERN.lastIndex = 0;
+  while ((match = MENTION_PATTERN.exec(content)) !== null && found.size < MAX_MENTIONS) {
+    // A trailing full stop ends the sentence rather than the username
+    found.add(match[2].replace(/[.-]+$/, "").toLowerCase());
+  }
+  return Array.from(found);
+}
+
+/**
+ * Works out whether the viewer can see (and so comment on) a target:
+ * - tip: active tips, or any tip for moderators
+ * - plant: plants the viewer has access to, plants in a public collection, and
+ *   plants whose active share link the viewer came from
+ * - care_log: care logs the viewer can see through their plant, or whose
+ *   active share link the viewer came from
+ * Anonymous viewers only get the public cases. Knowing the share link is what
+ * grants access, so the share ID has to be sent, not just the target's ID.
+ * @param shareId The share link the viewer opened the target from, if any
+ * @returns The target's owner and link, or null if it doesn't exist or can't be seen
+ */
+export async function getCommentTarget(
+  targetType: CommentTarget,
+  targetId: number,
+  viewer: Viewer,
+  shareId?: string
+): Promise<CommentTargetInfo | null> {
+  const { storage } = await import("../storage");
+
+  switch (targetType) {
+    case "tip": {
+      const tip = await storage.getCommunityTip(targetId);
+      if (!tip || (tip.status !== "active" && !hasRole(viewer, "moderator"))) return null;
+      return { ownerId: tip.userId, url: null };
+    }
+    case "plant": {
+      const plant = await storage.getPlant(targetId);
+      if (!plant) return null;
+      const links = (await storage.getSharedPlantLinksByPlant(targetId)).filter(link => link.active);
+      const shareLink = links.find(link => link.shareId === shareId) ?? links[0];
+      const url = shareLink ? `/shared/${shareLink.shareId}` : null;
+
+      if (shareId && links.some(link => link.shareId === shareId)) return { ownerId: plant.userId, url };
+      if (viewer && await canAccessPlant(plant, viewer.id, "view")) return { ownerId: plant.userId, url };
+      const settings = await storage.getProfileSettings(plant.userId);
+      return settings?.isCollectionPublic && !plant.gardenId ? { ownerId: plant.userId, url } : null;
+    }
+    case "care_log": {
+      const careLog = await storage.getCareLog(targetId);
+      if (!careLog) return null;
+      const plant = await storage.getPlant(careLog.plantId);
+      if (!plant) return null;
+      const links = (await storage.getSharedCareLogLinksByCareLog(targetId)).filter(link => link.active);
+      const shareLink = links.find(link => link.shareId === shareId) ?? links[0];
+      const url = shareLink ? `/sc/${shareLink.shareId}` : null;
+
+      if (shareId && links.some(link => link.shareId === shareId)) return { ownerId: plant.userId, url };
+      if (viewer && await canAccessPlant(plant, viewer.id, "view")) return { ownerId: plant.userId, url };
+      return null;
+    }
+  }
+}
+
+function toAuthor(user: User): CommentAuthor {
+  return { id: user.id, username: user.username, displayName: user.displayName, avatarUrl: user.avatarUrl };
+}
+
+function canDelete(comment: Comment, target: CommentTargetInfo, viewer: Viewer, now: Date): boolean {
+  if (!viewer || comment.status !== "active") return false;
+  if (hasRole(viewer, "moderator") || viewer.id === target.ownerId) return true;
+  return comment.userId === viewer.id && isWithinMinutes(comment.createdAt, getDeleteWindowMinutes(), now);
+}
+
+function toCommentWithAuthor(
+  comment: Comment & { author: CommentAuthor },
+  target: CommentTargetInfo,
+  viewer: Viewer,
+  now: Date
+): CommentWithAuthor {
+  const visible = comment.status === "active" || hasRole(viewer, "moderator");
+  return {
+    ...comment,
+    content: visible ? comment.content : null,
+    canEdit: !!viewer && comment.userId === viewer.id && comment.status === "active"
+      && isWithinMinutes(comment.createdAt, getEditWindowMinutes(), now),
+    canDelete: canDelete(comment, target, viewer, now),
+  };
+}
+
+/**
+ * A target's comments as threads, oldest first. Hidden and removed comments are
+ * left out (moderators still see them), except that a top-level comment with
+ * visible replies stays as a placeholder so the replies keep their context.
+ * @returns null if the viewer can't see the target
+ */
+export async function listComments(
+  targetType: CommentTarget,
+  targetId: number,
+  viewer: Viewer,
+  shareId?: string
+): Promise<CommentThread[] | null> {
+  const target = await getCommentTarget(targetType, targetId, viewer, shareId);
+  if (!target) return null;
+
+  const { storage } = await import("../storage");
+  const rows = await storage.getComments(targetType, targetId);
+  const now = new Date();
+  const isStaff = hasRole(viewer, "moderator");
+  const shown = (comment: Comment) => isStaff || comment.status === "active";
+
+  const threads = new Map<number, CommentThread>();
+  for (const row of rows) {
+    if (row.parentId === null) {
+      threads.set(row.id, { ...toCommentWithAuthor(row, target, viewer, now), replies: [] });
+    }
+  }
+  for (const row of rows) {
+    if (row.parentId !== null && shown(row)) {
+      threads.get(row.parentId)?.replies.push(toCommentWithAuthor(row, target, viewer, now));
+    }
+  }
+
+  return Array.from(threads.values()).filter(thread => thread.content !== null || thread.replies.length > 0);
+}
+
+/**
+ * Notifies people mentioned in a new comment, and the author of the comment
+ * it replies to. Only people who can see the target are notified; the share
+ * link the comment was posted from counts, as the notification links to it.
+ */
+async function notifyForComment(
+  comment: Comment,
+  author: User,
+  target: CommentTargetInfo,
+  parent: Comment | undefined,
+  shareId: string | undefined
+): Promise<void> {
+  const { storage } = await import("../storage");
+  const name = author.displayName || author.username;
+  const recipients = new Map<number, "mention" | "reply">();
+
+  const mentioned = await storage.getUsersByUsernames(extractMentions(comment.content));
+  for (const user of mentioned) {
+    if (user.id === author.id) continue;
+    if (await getCommentTarget(comment.targetType, comment.targetId, user, shareId)) {
+      recipients.set(user.id, "mention");
+    }
+  }
+  if (parent && parent.userId !== author.id && !recipients.has(parent.userId)) {
+    recipients.set(parent.userId, "reply");
+  }
+  if (recipients.size === 0) return;
+
+  const notifications = await storage.createNotifications(
+    Array.from(recipients, ([userId, type]) => ({
+      userId,
+      type,
+      actorId: author.id,
+      commentId: comment.id,
+      message: type === "mention" ? `${name} mentioned you in a comment` : `${name} replied to your comment`,
+      url: target.url,
+    }))
+  );
+
+  for (const notification of notifications) {
+    const settings = await storage.getProfileSettings(notification.userId);
+    if (!settings?.pushNotifications) continue;
+    await sendPushToUser(notification.userId, {
+      title: "Hanna's Garden",
+      body: `${notification.message}: "${comment.content.slice(0, 100)}"`,
+      url: notification.url ?? undefined,
+      tag: `comment-${comment.id}`,
+    });
+  }
+}
+
+/**
+ * Posts a comment. A reply to a reply is attached to the top-level comment,
+ * so threads stay one level deep.
+ */
+export async function createComment(
+  author: User,
+  input: { targetType: CommentTarget; targetId: number; parentId?: number; content: string; shareId?: string }
+): Promise<CommentOutcome> {
+  const target = await getCommentTarget(input.targetType, input.targetId, author, input.shareId);
+  if (!target) return { status: "not_found" };
+
+  const { storage } = await import("../storage");
+  let parent: Comment | undefined;
+  if (input.parentId) {
+    parent = await storage.getComment(input.parentId);
+    if (!parent || parent.targetType !== input.targetType || parent.targetId !== input.targetId || parent.status === "removed") {
+      return { status: "invalid", message: "The comment you're replying to doesn't exist" };
+    }
+    if (parent.parentId !== null) {
+      parent = await storage.getComment(parent.parentId);
+      if (!parent) return { status: "invalid", message: "The comment you're replying to doesn't exist" };
+    }
+  }
+
+  const comment = await storage.createComment({
+    targetType: input.targetType,
+    targetId: input.targetId,
+    userId: author.id,
+    parentId: parent?.id ?? null,
+    content: input.content,
+  });
+
+  try {
+    await notifyForComment(comment, author, target, parent, input.shareId);
+  } catch (error) {
+    // The comment is saved either way
+    logger.error(`Failed to send notifications for comment ${comment.id}:`, error);
+  }
+
+  return { status: "ok", comment: toCommentWithAuthor({ ...comment, author: toAuthor(author) }, target, author, new Date()) };
+}
+
+async function loadForChange(commentId: number, user: User, shareId?: string) {
+  const { storage } = await import("../storage");
+  const comment = await storage.getComment(commentId);
+  if (!comment || comment.status === "removed") return null;
+  const target = await getCommentTarget(comment.targetType, comment.targetId, user, shareId);
+  if (!target) return null;
+  return { comment, target };
+}
+
+/**
+ * Lets the author change a comment within the edit window.
+ */
+export async function editComment(user: User, commentId: number, content: string, shareId?: string): Promise<CommentOutcome> {
+  const found = await loadForChange(commentId, user, shareId);
+  if (!found) return { status: "not_found" };
+  const { comment, target } = found;
+
+  if (comment.userId !== user.id) {
+    return { status: "forbidden", message: "You can only edit your own comments" };
+  }
+  if (comment.status !== "active" || !isWithinMinutes(comment.createdAt, getEditWindowMinutes(), new Date())) {
+    return { status: "forbidden", message: `Comments can only be edited for ${getEditWindowMinutes()} minutes after posting` };
+  }
+
+  const { storage } = await import("../storage");
+  const updated = await storage.updateCommentContent(commentId, content);
+  if (!updated) return { status: "not_found" };
+  return { status: "ok", comment: toCommentWithAuthor({ ...updated, author: toAuthor(user) }, target, user, new Date()) };
+}
+
+/**
+ * Takes a comment down (it's kept, marked removed). Authors can do this within
+ * the delete window; the owner of what was commented on and moderators can do
+ * it at any time. Moderator removals of other people's comments are audited.
+ */
+export async function deleteComment(user: User, commentId: number, shareId?: string): Promise<DeleteCommentOutcome> {
+  const found = await loadForChange(commentId, user, shareId);
+  if (!found) return { status: "not_found" };
+  const { comment, target } = found;
+
+  if (!canDelete(comment, target, user, new Date())) {
+    return comment.userId === user.id
+      ? { status: "forbidden", message: `Comments can only be deleted for ${getDeleteWindowMinutes()} minutes after posting` }
+      : { status: "forbidden", message: "You don't have permission to delete this comment" };
+  }
+
+  const { storage } = await import("../storage");
+  await storage.setCommentStatus(commentId, "removed");
+  if (comment.userId !== user.id && user.id !== target.ownerId) {
+    await storage.logModerationAction({ moderatorId: user.id, action: "remove", targetType: "comment", targetId: commentId });
+  }
+  return { status: "ok" };
+}
+
+/**
+ * Applies a moderator's decision to a comment and records it in the audit log.
+ * Returns false if there's no such comment.
+ */
+export async function moderateComment(
+  moderatorId: number,
+  commentId: number,
+  { action, note }: { action: "hide" | "restore" | "remove"; note?: string }
+): Promise<boolean> {
+  const { storage } = await import("../storage");
+  const status = action === "hide" ? "reported" : action === "restore" ? "active" : "removed";
+  const updated = await storage.setCommentStatus(commentId, status);
+  if (!updated) return false;
+
+  await storage.logModerationAction({ moderatorId, action, targetType: "comment", targetId: commentId, note });
+  return true;
+}
@@ -0,0 +1,144 @@
+import { type DiscoverPage, type DiscoverUser } from "@shared/schema";
+import type { RankingCursor, SuggestedUser } from "../storage";
+import * as logger from "./logger";
+
+const DEFAULT_WINDOW_DAYS = 7;
+const DEFAULT_REFRESH_MINUTES = 60;
+
+let refreshTimer: NodeJS.Timeout | null = null;
+let refreshInProgress = false;
+
+/**
+ * Days of follows and activity that count towards trending (TRENDING_WINDOW_DAYS, default 7).
+ */
+export function getTrendingWindowDays(): number {
+  return parseInt(process.env.TRENDING_WINDOW_DAYS || "", 10) || DEFAULT_WINDOW_DAYS;
+}
+
+export function encodeCursor(cursor: RankingCursor): string {
+  return Buffer.from(JSON.stringify([cursor.score, cursor.id])).toString("base64url");
+}
+
+/**
+ * Reads a cursor from a previous page; returns null if it isn't one of ours.
+ */
+export function decodeCursor(value: string): RankingCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (Array.isArray(parsed) && parsed.length === 2 && Number.isFinite(parsed[0]) && Number.isInteger(parsed[1])) {
+      return { score: parsed[0], id: parsed[1] };
+    }
+  } catch {
+    // Fall through to the invalid case
+  }
+  return null;
+}
+
+function describeSuggestion(suggestion: SuggestedUser): string | undefined {
+  if (suggestion.mutualFollows > 0) {
+    return `Followed by ${suggestion.mutualFollows} ${suggestion.mutualFollows === 1 ? "person" : "people"} you follow`;
+  }
+  if (suggestion.exampleSpecies) {
+    return suggestion.sharedSpecies > 1
+      ? `Also grows ${suggestion.exampleSpecies} and ${suggestion.sharedSpecies - 1} more of your species`
+      : `Also grows ${suggestion.exampleSpecies}`;
+  }
+  if (suggestion.sameLocation) {
+    return "Grows plants near you";
+  }
+  return undefined;
+}
+
+/**
+ * Turns one page of ranked ids into user cards. One extra row is fetched to
+ * tell whether there is a next page.
+ */
+async function buildPage<T extends { userId: number; score: number }>(
+  viewerId: number,
+  ranked: T[],
+  limit: number,
+  describe?: (entry: T) => string | undefined
+): Promise<DiscoverPage> {
+  const { storage } = await import("../storage");
+  const page = ranked.slice(0, limit);
+  const cards = await storage.getDiscoverUsers(viewerId, page.map(entry => entry.userId));
+  const entries = new Map(page.map(entry => [entry.userId, entry]));
+
+  const last = page[page.length - 1];
+  return {
+    users: cards.map((card): DiscoverUser => {
+      const reason = describe?.(entries.get(card.user.id)!);
+      return reason ? { ...card, reason } : card;
+    }),
+    nextCursor: ranked.length > limit && last ? encodeCursor({ score: last.score, id: last.userId }) : null,
+  };
+}
+
+/**
+ * People the viewer might want to follow: public profiles they don't follow
+ * yet, ranked by mutual follows, species in common and a shared location.
+ */
+export async function getSuggestedUsers(
+  viewerId: number,
+  options: { limit: number; after?: RankingCursor }
+): Promise<DiscoverPage> {
+  const { storage } = await import("../storage");
+  const ranked = await storage.getSuggestedUserIds(viewerId, { limit: options.limit + 1, after: options.after });
+  return buildPage(viewerId, ranked, options.limit, describeSuggestion);
+}
+
+/**
+ * Public profiles ranked by recent follower growth and activity, from the
+ * periodically refreshed user_rankings table.
+ */
+export async function getTrendingUsers(
+  viewerId: number,
+  options: { limit: number; after?: RankingCursor }
+): Promise<DiscoverPage> {
+  const { storage } = await import("../storage");
+  const ranked = await storage.getTrendingUserIds(viewerId, { limit: options.limit + 1, after: options.after });
+  return buildPage(viewerId, ranked, options.limit);
+}
+
+export async function refreshUserRankings(): Promise<void> {
+  const { storage } = await import("../storage");
+  const started = Date.now();
+  const count = await storage.refreshUserRankings(getTrendingWindowDays());
+  logger.info(`Refreshed discover rankings for ${count} users in ${Date.now() - started}ms`);
+}
+
+/**
+ * Starts the in-process job that rebuilds user_rankings now and then every
+ * RANKING_REFRESH_MINUTES (default 60).
+ */
+export function startRankingScheduler(): void {
+  if (refreshTimer) return;
+
+  const minutes = parseInt(process.env.RANKING_REFRESH_MINUTES || "", 10) || DEFAULT_REFRESH_MINUTES;
+
+  const tick = async () => {
+    // Skip this tick if the previous refresh is still going
+    if (refreshInProgress) return;
+    refreshInProgress = true;
+    try {
+      await refreshUserRankings();
+    } catch (error) {
+      logger.error("Discover ranking refresh failed:", error);
+    } finally {
+      refreshInProgress = false;
+    }
+  };
+
+  void tick();
+  refreshTimer = setInterval(tick, minutes * 60 * 1000);
+  // Don't keep the process alive just for the scheduler
+  refreshTimer.unref();
+  logger.info(`Discover ranking refresh running every ${minutes} minutes`);
+}
+
+export function stopRankingScheduler(): void {
+  if (refreshTimer) {
+    clearInterval(refreshTimer);
+    refreshTimer = null;
+  }
+}
@@ -0,0 +1,150 @@
+import path from "path";
+import fs from "fs/promises";
+import * as logger from "./logger";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Minimal interface every email backend implements.
+ */
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = "Hanna's Garden <reminders@hannasgarden.app>";
+
+/**
+ * Sends mail through the SendGrid API (SENDGRID_API_KEY).
+ */
+export class SendGridTransport implements EmailTransport {
+  readonly name = "sendgrid";
+  private clientPromise: Promise<any> | null = null;
+
+  constructor(private apiKey: string, private from: string = DEFAULT_FROM) {}
+
+  // The SDK is imported lazily so unused transports have no startup cost
+  private async client() {
+    if (!this.clientPromise) {
+      this.clientPromise = import("@sendgrid/mail").then(({ default: sgMail }) => {
+        sgMail.setApiKey(this.apiKey);
+        return sgMail;
+      });
+    }
+    return this.clientPromise;
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    const client = await this.client();
+    await client.send({ ...message, from: this.from });
+  }
+}
+
+/**
+ * Sends mail through any SMTP server using nodemailer.
+ */
+export class SmtpTransport implements EmailTransport {
+  readonly name = "smtp";
+  private transporterPromise: Promise<import("nodemailer").Transporter> | null = null;
+
+  constructor(
+    private options: { host: string; port: number; secure: boolean; user?: string; pass?: string },
+    private from: string = DEFAULT_FROM
+  ) {}
+
+  private async transporter() {
+    if (!this.transporterPromise) {
+      this.transporterPromise = import("nodemailer").then(({ default: nodemailer }) =>
+        nodemailer.createTransport({
+          host: this.options.host,
+          port: this.options.port,
+          secure: this.options.secure,
+          auth: this.options.user ? { user: this.options.user, pass: this.options.pass } : undefined,
+        })
+      );
+    }
+    return this.transporterPromise;
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    const transporter = await this.transporter();
+    await transporter.sendMail({ ...message, from: this.from });
+  }
+}
+
+/**
+ * Development/testing transport. Writes each message to a JSON file in
+ * `outboxDir` if one is given, otherwise logs it to the console.
+ */
+export class LocalTransport implements EmailTransport {
+  readonly name = "local";
+
+  constructor(private outboxDir?: string) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    if (!this.outboxDir) {
+      logger.info(`[email] To: ${message.to} | Subject: ${message.subject}\n${message.text}`);
+      return;
+    }
+
+    await fs.mkdir(this.outboxDir, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-z0-9]/gi, "_")}.json`;
+    await fs.writeFile(path.join(this.outboxDir, fileName), JSON.stringify(message, null, 2));
+    logger.info(`[email] Wrote "${message.subject}" for ${message.to} to ${fileName}`);
+  }
+}
+
+/**
+ * Builds the configured transport from environment variables.
+ * EMAIL_TRANSPORT=sendgrid|smtp|local picks one explicitly; otherwise SendGrid is
+ * used when SENDGRID_API_KEY is set, SMTP when SMTP_HOST is set, and local output
+ * as a fallback.
+ */
+function createEmailTransport(): EmailTransport {
+  const from = process.env.EMAIL_FROM || DEFAULT_FROM;
+  const choice = process.env.EMAIL_TRANSPORT
+    || (process.env.SENDGRID_API_KEY ? "sendgrid" : process.env.SMTP_HOST ? "smtp" : "local");
+
+  if (choice === "sendgrid") {
+    if (!process.env.SENDGRID_API_KEY) {
+      throw new Error("SENDGRID_API_KEY must be set when EMAIL_TRANSPORT=sendgrid");
+    }
+    return new SendGridTransport(process.env.SENDGRID_API_KEY, from);
+  }
+
+  if (choice === "smtp") {
+    if (!process.env.SMTP_HOST) {
+      throw new Error("SMTP_HOST must be set when EMAIL_TRANSPORT=smtp");
+    }
+    const port = parseInt(process.env.SMTP_PORT || "587", 10);
+    return new SmtpTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE === "true" || port === 465,
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+    }, from);
+  }
+
+  return new LocalTransport(process.env.EMAIL_OUTBOX_DIR);
+}
+
+let emailTransport: EmailTransport | null = null;
+
+export function getEmailTransport(): EmailTransport {
+  if (!emailTransport) {
+    emailTransport = createEmailTransport();
+    logger.info(`Using ${emailTransport.name} email transport`);
+  }
+  return emailTransport;
+}
+
+// Allows tests and scripts to swap in a different transport
+export function setEmailTransport(transport: EmailTransport): void {
+  emailTransport = transport;
+}
@@ -0,0 +1,63 @@
+import { type GardenRole, type Plant, type Reminder } from "@shared/schema";
+
+/**
+ * What a user wants to do with a plant:
+ * - view: see the plant, its care logs, photos and reminders
+ * - care: log care and manage reminders
+ * - manage: edit, share, move or delete the plant
+ */
+export type PlantAccess = "view" | "care" | "manage";
+
+const ROLE_ACCESS: Record<GardenRole, PlantAccess[]> = {
+  owner: ["view", "care", "manage"],
+  caretaker: ["view", "care"],
+  viewer: ["view"],
+};
+
+export function roleAllows(role: GardenRole | null | undefined, access: PlantAccess): boolean {
+  return !!role && ROLE_ACCESS[role].includes(access);
+}
+
+/**
+ * The user's role for a plant. Personal plants are owned by the user who added
+ * them; plants in a garden take the user's role in that garden.
+ * @returns The role, or null if the user has no access
+ */
+export async function getPlantRole(plant: Pick<Plant, "userId" | "gardenId">, userId: number): Promise<GardenRole | null> {
+  if (!plant.gardenId) {
+    return plant.userId === userId ? "owner" : null;
+  }
+
+  const { storage } = await import("../storage");
+  const member = await storage.getGardenMember(plant.gardenId, userId);
+  return member?.role ?? null;
+}
+
+export async function canAccessPlant(plant: Pick<Plant, "userId" | "gardenId">, userId: number, access: PlantAccess): Promise<boolean> {
+  return roleAllows(await getPlantRole(plant, userId), access);
+}
+
+/**
+ * Reminders follow their plant's permissions. The member a reminder is assigned
+ * to can always act on it, and so can its creator while they still have access
+ * to the plant.
+ */
+export async function canAccessReminder(reminder: Reminder, userId: number, access: Exclude<PlantAccess, "manage">): Promise<boolean> {
+  if (reminder.assignedTo === userId) return true;
+
+  const { storage } = await import("../storage");
+  const plant = await storage.getPlant(reminder.plantId);
+  if (!plant) {
+    // Orphaned reminder - only its creator can see it
+    return reminder.userId === userId;
+  }
+  return canAccessPlant(plant, userId, access);
+}
+
+/**
+ * Whether a reminder for this plant can be assigned to the user: they must be
+ * able to care for it.
+ */
+export async function isEligibleAssignee(plant: Pick<Plant, "userId" | "gardenId">, userId: number): Promise<boolean> {
+  return canAccessPlant(plant, userId, "care");
+}
@@ -0,0 +1,553 @@
+import { z } from "zod";
+import JSZip from "jszip";
+import {
+  insertPlantSchema,
+  insertCareLogSchema,
+  insertReminderSchema,
+  insertCommunityTipSchema,
+  PROPAGATION_METHODS,
+  CARE_TYPES,
+  type CareType,
+  type Plant,
+  type CareLog,
+  type Reminder,
+  type CommunityTip,
+  type Photo,
+} from "@shared/schema";
+import { getBlobStore, isDataUrl, savePhoto } from "./photoStorage";
+import { normalizeCareLogMetadata } from "./careLogging";
+import * as logger from "./logger";
+
+// Bump when the document layout changes; importers reject versions they don't know
+export const EXPORT_VERSION = 1;
+
+// Limits on what an imported ZIP may unpack to, so a small upload can't inflate
+// into gigabytes. Photos are already compressed, so real exports stay well under these.
+const MAX_ARCHIVE_ENTRIES = 10_000;
+const MAX_ARCHIVE_ENTRY_BYTES = 50 * 1024 * 1024;
+const MAX_ARCHIVE_TOTAL_BYTES = 250 * 1024 * 1024;
+const MB = 1024 * 1024;
+
+export interface ExportedPhoto {
+  id: number;
+  plantId: number | null;
+  careLogId: number | null;
+  kind: string;
+  url: string;
+  contentType: string;
+  file: string; // Path of the image inside the ZIP archive
+}
+
+export interface GardenExport {
+  version: number;
+  exportedAt: string;
+  user: { username: string; displayName: string | null; timezone: string | null };
+  plants: Plant[];
+  careLogs: CareLog[];
+  reminders: Reminder[];
+  communityTips: CommunityTip[];
+  photos: ExportedPhoto[];
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  created: { plants: number; careLogs: number; reminders: number; communityTips: number; photos: number };
+  conflicts: { type: string; sourceId?: number; reason: string }[];
+  errors: { type: string; sourceId?: number; row?: number; message: string }[];
+}
+
+// Column order for the CSV files; also the accepted headers for a plants spreadsheet
+const CSV_COLUMNS = {
+  plants: ["id", "name", "scientificName", "location", "waterFrequency", "sunlightLevel", "fertilizerFrequency",
+    "lastWatered", "lastFertilized", "status", "type", "notes", "image", "createdAt"],
+  careLogs: ["id", "plantId", "careType", "timestamp", "notes", "photo", "metadata"],
+  reminders: ["id", "plantId", "title", "message", "dueDate", "careType", "status", "recurring",
+    "recurringInterval", "notified", "snoozedUntil", "completedAt", "createdAt"],
+  communityTips: ["id", "title", "content", "plantType", "scientificName", "careCategory", "status",
+    "likesCount", "createdAt"],
+} as const;
+
+const NUMERIC_PLANT_COLUMNS = new Set(["waterFrequency", "fertilizerFrequency"]);
+
+const gardenExportSchema = z.object({
+  version: z.number().int(),
+  exportedAt: z.string().optional(),
+  plants: z.array(z.record(z.any())).default([]),
+  careLogs: z.array(z.record(z.any())).default([]),
+  reminders: z.array(z.record(z.any())).default([]),
+  communityTips: z.array(z.record(z.any())).default([]),
+  photos: z.array(z.record(z.any())).default([]),
+});
+
+/**
+ * Collects everything the user owns into a versioned export document.
+ */
+export async function buildGardenExport(userId: number): Promise<GardenExport> {
+  const { storage } = await import("../storage");
+
+  const user = await storage.getUser(userId);
+  if (!user) {
+    throw new Error(`User ${userId} not found`);
+  }
+
+  const plantsWithCare = await storage.getPlants(userId, { includeGardens: false });
+  // Drop the computed care fields - they're derived on read
+  const plants = plantsWithCare.map(({ nextWatering, nextFertilizing, guide, ...plant }) => plant);
+
+  const careLogs: CareLog[] = [];
+  const photos: ExportedPhoto[] = [];
+  for (const plant of plants) {
+    careLogs.push(...await storage.getCareLogs(plant.id));
+    for (const photo of await storage.getPhotosByPlant(plant.id)) {
+      photos.push(toExportedPhoto(photo));
+    }
+  }
+
+  const reminders = await storage.getReminders(userId);
+  const tips = await storage.getCommunityTips({ userId }, 1000);
+  const communityTips = tips.map(({ username, displayName, avatarUrl, ...tip }) => tip);
+
+  return {
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    user: { username: user.username, displayName: user.displayName, timezone: user.timezone },
+    plants,
+    careLogs,
+    reminders,
+    communityTips,
+    photos,
+  };
+}
+
+function toExportedPhoto(photo: Photo): ExportedPhoto {
+  return {
+    id: photo.id,
+    plantId: photo.plantId,
+    careLogId: photo.careLogId,
+    kind: photo.kind,
+    url: photo.url,
+    contentType: photo.contentType,
+    file: `photos/${photo.storageKey}`,
+  };
+}
+
+function csvValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialises rows to RFC 4180 CSV with a header row.
+ */
+export function toCsv(rows: Record<string, unknown>[], columns: readonly string[]): string {
+  const lines = [columns.join(",")];
+  for (const row of rows) {
+    lines.push(columns.map(column => csvValue(row[column])).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+/**
+ * Parses RFC 4180 CSV (quoted fields, escaped quotes, embedded newlines)
+ * into objects keyed by the header row.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Strip a UTF-8 BOM left by spreadsheet exports
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows.filter(r => r.some(cell => cell.trim() !== ""));
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim());
+  return body.map(cells => Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ""])));
+}
+
+/**
+ * Packs the export document, one CSV per table and the original photo files into a ZIP.
+ */
+export async function buildGardenExportZip(data: GardenExport): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file("garden.json", JSON.stringify(data, null, 2));
+  zip.file("plants.csv", toCsv(data.plants, CSV_COLUMNS.plants));
+  zip.file("care_logs.csv", toCsv(data.careLogs, CSV_COLUMNS.careLogs));
+  zip.file("reminders.csv", toCsv(data.reminders, CSV_COLUMNS.reminders));
+  zip.file("community_tips.csv", toCsv(data.communityTips, CSV_COLUMNS.communityTips));
+
+  const { storage } = await import("../storage");
+  const store = getBlobStore();
+  for (const exported of data.photos) {
+    const photo = await storage.getPhoto(exported.id);
+    const buffer = photo ? await store.get(photo.storageKey) : undefined;
+    if (buffer) {
+      zip.file(exported.file, buffer);
+    } else {
+      logger.warn(`Photo ${exported.id} is missing from the blob store; leaving it out of the export`);
+    }
+  }
+
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+// The uncompressed size recorded in the entry's ZIP headers (JSZip keeps it on a private field)
+function declaredSize(entry: JSZip.JSZipObject): number {
+  const size = (entry as JSZip.JSZipObject & { _data?: { uncompressedSize?: number } })._data?.uncompressedSize;
+  return typeof size === "number" && size >= 0 ? size : Infinity;
+}
+
+// Inflates an entry, giving up if it turns out bigger than its headers said
+function inflateEntry(entry: JSZip.JSZipObject, size: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let inflated = 0;
+    let tooLarge = false;
+    const stream = entry.nodeStream("nodebuffer") as NodeJS.ReadableStream & { destroy(error?: Error): void };
+    stream.on("data", (chunk: Buffer) => {
+      if (tooLarge) return;
+      inflated += chunk.length;
+      if (inflated > size) {
+        tooLarge = true;
+        chunks.length = 0;
+        // JSZip's stream doesn't stop its worker when destroyed; pausing makes it
+        // stop inflating once the stream's small buffer is full
+        stream.pause();
+        stream.destroy();
+        reject(new Error(`${entry.name} is larger than the archive says it is`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on("end", () => resolve(Buffer.concat(chunks)));
+    // Stays attached after a size error: the destroyed stream can still report errors
+    stream.on("error", reject);
+  });
+}
+
+/**
+ * Reads a ZIP produced by buildGardenExportZip back into the document and its
+ * photo files. Throws if the archive has too many entries or would unpack to
+ * more than the import limits, checked from its headers before inflating anything.
+ */
+export async function readGardenExportZip(buffer: Buffer): Promise<{ data: unknown; files: Map<string, Buffer> }> {
+  const zip = await JSZip.loadAsync(buffer);
+  const manifest = zip.file("garden.json");
+  if (!manifest) {
+    throw new Error("Archive does not contain garden.json");
+  }
+
+  const entries = [manifest, ...Object.values(zip.files).filter(entry => !entry.dir && entry.name.startsWith("photos/"))];
+  if (entries.length > MAX_ARCHIVE_ENTRIES) {
+    throw new Error(`Archive has more than ${MAX_ARCHIVE_ENTRIES} files`);
+  }
+  const sizes = new Map(entries.map(entry => [entry, declaredSize(entry)]));
+  let total = 0;
+  for (const entry of entries) {
+    const size = sizes.get(entry)!;
+    if (size > MAX_ARCHIVE_ENTRY_BYTES) {
+      throw new Error(`${entry.name} is larger than ${MAX_ARCHIVE_ENTRY_BYTES / MB} MB`);
+    }
+    total += size;
+  }
+  if (total > MAX_ARCHIVE_TOTAL_BYTES) {
+    throw new Error(`Archive unpacks to more than ${MAX_ARCHIVE_TOTAL_BYTES / MB} MB`);
+  }
+
+  const data = JSON.parse((await inflateEntry(manifest, sizes.get(manifest)!)).toString("utf8"));
+  const files = new Map<string, Buffer>();
+  for (const entry of entries.slice(1)) {
+    files.set(entry.name, await inflateEntry(entry, sizes.get(entry)!));
+  }
+  return { data, files };
+}
+
+/**
+ * Converts spreadsheet rows into plant records, turning empty cells into
+ * missing values and numeric columns into numbers.
+ */
+export function plantsFromCsv(text: string): Record<string, unknown>[] {
+  return parseCsv(text).map((row) => {
+    const plant: Record<string, unknown> = {};
+    for (const [column, value] of Object.entries(row)) {
+      if (value.trim() === "") continue;
+      plant[column] = NUMERIC_PLANT_COLUMNS.has(column) ? Number(value) : value.trim();
+    }
+    return plant;
+  });
+}
+
+// Removes fields the importing instance assigns itself
+function stripSystemFields(record: Record<string, any>, extra: string[] = []): Record<string, any> {
+  const { id, userId, createdAt, updatedAt, ...rest } = record;
+  for (const key of extra) delete rest[key];
+  return rest;
+}
+
+function formatIssues(error: { issues: { path: PropertyKey[]; message: string }[] }): string {
+  return error.issues.map(issue => `${issue.path.join(".") || "record"}: ${issue.message}`).join("; ");
+}
+
+const normalise = (value: unknown) => String(value ?? "").trim().toLowerCase();
+
+/**
+ * Imports an export document (or a list of plants from a spreadsheet) into the
+ * user's garden. Records are validated against the shared insert schemas,
+ * IDs are remapped to the new rows, and records that already exist are
+ * reported as conflicts and skipped, so re-importing the same backup is safe.
+ * With `dryRun` nothing is written but the report is the same.
+ */
+export async function importGarden(
+  userId: number,
+  input: unknown,
+  options: { dryRun?: boolean; files?: Map<string, Buffer> } = {}
+): Promise<ImportReport> {
+  const { storage } = await import("../storage");
+  const dryRun = !!options.dryRun;
+  const files = options.files ?? new Map<string, Buffer>();
+
+  const report: ImportReport = {
+    dryRun,
+    created: { plants: 0, careLogs: 0, reminders: 0, communityTips: 0, photos: 0 },
+    conflicts: [],
+    errors: [],
+  };
+
+  const parsed = gardenExportSchema.safeParse(input);
+  if (!parsed.success) {
+    report.errors.push({ type: "document", message: formatIssues(parsed.error) });
+    return report;
+  }
+  const doc = parsed.data;
+  if (doc.version > EXPORT_VERSION) {
+    report.errors.push({ type: "document", message: `Unsupported export version ${doc.version} (this server reads up to ${EXPORT_VERSION})` });
+    return report;
+  }
+
+  // Exported photo URL -> file in the archive, used to re-upload images
+  const photoFiles = new Map<string, { buffer: Buffer; contentType: string }>();
+  for (const photo of doc.photos) {
+    const buffer = typeof photo.file === "string" ? files.get(photo.file) : undefined;
+    if (buffer && typeof photo.url === "string") {
+      photoFiles.set(photo.url, { buffer, contentType: photo.contentType || "image/jpeg" });
+    }
+  }
+
+  // Re-store an exported image and return its new URL (null if it can't be carried over)
+  const restoreImage = async (value: unknown, kind: "plant" | "care_log", plantId: number, careLogId?: number) => {
+    if (typeof value !== "string" || value === "") return null;
+    const file = photoFiles.get(value);
+    const data = file
+      ? `data:${file.contentType};base64,${file.buffer.toString("base64")}`
+      : isDataUrl(value) ? value : null;
+
+    if (!data) {
+      // External links survive as-is; our own upload paths don't exist on this instance
+      return /^https?:\/\//.test(value) ? value : null;
+    }
+    if (dryRun) return value;
+
+    const photo = await savePhoto({ data, kind, plantId, careLogId, userId });
+    report.created.photos++;
+    return photo.url;
+  };
+
+  // Plants
+  const existingPlants = await storage.getPlants(userId, { includeGardens: false });
+  const plantIdMap = new Map<number, number>();
+  const preExistingPlantIds = new Set<number>();
+
+  for (const [index, source] of Array.from(doc.plants.entries())) {
+    const sourceId = typeof source.id === "number" ? source.id : undefined;
+    const result = insertPlantSchema.safeParse({ ...stripSystemFields(source), userId });
+    if (!result.success) {
+      report.errors.push({ type: "plant", sourceId, row: index + 1, message: formatIssues(result.error) });
+      continue;
+    }
+
+    const match = existingPlants.find(plant =>
+      normalise(plant.name) === normalise(result.data.name) && normalise(plant.location) === normalise(result.data.location)
+    );
+    if (match) {
+      report.conflicts.push({ type: "plant", sourceId, reason: `"${match.name}" in ${match.location} already exists` });
+      if (sourceId !== undefined) {
+        plantIdMap.set(sourceId, match.id);
+        preExistingPlantIds.add(match.id);
+      }
+      continue;
+    }
+
+    if (dryRun) {
+      if (sourceId !== undefined) plantIdMap.set(sourceId, -1 - index);
+      report.created.plants++;
+      continue;
+    }
+
+    const { image, ...plantData } = result.data;
+    let plant = await storage.createPlant({ ...plantData, image: null });
+    const imageUrl = await restoreImage(image, "plant", plant.id);
+    if (imageUrl) {
+      plant = (await storage.updatePlant(plant.id, { image: imageUrl })) || plant;
+    }
+    if (sourceId !== undefined) plantIdMap.set(sourceId, plant.id);
+    report.created.plants++;
+  }
+
+  // Lineage links between new plants from the same export
+  if (!dryRun) {
+    for (const source of doc.plants) {
+      const childId = plantIdMap.get(source.id);
+      const parentId = plantIdMap.get(source.parentPlantId);
+      if (childId === undefined || parentId === undefined || childId === parentId || preExistingPlantIds.has(childId)) continue;
+      const method = PROPAGATION_METHODS.find(value => value === source.propagationMethod) ?? "other";
+      await storage.setPlantParent(childId, parentId, method);
+    }
+  }
+
+  // Care logs
+  const existingLogKeys = new Set<string>();
+  for (const plantId of Array.from(preExistingPlantIds)) {
+    for (const log of await storage.getCareLogs(plantId)) {
+      existingLogKeys.add(`${plantId}:${log.careType}:${log.timestamp ? new Date(log.timestamp).toISOString() : ""}`);
+    }
+  }
+
+  for (const [index, source] of Array.from(doc.careLogs.entries())) {
+    const sourceId = typeof source.id === "number" ? source.id : undefined;
+    const plantId = plantIdMap.get(source.plantId);
+    if (plantId === undefined) {
+      report.errors.push({ type: "careLog", sourceId, row: index + 1, message: `Unknown plant ${source.plantId}` });
+      continue;
+    }
+
+    // Exports from before care log metadata had a schema are brought up to date first
+    const metadata = (CARE_TYPES as readonly unknown[]).includes(source.careType)
+      ? normalizeCareLogMetadata(source.careType as CareType, source.metadata)
+      : source.metadata;
+    const result = insertCareLogSchema.safeParse({ ...stripSystemFields(source, ["timestamp", "photoBase64", "performedBy"]), plantId, metadata });
+    if (!result.success) {
+      report.errors.push({ type: "careLog", sourceId, row: index + 1, message: formatIssues(result.error) });
+      continue;
+    }
+
+    const timestamp = source.timestamp ? new Date(source.timestamp) : new Date();
+    if (isNaN(timestamp.getTime())) {
+      report.errors.push({ type: "careLog", sourceId, row: index + 1, message: "timestamp: Invalid date" });
+      continue;
+    }
+
+    if (existingLogKeys.has(`${plantId}:${result.data.careType}:${timestamp.toISOString()}`)) {
+      report.conflicts.push({ type: "careLog", sourceId, reason: `Care log at ${timestamp.toISOString()} already exists` });
+      continue;
+    }
+
+    if (dryRun) {
+      report.created.careLogs++;
+      continue;
+    }
+
+    const { photo, ...careLogData } = result.data;
+    const careLog = await storage.importCareLog({ ...careLogData, photo: null }, timestamp);
+    const photoUrl = await restoreImage(photo, "care_log", plantId, careLog.id);
+    if (photoUrl) {
+      await storage.updateCareLog(careLog.id, { photo: photoUrl });
+    }
+    report.created.careLogs++;
+  }
+
+  // Reminders
+  const existingReminderKeys = new Set(
+    (await storage.getReminders(userId)).map(r => `${r.plantId}:${r.careType}:${normalise(r.title)}:${new Date(r.dueDate).toISOString()}`)
+  );
+
+  for (const [index, source] of Array.from(doc.reminders.entries())) {
+    const sourceId = typeof source.id === "number" ? source.id : undefined;
+    const plantId = plantIdMap.get(source.plantId);
+    if (plantId === undefined) {
+      report.errors.push({ type: "reminder", sourceId, row: index + 1, message: `Unknown plant ${source.plantId}` });
+      continue;
+    }
+
+    const result = insertReminderSchema.safeParse({
+      ...stripSystemFields(source, ["completedAt", "previousReminderId", "assignedTo"]),
+      plantId,
+      userId,
+    });
+    if (!result.success) {
+      report.errors.push({ type: "reminder", sourceId, row: index + 1, message: formatIssues(result.error) });
+      continue;
+    }
+
+    const dueDate = new Date(result.data.dueDate as string | Date);
+    if (existingReminderKeys.has(`${plantId}:${result.data.careType}:${normalise(result.data.title)}:${dueDate.toISOString()}`)) {
+      report.conflicts.push({ type: "reminder", sourceId, reason: `Reminder "${result.data.title}" already exists` });
+      continue;
+    }
+
+    if (!dryRun) {
+      await storage.createReminder(result.data);
+    }
+    report.created.reminders++;
+  }
+
+  // Community tips
+  const existingTips = await storage.getCommunityTips({ userId }, 1000);
+  for (const [index, source] of Array.from(doc.communityTips.entries())) {
+    const sourceId = typeof source.id === "number" ? source.id : undefined;
+    const result = insertCommunityTipSchema.safeParse({ ...stripSystemFields(source), userId });
+    if (!result.success) {
+      report.errors.push({ type: "communityTip", sourceId, row: index + 1, message: formatIssues(result.error) });
+      continue;
+    }
+
+    if (existingTips.some(tip => normalise(tip.title) === normalise(result.data.title))) {
+      report.conflicts.push({ type: "communityTip", sourceId, reason: `Tip "${result.data.title}" already exists` });
+      continue;
+    }
+
+    if (!dryRun) {
+      await storage.createCommunityTip(result.data);
+    }
+    report.created.communityTips++;
+  }
+
+  logger.info(`${dryRun ? "Dry-run import" : "Imported"} garden for user ${userId}: ${JSON.stringify(report.created)}, ` +
+    `${report.conflicts.length} conflicts, ${report.errors.length} errors`);
+  return report;
+}
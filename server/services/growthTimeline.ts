@@ -0,0 +1,76 @@
+import { type GrowthEntry, type GrowthTimeline, type PlantWithCare } from "@shared/schema";
+import { normalizeCareLogMetadata } from "./careLogging";
+import { analyzeGrowthProgression, MAX_GROWTH_FRAMES, sampleEvenly, type GrowthAnalysis } from "./openai";
+import { loadPhotoAsDataUrl } from "./photoStorage";
+import * as logger from "./logger";
+
+// Longest edge of the photos sent for growth analysis; plenty to compare frames
+const ANALYSIS_PHOTO_SIZE = 768;
+
+/**
+ * A plant's care logs that have a photo or growth measurements, oldest first.
+ */
+export async function getGrowthTimeline(plantId: number): Promise<GrowthTimeline> {
+  const { storage } = await import("../storage");
+  const logs = await storage.getCareLogs(plantId);
+
+  const entries: GrowthEntry[] = logs
+    .map(log => ({
+      careLogId: log.id,
+      timestamp: (log.timestamp ?? new Date(0)).toISOString(),
+      careType: log.careType,
+      photo: log.photo || null,
+      measurements: normalizeCareLogMetadata(log.careType, log.metadata)?.measurements ?? null,
+    }))
+    .filter(entry => entry.photo || entry.measurements)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  return {
+    plantId,
+    entries,
+    photoCount: entries.filter(entry => entry.photo).length,
+  };
+}
+
+export type GrowthAnalysisOutcome =
+  | { status: "not_enough_photos" }
+  // imageCount is how many photos there were to choose from; careLogIds are the ones sent
+  | { status: "ok"; analysis: GrowthAnalysis; imageCount: number; careLogIds: number[] };
+
+/**
+ * Analyses a plant's growth from a few photos spread over its timeline, along
+ * with every measurement logged for it. Photos sent by the client (oldest
+ * first) are used instead of the timeline's when given.
+ */
+export async function analyzePlantGrowth(plant: PlantWithCare, imageHistory?: string[]): Promise<GrowthAnalysisOutcome> {
+  const timeline = await getGrowthTimeline(plant.id);
+  const measurements = timeline.entries
+    .filter(entry => entry.measurements)
+    .map(entry => ({ date: entry.timestamp, measurements: entry.measurements! }));
+
+  if (imageHistory) {
+    const analysis = await analyzeGrowthProgression(imageHistory, plant, { measurements });
+    return { status: "ok", analysis, imageCount: imageHistory.length, careLogIds: [] };
+  }
+
+  const photoEntries = timeline.entries.filter(entry => entry.photo);
+  const frames: { entry: GrowthEntry; image: string }[] = [];
+  for (const entry of sampleEvenly(photoEntries, MAX_GROWTH_FRAMES)) {
+    const image = await loadPhotoAsDataUrl(entry.photo!, { maxSize: ANALYSIS_PHOTO_SIZE });
+    if (image) {
+      frames.push({ entry, image });
+    } else {
+      logger.warn(`Photo for care log ${entry.careLogId} is missing; leaving it out of the growth analysis`);
+    }
+  }
+
+  if (frames.length < 2) {
+    return { status: "not_enough_photos" };
+  }
+
+  const analysis = await analyzeGrowthProgression(frames.map(frame => frame.image), plant, {
+    takenAt: frames.map(frame => frame.entry.timestamp),
+    measurements,
+  });
+  return { status: "ok", analysis, imageCount: photoEntries.length, careLogIds: frames.map(frame => frame.entry.careLogId) };
+}
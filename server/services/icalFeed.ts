@@ -0,0 +1,148 @@
+import { type PlantWithCare, type Reminder, type User } from "@shared/schema";
+import { getZonedParts, resolveTimezone } from "./reminderEngine";
+
+const PRODUCT_ID = "-//Hanna's Garden//Care Schedule//EN";
+const UID_DOMAIN = "hannasgarden.app";
+
+// Reminders are shown as short timed events
+const REMINDER_DURATION = "PT30M";
+
+/**
+ * Escapes a TEXT value per RFC 5545 section 3.3.11.
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Folds a content line so no line is longer than 75 octets (RFC 5545 section 3.1).
+ */
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  // Continuation lines start with a space, which counts towards their 75 octets
+  let limit = 75;
+
+  for (const char of Array.from(line)) {
+    const charBytes = Buffer.byteLength(char, "utf8");
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+      limit = 74;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+// 20260107T090000Z
+function formatUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// 20260107, as the calendar date in the user's timezone
+function formatLocalDate(date: Date, timezone: string): string {
+  const { year, month, day } = getZonedParts(date, timezone);
+  return `${year}${String(month).padStart(2, "0")}${String(day).padStart(2, "0")}`;
+}
+
+function buildReminderEvent(reminder: Reminder, plantName: string | undefined, stamp: string): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:reminder-${reminder.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatUtcDateTime(new Date(reminder.dueDate))}`,
+    `DURATION:${REMINDER_DURATION}`,
+    `SUMMARY:${escapeText(reminder.title)}`,
+  ];
+
+  const description = [reminder.message, plantName ? `Plant: ${plantName}` : null].filter(Boolean).join("\n");
+  if (description) {
+    lines.push(`DESCRIPTION:${escapeText(description)}`);
+  }
+  lines.push(`CATEGORIES:${escapeText(reminder.careType)}`);
+
+  if (reminder.recurring && reminder.recurringInterval && reminder.recurringInterval > 0) {
+    lines.push(`RRULE:FREQ=DAILY;INTERVAL=${reminder.recurringInterval}`);
+  }
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+function buildScheduleEvent(
+  plant: PlantWithCare,
+  careType: "water" | "fertilize",
+  date: Date,
+  intervalDays: number,
+  timezone: string,
+  stamp: string
+): string[] {
+  const verb = careType === "water" ? "Water" : "Fertilize";
+  return [
+    "BEGIN:VEVENT",
+    `UID:plant-${plant.id}-${careType}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${formatLocalDate(date, timezone)}`,
+    `SUMMARY:${escapeText(`${verb} ${plant.name}`)}`,
+    `DESCRIPTION:${escapeText(`${verb} every ${intervalDays} days${plant.location ? ` (${plant.location})` : ""}`)}`,
+    `CATEGORIES:${careType}`,
+    `RRULE:FREQ=DAILY;INTERVAL=${intervalDays}`,
+    "TRANSP:TRANSPARENT",
+    "END:VEVENT",
+  ];
+}
+
+/**
+ * Builds an RFC 5545 calendar of the user's care schedule.
+ *
+ * Pending reminders become timed events (recurring ones with an RRULE). Plants
+ * whose watering/fertilizing isn't already covered by a pending reminder get an
+ * all-day recurring event starting at their computed next watering/fertilizing date.
+ */
+export function buildCalendarFeed(user: User, reminders: Reminder[], plants: PlantWithCare[], now: Date = new Date()): string {
+  const timezone = resolveTimezone(user.timezone);
+  const stamp = formatUtcDateTime(now);
+  const plantNames = new Map(plants.map(plant => [plant.id, plant.name]));
+
+  const pending = reminders.filter(reminder => reminder.status === "pending");
+  const covered = new Set(pending.map(reminder => `${reminder.plantId}:${reminder.careType}`));
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(`${user.displayName || user.username}'s plant care`)}`,
+    `X-WR-TIMEZONE:${timezone}`,
+  ];
+
+  for (const reminder of pending) {
+    lines.push(...buildReminderEvent(reminder, plantNames.get(reminder.plantId), stamp));
+  }
+
+  for (const plant of plants) {
+    if (plant.nextWatering && plant.waterFrequency > 0 && !covered.has(`${plant.id}:water`)) {
+      lines.push(...buildScheduleEvent(plant, "water", plant.nextWatering, plant.waterFrequency, timezone, stamp));
+    }
+    if (plant.nextFertilizing && plant.fertilizerFrequency > 0 && !covered.has(`${plant.id}:fertilize`)) {
+      lines.push(...buildScheduleEvent(plant, "fertilize", plant.nextFertilizing, plant.fertilizerFrequency, timezone, stamp));
+    }
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
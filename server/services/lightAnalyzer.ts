@@ -1,24 +1,10 @@
-import OpenAI from "openai";
 import { SUNLIGHT_LEVELS } from "@shared/schema";
 import * as logger from "./logger";
+import { createChatCompletion, hashContent, isAiConfigured } from "./aiGateway";
 
 // Define the type for light level responses
 type SunlightLevel = typeof SUNLIGHT_LEVELS[number];
 
-// Initialize OpenAI client with proper error handling
-let openai: OpenAI | null = null;
-try {
-  if (!process.env.OPENAI_API_KEY) {
-    logger.warn("OPENAI_API_KEY is not set - AI light analysis features will be limited");
-  } else {
-    openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-    logger.info("OpenAI client initialized for light analyzer service");
-  }
-} catch (error) {
-  const errorMessage = error instanceof Error ? error.message : String(error);
-  logger.error("Failed to initialize OpenAI client:", new Error(errorMessage));
-}
-
 // Analyzes a plant image to determine the sunlight level
 export async function analyzePlantImageLightLevel(
   imageBase64: string
@@ -27,8 +13,8 @@ export async function analyzePlantImageLightLevel(
   confidence: "high" | "medium" | "low";
 }> {
   try {
-    // Check if OpenAI client is initialized
-    if (!openai) {
+    // Check if an AI provider is configured
+    if (!isAiConfigured("light_analysis")) {
       logger.warn("OpenAI client not available for light analysis - using fallback");
       return {
         sunlightLevel: "medium", // Default to medium as the safest option
@@ -42,8 +28,7 @@ export async function analyzePlantImageLightLevel(
       base64Image = base64Image.split(",")[1];
     }
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+    const response = await createChatCompletion({
       messages: [
         {
           role: "system",
@@ -85,6 +70,9 @@ export async function analyzePlantImageLightLevel(
       ],
       response_format: { type: "json_object" },
       max_tokens: 200,
+    }, {
+      feature: "light_analysis",
+      cacheKey: hashContent(base64Image),
     });
 
     const content = response.choices[0].message.content;
@@ -0,0 +1,130 @@
+import {
+  type ModerateTip,
+  type TipReport,
+  type TipReportReason,
+  type TipStatus,
+  type User,
+  type UserRole,
+} from "@shared/schema";
+import * as logger from "./logger";
+
+const DEFAULT_HIDE_THRESHOLD = 3;
+
+export type ReportTipOutcome =
+  | { status: "reported"; report: TipReport; hidden: boolean }
+  | { status: "not_found" }
+  | { status: "own_tip" }
+  | { status: "already_reported" };
+
+/**
+ * Open reports that hide a tip until a moderator looks at it
+ * (TIP_REPORT_HIDE_THRESHOLD, default 3).
+ */
+export function getReportHideThreshold(): number {
+  return parseInt(process.env.TIP_REPORT_HIDE_THRESHOLD || "", 10) || DEFAULT_HIDE_THRESHOLD;
+}
+
+/**
+ * Records a member's report. The tip joins the moderation queue, and once it
+ * has enough open reports it is hidden ("reported") until a moderator acts.
+ */
+export async function reportTip(
+  reporterId: number,
+  tipId: number,
+  reason: TipReportReason,
+  details?: string
+): Promise<ReportTipOutcome> {
+  const { storage } = await import("../storage");
+  const tip = await storage.getCommunityTip(tipId);
+  if (!tip || tip.status === "removed") return { status: "not_found" };
+  if (tip.userId === reporterId) return { status: "own_tip" };
+
+  const report = await storage.createTipReport(tipId, reporterId, reason, details);
+  if (!report) return { status: "already_reported" };
+
+  let hidden = tip.status === "reported";
+  if (!hidden) {
+    const openReports = await storage.countOpenTipReports(tipId);
+    if (openReports >= getReportHideThreshold()) {
+      await storage.updateTipStatus(tipId, "reported");
+      await storage.logModerationAction({
+        moderatorId: null,
+        action: "auto_hide",
+        targetType: "tip",
+        targetId: tipId,
+        note: `Hidden after ${openReports} reports`,
+      });
+      logger.info(`Community tip ${tipId} hidden after ${openReports} reports`);
+      hidden = true;
+    }
+  }
+
+  return { status: "reported", report, hidden };
+}
+
+/**
+ * Applies a moderator's decision to a tip and records it in the audit log.
+ * Restoring or removing a tip closes its open reports; dismissing closes them
+ * without changing whether the tip is shown. Returns false if there's no such tip.
+ */
+export async function moderateTip(
+  moderatorId: number,
+  tipId: number,
+  { action, note }: ModerateTip
+): Promise<boolean> {
+  const { storage } = await import("../storage");
+  const tip = await storage.getCommunityTip(tipId);
+  if (!tip) return false;
+
+  const statusFor: Partial<Record<ModerateTip["action"], TipStatus>> = {
+    hide: "reported",
+    restore: "active",
+    remove: "removed",
+  };
+
+  const status = statusFor[action];
+  if (status) {
+    await storage.updateTipStatus(tipId, status);
+  }
+  if (action === "feature" || action === "unfeature") {
+    await storage.featureCommunityTip(tipId, action === "feature");
+  }
+  if (action === "restore" || action === "remove" || action === "dismiss_reports") {
+    await storage.resolveTipReports(tipId, moderatorId);
+  }
+
+  await storage.logModerationAction({ moderatorId, action, targetType: "tip", targetId: tipId, note });
+  return true;
+}
+
+/**
+ * The moderation action that moves a tip to the given status.
+ */
+export function actionForStatus(status: TipStatus): ModerateTip["action"] {
+  switch (status) {
+    case "active":
+      return "restore";
+    case "reported":
+      return "hide";
+    case "removed":
+      return "remove";
+  }
+}
+
+/**
+ * Changes a user's role and records who did it.
+ */
+export async function setUserRole(adminId: number, target: User, role: UserRole): Promise<User | undefined> {
+  const { storage } = await import("../storage");
+  const updated = await storage.updateUserRole(target.id, role);
+  if (updated) {
+    await storage.logModerationAction({
+      moderatorId: adminId,
+      action: "change_role",
+      targetType: "user",
+      targetId: target.id,
+      note: `${target.username}: ${target.role} → ${role}`,
+    });
+  }
+  return updated;
+}
@@ -0,0 +1,214 @@
+import { connect, type MqttClient } from "mqtt";
+import {
+  mqttCareCommandSchema,
+  type CareLog,
+  type Plant,
+  type Reminder,
+} from "@shared/schema";
+import { canAccessPlant } from "./gardenAccess";
+import * as logger from "./logger";
+
+const DEFAULT_TOPIC_PREFIX = "hannas-garden";
+// How often newly due reminders are looked for
+const REMINDER_CHECK_MS = 60 * 1000;
+
+export type MqttEvent = "reminder_due" | "care_logged" | "plant_status_changed";
+
+let client: MqttClient | null = null;
+let reminderTimer: NodeJS.Timeout | null = null;
+let reminderCheckInProgress = false;
+// Reminders due after this have not been published yet
+let remindersPublishedUntil = new Date();
+
+function getTopicPrefix(): string {
+  return (process.env.MQTT_TOPIC_PREFIX || DEFAULT_TOPIC_PREFIX).replace(/\/+$/, "");
+}
+
+/**
+ * Topics are per user: <prefix>/users/<userId>/events/<event> for what
+ * happens in the garden, and <prefix>/users/<userId>/commands/care to log care.
+ */
+export function getUserTopic(userId: number, suffix: string): string {
+  return `${getTopicPrefix()}/users/${userId}/${suffix}`;
+}
+
+export function isMqttBridgeConnected(): boolean {
+  return client?.connected ?? false;
+}
+
+/**
+ * Publishes an event on the user's topic. Does nothing while the bridge is off
+ * or disconnected; events aren't queued for later.
+ */
+export function publishEvent(userId: number, event: MqttEvent, payload: Record<string, unknown>): void {
+  if (!client?.connected) return;
+
+  const message = JSON.stringify({ event, ...payload, timestamp: new Date().toISOString() });
+  client.publish(getUserTopic(userId, `events/${event}`), message, { qos: 1 }, (error) => {
+    if (error) logger.error(`Failed to publish MQTT ${event} event for user ${userId}:`, error);
+  });
+}
+
+export function publishCareLogged(plant: Plant, careLog: CareLog): void {
+  publishEvent(plant.userId, "care_logged", {
+    plantId: plant.id,
+    plantName: plant.name,
+    careLogId: careLog.id,
+    careType: careLog.careType,
+    notes: careLog.notes,
+    performedBy: careLog.performedBy,
+  });
+}
+
+export function publishPlantStatusChanged(plant: Plant, previousStatus: Plant["status"]): void {
+  if (plant.status === previousStatus) return;
+  publishEvent(plant.userId, "plant_status_changed", {
+    plantId: plant.id,
+    plantName: plant.name,
+    status: plant.status,
+    previousStatus,
+  });
+}
+
+function publishReminderDue(reminder: Reminder & { plantName: string }): void {
+  // Assigned reminders go to the assigned garden member, as notifications do
+  publishEvent(reminder.assignedTo ?? reminder.userId, "reminder_due", {
+    reminderId: reminder.id,
+    plantId: reminder.plantId,
+    plantName: reminder.plantName,
+    careType: reminder.careType,
+    title: reminder.title,
+    message: reminder.message,
+    dueDate: new Date(reminder.dueDate).toISOString(),
+  });
+}
+
+/**
+ * Publishes a reminder_due event for each reminder that came due since the
+ * last check. Reminders that came due while the server was down are skipped.
+ */
+export async function publishDueReminders(now = new Date()): Promise<number> {
+  const { storage } = await import("../storage");
+  const due = await storage.getRemindersDueBetween(remindersPublishedUntil, now);
+  remindersPublishedUntil = now;
+  due.forEach(publishReminderDue);
+  return due.length;
+}
+
+/**
+ * Logs care sent to <prefix>/users/<userId>/commands/care, the same way
+ * POST /api/care-logs does. The payload must carry a token of one of that
+ * user's sensor devices. The outcome is published on .../commands/care/result.
+ */
+export async function handleCareCommand(userId: number, payload: string): Promise<{ ok: true; careLogId: number } | { ok: false; message: string }> {
+  let body: unknown;
+  try {
+    body = JSON.parse(payload);
+  } catch {
+    return { ok: false, message: "Payload must be JSON" };
+  }
+
+  const result = mqttCareCommandSchema.safeParse(body);
+  if (!result.success) {
+    return { ok: false, message: result.error.errors.map(issue => `${issue.path.join(".")}: ${issue.message}`).join("; ") };
+  }
+
+  const { authenticateDevice } = await import("./sensors");
+  const device = await authenticateDevice(result.data.token);
+  if (!device || device.userId !== userId) {
+    return { ok: false, message: "Invalid device token" };
+  }
+
+  const { storage } = await import("../storage");
+  const plant = await storage.getPlant(result.data.plantId);
+  if (!plant || !(await canAccessPlant(plant, userId, "care"))) {
+    return { ok: false, message: "Plant not found" };
+  }
+
+  const careLog = await storage.createCareLog({
+    plantId: plant.id,
+    careType: result.data.careType,
+    notes: result.data.notes ?? null,
+    performedBy: userId,
+  });
+  const { applyCareLog } = await import("./careLogging");
+  await applyCareLog(plant, careLog, userId);
+
+  logger.info(`Logged ${careLog.careType} for plant ${plant.id} from MQTT device ${device.id}`);
+  return { ok: true, careLogId: careLog.id };
+}
+
+async function onMessage(topic: string, message: Buffer): Promise<void> {
+  const match = topic.match(/\/users\/(\d+)\/commands\/care$/);
+  if (!match || !client) return;
+  const userId = parseInt(match[1], 10);
+
+  let outcome;
+  try {
+    outcome = await handleCareCommand(userId, message.toString("utf8"));
+  } catch (error) {
+    logger.error(`Failed to handle MQTT care command for user ${userId}:`, error);
+    outcome = { ok: false, message: "Internal error" };
+  }
+  client.publish(`${topic}/result`, JSON.stringify(outcome), { qos: 1 });
+}
+
+/**
+ * Connects to the broker in MQTT_URL (e.g. mqtt://localhost:1883), if set, to
+ * publish garden events and take care commands. MQTT_USERNAME and
+ * MQTT_PASSWORD are passed to the broker; MQTT_TOPIC_PREFIX defaults to
+ * "hannas-garden". The client reconnects on its own when the broker drops.
+ */
+export function startMqttBridge(): void {
+  const url = process.env.MQTT_URL;
+  if (client || !url) return;
+
+  client = connect(url, {
+    username: process.env.MQTT_USERNAME || undefined,
+    password: process.env.MQTT_PASSWORD || undefined,
+    clientId: `hannas-garden-${process.pid}`,
+    reconnectPeriod: 5000,
+  });
+
+  const commandTopic = `${getTopicPrefix()}/users/+/commands/care`;
+  client.on("connect", () => {
+    logger.info(`MQTT bridge connected, listening on ${commandTopic}`);
+    client?.subscribe(commandTopic, { qos: 1 }, (error) => {
+      if (error) logger.error(`Failed to subscribe to ${commandTopic}:`, error);
+    });
+  });
+  client.on("message", (topic, message) => {
+    onMessage(topic, message).catch(error => logger.error("MQTT message handling failed:", error));
+  });
+  client.on("error", (error) => {
+    logger.error("MQTT bridge error:", error);
+  });
+
+  remindersPublishedUntil = new Date();
+  reminderTimer = setInterval(async () => {
+    // Skip this tick if the previous check is still going
+    if (reminderCheckInProgress || !client?.connected) return;
+    reminderCheckInProgress = true;
+    try {
+      await publishDueReminders();
+    } catch (error) {
+      logger.error("Publishing due reminders over MQTT failed:", error);
+    } finally {
+      reminderCheckInProgress = false;
+    }
+  }, REMINDER_CHECK_MS);
+  // Don't keep the process alive just for the bridge
+  reminderTimer.unref();
+}
+
+export async function stopMqttBridge(): Promise<void> {
+  if (reminderTimer) {
+    clearInterval(reminderTimer);
+    reminderTimer = null;
+  }
+  if (client) {
+    const closing = client;
+    client = null;
+    await closing.endAsync();
+  }
+}
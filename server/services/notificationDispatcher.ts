@@ -0,0 +1,242 @@
+import { type Reminder, type User, type ProfileSettings } from "@shared/schema";
+import { getEmailTransport, type EmailMessage } from "./emailTransport";
+import { sendPushToUser } from "./webPush";
+import { getZonedParts, resolveTimezone, zonedTimeToUtc } from "./reminderEngine";
+import * as logger from "./logger";
+
+const DEFAULT_DIGEST_HOUR = 8;
+const DEFAULT_INTERVAL_MINUTES = 15;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+let dispatchInProgress = false;
+
+/**
+ * Parses an "HH:MM" string into minutes after midnight.
+ */
+function parseTimeOfDay(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const match = value.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
+
+/**
+ * Checks whether a local time falls inside the user's quiet hours.
+ * Ranges may wrap past midnight (e.g. 22:00 to 07:00).
+ */
+export function isWithinQuietHours(localMinutes: number, start?: string | null, end?: string | null): boolean {
+  const startMinutes = parseTimeOfDay(start);
+  const endMinutes = parseTimeOfDay(end);
+  if (startMinutes === null || endMinutes === null || startMinutes === endMinutes) return false;
+
+  if (startMinutes < endMinutes) {
+    return localMinutes >= startMinutes && localMinutes < endMinutes;
+  }
+  return localMinutes >= startMinutes || localMinutes < endMinutes;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Builds the daily digest email for one user.
+ */
+export function buildDigestEmail(
+  user: User,
+  reminders: Reminder[],
+  plantNames: Map<number, string>,
+  timezone: string
+): EmailMessage {
+  const name = user.displayName || user.username;
+  const formatDue = (date: Date) =>
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone, weekday: "short", hour: "numeric", minute: "2-digit" }).format(date);
+
+  const lines = reminders.map((reminder) => {
+    const plantName = plantNames.get(reminder.plantId) || "your plant";
+    return { title: reminder.title, plantName, due: formatDue(new Date(reminder.dueDate)) };
+  });
+
+  const subject = reminders.length === 1
+    ? `Plant care reminder: ${reminders[0].title}`
+    : `You have ${reminders.length} plant care tasks today`;
+
+  const text = [
+    `Hi ${name},`,
+    "",
+    "Here's what your plants need today:",
+    "",
+    ...lines.map(line => `- ${line.title} (${line.plantName}, due ${line.due})`),
+    "",
+    "Open Hanna's Garden to mark them as done or snooze them.",
+  ].join("\n");
+
+  const html = `
+    <p>Hi ${escapeHtml(name)},</p>
+    <p>Here's what your plants need today:</p>
+    <ul>
+      ${lines.map(line => `<li><strong>${escapeHtml(line.title)}</strong> &ndash; ${escapeHtml(line.plantName)}, due ${escapeHtml(line.due)}</li>`).join("\n      ")}
+    </ul>
+    <p>Open Hanna's Garden to mark them as done or snooze them.</p>
+  `;
+
+  return { to: user.email, subject, text, html };
+}
+
+/**
+ * Sends one user's digest over their enabled channels.
+ * @returns true if at least one channel delivered it
+ */
+async function deliverDigest(
+  user: User,
+  settings: ProfileSettings | undefined,
+  reminders: Reminder[],
+  timezone: string
+): Promise<boolean> {
+  const { storage } = await import("../storage");
+
+  const plantNames = new Map<number, string>();
+  for (const plantId of Array.from(new Set(reminders.map(r => r.plantId)))) {
+    const plant = await storage.getPlant(plantId);
+    if (plant) plantNames.set(plantId, plant.name);
+  }
+
+  let delivered = false;
+
+  if (settings?.emailNotifications !== false && user.email) {
+    try {
+      await getEmailTransport().send(buildDigestEmail(user, reminders, plantNames, timezone));
+      delivered = true;
+    } catch (error) {
+      logger.error(`Failed to send reminder digest email to user ${user.id}:`, error);
+    }
+  }
+
+  if (settings?.pushNotifications) {
+    const pushed = await sendPushToUser(user.id, {
+      title: reminders.length === 1 ? reminders[0].title : `${reminders.length} plant care tasks today`,
+      body: reminders.map(r => r.title).slice(0, 3).join(", ") + (reminders.length > 3 ? "…" : ""),
+      url: "/reminders",
+      tag: "reminder-digest",
+    });
+    if (pushed > 0) delivered = true;
+  }
+
+  return delivered;
+}
+
+/**
+ * Finds pending, un-notified reminders that are due by the end of each user's
+ * local day and sends each user at most one digest per day, after their digest
+ * hour and outside their quiet hours. Delivered reminders are marked `notified`.
+ */
+export async function runNotificationDispatch(now: Date = new Date()): Promise<{ users: number; reminders: number }> {
+  const { storage } = await import("../storage");
+
+  // A day ahead covers "end of today" for every timezone
+  const candidates = await storage.getDueUnnotifiedReminders(new Date(now.getTime() + MS_PER_DAY));
+
+  const byUser = new Map<number, Reminder[]>();
+  for (const reminder of candidates) {
+    // Assigned reminders go to the assigned garden member instead of their creator
+    const recipientId = reminder.assignedTo ?? reminder.userId;
+    const list = byUser.get(recipientId) || [];
+    list.push(reminder);
+    byUser.set(recipientId, list);
+  }
+
+  let usersNotified = 0;
+  let remindersNotified = 0;
+
+  for (const [userId, userReminders] of Array.from(byUser.entries())) {
+    try {
+      const user = await storage.getUser(userId);
+      if (!user) continue;
+
+      const settings = await storage.getProfileSettings(userId);
+      const timezone = resolveTimezone(user.timezone);
+      const local = getZonedParts(now, timezone);
+
+      // Only reminders due before local midnight tonight
+      const endOfLocalDay = zonedTimeToUtc(local.year, local.month, local.day + 1, 0, 0, timezone);
+      const dueToday = userReminders.filter(r => new Date(r.dueDate).getTime() < endOfLocalDay.getTime());
+      if (dueToday.length === 0) continue;
+
+      if (local.hour < (settings?.digestHour ?? DEFAULT_DIGEST_HOUR)) continue;
+      if (isWithinQuietHours(local.hour * 60 + local.minute, settings?.quietHoursStart, settings?.quietHoursEnd)) continue;
+
+      // One digest per local day; anything that became due since waits for tomorrow's
+      if (settings?.lastDigestSentAt) {
+        const lastSent = getZonedParts(new Date(settings.lastDigestSentAt), timezone);
+        if (lastSent.year === local.year && lastSent.month === local.month && lastSent.day === local.day) continue;
+      }
+
+      const delivered = await deliverDigest(user, settings, dueToday, timezone);
+      if (!delivered) continue;
+
+      await storage.markRemindersNotified(dueToday.map(r => r.id));
+      if (settings) {
+        await storage.updateProfileSettings(userId, { lastDigestSentAt: now });
+      } else {
+        const created = await storage.createProfileSettings({ userId });
+        await storage.updateProfileSettings(created.userId, { lastDigestSentAt: now });
+      }
+
+      usersNotified++;
+      remindersNotified += dueToday.length;
+    } catch (error) {
+      logger.error(`Failed to dispatch notifications for user ${userId}:`, error);
+    }
+  }
+
+  if (usersNotified > 0) {
+    logger.info(`Sent reminder digests to ${usersNotified} users covering ${remindersNotified} reminders`);
+  }
+  return { users: usersNotified, reminders: remindersNotified };
+}
+
+/**
+ * Starts the in-process job that runs the dispatcher (and closes expired sitter
+ * links) every NOTIFICATION_INTERVAL_MINUTES (default 15). Set NOTIFICATIONS_DISABLED=true to skip.
+ */
+export function startNotificationScheduler(): void {
+  if (schedulerTimer || process.env.NOTIFICATIONS_DISABLED === "true") return;
+
+  const minutes = parseInt(process.env.NOTIFICATION_INTERVAL_MINUTES || "", 10) || DEFAULT_INTERVAL_MINUTES;
+
+  const tick = async () => {
+    // Skip this tick if the previous run is still going
+    if (dispatchInProgress) return;
+    dispatchInProgress = true;
+    try {
+      // Plants whose soil sensor still reads moist aren't due for water yet
+      const { deferRemindersForMoistSoil } = await import("./sensors");
+      await deferRemindersForMoistSoil().catch(error => logger.error("Soil moisture check failed:", error));
+      await runNotificationDispatch();
+      // Sitter links expire on the same clock
+      const { runSitterLinkExpiry } = await import("./sitterHandoff");
+      await runSitterLinkExpiry();
+    } catch (error) {
+      logger.error("Notification dispatch failed:", error);
+    } finally {
+      dispatchInProgress = false;
+    }
+  };
+
+  schedulerTimer = setInterval(tick, minutes * 60 * 1000);
+  // Don't keep the process alive just for the scheduler
+  schedulerTimer.unref();
+  logger.info(`Notification scheduler running every ${minutes} minutes`);
+}
+
+export function stopNotificationScheduler(): void {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+}
@@ -1,35 +1,13 @@
-import OpenAI from "openai";
-import { type CareLog, type PlantWithCare } from "@shared/schema";
+import { type CareLog, type GrowthMeasurements, type GrowthMetric, type PlantWithCare } from "@shared/schema";
 import * as logger from "./logger";
+import { assertAiConfigured, createChatCompletion, hashContent } from "./aiGateway";
 
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const MODEL = "gpt-4o";
+// Answers about a species or a specific photo don't change, so keep them for a month
+const STABLE_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
 
-const apiKey = process.env.OPENAI_API_KEY;
-const isProduction = process.env.NODE_ENV === 'production';
+// Crash at startup in production without a usable provider
+assertAiConfigured();
 
-// Initialize OpenAI client, but allow it to be null in development if the key is missing.
-let openai: OpenAI | null = null;
-
-if (apiKey) {
-  openai = new OpenAI({ apiKey });
-} else {
-  if (isProduction) {
-    logger.error("CRITICAL: OPENAI_API_KEY is not set in production. The application cannot start.");
-    throw new Error("OpenAI API key is required for production. Please set the OPENAI_API_KEY environment variable.");
-  } else {
-    logger.warn("OPENAI_API_KEY is not set. AI-powered features will be disabled.");
-  }
-}
-
-// Helper function to get the OpenAI client or throw a runtime error if it's not available.
-// This prevents the entire app from crashing at startup in development.
-function getClient(): OpenAI {
-  if (!openai) {
-    throw new Error("OpenAI API key is not configured. Please set OPENAI_API_KEY in your .env file to use this feature.");
-  }
-  return openai;
-}
 // ===== ORIGINAL TYPES =====
 
 // Types for plant care recommendations
@@ -266,7 +244,6 @@ export interface AnonymizedCareLog {
  * @returns Detailed care recommendations
  */
 export async function getPlantCareRecommendations(plantName: string): Promise<PlantCareRecommendations> {
-  const client = getClient();
 
   try {
     logger.info(`Getting care recommendations for plant: ${plantName}`);
@@ -300,8 +277,7 @@ export async function getPlantCareRecommendations(plantName: string): Promise<Pl
     `;
 
     // Query OpenAI
-    const response = await client.chat.completions.create({
-      model: MODEL,
+    const response = await createChatCompletion({
       messages: [
         {
           role: "system",
@@ -314,6 +290,10 @@ export async function getPlantCareRecommendations(plantName: string): Promise<Pl
       ],
       response_format: { type: "json_object" },
       max_tokens: 1200,
+    }, {
+      feature: "care_recommendations",
+      cacheKey: plantName.trim().toLowerCase(),
+      cacheTtlMs: STABLE_CACHE_TTL_MS,
     });
 
     // Check if we got a valid response
@@ -358,7 +338,6 @@ export async function getPlantCareRecommendations(plantName: string): Promise<Pl
  * @returns Plant health diagnosis with recommendations
  */
 export async function diagnosePlantHealth(base64Image: string): Promise<PlantHealthDiagnosis> {
-  const client = getClient();
 
   try {
     logger.info("Starting plant health diagnosis process");
@@ -390,8 +369,7 @@ export async function diagnosePlantHealth(base64Image: string): Promise<PlantHea
 
     // Call OpenAI API with the image
     logger.info("Making request to OpenAI API for plant health diagnosis...");
-    const response = await client.chat.completions.create({
-      model: MODEL,
+    const response = await createChatCompletion({
       messages: [
         {
           role: "system",
@@ -415,6 +393,10 @@ export async function diagnosePlantHealth(base64Image: string): Promise<PlantHea
       ],
       response_format: { type: "json_object" },
       max_tokens: 1000,
+    }, {
+      feature: "health_diagnosis",
+      cacheKey: hashContent(base64Image),
+      cacheTtlMs: STABLE_CACHE_TTL_MS,
     });
 
     logger.info("Received response from OpenAI for plant health diagnosis");
@@ -456,7 +438,6 @@ export async function diagnosePlantHealth(base64Image: string): Promise<PlantHea
 }
 
 export async function identifyPlantFromImage(base64Image: string): Promise<PlantIdentificationResult> {
-  const client = getClient();
 
   try {
     logger.info("Starting plant identification process");
@@ -476,8 +457,7 @@ export async function identifyPlantFromImage(base64Image: string): Promise<Plant
     logger.info("Making request to OpenAI API...");
 
     // Query OpenAI Vision model
-    const response = await client.chat.completions.create({
-      model: MODEL,
+    const response = await createChatCompletion({
       messages: [
         {
           role: "system",
@@ -501,6 +481,10 @@ export async function identifyPlantFromImage(base64Image: string): Promise<Plant
       ],
       response_format: { type: "json_object" },
       max_tokens: 1000,
+    }, {
+      feature: "plant_identification",
+      cacheKey: hashContent(base64Image),
+      cacheTtlMs: STABLE_CACHE_TTL_MS,
     });
 
     logger.info("Received response from OpenAI");
@@ -567,7 +551,6 @@ export async function getPersonalizedPlantAdvice(
   careHistory: CareLog[],
   userEnvironment: UserEnvironment
 ): Promise<PersonalizedAdvice> {
-  const client = getClient();
 
   try {
     logger.info(`Getting personalized advice for plant: ${plant.name} (${plant.scientificName})`);
@@ -605,8 +588,7 @@ export async function getPersonalizedPlantAdvice(
     `;
 
     // Query OpenAI
-    const response = await client.chat.completions.create({
-      model: MODEL,
+    const response = await createChatCompletion({
       messages: [
         {
           role: "system",
@@ -637,7 +619,7 @@ export async function getPersonalizedPlantAdvice(
       ],
       response_format: { type: "json_object" },
       max_tokens: 1500,
-    });
+    }, { feature: "personalized_advice" });
 
     // Check if we got a valid response
     if (!response.choices || response.choices.length === 0) {
@@ -680,7 +662,6 @@ export async function getSeasonalCareRecommendations(
   location: string,
   season: string = getCurrentSeason()
 ): Promise<SeasonalCareGuide> {
-  const client = getClient();
 
   try {
     logger.info(`Getting seasonal care recommendations for ${season} in ${location}`);
@@ -718,8 +699,7 @@ export async function getSeasonalCareRecommendations(
     `;
 
     // Query OpenAI
-    const response = await client.chat.completions.create({
-      model: MODEL,
+    const response = await createChatCompletion({
       messages: [
         {
           role: "system",
@@ -732,7 +712,7 @@ export async function getSeasonalCareRecommendations(
       ],
       response_format: { type: "json_object" },
       max_tokens: 2000,
-    });
+    }, { feature: "seasonal_recommendations" });
 
     // Check if we got a valid response
     if (!response.choices || response.choices.length === 0) {
@@ -775,7 +755,6 @@ export async function getPlantArrangementSuggestions(
   spaceType: string,
   spaceSize: string
 ): Promise<ArrangementSuggestion> {
-  const client = getClient();
 
   try {
     logger.info(`Getting plant arrangement suggestions for ${spaceType} (${spaceSize})`);
@@ -814,8 +793,7 @@ export async function getPlantArrangementSuggestions(
     `;
 
     // Query OpenAI
-    const response = await client.chat.completions.create({
-      model: MODEL,
+    const response = await createChatCompletion({
       messages: [
         {
           role: "system",
@@ -828,7 +806,7 @@ export async function getPlantArrangementSuggestions(
       ],
       response_format: { type: "json_object" },
       max_tokens: 1500,
-    });
+    }, { feature: "arrangement_suggestions" });
 
     // Check if we got a valid response
     if (!response.choices || response.choices.length === 0) {
@@ -876,7 +854,6 @@ export async function verifyPlantIdentity(
   detectedPlant?: string;
 }> {
   try {
-    const client = getClient();
     logger.info(`Verifying plant identity in photo - Expected: ${expectedPlantName}`);
 
     // System prompt for plant verification
@@ -895,8 +872,7 @@ export async function verifyPlantIdentity(
 
     // Call OpenAI API with the image
     logger.info("Making request to OpenAI API for plant identity verification...");
-    const response = await getClient().chat.completions.create({
-      model: MODEL,
+    const response = await createChatCompletion({
       messages: [
         {
           role: "system",
@@ -921,7 +897,7 @@ export async function verifyPlantIdentity(
       ],
       response_format: { type: "json_object" },
       max_tokens: 600,
-    });
+    }, { feature: "identity_verification" });
 
     // Validate response
     if (!response.choices || response.choices.length === 0 || !response.choices[0].message.content) {
@@ -958,7 +934,6 @@ export async function generateJournalEntry(
   plant: PlantWithCare,
   careHistory?: CareLog[]
 ): Promise<EnhancedJournalEntry> {
-  const client = getClient();
 
   try {
     logger.info(`Generating journal entry for ${plant.name} care log (${careLog.careType})`);
@@ -1082,8 +1057,8 @@ export async function generateJournalEntry(
         // Lower max_tokens on retry attempts
         const maxTokens = attempts > 0 ? 600 : 1200;
 
-        response = await client.chat.completions.create({
-          model: attempts > 0 ? "gpt-3.5-turbo" : MODEL, // Fallback to smaller model after first attempt
+        response = await createChatCompletion({
+          modelTier: attempts > 0 ? "fast" : "default", // Fallback to smaller model after first attempt
           messages: [
             {
               role: "system",
@@ -1096,7 +1071,7 @@ export async function generateJournalEntry(
           ],
           response_format: { type: "json_object" },
           max_tokens: maxTokens,
-        });
+        }, { feature: "journal_entry" });
 
         // Success, break out of the retry loop
         break;
@@ -1158,17 +1133,57 @@ export async function generateJournalEntry(
   }
 }
 
+// Most photos sent in one growth analysis, spread evenly from the oldest to the newest
+export const MAX_GROWTH_FRAMES = 6;
+
+const GROWTH_METRIC_LABELS: Record<GrowthMetric, string> = {
+  heightCm: "height (cm)",
+  leafCount: "leaves",
+  newLeaves: "new leaves",
+  potSizeCm: "pot size (cm)",
+};
+
+/**
+ * Picks at most `max` items spread evenly through the list, always keeping the
+ * first and the last.
+ */
+export function sampleEvenly<T>(items: T[], max: number): T[] {
+  if (items.length <= max) return items;
+  if (max <= 1) return items.slice(-1);
+  return Array.from({ length: max }, (_, index) => items[Math.round(index * (items.length - 1) / (max - 1))]);
+}
+
+// One line per logged measurement, e.g. "2024-03-01: height (cm) 24, leaves 9"
+function formatMeasurementSeries(series: { date: string; measurements: GrowthMeasurements }[]): string {
+  return series
+    .map(({ date, measurements }) => {
+      const values = (Object.keys(GROWTH_METRIC_LABELS) as GrowthMetric[])
+        .filter(metric => measurements[metric] !== undefined)
+        .map(metric => `${GROWTH_METRIC_LABELS[metric]} ${measurements[metric]}`);
+      return `${date.slice(0, 10)}: ${values.join(", ")}`;
+    })
+    .join("\n");
+}
+
+export interface GrowthProgressionOptions {
+  // When each photo was taken (ISO dates), in the same order as the photos
+  takenAt?: string[];
+  // Measurements logged for the plant, oldest first
+  measurements?: { date: string; measurements: GrowthMeasurements }[];
+}
+
 /**
  * Analyze plant growth progression from a sequence of photos
- * @param imageHistory Array of base64 image data for the same plant over time
+ * @param imageHistory Array of base64 image data for the same plant over time, oldest first
  * @param plant The plant in the photos
+ * @param options Photo dates and logged measurements, so the analysis can follow the trend
  * @returns Growth analysis
  */
 export async function analyzeGrowthProgression(
   imageHistory: string[], // Array of base64 image data
-  plant: PlantWithCare
+  plant: PlantWithCare,
+  options: GrowthProgressionOptions = {}
 ): Promise<GrowthAnalysis> {
-  const client = getClient();
 
   try {
     logger.info(`Analyzing growth progression for ${plant.name} with ${imageHistory.length} images`);
@@ -1178,22 +1193,25 @@ export async function analyzeGrowthProgression(
       throw new Error("At least 2 images are required for growth analysis");
     }
 
-    // Use the oldest and newest images
-    const oldestImage = imageHistory[0];
-    const newestImage = imageHistory[imageHistory.length - 1];
-
-    // Prepare image URLs
-    const oldestImageUrl = oldestImage.startsWith('data:') 
-      ? oldestImage 
-      : `data:image/jpeg;base64,${oldestImage}`;
+    // Spread the frames over the whole history, not just its two ends
+    const frameIndexes = sampleEvenly(imageHistory.map((_, index) => index), MAX_GROWTH_FRAMES);
+    const frames = frameIndexes.map(index => ({
+      url: imageHistory[index].startsWith('data:')
+        ? imageHistory[index]
+        : `data:image/jpeg;base64,${imageHistory[index]}`,
+      takenAt: options.takenAt?.[index],
+    }));
 
-    const newestImageUrl = newestImage.startsWith('data:') 
-      ? newestImage 
-      : `data:image/jpeg;base64,${newestImage}`;
+    const frameList = frames
+      .map((frame, index) => `Photo ${index + 1}${frame.takenAt ? `: ${frame.takenAt.slice(0, 10)}` : ""}`)
+      .join("\n");
+    const measurementText = options.measurements && options.measurements.length > 0
+      ? `\n\nMeasurements I've logged, oldest first:\n${formatMeasurementSeries(options.measurements)}\nUse them to judge the growth rate and mention the trend.`
+      : "";
 
     // System prompt for growth analysis
     const systemPrompt = `
-      You are a plant growth analysis expert. Compare two images of the same plant taken at different times.
+      You are a plant growth analysis expert. Compare a chronological sequence of images of the same plant taken at different times.
       Analyze growth patterns, health changes, and provide recommendations.
       Return a JSON object with the following structure:
       {
@@ -1202,7 +1220,7 @@ export async function analyzeGrowthProgression(
         "growthRate": "slow" | "moderate" | "fast",
         "potentialIssues": ["Issue 1", "Issue 2"],
         "recommendations": ["Recommendation 1", "Recommendation 2"],
-        "comparisonNotes": "Detailed notes comparing the two images"
+        "comparisonNotes": "Detailed notes on how the plant changed across the images"
       }
     `;
 
@@ -1217,16 +1235,14 @@ export async function analyzeGrowthProgression(
         logger.info(`Attempt ${attempts + 1} to analyze growth progression...`);
 
         // Validate image URLs before sending to prevent invalid URL errors
-        const validatedOldestUrl = validateAndFixImageUrl(oldestImageUrl);
-        const validatedNewestUrl = validateAndFixImageUrl(newestImageUrl);
+        const validatedUrls = frames.map(frame => validateAndFixImageUrl(frame.url));
 
-        if (!validatedOldestUrl || !validatedNewestUrl) {
+        if (validatedUrls.some(url => !url)) {
           throw new Error("Invalid image format for analysis. Only base64 encoded images are supported.");
         }
 
         // Try with full vision analysis first
-        response = await client.chat.completions.create({
-          model: MODEL,
+        response = await createChatCompletion({
           messages: [
             {
               role: "system",
@@ -1237,22 +1253,18 @@ export async function analyzeGrowthProgression(
               content: [
                 {
                   type: "text",
-                  text: `Compare these two images of my ${plant.name} (${plant.scientificName || "unknown species"}) taken ${imageHistory.length} months apart. The first image is the oldest, and the second is the most recent. Analyze growth, health changes, and provide recommendations.`
+                  text: `Compare these ${frames.length} images of my ${plant.name} (${plant.scientificName || "unknown species"}), in order from oldest to most recent:\n${frameList}${measurementText}\n\nAnalyze growth, health changes, and provide recommendations.`
                 },
-                {
-                  type: "image_url",
-                  image_url: { url: validatedOldestUrl }
-                },
-                {
-                  type: "image_url",
-                  image_url: { url: validatedNewestUrl }
-                }
+                ...validatedUrls.map(url => ({
+                  type: "image_url" as const,
+                  image_url: { url: url! }
+                }))
               ]
             }
           ],
           response_format: { type: "json_object" },
           max_tokens: 1500,
-        });
+        }, { feature: "growth_analysis" });
         break;
       } catch (error) {
         attempts++;
@@ -1270,8 +1282,8 @@ export async function analyzeGrowthProgression(
         } else if (typeof error === 'object' && error !== null && 'code' in error && error.code === 'invalid_image_url' && attempts < maxAttempts) {
           logger.error("Invalid image URL, will try text-only analysis next:", error.message);
           // Fallback to simpler text-only analysis if image URLs are invalid
-          response = await client.chat.completions.create({
-            model: "gpt-3.5-turbo", // Use simpler model for fallback
+          response = await createChatCompletion({
+            modelTier: "fast", // Use simpler model for fallback
             messages: [
               {
                 role: "system",
@@ -1279,12 +1291,12 @@ export async function analyzeGrowthProgression(
               },
               {
                 role: "user",
-                content: `Provide a generic growth analysis for a ${plant.name} (${plant.scientificName || "unknown species"}) based on typical growth patterns for this plant. The user's images couldn't be processed.`
+                content: `Provide a generic growth analysis for a ${plant.name} (${plant.scientificName || "unknown species"}) based on typical growth patterns for this plant. The user's images couldn't be processed.${measurementText}`
               }
             ],
             response_format: { type: "json_object" },
             max_tokens: 800,
-          });
+          }, { feature: "growth_analysis" });
           break;
         } else if (attempts >= maxAttempts) {
           logger.error(`Failed after ${maxAttempts} attempts:`, error);
@@ -1357,7 +1369,6 @@ export async function getPlantCareAnswer(
   question: string,
   plantsInCollection?: PlantWithCare[]
 ): Promise<PlantCareAnswer> {
-  const client = getClient();
 
   try {
     logger.info(`Getting answer to plant care question: ${question}`);
@@ -1382,8 +1393,7 @@ export async function getPlantCareAnswer(
     `;
 
     // Query OpenAI
-    const response = await client.chat.completions.create({
-      model: MODEL,
+    const response = await createChatCompletion({
       messages: [
         {
           role: "system",
@@ -1396,7 +1406,7 @@ export async function getPlantCareAnswer(
       ],
       response_format: { type: "json_object" },
       max_tokens: 1200,
-    });
+    }, { feature: "plant_care_answer" });
 
     // Check if we got a valid response
     if (!response.choices || response.choices.length === 0) {
@@ -1437,7 +1447,6 @@ export async function generateOptimizedCareSchedule(
   plants: PlantWithCare[],
   userAvailability: UserSchedule
 ): Promise<OptimizedCareSchedule> {
-  const client = getClient();
 
   try {
     logger.info(`Generating optimized care schedule for ${plants.length} plants`);
@@ -1479,8 +1488,7 @@ export async function generateOptimizedCareSchedule(
     `;
 
     // Query OpenAI
-    const response = await client.chat.completions.create({
-      model: MODEL,
+    const response = await createChatCompletion({
       messages: [
         {
           role: "system",
@@ -1499,7 +1507,7 @@ export async function generateOptimizedCareSchedule(
       ],
       response_format: { type: "json_object" },
       max_tokens: 2000,
-    });
+    }, { feature: "optimized_schedule" });
 
     // Check if we got a valid response
     if (!response.choices || response.choices.length === 0) {
@@ -1540,7 +1548,6 @@ export async function generateCommunityInsights(
   plantType: string,
   anonymizedCareLogs: AnonymizedCareLog[]
 ): Promise<CommunityInsight> {
-  const client = getClient();
 
   try {
     logger.info(`Generating community insights for ${plantType} plants from ${anonymizedCareLogs.length} care logs`);
@@ -1571,8 +1578,7 @@ export async function generateCommunityInsights(
     `;
 
     // Query OpenAI
-    const response = await client.chat.completions.create({
-      model: MODEL,
+    const response = await createChatCompletion({
       messages: [
         {
           role: "system",
@@ -1585,7 +1591,7 @@ export async function generateCommunityInsights(
       ],
       response_format: { type: "json_object" },
       max_tokens: 1500,
-    });
+    }, { feature: "community_insights" });
 
     // Check if we got a valid response
     if (!response.choices || response.choices.length === 0) {
@@ -1616,10 +1622,9 @@ export async function generateCommunityInsights(
   }
 }
 
-// Helper function to get the current season
-export function getCurrentSeason(): string {
-  const now = new Date();
-  const month = now.getMonth();
+// Helper function to get the current season (or the season of a given date)
+export function getCurrentSeason(date: Date = new Date()): string {
+  const month = date.getMonth();
 
   if (month >= 2 && month <= 4) return "Spring";
   if (month >= 5 && month <= 7) return "Summer";
@@ -1639,7 +1644,6 @@ export async function analyzePhotoForCareLog(
   plantName: string, 
   plantType: string
 ): Promise<SimpleHealthAnalysis> {
-  const client = getClient();
 
   try {
     logger.info(`Analyzing photo for care log of plant: ${plantName} (${plantType})`);
@@ -1662,8 +1666,7 @@ export async function analyzePhotoForCareLog(
 
     // Call OpenAI API with the image
     logger.info("Making request to OpenAI API for plant photo analysis...");
-    const response = await client.chat.completions.create({
-      model: MODEL,
+    const response = await createChatCompletion({
       messages: [
         {
           role: "system",
@@ -1687,7 +1690,7 @@ export async function analyzePhotoForCareLog(
       ],
       response_format: { type: "json_object" },
       max_tokens: 600,
-    });
+    }, { feature: "care_log_photo_analysis" });
 
     // Validate response
     if (!response.choices || response.choices.length === 0) {
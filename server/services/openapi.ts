@@ -0,0 +1,214 @@
+import { createSelectSchema } from "drizzle-zod";
+import * as z4 from "zod/v4";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import {
+  API_TOKEN_SCOPES,
+  careLogs,
+  careTypeEnum,
+  growthMeasurementsSchema,
+  insertCareLogSchema,
+  insertPlantSchema,
+  insertReminderSchema,
+  photos,
+  plants,
+  reminders,
+  snoozeReminderSchema,
+  users,
+  type ApiTokenScope,
+} from "@shared/schema";
+
+type JsonSchema = Record<string, unknown>;
+
+type Operation = {
+  method: "get" | "post" | "patch" | "delete";
+  path: string;
+  summary: string;
+  scope: ApiTokenScope;
+  body?: string; // Name of a request schema in components
+  response?: { status: number; schema?: string; list?: boolean };
+};
+
+// Schemas come from shared/schema.ts: request bodies from the insert schemas the
+// routes validate with, responses from the tables
+const REQUEST_SCHEMAS: Record<string, unknown> = {
+  PlantInput: insertPlantSchema,
+  PlantUpdate: insertPlantSchema.partial(),
+  CareLogInput: insertCareLogSchema,
+  CareLogForPlantInput: insertCareLogSchema.omit({ plantId: true }),
+  ReminderInput: insertReminderSchema,
+  ReminderUpdate: insertReminderSchema.partial(),
+  SnoozeInput: snoozeReminderSchema,
+};
+
+const RESPONSE_SCHEMAS: Record<string, unknown> = {
+  Plant: createSelectSchema(plants),
+  CareLog: createSelectSchema(careLogs),
+  Reminder: createSelectSchema(reminders),
+  Photo: createSelectSchema(photos),
+  // Built by services/growthTimeline.ts rather than read from a table
+  GrowthTimeline: z4.object({
+    plantId: z4.number().int(),
+    entries: z4.array(z4.object({
+      careLogId: z4.number().int(),
+      timestamp: z4.string(),
+      careType: z4.enum(careTypeEnum.enumValues),
+      photo: z4.string().nullable(),
+      measurements: growthMeasurementsSchema.nullable(),
+    })),
+    photoCount: z4.number().int(),
+  }),
+  Profile: createSelectSchema(users).omit({ password: true }),
+};
+
+const OPERATIONS: Operation[] = [
+  { method: "get", path: "/plants", summary: "List plants, including shared garden plants", scope: "plants:read", response: { status: 200, schema: "Plant", list: true } },
+  { method: "post", path: "/plants", summary: "Create a plant with water and fertilize reminders", scope: "plants:write", body: "PlantInput", response: { status: 201, schema: "Plant" } },
+  { method: "get", path: "/plants/{id}", summary: "Get a plant", scope: "plants:read", response: { status: 200, schema: "Plant" } },
+  { method: "patch", path: "/plants/{id}", summary: "Update a plant", scope: "plants:write", body: "PlantUpdate", response: { status: 200, schema: "Plant" } },
+  { method: "delete", path: "/plants/{id}", summary: "Delete a plant", scope: "plants:write", response: { status: 204 } },
+  { method: "get", path: "/plants/{id}/photos", summary: "List a plant's photos", scope: "plants:read", response: { status: 200, schema: "Photo", list: true } },
+  { method: "get", path: "/plants/{id}/reminders", summary: "List a plant's reminders", scope: "reminders:read", response: { status: 200, schema: "Reminder", list: true } },
+  { method: "get", path: "/plants/{id}/growth", summary: "Get a plant's growth timeline of photos and measurements", scope: "care_logs:read", response: { status: 200, schema: "GrowthTimeline" } },
+  { method: "get", path: "/plants/{id}/care-logs", summary: "List a plant's care logs", scope: "care_logs:read", response: { status: 200, schema: "CareLog", list: true } },
+  { method: "post", path: "/plants/{id}/care-logs", summary: "Log care for a plant", scope: "care_logs:write", body: "CareLogForPlantInput", response: { status: 201, schema: "CareLog" } },
+  { method: "post", path: "/care-logs", summary: "Log care for the plant in plantId", scope: "care_logs:write", body: "CareLogInput", response: { status: 201, schema: "CareLog" } },
+  { method: "get", path: "/reminders", summary: "List reminders", scope: "reminders:read", response: { status: 200, schema: "Reminder", list: true } },
+  { method: "post", path: "/reminders", summary: "Create a reminder", scope: "reminders:write", body: "ReminderInput", response: { status: 201, schema: "Reminder" } },
+  { method: "get", path: "/reminders/upcoming/{days}", summary: "List reminders due in the next days", scope: "reminders:read", response: { status: 200, schema: "Reminder", list: true } },
+  { method: "get", path: "/reminders/overdue", summary: "List overdue reminders", scope: "reminders:read", response: { status: 200, schema: "Reminder", list: true } },
+  { method: "patch", path: "/reminders/{id}", summary: "Update or reassign a reminder", scope: "reminders:write", body: "ReminderUpdate", response: { status: 200, schema: "Reminder" } },
+  { method: "delete", path: "/reminders/{id}", summary: "Delete a reminder", scope: "reminders:write", response: { status: 204 } },
+  { method: "post", path: "/reminders/{id}/complete", summary: "Complete a reminder", scope: "reminders:write", response: { status: 200, schema: "Reminder" } },
+  { method: "post", path: "/reminders/{id}/dismiss", summary: "Dismiss a reminder", scope: "reminders:write", response: { status: 200, schema: "Reminder" } },
+  { method: "post", path: "/reminders/{id}/snooze", summary: "Snooze a reminder", scope: "reminders:write", body: "SnoozeInput", response: { status: 200, schema: "Reminder" } },
+  { method: "get", path: "/profile", summary: "Get the authenticated user's profile", scope: "profile:read", response: { status: 200, schema: "Profile" } },
+];
+
+// The envelope every /api/v1 error is answered with (see utils/errorHandler.ts)
+const ERROR_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["error", "message", "code"],
+  properties: {
+    error: { type: "string" },
+    message: { type: "string" },
+    code: { type: "string" },
+    details: { type: "object" },
+  },
+};
+
+/**
+ * JSON Schema for a zod schema. drizzle-zod builds zod v4 schemas, the rest of
+ * shared/schema.ts uses zod v3, so both are handled.
+ */
+function toJsonSchema(schema: unknown, io: "input" | "output"): JsonSchema {
+  let jsonSchema: JsonSchema;
+  if (schema && typeof schema === "object" && "_zod" in schema) {
+    jsonSchema = z4.toJSONSchema(schema as z4.ZodType, {
+      io,
+      unrepresentable: "any",
+      override: (ctx) => {
+        // Dates are sent as ISO 8601 strings
+        if (ctx.zodSchema._zod.def.type === "date") {
+          ctx.jsonSchema.type = "string";
+          ctx.jsonSchema.format = "date-time";
+        }
+      },
+    }) as JsonSchema;
+  } else {
+    jsonSchema = zodToJsonSchema(schema as Parameters<typeof zodToJsonSchema>[0]) as JsonSchema;
+  }
+  const { $schema, ...rest } = jsonSchema;
+  return rest;
+}
+
+function buildOperation(operation: Operation): JsonSchema {
+  const parameters = Array.from(operation.path.matchAll(/\{(\w+)\}/g)).map(([, name]) => ({
+    name,
+    in: "path",
+    required: true,
+    schema: { type: "integer" },
+  }));
+
+  const responses: JsonSchema = {};
+  if (operation.response) {
+    const { status, schema, list } = operation.response;
+    const ref = schema && { $ref: `#/components/schemas/${schema}` };
+    responses[status] = {
+      description: status === 204 ? "No content" : "OK",
+      ...(ref && { content: { "application/json": { schema: list ? { type: "array", items: ref } : ref } } }),
+    };
+  }
+  for (const status of [400, 401, 403, 404]) {
+    responses[status] = { $ref: `#/components/responses/Error${status}` };
+  }
+
+  return {
+    summary: operation.summary,
+    description: `Requires the \`${operation.scope}\` scope.`,
+    security: [{ bearerAuth: [operation.scope] }, { sessionCookie: [] }],
+    ...(parameters.length > 0 && { parameters }),
+    ...(operation.body && {
+      requestBody: {
+        required: true,
+        content: { "application/json": { schema: { $ref: `#/components/schemas/${operation.body}` } } },
+      },
+    }),
+    responses,
+  };
+}
+
+let cachedDocument: JsonSchema | null = null;
+
+/**
+ * The OpenAPI 3.1 document for /api/v1, served at /api/v1/openapi.json.
+ */
+export function buildOpenApiDocument(): JsonSchema {
+  if (cachedDocument) return cachedDocument;
+
+  const schemas: JsonSchema = { Error: ERROR_SCHEMA };
+  for (const [name, schema] of Object.entries(REQUEST_SCHEMAS)) {
+    schemas[name] = toJsonSchema(schema, "input");
+  }
+  for (const [name, schema] of Object.entries(RESPONSE_SCHEMAS)) {
+    schemas[name] = toJsonSchema(schema, "output");
+  }
+
+  const paths: Record<string, JsonSchema> = {};
+  for (const operation of OPERATIONS) {
+    paths[operation.path] = { ...paths[operation.path], [operation.method]: buildOperation(operation) };
+  }
+
+  const errorResponse = (description: string) => ({
+    description,
+    content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+  });
+
+  cachedDocument = {
+    openapi: "3.1.0",
+    info: {
+      title: "Hanna's Garden API",
+      version: "1.0.0",
+      description: "Create a personal access token in Profile Settings and send it as `Authorization: Bearer <token>`.",
+    },
+    servers: [{ url: "/api/v1" }],
+    paths,
+    components: {
+      schemas,
+      responses: {
+        Error400: errorResponse("Invalid request"),
+        Error401: errorResponse("Missing, invalid or expired credentials"),
+        Error403: errorResponse("The access token lacks the scope, or the user lacks access"),
+        Error404: errorResponse("Not found"),
+      },
+      securitySchemes: {
+        bearerAuth: {
+          type: "http",
+          scheme: "bearer",
+          description: `Personal access token. Scopes: ${API_TOKEN_SCOPES.join(", ")}`,
+        },
+        sessionCookie: { type: "apiKey", in: "cookie", name: "garden.sid" },
+      },
+    },
+  };
+  return cachedDocument;
+}
@@ -0,0 +1,337 @@
+import path from "path";
+import fs from "fs/promises";
+import { randomUUID } from "crypto";
+import sharp from "sharp";
+import type { S3Client } from "@aws-sdk/client-s3";
+import { type Photo } from "@shared/schema";
+import * as logger from "./logger";
+
+// Longest edge (in pixels) of generated thumbnails
+const THUMBNAIL_SIZE = 400;
+
+// Images larger than this are rejected before they reach the blob store
+const MAX_PHOTO_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Minimal interface every photo backend implements.
+ * Keys are forward-slash separated paths relative to the store root.
+ */
+export interface BlobStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | undefined>;
+  delete(key: string): Promise<void>;
+  getUrl(key: string): string;
+}
+
+/**
+ * Stores blobs on local disk under public/uploads, which is already served
+ * by the `/uploads` static mount in server/index.ts.
+ */
+export class LocalDiskBlobStore implements BlobStore {
+  constructor(
+    private rootDir: string = path.join(process.cwd(), "public/uploads"),
+    private publicPath: string = "/uploads"
+  ) {}
+
+  private resolve(key: string): string {
+    const resolved = path.resolve(this.rootDir, key);
+    // Guard against keys escaping the uploads directory
+    if (!resolved.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return resolved;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  getUrl(key: string): string {
+    return `${this.publicPath}/${key}`;
+  }
+}
+
+/**
+ * Stores blobs in any S3-compatible bucket (AWS S3, MinIO, R2...).
+ * For local development point S3_ENDPOINT at a MinIO container.
+ */
+export class S3BlobStore implements BlobStore {
+  private clientPromise: Promise<S3Client> | null = null;
+
+  constructor(
+    private options: {
+      bucket: string;
+      region?: string;
+      endpoint?: string;
+      publicUrl?: string;
+      accessKeyId?: string;
+      secretAccessKey?: string;
+    }
+  ) {}
+
+  // The SDK is imported lazily so the local-disk backend has no startup cost
+  private async client(): Promise<S3Client> {
+    if (!this.clientPromise) {
+      this.clientPromise = import("@aws-sdk/client-s3").then(({ S3Client }) => new S3Client({
+        region: this.options.region || "us-east-1",
+        endpoint: this.options.endpoint,
+        forcePathStyle: !!this.options.endpoint,
+        credentials: this.options.accessKeyId && this.options.secretAccessKey
+          ? { accessKeyId: this.options.accessKeyId, secretAccessKey: this.options.secretAccessKey }
+          : undefined,
+      }));
+    }
+    return this.clientPromise;
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const { PutObjectCommand } = await import("@aws-sdk/client-s3");
+    const client = await this.client();
+    await client.send(new PutObjectCommand({
+      Bucket: this.options.bucket,
+      Key: key,
+      Body: data,
+      ContentType: contentType,
+    }));
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    const { GetObjectCommand } = await import("@aws-sdk/client-s3");
+    const client = await this.client();
+    try {
+      const result = await client.send(new GetObjectCommand({ Bucket: this.options.bucket, Key: key }));
+      const bytes = await result.Body?.transformToByteArray();
+      return bytes ? Buffer.from(bytes) : undefined;
+    } catch (error) {
+      if ((error as { name?: string }).name === "NoSuchKey") return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const { DeleteObjectCommand } = await import("@aws-sdk/client-s3");
+    const client = await this.client();
+    await client.send(new DeleteObjectCommand({ Bucket: this.options.bucket, Key: key }));
+  }
+
+  getUrl(key: string): string {
+    if (this.options.publicUrl) {
+      return `${this.options.publicUrl.replace(/\/$/, "")}/${key}`;
+    }
+    if (this.options.endpoint) {
+      return `${this.options.endpoint.replace(/\/$/, "")}/${this.options.bucket}/${key}`;
+    }
+    return `https://${this.options.bucket}.s3.${this.options.region || "us-east-1"}.amazonaws.com/${key}`;
+  }
+}
+
+/**
+ * Builds the configured blob store from environment variables.
+ * PHOTO_STORAGE=s3 selects the S3 backend, anything else uses local disk.
+ */
+function createBlobStore(): BlobStore {
+  if (process.env.PHOTO_STORAGE === "s3") {
+    if (!process.env.S3_BUCKET) {
+      throw new Error("S3_BUCKET must be set when PHOTO_STORAGE=s3");
+    }
+    logger.info(`Using S3 photo storage (bucket: ${process.env.S3_BUCKET})`);
+    return new S3BlobStore({
+      bucket: process.env.S3_BUCKET,
+      region: process.env.S3_REGION,
+      endpoint: process.env.S3_ENDPOINT,
+      publicUrl: process.env.S3_PUBLIC_URL,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+    });
+  }
+  return new LocalDiskBlobStore();
+}
+
+let blobStore: BlobStore | null = null;
+
+export function getBlobStore(): BlobStore {
+  if (!blobStore) {
+    blobStore = createBlobStore();
+  }
+  return blobStore;
+}
+
+// Allows tests and scripts to swap in a different backend
+export function setBlobStore(store: BlobStore): void {
+  blobStore = store;
+}
+
+/**
+ * Returns true if the value is an inline base64 data URL rather than a stored URL.
+ */
+export function isDataUrl(value: string | null | undefined): value is string {
+  return !!value && value.startsWith("data:image/");
+}
+
+/**
+ * Decodes a base64 string or data URL into raw bytes and a content type.
+ * @throws An error if the payload is empty, too large or not an image.
+ */
+export function decodeImageData(data: string): { buffer: Buffer; contentType: string } {
+  const match = data.match(/^data:(image\/[\w.+-]+);base64,([\s\S]*)$/);
+  const base64 = match ? match[2] : data;
+  const buffer = Buffer.from(base64, "base64");
+
+  if (buffer.length === 0) {
+    throw new Error("Empty image data");
+  }
+  if (buffer.length > MAX_PHOTO_BYTES) {
+    throw new Error(`Image size (${(buffer.length / (1024 * 1024)).toFixed(2)} MB) exceeds the 20 MB limit.`);
+  }
+
+  return { buffer, contentType: match ? match[1] : detectContentType(buffer) };
+}
+
+// Sniff the image format from its magic bytes, defaulting to JPEG
+function detectContentType(buffer: Buffer): string {
+  if (buffer[0] === 0x89 && buffer[1] === 0x50 && buffer[2] === 0x4e && buffer[3] === 0x47) return "image/png";
+  if (buffer[0] === 0x47 && buffer[1] === 0x49 && buffer[2] === 0x46) return "image/gif";
+  if (buffer.slice(8, 12).toString("ascii") === "WEBP") return "image/webp";
+  return "image/jpeg";
+}
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+};
+
+export interface SavePhotoOptions {
+  data: string; // base64 string or data URL
+  kind: "plant" | "care_log";
+  plantId?: number | null;
+  careLogId?: number | null;
+  userId?: number | null;
+}
+
+/**
+ * Stores an original image and a generated JPEG thumbnail in the blob store
+ * and records both in the photos table.
+ * @returns The saved photo row, including public URLs for both sizes
+ */
+export async function savePhoto(options: SavePhotoOptions): Promise<Photo> {
+  const { buffer, contentType } = decodeImageData(options.data);
+  const store = getBlobStore();
+
+  const id = randomUUID();
+  const folder = options.plantId ? `plants/${options.plantId}` : "misc";
+  const storageKey = `${folder}/${id}.${EXTENSIONS[contentType] || "jpg"}`;
+  const thumbnailKey = `${folder}/${id}_thumb.jpg`;
+
+  let width: number | null = null;
+  let height: number | null = null;
+  let thumbnail: Buffer | null = null;
+
+  try {
+    const image = sharp(buffer).rotate();
+    const metadata = await image.metadata();
+    width = metadata.width ?? null;
+    height = metadata.height ?? null;
+    thumbnail = await image
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+      .jpeg({ quality: 75 })
+      .toBuffer();
+  } catch (error) {
+    // Keep the original even if the thumbnail can't be generated
+    logger.warn(`Could not generate thumbnail for ${storageKey}:`, error);
+  }
+
+  await store.put(storageKey, buffer, contentType);
+  if (thumbnail) {
+    await store.put(thumbnailKey, thumbnail, "image/jpeg");
+  }
+
+  // Imported at use site to avoid a circular import with storage.ts
+  const { storage } = await import("../storage");
+  const photo = await storage.createPhoto({
+    plantId: options.plantId ?? null,
+    careLogId: options.careLogId ?? null,
+    userId: options.userId ?? null,
+    kind: options.kind,
+    storageKey,
+    thumbnailKey: thumbnail ? thumbnailKey : null,
+    url: store.getUrl(storageKey),
+    thumbnailUrl: thumbnail ? store.getUrl(thumbnailKey) : null,
+    contentType,
+    sizeBytes: buffer.length,
+    width,
+    height,
+  });
+
+  logger.info(`Stored photo ${photo.id} (${Math.round(buffer.length / 1024)} KB) at ${storageKey}`);
+  return photo;
+}
+
+/**
+ * Removes a photo's blobs from the store and its row from the database.
+ */
+export async function deletePhoto(photo: Photo): Promise<void> {
+  const store = getBlobStore();
+  await store.delete(photo.storageKey);
+  if (photo.thumbnailKey) {
+    await store.delete(photo.thumbnailKey);
+  }
+
+  const { storage } = await import("../storage");
+  await storage.deletePhoto(photo.id);
+}
+
+/**
+ * Loads a stored photo back as a data URL. The AI services need inline image
+ * data because the OpenAI API can't reach our local `/uploads` URLs.
+ * @param url A stored photo URL, or a data URL which is returned unchanged
+ * @param options.maxSize Longest edge in pixels; larger photos are scaled down to a JPEG
+ */
+export async function loadPhotoAsDataUrl(url: string, options: { maxSize?: number } = {}): Promise<string | undefined> {
+  let buffer: Buffer | undefined;
+  let contentType: string;
+  if (isDataUrl(url)) {
+    if (!options.maxSize) return url;
+    ({ buffer, contentType } = decodeImageData(url));
+  } else {
+    const { storage } = await import("../storage");
+    const photo = await storage.getPhotoByUrl(url);
+    if (!photo) return undefined;
+
+    buffer = await getBlobStore().get(photo.storageKey);
+    if (!buffer) return undefined;
+    contentType = photo.contentType;
+  }
+
+  if (options.maxSize) {
+    try {
+      buffer = await sharp(buffer)
+        .rotate()
+        .resize(options.maxSize, options.maxSize, { fit: "inside", withoutEnlargement: true })
+        .jpeg({ quality: 75 })
+        .toBuffer();
+      contentType = "image/jpeg";
+    } catch (error) {
+      // Send the original rather than nothing
+      logger.warn(`Could not resize photo ${url.slice(0, 64)}:`, error);
+    }
+  }
+
+  return `data:${contentType};base64,${buffer.toString("base64")}`;
+}
@@ -0,0 +1,268 @@
+import {
+  type Plant,
+  type PlantLineage,
+  type PlantLineageNode,
+  type PlantTransfer,
+  type PropagatePlant,
+  type PropagationMethod,
+  type User,
+} from "@shared/schema";
+import { canAccessPlant, getPlantRole, roleAllows } from "./gardenAccess";
+import { sendPushToUser } from "./webPush";
+import { emitPlantAdded } from "./webhooks";
+import * as logger from "./logger";
+
+// A family tree lists at most this many plants
+const MAX_FAMILY_SIZE = 200;
+
+// What a new plant is called when no name is given, e.g. "Monstera cutting"
+const CHILD_NAME_SUFFIX: Record<PropagationMethod, string> = {
+  cutting: "cutting",
+  division: "division",
+  offset: "pup",
+  seed: "seedling",
+  layering: "layering",
+  other: "baby",
+};
+
+export type SetParentOutcome =
+  | { status: "ok"; plant: Plant }
+  | { status: "not_found" }
+  | { status: "invalid"; message: string };
+
+export type TransferOutcome =
+  | { status: "ok"; transfer: PlantTransfer }
+  | { status: "not_found" }
+  | { status: "invalid"; message: string };
+
+/**
+ * Creates the recurring watering and fertilizing reminders a new plant gets.
+ */
+async function createCareReminders(plant: Plant, userId: number): Promise<void> {
+  const { storage } = await import("../storage");
+  const schedules = [
+    { careType: "water" as const, interval: plant.waterFrequency, verb: "Water" },
+    { careType: "fertilize" as const, interval: plant.fertilizerFrequency, verb: "Fertilize" },
+  ];
+
+  for (const { careType, interval, verb } of schedules) {
+    if (interval <= 0) continue;
+    const dueDate = new Date();
+    dueDate.setDate(dueDate.getDate() + interval);
+
+    await storage.createReminder({
+      plantId: plant.id,
+      userId,
+      title: `${verb} your ${plant.name}`,
+      message: `It's time to ${verb.toLowerCase()} your ${plant.name}`,
+      dueDate: dueDate.toISOString(),
+      careType,
+      status: "pending",
+      recurring: true,
+      recurringInterval: interval,
+      notified: false,
+    });
+  }
+}
+
+/**
+ * Adds a plant grown from `parent` to the user's collection. It inherits the
+ * parent's species (and so its guide), notes and care settings, and starts
+ * with its own reminders and an empty care history.
+ */
+export async function propagatePlant(user: User, parent: Plant, input: PropagatePlant): Promise<Plant> {
+  const { storage } = await import("../storage");
+  const child = await storage.createPlant({
+    name: input.name ?? `${parent.name} ${CHILD_NAME_SUFFIX[input.method]}`,
+    scientificName: parent.scientificName,
+    location: input.location ?? parent.location,
+    image: null,
+    notes: input.notes ?? parent.notes,
+    waterFrequency: parent.waterFrequency,
+    sunlightLevel: parent.sunlightLevel,
+    fertilizerFrequency: parent.fertilizerFrequency,
+    status: "healthy",
+    userId: user.id,
+    type: parent.type,
+    adaptiveWatering: parent.adaptiveWatering,
+  });
+
+  const linked = (await storage.setPlantParent(child.id, parent.id, input.method)) ?? child;
+  await createCareReminders(linked, user.id);
+  await emitPlantAdded(linked);
+  logger.info(`User ${user.id} propagated plant ${parent.id} into plant ${linked.id} (${input.method})`);
+  return linked;
+}
+
+/**
+ * Records which plant another one came from, or clears it. The user must be
+ * able to see the parent, and a plant can't become its own ancestor.
+ */
+export async function setParentPlant(
+  user: User,
+  plant: Plant,
+  parentPlantId: number | null,
+  method: PropagationMethod | undefined
+): Promise<SetParentOutcome> {
+  const { storage } = await import("../storage");
+
+  if (parentPlantId !== null) {
+    if (parentPlantId === plant.id) {
+      return { status: "invalid", message: "A plant can't be its own parent" };
+    }
+    const parent = await storage.getPlant(parentPlantId);
+    if (!parent || !(await canAccessPlant(parent, user.id, "view"))) {
+      return { status: "not_found" };
+    }
+    const ancestors = await storage.getPlantAncestorIds(parent.id);
+    if (ancestors.includes(plant.id)) {
+      return { status: "invalid", message: `${parent.name} is already descended from ${plant.name}` };
+    }
+  }
+
+  const updated = await storage.setPlantParent(plant.id, parentPlantId, method ?? plant.propagationMethod ?? "other");
+  return updated ? { status: "ok", plant: updated } : { status: "not_found" };
+}
+
+/**
+ * The family tree a plant belongs to. Relatives the viewer can't see are
+ * listed by species and owner only.
+ */
+export async function getPlantLineage(plantId: number, viewerId: number): Promise<PlantLineage> {
+  const { storage } = await import("../storage");
+  const family = await storage.getPlantFamily(plantId, MAX_FAMILY_SIZE);
+
+  // Most relatives share a garden or an owner, so look each one up once
+  const gardenAccess = new Map<number, boolean>();
+  const isAccessible = async (plant: Plant): Promise<boolean> => {
+    if (!plant.gardenId) return plant.userId === viewerId;
+    if (!gardenAccess.has(plant.gardenId)) {
+      gardenAccess.set(plant.gardenId, roleAllows(await getPlantRole(plant, viewerId), "view"));
+    }
+    return gardenAccess.get(plant.gardenId)!;
+  };
+
+  const nodes: PlantLineageNode[] = [];
+  for (const plant of family.plants) {
+    const accessible = await isAccessible(plant);
+    nodes.push({
+      id: plant.id,
+      parentPlantId: plant.parentPlantId,
+      name: accessible ? plant.name : null,
+      scientificName: plant.scientificName,
+      image: accessible ? plant.image : null,
+      ownerUsername: plant.ownerUsername,
+      propagationMethod: plant.propagationMethod,
+      propagatedAt: plant.propagatedAt,
+      accessible,
+    });
+  }
+
+  return { plantId, rootId: family.rootId, nodes, truncated: family.truncated };
+}
+
+/**
+ * Sends an in-app notification about a transfer, and a push notification if
+ * the user has turned those on.
+ */
+async function notifyTransfer(userId: number, actor: User, message: string, url: string): Promise<void> {
+  const { storage } = await import("../storage");
+  try {
+    await storage.createNotifications([
+      { userId, type: "plant_transfer", actorId: actor.id, commentId: null, message, url },
+    ]);
+
+    const settings = await storage.getProfileSettings(userId);
+    if (settings?.pushNotifications) {
+      await sendPushToUser(userId, { title: "Hanna's Garden", body: message, url, tag: `plant-transfer-${userId}` });
+    }
+  } catch (error) {
+    // The transfer itself has already been saved
+    logger.error(`Failed to send plant transfer notification to user ${userId}:`, error);
+  }
+}
+
+/**
+ * Offers a plant to another user, who has to accept it before it moves.
+ */
+export async function offerPlantTransfer(
+  sender: User,
+  plant: Plant,
+  username: string,
+  message: string | undefined
+): Promise<TransferOutcome> {
+  const { storage } = await import("../storage");
+  const recipient = await storage.getUserByUsername(username);
+  if (!recipient) {
+    return { status: "invalid", message: `There's no one called @${username}` };
+  }
+  if (recipient.id === sender.id) {
+    return { status: "invalid", message: "You already own this plant" };
+  }
+
+  const transfer = await storage.createPlantTransfer({
+    plantId: plant.id,
+    fromUserId: sender.id,
+    toUserId: recipient.id,
+    message: message || null,
+  });
+  if (!transfer) {
+    return { status: "invalid", message: `${plant.name} has already been offered to someone` };
+  }
+
+  const name = sender.displayName || sender.username;
+  await notifyTransfer(recipient.id, sender, `${name} wants to give you ${plant.name}`, "/plants");
+  logger.info(`User ${sender.id} offered plant ${plant.id} to user ${recipient.id}`);
+  return { status: "ok", transfer };
+}
+
+/**
+ * Accepts or declines a plant offered to the user. If the sender has lost
+ * the right to give the plant away in the meantime, the offer is cancelled.
+ */
+export async function respondToPlantTransfer(user: User, transferId: number, accept: boolean): Promise<TransferOutcome> {
+  const { storage } = await import("../storage");
+  const transfer = await storage.getPlantTransfer(transferId);
+  if (!transfer || transfer.toUserId !== user.id || transfer.status !== "pending") {
+    return { status: "not_found" };
+  }
+
+  const plant = await storage.getPlant(transfer.plantId);
+  const name = user.displayName || user.username;
+
+  if (!accept) {
+    const declined = await storage.closePlantTransfer(transfer.id, "declined");
+    if (!declined) return { status: "not_found" };
+    const sender = await storage.getUser(transfer.fromUserId);
+    if (sender && plant) {
+      await notifyTransfer(sender.id, user, `${name} declined ${plant.name}`, "/plants");
+    }
+    return { status: "ok", transfer: declined };
+  }
+
+  if (!plant || !(await canAccessPlant(plant, transfer.fromUserId, "manage"))) {
+    await storage.closePlantTransfer(transfer.id, "cancelled");
+    return { status: "invalid", message: "This plant is no longer available" };
+  }
+
+  const accepted = await storage.acceptPlantTransfer(transfer.id);
+  if (!accepted) return { status: "not_found" };
+
+  await notifyTransfer(transfer.fromUserId, user, `${name} accepted ${plant.name}`, "/plants");
+  logger.info(`User ${user.id} accepted plant ${plant.id} from user ${transfer.fromUserId}`);
+  return { status: "ok", transfer: accepted };
+}
+
+/**
+ * Withdraws an offer the user made that hasn't been answered yet.
+ */
+export async function cancelPlantTransfer(user: User, transferId: number): Promise<TransferOutcome> {
+  const { storage } = await import("../storage");
+  const transfer = await storage.getPlantTransfer(transferId);
+  if (!transfer || transfer.fromUserId !== user.id) {
+    return { status: "not_found" };
+  }
+
+  const cancelled = await storage.closePlantTransfer(transfer.id, "cancelled");
+  return cancelled ? { status: "ok", transfer: cancelled } : { status: "not_found" };
+}
@@ -0,0 +1,167 @@
+import { type InsertPlant, type Plant } from "@shared/schema";
+import { savePhoto, isDataUrl } from "./photoStorage";
+import { publishPlantStatusChanged } from "./mqttBridge";
+import { emitPlantAdded } from "./webhooks";
+import * as logger from "./logger";
+
+export type PlantUpdateOutcome =
+  | { status: "ok"; plant: Plant }
+  | { status: "not_found" }
+  | { status: "invalid"; message: string };
+
+function handleError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+// Title and message of the automatic water and fertilize reminders
+function reminderText(careType: "water" | "fertilize", plantName: string) {
+  return {
+    title: `${careType.charAt(0).toUpperCase() + careType.slice(1)} your ${plantName}`,
+    message: `It's time to ${careType} your ${plantName}`,
+  };
+}
+
+/**
+ * Creates a plant for a user the way POST /api/plants does: fills in care
+ * details from the species when only a scientific name is given, moves an
+ * uploaded image to the blob store and sets up recurring water and fertilize
+ * reminders.
+ */
+export async function createPlantWithReminders(userId: number, data: InsertPlant): Promise<Plant> {
+  const { storage } = await import("../storage");
+  const plantData = { ...data, userId };
+
+  // Get species-specific care recommendations if scientific name is provided
+  if (data.scientificName && !data.notes) {
+    try {
+      const { getPlantCareRecommendations } = await import("./openai");
+      const careInfo = await getPlantCareRecommendations(data.scientificName);
+
+      // Only apply recommendations that weren't explicitly provided
+      if (!data.waterFrequency) {
+        plantData.waterFrequency = careInfo.wateringGuidelines.frequency;
+      }
+      if (!data.fertilizerFrequency) {
+        plantData.fertilizerFrequency = careInfo.fertilizerGuidelines.frequency;
+      }
+      if (!data.sunlightLevel) {
+        plantData.sunlightLevel = careInfo.sunlightRequirements.level;
+      }
+
+      plantData.notes = `${careInfo.description}\n\n` +
+                        `Watering: ${careInfo.wateringGuidelines.notes}\n\n` +
+                        `Light: ${careInfo.sunlightRequirements.notes}\n\n` +
+                        `Fertilizing: ${careInfo.fertilizerGuidelines.notes}\n\n` +
+                        `Care Tips: ${careInfo.careTips}\n\n` +
+                        `Interesting Fact: ${careInfo.interestingFact}`;
+    } catch (error) {
+      logger.error("Error getting care recommendations:", handleError(error));
+      // Continue with user-provided data if the recommendation fails
+    }
+  }
+
+  // Uploaded images are stored in the blob store once the plant has an id
+  const inlineImage = isDataUrl(plantData.image) ? plantData.image : null;
+  if (inlineImage) {
+    plantData.image = null;
+  }
+
+  let plant = await storage.createPlant(plantData);
+
+  if (inlineImage) {
+    try {
+      const photo = await savePhoto({ data: inlineImage, kind: "plant", plantId: plant.id, userId });
+      plant = (await storage.updatePlant(plant.id, { image: photo.url })) || plant;
+    } catch (error) {
+      logger.error("Error storing plant image:", handleError(error));
+    }
+  }
+
+  for (const careType of ["water", "fertilize"] as const) {
+    const frequency = careType === "water" ? plant.waterFrequency : plant.fertilizerFrequency;
+    if (frequency <= 0) continue;
+
+    const dueDate = new Date();
+    dueDate.setDate(dueDate.getDate() + frequency);
+    await storage.createReminder({
+      plantId: plant.id,
+      userId,
+      ...reminderText(careType, plant.name),
+      dueDate: dueDate.toISOString(),
+      careType,
+      status: "pending",
+      recurring: true,
+      recurringInterval: frequency,
+      notified: false,
+    });
+  }
+
+  await emitPlantAdded(plant);
+  return plant;
+}
+
+/**
+ * Updates a plant the way PATCH /api/plants/:id does. When the water or
+ * fertilizer frequency changes, the pending reminder for it is rescheduled,
+ * created or, for a frequency of 0, removed.
+ */
+export async function updatePlantWithReminders(original: Plant, data: Partial<InsertPlant>, userId: number): Promise<PlantUpdateOutcome> {
+  const { storage } = await import("../storage");
+
+  const plantUpdate = { ...data };
+  if (isDataUrl(plantUpdate.image)) {
+    try {
+      const photo = await savePhoto({ data: plantUpdate.image, kind: "plant", plantId: original.id, userId: original.userId });
+      plantUpdate.image = photo.url;
+    } catch (error) {
+      logger.error("Error storing plant image:", handleError(error));
+      return { status: "invalid", message: "Invalid image data" };
+    }
+  }
+
+  const updated = await storage.updatePlant(original.id, plantUpdate);
+  if (!updated) {
+    return { status: "not_found" };
+  }
+  publishPlantStatusChanged(updated, original.status);
+
+  const changes: ["water" | "fertilize", number | undefined, number][] = [
+    ["water", data.waterFrequency, original.waterFrequency],
+    ["fertilize", data.fertilizerFrequency, original.fertilizerFrequency],
+  ];
+  for (const [careType, requested, previous] of changes) {
+    if (requested === undefined || requested === previous) continue;
+
+    const existingReminders = await storage.getRemindersByPlant(original.id);
+    const reminder = existingReminders.find(r => r.careType === careType && r.status === "pending");
+    const frequency = careType === "water" ? updated.waterFrequency : updated.fertilizerFrequency;
+
+    if (frequency > 0) {
+      const dueDate = new Date();
+      dueDate.setDate(dueDate.getDate() + frequency);
+      const reminderData = {
+        ...reminderText(careType, updated.name),
+        dueDate: dueDate.toISOString(),
+        recurring: true,
+        recurringInterval: frequency,
+      };
+
+      if (reminder) {
+        await storage.updateReminder(reminder.id, reminderData);
+      } else {
+        await storage.createReminder({
+          ...reminderData,
+          plantId: updated.id,
+          userId,
+          careType,
+          status: "pending",
+          notified: false,
+        });
+      }
+    } else if (reminder) {
+      await storage.deleteReminder(reminder.id);
+    }
+  }
+
+  return { status: "ok", plant: updated };
+}
@@ -0,0 +1,267 @@
+import { type Plant, type Reminder, type InsertReminder, CARE_TYPES } from "@shared/schema";
+import * as logger from "./logger";
+
+type CareType = (typeof CARE_TYPES)[number];
+
+// Fallback intervals (in days) for recurring reminders created without one
+export const DEFAULT_RECURRING_INTERVALS: Record<CareType, number> = {
+  water: 7,
+  fertilize: 30,
+  repot: 365,
+  prune: 90,
+  health_check: 14,
+  other: 30,
+};
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/**
+ * Returns the timezone if the runtime recognises it, otherwise UTC.
+ */
+export function resolveTimezone(timezone?: string | null): string {
+  if (!timezone) return "UTC";
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return timezone;
+  } catch {
+    logger.warn(`Unknown timezone "${timezone}", falling back to UTC`);
+    return "UTC";
+  }
+}
+
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * Wall-clock date and time of an instant in the given timezone.
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find(part => part.type === type)?.value ?? 0);
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+// Milliseconds the timezone is ahead of UTC at the given instant
+function getOffsetMs(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - (date.getTime() - date.getMilliseconds());
+}
+
+/**
+ * Converts a wall-clock time in the timezone to a UTC instant, handling DST shifts.
+ */
+export function zonedTimeToUtc(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): Date {
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const offset = getOffsetMs(new Date(guess), timeZone);
+  const result = guess - offset;
+  const correctedOffset = getOffsetMs(new Date(result), timeZone);
+  return new Date(correctedOffset === offset ? result : guess - correctedOffset);
+}
+
+/**
+ * Adds calendar days in the user's timezone, keeping the local time of day of
+ * `timeOfDay`. A reminder due at 9:00 stays at 9:00 local time across DST changes.
+ */
+export function addLocalDays(from: Date, days: number, timeOfDay: Date, timezone: string): Date {
+  const base = getZonedParts(from, timezone);
+  const time = getZonedParts(timeOfDay, timezone);
+  // Date.UTC normalises day overflow into the following months
+  const target = new Date(Date.UTC(base.year, base.month - 1, base.day + days));
+  return zonedTimeToUtc(
+    target.getUTCFullYear(),
+    target.getUTCMonth() + 1,
+    target.getUTCDate(),
+    time.hour,
+    time.minute,
+    timezone
+  );
+}
+
+/**
+ * Works out how many days apart occurrences of a recurring reminder should be.
+ * An explicit interval wins, then the plant's own frequency, then the care-type default.
+ */
+export function getRecurringInterval(reminder: Pick<Reminder, "careType" | "recurringInterval">, plant?: Plant): number {
+  if (reminder.recurringInterval && reminder.recurringInterval > 0) {
+    return reminder.recurringInterval;
+  }
+  if (plant && reminder.careType === "water" && plant.waterFrequency > 0) {
+    return plant.waterFrequency;
+  }
+  if (plant && reminder.careType === "fertilize" && plant.fertilizerFrequency > 0) {
+    return plant.fertilizerFrequency;
+  }
+  return DEFAULT_RECURRING_INTERVALS[reminder.careType as CareType] ?? DEFAULT_RECURRING_INTERVALS.other;
+}
+
+/**
+ * Calculates the due date of the next occurrence.
+ * Completing counts from when the care was done; dismissing skips this occurrence
+ * and keeps the original cadence, rolling forward past any missed ones.
+ */
+export function computeNextDueDate(
+  reminder: Reminder,
+  action: "completed" | "dismissed",
+  intervalDays: number,
+  timezone: string,
+  now: Date = new Date()
+): Date {
+  const dueDate = new Date(reminder.dueDate);
+
+  if (action === "completed") {
+    return addLocalDays(now, intervalDays, dueDate, timezone);
+  }
+
+  let next = addLocalDays(dueDate, intervalDays, dueDate, timezone);
+  while (next.getTime() <= now.getTime()) {
+    next = addLocalDays(next, intervalDays, dueDate, timezone);
+  }
+  return next;
+}
+
+function buildNextOccurrence(reminder: Reminder, dueDate: Date, intervalDays: number): InsertReminder {
+  return {
+    plantId: reminder.plantId,
+    userId: reminder.userId,
+    title: reminder.title,
+    message: reminder.message ?? "",
+    dueDate: dueDate.toISOString(),
+    careType: reminder.careType,
+    status: "pending",
+    recurring: true,
+    recurringInterval: intervalDays,
+    notified: false,
+  };
+}
+
+/**
+ * The user's timezone from their settings, or UTC.
+ */
+export async function getUserTimezone(userId: number): Promise<string> {
+  const { storage } = await import("../storage");
+  const user = await storage.getUser(userId);
+  return resolveTimezone(user?.timezone);
+}
+
+/**
+ * Completes or dismisses a reminder. Recurring reminders get their next
+ * occurrence generated in the same transaction.
+ * @returns The closed reminder and the next occurrence (if any), or undefined if it wasn't pending
+ */
+export async function closeReminder(
+  reminder: Reminder,
+  action: "completed" | "dismissed",
+  options: { plant?: Plant; now?: Date } = {}
+): Promise<{ reminder: Reminder; next: Reminder | null } | undefined> {
+  const { storage } = await import("../storage");
+
+  let nextOccurrence: InsertReminder | null = null;
+  if (reminder.recurring) {
+    const plant = options.plant ?? await storage.getPlant(reminder.plantId);
+    const intervalDays = getRecurringInterval(reminder, plant);
+    const timezone = await getUserTimezone(reminder.userId);
+    const nextDueDate = computeNextDueDate(reminder, action, intervalDays, timezone, options.now);
+    nextOccurrence = buildNextOccurrence(reminder, nextDueDate, intervalDays);
+  }
+
+  const result = await storage.closeReminder(reminder.id, action, nextOccurrence);
+  if (result?.next) {
+    logger.info(`Reminder ${reminder.id} ${action}; next occurrence ${result.next.id} due ${result.next.dueDate.toISOString()}`);
+  }
+  return result;
+}
+
+export interface SnoozeOptions {
+  days?: number;
+  hours?: number;
+  until?: string;
+}
+
+/**
+ * Pushes a pending reminder back. `days` keeps the reminder's local time of day,
+ * `hours` is relative to now and `until` sets an exact time.
+ */
+export async function snoozeReminder(reminder: Reminder, options: SnoozeOptions, now: Date = new Date()): Promise<Reminder | undefined> {
+  let snoozedUntil: Date;
+  if (options.until) {
+    snoozedUntil = new Date(options.until);
+  } else if (options.hours) {
+    snoozedUntil = new Date(now.getTime() + options.hours * MS_PER_HOUR);
+  } else {
+    const timezone = await getUserTimezone(reminder.userId);
+    snoozedUntil = addLocalDays(now, options.days ?? 1, new Date(reminder.dueDate), timezone);
+  }
+
+  const { storage } = await import("../storage");
+  return storage.updateReminder(reminder.id, {
+    dueDate: snoozedUntil.toISOString(),
+    snoozedUntil: snoozedUntil.toISOString(),
+    notified: false,
+  });
+}
+
+/**
+ * Advances the plant's pending reminders of the same care type after care was
+ * logged, for every care type. Water and fertilize reminders are (re)created
+ * from the plant's frequency if the plant doesn't have a recurring one yet.
+ */
+export async function advanceRemindersForCare(plant: Plant, careType: CareType, userId: number): Promise<void> {
+  const { storage } = await import("../storage");
+  const existingReminders = await storage.getRemindersByPlant(plant.id);
+  const pending = existingReminders.filter(r => r.careType === careType && r.status === "pending");
+
+  let hasNextOccurrence = false;
+  for (const reminder of pending) {
+    const result = await closeReminder(reminder, "completed", { plant });
+    if (result?.next) hasNextOccurrence = true;
+  }
+
+  if (hasNextOccurrence) return;
+
+  const frequency = careType === "water" ? plant.waterFrequency
+    : careType === "fertilize" ? plant.fertilizerFrequency
+    : 0;
+  if (frequency > 0) {
+    const timezone = await getUserTimezone(userId);
+    const now = new Date();
+    const verb = careType === "water" ? "water" : "fertilize";
+    await storage.createReminder({
+      plantId: plant.id,
+      userId,
+      title: `${verb.charAt(0).toUpperCase() + verb.slice(1)} your ${plant.name}`,
+      message: `It's time to ${verb} your ${plant.name}`,
+      dueDate: addLocalDays(now, frequency, now, timezone).toISOString(),
+      careType,
+      status: "pending",
+      recurring: true,
+      recurringInterval: frequency,
+      notified: false,
+    });
+  }
+}
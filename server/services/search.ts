@@ -0,0 +1,122 @@
+import {
+  type SearchHighlight,
+  type SearchResponse,
+  type SearchResultType,
+  SEARCH_RESULT_TYPES,
+} from "@shared/schema";
+import type { EnhancedJournalEntry } from "./openai";
+import * as logger from "./logger";
+
+export const MAX_QUERY_LENGTH = 200;
+
+// Private-use characters ts_headline wraps matches in; they can't come from user text
+const MATCH_START = "\uE000";
+const MATCH_END = "\uE001";
+export const HEADLINE_OPTIONS =
+  `StartSel=${MATCH_START}, StopSel=${MATCH_END}, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "`;
+
+// Postgres error code for a missing function or operator (here: pg_trgm's)
+const UNDEFINED_FUNCTION = "42883";
+
+// Set when pg_trgm turns out to be missing, so we stop trying
+let fuzzyMatchingUnavailable = false;
+
+function column(table: string | undefined, name: string): string {
+  return table ? `${table}.${name}` : name;
+}
+
+/**
+ * The weighted text-search documents for each searchable table. Migrations
+ * build GIN indexes on the same expressions, so queries must use these
+ * exactly (pass the table alias used in the query, or nothing for the index).
+ */
+export const searchDocuments = {
+  plant: (t?: string) =>
+    `setweight(to_tsvector('english', coalesce(${column(t, "name")}, '') || ' ' || coalesce(${column(t, "scientific_name")}, '')), 'A')` +
+    ` || setweight(to_tsvector('english', coalesce(${column(t, "location")}, '') || ' ' || coalesce(${column(t, "notes")}, '')), 'C')`,
+  careLog: (t?: string) =>
+    `setweight(to_tsvector('english', coalesce(${column(t, "notes")}, '')), 'B')` +
+    ` || setweight(to_tsvector('english', coalesce(${column(t, "journal_text")}, '')), 'D')`,
+  tip: (t?: string) =>
+    `setweight(to_tsvector('english', coalesce(${column(t, "title")}, '')), 'A')` +
+    ` || setweight(to_tsvector('english', coalesce(${column(t, "plant_type")}, '') || ' ' || coalesce(${column(t, "scientific_name")}, '')), 'B')` +
+    ` || setweight(to_tsvector('english', coalesce(${column(t, "content")}, '')), 'D')`,
+  // array_to_string isn't immutable, so this one can't be indexed; the catalogue is small
+  guide: (t?: string) =>
+    `setweight(to_tsvector('english', ${column(t, "scientific_name")} || ' ' || array_to_string(${column(t, "common_names")} || ${column(t, "synonyms")}, ' ')), 'A')` +
+    ` || setweight(to_tsvector('english', coalesce(${column(t, "description")}, '')), 'C')`,
+  profile: (t?: string) =>
+    `setweight(to_tsvector('english', ${column(t, "username")} || ' ' || coalesce(${column(t, "display_name")}, '')), 'A')` +
+    ` || setweight(to_tsvector('english', coalesce(${column(t, "bio")}, '')), 'C')`,
+};
+
+/**
+ * Short names compared by trigram similarity, so "monstra" still finds a
+ * Monstera. Also indexed by the migrations.
+ */
+export const searchNames = {
+  plant: (t?: string) => `${column(t, "name")}`,
+  tip: (t?: string) => `${column(t, "title")}`,
+  guide: (t?: string) => `${column(t, "scientific_name")}`,
+  profile: (t?: string) => `(${column(t, "username")} || ' ' || coalesce(${column(t, "display_name")}, ''))`,
+};
+
+/**
+ * Splits a ts_headline snippet into plain and matching pieces, so clients can
+ * highlight matches without rendering any HTML.
+ */
+export function parseHeadline(headline: string): SearchHighlight[] {
+  const segments: SearchHighlight[] = [];
+  const pattern = new RegExp(`${MATCH_START}([^${MATCH_END}]*)${MATCH_END}`, "g");
+  let last = 0;
+  let found: RegExpExecArray | null;
+  while ((found = pattern.exec(headline)) !== null) {
+    if (found.index > last) segments.push({ text: headline.slice(last, found.index), match: false });
+    segments.push({ text: found[1], match: true });
+    last = found.index + found[0].length;
+  }
+  if (last < headline.length) segments.push({ text: headline.slice(last), match: false });
+  return segments.filter(segment => segment.text.length > 0);
+}
+
+/**
+ * Flattens a generated journal entry into the text stored on the care log.
+ */
+export function journalEntryToText(entry: Pick<EnhancedJournalEntry, "title" | "observations" | "growthProgress">): string {
+  return [entry.title, ...entry.observations, entry.growthProgress].filter(Boolean).join("\n");
+}
+
+/**
+ * Searches what the user can see: their plants (including shared gardens),
+ * those plants' care logs, active community tips, the species catalogue and
+ * other users' public profiles (or ones they follow). Results are ranked
+ * across types; `types` limits which kinds are searched.
+ */
+export async function search(
+  userId: number,
+  query: string,
+  options: { types?: SearchResultType[]; page: number; limit: number }
+): Promise<SearchResponse> {
+  const { storage } = await import("../storage");
+  const text = query.trim().slice(0, MAX_QUERY_LENGTH);
+  const types = options.types && options.types.length > 0 ? options.types : [...SEARCH_RESULT_TYPES];
+  const searchOptions = { types, limit: options.limit, offset: (options.page - 1) * options.limit };
+
+  let result;
+  try {
+    result = await storage.searchContent(userId, text, { ...searchOptions, fuzzy: !fuzzyMatchingUnavailable });
+  } catch (error) {
+    if (fuzzyMatchingUnavailable || (error as { code?: string }).code !== UNDEFINED_FUNCTION) throw error;
+    fuzzyMatchingUnavailable = true;
+    logger.warn("Fuzzy search is unavailable (is the pg_trgm extension installed?):", error);
+    result = await storage.searchContent(userId, text, { ...searchOptions, fuzzy: false });
+  }
+
+  return {
+    query: text,
+    results: result.rows.map(({ headline, ...row }) => ({ ...row, highlight: parseHeadline(headline) })),
+    total: result.total,
+    page: options.page,
+    limit: options.limit,
+  };
+}
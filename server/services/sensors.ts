@@ -0,0 +1,262 @@
+import { createHash, randomBytes } from "crypto";
+import {
+  type Plant,
+  type PlantSensorData,
+  type SensorDevice,
+  type SensorMetric,
+  type SensorReadingInput,
+  type SensorSeries,
+} from "@shared/schema";
+import { canAccessPlant } from "./gardenAccess";
+import * as logger from "./logger";
+
+const DEFAULT_DRY_THRESHOLD = 30;
+const DEFAULT_RAW_RETENTION_DAYS = 7;
+const DEFAULT_ROLLUP_MINUTES = 60;
+// Soil readings older than this don't hold back a watering reminder (SENSOR_STALE_HOURS)
+const DEFAULT_STALE_HOURS = 24;
+// Readings stamped this far ahead of the server clock are rejected
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+// Values outside these ranges are treated as a faulty sensor and dropped
+const METRIC_RANGES: Record<SensorMetric, [number, number]> = {
+  soil_moisture: [0, 100], // %
+  temperature: [-50, 80], // °C
+  humidity: [0, 100], // % relative humidity
+  lux: [0, 200000],
+};
+
+// Chart ranges and the bucket size each one is averaged into
+export const SENSOR_RANGES = {
+  "24h": { hours: 24, bucketMinutes: 15 },
+  "7d": { hours: 7 * 24, bucketMinutes: 120 },
+  "30d": { hours: 30 * 24, bucketMinutes: 360 },
+} as const;
+export type SensorRange = keyof typeof SENSOR_RANGES;
+
+let rollupTimer: NodeJS.Timeout | null = null;
+let rollupInProgress = false;
+
+/**
+ * Soil moisture (%) below which a plant needs water, for devices without
+ * their own threshold (SENSOR_DRY_THRESHOLD, default 30).
+ */
+export function getDefaultDryThreshold(): number {
+  const value = parseFloat(process.env.SENSOR_DRY_THRESHOLD || "");
+  return Number.isFinite(value) ? value : DEFAULT_DRY_THRESHOLD;
+}
+
+/**
+ * Days raw readings are kept before they are rolled up into hourly averages
+ * (SENSOR_RAW_RETENTION_DAYS, default 7).
+ */
+export function getRawRetentionDays(): number {
+  return parseInt(process.env.SENSOR_RAW_RETENTION_DAYS || "", 10) || DEFAULT_RAW_RETENTION_DAYS;
+}
+
+export function hashDeviceToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * A new device token. Only its hash is stored, so it can't be shown again.
+ */
+export function generateDeviceToken(): { token: string; tokenHash: string; tokenPrefix: string } {
+  const token = `hgs_${randomBytes(24).toString("base64url")}`;
+  return { token, tokenHash: hashDeviceToken(token), tokenPrefix: token.slice(0, 8) };
+}
+
+export async function authenticateDevice(token: string): Promise<SensorDevice | undefined> {
+  if (!token) return undefined;
+  const { storage } = await import("../storage");
+  return storage.getSensorDeviceByTokenHash(hashDeviceToken(token));
+}
+
+export type IngestOutcome =
+  | { status: "ok"; accepted: number; rejected: number }
+  | { status: "unassigned" };
+
+/**
+ * Stores readings from a device for the plant it is assigned to. Readings out
+ * of range or from the future are dropped. A dry soil reading brings the
+ * plant's watering reminder forward.
+ */
+export async function ingestReadings(device: SensorDevice, readings: SensorReadingInput[], now = new Date()): Promise<IngestOutcome> {
+  if (device.plantId === null) return { status: "unassigned" };
+  const plantId = device.plantId;
+
+  const { storage } = await import("../storage");
+  // The device's owner may have left the garden the plant is in since it was assigned
+  const plant = await storage.getPlant(plantId);
+  if (!plant || !(await canAccessPlant(plant, device.userId, "care"))) return { status: "unassigned" };
+
+  const valid = readings
+    .map(reading => ({ ...reading, recordedAt: reading.recordedAt ?? now }))
+    .filter(reading => {
+      const [min, max] = METRIC_RANGES[reading.metric];
+      return reading.value >= min && reading.value <= max &&
+        reading.recordedAt.getTime() <= now.getTime() + MAX_CLOCK_SKEW_MS;
+    });
+
+  const accepted = await storage.insertSensorReadings(
+    valid.map(reading => ({ deviceId: device.id, plantId, metric: reading.metric, value: reading.value, recordedAt: reading.recordedAt }))
+  );
+  await storage.updateSensorDevice(device.id, { lastSeenAt: now });
+
+  const soil = valid
+    .filter(reading => reading.metric === "soil_moisture")
+    .sort((a, b) => b.recordedAt.getTime() - a.recordedAt.getTime())[0];
+  if (soil) {
+    try {
+      await checkSoilMoisture(plant, soil.value, device.dryThreshold ?? getDefaultDryThreshold(), now);
+    } catch (error) {
+      // The readings are saved either way
+      logger.error(`Failed to update watering reminder for plant ${plantId}:`, error);
+    }
+  }
+
+  return { status: "ok", accepted, rejected: readings.length - valid.length };
+}
+
+/**
+ * When the soil is dry, makes sure there's a watering reminder due now: the
+ * next scheduled one is brought forward, or a one-off reminder is added.
+ */
+async function checkSoilMoisture(plant: Plant, moisture: number, threshold: number, now: Date): Promise<void> {
+  if (moisture >= threshold) return;
+
+  const { storage } = await import("../storage");
+  const pending = (await storage.getRemindersByPlant(plant.id))
+    .filter(reminder => reminder.careType === "water" && reminder.status === "pending")
+    .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
+  if (pending.some(reminder => new Date(reminder.dueDate).getTime() <= now.getTime())) return;
+
+  const message = `The soil of your ${plant.name} is dry (${Math.round(moisture)}% moisture)`;
+  if (pending.length > 0) {
+    await storage.updateReminder(pending[0].id, { dueDate: now.toISOString(), message, notified: false });
+  } else {
+    await storage.createReminder({
+      plantId: plant.id,
+      userId: plant.userId,
+      title: `Water your ${plant.name}`,
+      message,
+      dueDate: now.toISOString(),
+      careType: "water",
+      status: "pending",
+      recurring: false,
+      recurringInterval: null,
+      notified: false,
+    });
+  }
+  logger.info(`Soil moisture ${moisture}% on plant ${plant.id} is below ${threshold}%, watering reminder is due`);
+}
+
+/**
+ * Pushes back watering reminders that have come due while a soil sensor still
+ * reports moist soil, so sensor plants are watered when they are dry rather
+ * than on a fixed interval. Runs before each notification dispatch.
+ * @returns The number of reminders postponed
+ */
+export async function deferRemindersForMoistSoil(now = new Date()): Promise<number> {
+  const { storage } = await import("../storage");
+  const staleHours = parseInt(process.env.SENSOR_STALE_HOURS || "", 10) || DEFAULT_STALE_HOURS;
+  const since = new Date(now.getTime() - staleHours * MS_PER_HOUR);
+  const due = await storage.getDueWaterRemindersWithSoilReading(now, since);
+
+  let deferred = 0;
+  for (const reminder of due) {
+    if (reminder.moisture < (reminder.dryThreshold ?? getDefaultDryThreshold())) continue;
+    // Check again tomorrow; a dry reading before then brings it forward
+    await storage.updateReminder(reminder.reminderId, { dueDate: new Date(now.getTime() + 24 * MS_PER_HOUR).toISOString() });
+    deferred++;
+  }
+
+  if (deferred > 0) {
+    logger.info(`Postponed ${deferred} watering reminders for plants whose soil is still moist`);
+  }
+  return deferred;
+}
+
+/**
+ * Sensor charts and devices for a plant.
+ */
+export async function getPlantSensorData(plantId: number, range: SensorRange, now = new Date()): Promise<PlantSensorData> {
+  const { storage } = await import("../storage");
+  const { hours, bucketMinutes } = SENSOR_RANGES[range];
+  const since = new Date(now.getTime() - hours * MS_PER_HOUR);
+
+  const [devices, points, latest] = await Promise.all([
+    storage.getSensorDevicesForPlant(plantId),
+    storage.getSensorSeries(plantId, since, bucketMinutes),
+    storage.getLatestSensorReadings(plantId),
+  ]);
+
+  const series: SensorSeries[] = [];
+  for (const metric of Object.keys(METRIC_RANGES) as SensorMetric[]) {
+    const metricPoints = points.filter(point => point.metric === metric);
+    const last = latest.find(reading => reading.metric === metric);
+    if (metricPoints.length === 0 && !last) continue;
+    series.push({
+      metric,
+      points: metricPoints.map(({ metric: _metric, ...point }) => point),
+      latest: last ? { value: last.value, recordedAt: last.recordedAt } : null,
+    });
+  }
+
+  const soilDevice = devices.find(device => latest.some(reading => reading.metric === "soil_moisture" && reading.deviceId === device.id));
+  return {
+    range,
+    devices,
+    series,
+    dryThreshold: series.some(entry => entry.metric === "soil_moisture")
+      ? soilDevice?.dryThreshold ?? getDefaultDryThreshold()
+      : null,
+  };
+}
+
+export async function rollUpSensorReadings(now = new Date()): Promise<void> {
+  const { storage } = await import("../storage");
+  const before = new Date(now.getTime() - getRawRetentionDays() * 24 * MS_PER_HOUR);
+  // Only whole hours, so an hour is never split between raw and rolled-up rows
+  before.setUTCMinutes(0, 0, 0);
+  const count = await storage.rollUpSensorReadings(before);
+  if (count > 0) {
+    logger.info(`Rolled up ${count} sensor readings older than ${before.toISOString()} into hourly averages`);
+  }
+}
+
+/**
+ * Starts the in-process job that rolls old raw readings up into hourly
+ * averages every SENSOR_ROLLUP_MINUTES (default 60).
+ */
+export function startSensorRollupScheduler(): void {
+  if (rollupTimer) return;
+
+  const minutes = parseInt(process.env.SENSOR_ROLLUP_MINUTES || "", 10) || DEFAULT_ROLLUP_MINUTES;
+
+  const tick = async () => {
+    // Skip this tick if the previous rollup is still going
+    if (rollupInProgress) return;
+    rollupInProgress = true;
+    try {
+      await rollUpSensorReadings();
+    } catch (error) {
+      logger.error("Sensor reading rollup failed:", error);
+    } finally {
+      rollupInProgress = false;
+    }
+  };
+
+  rollupTimer = setInterval(tick, minutes * 60 * 1000);
+  // Don't keep the process alive just for the scheduler
+  rollupTimer.unref();
+  logger.info(`Sensor reading rollup running every ${minutes} minutes`);
+}
+
+export function stopSensorRollupScheduler(): void {
+  if (rollupTimer) {
+    clearInterval(rollupTimer);
+    rollupTimer = null;
+  }
+}
@@ -0,0 +1,312 @@
+import { type CareLog, type Plant, type Reminder, type SitterLink, type User } from "@shared/schema";
+import { getEmailTransport, type EmailMessage } from "./emailTransport";
+import { escapeHtml } from "./notificationDispatcher";
+import { addLocalDays, getRecurringInterval, getZonedParts, resolveTimezone, zonedTimeToUtc } from "./reminderEngine";
+import * as logger from "./logger";
+
+export type SitterLinkStatus = "scheduled" | "active" | "ended";
+
+export interface SitterTask {
+  reminderId: number;
+  plantId: number;
+  plantName: string;
+  careType: Reminder["careType"];
+  title: string;
+  dueAt: string;
+  overdue: boolean;
+}
+
+export interface SitterLoggedCare {
+  careLogId: number;
+  plantId: number;
+  plantName: string;
+  careType: CareLog["careType"];
+  notes: string | null;
+  loggedBy: string | null;
+  timestamp: string;
+}
+
+export interface SitterDay {
+  date: string; // YYYY-MM-DD in the owner's timezone
+  tasks: SitterTask[];
+  logged: SitterLoggedCare[];
+}
+
+export interface SitterPlantSummary {
+  plantId: number;
+  name: string;
+  careCounts: Partial<Record<CareLog["careType"], number>>;
+  lastCaredFor: string | null;
+}
+
+export interface SitterReport {
+  shareId: string;
+  sitterName: string | null;
+  startsAt: string;
+  expiresAt: string;
+  status: SitterLinkStatus;
+  totalCareLogs: number;
+  plants: SitterPlantSummary[];
+  missedTasks: SitterTask[];
+}
+
+export function getSitterLinkStatus(link: SitterLink, now: Date = new Date()): SitterLinkStatus {
+  if (!link.active || new Date(link.expiresAt).getTime() <= now.getTime()) return "ended";
+  if (new Date(link.startsAt).getTime() > now.getTime()) return "scheduled";
+  return "active";
+}
+
+// 2026-10-19, as the calendar date in the timezone
+function localDateKey(date: Date, timezone: string): string {
+  const { year, month, day } = getZonedParts(date, timezone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+function startOfLocalDay(date: Date, timezone: string): Date {
+  const { year, month, day } = getZonedParts(date, timezone);
+  return zonedTimeToUtc(year, month, day, 0, 0, timezone);
+}
+
+/**
+ * Projects a pending reminder onto the sitter's window. Anything already due
+ * when the sitter takes over lands on their first day; recurring reminders
+ * repeat at their interval until the link expires.
+ */
+function projectReminder(reminder: Reminder, plant: Plant, windowStart: Date, windowEnd: Date, timezone: string): Date[] {
+  const dueDate = new Date(reminder.dueDate);
+  const firstDay = startOfLocalDay(windowStart, timezone);
+
+  let next = dueDate.getTime() < firstDay.getTime() ? windowStart : dueDate;
+  if (next.getTime() > windowEnd.getTime()) return [];
+  if (!reminder.recurring) return [next];
+
+  const intervalDays = getRecurringInterval(reminder, plant);
+  const occurrences: Date[] = [];
+  while (next.getTime() <= windowEnd.getTime()) {
+    occurrences.push(next);
+    next = addLocalDays(next, intervalDays, dueDate, timezone);
+  }
+  return occurrences;
+}
+
+/**
+ * Builds the sitter's day-by-day list: upcoming care from the plants' pending
+ * reminders, and the care already logged on each day. Logging care advances the
+ * reminder, so finished tasks show up under `logged` instead of `tasks`.
+ */
+export function buildSitterDays(
+  link: SitterLink,
+  plants: Plant[],
+  reminders: Reminder[],
+  careLogs: CareLog[],
+  timezone: string,
+  now: Date = new Date()
+): SitterDay[] {
+  const startsAt = new Date(link.startsAt);
+  const expiresAt = new Date(link.expiresAt);
+  const plantsById = new Map(plants.map(plant => [plant.id, plant]));
+
+  const days = new Map<string, SitterDay>();
+  for (let date = startsAt; date.getTime() <= expiresAt.getTime(); date = addLocalDays(date, 1, startsAt, timezone)) {
+    const key = localDateKey(date, timezone);
+    days.set(key, { date: key, tasks: [], logged: [] });
+  }
+  // The last day may start after the link's own time of day
+  const lastKey = localDateKey(expiresAt, timezone);
+  if (!days.has(lastKey)) days.set(lastKey, { date: lastKey, tasks: [], logged: [] });
+
+  // Overdue care is shown from today once the sitter has taken over
+  const windowStart = now.getTime() > startsAt.getTime() ? now : startsAt;
+
+  for (const reminder of reminders) {
+    const plant = plantsById.get(reminder.plantId);
+    if (!plant || reminder.status !== "pending") continue;
+
+    projectReminder(reminder, plant, windowStart, expiresAt, timezone).forEach((occurrence, index) => {
+      const day = days.get(localDateKey(occurrence, timezone));
+      if (!day) return;
+      day.tasks.push({
+        reminderId: reminder.id,
+        plantId: plant.id,
+        plantName: plant.name,
+        careType: reminder.careType,
+        title: reminder.title,
+        dueAt: occurrence.toISOString(),
+        overdue: index === 0 && new Date(reminder.dueDate).getTime() < now.getTime(),
+      });
+    });
+  }
+
+  for (const log of careLogs) {
+    const timestamp = new Date(log.timestamp!);
+    const day = days.get(localDateKey(timestamp, timezone));
+    if (!day) continue;
+    day.logged.push({
+      careLogId: log.id,
+      plantId: log.plantId,
+      plantName: plantsById.get(log.plantId)?.name || "Plant",
+      careType: log.careType,
+      notes: log.notes,
+      loggedBy: log.guestName,
+      timestamp: timestamp.toISOString(),
+    });
+  }
+
+  return Array.from(days.values())
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(day => ({ ...day, tasks: day.tasks.sort((a, b) => a.dueAt.localeCompare(b.dueAt)) }));
+}
+
+/**
+ * Summarises what the sitter did for the owner. Pending reminders that fell due
+ * before the link ended count as missed.
+ */
+export function buildSitterReport(
+  link: SitterLink,
+  plants: Plant[],
+  reminders: Reminder[],
+  careLogs: CareLog[],
+  now: Date = new Date()
+): SitterReport {
+  const expiresAt = new Date(link.expiresAt);
+  const endedAt = now.getTime() < expiresAt.getTime() ? now : expiresAt;
+  const plantsById = new Map(plants.map(plant => [plant.id, plant]));
+
+  const summaries = plants.map((plant): SitterPlantSummary => {
+    const logs = careLogs.filter(log => log.plantId === plant.id);
+    const careCounts: SitterPlantSummary["careCounts"] = {};
+    for (const log of logs) {
+      careCounts[log.careType] = (careCounts[log.careType] ?? 0) + 1;
+    }
+    const last = logs[logs.length - 1];
+    return {
+      plantId: plant.id,
+      name: plant.name,
+      careCounts,
+      lastCaredFor: last?.timestamp ? new Date(last.timestamp).toISOString() : null,
+    };
+  });
+
+  const missedTasks = reminders
+    .filter(reminder => reminder.status === "pending" && plantsById.has(reminder.plantId))
+    .filter(reminder => new Date(reminder.dueDate).getTime() < endedAt.getTime())
+    .map((reminder): SitterTask => ({
+      reminderId: reminder.id,
+      plantId: reminder.plantId,
+      plantName: plantsById.get(reminder.plantId)!.name,
+      careType: reminder.careType,
+      title: reminder.title,
+      dueAt: new Date(reminder.dueDate).toISOString(),
+      overdue: true,
+    }));
+
+  return {
+    shareId: link.shareId,
+    sitterName: link.sitterName,
+    startsAt: new Date(link.startsAt).toISOString(),
+    expiresAt: expiresAt.toISOString(),
+    status: getSitterLinkStatus(link, now),
+    totalCareLogs: careLogs.length,
+    plants: summaries,
+    missedTasks,
+  };
+}
+
+/**
+ * Builds the "welcome back" email sent to the owner when a sitter link ends.
+ */
+export function buildSitterReportEmail(user: User, report: SitterReport): EmailMessage {
+  const name = user.displayName || user.username;
+  const sitter = report.sitterName || "Your plant sitter";
+
+  const plantLines = report.plants.map(plant => {
+    const counts = Object.entries(plant.careCounts).map(([careType, count]) => `${careType} ×${count}`);
+    return { name: plant.name, care: counts.length > 0 ? counts.join(", ") : "no care logged" };
+  });
+
+  const subject = `${sitter} logged ${report.totalCareLogs} care ${report.totalCareLogs === 1 ? "task" : "tasks"} while you were away`;
+
+  const text = [
+    `Hi ${name},`,
+    "",
+    `Welcome back! Here's how your plants were looked after:`,
+    "",
+    ...plantLines.map(line => `- ${line.name}: ${line.care}`),
+    ...(report.missedTasks.length > 0
+      ? ["", "Still to do:", ...report.missedTasks.map(task => `- ${task.title} (${task.plantName})`)]
+      : []),
+    "",
+    "Open Hanna's Garden to see the full report.",
+  ].join("\n");
+
+  const html = `
+    <p>Hi ${escapeHtml(name)},</p>
+    <p>Welcome back! Here's how your plants were looked after:</p>
+    <ul>
+      ${plantLines.map(line => `<li><strong>${escapeHtml(line.name)}</strong> &ndash; ${escapeHtml(line.care)}</li>`).join("\n      ")}
+    </ul>
+    ${report.missedTasks.length > 0 ? `<p>Still to do:</p>
+    <ul>
+      ${report.missedTasks.map(task => `<li>${escapeHtml(task.title)} (${escapeHtml(task.plantName)})</li>`).join("\n      ")}
+    </ul>` : ""}
+    <p>Open Hanna's Garden to see the full report.</p>
+  `;
+
+  return { to: user.email, subject, text, html };
+}
+
+/**
+ * Loads everything the task list and report need for a sitter link.
+ */
+export async function loadSitterLinkData(link: SitterLink): Promise<{
+  plants: Plant[];
+  reminders: Reminder[];
+  careLogs: CareLog[];
+  timezone: string;
+}> {
+  const { storage } = await import("../storage");
+
+  const plantIds = await storage.getSitterLinkPlantIds(link.id);
+  const plants = (await Promise.all(plantIds.map(id => storage.getPlant(id))))
+    .filter((plant): plant is NonNullable<typeof plant> => !!plant);
+  const reminders = (await Promise.all(plants.map(plant => storage.getRemindersByPlant(plant.id)))).flat();
+  const careLogs = await storage.getSitterCareLogs(link.id);
+  const owner = await storage.getUser(link.userId);
+
+  return { plants, reminders, careLogs, timezone: resolveTimezone(owner?.timezone) };
+}
+
+/**
+ * Closes sitter links that have run out and emails each owner their report.
+ * Links ended early by the owner are reported on too.
+ */
+export async function runSitterLinkExpiry(now: Date = new Date()): Promise<number> {
+  const { storage } = await import("../storage");
+  const links = await storage.getSitterLinksAwaitingReport(now);
+
+  let reported = 0;
+  for (const link of links) {
+    try {
+      if (link.active) {
+        await storage.deactivateSitterLink(link.shareId);
+      }
+
+      const owner = await storage.getUser(link.userId);
+      if (owner?.email) {
+        const { plants, reminders, careLogs } = await loadSitterLinkData(link);
+        const report = buildSitterReport(link, plants, reminders, careLogs, now);
+        await getEmailTransport().send(buildSitterReportEmail(owner, report));
+      }
+
+      await storage.markSitterReportSent(link.id);
+      reported++;
+    } catch (error) {
+      logger.error(`Failed to close sitter link ${link.id}:`, error);
+    }
+  }
+
+  if (reported > 0) {
+    logger.info(`Closed ${reported} sitter links and sent their reports`);
+  }
+  return reported;
+}
@@ -0,0 +1,196 @@
+import {
+  type InsertSpecies,
+  type Plant,
+  type Species,
+  type SpeciesGuide,
+  type SpeciesMatchType,
+  SUNLIGHT_LEVELS,
+} from "@shared/schema";
+import * as logger from "./logger";
+import { SPECIES_SEED } from "../data/speciesSeed";
+
+type SunlightLevel = typeof SUNLIGHT_LEVELS[number];
+
+// Trigram similarity (0-1) a name needs before a fuzzy match is trusted
+const MIN_NAME_SIMILARITY = 0.45;
+const MATCH_CACHE_SIZE = 1000;
+
+// Lux boundaries between the app's low/medium/high sunlight levels
+const LOW_LIGHT_MAX_LUX = 2500;
+const MEDIUM_LIGHT_MAX_LUX = 10000;
+
+// Plant lists look up the same few names over and over, so remember results
+const matchCache = new Map<string, SpeciesGuide | null>();
+
+// Postgres error code for a missing function or operator (here: pg_trgm's)
+const UNDEFINED_FUNCTION = "42883";
+
+// Set when pg_trgm turns out to be missing, so we stop trying
+let fuzzyMatchingUnavailable = false;
+
+export function luxToSunlightLevel(lux: number): SunlightLevel {
+  if (lux < LOW_LIGHT_MAX_LUX) return "low";
+  if (lux < MEDIUM_LIGHT_MAX_LUX) return "medium";
+  return "high";
+}
+
+/**
+ * Adds the single-value fields (water every N days, low/medium/high light)
+ * that existing screens show, derived from the species' care ranges.
+ */
+export function toSpeciesGuide(entry: Species, matchType: SpeciesMatchType): SpeciesGuide {
+  return {
+    ...entry,
+    matchType,
+    commonName: entry.commonNames[0] ?? entry.scientificName,
+    idealWaterFrequency: Math.round((entry.waterIntervalMin + entry.waterIntervalMax) / 2),
+    idealSunlight: luxToSunlightLevel((entry.lightLuxMin + entry.lightLuxMax) / 2),
+    idealFertilizerFrequency: entry.fertilizerFrequency,
+  };
+}
+
+/**
+ * Reduces a name as typed by a user or returned by identification to
+ * something comparable: cultivar names in quotes, notes in parentheses and
+ * hybrid markers are dropped, e.g. "Monstera deliciosa 'Thai Constellation'"
+ * becomes "Monstera deliciosa".
+ */
+export function normalizePlantName(name: string): string {
+  return name
+    .replace(/['"‘’“”][^'"‘’“”]*['"‘’“”]/g, " ")
+    .replace(/\([^)]*\)/g, " ")
+    .replace(/\s(?:cv\.|var\.|subsp\.|f\.)\s.*$/i, " ")
+    .replace(/[×]|\sx\s/gi, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function cacheMatch(key: string, guide: SpeciesGuide | null): void {
+  if (matchCache.size >= MATCH_CACHE_SIZE) {
+    // Maps iterate in insertion order, so this drops the oldest entry
+    const oldest = matchCache.keys().next().value;
+    if (oldest !== undefined) matchCache.delete(oldest);
+  }
+  matchCache.set(key, guide);
+}
+
+// The most similar species, undefined if none is close enough, or null if the
+// lookup failed for a reason that may pass (a dropped connection, a timeout)
+async function findSimilar(name: string): Promise<Species | undefined | null> {
+  if (fuzzyMatchingUnavailable) return undefined;
+  const { storage } = await import("../storage");
+  try {
+    return await storage.findSpeciesBySimilarName(name, MIN_NAME_SIMILARITY);
+  } catch (error) {
+    if ((error as { code?: string }).code === UNDEFINED_FUNCTION) {
+      fuzzyMatchingUnavailable = true;
+      logger.warn("Fuzzy species matching is unavailable (is the pg_trgm extension installed?):", error);
+      return undefined;
+    }
+    logger.error(`Fuzzy species lookup for "${name}" failed:`, error);
+    return null;
+  }
+}
+
+/**
+ * Finds care guidance for a plant name. Tries, in order: exact scientific
+ * name, synonym or common name; the most similar name in the catalogue; the
+ * name's genus; and the family of that genus.
+ */
+export async function matchSpecies(
+  name: string,
+  options: { fuzzy?: boolean; hierarchy?: boolean } = {}
+): Promise<SpeciesGuide | undefined> {
+  const { fuzzy = true, hierarchy = true } = options;
+  const normalized = normalizePlantName(name);
+  if (!normalized) return undefined;
+
+  const cacheKey = `${fuzzy}:${hierarchy}:${normalized.toLowerCase()}`;
+  if (matchCache.has(cacheKey)) {
+    return matchCache.get(cacheKey) ?? undefined;
+  }
+
+  const { storage } = await import("../storage");
+  let guide: SpeciesGuide | null = null;
+  let lookupFailed = false;
+
+  const named = await storage.findSpeciesByName(normalized);
+  if (named) {
+    guide = toSpeciesGuide(named.species, named.matchType);
+  }
+
+  if (!guide && fuzzy) {
+    const similar = await findSimilar(normalized);
+    if (similar) guide = toSpeciesGuide(similar, "fuzzy");
+    lookupFailed = similar === null;
+  }
+
+  if (!guide && hierarchy) {
+    const genus = normalized.split(" ")[0];
+    const genusEntry = await storage.getTaxon("genus", genus);
+    if (genusEntry) {
+      guide = toSpeciesGuide(genusEntry, "genus");
+    } else {
+      const family = await storage.getFamilyOfGenus(genus);
+      const familyEntry = family ? await storage.getTaxon("family", family) : undefined;
+      if (familyEntry) guide = toSpeciesGuide(familyEntry, "family");
+    }
+  }
+
+  // Don't remember a fallback match that a working fuzzy lookup might beat
+  if (!lookupFailed) cacheMatch(cacheKey, guide);
+  return guide ?? undefined;
+}
+
+/**
+ * The guide shown with a plant. The scientific name gets the full matching
+ * chain; the plant's own name is often a nickname, so it only counts when it
+ * is exactly a known common name.
+ */
+export async function findSpeciesGuideForPlant(plant: Pick<Plant, "name" | "scientificName">): Promise<SpeciesGuide | undefined> {
+  try {
+    if (plant.scientificName) {
+      const guide = await matchSpecies(plant.scientificName);
+      if (guide) return guide;
+    }
+    return await matchSpecies(plant.name, { fuzzy: false, hierarchy: false });
+  } catch (error) {
+    // A missing guide shouldn't stop the plant from loading
+    logger.error("Error matching plant to species catalogue:", error);
+    return undefined;
+  }
+}
+
+/**
+ * Adds or updates catalogue entries by scientific name. With `dryRun` nothing
+ * is written and every entry is reported as it would be counted.
+ */
+export async function importSpecies(
+  entries: InsertSpecies[],
+  options: { dryRun?: boolean } = {}
+): Promise<{ created: number; updated: number }> {
+  const { storage } = await import("../storage");
+
+  if (options.dryRun) {
+    let updated = 0;
+    for (const entry of entries) {
+      if (await storage.findSpeciesByName(entry.scientificName).then(match => match?.matchType === "exact")) updated++;
+    }
+    return { created: entries.length - updated, updated };
+  }
+
+  const result = await storage.upsertSpecies(entries);
+  // Earlier matches (including misses) may be out of date now
+  matchCache.clear();
+  logger.info(`Imported species catalogue: ${result.created} created, ${result.updated} updated`);
+  return result;
+}
+
+/**
+ * Loads the starter catalogue into an empty species table.
+ */
+export async function seedSpeciesCatalogue(): Promise<void> {
+  const { storage } = await import("../storage");
+  if (await storage.countSpecies() > 0) return;
+  await importSpecies(SPECIES_SEED);
+}
@@ -0,0 +1,230 @@
+import { type CareLog, type Plant, type Reminder } from "@shared/schema";
+import { getCurrentSeason } from "./openai";
+import * as logger from "./logger";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Waterings logged within this many days of each other count as one
+const DUPLICATE_WINDOW_DAYS = 0.5;
+
+// Only the most recent intervals describe the plant's current cadence
+const MAX_INTERVALS = 10;
+
+// How far back skipped/snoozed reminders are considered
+const REMINDER_LOOKBACK_DAYS = 90;
+
+// Relative watering interval by season (Spring = 1): plants dry out faster in
+// summer and slower in winter
+const SEASON_FACTORS: Record<string, number> = {
+  Spring: 1,
+  Summer: 0.8,
+  Fall: 1.1,
+  Winter: 1.35,
+};
+
+const MIN_FREQUENCY = 1;
+const MAX_FREQUENCY = 60;
+
+export type SuggestionConfidence = "low" | "medium" | "high";
+
+export interface WateringSuggestion {
+  plantId: number;
+  currentFrequency: number;
+  suggestedFrequency: number;
+  observedInterval: number | null; // Median days between recent waterings
+  sampleSize: number; // Number of intervals the observation is based on
+  season: string;
+  confidence: SuggestionConfidence;
+  shouldAdjust: boolean;
+  reasons: string[];
+  explanation: string;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function seasonFactor(season: string): number {
+  return SEASON_FACTORS[season] ?? 1;
+}
+
+function formatDays(days: number): string {
+  const rounded = Math.round(days * 10) / 10;
+  return rounded === 1 ? "1 day" : `${rounded} days`;
+}
+
+/**
+ * Days between consecutive waterings, oldest first, with repeated logs merged
+ * and long gaps (e.g. holidays) dropped.
+ */
+function getWateringIntervals(careLogs: CareLog[]): { days: number; endedAt: Date }[] {
+  const times = careLogs
+    .filter(log => log.careType === "water" && log.timestamp)
+    .map(log => new Date(log.timestamp!).getTime())
+    .filter(time => !isNaN(time))
+    .sort((a, b) => a - b);
+
+  const intervals: { days: number; endedAt: Date }[] = [];
+  let previous: number | null = null;
+  for (const time of times) {
+    if (previous !== null) {
+      const days = (time - previous) / MS_PER_DAY;
+      if (days < DUPLICATE_WINDOW_DAYS) continue;
+      intervals.push({ days, endedAt: new Date(time) });
+    }
+    previous = time;
+  }
+
+  const recent = intervals.slice(-MAX_INTERVALS);
+  if (recent.length < 3) return recent;
+
+  const typical = median(recent.map(interval => interval.days));
+  return recent.filter(interval => interval.days <= typical * 3);
+}
+
+/**
+ * Learns a plant's watering interval from its care history without calling OpenAI.
+ *
+ * The median gap between recent "water" care logs is normalised for the season
+ * each gap ended in and rescaled to the current season. Recently dismissed or
+ * snoozed water reminders stretch the interval, since they mean the schedule is
+ * asking for water before the plant needs it. The result is blended with the
+ * current frequency according to how much history there is, and never moves
+ * more than halfway/double in one step.
+ */
+export function suggestWaterFrequency(
+  plant: Plant,
+  careLogs: CareLog[],
+  reminders: Reminder[],
+  now: Date = new Date()
+): WateringSuggestion {
+  const currentFrequency = plant.waterFrequency;
+  const season = getCurrentSeason(now);
+  const reasons: string[] = [];
+
+  const intervals = getWateringIntervals(careLogs);
+  const sampleSize = intervals.length;
+  let observedInterval: number | null = null;
+  let learned: number | null = null;
+  let confidence: SuggestionConfidence = "low";
+
+  if (sampleSize > 0) {
+    observedInterval = median(intervals.map(interval => interval.days));
+  }
+
+  if (sampleSize >= 3 && observedInterval !== null) {
+    // Spread of the intervals relative to their median
+    const deviation = median(intervals.map(interval => Math.abs(interval.days - observedInterval!))) / observedInterval;
+    confidence = sampleSize >= 6 && deviation <= 0.25 ? "high" : deviation <= 0.5 ? "medium" : "low";
+
+    // Normalise each interval to spring-equivalent days, then rescale to now
+    const normalised = median(intervals.map(interval =>
+      interval.days / seasonFactor(getCurrentSeason(interval.endedAt))
+    ));
+    learned = normalised * seasonFactor(season);
+
+    reasons.push(`You've watered about every ${formatDays(observedInterval)} over the last ${sampleSize + 1} waterings.`);
+
+    const sampleSeasons = new Set(intervals.map(interval => getCurrentSeason(interval.endedAt)));
+    if (!sampleSeasons.has(season) || sampleSeasons.size > 1) {
+      const direction = learned < observedInterval ? "more often" : learned > observedInterval ? "less often" : null;
+      if (direction && Math.abs(learned - observedInterval) >= 0.5) {
+        reasons.push(`It's ${season.toLowerCase()}, so it will likely need water ${direction}.`);
+      }
+    }
+  } else {
+    reasons.push("Not enough watering history yet to learn a cadence.");
+  }
+
+  // Reminders the user pushed back or skipped since the interval was last adjusted,
+  // so the same skips aren't counted again after every watering
+  const adjustedAt = plant.waterFrequencyAdjustedAt ? new Date(plant.waterFrequencyAdjustedAt).getTime() : 0;
+  const since = Math.max(now.getTime() - REMINDER_LOOKBACK_DAYS * MS_PER_DAY, adjustedAt);
+  const recentReminders = reminders.filter(reminder =>
+    reminder.careType === "water" &&
+    new Date(reminder.dueDate).getTime() >= since &&
+    (reminder.status !== "pending" || reminder.snoozedUntil)
+  );
+  const postponed = recentReminders.filter(reminder => reminder.status === "dismissed" || reminder.snoozedUntil).length;
+  let skipFactor = 1;
+  if (recentReminders.length >= 2 && postponed > 0) {
+    const skipRatio = postponed / recentReminders.length;
+    if (skipRatio >= 0.25) {
+      skipFactor = 1 + 0.25 * skipRatio;
+      reasons.push(`You skipped or snoozed ${postponed} of ${recentReminders.length} recent watering reminders.`);
+    }
+  }
+
+  // Trust the learned cadence more the more consistent history there is
+  const weight = confidence === "high" ? 0.8 : confidence === "medium" ? 0.6 : 0;
+  let suggested = learned !== null
+    ? weight * learned + (1 - weight) * currentFrequency
+    : currentFrequency;
+  suggested *= skipFactor;
+
+  const lowerBound = Math.max(MIN_FREQUENCY, Math.ceil(currentFrequency / 2));
+  const upperBound = Math.min(MAX_FREQUENCY, Math.max(currentFrequency * 2, MIN_FREQUENCY));
+  const suggestedFrequency = Math.min(upperBound, Math.max(lowerBound, Math.round(suggested)));
+
+  // Skips alone (without enough logs) are still worth a gentle proposal
+  if (confidence === "low" && skipFactor > 1 && recentReminders.length >= 3) {
+    confidence = "medium";
+  }
+
+  const shouldAdjust = confidence !== "low" && suggestedFrequency !== currentFrequency;
+  const outcome = shouldAdjust
+    ? `Suggested: every ${formatDays(suggestedFrequency)} instead of ${formatDays(currentFrequency)}.`
+    : `Keeping every ${formatDays(currentFrequency)}.`;
+
+  return {
+    plantId: plant.id,
+    currentFrequency,
+    suggestedFrequency: shouldAdjust ? suggestedFrequency : currentFrequency,
+    observedInterval: observedInterval !== null ? Math.round(observedInterval * 10) / 10 : null,
+    sampleSize,
+    season,
+    confidence,
+    shouldAdjust,
+    reasons,
+    explanation: [...reasons, outcome].join(" "),
+  };
+}
+
+/**
+ * Loads the plant's care logs and reminders and works out a suggestion.
+ */
+export async function getWateringSuggestion(plant: Plant, now: Date = new Date()): Promise<WateringSuggestion> {
+  const { storage } = await import("../storage");
+  const [careLogs, reminders] = await Promise.all([
+    storage.getCareLogs(plant.id),
+    storage.getRemindersByPlant(plant.id),
+  ]);
+  return suggestWaterFrequency(plant, careLogs, reminders, now);
+}
+
+/**
+ * Saves the suggested interval (with its explanation) on the plant and its
+ * pending recurring water reminders.
+ */
+export async function applyWateringSuggestion(plant: Plant, suggestion: WateringSuggestion): Promise<Plant | undefined> {
+  const { storage } = await import("../storage");
+  const updated = await storage.setWaterFrequency(plant.id, suggestion.suggestedFrequency, suggestion.explanation);
+  logger.info(`Adjusted watering for plant ${plant.id} from every ${suggestion.currentFrequency} to every ${suggestion.suggestedFrequency} days`);
+  return updated;
+}
+
+/**
+ * Re-learns the watering interval after a watering is logged, for plants that
+ * have adaptive watering switched on.
+ * @returns The updated plant if the interval changed, otherwise undefined
+ */
+export async function adaptWateringAfterCare(plant: Plant): Promise<Plant | undefined> {
+  if (!plant.adaptiveWatering) return undefined;
+
+  const suggestion = await getWateringSuggestion(plant);
+  if (!suggestion.shouldAdjust) return undefined;
+
+  return applyWateringSuggestion(plant, suggestion);
+}
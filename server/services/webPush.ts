@@ -0,0 +1,76 @@
+import * as logger from "./logger";
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  url?: string;
+  tag?: string;
+}
+
+/**
+ * Web Push needs a VAPID key pair. Generate one with `npx web-push generate-vapid-keys`.
+ */
+export function isWebPushConfigured(): boolean {
+  return !!(process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY);
+}
+
+export function getVapidPublicKey(): string | undefined {
+  return process.env.VAPID_PUBLIC_KEY;
+}
+
+let webPushPromise: Promise<typeof import("web-push")> | null = null;
+
+// Imported lazily and configured once with the VAPID details
+function getWebPush() {
+  if (!webPushPromise) {
+    webPushPromise = import("web-push").then((module) => {
+      const webPush = (module as any).default ?? module;
+      webPush.setVapidDetails(
+        process.env.VAPID_SUBJECT || "mailto:reminders@hannasgarden.app",
+        process.env.VAPID_PUBLIC_KEY!,
+        process.env.VAPID_PRIVATE_KEY!
+      );
+      return webPush;
+    });
+  }
+  return webPushPromise;
+}
+
+/**
+ * Sends a push message to every browser the user has subscribed.
+ * Subscriptions the push service reports as gone (404/410) are removed.
+ * @returns The number of subscriptions that accepted the message
+ */
+export async function sendPushToUser(userId: number, payload: PushPayload): Promise<number> {
+  if (!isWebPushConfigured()) return 0;
+
+  const { storage } = await import("../storage");
+  const subscriptions = await storage.getPushSubscriptions(userId);
+  if (subscriptions.length === 0) return 0;
+
+  const webPush = await getWebPush();
+  let delivered = 0;
+
+  for (const subscription of subscriptions) {
+    try {
+      await webPush.sendNotification(
+        {
+          endpoint: subscription.endpoint,
+          keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+        },
+        JSON.stringify(payload)
+      );
+      delivered++;
+    } catch (error) {
+      const statusCode = (error as { statusCode?: number }).statusCode;
+      if (statusCode === 404 || statusCode === 410) {
+        logger.info(`Removing expired push subscription ${subscription.id} for user ${userId}`);
+        await storage.deletePushSubscription(subscription.endpoint);
+      } else {
+        logger.error(`Failed to send push notification to user ${userId}:`, error);
+      }
+    }
+  }
+
+  return delivered;
+}
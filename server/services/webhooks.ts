@@ -0,0 +1,387 @@
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import { lookup, type LookupAddress } from "dns";
+import http from "http";
+import https from "https";
+import { BlockList, isIP, type LookupFunction } from "net";
+import {
+  type CareLog,
+  type Plant,
+  type Reminder,
+  type User,
+  type WebhookDelivery,
+  type WebhookEndpoint,
+  type WebhookEventType,
+} from "@shared/schema";
+import * as logger from "./logger";
+
+const DEFAULT_MAX_ATTEMPTS = 8;
+const DEFAULT_POLL_SECONDS = 30;
+const DEFAULT_LOG_RETENTION_DAYS = 30;
+// First retry after 30 seconds, doubling each time up to six hours
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// Claimed deliveries are hidden from other workers for this long
+const CLAIM_LEASE_MS = 2 * 60 * 1000;
+const CLAIM_BATCH_SIZE = 50;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+let processingInProgress = false;
+// Reminders due after this have not been sent yet
+let remindersSentUntil = new Date();
+let lastPrunedAt = 0;
+
+function getMaxAttempts(): number {
+  return parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "", 10) || DEFAULT_MAX_ATTEMPTS;
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(32).toString("base64url")}`;
+}
+
+/**
+ * The X-Webhook-Signature header: an HMAC-SHA256 of "<timestamp>.<body>" with
+ * the endpoint's secret. Receivers recompute it and reject old timestamps.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+// Delay before the next try after `attempts` failed ones
+function getBackoffMs(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+}
+
+// Addresses webhooks can't be sent to: this network, private, carrier-grade
+// NAT, loopback, link-local and multicast ranges, and unique-local IPv6
+const privateAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.168.0.0", 16], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+  privateAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [["::", 127], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]] as const) {
+  privateAddresses.addSubnet(network, prefix, "ipv6");
+}
+// IPv4 addresses wrapped in IPv6 (IPv4-mapped and NAT64) could hide any of
+// the above. Kept apart because BlockList matches plain IPv4 against these too.
+const wrappedIPv4Addresses = new BlockList();
+wrappedIPv4Addresses.addSubnet("::ffff:0:0", 96, "ipv6");
+wrappedIPv4Addresses.addSubnet("64:ff9b::", 96, "ipv6");
+
+function isPrivateAddress(host: string): boolean {
+  const version = isIP(host);
+  if (version === 4) return privateAddresses.check(host, "ipv4");
+  if (version === 6) return privateAddresses.check(host, "ipv6") || wrappedIPv4Addresses.check(host, "ipv6");
+  const name = host.toLowerCase().replace(/\.$/, "");
+  return name === "localhost" || name.endsWith(".localhost") || name.endsWith(".internal");
+}
+
+// Development allows plain HTTP and local receivers for testing
+function allowsPrivateNetwork(): boolean {
+  return process.env.NODE_ENV !== "production";
+}
+
+/**
+ * Resolves a webhook host like dns.lookup, failing if any address it resolves
+ * to is private. Used as the connection's own lookup so that the address that
+ * was checked is the one connected to, whatever the DNS answers next time.
+ */
+const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) return callback(error, "");
+    if (addresses.some(({ address }) => isPrivateAddress(address))) {
+      return callback(new Error(`${hostname} resolves to a private network address`), "");
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * Why a URL can't be used as a webhook endpoint, or null if it can. In
+ * production endpoints must use HTTPS and can't point at the server's own network.
+ */
+export function checkWebhookUrl(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return "Enter a valid URL";
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    return "Webhook URLs must use HTTP or HTTPS";
+  }
+  if (!allowsPrivateNetwork()) {
+    if (url.protocol !== "https:") return "Webhook URLs must use HTTPS";
+    if (isPrivateAddress(url.hostname.replace(/^\[|\]$/g, ""))) return "Webhook URLs can't point at a private network address";
+  }
+  return null;
+}
+
+/**
+ * Queues an event for every active endpoint of the user subscribed to it and
+ * starts delivering right away. Never throws: a webhook problem must not fail
+ * the request that caused the event.
+ */
+export async function emitWebhookEvent(userId: number, type: WebhookEventType, data: Record<string, unknown>): Promise<void> {
+  try {
+    const { storage } = await import("../storage");
+    const endpoints = await storage.getWebhookEndpointsForEvent(userId, type);
+    if (endpoints.length === 0) return;
+
+    const eventId = randomUUID();
+    const payload = { id: eventId, type, createdAt: new Date().toISOString(), data };
+    await storage.createWebhookDeliveries(
+      endpoints.map(endpoint => ({ endpointId: endpoint.id, eventId, eventType: type, payload, nextAttemptAt: new Date() }))
+    );
+
+    processWebhookQueue().catch(error => logger.error("Webhook delivery failed:", error));
+  } catch (error) {
+    logger.error(`Failed to queue ${type} webhook for user ${userId}:`, error);
+  }
+}
+
+export function emitPlantAdded(plant: Plant): Promise<void> {
+  return emitWebhookEvent(plant.userId, "plant_added", {
+    plant: {
+      id: plant.id,
+      name: plant.name,
+      scientificName: plant.scientificName,
+      location: plant.location,
+      waterFrequency: plant.waterFrequency,
+      fertilizerFrequency: plant.fertilizerFrequency,
+      parentPlantId: plant.parentPlantId,
+    },
+  });
+}
+
+export function emitCareLogAdded(plant: Plant, careLog: CareLog): Promise<void> {
+  return emitWebhookEvent(plant.userId, "care_log_added", {
+    plant: { id: plant.id, name: plant.name },
+    careLog: {
+      id: careLog.id,
+      careType: careLog.careType,
+      notes: careLog.notes,
+      timestamp: careLog.timestamp,
+      performedBy: careLog.performedBy,
+      guestName: careLog.guestName,
+    },
+  });
+}
+
+export function emitDiagnosisCompleted(userId: number, diagnosis: Record<string, unknown>): Promise<void> {
+  return emitWebhookEvent(userId, "diagnosis_completed", { diagnosis });
+}
+
+// Both sides of a follow get the event
+export async function emitFollow(follower: User, followed: User): Promise<void> {
+  const data = {
+    follower: { id: follower.id, username: follower.username },
+    followed: { id: followed.id, username: followed.username },
+  };
+  await emitWebhookEvent(follower.id, "follow_user", data);
+  await emitWebhookEvent(followed.id, "follow_user", data);
+}
+
+async function emitReminderDue(reminder: Reminder & { plantName: string }): Promise<void> {
+  // Assigned reminders go to the assigned garden member, as notifications do
+  await emitWebhookEvent(reminder.assignedTo ?? reminder.userId, "reminder_due", {
+    reminder: {
+      id: reminder.id,
+      title: reminder.title,
+      message: reminder.message,
+      careType: reminder.careType,
+      dueDate: new Date(reminder.dueDate).toISOString(),
+    },
+    plant: { id: reminder.plantId, name: reminder.plantName },
+  });
+}
+
+/**
+ * POSTs a webhook body and resolves with the response status. Uses node's
+ * HTTP client rather than fetch so that the addresses the host resolves to
+ * can be checked at connection time. Redirects aren't followed.
+ */
+function postWebhook(url: string, headers: Record<string, string>, body: string): Promise<number> {
+  const problem = checkWebhookUrl(url);
+  if (problem) return Promise.reject(new Error(problem));
+
+  const target = new URL(url);
+  const request = target.protocol === "https:" ? https.request : http.request;
+  return new Promise((resolve, reject) => {
+    const req = request(target, {
+      method: "POST",
+      headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+      lookup: allowsPrivateNetwork() ? undefined : lookupPublicAddress,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    }, response => {
+      // The response body isn't used; drain it so the socket is freed
+      response.resume();
+      resolve(response.statusCode ?? 0);
+    });
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+/**
+ * Sends one delivery and records the outcome: delivered on a 2xx response,
+ * otherwise retried with exponential backoff until WEBHOOK_MAX_ATTEMPTS
+ * (or failed straight away when `retry` is false).
+ */
+async function attemptDelivery(delivery: WebhookDelivery, endpoint: WebhookEndpoint, retry = true): Promise<WebhookDelivery> {
+  const { storage } = await import("../storage");
+  const attempts = delivery.attempts + 1;
+  const now = new Date();
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(now.getTime() / 1000);
+
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  try {
+    // The URL is checked again here: hosts can start resolving to private addresses after they're saved
+    responseStatus = await postWebhook(endpoint.url, {
+      "Content-Type": "application/json",
+      "User-Agent": "HannasGarden-Webhooks/1.0",
+      "X-Webhook-Id": delivery.eventId,
+      "X-Webhook-Event": delivery.eventType,
+      "X-Webhook-Timestamp": String(timestamp),
+      "X-Webhook-Signature": signWebhookPayload(endpoint.secret, timestamp, body),
+    }, body);
+    // A redirect could point anywhere, so it counts as a failure
+    if (responseStatus < 200 || responseStatus >= 300) error = `Endpoint responded with ${responseStatus}`;
+  } catch (requestError) {
+    error = requestError instanceof Error ? requestError.message : String(requestError);
+  }
+
+  if (!error) {
+    return (await storage.updateWebhookDelivery(delivery.id, {
+      status: "succeeded", attempts, lastAttemptAt: now, responseStatus, lastError: null, nextAttemptAt: null, deliveredAt: now,
+    })) ?? delivery;
+  }
+
+  const givingUp = !retry || attempts >= getMaxAttempts();
+  if (givingUp && retry) {
+    logger.warn(`Giving up on webhook delivery ${delivery.id} to endpoint ${endpoint.id} after ${attempts} attempts: ${error}`);
+  }
+  return (await storage.updateWebhookDelivery(delivery.id, {
+    status: givingUp ? "failed" : "pending",
+    attempts,
+    lastAttemptAt: now,
+    responseStatus,
+    lastError: error.slice(0, 500),
+    nextAttemptAt: givingUp ? null : new Date(now.getTime() + getBackoffMs(attempts)),
+  })) ?? delivery;
+}
+
+/**
+ * Delivers everything in the queue that is due, including retries.
+ * @returns The number of deliveries attempted
+ */
+export async function processWebhookQueue(now = new Date()): Promise<number> {
+  const { storage } = await import("../storage");
+  const due = await storage.claimDueWebhookDeliveries(now, new Date(now.getTime() + CLAIM_LEASE_MS), CLAIM_BATCH_SIZE);
+
+  const endpoints = new Map<number, WebhookEndpoint | undefined>();
+  for (const delivery of due) {
+    if (!endpoints.has(delivery.endpointId)) {
+      endpoints.set(delivery.endpointId, await storage.getWebhookEndpoint(delivery.endpointId));
+    }
+    const endpoint = endpoints.get(delivery.endpointId);
+    if (!endpoint || !endpoint.active) {
+      await storage.updateWebhookDelivery(delivery.id, { status: "failed", nextAttemptAt: null, lastError: "Endpoint was turned off" });
+      continue;
+    }
+    try {
+      await attemptDelivery(delivery, endpoint);
+    } catch (error) {
+      logger.error(`Webhook delivery ${delivery.id} failed:`, error);
+    }
+  }
+  return due.length;
+}
+
+/**
+ * Sends a "test" event to the endpoint straight away and returns the
+ * delivery with its outcome. Failed test events aren't retried. It goes
+ * through the same address checks as any other delivery.
+ */
+export async function sendTestWebhook(endpoint: WebhookEndpoint, user: User): Promise<WebhookDelivery> {
+  const { storage } = await import("../storage");
+  const eventId = randomUUID();
+  const payload = {
+    id: eventId,
+    type: "test",
+    createdAt: new Date().toISOString(),
+    data: { message: `Test event from Hanna's Garden for @${user.username}` },
+  };
+  const [delivery] = await storage.createWebhookDeliveries([
+    // Leased like a claimed delivery so the queue doesn't pick it up meanwhile
+    { endpointId: endpoint.id, eventId, eventType: "test", payload, nextAttemptAt: new Date(Date.now() + CLAIM_LEASE_MS) },
+  ]);
+  return await attemptDelivery(delivery, endpoint, false);
+}
+
+async function publishDueReminders(now: Date): Promise<void> {
+  const { storage } = await import("../storage");
+  const due = await storage.getRemindersDueBetween(remindersSentUntil, now);
+  remindersSentUntil = now;
+  for (const reminder of due) {
+    await emitReminderDue(reminder);
+  }
+}
+
+async function pruneDeliveryLog(now: Date): Promise<void> {
+  if (now.getTime() - lastPrunedAt < MS_PER_DAY / 24) return;
+  lastPrunedAt = now.getTime();
+
+  const { storage } = await import("../storage");
+  const days = parseInt(process.env.WEBHOOK_LOG_RETENTION_DAYS || "", 10) || DEFAULT_LOG_RETENTION_DAYS;
+  const count = await storage.deleteWebhookDeliveriesBefore(new Date(now.getTime() - days * MS_PER_DAY));
+  if (count > 0) {
+    logger.info(`Deleted ${count} webhook deliveries older than ${days} days`);
+  }
+}
+
+/**
+ * Starts the in-process job that sends reminder_due events, retries failed
+ * deliveries and prunes the delivery log, every WEBHOOK_POLL_SECONDS (default 30).
+ * Reminders that came due while the server was down are not sent.
+ */
+export function startWebhookScheduler(): void {
+  if (schedulerTimer) return;
+
+  const seconds = parseInt(process.env.WEBHOOK_POLL_SECONDS || "", 10) || DEFAULT_POLL_SECONDS;
+  remindersSentUntil = new Date();
+
+  const tick = async () => {
+    // Skip this tick if the previous run is still going
+    if (processingInProgress) return;
+    processingInProgress = true;
+    try {
+      const now = new Date();
+      await publishDueReminders(now);
+      await processWebhookQueue(now);
+      await pruneDeliveryLog(now);
+    } catch (error) {
+      logger.error("Webhook scheduler run failed:", error);
+    } finally {
+      processingInProgress = false;
+    }
+  };
+
+  schedulerTimer = setInterval(tick, seconds * 1000);
+  // Don't keep the process alive just for the scheduler
+  schedulerTimer.unref();
+  logger.info(`Webhook deliveries running every ${seconds} seconds`);
+}
+
+export function stopWebhookScheduler(): void {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+}
@@ -1,23 +1,67 @@
 import { 
   users, plants, careLogs, plantGuides, reminders, communityTips, tipVotes, sharedPlantLinks, sharedCareLogLinks,
-  userFollows, activityFeed, profileSettings,
+  userFollows, activityFeed, profileSettings, photos, pushSubscriptions, calendarFeeds,
+  gardens, gardenMembers, gardenInvitations, sitterLinks, sitterLinkPlants, aiResponseCache, aiUsage, species,
+  tipReports, moderationActions, comments, notifications, plantTransfers,
+  sensorDevices, sensorReadings, webhookEndpoints, webhookDeliveries, apiTokens, aiReports, scheduleApplications,
   type User, type InsertUser, 
-  type Plant, type InsertPlant,
-  type CareLog, type InsertCareLog,
+  type Plant, type InsertPlant, type PropagationMethod,
+  type PlantTransfer, type PlantTransferStatus, type PlantTransferWithDetails,
+  type CareLog, type InsertCareLog, type CareLogMetadata, CARE_LOG_METADATA_VERSION,
   type PlantGuide, type InsertPlantGuide,
+  type Species, type InsertSpecies,
   type PlantWithCare, type Reminder, type InsertReminder,
+  type Photo, type InsertPhoto,
   type CommunityTip, type InsertCommunityTip, type CommunityTipWithUser,
   type TipVote, type InsertTipVote,
   type SharedPlantLink, type InsertSharedPlantLink,
   type SharedCareLogLink, type InsertSharedCareLogLink,
   type UserFollow, type InsertUserFollow,
   type ActivityFeed, type InsertActivityFeed,
-  type ProfileSettings, type InsertProfileSettings
+  type ProfileSettings, type InsertProfileSettings,
+  type PushSubscription, type InsertPushSubscription,
+  type CalendarFeed,
+  type Garden, type GardenMember, type GardenMemberWithUser, type GardenWithRole,
+  type GardenInvitation, type GardenRole,
+  type SitterLink, type InsertSitterLink,
+  type AiResponseCacheEntry, type InsertAiUsage, type AiUsageTotals,
+  type SearchResult, type SearchResultType, type DiscoverUser,
+  type TipStatus, type TipReport, type TipReportReason, type TipReportWithReporter,
+  type ModerationAction, type ModerationActionType, type ModerationActionWithModerator,
+  type ModerationQueueItem, type UserRole, type StaffMember,
+  type Comment, type CommentAuthor, type CommentTarget, type Notification,
+  type SensorDevice, type SensorDeviceSummary, type SensorMetric, type SensorPoint,
+  type WebhookEndpoint, type WebhookEndpointSummary, type WebhookDelivery, type WebhookEventType,
+  type ApiToken, type ApiTokenSummary,
+  type AiReport, type AiReportFeature, type InsertAiReport,
+  type ScheduleApplication, type ScheduleChange
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, asc, sql } from "drizzle-orm";
+import { eq, and, or, desc, asc, sql, lte, gte, gt, inArray, isNull, getTableColumns } from "drizzle-orm";
 import * as logger from "./services/logger";
-import { randomUUID } from "crypto";
+import { findSpeciesGuideForPlant } from "./services/speciesCatalog";
+import { searchDocuments, searchNames, HEADLINE_OPTIONS } from "./services/search";
+import { randomUUID, randomBytes } from "crypto";
+
+// How many generations a family tree query follows up or down
+const MAX_LINEAGE_DEPTH = 50;
+
+// Position in a ranked list of users, for keyset pagination
+export type RankingCursor = { score: number; id: number };
+export type RankedUser = { userId: number; score: number };
+export type SuggestedUser = RankedUser & {
+  mutualFollows: number;
+  sharedSpecies: number;
+  exampleSpecies: string | null;
+  sameLocation: boolean;
+};
+
+// Reminder writes that apply an AI care schedule
+export type ScheduleOperations = {
+  creates: InsertReminder[];
+  moves: { id: number; dueDate: Date; recurringInterval: number }[];
+  deleteIds: number[];
+};
 
 // Interface for storage operations
 export interface IStorage {
@@ -32,23 +76,63 @@ export interface IStorage {
   updateUserLastLogin(id: number): Promise<boolean>;
   
   // Plant methods
-  getPlants(userId: number): Promise<PlantWithCare[]>;
+  getPlants(userId: number, options?: { includeGardens?: boolean }): Promise<PlantWithCare[]>;
   getPlant(id: number): Promise<PlantWithCare | undefined>;
   createPlant(plant: InsertPlant): Promise<Plant>;
   updatePlant(id: number, plant: Partial<InsertPlant>): Promise<Plant | undefined>;
+  setWaterFrequency(id: number, waterFrequency: number, note: string): Promise<Plant | undefined>;
   deletePlant(id: number): Promise<boolean>;
   
+  // Plant lineage and transfer methods
+  getPlantFamily(plantId: number, limit: number): Promise<{ rootId: number; plants: (Plant & { ownerUsername: string })[]; truncated: boolean }>;
+  getPlantAncestorIds(plantId: number): Promise<number[]>;
+  setPlantParent(plantId: number, parentPlantId: number | null, method: PropagationMethod | null): Promise<Plant | undefined>;
+  createPlantTransfer(transfer: Pick<PlantTransfer, "plantId" | "fromUserId" | "toUserId" | "message">): Promise<PlantTransfer | undefined>;
+  getPlantTransfer(id: number): Promise<PlantTransfer | undefined>;
+  getPendingPlantTransfers(userId: number): Promise<PlantTransferWithDetails[]>;
+  closePlantTransfer(id: number, status: Exclude<PlantTransferStatus, "pending" | "accepted">): Promise<PlantTransfer | undefined>;
+  acceptPlantTransfer(id: number): Promise<PlantTransfer | undefined>;
+  
   // Care log methods
   getCareLogs(plantId: number): Promise<CareLog[]>;
   getPlantCareHistory(plantId: number, limit?: number): Promise<CareLog[]>;
-  createCareLog(careLog: InsertCareLog): Promise<CareLog>;
+  createCareLog(careLog: InsertCareLog, timestamp?: Date): Promise<CareLog>;
+  getCareLogByOfflineId(plantId: number, offlineId: string): Promise<CareLog | undefined>;
+  importCareLog(careLog: InsertCareLog, timestamp: Date): Promise<CareLog>;
   updateCareLog(id: number, data: Partial<InsertCareLog>): Promise<CareLog | undefined>;
+  mergeCareLogMetadata(id: number, fields: Partial<Omit<CareLogMetadata, "careType" | "version">>): Promise<CareLog | undefined>;
+  setCareLogJournalText(id: number, journalText: string): Promise<void>;
+  getCareLog(id: number): Promise<CareLog | undefined>;
   getPlantWithCare(id: number): Promise<PlantWithCare | undefined>;
   
+  // Photo methods
+  createPhoto(photo: InsertPhoto): Promise<Photo>;
+  getPhoto(id: number): Promise<Photo | undefined>;
+  getPhotoByUrl(url: string): Promise<Photo | undefined>;
+  getPhotosByPlant(plantId: number): Promise<Photo[]>;
+  deletePhoto(id: number): Promise<boolean>;
+  
   // Plant guide methods
   getPlantGuides(): Promise<PlantGuide[]>;
-  getPlantGuideByType(plantType: string): Promise<PlantGuide | undefined>;
   createPlantGuide(guide: InsertPlantGuide): Promise<PlantGuide>;
+
+  // Species catalogue methods
+  countSpecies(): Promise<number>;
+  getSpecies(id: number): Promise<Species | undefined>;
+  getAllSpecies(): Promise<Species[]>;
+  searchSpecies(options: { search?: string; rank?: Species["rank"]; limit: number; offset: number }): Promise<{ species: Species[]; total: number }>;
+  findSpeciesByName(name: string): Promise<{ species: Species; matchType: "exact" | "synonym" | "common_name" } | undefined>;
+  findSpeciesBySimilarName(name: string, minSimilarity: number): Promise<Species | undefined>;
+  getTaxon(rank: Species["rank"], name: string): Promise<Species | undefined>;
+  getFamilyOfGenus(genus: string): Promise<string | undefined>;
+  upsertSpecies(entries: InsertSpecies[]): Promise<{ created: number; updated: number }>;
+
+  // Full-text search
+  searchContent(
+    userId: number,
+    query: string,
+    options: { types: SearchResultType[]; limit: number; offset: number; fuzzy: boolean }
+  ): Promise<{ rows: (Omit<SearchResult, "highlight"> & { headline: string })[]; total: number }>;
   
   // Care summary
   getPlantsNeedingCare(userId: number): Promise<{
@@ -57,6 +141,7 @@ export interface IStorage {
   }>;
   
   // Reminder methods
+  getReminder(id: number): Promise<Reminder | undefined>;
   getReminders(userId: number): Promise<Reminder[]>;
   getRemindersByPlant(plantId: number): Promise<Reminder[]>;
   getUpcomingReminders(userId: number, days: number): Promise<Reminder[]>;
@@ -65,7 +150,15 @@ export interface IStorage {
   deleteReminder(id: number): Promise<boolean>;
   markReminderComplete(id: number): Promise<Reminder | undefined>;
   markReminderDismissed(id: number): Promise<Reminder | undefined>;
+  closeReminder(
+    id: number,
+    status: 'completed' | 'dismissed',
+    nextOccurrence: InsertReminder | null
+  ): Promise<{ reminder: Reminder; next: Reminder | null } | undefined>;
   getOverdueReminders(userId: number): Promise<Reminder[]>;
+  getDueUnnotifiedReminders(dueBefore: Date): Promise<Reminder[]>;
+  getRemindersDueBetween(after: Date, until: Date): Promise<(Reminder & { plantName: string })[]>;
+  markRemindersNotified(ids: number[]): Promise<void>;
   
   // Community Tips methods
   getCommunityTips(
@@ -90,7 +183,38 @@ export interface IStorage {
   
   // Admin functions for community tips
   featureCommunityTip(id: number, featured: boolean): Promise<boolean>;
-  updateTipStatus(id: number, status: string): Promise<boolean>;
+  updateTipStatus(id: number, status: TipStatus): Promise<boolean>;
+
+  // Moderation methods
+  createTipReport(tipId: number, reporterId: number, reason: TipReportReason, details?: string): Promise<TipReport | undefined>;
+  countOpenTipReports(tipId: number): Promise<number>;
+  resolveTipReports(tipId: number, moderatorId: number): Promise<number>;
+  getTipReports(tipId: number): Promise<TipReportWithReporter[]>;
+  getModerationQueue(options: { limit: number; offset: number }): Promise<ModerationQueueItem[]>;
+  logModerationAction(entry: {
+    moderatorId: number | null;
+    action: ModerationActionType;
+    targetType: "tip" | "comment" | "user";
+    targetId: number;
+    note?: string | null;
+  }): Promise<ModerationAction>;
+  getModerationLog(options: { limit: number; offset: number }): Promise<ModerationActionWithModerator[]>;
+  updateUserRole(userId: number, role: UserRole): Promise<User | undefined>;
+  getStaffUsers(): Promise<StaffMember[]>;
+
+  // Comment methods
+  getComment(id: number): Promise<Comment | undefined>;
+  getComments(targetType: CommentTarget, targetId: number): Promise<(Comment & { author: CommentAuthor })[]>;
+  createComment(comment: Pick<Comment, "targetType" | "targetId" | "userId" | "parentId" | "content">): Promise<Comment>;
+  updateCommentContent(id: number, content: string): Promise<Comment | undefined>;
+  setCommentStatus(id: number, status: TipStatus): Promise<Comment | undefined>;
+  getUsersByUsernames(usernames: string[]): Promise<User[]>;
+
+  // In-app notification methods
+  createNotifications(entries: Pick<Notification, "userId" | "type" | "actorId" | "commentId" | "message" | "url">[]): Promise<Notification[]>;
+  getNotifications(userId: number, limit: number): Promise<Notification[]>;
+  countUnreadNotifications(userId: number): Promise<number>;
+  markNotificationsRead(userId: number, ids?: number[]): Promise<number>;
 
   // Shared plant links methods
   createSharedPlantLink(plantId: number, userId: number): Promise<SharedPlantLink>;
@@ -118,6 +242,12 @@ export interface IStorage {
   isFollowing(followerId: number, followedId: number): Promise<boolean>;
   getFollowCount(userId: number): Promise<{followers: number; following: number}>;
   
+  // Discover rankings
+  refreshUserRankings(windowDays: number): Promise<number>;
+  getTrendingUserIds(viewerId: number, options: { limit: number; after?: RankingCursor }): Promise<RankedUser[]>;
+  getSuggestedUserIds(viewerId: number, options: { limit: number; after?: RankingCursor }): Promise<SuggestedUser[]>;
+  getDiscoverUsers(viewerId: number, userIds: number[]): Promise<DiscoverUser[]>;
+  
   // Activity Feed methods
   createActivity(activity: InsertActivityFeed): Promise<ActivityFeed>;
   getUserActivityFeed(userId: number, limit?: number, offset?: number): Promise<ActivityFeed[]>;
@@ -128,11 +258,128 @@ export interface IStorage {
   createProfileSettings(settings: InsertProfileSettings): Promise<ProfileSettings>;
   updateProfileSettings(userId: number, settings: Partial<ProfileSettings>): Promise<ProfileSettings | undefined>;
   
+  // Push subscription methods
+  getPushSubscriptions(userId: number): Promise<PushSubscription[]>;
+  savePushSubscription(subscription: InsertPushSubscription): Promise<PushSubscription>;
+  deletePushSubscription(endpoint: string): Promise<boolean>;
+  
+  // Calendar feed methods
+  getCalendarFeed(userId: number): Promise<CalendarFeed | undefined>;
+  getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined>;
+  rotateCalendarFeed(userId: number): Promise<CalendarFeed>;
+  deleteCalendarFeed(userId: number): Promise<boolean>;
+  updateCalendarFeedLastAccessed(id: number): Promise<void>;
+  
+  // Garden (household) methods
+  createGarden(name: string, userId: number): Promise<Garden>;
+  getGarden(id: number): Promise<Garden | undefined>;
+  getGardensForUser(userId: number): Promise<GardenWithRole[]>;
+  updateGarden(id: number, name: string): Promise<Garden | undefined>;
+  deleteGarden(id: number): Promise<boolean>;
+  getGardenMembers(gardenId: number): Promise<GardenMemberWithUser[]>;
+  getGardenMember(gardenId: number, userId: number): Promise<GardenMember | undefined>;
+  updateGardenMemberRole(gardenId: number, userId: number, role: GardenRole): Promise<GardenMember | undefined>;
+  removeGardenMember(gardenId: number, userId: number): Promise<boolean>;
+  setPlantGarden(plantId: number, gardenId: number | null): Promise<Plant | undefined>;
+  createGardenInvitation(gardenId: number, invitedBy: number, role: GardenRole, email: string | null, expiresAt: Date): Promise<GardenInvitation>;
+  getGardenInvitations(gardenId: number): Promise<GardenInvitation[]>;
+  getGardenInvitationByToken(token: string): Promise<GardenInvitation | undefined>;
+  deleteGardenInvitation(id: number): Promise<boolean>;
+  acceptGardenInvitation(invitation: GardenInvitation, userId: number): Promise<GardenMember | undefined>;
+  
+  // Sitter link (vacation mode) methods
+  createSitterLink(userId: number, link: InsertSitterLink): Promise<SitterLink>;
+  getSitterLink(shareId: string): Promise<SitterLink | undefined>;
+  getSitterLinksByUser(userId: number): Promise<SitterLink[]>;
+  getSitterLinkPlantIds(sitterLinkId: number): Promise<number[]>;
+  updateSitterLinkStats(shareId: string): Promise<SitterLink | undefined>;
+  deactivateSitterLink(shareId: string): Promise<boolean>;
+  getSitterCareLogs(sitterLinkId: number): Promise<CareLog[]>;
+  createSitterCareLog(link: SitterLink, careLog: Pick<InsertCareLog, "plantId" | "careType" | "notes">): Promise<CareLog>;
+  getSitterLinksAwaitingReport(now: Date): Promise<SitterLink[]>;
+  markSitterReportSent(id: number): Promise<boolean>;
+  
+  // AI gateway methods
+  getAiCacheEntry(cacheKey: string, now: Date): Promise<AiResponseCacheEntry | undefined>;
+  saveAiCacheEntry(cacheKey: string, feature: string, response: unknown, expiresAt: Date): Promise<void>;
+  deleteExpiredAiCacheEntries(now: Date): Promise<number>;
+  recordAiUsage(usage: InsertAiUsage): Promise<void>;
+  countAiRequestsSince(userId: number, since: Date): Promise<number>;
+  getAiUsageByFeature(since: Date): Promise<(AiUsageTotals & { feature: string })[]>;
+  getAiUsageByUser(since: Date, limit: number): Promise<(AiUsageTotals & { userId: number | null; username: string | null })[]>;
+  
+  // Sensor methods
+  createSensorDevice(device: Pick<SensorDevice, "userId" | "plantId" | "name" | "tokenHash" | "tokenPrefix" | "dryThreshold">): Promise<SensorDevice>;
+  getSensorDevice(id: number): Promise<SensorDevice | undefined>;
+  getSensorDeviceByTokenHash(tokenHash: string): Promise<SensorDevice | undefined>;
+  getSensorDevices(userId: number): Promise<SensorDeviceSummary[]>;
+  getSensorDevicesForPlant(plantId: number): Promise<SensorDeviceSummary[]>;
+  updateSensorDevice(id: number, data: Partial<Pick<SensorDevice, "name" | "plantId" | "dryThreshold" | "tokenHash" | "tokenPrefix" | "lastSeenAt">>): Promise<SensorDevice | undefined>;
+  deleteSensorDevice(id: number): Promise<boolean>;
+  insertSensorReadings(readings: { deviceId: number; plantId: number; metric: SensorMetric; value: number; recordedAt: Date }[]): Promise<number>;
+  getSensorSeries(plantId: number, since: Date, bucketMinutes: number): Promise<(SensorPoint & { metric: SensorMetric })[]>;
+  getLatestSensorReadings(plantId: number): Promise<{ metric: SensorMetric; value: number; recordedAt: Date; deviceId: number }[]>;
+  getDueWaterRemindersWithSoilReading(now: Date, since: Date): Promise<{ reminderId: number; plantId: number; moisture: number; dryThreshold: number | null }[]>;
+  rollUpSensorReadings(before: Date): Promise<number>;
+  
+  // Webhook methods
+  createWebhookEndpoint(endpoint: Pick<WebhookEndpoint, "userId" | "url" | "description" | "secret" | "eventTypes">): Promise<WebhookEndpoint>;
+  getWebhookEndpoint(id: number): Promise<WebhookEndpoint | undefined>;
+  getWebhookEndpoints(userId: number): Promise<WebhookEndpointSummary[]>;
+  getWebhookEndpointsForEvent(userId: number, eventType: WebhookEventType): Promise<WebhookEndpoint[]>;
+  updateWebhookEndpoint(id: number, data: Partial<Pick<WebhookEndpoint, "url" | "description" | "secret" | "eventTypes" | "active">>): Promise<WebhookEndpoint | undefined>;
+  deleteWebhookEndpoint(id: number): Promise<boolean>;
+  createWebhookDeliveries(deliveries: Pick<WebhookDelivery, "endpointId" | "eventId" | "eventType" | "payload" | "nextAttemptAt">[]): Promise<WebhookDelivery[]>;
+  claimDueWebhookDeliveries(now: Date, leaseUntil: Date, limit: number): Promise<WebhookDelivery[]>;
+  updateWebhookDelivery(id: number, data: Partial<Omit<WebhookDelivery, "id" | "endpointId" | "eventId" | "eventType" | "payload" | "createdAt">>): Promise<WebhookDelivery | undefined>;
+  getWebhookDeliveries(endpointId: number, limit: number): Promise<WebhookDelivery[]>;
+  deleteWebhookDeliveriesBefore(before: Date): Promise<number>;
+  
+  // Personal access token methods
+  createApiToken(token: Pick<ApiToken, "userId" | "name" | "tokenHash" | "tokenPrefix" | "scopes" | "expiresAt">): Promise<ApiTokenSummary>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  getApiTokens(userId: number): Promise<ApiTokenSummary[]>;
+  touchApiToken(id: number, usedAt: Date): Promise<void>;
+  revokeApiToken(id: number, userId: number): Promise<boolean>;
+  
+  // AI report methods
+  createAiReport(report: InsertAiReport): Promise<AiReport>;
+  getAiReport(id: number): Promise<AiReport | undefined>;
+  getLatestAiReport(userId: number, feature: AiReportFeature, inputHash: string): Promise<AiReport | undefined>;
+  getAiReports(userId: number, filters: { plantId?: number; feature?: AiReportFeature }, limit: number): Promise<AiReport[]>;
+  // Undefined when the action already has a reminder (or the report is gone)
+  createAiReportActionReminder(
+    id: number,
+    actionId: string,
+    reminder: InsertReminder
+  ): Promise<{ report: AiReport; reminder: Reminder } | undefined>;
+  deleteAiReport(id: number, userId: number): Promise<boolean>;
+  
+  // AI care schedule methods
+  applyScheduleChanges(
+    userId: number,
+    reportId: number | null,
+    changes: ScheduleChange[],
+    operations: ScheduleOperations
+  ): Promise<ScheduleApplication | undefined>;
+  getLatestScheduleApplication(userId: number): Promise<ScheduleApplication | undefined>;
+  rollbackScheduleApplication(id: number, userId: number): Promise<{ application: ScheduleApplication; kept: number } | undefined>;
+  
   // Public Profile methods
   getPublicProfile(username: string): Promise<{user: User; profileSettings: ProfileSettings} | undefined>;
   getPublicPlants(userId: number): Promise<PlantWithCare[]>;
 }
 
+// Aggregates shared by the AI usage breakdowns
+const aiUsageTotalsColumns = {
+  requests: sql<number>`count(*)::int`,
+  cachedRequests: sql<number>`count(*) filter (where ${aiUsage.cached})::int`,
+  failedRequests: sql<number>`count(*) filter (where not ${aiUsage.success})::int`,
+  promptTokens: sql<number>`coalesce(sum(${aiUsage.promptTokens}), 0)::int`,
+  completionTokens: sql<number>`coalesce(sum(${aiUsage.completionTokens}), 0)::int`,
+  estimatedCost: sql<number>`coalesce(sum(${aiUsage.estimatedCost}), 0)::float`,
+};
+
 export class DatabaseStorage implements IStorage {
   private defaultGuides: InsertPlantGuide[] = [
     {
@@ -254,7 +501,7 @@ export class DatabaseStorage implements IStorage {
 
   async updateUserProfile(id: number, data: Partial<User>): Promise<User | undefined> {
     // Extract fields we handle specially
-    const { password, username, id: userId, email, ...otherData } = data;
+    const { password, username, id: userId, email, role, ...otherData } = data;
     
     // Handle email updates separately (with validation)
     if (email) {
@@ -298,11 +545,27 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Plant methods
-  async getPlants(userId: number): Promise<PlantWithCare[]> {
+  async getPlants(userId: number, options: { includeGardens?: boolean } = {}): Promise<PlantWithCare[]> {
+    const { includeGardens = true } = options;
+
+    // Without gardens: only the plants the user added themselves
+    let condition = eq(plants.userId, userId);
+    if (includeGardens) {
+      // Personal plants plus every plant in a garden the user is a member of
+      const memberships = await db
+        .select({ gardenId: gardenMembers.gardenId })
+        .from(gardenMembers)
+        .where(eq(gardenMembers.userId, userId));
+      const gardenIds = memberships.map(m => m.gardenId);
+
+      const personal = and(eq(plants.userId, userId), isNull(plants.gardenId))!;
+      condition = gardenIds.length > 0 ? or(personal, inArray(plants.gardenId, gardenIds))! : personal;
+    }
+
     const userPlants = await db
       .select()
       .from(plants)
-      .where(eq(plants.userId, userId));
+      .where(condition);
     
     // Add care info to plants
     const plantsWithCare: PlantWithCare[] = [];
@@ -351,6 +614,39 @@ export class DatabaseStorage implements IStorage {
     return updatedPlant || undefined;
   }
 
+  async setWaterFrequency(id: number, waterFrequency: number, note: string): Promise<Plant | undefined> {
+    // Update the plant and its pending recurring water reminders together so the
+    // next occurrence is generated with the new interval
+    return await db.transaction(async (tx) => {
+      try {
+        const [updatedPlant] = await tx
+          .update(plants)
+          .set({ waterFrequency, waterFrequencyAdjustedAt: new Date(), waterFrequencyNote: note })
+          .where(eq(plants.id, id))
+          .returning();
+
+        if (!updatedPlant) {
+          return undefined;
+        }
+
+        await tx
+          .update(reminders)
+          .set({ recurringInterval: waterFrequency })
+          .where(and(
+            eq(reminders.plantId, id),
+            eq(reminders.careType, "water"),
+            eq(reminders.status, "pending"),
+            eq(reminders.recurring, true)
+          ));
+
+        return updatedPlant;
+      } catch (error) {
+        logger.error('Transaction failed in setWaterFrequency:', error instanceof Error ? error : new Error(String(error)));
+        throw error; // Rethrow to trigger transaction rollback
+      }
+    });
+  }
+
   async deletePlant(id: number): Promise<boolean> {
     const [deletedPlant] = await db
       .delete(plants)
@@ -359,6 +655,176 @@ export class DatabaseStorage implements IStorage {
     return !!deletedPlant;
   }
 
+  // Plant lineage and transfer methods
+  async getPlantFamily(plantId: number, limit: number): Promise<{ rootId: number; plants: (Plant & { ownerUsername: string })[]; truncated: boolean }> {
+    // Walk up to the oldest known ancestor, then down to all of its descendants.
+    // Cycles are rejected when links are made; the depth limit is a backstop.
+    const result = await db.execute(sql`
+      WITH RECURSIVE ancestors AS (
+        SELECT id, parent_plant_id, 0 AS depth FROM plants WHERE id = ${plantId}
+        UNION ALL
+        SELECT p.id, p.parent_plant_id, a.depth + 1
+        FROM plants p JOIN ancestors a ON p.id = a.parent_plant_id
+        WHERE a.depth < ${MAX_LINEAGE_DEPTH}
+      ),
+      root AS (
+        SELECT id FROM ancestors ORDER BY depth DESC LIMIT 1
+      ),
+      family AS (
+        SELECT id, 0 AS depth FROM root
+        UNION ALL
+        SELECT c.id, f.depth + 1
+        FROM plants c JOIN family f ON c.parent_plant_id = f.id
+        WHERE f.depth < ${MAX_LINEAGE_DEPTH}
+      )
+      SELECT DISTINCT ON (id) id, depth FROM family ORDER BY id, depth
+    `);
+    const rows = (result.rows as { id: number; depth: number }[])
+      .sort((a, b) => a.depth - b.depth || a.id - b.id);
+    if (rows.length === 0) {
+      return { rootId: plantId, plants: [], truncated: false };
+    }
+
+    // Always keep the requested plant, even in a very large family
+    const ids = rows.slice(0, limit).map(row => row.id);
+    if (!ids.includes(plantId)) ids.push(plantId);
+
+    const family = await db
+      .select({ ...getTableColumns(plants), ownerUsername: users.username })
+      .from(plants)
+      .innerJoin(users, eq(plants.userId, users.id))
+      .where(inArray(plants.id, ids));
+    const order = new Map(ids.map((id, index) => [id, index]));
+    family.sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+
+    return { rootId: rows[0].id, plants: family, truncated: rows.length > ids.length };
+  }
+
+  async getPlantAncestorIds(plantId: number): Promise<number[]> {
+    const result = await db.execute(sql`
+      WITH RECURSIVE ancestors AS (
+        SELECT parent_plant_id AS id, 1 AS depth FROM plants WHERE id = ${plantId}
+        UNION ALL
+        SELECT p.parent_plant_id, a.depth + 1
+        FROM plants p JOIN ancestors a ON p.id = a.id
+        WHERE a.depth < ${MAX_LINEAGE_DEPTH}
+      )
+      SELECT id FROM ancestors WHERE id IS NOT NULL ORDER BY depth
+    `);
+    return (result.rows as { id: number }[]).map(row => row.id);
+  }
+
+  async setPlantParent(plantId: number, parentPlantId: number | null, method: PropagationMethod | null): Promise<Plant | undefined> {
+    const [plant] = await db
+      .update(plants)
+      .set({
+        parentPlantId,
+        propagationMethod: parentPlantId ? method : null,
+        propagatedAt: parentPlantId ? sql`coalesce(${plants.propagatedAt}, ${plants.createdAt}, NOW())` : null,
+      })
+      .where(eq(plants.id, plantId))
+      .returning();
+    return plant || undefined;
+  }
+
+  async createPlantTransfer(transfer: Pick<PlantTransfer, "plantId" | "fromUserId" | "toUserId" | "message">): Promise<PlantTransfer | undefined> {
+    // The partial unique index allows one pending transfer per plant
+    const [created] = await db
+      .insert(plantTransfers)
+      .values(transfer)
+      .onConflictDoNothing()
+      .returning();
+    return created || undefined;
+  }
+
+  async getPlantTransfer(id: number): Promise<PlantTransfer | undefined> {
+    const [transfer] = await db
+      .select()
+      .from(plantTransfers)
+      .where(eq(plantTransfers.id, id));
+    return transfer || undefined;
+  }
+
+  async getPendingPlantTransfers(userId: number): Promise<PlantTransferWithDetails[]> {
+    return db
+      .select({
+        ...getTableColumns(plantTransfers),
+        plantName: plants.name,
+        scientificName: plants.scientificName,
+        image: plants.image,
+        fromUsername: sql<string>`(SELECT u.username FROM users u WHERE u.id = ${plantTransfers.fromUserId})`,
+        toUsername: sql<string>`(SELECT u.username FROM users u WHERE u.id = ${plantTransfers.toUserId})`,
+      })
+      .from(plantTransfers)
+      .innerJoin(plants, eq(plantTransfers.plantId, plants.id))
+      .where(and(
+        eq(plantTransfers.status, "pending"),
+        or(eq(plantTransfers.fromUserId, userId), eq(plantTransfers.toUserId, userId))
+      ))
+      .orderBy(desc(plantTransfers.createdAt));
+  }
+
+  async closePlantTransfer(id: number, status: Exclude<PlantTransferStatus, "pending" | "accepted">): Promise<PlantTransfer | undefined> {
+    const [transfer] = await db
+      .update(plantTransfers)
+      .set({ status, respondedAt: new Date() })
+      .where(and(eq(plantTransfers.id, id), eq(plantTransfers.status, "pending")))
+      .returning();
+    return transfer || undefined;
+  }
+
+  async acceptPlantTransfer(id: number): Promise<PlantTransfer | undefined> {
+    // The plant moves with its care logs and photos. Its reminders go to the new
+    // owner, and links and sitter access the previous owner set up are ended.
+    return await db.transaction(async (tx) => {
+      try {
+        const [transfer] = await tx
+          .update(plantTransfers)
+          .set({ status: "accepted", respondedAt: new Date() })
+          .where(and(eq(plantTransfers.id, id), eq(plantTransfers.status, "pending")))
+          .returning();
+        if (!transfer) {
+          return undefined;
+        }
+
+        await tx
+          .update(plants)
+          .set({ userId: transfer.toUserId, gardenId: null })
+          .where(eq(plants.id, transfer.plantId));
+        await tx
+          .update(reminders)
+          .set({ userId: transfer.toUserId, assignedTo: null })
+          .where(eq(reminders.plantId, transfer.plantId));
+        await tx
+          .update(photos)
+          .set({ userId: transfer.toUserId })
+          .where(or(
+            eq(photos.plantId, transfer.plantId),
+            inArray(photos.careLogId, tx.select({ id: careLogs.id }).from(careLogs).where(eq(careLogs.plantId, transfer.plantId)))
+          ));
+        await tx
+          .update(sharedPlantLinks)
+          .set({ active: false })
+          .where(eq(sharedPlantLinks.plantId, transfer.plantId));
+        await tx
+          .update(sharedCareLogLinks)
+          .set({ active: false })
+          .where(inArray(
+            sharedCareLogLinks.careLogId,
+            tx.select({ id: careLogs.id }).from(careLogs).where(eq(careLogs.plantId, transfer.plantId))
+          ));
+        await tx
+          .delete(sitterLinkPlants)
+          .where(eq(sitterLinkPlants.plantId, transfer.plantId));
+
+        return transfer;
+      } catch (error) {
+        logger.error('Transaction failed in acceptPlantTransfer:', error instanceof Error ? error : new Error(String(error)));
+        throw error; // Rethrow to trigger transaction rollback
+      }
+    });
+  }
+
   // Care log methods
   async getCareLogs(plantId: number): Promise<CareLog[]> {
     logger.info(`Serving care logs for plant ${plantId}`);
@@ -369,6 +835,11 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(careLogs.timestamp));
   }
   
+  async getCareLog(id: number): Promise<CareLog | undefined> {
+    const [careLog] = await db.select().from(careLogs).where(eq(careLogs.id, id));
+    return careLog || undefined;
+  }
+  
   async getPlantCareHistory(plantId: number, limit?: number): Promise<CareLog[]> {
     logger.info(`Retrieving care history for plant ${plantId}${limit ? ` (limit: ${limit})` : ''}`);
     const query = db
@@ -384,12 +855,25 @@ export class DatabaseStorage implements IStorage {
     return query;
   }
 
-  async createCareLog(careLogData: InsertCareLog): Promise<CareLog> {
+  // Inserts a historical care log as-is, without touching the plant's last watered/fertilized dates
+  async importCareLog(careLogData: InsertCareLog, timestamp: Date): Promise<CareLog> {
+    const [careLog] = await db
+      .insert(careLogs)
+      .values({ ...careLogData, notes: careLogData.notes ?? null, timestamp })
+      .returning();
+    return careLog;
+  }
+
+  // timestamp defaults to now; it is set for care that was logged offline and synced later
+  async createCareLog(careLogData: InsertCareLog, timestamp?: Date): Promise<CareLog> {
     // Ensure all required fields have values
     const careLogDataWithDefaults = {
       ...careLogData,
-      notes: careLogData.notes ?? null
+      notes: careLogData.notes ?? null,
+      ...(timestamp && { timestamp }),
     };
+    // Care synced late can be older than care logged since, so the plant's dates only move forward
+    const careDate = (timestamp ?? new Date()).toISOString().split('T')[0];
     
     // Use a transaction to ensure both operations succeed or fail together
     return await db.transaction(async (tx) => {
@@ -402,18 +886,14 @@ export class DatabaseStorage implements IStorage {
           
         // Update plant's last watered or fertilized date
         if (careLogData.careType === 'water') {
-          // Convert Date to string in ISO format for date columns
-          const lastWateredDate = new Date().toISOString().split('T')[0];
           await tx
             .update(plants)
-            .set({ lastWatered: lastWateredDate })
+            .set({ lastWatered: sql`GREATEST(COALESCE(${plants.lastWatered}, ${careDate}::date), ${careDate}::date)` })
             .where(eq(plants.id, careLogData.plantId));
         } else if (careLogData.careType === 'fertilize') {
-          // Convert Date to string in ISO format for date columns
-          const lastFertilizedDate = new Date().toISOString().split('T')[0];
           await tx
             .update(plants)
-            .set({ lastFertilized: lastFertilizedDate })
+            .set({ lastFertilized: sql`GREATEST(COALESCE(${plants.lastFertilized}, ${careDate}::date), ${careDate}::date)` })
             .where(eq(plants.id, careLogData.plantId));
         }
         
@@ -426,6 +906,14 @@ export class DatabaseStorage implements IStorage {
     });
   }
   
+  async getCareLogByOfflineId(plantId: number, offlineId: string): Promise<CareLog | undefined> {
+    const [careLog] = await db
+      .select()
+      .from(careLogs)
+      .where(and(eq(careLogs.plantId, plantId), eq(careLogs.offlineId, offlineId)));
+    return careLog || undefined;
+  }
+
   async updateCareLog(id: number, data: Partial<InsertCareLog>): Promise<CareLog | undefined> {
     const [updatedCareLog] = await db
       .update(careLogs)
@@ -435,6 +923,29 @@ export class DatabaseStorage implements IStorage {
     
     return updatedCareLog || undefined;
   }
+
+  // Sets top-level metadata keys in one statement, so concurrent writers (e.g.
+  // the background photo analysis) don't overwrite each other's fields
+  async mergeCareLogMetadata(id: number, fields: Partial<Omit<CareLogMetadata, "careType" | "version">>): Promise<CareLog | undefined> {
+    const [updatedCareLog] = await db
+      .update(careLogs)
+      .set({
+        metadata: sql`(CASE WHEN jsonb_typeof(${careLogs.metadata}) = 'object' THEN ${careLogs.metadata}
+          ELSE jsonb_build_object('careType', ${careLogs.careType}::text, 'version', ${CARE_LOG_METADATA_VERSION}::int) END)
+          || ${JSON.stringify(fields)}::jsonb`,
+      })
+      .where(eq(careLogs.id, id))
+      .returning();
+
+    return updatedCareLog || undefined;
+  }
+
+  async setCareLogJournalText(id: number, journalText: string): Promise<void> {
+    await db
+      .update(careLogs)
+      .set({ journalText })
+      .where(eq(careLogs.id, id));
+  }
   
   async getPlantWithCare(id: number): Promise<PlantWithCare | undefined> {
     // This is essentially the same as getPlant but with a more descriptive name
@@ -442,95 +953,44 @@ export class DatabaseStorage implements IStorage {
     return this.getPlant(id);
   }
 
-  // Plant guide methods
-  async getPlantGuides(): Promise<PlantGuide[]> {
-    return db.select().from(plantGuides);
+  // Photo methods
+  async createPhoto(photoData: InsertPhoto): Promise<Photo> {
+    const [photo] = await db
+      .insert(photos)
+      .values(photoData)
+      .returning();
+    return photo;
   }
 
-  async getPlantGuideByType(plantIdentifier: string): Promise<PlantGuide | undefined> {
-    if (!plantIdentifier) return undefined;
-    
-    // First, try to find by scientific name exact match
-    let [guide] = await db
-      .select()
-      .from(plantGuides)
-      .where(eq(plantGuides.scientificName, plantIdentifier));
-    
-    if (guide) return guide;
-    
-    // Next, try to find by category (formerly plant type)
-    [guide] = await db
-      .select()
-      .from(plantGuides)
-      .where(eq(plantGuides.category, plantIdentifier));
-    
-    if (guide) return guide;
-    
-    // If no guide found yet, try to match based on keywords in the identifier
-    const identifierLower = plantIdentifier.toLowerCase();
-    
-    if (identifierLower.includes("monstera") || 
-        identifierLower.includes("philodendron") || 
-        identifierLower.includes("palm")) {
-      [guide] = await db
-        .select()
-        .from(plantGuides)
-        .where(eq(plantGuides.category, "tropical"));
-      if (guide) return guide;
-    }
-    
-    if (identifierLower.includes("cactus") || 
-        identifierLower.includes("succulent") || 
-        identifierLower.includes("aloe") || 
-        identifierLower.includes("echeveria")) {
-      [guide] = await db
-        .select()
-        .from(plantGuides)
-        .where(eq(plantGuides.category, "succulent"));
-      if (guide) return guide;
-    }
-    
-    if (identifierLower.includes("herb") || 
-        identifierLower.includes("mint") || 
-        identifierLower.includes("basil") || 
-        identifierLower.includes("thyme") || 
-        identifierLower.includes("rosemary") || 
-        identifierLower.includes("sage")) {
-      [guide] = await db
-        .select()
-        .from(plantGuides)
-        .where(eq(plantGuides.category, "herb"));
-      if (guide) return guide;
-    }
-    
-    if (identifierLower.includes("flower") || 
-        identifierLower.includes("rosa") || 
-        identifierLower.includes("tulip") || 
-        identifierLower.includes("lily") || 
-        identifierLower.includes("orchid")) {
-      [guide] = await db
-        .select()
-        .from(plantGuides)
-        .where(eq(plantGuides.category, "flowering"));
-      if (guide) return guide;
-    }
-    
-    if (identifierLower.includes("fern") || 
-        identifierLower.includes("nephrolepis") || 
-        identifierLower.includes("pteridophyta")) {
-      [guide] = await db
-        .select()
-        .from(plantGuides)
-        .where(eq(plantGuides.category, "fern"));
-      if (guide) return guide;
-    }
-    
-    // Default fallback to the "other" plant guide
-    [guide] = await db
+  async getPhoto(id: number): Promise<Photo | undefined> {
+    const [photo] = await db.select().from(photos).where(eq(photos.id, id));
+    return photo || undefined;
+  }
+
+  async getPhotoByUrl(url: string): Promise<Photo | undefined> {
+    const [photo] = await db.select().from(photos).where(eq(photos.url, url));
+    return photo || undefined;
+  }
+
+  async getPhotosByPlant(plantId: number): Promise<Photo[]> {
+    return db
       .select()
-      .from(plantGuides)
-      .where(eq(plantGuides.category, "other"));
-    return guide;
+      .from(photos)
+      .where(eq(photos.plantId, plantId))
+      .orderBy(desc(photos.createdAt));
+  }
+
+  async deletePhoto(id: number): Promise<boolean> {
+    const [deletedPhoto] = await db
+      .delete(photos)
+      .where(eq(photos.id, id))
+      .returning();
+    return !!deletedPhoto;
+  }
+
+  // Plant guide methods
+  async getPlantGuides(): Promise<PlantGuide[]> {
+    return db.select().from(plantGuides);
   }
 
   async createPlantGuide(guideData: InsertPlantGuide): Promise<PlantGuide> {
@@ -541,6 +1001,229 @@ export class DatabaseStorage implements IStorage {
     return guide;
   }
 
+  // Species catalogue methods
+  async countSpecies(): Promise<number> {
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` }).from(species);
+    return count;
+  }
+
+  async getSpecies(id: number): Promise<Species | undefined> {
+    const [entry] = await db.select().from(species).where(eq(species.id, id));
+    return entry || undefined;
+  }
+
+  async getAllSpecies(): Promise<Species[]> {
+    return db.select().from(species).orderBy(asc(species.scientificName));
+  }
+
+  async searchSpecies(options: { search?: string; rank?: Species["rank"]; limit: number; offset: number }): Promise<{ species: Species[]; total: number }> {
+    const conditions = [];
+    if (options.rank) {
+      conditions.push(eq(species.rank, options.rank));
+    }
+    if (options.search) {
+      const pattern = `%${options.search.replace(/[%_\\]/g, '\\$&')}%`;
+      conditions.push(sql`(
+        ${species.scientificName} ILIKE ${pattern}
+        OR EXISTS (SELECT 1 FROM unnest(${species.commonNames} || ${species.synonyms}) AS name WHERE name ILIKE ${pattern})
+      )`);
+    }
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [rows, [{ total }]] = await Promise.all([
+      db.select().from(species).where(where)
+        .orderBy(asc(species.scientificName))
+        .limit(options.limit)
+        .offset(options.offset),
+      db.select({ total: sql<number>`count(*)::int` }).from(species).where(where),
+    ]);
+    return { species: rows, total };
+  }
+
+  async findSpeciesByName(name: string): Promise<{ species: Species; matchType: "exact" | "synonym" | "common_name" } | undefined> {
+    const normalized = name.trim().toLowerCase();
+    if (!normalized) return undefined;
+
+    const scientificMatch = sql`lower(${species.scientificName}) = ${normalized}`;
+    const synonymMatch = sql`EXISTS (SELECT 1 FROM unnest(${species.synonyms}) AS name WHERE lower(name) = ${normalized})`;
+    const commonNameMatch = sql`EXISTS (SELECT 1 FROM unnest(${species.commonNames}) AS name WHERE lower(name) = ${normalized})`;
+
+    // Prefer scientific names over synonyms over common names, and species over broader groups
+    const [entry] = await db
+      .select()
+      .from(species)
+      .where(or(scientificMatch, synonymMatch, commonNameMatch))
+      .orderBy(
+        sql`CASE WHEN ${scientificMatch} THEN 0 WHEN ${synonymMatch} THEN 1 ELSE 2 END`,
+        sql`CASE ${species.rank} WHEN 'species' THEN 0 WHEN 'genus' THEN 1 ELSE 2 END`
+      )
+      .limit(1);
+    if (!entry) return undefined;
+
+    const matchType = entry.scientificName.toLowerCase() === normalized
+      ? "exact"
+      : entry.synonyms.some(synonym => synonym.toLowerCase() === normalized) ? "synonym" : "common_name";
+    return { species: entry, matchType };
+  }
+
+  async findSpeciesBySimilarName(name: string, minSimilarity: number): Promise<Species | undefined> {
+    const normalized = name.trim().toLowerCase();
+    if (!normalized) return undefined;
+
+    // Best trigram similarity (pg_trgm) across every name the species is known by
+    const score = sql<number>`(
+      SELECT max(similarity(lower(name), ${normalized}))
+      FROM unnest(ARRAY[${species.scientificName}] || ${species.synonyms} || ${species.commonNames}) AS name
+    )`;
+    const [entry] = await db
+      .select({ ...getTableColumns(species), score })
+      .from(species)
+      .where(sql`${score} >= ${minSimilarity}`)
+      .orderBy(desc(score))
+      .limit(1);
+    if (!entry) return undefined;
+
+    const { score: _score, ...match } = entry;
+    return match;
+  }
+
+  async getTaxon(rank: Species["rank"], name: string): Promise<Species | undefined> {
+    const [entry] = await db
+      .select()
+      .from(species)
+      .where(and(eq(species.rank, rank), sql`lower(${species.scientificName}) = ${name.trim().toLowerCase()}`));
+    return entry || undefined;
+  }
+
+  async getFamilyOfGenus(genus: string): Promise<string | undefined> {
+    const [entry] = await db
+      .select({ family: species.family })
+      .from(species)
+      .where(and(sql`lower(${species.genus}) = ${genus.trim().toLowerCase()}`, sql`${species.family} IS NOT NULL`))
+      .limit(1);
+    return entry?.family ?? undefined;
+  }
+
+  async upsertSpecies(entries: InsertSpecies[]): Promise<{ created: number; updated: number }> {
+    let created = 0;
+    for (const entry of entries) {
+      const [row] = await db
+        .insert(species)
+        .values(entry)
+        .onConflictDoUpdate({
+          target: species.scientificName,
+          set: { ...entry, updatedAt: new Date() },
+        })
+        // xmax is 0 only for freshly inserted rows
+        .returning({ inserted: sql<boolean>`(xmax = 0)` });
+      if (row.inserted) created++;
+    }
+    return { created, updated: entries.length - created };
+  }
+
+  // Full-text search
+  async searchContent(
+    userId: number,
+    query: string,
+    options: { types: SearchResultType[]; limit: number; offset: number; fuzzy: boolean }
+  ): Promise<{ rows: (Omit<SearchResult, "highlight"> & { headline: string })[]; total: number }> {
+    // Full-text match, or (with pg_trgm) a name that is spelled similarly
+    const matches = (document: string, name?: string) => options.fuzzy && name
+      ? sql`(${sql.raw(document)} @@ q.tsq OR ${query} <% ${sql.raw(name)})`
+      : sql`${sql.raw(document)} @@ q.tsq`;
+    const score = (document: string, name?: string) => options.fuzzy && name
+      ? sql`greatest(ts_rank(${sql.raw(document)}, q.tsq), word_similarity(${query}, ${sql.raw(name)}) * 0.5)::float8`
+      : sql`ts_rank(${sql.raw(document)}, q.tsq)::float8`;
+
+    // Personal plants plus plants in the user's shared gardens, as in getPlants
+    const accessiblePlant = sql`(
+      (p.user_id = ${userId} AND p.garden_id IS NULL)
+      OR p.garden_id IN (SELECT garden_id FROM garden_members WHERE user_id = ${userId})
+    )`;
+
+    const branches = {
+      plant: sql`
+        SELECT 'plant' AS type, p.id, p.name AS title, p.scientific_name AS subtitle,
+          concat_ws(' · ', p.location, p.notes) AS body, p.image, p.id AS plant_id, NULL::text AS username,
+          ${score(searchDocuments.plant('p'), searchNames.plant('p'))} AS score
+        FROM q, plants p
+        WHERE ${accessiblePlant} AND ${matches(searchDocuments.plant('p'), searchNames.plant('p'))}`,
+      care_log: sql`
+        SELECT 'care_log', cl.id, p.name, cl.care_type::text, concat_ws(' ', cl.notes, cl.journal_text),
+          cl.photo, p.id, NULL::text, ${score(searchDocuments.careLog('cl'))}
+        FROM q, care_logs cl JOIN plants p ON p.id = cl.plant_id
+        WHERE ${accessiblePlant} AND ${matches(searchDocuments.careLog('cl'))}`,
+      tip: sql`
+        SELECT 'tip', t.id, t.title, t.plant_type, t.content, t.image, NULL::int, NULL::text,
+          ${score(searchDocuments.tip('t'), searchNames.tip('t'))}
+        FROM q, community_tips t
+        WHERE t.status = 'active' AND ${matches(searchDocuments.tip('t'), searchNames.tip('t'))}`,
+      guide: sql`
+        SELECT 'guide', s.id, coalesce(s.common_names[1], s.scientific_name), s.scientific_name, s.description,
+          NULL::text, NULL::int, NULL::text, ${score(searchDocuments.guide('s'), searchNames.guide('s'))}
+        FROM q, species s
+        WHERE ${matches(searchDocuments.guide('s'), searchNames.guide('s'))}`,
+      // Other users, if their profile is public or the user already follows them; never matched on email
+      profile: sql`
+        SELECT 'profile', u.id, coalesce(u.display_name, u.username), u.username, u.bio, u.avatar_url,
+          NULL::int, u.username, ${score(searchDocuments.profile('u'), searchNames.profile('u'))}
+        FROM q, users u LEFT JOIN profile_settings ps ON ps.user_id = u.id
+        WHERE u.id <> ${userId}
+          AND (
+            coalesce(ps.is_profile_public, false)
+            OR EXISTS (SELECT 1 FROM user_follows f WHERE f.follower_id = ${userId} AND f.followed_id = u.id)
+          )
+          AND ${matches(searchDocuments.profile('u'), searchNames.profile('u'))}`,
+    };
+    const hits = sql.join(options.types.map(type => branches[type]), sql` UNION ALL `);
+
+    const result = await db.execute(sql`
+      WITH q AS (SELECT websearch_to_tsquery('english', ${query}) AS tsq),
+      hits AS (${hits}),
+      page AS (
+        SELECT *, count(*) OVER () AS total
+        FROM hits
+        ORDER BY score DESC, type, id
+        LIMIT ${options.limit} OFFSET ${options.offset}
+      )
+      -- Snippets are only built for the rows on this page
+      SELECT page.type, page.id, page.title, page.subtitle, page.image, page.plant_id, page.username,
+        page.score, page.total::int AS total,
+        ts_headline('english', coalesce(page.body, ''), q.tsq, ${HEADLINE_OPTIONS}) AS headline
+      FROM page, q
+      ORDER BY page.score DESC, page.type, page.id
+    `);
+    const rows = result.rows as {
+      type: SearchResultType; id: number; title: string; subtitle: string | null; image: string | null;
+      plant_id: number | null; username: string | null; score: number; total: number; headline: string;
+    }[];
+
+    let total = rows[0]?.total ?? 0;
+    if (rows.length === 0 && options.offset > 0) {
+      // Past the last page, so the window count above never ran
+      const counted = await db.execute(sql`
+        WITH q AS (SELECT websearch_to_tsquery('english', ${query}) AS tsq)
+        SELECT count(*)::int AS total FROM (${hits}) AS hits
+      `);
+      total = (counted.rows[0] as { total: number }).total;
+    }
+
+    return {
+      rows: rows.map(row => ({
+        type: row.type,
+        id: row.id,
+        title: row.title,
+        subtitle: row.subtitle,
+        image: row.image,
+        plantId: row.plant_id,
+        username: row.username,
+        score: row.score,
+        headline: row.headline,
+      })),
+      total,
+    };
+  }
+
   // Care summary
   async getPlantsNeedingCare(userId: number): Promise<{
     needsWater: PlantWithCare[];
@@ -595,27 +1278,23 @@ export class DatabaseStorage implements IStorage {
       }
     }
     
-    // Get guide information if available, preferring scientific name when available
-    let guide: PlantGuide | undefined;
+    // Get care guidance from the species catalogue if the plant can be matched
+    const guide = await findSpeciesGuideForPlant(plant);
 
-    if (plant.scientificName) {
-      guide = await this.getPlantGuideByType(plant.scientificName);
-    }
-    
-    // Fall back to plant type if no scientific name or no guide found by scientific name
-    if (!guide && plant.type) {
-      guide = await this.getPlantGuideByType(plant.type);
-    }
-    
     return { ...plant, nextWatering, nextFertilizing, guide };
   }
 
   // Reminder methods
+  async getReminder(id: number): Promise<Reminder | undefined> {
+    const [reminder] = await db.select().from(reminders).where(eq(reminders.id, id));
+    return reminder || undefined;
+  }
+
   async getReminders(userId: number): Promise<Reminder[]> {
     return db
       .select()
       .from(reminders)
-      .where(eq(reminders.userId, userId))
+      .where(or(eq(reminders.userId, userId), eq(reminders.assignedTo, userId)))
       .orderBy(asc(reminders.dueDate));
   }
 
@@ -641,7 +1320,7 @@ export class DatabaseStorage implements IStorage {
       .from(reminders)
       .where(
         and(
-          eq(reminders.userId, userId),
+          or(eq(reminders.userId, userId), eq(reminders.assignedTo, userId)),
           and(
             eq(reminders.status, "pending"),
             sql`${reminders.dueDate} >= ${todayStr} AND ${reminders.dueDate} <= ${futureDateStr}`
@@ -672,6 +1351,9 @@ export class DatabaseStorage implements IStorage {
     if (dbData.dueDate && typeof dbData.dueDate === 'string') {
       dbData.dueDate = new Date(dbData.dueDate) as any; // Using type assertion to bypass type check
     }
+    if (dbData.snoozedUntil && typeof dbData.snoozedUntil === 'string') {
+      dbData.snoozedUntil = new Date(dbData.snoozedUntil) as any;
+    }
     
     const [updatedReminder] = await db
       .update(reminders)
@@ -707,6 +1389,46 @@ export class DatabaseStorage implements IStorage {
     return updatedReminder || undefined;
   }
 
+  async closeReminder(
+    id: number,
+    status: 'completed' | 'dismissed',
+    nextOccurrence: InsertReminder | null
+  ): Promise<{ reminder: Reminder; next: Reminder | null } | undefined> {
+    // Use a transaction so a recurring reminder is never closed without its next occurrence
+    return await db.transaction(async (tx) => {
+      try {
+        const [reminder] = await tx
+          .update(reminders)
+          .set({ status, completedAt: new Date() })
+          .where(and(eq(reminders.id, id), eq(reminders.status, "pending")))
+          .returning();
+
+        // Already closed (or missing) - don't generate a duplicate occurrence
+        if (!reminder) {
+          return undefined;
+        }
+
+        let next: Reminder | null = null;
+        if (nextOccurrence) {
+          [next] = await tx
+            .insert(reminders)
+            .values({
+              ...nextOccurrence,
+              dueDate: new Date(nextOccurrence.dueDate as string),
+              snoozedUntil: null,
+              previousReminderId: reminder.id,
+            } as any) // Using type assertion to bypass type check
+            .returning();
+        }
+
+        return { reminder, next };
+      } catch (error) {
+        logger.error('Transaction failed in closeReminder:', error instanceof Error ? error : new Error(String(error)));
+        throw error; // Rethrow to trigger transaction rollback
+      }
+    });
+  }
+
   async getOverdueReminders(userId: number): Promise<Reminder[]> {
     const today = new Date();
     const todayStr = today.toISOString();
@@ -716,7 +1438,7 @@ export class DatabaseStorage implements IStorage {
       .from(reminders)
       .where(
         and(
-          eq(reminders.userId, userId),
+          or(eq(reminders.userId, userId), eq(reminders.assignedTo, userId)),
           and(
             eq(reminders.status, "pending"),
             // Due date is before today
@@ -727,6 +1449,48 @@ export class DatabaseStorage implements IStorage {
       .orderBy(asc(reminders.dueDate));
   }
   
+  async getDueUnnotifiedReminders(dueBefore: Date): Promise<Reminder[]> {
+    // Only reminders whose recipient (the assignee, else the creator) has notifications turned on
+    const rows = await db
+      .select({ reminder: reminders })
+      .from(reminders)
+      .innerJoin(users, eq(users.id, sql`coalesce(${reminders.assignedTo}, ${reminders.userId})`))
+      .where(
+        and(
+          eq(reminders.status, "pending"),
+          eq(reminders.notified, false),
+          lte(reminders.dueDate, dueBefore),
+          eq(users.notificationsEnabled, true)
+        )
+      )
+      .orderBy(asc(reminders.userId), asc(reminders.dueDate));
+    return rows.map(row => row.reminder);
+  }
+
+  async getRemindersDueBetween(after: Date, until: Date): Promise<(Reminder & { plantName: string })[]> {
+    const rows = await db
+      .select({ reminder: reminders, plantName: plants.name })
+      .from(reminders)
+      .innerJoin(plants, eq(plants.id, reminders.plantId))
+      .where(
+        and(
+          eq(reminders.status, "pending"),
+          gt(reminders.dueDate, after),
+          lte(reminders.dueDate, until)
+        )
+      )
+      .orderBy(asc(reminders.dueDate));
+    return rows.map(row => ({ ...row.reminder, plantName: row.plantName }));
+  }
+
+  async markRemindersNotified(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db
+      .update(reminders)
+      .set({ notified: true })
+      .where(inArray(reminders.id, ids));
+  }
+  
   // Community Tips methods
   async getCommunityTips(
     filters?: {
@@ -970,11 +1734,7 @@ export class DatabaseStorage implements IStorage {
     return !!tip;
   }
   
-  async updateTipStatus(id: number, status: string): Promise<boolean> {
-    if (!['active', 'reported', 'removed'].includes(status)) {
-      throw new Error("Invalid status value");
-    }
-    
+  async updateTipStatus(id: number, status: TipStatus): Promise<boolean> {
     const [tip] = await db
       .update(communityTips)
       .set({ status })
@@ -984,27 +1744,252 @@ export class DatabaseStorage implements IStorage {
     return !!tip;
   }
 
-  // Shared plant links methods
-  async createSharedPlantLink(plantId: number, userId: number): Promise<SharedPlantLink> {
-    // Generate a random unique ID for sharing
-    const shareId = crypto.randomUUID();
-    
-    const [sharedLink] = await db
-      .insert(sharedPlantLinks)
-      .values({
-        plantId,
-        userId,
-        shareId,
-        active: true
+  // Moderation methods
+  async createTipReport(
+    tipId: number,
+    reporterId: number,
+    reason: TipReportReason,
+    details?: string
+  ): Promise<TipReport | undefined> {
+    // One report per member per tip; a report that was already dealt with can be
+    // reopened, but an open one is left alone (returns undefined)
+    const [report] = await db
+      .insert(tipReports)
+      .values({ tipId, reporterId, reason, details: details || null })
+      .onConflictDoUpdate({
+        target: [tipReports.tipId, tipReports.reporterId],
+        set: { reason, details: details || null, createdAt: new Date(), resolvedAt: null, resolvedBy: null },
+        where: sql`${tipReports.resolvedAt} IS NOT NULL`,
       })
       .returning();
-    
-    return sharedLink;
+    return report || undefined;
   }
 
-  async getSharedPlantLink(shareId: string): Promise<SharedPlantLink | undefined> {
-    const [sharedLink] = await db
-      .select()
+  async countOpenTipReports(tipId: number): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(tipReports)
+      .where(and(eq(tipReports.tipId, tipId), isNull(tipReports.resolvedAt)));
+    return row?.count ?? 0;
+  }
+
+  async resolveTipReports(tipId: number, moderatorId: number): Promise<number> {
+    const resolved = await db
+      .update(tipReports)
+      .set({ resolvedAt: new Date(), resolvedBy: moderatorId })
+      .where(and(eq(tipReports.tipId, tipId), isNull(tipReports.resolvedAt)))
+      .returning({ id: tipReports.id });
+    return resolved.length;
+  }
+
+  async getTipReports(tipId: number): Promise<TipReportWithReporter[]> {
+    return db
+      .select({ ...getTableColumns(tipReports), reporterUsername: users.username })
+      .from(tipReports)
+      .innerJoin(users, eq(tipReports.reporterId, users.id))
+      .where(eq(tipReports.tipId, tipId))
+      .orderBy(desc(tipReports.createdAt));
+  }
+
+  async getModerationQueue(options: { limit: number; offset: number }): Promise<ModerationQueueItem[]> {
+    // Reasons are cast to text so the driver hands back a real array, not "{spam,other}"
+    const openReports = db
+      .select({
+        tipId: tipReports.tipId,
+        openReports: sql<number>`count(*)::int`.as("open_reports"),
+        reasons: sql<TipReportReason[]>`array_agg(DISTINCT ${tipReports.reason}::text)`.as("reasons"),
+        lastReportedAt: sql<Date>`max(${tipReports.createdAt})`.as("last_reported_at"),
+      })
+      .from(tipReports)
+      .where(isNull(tipReports.resolvedAt))
+      .groupBy(tipReports.tipId)
+      .as("open_reports");
+
+    // Tips with open reports, plus hidden tips whose reports were dismissed
+    const rows = await db
+      .select({
+        tip: {
+          ...getTableColumns(communityTips),
+          username: users.username,
+          displayName: users.displayName,
+          avatarUrl: users.avatarUrl,
+        },
+        openReports: openReports.openReports,
+        reasons: openReports.reasons,
+        lastReportedAt: openReports.lastReportedAt,
+      })
+      .from(communityTips)
+      .innerJoin(users, eq(communityTips.userId, users.id))
+      .leftJoin(openReports, eq(openReports.tipId, communityTips.id))
+      .where(or(sql`${openReports.tipId} IS NOT NULL`, eq(communityTips.status, "reported")))
+      .orderBy(sql`${openReports.openReports} DESC NULLS LAST`, sql`${openReports.lastReportedAt} DESC NULLS LAST`, desc(communityTips.id))
+      .limit(options.limit)
+      .offset(options.offset);
+
+    return rows.map(row => ({
+      tip: row.tip,
+      openReports: row.openReports ?? 0,
+      reasons: row.reasons ?? [],
+      lastReportedAt: row.lastReportedAt ?? null,
+    }));
+  }
+
+  async logModerationAction(entry: {
+    moderatorId: number | null;
+    action: ModerationActionType;
+    targetType: "tip" | "comment" | "user";
+    targetId: number;
+    note?: string | null;
+  }): Promise<ModerationAction> {
+    const [logged] = await db
+      .insert(moderationActions)
+      .values({ ...entry, note: entry.note || null })
+      .returning();
+    return logged;
+  }
+
+  async getModerationLog(options: { limit: number; offset: number }): Promise<ModerationActionWithModerator[]> {
+    return db
+      .select({ ...getTableColumns(moderationActions), moderatorUsername: users.username })
+      .from(moderationActions)
+      .leftJoin(users, eq(moderationActions.moderatorId, users.id))
+      .orderBy(desc(moderationActions.createdAt), desc(moderationActions.id))
+      .limit(options.limit)
+      .offset(options.offset);
+  }
+
+  async updateUserRole(userId: number, role: UserRole): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ role })
+      .where(eq(users.id, userId))
+      .returning();
+    return user || undefined;
+  }
+
+  async getStaffUsers(): Promise<StaffMember[]> {
+    return db
+      .select({ id: users.id, username: users.username, displayName: users.displayName, role: users.role })
+      .from(users)
+      .where(inArray(users.role, ["admin", "moderator"]))
+      .orderBy(asc(users.role), asc(users.username));
+  }
+
+  // Comment methods
+  async getComment(id: number): Promise<Comment | undefined> {
+    const [comment] = await db.select().from(comments).where(eq(comments.id, id));
+    return comment || undefined;
+  }
+
+  async getComments(targetType: CommentTarget, targetId: number): Promise<(Comment & { author: CommentAuthor })[]> {
+    return db
+      .select({
+        ...getTableColumns(comments),
+        author: {
+          id: users.id,
+          username: users.username,
+          displayName: users.displayName,
+          avatarUrl: users.avatarUrl,
+        },
+      })
+      .from(comments)
+      .innerJoin(users, eq(comments.userId, users.id))
+      .where(and(eq(comments.targetType, targetType), eq(comments.targetId, targetId)))
+      .orderBy(asc(comments.createdAt), asc(comments.id));
+  }
+
+  async createComment(comment: Pick<Comment, "targetType" | "targetId" | "userId" | "parentId" | "content">): Promise<Comment> {
+    const [created] = await db.insert(comments).values(comment).returning();
+    return created;
+  }
+
+  async updateCommentContent(id: number, content: string): Promise<Comment | undefined> {
+    const [updated] = await db
+      .update(comments)
+      .set({ content, editedAt: new Date() })
+      .where(eq(comments.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async setCommentStatus(id: number, status: TipStatus): Promise<Comment | undefined> {
+    const [updated] = await db
+      .update(comments)
+      .set({ status })
+      .where(eq(comments.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getUsersByUsernames(usernames: string[]): Promise<User[]> {
+    if (usernames.length === 0) return [];
+    // Usernames are matched case-insensitively, as people type them in mentions
+    return db
+      .select()
+      .from(users)
+      .where(inArray(sql`lower(${users.username})`, usernames.map(name => name.toLowerCase())));
+  }
+
+  // In-app notification methods
+  async createNotifications(
+    entries: Pick<Notification, "userId" | "type" | "actorId" | "commentId" | "message" | "url">[]
+  ): Promise<Notification[]> {
+    if (entries.length === 0) return [];
+    return db.insert(notifications).values(entries).returning();
+  }
+
+  async getNotifications(userId: number, limit: number): Promise<Notification[]> {
+    return db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .limit(limit);
+  }
+
+  async countUnreadNotifications(userId: number): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return row?.count ?? 0;
+  }
+
+  async markNotificationsRead(userId: number, ids?: number[]): Promise<number> {
+    const conditions = [eq(notifications.userId, userId), isNull(notifications.readAt)];
+    if (ids) {
+      if (ids.length === 0) return 0;
+      conditions.push(inArray(notifications.id, ids));
+    }
+    const updated = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(...conditions))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+
+  // Shared plant links methods
+  async createSharedPlantLink(plantId: number, userId: number): Promise<SharedPlantLink> {
+    // Generate a random unique ID for sharing
+    const shareId = crypto.randomUUID();
+    
+    const [sharedLink] = await db
+      .insert(sharedPlantLinks)
+      .values({
+        plantId,
+        userId,
+        shareId,
+        active: true
+      })
+      .returning();
+    
+    return sharedLink;
+  }
+
+  async getSharedPlantLink(shareId: string): Promise<SharedPlantLink | undefined> {
+    const [sharedLink] = await db
+      .select()
       .from(sharedPlantLinks)
       .where(eq(sharedPlantLinks.shareId, shareId));
     
@@ -1262,6 +2247,138 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  // Discover rankings
+  async refreshUserRankings(windowDays: number): Promise<number> {
+    // One aggregate pass over follows, activity and plants, upserted for every user
+    const result = await db.execute(sql`
+      INSERT INTO user_rankings (user_id, followers, follower_growth, recent_activity, plants_count, trending_score, refreshed_at)
+      SELECT u.id, coalesce(f.followers, 0), coalesce(f.growth, 0), coalesce(a.activity, 0), coalesce(p.plants, 0),
+        3 * coalesce(f.growth, 0) + coalesce(a.activity, 0) + ln(1 + coalesce(f.followers, 0)),
+        NOW()
+      FROM users u
+      LEFT JOIN (
+        SELECT followed_id,
+          count(*) AS followers,
+          count(*) FILTER (WHERE created_at >= NOW() - make_interval(days => ${windowDays})) AS growth
+        FROM user_follows
+        GROUP BY followed_id
+      ) f ON f.followed_id = u.id
+      LEFT JOIN (
+        SELECT user_id, count(*) AS activity
+        FROM activity_feed
+        WHERE is_public AND created_at >= NOW() - make_interval(days => ${windowDays})
+        GROUP BY user_id
+      ) a ON a.user_id = u.id
+      LEFT JOIN (
+        SELECT user_id, count(*) AS plants FROM plants GROUP BY user_id
+      ) p ON p.user_id = u.id
+      ON CONFLICT (user_id) DO UPDATE SET
+        followers = EXCLUDED.followers,
+        follower_growth = EXCLUDED.follower_growth,
+        recent_activity = EXCLUDED.recent_activity,
+        plants_count = EXCLUDED.plants_count,
+        trending_score = EXCLUDED.trending_score,
+        refreshed_at = EXCLUDED.refreshed_at
+    `);
+    return result.rowCount ?? 0;
+  }
+
+  async getTrendingUserIds(viewerId: number, options: { limit: number; after?: RankingCursor }): Promise<RankedUser[]> {
+    const after = options.after
+      ? sql`AND (r.trending_score, r.user_id) < (${options.after.score}::float8, ${options.after.id}::int)`
+      : sql``;
+    const result = await db.execute(sql`
+      SELECT r.user_id, r.trending_score AS score
+      FROM user_rankings r
+      JOIN profile_settings ps ON ps.user_id = r.user_id AND ps.is_profile_public
+      WHERE r.user_id <> ${viewerId} ${after}
+      ORDER BY r.trending_score DESC, r.user_id DESC
+      LIMIT ${options.limit}
+    `);
+    return (result.rows as { user_id: number; score: number }[])
+      .map(row => ({ userId: row.user_id, score: Number(row.score) }));
+  }
+
+  async getSuggestedUserIds(viewerId: number, options: { limit: number; after?: RankingCursor }): Promise<SuggestedUser[]> {
+    const after = options.after
+      ? sql`WHERE (score, id) < (${options.after.score}::float8, ${options.after.id}::int)`
+      : sql``;
+    // Public profiles the viewer doesn't follow yet, scored by mutual follows,
+    // species they both grow and a shared weather location, with trending as a tiebreaker
+    const result = await db.execute(sql`
+      WITH me AS (
+        SELECT nullif(lower(trim(weather_location)), '') AS location FROM users WHERE id = ${viewerId}
+      ),
+      my_species AS (
+        SELECT DISTINCT lower(scientific_name) AS name
+        FROM plants
+        WHERE user_id = ${viewerId} AND scientific_name IS NOT NULL
+      ),
+      candidates AS (
+        SELECT u.id,
+          (
+            SELECT count(*) FROM user_follows mine
+            JOIN user_follows theirs ON theirs.follower_id = mine.followed_id
+            WHERE mine.follower_id = ${viewerId} AND theirs.followed_id = u.id
+          )::int AS mutual_follows,
+          shared.species_count::int AS shared_species,
+          shared.example AS example_species,
+          coalesce(lower(trim(u.weather_location)) = me.location, false) AS same_location,
+          coalesce(r.trending_score, 0) AS trending_score
+        FROM users u
+        CROSS JOIN me
+        JOIN profile_settings ps ON ps.user_id = u.id AND ps.is_profile_public
+        LEFT JOIN user_rankings r ON r.user_id = u.id
+        CROSS JOIN LATERAL (
+          SELECT count(DISTINCT lower(p.scientific_name)) AS species_count, min(p.scientific_name) AS example
+          FROM plants p
+          WHERE p.user_id = u.id AND lower(p.scientific_name) IN (SELECT name FROM my_species)
+        ) shared
+        WHERE u.id <> ${viewerId}
+          AND NOT EXISTS (SELECT 1 FROM user_follows f WHERE f.follower_id = ${viewerId} AND f.followed_id = u.id)
+      ),
+      scored AS (
+        SELECT *,
+          (3 * mutual_follows + 2 * shared_species + CASE WHEN same_location THEN 2 ELSE 0 END + 0.1 * trending_score)::float8 AS score
+        FROM candidates
+      )
+      SELECT * FROM scored
+      ${after}
+      ORDER BY score DESC, id DESC
+      LIMIT ${options.limit}
+    `);
+    return (result.rows as {
+      id: number; score: number; mutual_follows: number; shared_species: number;
+      example_species: string | null; same_location: boolean;
+    }[]).map(row => ({
+      userId: row.id,
+      score: Number(row.score),
+      mutualFollows: row.mutual_follows,
+      sharedSpecies: row.shared_species,
+      exampleSpecies: row.example_species,
+      sameLocation: row.same_location,
+    }));
+  }
+
+  async getDiscoverUsers(viewerId: number, userIds: number[]): Promise<DiscoverUser[]> {
+    if (userIds.length === 0) return [];
+    const { password, email, ...publicUserColumns } = getTableColumns(users);
+    const rows = await db
+      .select({
+        user: publicUserColumns,
+        followers: sql<number>`(SELECT count(*) FROM user_follows WHERE followed_id = ${users.id})::int`,
+        following: sql<number>`(SELECT count(*) FROM user_follows WHERE follower_id = ${users.id})::int`,
+        plantsCount: sql<number>`(SELECT count(*) FROM plants WHERE user_id = ${users.id})::int`,
+        isFollowing: sql<boolean>`EXISTS (SELECT 1 FROM user_follows WHERE follower_id = ${viewerId} AND followed_id = ${users.id})`,
+      })
+      .from(users)
+      .where(inArray(users.id, userIds));
+
+    // Keep the ranking order
+    const byId = new Map(rows.map(row => [row.user.id, row]));
+    return userIds.map(id => byId.get(id)).filter((row): row is DiscoverUser => row !== undefined);
+  }
+
   // Activity Feed methods
   async createActivity(activity: InsertActivityFeed): Promise<ActivityFeed> {
     try {
@@ -1378,6 +2495,1016 @@ export class DatabaseStorage implements IStorage {
     return updatedSettings;
   }
 
+  // Push subscription methods
+  async getPushSubscriptions(userId: number): Promise<PushSubscription[]> {
+    return db
+      .select()
+      .from(pushSubscriptions)
+      .where(eq(pushSubscriptions.userId, userId));
+  }
+
+  async savePushSubscription(subscription: InsertPushSubscription): Promise<PushSubscription> {
+    // A browser re-subscribing keeps the same endpoint, so update it in place
+    const [saved] = await db
+      .insert(pushSubscriptions)
+      .values(subscription)
+      .onConflictDoUpdate({
+        target: pushSubscriptions.endpoint,
+        set: {
+          userId: subscription.userId,
+          p256dh: subscription.p256dh,
+          auth: subscription.auth,
+          userAgent: subscription.userAgent,
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deletePushSubscription(endpoint: string): Promise<boolean> {
+    const [deleted] = await db
+      .delete(pushSubscriptions)
+      .where(eq(pushSubscriptions.endpoint, endpoint))
+      .returning();
+    return !!deleted;
+  }
+
+  // Calendar feed methods
+  async getCalendarFeed(userId: number): Promise<CalendarFeed | undefined> {
+    const [feed] = await db
+      .select()
+      .from(calendarFeeds)
+      .where(eq(calendarFeeds.userId, userId));
+    return feed || undefined;
+  }
+
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await db
+      .select()
+      .from(calendarFeeds)
+      .where(eq(calendarFeeds.token, token));
+    return feed || undefined;
+  }
+
+  async rotateCalendarFeed(userId: number): Promise<CalendarFeed> {
+    // A fresh token invalidates any previously shared feed URL
+    const token = randomBytes(24).toString("base64url");
+    const [feed] = await db
+      .insert(calendarFeeds)
+      .values({ userId, token })
+      .onConflictDoUpdate({
+        target: calendarFeeds.userId,
+        set: { token, createdAt: new Date(), lastAccessed: null },
+      })
+      .returning();
+    return feed;
+  }
+
+  async deleteCalendarFeed(userId: number): Promise<boolean> {
+    const [deleted] = await db
+      .delete(calendarFeeds)
+      .where(eq(calendarFeeds.userId, userId))
+      .returning();
+    return !!deleted;
+  }
+
+  async updateCalendarFeedLastAccessed(id: number): Promise<void> {
+    await db
+      .update(calendarFeeds)
+      .set({ lastAccessed: new Date() })
+      .where(eq(calendarFeeds.id, id));
+  }
+
+  // Garden (household) methods
+  async createGarden(name: string, userId: number): Promise<Garden> {
+    // The creator becomes the garden's first owner
+    return await db.transaction(async (tx) => {
+      try {
+        const [garden] = await tx
+          .insert(gardens)
+          .values({ name, createdBy: userId })
+          .returning();
+        await tx
+          .insert(gardenMembers)
+          .values({ gardenId: garden.id, userId, role: "owner" });
+        return garden;
+      } catch (error) {
+        logger.error('Transaction failed in createGarden:', error instanceof Error ? error : new Error(String(error)));
+        throw error; // Rethrow to trigger transaction rollback
+      }
+    });
+  }
+
+  async getGarden(id: number): Promise<Garden | undefined> {
+    const [garden] = await db.select().from(gardens).where(eq(gardens.id, id));
+    return garden || undefined;
+  }
+
+  async getGardensForUser(userId: number): Promise<GardenWithRole[]> {
+    const rows = await db
+      .select({
+        garden: gardens,
+        role: gardenMembers.role,
+        memberCount: sql<number>`(SELECT COUNT(*) FROM garden_members gm WHERE gm.garden_id = ${gardens.id})`.mapWith(Number),
+        plantCount: sql<number>`(SELECT COUNT(*) FROM plants p WHERE p.garden_id = ${gardens.id})`.mapWith(Number),
+      })
+      .from(gardenMembers)
+      .innerJoin(gardens, eq(gardenMembers.gardenId, gardens.id))
+      .where(eq(gardenMembers.userId, userId))
+      .orderBy(asc(gardens.name));
+
+    return rows.map(row => ({
+      ...row.garden,
+      role: row.role,
+      memberCount: row.memberCount,
+      plantCount: row.plantCount,
+    }));
+  }
+
+  async updateGarden(id: number, name: string): Promise<Garden | undefined> {
+    const [garden] = await db
+      .update(gardens)
+      .set({ name })
+      .where(eq(gardens.id, id))
+      .returning();
+    return garden || undefined;
+  }
+
+  async deleteGarden(id: number): Promise<boolean> {
+    // Plants fall back to personal plants of whoever added them (ON DELETE SET NULL)
+    const [deleted] = await db
+      .delete(gardens)
+      .where(eq(gardens.id, id))
+      .returning();
+    return !!deleted;
+  }
+
+  async getGardenMembers(gardenId: number): Promise<GardenMemberWithUser[]> {
+    const rows = await db
+      .select({
+        member: gardenMembers,
+        username: users.username,
+        displayName: users.displayName,
+        avatarUrl: users.avatarUrl,
+      })
+      .from(gardenMembers)
+      .innerJoin(users, eq(gardenMembers.userId, users.id))
+      .where(eq(gardenMembers.gardenId, gardenId))
+      .orderBy(asc(gardenMembers.joinedAt));
+
+    return rows.map(row => ({
+      ...row.member,
+      username: row.username,
+      displayName: row.displayName,
+      avatarUrl: row.avatarUrl,
+    }));
+  }
+
+  async getGardenMember(gardenId: number, userId: number): Promise<GardenMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(gardenMembers)
+      .where(and(eq(gardenMembers.gardenId, gardenId), eq(gardenMembers.userId, userId)));
+    return member || undefined;
+  }
+
+  async updateGardenMemberRole(gardenId: number, userId: number, role: GardenRole): Promise<GardenMember | undefined> {
+    const [member] = await db
+      .update(gardenMembers)
+      .set({ role })
+      .where(and(eq(gardenMembers.gardenId, gardenId), eq(gardenMembers.userId, userId)))
+      .returning();
+    return member || undefined;
+  }
+
+  async removeGardenMember(gardenId: number, userId: number): Promise<boolean> {
+    // Reminders assigned to the member go back to whoever created them
+    return await db.transaction(async (tx) => {
+      try {
+        const [removed] = await tx
+          .delete(gardenMembers)
+          .where(and(eq(gardenMembers.gardenId, gardenId), eq(gardenMembers.userId, userId)))
+          .returning();
+        if (!removed) {
+          return false;
+        }
+
+        await tx
+          .update(reminders)
+          .set({ assignedTo: null })
+          .where(and(
+            eq(reminders.assignedTo, userId),
+            inArray(reminders.plantId, tx.select({ id: plants.id }).from(plants).where(eq(plants.gardenId, gardenId)))
+          ));
+        return true;
+      } catch (error) {
+        logger.error('Transaction failed in removeGardenMember:', error instanceof Error ? error : new Error(String(error)));
+        throw error; // Rethrow to trigger transaction rollback
+      }
+    });
+  }
+
+  async setPlantGarden(plantId: number, gardenId: number | null): Promise<Plant | undefined> {
+    const [plant] = await db
+      .update(plants)
+      .set({ gardenId })
+      .where(eq(plants.id, plantId))
+      .returning();
+    return plant || undefined;
+  }
+
+  async createGardenInvitation(
+    gardenId: number,
+    invitedBy: number,
+    role: GardenRole,
+    email: string | null,
+    expiresAt: Date
+  ): Promise<GardenInvitation> {
+    const token = randomBytes(24).toString("base64url");
+    const [invitation] = await db
+      .insert(gardenInvitations)
+      .values({ gardenId, invitedBy, role, email, token, expiresAt })
+      .returning();
+    return invitation;
+  }
+
+  async getGardenInvitations(gardenId: number): Promise<GardenInvitation[]> {
+    // Only invitations that can still be used
+    return db
+      .select()
+      .from(gardenInvitations)
+      .where(and(
+        eq(gardenInvitations.gardenId, gardenId),
+        isNull(gardenInvitations.acceptedAt),
+        sql`${gardenInvitations.expiresAt} > NOW()`
+      ))
+      .orderBy(desc(gardenInvitations.createdAt));
+  }
+
+  async getGardenInvitationByToken(token: string): Promise<GardenInvitation | undefined> {
+    const [invitation] = await db
+      .select()
+      .from(gardenInvitations)
+      .where(eq(gardenInvitations.token, token));
+    return invitation || undefined;
+  }
+
+  async deleteGardenInvitation(id: number): Promise<boolean> {
+    const [deleted] = await db
+      .delete(gardenInvitations)
+      .where(eq(gardenInvitations.id, id))
+      .returning();
+    return !!deleted;
+  }
+
+  async acceptGardenInvitation(invitation: GardenInvitation, userId: number): Promise<GardenMember | undefined> {
+    // Claim the invitation and add the member together so a link can only be used once
+    return await db.transaction(async (tx) => {
+      try {
+        const [claimed] = await tx
+          .update(gardenInvitations)
+          .set({ acceptedAt: new Date(), acceptedBy: userId })
+          .where(and(eq(gardenInvitations.id, invitation.id), isNull(gardenInvitations.acceptedAt)))
+          .returning();
+        if (!claimed) {
+          return undefined;
+        }
+
+        // Existing members keep their current role
+        const [existing] = await tx
+          .select()
+          .from(gardenMembers)
+          .where(and(eq(gardenMembers.gardenId, invitation.gardenId), eq(gardenMembers.userId, userId)));
+        if (existing) {
+          return existing;
+        }
+
+        const [member] = await tx
+          .insert(gardenMembers)
+          .values({ gardenId: invitation.gardenId, userId, role: invitation.role })
+          .returning();
+        return member;
+      } catch (error) {
+        logger.error('Transaction failed in acceptGardenInvitation:', error instanceof Error ? error : new Error(String(error)));
+        throw error; // Rethrow to trigger transaction rollback
+      }
+    });
+  }
+
+  // Sitter link (vacation mode) methods
+  async createSitterLink(userId: number, link: InsertSitterLink): Promise<SitterLink> {
+    return await db.transaction(async (tx) => {
+      try {
+        const [sitterLink] = await tx
+          .insert(sitterLinks)
+          .values({
+            userId,
+            shareId: randomUUID(),
+            sitterName: link.sitterName || null,
+            instructions: link.instructions || null,
+            startsAt: link.startsAt,
+            expiresAt: link.expiresAt,
+            active: true,
+          })
+          .returning();
+
+        const plantIds = Array.from(new Set(link.plantIds));
+        await tx
+          .insert(sitterLinkPlants)
+          .values(plantIds.map(plantId => ({ sitterLinkId: sitterLink.id, plantId })));
+
+        return sitterLink;
+      } catch (error) {
+        logger.error('Transaction failed in createSitterLink:', error instanceof Error ? error : new Error(String(error)));
+        throw error; // Rethrow to trigger transaction rollback
+      }
+    });
+  }
+
+  async getSitterLink(shareId: string): Promise<SitterLink | undefined> {
+    const [sitterLink] = await db
+      .select()
+      .from(sitterLinks)
+      .where(eq(sitterLinks.shareId, shareId));
+    return sitterLink || undefined;
+  }
+
+  async getSitterLinksByUser(userId: number): Promise<SitterLink[]> {
+    return await db
+      .select()
+      .from(sitterLinks)
+      .where(eq(sitterLinks.userId, userId))
+      .orderBy(desc(sitterLinks.startsAt));
+  }
+
+  async getSitterLinkPlantIds(sitterLinkId: number): Promise<number[]> {
+    const rows = await db
+      .select({ plantId: sitterLinkPlants.plantId })
+      .from(sitterLinkPlants)
+      .where(eq(sitterLinkPlants.sitterLinkId, sitterLinkId));
+    return rows.map(row => row.plantId);
+  }
+
+  async updateSitterLinkStats(shareId: string): Promise<SitterLink | undefined> {
+    const [sitterLink] = await db
+      .update(sitterLinks)
+      .set({ lastAccessed: new Date() })
+      .where(eq(sitterLinks.shareId, shareId))
+      .returning();
+    return sitterLink || undefined;
+  }
+
+  async deactivateSitterLink(shareId: string): Promise<boolean> {
+    const [sitterLink] = await db
+      .update(sitterLinks)
+      .set({ active: false })
+      .where(eq(sitterLinks.shareId, shareId))
+      .returning();
+    return !!sitterLink;
+  }
+
+  async getSitterCareLogs(sitterLinkId: number): Promise<CareLog[]> {
+    return await db
+      .select()
+      .from(careLogs)
+      .where(eq(careLogs.sitterLinkId, sitterLinkId))
+      .orderBy(asc(careLogs.timestamp));
+  }
+
+  async createSitterCareLog(link: SitterLink, careLog: Pick<InsertCareLog, "plantId" | "careType" | "notes">): Promise<CareLog> {
+    // Guest entries carry the link and the sitter's name instead of a member
+    const guestCareLog = {
+      ...careLog,
+      sitterLinkId: link.id,
+      guestName: link.sitterName || 'Plant sitter',
+    };
+    return this.createCareLog(guestCareLog);
+  }
+
+  async getSitterLinksAwaitingReport(now: Date): Promise<SitterLink[]> {
+    // Links that ran out or were ended early and haven't been reported on yet
+    return await db
+      .select()
+      .from(sitterLinks)
+      .where(and(
+        isNull(sitterLinks.reportSentAt),
+        or(lte(sitterLinks.expiresAt, now), eq(sitterLinks.active, false))
+      ));
+  }
+
+  async markSitterReportSent(id: number): Promise<boolean> {
+    const [sitterLink] = await db
+      .update(sitterLinks)
+      .set({ reportSentAt: new Date() })
+      .where(eq(sitterLinks.id, id))
+      .returning();
+    return !!sitterLink;
+  }
+
+  // AI gateway methods
+  async getAiCacheEntry(cacheKey: string, now: Date): Promise<AiResponseCacheEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(aiResponseCache)
+      .where(and(eq(aiResponseCache.cacheKey, cacheKey), gt(aiResponseCache.expiresAt, now)));
+    return entry || undefined;
+  }
+
+  async saveAiCacheEntry(cacheKey: string, feature: string, response: unknown, expiresAt: Date): Promise<void> {
+    await db
+      .insert(aiResponseCache)
+      .values({ cacheKey, feature, response, expiresAt })
+      .onConflictDoUpdate({
+        target: aiResponseCache.cacheKey,
+        set: { feature, response, expiresAt, createdAt: new Date() },
+      });
+  }
+
+  async deleteExpiredAiCacheEntries(now: Date): Promise<number> {
+    const deleted = await db
+      .delete(aiResponseCache)
+      .where(lte(aiResponseCache.expiresAt, now))
+      .returning({ cacheKey: aiResponseCache.cacheKey });
+    return deleted.length;
+  }
+
+  async recordAiUsage(usage: InsertAiUsage): Promise<void> {
+    await db.insert(aiUsage).values(usage);
+  }
+
+  async countAiRequestsSince(userId: number, since: Date): Promise<number> {
+    // Cache hits are free, so they don't count towards the quota
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(aiUsage)
+      .where(and(eq(aiUsage.userId, userId), eq(aiUsage.cached, false), gte(aiUsage.createdAt, since)));
+    return row?.count ?? 0;
+  }
+
+  async getAiUsageByFeature(since: Date): Promise<(AiUsageTotals & { feature: string })[]> {
+    return await db
+      .select({
+        feature: aiUsage.feature,
+        ...aiUsageTotalsColumns,
+      })
+      .from(aiUsage)
+      .where(gte(aiUsage.createdAt, since))
+      .groupBy(aiUsage.feature)
+      .orderBy(desc(sql`sum(${aiUsage.estimatedCost})`));
+  }
+
+  async getAiUsageByUser(since: Date, limit: number): Promise<(AiUsageTotals & { userId: number | null; username: string | null })[]> {
+    return await db
+      .select({
+        userId: aiUsage.userId,
+        username: users.username,
+        ...aiUsageTotalsColumns,
+      })
+      .from(aiUsage)
+      .leftJoin(users, eq(aiUsage.userId, users.id))
+      .where(gte(aiUsage.createdAt, since))
+      .groupBy(aiUsage.userId, users.username)
+      .orderBy(desc(sql`sum(${aiUsage.estimatedCost})`))
+      .limit(limit);
+  }
+
+  // Sensor methods
+  async createSensorDevice(
+    device: Pick<SensorDevice, "userId" | "plantId" | "name" | "tokenHash" | "tokenPrefix" | "dryThreshold">
+  ): Promise<SensorDevice> {
+    const [created] = await db.insert(sensorDevices).values(device).returning();
+    return created;
+  }
+
+  async getSensorDevice(id: number): Promise<SensorDevice | undefined> {
+    const [device] = await db.select().from(sensorDevices).where(eq(sensorDevices.id, id));
+    return device || undefined;
+  }
+
+  async getSensorDeviceByTokenHash(tokenHash: string): Promise<SensorDevice | undefined> {
+    const [device] = await db.select().from(sensorDevices).where(eq(sensorDevices.tokenHash, tokenHash));
+    return device || undefined;
+  }
+
+  async getSensorDevices(userId: number): Promise<SensorDeviceSummary[]> {
+    const { tokenHash, ...columns } = getTableColumns(sensorDevices);
+    return db
+      .select(columns)
+      .from(sensorDevices)
+      .where(eq(sensorDevices.userId, userId))
+      .orderBy(asc(sensorDevices.name));
+  }
+
+  async getSensorDevicesForPlant(plantId: number): Promise<SensorDeviceSummary[]> {
+    const { tokenHash, ...columns } = getTableColumns(sensorDevices);
+    return db
+      .select(columns)
+      .from(sensorDevices)
+      .where(eq(sensorDevices.plantId, plantId))
+      .orderBy(asc(sensorDevices.name));
+  }
+
+  async updateSensorDevice(
+    id: number,
+    data: Partial<Pick<SensorDevice, "name" | "plantId" | "dryThreshold" | "tokenHash" | "tokenPrefix" | "lastSeenAt">>
+  ): Promise<SensorDevice | undefined> {
+    const [device] = await db
+      .update(sensorDevices)
+      .set(data)
+      .where(eq(sensorDevices.id, id))
+      .returning();
+    return device || undefined;
+  }
+
+  async deleteSensorDevice(id: number): Promise<boolean> {
+    const [deleted] = await db
+      .delete(sensorDevices)
+      .where(eq(sensorDevices.id, id))
+      .returning();
+    return !!deleted;
+  }
+
+  async insertSensorReadings(
+    readings: { deviceId: number; plantId: number; metric: SensorMetric; value: number; recordedAt: Date }[]
+  ): Promise<number> {
+    if (readings.length === 0) return 0;
+    const inserted = await db.insert(sensorReadings).values(readings).returning({ id: sensorReadings.id });
+    return inserted.length;
+  }
+
+  async getSensorSeries(plantId: number, since: Date, bucketMinutes: number): Promise<(SensorPoint & { metric: SensorMetric })[]> {
+    // Raw readings and hourly rollups never overlap in time, so both can be
+    // averaged into the same buckets, weighted by how many samples each holds
+    const bucketSeconds = bucketMinutes * 60;
+    const result = await db.execute(sql`
+      SELECT metric,
+        to_timestamp(floor(extract(epoch FROM t) / ${bucketSeconds}) * ${bucketSeconds}) AS bucket,
+        sum(average * samples) / sum(samples) AS average,
+        min(minimum) AS minimum,
+        max(maximum) AS maximum
+      FROM (
+        SELECT metric, recorded_at AS t, value AS average, value AS minimum, value AS maximum, 1 AS samples
+        FROM sensor_readings
+        WHERE plant_id = ${plantId} AND recorded_at >= ${since.toISOString()}::timestamp
+        UNION ALL
+        SELECT metric, hour, average, minimum, maximum, samples
+        FROM sensor_readings_hourly
+        WHERE plant_id = ${plantId} AND hour >= ${since.toISOString()}::timestamp
+      ) readings
+      GROUP BY metric, bucket
+      ORDER BY metric, bucket
+    `);
+    return (result.rows as { metric: SensorMetric; bucket: string | Date; average: number; minimum: number; maximum: number }[])
+      .map(row => ({
+        metric: row.metric,
+        time: new Date(row.bucket).toISOString(),
+        average: Number(row.average),
+        minimum: Number(row.minimum),
+        maximum: Number(row.maximum),
+      }));
+  }
+
+  async getLatestSensorReadings(plantId: number): Promise<{ metric: SensorMetric; value: number; recordedAt: Date; deviceId: number }[]> {
+    const result = await db.execute(sql`
+      SELECT DISTINCT ON (metric) metric, value, recorded_at AT TIME ZONE 'UTC' AS recorded_at, device_id
+      FROM sensor_readings
+      WHERE plant_id = ${plantId}
+      ORDER BY metric, recorded_at DESC
+    `);
+    return (result.rows as { metric: SensorMetric; value: number; recorded_at: string | Date; device_id: number }[])
+      .map(row => ({ metric: row.metric, value: Number(row.value), recordedAt: new Date(row.recorded_at), deviceId: row.device_id }));
+  }
+
+  async getDueWaterRemindersWithSoilReading(
+    now: Date,
+    since: Date
+  ): Promise<{ reminderId: number; plantId: number; moisture: number; dryThreshold: number | null }[]> {
+    const result = await db.execute(sql`
+      SELECT r.id AS reminder_id, r.plant_id, s.value AS moisture, d.dry_threshold
+      FROM reminders r
+      JOIN LATERAL (
+        SELECT sr.value, sr.device_id
+        FROM sensor_readings sr
+        WHERE sr.plant_id = r.plant_id AND sr.metric = 'soil_moisture' AND sr.recorded_at >= ${since.toISOString()}::timestamp
+        ORDER BY sr.recorded_at DESC
+        LIMIT 1
+      ) s ON TRUE
+      JOIN sensor_devices d ON d.id = s.device_id
+      WHERE r.status = 'pending' AND r.care_type = 'water' AND r.due_date <= ${now.toISOString()}::timestamp
+    `);
+    return (result.rows as { reminder_id: number; plant_id: number; moisture: number; dry_threshold: number | null }[])
+      .map(row => ({
+        reminderId: row.reminder_id,
+        plantId: row.plant_id,
+        moisture: Number(row.moisture),
+        dryThreshold: row.dry_threshold === null ? null : Number(row.dry_threshold),
+      }));
+  }
+
+  async rollUpSensorReadings(before: Date): Promise<number> {
+    // Fold raw readings into hourly buckets (merging with any rollup already
+    // there for that hour) and drop them, in one transaction
+    return await db.transaction(async (tx) => {
+      try {
+        await tx.execute(sql`
+          INSERT INTO sensor_readings_hourly (device_id, plant_id, metric, hour, average, minimum, maximum, samples)
+          SELECT device_id, plant_id, metric, date_trunc('hour', recorded_at), avg(value), min(value), max(value), count(*)
+          FROM sensor_readings
+          WHERE recorded_at < ${before.toISOString()}::timestamp
+          GROUP BY device_id, plant_id, metric, date_trunc('hour', recorded_at)
+          ON CONFLICT (device_id, plant_id, metric, hour) DO UPDATE SET
+            average = (sensor_readings_hourly.average * sensor_readings_hourly.samples + EXCLUDED.average * EXCLUDED.samples)
+              / (sensor_readings_hourly.samples + EXCLUDED.samples),
+            minimum = LEAST(sensor_readings_hourly.minimum, EXCLUDED.minimum),
+            maximum = GREATEST(sensor_readings_hourly.maximum, EXCLUDED.maximum),
+            samples = sensor_readings_hourly.samples + EXCLUDED.samples
+        `);
+        const deleted = await tx.execute(sql`
+          DELETE FROM sensor_readings WHERE recorded_at < ${before.toISOString()}::timestamp
+        `);
+        return deleted.rowCount ?? 0;
+      } catch (error) {
+        logger.error('Transaction failed in rollUpSensorReadings:', error instanceof Error ? error : new Error(String(error)));
+        throw error; // Rethrow to trigger transaction rollback
+      }
+    });
+  }
+
+  // Webhook methods
+  async createWebhookEndpoint(
+    endpoint: Pick<WebhookEndpoint, "userId" | "url" | "description" | "secret" | "eventTypes">
+  ): Promise<WebhookEndpoint> {
+    const [created] = await db.insert(webhookEndpoints).values(endpoint).returning();
+    return created;
+  }
+
+  async getWebhookEndpoint(id: number): Promise<WebhookEndpoint | undefined> {
+    const [endpoint] = await db.select().from(webhookEndpoints).where(eq(webhookEndpoints.id, id));
+    return endpoint || undefined;
+  }
+
+  async getWebhookEndpoints(userId: number): Promise<WebhookEndpointSummary[]> {
+    const endpoints = await db
+      .select()
+      .from(webhookEndpoints)
+      .where(eq(webhookEndpoints.userId, userId))
+      .orderBy(asc(webhookEndpoints.createdAt));
+    if (endpoints.length === 0) return [];
+
+    // Latest delivery of each endpoint
+    const latest = await db
+      .selectDistinctOn([webhookDeliveries.endpointId], {
+        endpointId: webhookDeliveries.endpointId,
+        status: webhookDeliveries.status,
+        eventType: webhookDeliveries.eventType,
+        responseStatus: webhookDeliveries.responseStatus,
+        createdAt: webhookDeliveries.createdAt,
+      })
+      .from(webhookDeliveries)
+      .where(inArray(webhookDeliveries.endpointId, endpoints.map(endpoint => endpoint.id)))
+      .orderBy(webhookDeliveries.endpointId, desc(webhookDeliveries.createdAt));
+    const latestById = new Map(latest.map(({ endpointId, ...delivery }) => [endpointId, delivery]));
+
+    return endpoints.map(({ secret, ...endpoint }) => ({
+      ...endpoint,
+      secretHint: secret.slice(-4),
+      lastDelivery: latestById.get(endpoint.id) ?? null,
+    }));
+  }
+
+  async getWebhookEndpointsForEvent(userId: number, eventType: WebhookEventType): Promise<WebhookEndpoint[]> {
+    return await db
+      .select()
+      .from(webhookEndpoints)
+      .where(
+        and(
+          eq(webhookEndpoints.userId, userId),
+          eq(webhookEndpoints.active, true),
+          sql`${eventType} = ANY(${webhookEndpoints.eventTypes})`
+        )
+      );
+  }
+
+  async updateWebhookEndpoint(
+    id: number,
+    data: Partial<Pick<WebhookEndpoint, "url" | "description" | "secret" | "eventTypes" | "active">>
+  ): Promise<WebhookEndpoint | undefined> {
+    const [updated] = await db
+      .update(webhookEndpoints)
+      .set(data)
+      .where(eq(webhookEndpoints.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteWebhookEndpoint(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(webhookEndpoints)
+      .where(eq(webhookEndpoints.id, id))
+      .returning({ id: webhookEndpoints.id });
+    return deleted.length > 0;
+  }
+
+  async createWebhookDeliveries(
+    deliveries: Pick<WebhookDelivery, "endpointId" | "eventId" | "eventType" | "payload" | "nextAttemptAt">[]
+  ): Promise<WebhookDelivery[]> {
+    if (deliveries.length === 0) return [];
+    return await db.insert(webhookDeliveries).values(deliveries).returning();
+  }
+
+  async claimDueWebhookDeliveries(now: Date, leaseUntil: Date, limit: number): Promise<WebhookDelivery[]> {
+    // Pushing next_attempt_at past the lease hides the claimed rows from other
+    // workers; SKIP LOCKED keeps two servers from claiming the same row
+    const due = db
+      .select({ id: webhookDeliveries.id })
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, now)))
+      .orderBy(asc(webhookDeliveries.nextAttemptAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+    return await db
+      .update(webhookDeliveries)
+      .set({ nextAttemptAt: leaseUntil })
+      .where(inArray(webhookDeliveries.id, due))
+      .returning();
+  }
+
+  async updateWebhookDelivery(
+    id: number,
+    data: Partial<Omit<WebhookDelivery, "id" | "endpointId" | "eventId" | "eventType" | "payload" | "createdAt">>
+  ): Promise<WebhookDelivery | undefined> {
+    const [updated] = await db
+      .update(webhookDeliveries)
+      .set(data)
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getWebhookDeliveries(endpointId: number, limit: number): Promise<WebhookDelivery[]> {
+    return await db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.endpointId, endpointId))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit);
+  }
+
+  async deleteWebhookDeliveriesBefore(before: Date): Promise<number> {
+    // Pending deliveries stay until they succeed or run out of attempts
+    const deleted = await db
+      .delete(webhookDeliveries)
+      .where(and(sql`${webhookDeliveries.status} <> 'pending'`, lte(webhookDeliveries.createdAt, before)))
+      .returning({ id: webhookDeliveries.id });
+    return deleted.length;
+  }
+
+  // Personal access token methods
+  async createApiToken(
+    token: Pick<ApiToken, "userId" | "name" | "tokenHash" | "tokenPrefix" | "scopes" | "expiresAt">
+  ): Promise<ApiTokenSummary> {
+    const { tokenHash, ...columns } = getTableColumns(apiTokens);
+    const [created] = await db.insert(apiTokens).values(token).returning(columns);
+    return created;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async getApiTokens(userId: number): Promise<ApiTokenSummary[]> {
+    const { tokenHash, ...columns } = getTableColumns(apiTokens);
+    return db
+      .select(columns)
+      .from(apiTokens)
+      .where(and(eq(apiTokens.userId, userId), isNull(apiTokens.revokedAt)))
+      .orderBy(desc(apiTokens.createdAt));
+  }
+
+  async touchApiToken(id: number, usedAt: Date): Promise<void> {
+    await db.update(apiTokens).set({ lastUsedAt: usedAt }).where(eq(apiTokens.id, id));
+  }
+
+  async revokeApiToken(id: number, userId: number): Promise<boolean> {
+    const [revoked] = await db
+      .update(apiTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId), isNull(apiTokens.revokedAt)))
+      .returning({ id: apiTokens.id });
+    return !!revoked;
+  }
+
+  // AI report methods
+  async createAiReport(report: InsertAiReport): Promise<AiReport> {
+    const [created] = await db.insert(aiReports).values(report).returning();
+    return created;
+  }
+
+  async getAiReport(id: number): Promise<AiReport | undefined> {
+    const [report] = await db.select().from(aiReports).where(eq(aiReports.id, id));
+    return report || undefined;
+  }
+
+  async getLatestAiReport(userId: number, feature: AiReportFeature, inputHash: string): Promise<AiReport | undefined> {
+    const [report] = await db
+      .select()
+      .from(aiReports)
+      .where(and(eq(aiReports.userId, userId), eq(aiReports.feature, feature), eq(aiReports.inputHash, inputHash)))
+      .orderBy(desc(aiReports.createdAt))
+      .limit(1);
+    return report || undefined;
+  }
+
+  // Newest first, optionally only those about one plant or from one feature
+  async getAiReports(userId: number, filters: { plantId?: number; feature?: AiReportFeature }, limit: number): Promise<AiReport[]> {
+    const conditions = [eq(aiReports.userId, userId)];
+    if (filters.plantId !== undefined) {
+      conditions.push(sql`${aiReports.plantIds} @> ARRAY[${filters.plantId}]::integer[]`);
+    }
+    if (filters.feature) {
+      conditions.push(eq(aiReports.feature, filters.feature));
+    }
+    return db
+      .select()
+      .from(aiReports)
+      .where(and(...conditions))
+      .orderBy(desc(aiReports.createdAt))
+      .limit(limit);
+  }
+
+  async createAiReportActionReminder(
+    id: number,
+    actionId: string,
+    reminderData: InsertReminder
+  ): Promise<{ report: AiReport; reminder: Reminder } | undefined> {
+    return await db.transaction(async (tx) => {
+      // Claim the action first: a concurrent request waits on the row lock and then
+      // finds the key taken, so only one reminder is ever created per action
+      const [claimed] = await tx
+        .update(aiReports)
+        .set({ actionReminders: sql`${aiReports.actionReminders} || ${JSON.stringify({ [actionId]: null })}::jsonb` })
+        .where(and(eq(aiReports.id, id), sql`NOT (${aiReports.actionReminders} ? ${actionId})`))
+        .returning({ id: aiReports.id });
+      if (!claimed) return undefined;
+
+      const [reminder] = await tx
+        .insert(reminders)
+        .values({
+          ...reminderData,
+          dueDate: typeof reminderData.dueDate === 'string' ? new Date(reminderData.dueDate) : reminderData.dueDate,
+        } as any) // Same date conversion as createReminder
+        .returning();
+
+      const [report] = await tx
+        .update(aiReports)
+        .set({ actionReminders: sql`${aiReports.actionReminders} || ${JSON.stringify({ [actionId]: reminder.id })}::jsonb` })
+        .where(eq(aiReports.id, id))
+        .returning();
+      return { report, reminder };
+    });
+  }
+
+  async deleteAiReport(id: number, userId: number): Promise<boolean> {
+    const [deleted] = await db
+      .delete(aiReports)
+      .where(and(eq(aiReports.id, id), eq(aiReports.userId, userId)))
+      .returning({ id: aiReports.id });
+    return !!deleted;
+  }
+
+  // AI care schedule methods
+  async applyScheduleChanges(
+    userId: number,
+    reportId: number | null,
+    changes: ScheduleChange[],
+    operations: ScheduleOperations
+  ): Promise<ScheduleApplication | undefined> {
+    // All or nothing, so a schedule is never half applied or impossible to roll back
+    return await db.transaction(async (tx) => {
+      try {
+        const touchedIds = [...operations.moves.map(move => move.id), ...operations.deleteIds];
+        const previous = touchedIds.length > 0
+          ? await tx
+            .select()
+            .from(reminders)
+            .where(and(inArray(reminders.id, touchedIds), eq(reminders.userId, userId), eq(reminders.status, "pending")))
+            .for("update")
+          : [];
+        // A reminder was completed, dismissed or deleted since the preview
+        if (previous.length !== touchedIds.length) {
+          return undefined;
+        }
+
+        for (const move of operations.moves) {
+          await tx
+            .update(reminders)
+            .set({
+              dueDate: move.dueDate,
+              recurring: true,
+              recurringInterval: move.recurringInterval,
+              snoozedUntil: null,
+              notified: false,
+            })
+            .where(eq(reminders.id, move.id));
+        }
+        if (operations.deleteIds.length > 0) {
+          await tx.delete(reminders).where(inArray(reminders.id, operations.deleteIds));
+        }
+        const created = operations.creates.length > 0
+          ? await tx
+            .insert(reminders)
+            .values(operations.creates.map(reminder => ({ ...reminder, dueDate: new Date(reminder.dueDate) })) as any)
+            .returning({ id: reminders.id })
+          : [];
+
+        const [application] = await tx
+          .insert(scheduleApplications)
+          .values({
+            userId,
+            reportId,
+            changes,
+            previousReminders: previous,
+            createdReminderIds: created.map(reminder => reminder.id),
+          })
+          .returning();
+        return application;
+      } catch (error) {
+        logger.error('Transaction failed in applyScheduleChanges:', error instanceof Error ? error : new Error(String(error)));
+        throw error; // Rethrow to trigger transaction rollback
+      }
+    });
+  }
+
+  // The newest application that hasn't been rolled back
+  async getLatestScheduleApplication(userId: number): Promise<ScheduleApplication | undefined> {
+    const [application] = await db
+      .select()
+      .from(scheduleApplications)
+      .where(and(eq(scheduleApplications.userId, userId), isNull(scheduleApplications.rolledBackAt)))
+      .orderBy(desc(scheduleApplications.createdAt), desc(scheduleApplications.id))
+      .limit(1);
+    return application || undefined;
+  }
+
+  async rollbackScheduleApplication(id: number, userId: number): Promise<{ application: ScheduleApplication; kept: number } | undefined> {
+    return await db.transaction(async (tx) => {
+      try {
+        const [application] = await tx
+          .update(scheduleApplications)
+          .set({ rolledBackAt: new Date() })
+          .where(and(eq(scheduleApplications.id, id), eq(scheduleApplications.userId, userId), isNull(scheduleApplications.rolledBackAt)))
+          .returning();
+        if (!application) {
+          return undefined;
+        }
+
+        // Reminders completed since the schedule was applied are kept as they are
+        let kept = 0;
+        if (application.createdReminderIds.length > 0) {
+          const removed = await tx
+            .delete(reminders)
+            .where(and(inArray(reminders.id, application.createdReminderIds), eq(reminders.status, "pending")))
+            .returning({ id: reminders.id });
+          kept += application.createdReminderIds.length - removed.length;
+        }
+
+        const deletedIds = new Set(application.changes.filter(change => change.type === "delete").map(change => change.reminderId));
+        for (const reminder of application.previousReminders) {
+          // Stored as JSON, so dates come back as strings
+          const restored = {
+            ...reminder,
+            dueDate: new Date(reminder.dueDate),
+            snoozedUntil: reminder.snoozedUntil ? new Date(reminder.snoozedUntil) : null,
+            completedAt: reminder.completedAt ? new Date(reminder.completedAt) : null,
+            createdAt: reminder.createdAt ? new Date(reminder.createdAt) : null,
+          };
+          if (deletedIds.has(reminder.id)) {
+            await tx.insert(reminders).values(restored).onConflictDoNothing();
+            continue;
+          }
+          const [moved] = await tx
+            .update(reminders)
+            .set({
+              dueDate: restored.dueDate,
+              recurring: restored.recurring,
+              recurringInterval: restored.recurringInterval,
+              snoozedUntil: restored.snoozedUntil,
+              notified: restored.notified,
+            })
+            .where(and(eq(reminders.id, reminder.id), eq(reminders.status, "pending")))
+            .returning({ id: reminders.id });
+          if (!moved) kept++;
+        }
+
+        return { application, kept };
+      } catch (error) {
+        logger.error('Transaction failed in rollbackScheduleApplication:', error instanceof Error ? error : new Error(String(error)));
+        throw error; // Rethrow to trigger transaction rollback
+      }
+    });
+  }
+
   // Public Profile methods
   async getPublicProfile(username: string): Promise<{user: User; profileSettings: ProfileSettings} | undefined> {
     const user = await this.getUserByUsername(username);
@@ -1414,8 +3541,8 @@ export class DatabaseStorage implements IStorage {
       return [];
     }
     
-    // Get plants with care info
-    return this.getPlants(userId);
+    // Get plants with care info (only the user's own, not shared garden plants)
+    return this.getPlants(userId, { includeGardens: false });
   }
 }
 
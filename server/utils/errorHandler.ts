@@ -3,6 +3,9 @@ import * as logger from '../services/logger';
 
 // Error codes for common error types
 export enum ErrorCode {
+  // Rate limiting errors
+  QUOTA_EXCEEDED = 'QUOTA_EXCEEDED',
+  
   // Authentication errors
   UNAUTHORIZED = 'UNAUTHORIZED',
   FORBIDDEN = 'FORBIDDEN',
@@ -41,6 +44,16 @@ export interface ApiErrorResponse {
   status: number;
 }
 
+// The error title and code used for a status when the caller doesn't give them
+const STATUS_DEFAULTS: Record<number, { error: string; code: ErrorCode }> = {
+  400: { error: 'Bad Request', code: ErrorCode.BAD_REQUEST },
+  401: { error: 'Authentication Required', code: ErrorCode.UNAUTHORIZED },
+  403: { error: 'Access Denied', code: ErrorCode.FORBIDDEN },
+  404: { error: 'Resource Not Found', code: ErrorCode.NOT_FOUND },
+  409: { error: 'Resource Conflict', code: ErrorCode.CONFLICT },
+  429: { error: 'Too Many Requests', code: ErrorCode.QUOTA_EXCEEDED },
+};
+
 /**
  * Standardized API error handler
  * Creates a consistent error response format for all API endpoints
@@ -49,9 +62,9 @@ export function apiError(
   res: Response,
   {
     status = 500,
-    code = ErrorCode.INTERNAL_SERVER_ERROR,
+    code = STATUS_DEFAULTS[status]?.code ?? ErrorCode.INTERNAL_SERVER_ERROR,
     message = 'An unexpected error occurred',
-    error = 'Internal Server Error',
+    error = STATUS_DEFAULTS[status]?.error ?? 'Internal Server Error',
     details
   }: Partial<ApiErrorResponse>
 ): Response {
@@ -108,6 +121,15 @@ export function globalErrorHandler(err: any, req: Request, res: Response, next:
     });
   }
   
+  if (err.name === 'AiQuotaExceededError') {
+    return apiError(res, {
+      status: 429,
+      error: 'Quota Exceeded',
+      message: err.message,
+      code: ErrorCode.QUOTA_EXCEEDED
+    });
+  }
+  
   if (err.code === 'P2002') {
     // Prisma unique constraint violation
     return apiError(res, {
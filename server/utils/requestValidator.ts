@@ -1,5 +1,5 @@
 import { Request, Response } from "express";
-import { z } from "zod";
+import { apiError, ErrorCode } from "./errorHandler";
 
 /**
  * Ensures an error is a proper Error object.
@@ -10,27 +10,39 @@ export function handleError(error: unknown): Error {
   return error instanceof Error ? error : new Error(String(error));
 }
 
+// Anything with zod's safeParse, so both zod v3 and the v4 schemas drizzle-zod builds can be used
+type Parser<T> = {
+  safeParse(data: unknown):
+    | { success: true; data: T }
+    | { success: false; error: { issues: ReadonlyArray<{ path: PropertyKey[]; message: string }> } };
+};
+
 /**
- * Validates the request body against a Zod schema.
+ * Validates the request body against a Zod schema, answering with a 400
+ * validation error envelope when it doesn't match.
  * @param schema The Zod schema to validate against.
  * @param req The Express request object.
  * @param res The Express response object.
  * @returns A success object with parsed data, or a failure object.
  */
 export function validateRequest<T>(
-  schema: z.ZodType<T>,
+  schema: Parser<T>,
   req: Request,
   res: Response
 ): { success: true; data: T } | { success: false } {
-  try {
-    const data = schema.parse(req.body);
-    return { success: true, data };
-  } catch (error) {
-    const typedError = handleError(error);
-    res.status(400).json({
-      message: "Invalid request data",
-      error: typedError.message,
-    });
-    return { success: false };
+  const result = schema.safeParse(req.body ?? {});
+  if (result.success) {
+    return { success: true, data: result.data };
   }
-}
\ No newline at end of file
+
+  apiError(res, {
+    status: 400,
+    error: "Validation Error",
+    message: "Invalid request data",
+    code: ErrorCode.VALIDATION_ERROR,
+    details: {
+      issues: result.error.issues.map(issue => ({ path: issue.path.map(String).join("."), message: issue.message })),
+    },
+  });
+  return { success: false };
+}
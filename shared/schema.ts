@@ -1,6 +1,8 @@
-import { pgTable, text, serial, integer, boolean, timestamp, date, pgEnum, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, date, pgEnum, jsonb, real, doublePrecision, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+// drizzle-zod builds zod v4 schemas, so fields added to them with .extend() must be v4 too
+import * as z4 from "zod/v4";
 
 // --> Recommendation: Define ENUM types at the top for reusability and database-level validation.
 export const sunlightLevelEnum = pgEnum('sunlight_level', ['low', 'medium', 'high']);
@@ -9,7 +11,18 @@ export const careTypeEnum = pgEnum('care_type', ['water', 'fertilize', 'repot',
 export const reminderStatusEnum = pgEnum('reminder_status', ['pending', 'completed', 'dismissed']);
 export const careCategoryEnum = pgEnum('care_category', ['watering', 'sunlight', 'soil', 'fertilizing', 'pests', 'diseases', 'propagation', 'general']);
 export const tipStatusEnum = pgEnum('tip_status', ['active', 'reported', 'removed']);
-export const activityTypeEnum = pgEnum('activity_type', ['plant_added', 'care_log_added', 'plant_shared', 'care_log_shared', 'profile_updated', 'follow_user']);
+export const activityTypeEnum = pgEnum('activity_type', ['plant_added', 'care_log_added', 'plant_shared', 'care_log_shared', 'profile_updated', 'follow_user', 'reminder_due', 'diagnosis_completed']);
+export const gardenRoleEnum = pgEnum('garden_role', ['owner', 'caretaker', 'viewer']);
+export const taxonRankEnum = pgEnum('taxon_rank', ['species', 'genus', 'family']);
+export const userRoleEnum = pgEnum('user_role', ['admin', 'moderator', 'member']);
+export const tipReportReasonEnum = pgEnum('tip_report_reason', ['spam', 'offensive', 'harmful', 'incorrect', 'other']);
+export const moderationActionEnum = pgEnum('moderation_action', ['hide', 'restore', 'remove', 'dismiss_reports', 'feature', 'unfeature', 'auto_hide', 'change_role']);
+export const commentTargetEnum = pgEnum('comment_target', ['tip', 'plant', 'care_log']);
+export const notificationTypeEnum = pgEnum('notification_type', ['mention', 'reply', 'plant_transfer']);
+export const propagationMethodEnum = pgEnum('propagation_method', ['cutting', 'division', 'offset', 'seed', 'layering', 'other']);
+export const plantTransferStatusEnum = pgEnum('plant_transfer_status', ['pending', 'accepted', 'declined', 'cancelled']);
+export const sensorMetricEnum = pgEnum('sensor_metric', ['soil_moisture', 'temperature', 'humidity', 'lux']);
+export const webhookDeliveryStatusEnum = pgEnum('webhook_delivery_status', ['pending', 'succeeded', 'failed']);
 
 // User schema
 export const users = pgTable("users", {
@@ -30,6 +43,7 @@ export const users = pgTable("users", {
   weatherLocation: text("weather_location"), // For weather integration
   createdAt: timestamp("created_at").defaultNow(),
   lastLogin: timestamp("last_login"),
+  role: userRoleEnum("role").notNull().default("member"), // Admins manage roles; moderators handle reported tips
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -38,7 +52,7 @@ export const insertUserSchema = createInsertSchema(users).pick({
   email: true,
   displayName: true,
 }).extend({
-  confirmPassword: z.string()
+  confirmPassword: z4.string()
 }).refine(data => data.password === data.confirmPassword, {
   message: "Passwords don't match",
   path: ["confirmPassword"],
@@ -82,11 +96,54 @@ export const plants = pgTable("plants", {
   createdAt: timestamp("created_at").defaultNow(),
   userId: integer("user_id").notNull(),
   type: text("type").default("identified"),
+  adaptiveWatering: boolean("adaptive_watering").notNull().default(false), // Apply learned watering intervals automatically
+  waterFrequencyAdjustedAt: timestamp("water_frequency_adjusted_at"), // When waterFrequency was last changed from care history
+  waterFrequencyNote: text("water_frequency_note"), // Why it was changed
+  gardenId: integer("garden_id"), // Shared garden the plant belongs to (null for a personal plant)
+  parentPlantId: integer("parent_plant_id").references((): AnyPgColumn => plants.id, { onDelete: "set null" }), // Plant this one was propagated from, possibly another user's
+  propagationMethod: propagationMethodEnum("propagation_method"),
+  propagatedAt: timestamp("propagated_at"),
 });
 
 export const insertPlantSchema = createInsertSchema(plants).omit({
   id: true,
   createdAt: true,
+  waterFrequencyAdjustedAt: true,
+  waterFrequencyNote: true,
+  gardenId: true,
+  parentPlantId: true,
+  propagationMethod: true,
+  propagatedAt: true,
+});
+
+// A plant offered to another user, e.g. a gifted cutting. Accepting it moves the
+// plant with its care history, photos and reminders to the recipient.
+export const plantTransfers = pgTable("plant_transfers", {
+  id: serial("id").primaryKey(),
+  plantId: integer("plant_id").notNull().references(() => plants.id, { onDelete: "cascade" }),
+  fromUserId: integer("from_user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  toUserId: integer("to_user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  status: plantTransferStatusEnum("status").notNull().default("pending"),
+  message: text("message"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  respondedAt: timestamp("responded_at"),
+});
+
+export const propagatePlantSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  method: z.enum(propagationMethodEnum.enumValues).default("cutting"),
+  location: z.string().trim().min(1).max(100).optional(),
+  notes: z.string().trim().max(2000).optional(),
+});
+
+export const setPlantParentSchema = z.object({
+  parentPlantId: z.number().int().positive().nullable(),
+  method: z.enum(propagationMethodEnum.enumValues).optional(),
+});
+
+export const createPlantTransferSchema = z.object({
+  username: z.string().trim().min(1).max(50).transform(value => value.replace(/^@/, "")),
+  message: z.string().trim().max(500).optional(),
 });
 
 // Care log schema
@@ -100,15 +157,108 @@ export const careLogs = pgTable("care_logs", {
   photo: text("photo"),
   // --> Recommendation: Use jsonb for efficient JSON storage and querying in PostgreSQL.
   metadata: jsonb("metadata"),
+  performedBy: integer("performed_by"), // Member who did the care (plants in shared gardens)
+  sitterLinkId: integer("sitter_link_id"), // Logged by a plant sitter through a sitter link
+  guestName: text("guest_name"), // Name shown for care logged without an account
+  journalText: text("journal_text"), // Latest AI journal entry as plain text, kept for search
+  offlineId: text("offline_id"), // Set by the app for care logged offline, so a replayed request isn't logged twice
 });
 
+// Growth measurements that can be logged with any care, kept in careLogs.metadata.measurements
+export const GROWTH_METRICS = ['heightCm', 'leafCount', 'newLeaves', 'potSizeCm'] as const;
+
+export const growthMeasurementsSchema = z4.object({
+  heightCm: z4.number().positive().max(5000).optional(),
+  leafCount: z4.number().int().min(0).max(100000).optional(),
+  newLeaves: z4.number().int().min(0).max(10000).optional(),
+  potSizeCm: z4.number().positive().max(500).optional(),
+}).refine((measurements) => Object.values(measurements).some((value) => value !== undefined), {
+  message: "Enter at least one measurement",
+});
+
+// Bumped when the shape of careLogs.metadata changes; older rows are brought up to date on start
+export const CARE_LOG_METADATA_VERSION = 1;
+
+export const WATERING_METHODS = ['top', 'bottom', 'soak', 'mist'] as const;
+
+const confidenceSchema = z4.enum(['low', 'medium', 'high']);
+
+export const plantHealthDiagnosisSchema = z4.object({
+  issue: z4.string(),
+  cause: z4.string(),
+  solution: z4.string(),
+  preventionTips: z4.array(z4.string()).default([]),
+  severity: confidenceSchema,
+  confidenceLevel: confidenceSchema,
+});
+
+// Written by the photo analysis when a care log photo may be of a different plant
+export const plantIdentityCheckSchema = z4.object({
+  matches: z4.boolean(),
+  expectedPlant: z4.string(),
+  detectedPlant: z4.string().nullable(),
+  confidence: confidenceSchema,
+});
+
+// Fields every care log's metadata can have, whatever the care type
+const careLogMetadataFields = {
+  version: z4.literal(CARE_LOG_METADATA_VERSION).optional(),
+  measurements: growthMeasurementsSchema.optional(),
+  identityCheck: plantIdentityCheckSchema.optional(),
+  // Keys stored before metadata had a schema, kept rather than dropped
+  legacy: z4.record(z4.string(), z4.unknown()).optional(),
+};
+
+// careLogs.metadata, by care type. careType always matches the care log's own
+export const careLogMetadataSchema = z4.discriminatedUnion('careType', [
+  z4.object({
+    careType: z4.literal('water'),
+    amountMl: z4.number().positive().max(100000).optional(),
+    method: z4.enum(WATERING_METHODS).optional(),
+    ...careLogMetadataFields,
+  }),
+  z4.object({
+    careType: z4.literal('fertilize'),
+    product: z4.string().trim().min(1).max(100).optional(),
+    npk: z4.string().trim().regex(/^\d+(\.\d+)?-\d+(\.\d+)?-\d+(\.\d+)?$/, "NPK must look like 10-10-10").optional(),
+    dilution: z4.string().trim().min(1).max(100).optional(), // e.g. "half strength" or "5 ml per litre"
+    ...careLogMetadataFields,
+  }),
+  z4.object({
+    careType: z4.literal('repot'),
+    potSizeCm: z4.number().positive().max(500).optional(), // The new pot
+    soilMix: z4.string().trim().min(1).max(200).optional(),
+    ...careLogMetadataFields,
+  }),
+  z4.object({
+    careType: z4.literal('prune'),
+    pruneNotes: z4.string().trim().min(1).max(1000).optional(), // What was cut back and why
+    ...careLogMetadataFields,
+  }),
+  z4.object({
+    careType: z4.literal('health_check'),
+    healthDiagnosis: plantHealthDiagnosisSchema.optional(),
+    ...careLogMetadataFields,
+  }),
+  z4.object({
+    careType: z4.literal('other'),
+    ...careLogMetadataFields,
+  }),
+]);
+
 export const insertCareLogSchema = createInsertSchema(careLogs).omit({
   id: true,
   timestamp: true,
+  sitterLinkId: true,
+  guestName: true,
+  journalText: true,
 }).extend({
-  photoBase64: z.string().optional(),
-  // Zod can validate the shape of the metadata if needed, e.g., metadata: z.object({ ... }).optional()
-  metadata: z.any().optional(),
+  photoBase64: z4.string().optional(),
+  metadata: careLogMetadataSchema.nullable().optional(),
+  offlineId: z4.string().min(1).max(64).optional(),
+  // When the care was done, if earlier than the request (care logged offline and synced later)
+  performedAt: z4.coerce.date().optional(),
+  measurements: growthMeasurementsSchema.optional(),
 });
 
 
@@ -129,6 +279,67 @@ export const insertPlantGuideSchema = createInsertSchema(plantGuides).omit({
   id: true,
 });
 
+// Species catalogue. Genus and family rows hold typical care for the whole
+// group and are used when a plant's exact species isn't in the catalogue.
+export const species = pgTable("species", {
+  id: serial("id").primaryKey(),
+  scientificName: text("scientific_name").notNull().unique(),
+  rank: taxonRankEnum("rank").notNull().default("species"),
+  genus: text("genus"),
+  family: text("family"),
+  commonNames: text("common_names").array().notNull().default([]), // First one is shown
+  synonyms: text("synonyms").array().notNull().default([]), // Older or alternative scientific names
+  category: text("category"), // tropical, succulent, herb, flowering, fern or other
+  description: text("description").notNull(),
+  careTips: text("care_tips").notNull(),
+  waterIntervalMin: integer("water_interval_min").notNull(), // Days
+  waterIntervalMax: integer("water_interval_max").notNull(),
+  lightLuxMin: integer("light_lux_min").notNull(),
+  lightLuxMax: integer("light_lux_max").notNull(),
+  humidityMin: integer("humidity_min"), // Percent relative humidity
+  humidityMax: integer("humidity_max"),
+  temperatureMinC: real("temperature_min_c"),
+  temperatureMaxC: real("temperature_max_c"),
+  fertilizerFrequency: integer("fertilizer_frequency").notNull(), // Days, 0 if not needed
+  toxicToPets: boolean("toxic_to_pets"), // Null when unknown
+  toxicToHumans: boolean("toxic_to_humans"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertSpeciesSchema = z.object({
+  scientificName: z.string().trim().min(1).max(200),
+  rank: z.enum(taxonRankEnum.enumValues).default("species"),
+  genus: z.string().trim().max(100).nullable().optional(),
+  family: z.string().trim().max(100).nullable().optional(),
+  commonNames: z.array(z.string().trim().min(1).max(100)).max(20).default([]),
+  synonyms: z.array(z.string().trim().min(1).max(200)).max(20).default([]),
+  category: z.string().trim().max(50).nullable().optional(),
+  description: z.string().trim().min(1).max(2000),
+  careTips: z.string().trim().min(1).max(4000),
+  waterIntervalMin: z.number().int().min(1).max(365),
+  waterIntervalMax: z.number().int().min(1).max(365),
+  lightLuxMin: z.number().int().min(0).max(150000),
+  lightLuxMax: z.number().int().min(0).max(150000),
+  humidityMin: z.number().int().min(0).max(100).nullable().optional(),
+  humidityMax: z.number().int().min(0).max(100).nullable().optional(),
+  temperatureMinC: z.number().min(-50).max(60).nullable().optional(),
+  temperatureMaxC: z.number().min(-50).max(60).nullable().optional(),
+  fertilizerFrequency: z.number().int().min(0).max(365),
+  toxicToPets: z.boolean().nullable().optional(),
+  toxicToHumans: z.boolean().nullable().optional(),
+}).refine(data => data.waterIntervalMin <= data.waterIntervalMax, {
+  message: "waterIntervalMin must not be greater than waterIntervalMax",
+  path: ["waterIntervalMax"],
+}).refine(data => data.lightLuxMin <= data.lightLuxMax, {
+  message: "lightLuxMin must not be greater than lightLuxMax",
+  path: ["lightLuxMax"],
+});
+
+// Body of the admin species import
+export const speciesImportSchema = z.object({
+  species: z.array(insertSpeciesSchema).min(1).max(5000),
+});
+
 // Reminder schema
 export const reminders = pgTable("reminders", {
   id: serial("id").primaryKey(),
@@ -142,16 +353,28 @@ export const reminders = pgTable("reminders", {
   recurring: boolean("recurring").notNull().default(false),
   recurringInterval: integer("recurring_interval"),
   notified: boolean("notified").notNull().default(false),
+  snoozedUntil: timestamp("snoozed_until"), // Set when the user pushes the reminder back
+  completedAt: timestamp("completed_at"), // When the reminder was completed or dismissed
+  previousReminderId: integer("previous_reminder_id"), // Occurrence this one was generated from
+  assignedTo: integer("assigned_to"), // Garden member responsible for this reminder
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const insertReminderSchema = createInsertSchema(reminders).omit({
   id: true,
   createdAt: true,
+  completedAt: true,
 }).extend({
-  dueDate: z.string(),
-  plantId: z.number().int(),
-  message: z.string().optional().default(""),
+  dueDate: z4.string(),
+  snoozedUntil: z4.string().nullable().optional(),
+  plantId: z4.number().int(),
+  message: z4.string().optional().default(""),
+});
+
+export const snoozeReminderSchema = z.object({
+  days: z.number().int().min(1).max(365).optional(),
+  hours: z.number().int().min(1).max(24 * 30).optional(),
+  until: z.string().datetime().optional(),
 });
 
 // Community Tips schema
@@ -180,6 +403,89 @@ export const insertCommunityTipSchema = createInsertSchema(communityTips).omit({
   likesCount: true,
 });
 
+// A member's report of a community tip (one per member per tip); open until a moderator acts on the tip
+export const tipReports = pgTable("tip_reports", {
+  id: serial("id").primaryKey(),
+  tipId: integer("tip_id").notNull().references(() => communityTips.id, { onDelete: "cascade" }),
+  reporterId: integer("reporter_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  reason: tipReportReasonEnum("reason").notNull(),
+  details: text("details"),
+  createdAt: timestamp("created_at").defaultNow(),
+  resolvedAt: timestamp("resolved_at"),
+  resolvedBy: integer("resolved_by").references(() => users.id, { onDelete: "set null" }),
+});
+
+// Audit trail of moderation and role changes (moderatorId is null for automatic actions)
+export const moderationActions = pgTable("moderation_actions", {
+  id: serial("id").primaryKey(),
+  moderatorId: integer("moderator_id").references(() => users.id, { onDelete: "set null" }),
+  action: moderationActionEnum("action").notNull(),
+  targetType: text("target_type").notNull(), // "tip" or "user"
+  targetId: integer("target_id").notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Comments on tips, public or shared plants, and shared care logs. Replies are one
+// level deep: parentId always points at a top-level comment on the same target.
+export const comments = pgTable("comments", {
+  id: serial("id").primaryKey(),
+  targetType: commentTargetEnum("target_type").notNull(),
+  targetId: integer("target_id").notNull(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  parentId: integer("parent_id").references((): AnyPgColumn => comments.id, { onDelete: "cascade" }),
+  content: text("content").notNull(),
+  status: tipStatusEnum("status").default("active").notNull(), // Same moderation states as tips
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  editedAt: timestamp("edited_at"),
+});
+
+// In-app notifications, e.g. for @mentions and replies to your comments
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: notificationTypeEnum("type").notNull(),
+  actorId: integer("actor_id").references(() => users.id, { onDelete: "cascade" }),
+  commentId: integer("comment_id").references(() => comments.id, { onDelete: "cascade" }),
+  message: text("message").notNull(),
+  url: text("url"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  readAt: timestamp("read_at"),
+});
+
+export const createCommentSchema = z.object({
+  targetType: z.enum(commentTargetEnum.enumValues),
+  targetId: z.number().int().positive(),
+  parentId: z.number().int().positive().optional(),
+  content: z.string().trim().min(1, "Comment can't be empty").max(2000),
+  // The share link the target was opened from, for viewers who only have the link
+  shareId: z.string().min(1).max(64).optional(),
+});
+
+export const updateCommentSchema = z.object({
+  content: z.string().trim().min(1, "Comment can't be empty").max(2000),
+  shareId: z.string().min(1).max(64).optional(),
+});
+
+export const reportTipSchema = z.object({
+  reason: z.enum(tipReportReasonEnum.enumValues),
+  details: z.string().trim().max(500).optional(),
+});
+
+export const moderateTipSchema = z.object({
+  action: z.enum(["hide", "restore", "remove", "dismiss_reports", "feature", "unfeature"]),
+  note: z.string().trim().max(500).optional(),
+});
+
+export const moderateCommentSchema = z.object({
+  action: z.enum(["hide", "restore", "remove"]),
+  note: z.string().trim().max(500).optional(),
+});
+
+export const updateUserRoleSchema = z.object({
+  role: z.enum(userRoleEnum.enumValues),
+});
+
 // Tip Votes schema
 export const tipVotes = pgTable("tip_votes", {
   id: serial("id").primaryKey(),
@@ -194,12 +500,33 @@ export const insertTipVoteSchema = createInsertSchema(tipVotes).omit({
   createdAt: true,
 });
 
-// Photos schema
+// Photos schema - metadata for images held in the blob store (see server/services/photoStorage.ts)
 export const photos = pgTable("photos", {
   id: serial("id").primaryKey(),
-  plant_id: integer("plant_id").references(() => plants.id, {
+  plantId: integer("plant_id").references(() => plants.id, {
     onDelete: "cascade",
   }),
+  careLogId: integer("care_log_id").references(() => careLogs.id, {
+    onDelete: "cascade",
+  }),
+  userId: integer("user_id").references(() => users.id, {
+    onDelete: "cascade",
+  }),
+  kind: text("kind").notNull().default("care_log"), // plant or care_log
+  storageKey: text("storage_key").notNull().unique(),
+  thumbnailKey: text("thumbnail_key"),
+  url: text("url").notNull(),
+  thumbnailUrl: text("thumbnail_url"),
+  contentType: text("content_type").notNull().default("image/jpeg"),
+  sizeBytes: integer("size_bytes"),
+  width: integer("width"),
+  height: integer("height"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertPhotoSchema = createInsertSchema(photos).omit({
+  id: true,
+  createdAt: true,
 });
 
 // Shared plant links schema
@@ -294,14 +621,344 @@ export const profileSettings = pgTable("profile_settings", {
   isCollectionPublic: boolean("is_collection_public").default(false),
   showActivityInFeed: boolean("show_activity_in_feed").default(true),
   allowFollowers: boolean("allow_followers").default(true),
+  // Notification preferences (reminder digests)
+  emailNotifications: boolean("email_notifications").default(true),
+  pushNotifications: boolean("push_notifications").default(false),
+  digestHour: integer("digest_hour").default(8), // Local hour the daily digest goes out
+  quietHoursStart: text("quiet_hours_start"), // "HH:MM" in the user's timezone
+  quietHoursEnd: text("quiet_hours_end"),
+  lastDigestSentAt: timestamp("last_digest_sent_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Secret-token iCalendar feed of a user's care schedule (one active token per user)
+export const calendarFeeds = pgTable("calendar_feeds", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }).unique(),
+  token: text("token").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow(),
+  lastAccessed: timestamp("last_accessed"),
+});
+
+// Web Push subscriptions registered by the service worker, one per browser
+export const pushSubscriptions = pgTable("push_subscriptions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  endpoint: text("endpoint").notNull().unique(),
+  p256dh: text("p256dh").notNull(),
+  auth: text("auth").notNull(),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Shared gardens (households) whose members co-manage plants
+export const gardens = pgTable("gardens", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  createdBy: integer("created_by").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const gardenMembers = pgTable("garden_members", {
+  id: serial("id").primaryKey(),
+  gardenId: integer("garden_id").notNull().references(() => gardens.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: gardenRoleEnum("role").notNull().default("caretaker"),
+  joinedAt: timestamp("joined_at").defaultNow(),
+});
+
+// Single-use invitation links to join a garden with a given role
+export const gardenInvitations = pgTable("garden_invitations", {
+  id: serial("id").primaryKey(),
+  gardenId: integer("garden_id").notNull().references(() => gardens.id, { onDelete: "cascade" }),
+  email: text("email"), // Who the invitation was sent to, if anyone
+  role: gardenRoleEnum("role").notNull().default("caretaker"),
+  token: text("token").notNull().unique(),
+  invitedBy: integer("invited_by").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  acceptedBy: integer("accepted_by").references(() => users.id, { onDelete: "set null" }),
+});
+
+// Vacation mode: a time-limited link that lets a sitter care for several plants without an account
+export const sitterLinks = pgTable("sitter_links", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  shareId: text("share_id").notNull().unique(),
+  sitterName: text("sitter_name"),
+  instructions: text("instructions"),
+  startsAt: timestamp("starts_at").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  active: boolean("active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  lastAccessed: timestamp("last_accessed"),
+  reportSentAt: timestamp("report_sent_at"), // When the owner was sent the summary
+});
+
+export const sitterLinkPlants = pgTable("sitter_link_plants", {
+  id: serial("id").primaryKey(),
+  sitterLinkId: integer("sitter_link_id").notNull().references(() => sitterLinks.id, { onDelete: "cascade" }),
+  plantId: integer("plant_id").notNull().references(() => plants.id, { onDelete: "cascade" }),
+});
+
+export const insertSitterLinkSchema = z.object({
+  plantIds: z.array(z.number().int().positive()).min(1, "Choose at least one plant").max(100),
+  sitterName: z.string().trim().max(100).nullable().optional(),
+  instructions: z.string().trim().max(2000).nullable().optional(),
+  startsAt: z.coerce.date(),
+  expiresAt: z.coerce.date(),
+}).refine(data => data.expiresAt.getTime() > data.startsAt.getTime(), {
+  message: "The link must end after it starts",
+  path: ["expiresAt"],
+}).refine(data => data.expiresAt.getTime() - data.startsAt.getTime() <= 60 * 24 * 60 * 60 * 1000, {
+  message: "Sitter links can last at most 60 days",
+  path: ["expiresAt"],
+});
+
+// Care a sitter can log through a sitter link
+export const sitterCareLogSchema = z.object({
+  plantId: z.number().int().positive(),
+  careType: z.enum(["water", "fertilize", "repot", "prune", "other"]),
+  notes: z.string().trim().max(1000).nullable().optional(),
+});
+
+// Responses from the AI gateway, keyed by a hash of the request (or an explicit key)
+export const aiResponseCache = pgTable("ai_response_cache", {
+  cacheKey: text("cache_key").primaryKey(),
+  feature: text("feature").notNull(),
+  response: jsonb("response").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+// One row per AI request, for cost accounting and daily quotas
+export const aiUsage = pgTable("ai_usage", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }), // Null for anonymous or background calls
+  feature: text("feature").notNull(),
+  model: text("model").notNull(),
+  promptTokens: integer("prompt_tokens").notNull().default(0),
+  completionTokens: integer("completion_tokens").notNull().default(0),
+  estimatedCost: real("estimated_cost").notNull().default(0), // USD
+  cached: boolean("cached").notNull().default(false),
+  success: boolean("success").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// AI features whose results are kept as reports (see server/services/aiReports.ts)
+export const AI_REPORT_FEATURES = [
+  'personalized_advice',
+  'seasonal_care',
+  'arrangement',
+  'growth_analysis',
+  'care_schedule',
+] as const;
+
+// Results of the AI tools, so they can be re-opened and compared later
+export const aiReports = pgTable("ai_reports", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  feature: text("feature").notNull().$type<AiReportFeature>(),
+  plantIds: integer("plant_ids").array().notNull().$type<number[]>(), // The plant(s) the report is about
+  inputHash: text("input_hash").notNull(), // Hash of the feature, plants and request, to spot repeated runs
+  input: jsonb("input").notNull(), // The request, without images
+  result: jsonb("result").notNull(),
+  actionReminders: jsonb("action_reminders").notNull().default({}).$type<Record<string, number>>(), // Action id -> reminder made from it
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// An AI care schedule applied to the user's reminders, with what's needed to undo it
+export const scheduleApplications = pgTable("schedule_applications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  reportId: integer("report_id").references(() => aiReports.id, { onDelete: "set null" }),
+  changes: jsonb("changes").notNull().$type<ScheduleChange[]>(), // The changes that were applied
+  previousReminders: jsonb("previous_reminders").notNull().$type<Reminder[]>(), // Moved and deleted reminders as they were before
+  createdReminderIds: integer("created_reminder_ids").array().notNull().$type<number[]>(),
+  rolledBackAt: timestamp("rolled_back_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const applyScheduleSchema = z.object({
+  changeIds: z.array(z.string().min(1)).min(1).max(500),
+});
+
+// Per-user social stats, rebuilt periodically from follows and activity (see server/services/discoverRanking.ts)
+export const userRankings = pgTable("user_rankings", {
+  userId: integer("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  followers: integer("followers").notNull().default(0),
+  followerGrowth: integer("follower_growth").notNull().default(0), // New followers within the trending window
+  recentActivity: integer("recent_activity").notNull().default(0), // Public activity within the trending window
+  plantsCount: integer("plants_count").notNull().default(0),
+  trendingScore: doublePrecision("trending_score").notNull().default(0),
+  refreshedAt: timestamp("refreshed_at").notNull().defaultNow(),
+});
+
+// Environmental sensors (ESP32 boards, Home Assistant, an MQTT bridge...) that
+// post readings for a plant. Devices authenticate with a token that is only
+// stored hashed.
+export const sensorDevices = pgTable("sensor_devices", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  plantId: integer("plant_id").references(() => plants.id, { onDelete: "set null" }), // Readings are rejected while unassigned
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  tokenPrefix: text("token_prefix").notNull(), // Start of the token, to tell devices apart
+  dryThreshold: real("dry_threshold"), // Soil moisture (%) below which the plant needs water; null for SENSOR_DRY_THRESHOLD
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastSeenAt: timestamp("last_seen_at"),
+});
+
+// Raw readings, kept for SENSOR_RAW_RETENTION_DAYS and then rolled up into
+// sensor_readings_hourly (see server/services/sensors.ts)
+export const sensorReadings = pgTable("sensor_readings", {
+  id: serial("id").primaryKey(),
+  deviceId: integer("device_id").notNull().references(() => sensorDevices.id, { onDelete: "cascade" }),
+  plantId: integer("plant_id").notNull().references(() => plants.id, { onDelete: "cascade" }),
+  metric: sensorMetricEnum("metric").notNull(),
+  value: real("value").notNull(),
+  recordedAt: timestamp("recorded_at").notNull(),
+});
+
+export const sensorReadingsHourly = pgTable("sensor_readings_hourly", {
+  id: serial("id").primaryKey(),
+  deviceId: integer("device_id").notNull().references(() => sensorDevices.id, { onDelete: "cascade" }),
+  plantId: integer("plant_id").notNull().references(() => plants.id, { onDelete: "cascade" }),
+  metric: sensorMetricEnum("metric").notNull(),
+  hour: timestamp("hour").notNull(),
+  average: real("average").notNull(),
+  minimum: real("minimum").notNull(),
+  maximum: real("maximum").notNull(),
+  samples: integer("samples").notNull(),
+});
+
+export const sensorReadingSchema = z.object({
+  metric: z.enum(sensorMetricEnum.enumValues),
+  value: z.number().finite(),
+  recordedAt: z.coerce.date().optional(), // Defaults to when the reading arrives
+});
+
+// Devices can post one reading or a batch
+export const sensorReadingsUploadSchema = z.union([
+  z.object({ readings: z.array(sensorReadingSchema).min(1).max(500) }),
+  sensorReadingSchema.transform(reading => ({ readings: [reading] })),
+]);
+
+export const createSensorDeviceSchema = z.object({
+  name: z.string().trim().min(1, "Device name is required").max(100),
+  plantId: z.number().int().positive().nullable().optional(),
+  dryThreshold: z.number().min(0).max(100).nullable().optional(),
+});
+
+export const updateSensorDeviceSchema = createSensorDeviceSchema.partial();
+
+// Care logged from the MQTT command topic (an irrigation valve, a Home Assistant
+// automation...), authenticated with one of the user's sensor device tokens
+export const mqttCareCommandSchema = z.object({
+  token: z.string().min(1),
+  plantId: z.number().int().positive(),
+  careType: z.enum(careTypeEnum.enumValues),
+  notes: z.string().trim().max(1000).optional(),
+});
+
+// Activity types that webhooks can subscribe to
+export const WEBHOOK_EVENT_TYPES = [
+  'plant_added', 'care_log_added', 'reminder_due', 'diagnosis_completed', 'follow_user',
+] as const satisfies readonly (typeof activityTypeEnum.enumValues)[number][];
+
+// Endpoints a user has registered to receive garden events (Zapier, n8n, their own bots...)
+export const webhookEndpoints = pgTable("webhook_endpoints", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  url: text("url").notNull(),
+  description: text("description"),
+  secret: text("secret").notNull(), // Signs every payload; only returned when it is created or rotated
+  eventTypes: text("event_types").array().notNull().$type<WebhookEventType[]>(),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One event to one endpoint: the retry queue and the delivery log. Retries keep
+// the same event_id so receivers can drop duplicates.
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  endpointId: integer("endpoint_id").notNull().references(() => webhookEndpoints.id, { onDelete: "cascade" }),
+  eventId: text("event_id").notNull(),
+  eventType: text("event_type").notNull(), // A webhook event type, or "test"
+  payload: jsonb("payload").notNull(),
+  status: webhookDeliveryStatusEnum("status").notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at"), // Null once delivered or given up on
+  lastAttemptAt: timestamp("last_attempt_at"),
+  responseStatus: integer("response_status"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  deliveredAt: timestamp("delivered_at"),
+});
+
+export const createWebhookEndpointSchema = z.object({
+  url: z.string().trim().url("Enter a valid URL").max(2000),
+  description: z.string().trim().max(200).optional(),
+  eventTypes: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1, "Pick at least one event"),
+});
+
+export const updateWebhookEndpointSchema = createWebhookEndpointSchema.partial().extend({
+  active: z.boolean().optional(),
+});
+
+// What a personal access token may do in the /api/v1 API, per resource
+export const API_TOKEN_SCOPES = [
+  'plants:read', 'plants:write',
+  'care_logs:read', 'care_logs:write',
+  'reminders:read', 'reminders:write',
+  'profile:read',
+] as const;
+
+// Personal access tokens for scripts and integrations, sent as "Authorization: Bearer"
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  tokenPrefix: text("token_prefix").notNull(), // Start of the token, to tell tokens apart
+  scopes: text("scopes").array().notNull().$type<ApiTokenScope[]>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  expiresAt: timestamp("expires_at"), // Null for tokens that don't expire
+  revokedAt: timestamp("revoked_at"),
+});
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1, "Pick at least one scope"),
+  expiresInDays: z.number().int().min(1).max(365).nullable().optional(),
+});
+
+export const insertGardenSchema = z.object({
+  name: z.string().trim().min(1, "Garden name is required").max(100),
+});
+
+export const insertGardenInvitationSchema = z.object({
+  email: z.string().email().nullable().optional(),
+  role: z.enum(gardenRoleEnum.enumValues).default('caretaker'),
+});
+
 export const insertProfileSettingsSchema = createInsertSchema(profileSettings).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  lastDigestSentAt: true,
+}).extend({
+  digestHour: z4.number().int().min(0).max(23).optional(),
+  quietHoursStart: z4.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/).nullable().optional(),
+  quietHoursEnd: z4.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/).nullable().optional(),
+});
+
+export const insertPushSubscriptionSchema = createInsertSchema(pushSubscriptions).omit({
+  id: true,
+  createdAt: true,
 });
 
 
@@ -312,15 +969,43 @@ export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type Plant = typeof plants.$inferSelect;
 export type InsertPlant = z.infer<typeof insertPlantSchema>;
+export type PropagationMethod = (typeof propagationMethodEnum.enumValues)[number];
+export type PropagatePlant = z.infer<typeof propagatePlantSchema>;
+export type PlantTransfer = typeof plantTransfers.$inferSelect;
+export type PlantTransferStatus = (typeof plantTransferStatusEnum.enumValues)[number];
 export type CareLog = typeof careLogs.$inferSelect;
 export type InsertCareLog = z.infer<typeof insertCareLogSchema>;
 export type PlantGuide = typeof plantGuides.$inferSelect;
 export type InsertPlantGuide = z.infer<typeof insertPlantGuideSchema>;
+export type Species = typeof species.$inferSelect;
+export type InsertSpecies = z.infer<typeof insertSpeciesSchema>;
+// How a plant's name was matched to the catalogue, most to least specific
+export type SpeciesMatchType = "exact" | "synonym" | "common_name" | "fuzzy" | "genus" | "family";
+export type SpeciesGuide = Species & {
+  matchType: SpeciesMatchType;
+  // Single values derived from the care ranges, for places that show one number
+  commonName: string;
+  idealWaterFrequency: number;
+  idealSunlight: typeof sunlightLevelEnum.enumValues[number];
+  idealFertilizerFrequency: number;
+};
 export type Reminder = typeof reminders.$inferSelect;
 export type InsertReminder = z.infer<typeof insertReminderSchema>;
 export type CommunityTip = typeof communityTips.$inferSelect;
 export type InsertCommunityTip = z.infer<typeof insertCommunityTipSchema>;
+export type Photo = typeof photos.$inferSelect;
+export type InsertPhoto = z.infer<typeof insertPhotoSchema>;
 export type TipVote = typeof tipVotes.$inferSelect;
+export type TipStatus = (typeof tipStatusEnum.enumValues)[number];
+export type TipReport = typeof tipReports.$inferSelect;
+export type TipReportReason = (typeof tipReportReasonEnum.enumValues)[number];
+export type ModerationAction = typeof moderationActions.$inferSelect;
+export type ModerationActionType = (typeof moderationActionEnum.enumValues)[number];
+export type ModerateTip = z.infer<typeof moderateTipSchema>;
+export type UserRole = (typeof userRoleEnum.enumValues)[number];
+export type Comment = typeof comments.$inferSelect;
+export type CommentTarget = (typeof commentTargetEnum.enumValues)[number];
+export type Notification = typeof notifications.$inferSelect;
 export type InsertTipVote = z.infer<typeof insertTipVoteSchema>;
 export type SharedPlantLink = typeof sharedPlantLinks.$inferSelect;
 export type InsertSharedPlantLink = z.infer<typeof insertSharedPlantLinkSchema>;
@@ -333,11 +1018,71 @@ export type InsertActivityFeed = z.infer<typeof insertActivityFeedSchema>;
 export type ProfileSettings = typeof profileSettings.$inferSelect;
 export type InsertProfileSettings = z.infer<typeof insertProfileSettingsSchema>;
 
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+export type PushSubscription = typeof pushSubscriptions.$inferSelect;
+export type InsertPushSubscription = z.infer<typeof insertPushSubscriptionSchema>;
+export type Garden = typeof gardens.$inferSelect;
+export type InsertGarden = z.infer<typeof insertGardenSchema>;
+export type GardenMember = typeof gardenMembers.$inferSelect;
+export type GardenInvitation = typeof gardenInvitations.$inferSelect;
+export type CareType = (typeof careTypeEnum.enumValues)[number];
+export type GrowthMetric = (typeof GROWTH_METRICS)[number];
+export type GrowthMeasurements = Partial<Record<GrowthMetric, number>>;
+export type CareLogMetadata = z4.infer<typeof careLogMetadataSchema>;
+export type PlantIdentityCheck = z4.infer<typeof plantIdentityCheckSchema>;
+export type WateringMethod = (typeof WATERING_METHODS)[number];
+export type GardenRole = (typeof gardenRoleEnum.enumValues)[number];
+export type SitterLink = typeof sitterLinks.$inferSelect;
+export type InsertSitterLink = z.infer<typeof insertSitterLinkSchema>;
+export type SitterLinkPlant = typeof sitterLinkPlants.$inferSelect;
+export type SensorDevice = typeof sensorDevices.$inferSelect;
+export type SensorMetric = (typeof sensorMetricEnum.enumValues)[number];
+export type SensorReading = typeof sensorReadings.$inferSelect;
+export type SensorReadingInput = z.infer<typeof sensorReadingSchema>;
+export type MqttCareCommand = z.infer<typeof mqttCareCommandSchema>;
+export type ActivityType = (typeof activityTypeEnum.enumValues)[number];
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type WebhookDeliveryStatus = (typeof webhookDeliveryStatusEnum.enumValues)[number];
+export type CreateWebhookEndpoint = z.infer<typeof createWebhookEndpointSchema>;
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type CreateApiToken = z.infer<typeof createApiTokenSchema>;
+export type AiResponseCacheEntry = typeof aiResponseCache.$inferSelect;
+export type AiUsage = typeof aiUsage.$inferSelect;
+export type AiReportFeature = (typeof AI_REPORT_FEATURES)[number];
+export type AiReport = typeof aiReports.$inferSelect;
+export type InsertAiReport = typeof aiReports.$inferInsert;
+export type ScheduleApplication = typeof scheduleApplications.$inferSelect;
+export type ApplySchedule = z.infer<typeof applyScheduleSchema>;
+export type InsertAiUsage = typeof aiUsage.$inferInsert;
+
 // Extended types
 export type PlantWithCare = Plant & {
   nextWatering: Date | null;
   nextFertilizing: Date | null;
-  guide?: PlantGuide;
+  guide?: SpeciesGuide;
+};
+export type GardenMemberWithUser = GardenMember & {
+  username: string;
+  displayName: string | null;
+  avatarUrl: string | null;
+};
+// Aggregated AI usage over a period
+export type AiUsageTotals = {
+  requests: number;
+  cachedRequests: number;
+  failedRequests: number;
+  promptTokens: number;
+  completionTokens: number;
+  estimatedCost: number;
+};
+
+export type GardenWithRole = Garden & {
+  role: GardenRole;
+  memberCount: number;
+  plantCount: number;
 };
 export type CommunityTipWithUser = CommunityTip & {
   username: string;
@@ -346,6 +1091,182 @@ export type CommunityTipWithUser = CommunityTip & {
   userHasLiked?: boolean;
 };
 
+// A tip waiting for moderation: it has open reports, or was hidden automatically
+export type ModerationQueueItem = {
+  tip: CommunityTipWithUser;
+  openReports: number;
+  reasons: TipReportReason[];
+  lastReportedAt: Date | null;
+};
+export type TipReportWithReporter = TipReport & {
+  reporterUsername: string;
+};
+export type ModerationActionWithModerator = ModerationAction & {
+  moderatorUsername: string | null; // null for automatic actions
+};
+export type StaffMember = Pick<User, "id" | "username" | "displayName" | "role">;
+
+export type CommentAuthor = Pick<User, "id" | "username" | "displayName" | "avatarUrl">;
+// A comment as shown in a thread; removed or hidden comments that still have
+// replies are kept as placeholders with their content blanked
+export type CommentWithAuthor = Omit<Comment, "content"> & {
+  content: string | null;
+  author: CommentAuthor;
+  canEdit: boolean;
+  canDelete: boolean;
+};
+export type CommentThread = CommentWithAuthor & {
+  replies: CommentWithAuthor[];
+};
+
+// A plant in a family tree. Plants the viewer can't see (e.g. a parent plant
+// in someone else's private collection) only show their species and owner.
+export type PlantLineageNode = {
+  id: number;
+  parentPlantId: number | null;
+  name: string | null;
+  scientificName: string | null;
+  image: string | null;
+  ownerUsername: string;
+  propagationMethod: PropagationMethod | null;
+  propagatedAt: Date | null;
+  accessible: boolean;
+};
+// The whole family of a plant, from its oldest known ancestor down
+export type PlantLineage = {
+  plantId: number;
+  rootId: number;
+  nodes: PlantLineageNode[];
+  truncated: boolean; // More relatives exist than were returned
+};
+export type PlantTransferWithDetails = PlantTransfer & {
+  plantName: string;
+  scientificName: string | null;
+  image: string | null;
+  fromUsername: string;
+  toUsername: string;
+};
+
+// A sensor device as shown to its owner; the token itself is only returned once, when it is issued
+export type SensorDeviceSummary = Omit<SensorDevice, "tokenHash">;
+// One averaged point of a plant's sensor chart
+export type SensorPoint = {
+  time: string;
+  average: number;
+  minimum: number;
+  maximum: number;
+};
+export type SensorSeries = {
+  metric: SensorMetric;
+  points: SensorPoint[];
+  latest: { value: number; recordedAt: Date } | null;
+};
+// GET /api/plants/:id/sensors
+export type PlantSensorData = {
+  range: "24h" | "7d" | "30d";
+  devices: SensorDeviceSummary[];
+  series: SensorSeries[];
+  dryThreshold: number | null; // Soil moisture that counts as dry, when a device reports it
+};
+// A care log with a photo or growth measurements, as a point on a plant's growth timeline
+export type GrowthEntry = {
+  careLogId: number;
+  timestamp: string;
+  careType: CareType;
+  photo: string | null;
+  measurements: GrowthMeasurements | null;
+};
+// GET /api/plants/:id/growth, oldest entry first
+export type GrowthTimeline = {
+  plantId: number;
+  entries: GrowthEntry[];
+  photoCount: number;
+};
+// A webhook endpoint as listed to its owner, without its signing secret
+export type WebhookEndpointSummary = Omit<WebhookEndpoint, "secret"> & {
+  secretHint: string; // Last characters of the secret, to tell which one a receiver has
+  lastDelivery: Pick<WebhookDelivery, "status" | "eventType" | "responseStatus" | "createdAt"> | null;
+};
+
+// A personal access token as listed to its owner, without its hash
+export type ApiTokenSummary = Omit<ApiToken, "tokenHash">;
+
+// An action item in an AI report that can be turned into a reminder
+export type AiReportAction = {
+  id: string; // Section and position, e.g. "thisWeek.0"
+  text: string;
+  plantId: number;
+  careType: CareType;
+  dueInDays: number;
+  reminderId: number | null; // Set once a reminder was made from it
+};
+
+// An AI report as returned by /api/ai-reports
+export type AiReportWithActions = AiReport & { actions: AiReportAction[] };
+
+// One reminder change needed to follow an AI care schedule
+export type ScheduleChange = {
+  id: string; // Stable across previews, e.g. "move:42" or "create:7:water:2026-10-21T08:00:00.000Z"
+  type: "create" | "move" | "delete";
+  plantId: number;
+  plantName: string;
+  careType: CareType;
+  reminderId: number | null; // The existing reminder, for moves and deletes
+  title: string;
+  fromDueDate: string | null;
+  dueDate: string | null;
+  fromInterval: number | null;
+  recurringInterval: number | null;
+};
+
+// What applying an AI care schedule would change, as returned by /api/ai-reports/:id/schedule
+export type SchedulePreview = {
+  reportId: number;
+  timezone: string;
+  changes: ScheduleChange[];
+  unchanged: number; // Reminders that already match the schedule
+  unmatchedTasks: string[]; // Tasks whose plant couldn't be found or that couldn't be read, e.g. "Monday: water Fern"
+};
+
+// A user card on the discover page
+export type DiscoverUser = {
+  user: Omit<User, "password" | "email">;
+  followers: number;
+  following: number;
+  plantsCount: number;
+  isFollowing: boolean;
+  reason?: string; // Why a suggestion was made, e.g. "Also grows Monstera deliciosa"
+};
+// One page of suggested or trending users; pass nextCursor back as ?cursor= for the next page
+export type DiscoverPage = {
+  users: DiscoverUser[];
+  nextCursor: string | null;
+};
+
+// Full-text search (GET /api/search)
+export const SEARCH_RESULT_TYPES = ["plant", "care_log", "tip", "guide", "profile"] as const;
+export type SearchResultType = typeof SEARCH_RESULT_TYPES[number];
+// A piece of a result's snippet; `match` marks the words that matched the query
+export type SearchHighlight = { text: string; match: boolean };
+export type SearchResult = {
+  type: SearchResultType;
+  id: number;
+  title: string;
+  subtitle: string | null;
+  highlight: SearchHighlight[];
+  image: string | null;
+  plantId: number | null; // Plant to open for plant and care log results
+  username: string | null; // Profile to open for profile results
+  score: number;
+};
+export type SearchResponse = {
+  query: string;
+  results: SearchResult[];
+  total: number;
+  page: number;
+  limit: number;
+};
+
 // --> Recommendation: Export enum values from the pgEnum definitions for use in the frontend.
 export const SUNLIGHT_LEVELS = sunlightLevelEnum.enumValues;
 export const CARE_TYPES = careTypeEnum.enumValues;
@@ -353,4 +1274,11 @@ export const PLANT_STATUSES = plantStatusEnum.enumValues;
 export const REMINDER_STATUSES = reminderStatusEnum.enumValues;
 export const CARE_CATEGORIES = careCategoryEnum.enumValues;
 export const TIP_STATUSES = tipStatusEnum.enumValues;
-export const ACTIVITY_TYPES = activityTypeEnum.enumValues;
\ No newline at end of file
+export const ACTIVITY_TYPES = activityTypeEnum.enumValues;
+export const GARDEN_ROLES = gardenRoleEnum.enumValues;
+export const TAXON_RANKS = taxonRankEnum.enumValues;
+export const USER_ROLES = userRoleEnum.enumValues;
+export const TIP_REPORT_REASONS = tipReportReasonEnum.enumValues;
+export const COMMENT_TARGETS = commentTargetEnum.enumValues;
+export const PROPAGATION_METHODS = propagationMethodEnum.enumValues;
+export const SENSOR_METRICS = sensorMetricEnum.enumValues;
\ No newline at end of file